@@ -23,7 +23,11 @@ import StudentsPage from "@/pages/instructor/students";
 import AnalyticsPage from "@/pages/instructor/analytics";
 import SettingsPage from "@/pages/instructor/settings";
 import ProfilePage from "@/pages/instructor/profile";
+import LtiDeepLinkPage from "@/pages/instructor/lti-deep-link";
+import LtiLinkPage from "@/pages/lti-link";
 import SubmitAssignment from "@/pages/submit";
+import JoinCoursePage from "@/pages/join";
+import GuestPage, { GuestAccessPage } from "@/pages/guest";
 import AdminDashboard from "@/pages/admin/dashboard";
 import UsersPage from "@/pages/admin/users";
 import DataProtection from "@/pages/admin/DataProtection";
@@ -125,6 +129,9 @@ function Router() {
       <Route path="/instructor/profile">
         {() => <PrivateRoute component={ProfilePage} requireRole="instructor" />}
       </Route>
+      <Route path="/instructor/lti/deep-link">
+        {() => <PrivateRoute component={LtiDeepLinkPage} requireRole="instructor" />}
+      </Route>
       
       {/* Admin Routes */}
       <Route path="/admin/dashboard">
@@ -150,6 +157,18 @@ function Router() {
       <Route path="/submit/:code">
         {(params) => <SubmitAssignment code={params.code} />}
       </Route>
+
+      {/* Course join link; the page sends signed-out students to login and back */}
+      <Route path="/join/:code">
+        {(params) => <JoinCoursePage code={params.code} />}
+      </Route>
+
+      {/* LMS users confirm linking an LTI launch to their existing account */}
+      <Route path="/lti/link" component={LtiLinkPage} />
+
+      {/* Guests who submitted through a shareable link sign in from their email */}
+      <Route path="/guest/access" component={GuestAccessPage} />
+      <Route path="/guest" component={GuestPage} />
       
       {/* Redirect root to dashboard or login */}
       <Route path="/" component={RoleBasedRedirect} />
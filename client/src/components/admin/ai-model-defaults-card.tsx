@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+import { AIModelChoice, AIModelConfig } from "@shared/schema";
+import { ModelChainEditor, AIModelSettings, describeChain } from "@/components/instructor/ai-model-panel";
+
+interface Course {
+  id: number;
+  name: string;
+  code: string;
+}
+
+const SYSTEM_SCOPE = "system";
+
+/**
+ * System and per-course default grading models. Assignments without their
+ * own model choice use the course default, then the system default.
+ */
+export function AIModelDefaultsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState(SYSTEM_SCOPE);
+  const [chain, setChain] = useState<AIModelChoice[]>([]);
+
+  const { data: systemSettings } = useQuery<AIModelSettings>({ queryKey: [API_ROUTES.AI_MODEL_DEFAULT] });
+  const { data: courses = [] } = useQuery<Course[]>({ queryKey: [API_ROUTES.COURSES] });
+
+  const scopeUrl = scope === SYSTEM_SCOPE
+    ? API_ROUTES.AI_MODEL_DEFAULT
+    : `/api/admin/courses/${scope}/ai-model`;
+  const { data: scopeSettings } = useQuery<{ aiModel: AIModelConfig | null }>({ queryKey: [scopeUrl] });
+
+  useEffect(() => {
+    const fallback = systemSettings?.aiModel || systemSettings?.effective;
+    setChain(scopeSettings?.aiModel?.chain || fallback?.chain || []);
+  }, [scopeSettings, systemSettings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (aiModel: AIModelConfig | null) => {
+      const response = await apiRequest('PUT', scopeUrl, { aiModel });
+      return await response.json();
+    },
+    onSuccess: (_data, aiModel) => {
+      queryClient.invalidateQueries({ queryKey: [scopeUrl] });
+      queryClient.invalidateQueries({ queryKey: [API_ROUTES.AI_MODEL_DEFAULT] });
+      toast({
+        title: aiModel ? "Default models saved" : "Default models cleared",
+        description: "Assignments without their own model choice will use the new default.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the default grading models.",
+      });
+    }
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Default Grading Models</CardTitle>
+        <CardDescription>
+          {systemSettings
+            ? `Assignments without a model choice are graded by ${describeChain(systemSettings.effective)}.`
+            : "Choose which models grade assignments that do not pick their own."}
+          {" "}If a model errors or times out, the next one in the list is tried.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1 max-w-sm">
+          <Label>Applies to</Label>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SYSTEM_SCOPE}>All courses (system default)</SelectItem>
+              {courses.map((course) => (
+                <SelectItem key={course.id} value={String(course.id)}>{course.code} — {course.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ModelChainEditor
+          chain={chain}
+          configuredProviders={systemSettings?.configuredProviders || []}
+          onChange={setChain}
+        />
+      </CardContent>
+      <CardFooter className="border-t pt-4 flex justify-end gap-2">
+        {scopeSettings?.aiModel && (
+          <Button variant="ghost" onClick={() => saveMutation.mutate(null)} disabled={saveMutation.isPending}>
+            Clear
+          </Button>
+        )}
+        <Button onClick={() => saveMutation.mutate({ chain })} disabled={chain.length === 0 || saveMutation.isPending}>
+          Save Default
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+import { Plus, Trash2 } from "lucide-react";
+
+interface LtiPlatform {
+  id: number;
+  name: string;
+  issuer: string;
+  clientId: string;
+  deploymentId: string | null;
+  authLoginUrl: string;
+  authTokenUrl: string;
+  jwksUrl: string;
+  active: boolean;
+}
+
+interface LtiToolConfig {
+  loginUrl: string;
+  launchUrl: string;
+  deepLinkingUrl: string;
+  jwksUrl: string;
+}
+
+const emptyPlatform = {
+  name: "",
+  issuer: "",
+  clientId: "",
+  deploymentId: "",
+  authLoginUrl: "",
+  authTokenUrl: "",
+  jwksUrl: "",
+};
+
+const platformFields: { key: keyof typeof emptyPlatform; label: string; placeholder: string }[] = [
+  { key: "name", label: "Name", placeholder: "University Canvas" },
+  { key: "issuer", label: "Issuer", placeholder: "https://canvas.instructure.com" },
+  { key: "clientId", label: "Client ID", placeholder: "10000000000001" },
+  { key: "deploymentId", label: "Deployment ID (optional)", placeholder: "1:abc123" },
+  { key: "authLoginUrl", label: "Authentication request URL", placeholder: "https://sso.canvaslms.com/api/lti/authorize_redirect" },
+  { key: "authTokenUrl", label: "Access token URL", placeholder: "https://sso.canvaslms.com/login/oauth2/token" },
+  { key: "jwksUrl", label: "Public keyset URL", placeholder: "https://sso.canvaslms.com/api/lti/security/jwks" },
+];
+
+/**
+ * Registers LTI 1.3 platforms and shows the tool URLs to enter in the LMS
+ */
+export function LtiPlatformsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyPlatform);
+
+  const { data: platforms = [] } = useQuery<LtiPlatform[]>({ queryKey: [API_ROUTES.LTI_PLATFORMS] });
+  const { data: toolConfig } = useQuery<LtiToolConfig>({ queryKey: [API_ROUTES.LTI_CONFIG] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ROUTES.LTI_PLATFORMS, {
+        ...form,
+        deploymentId: form.deploymentId || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ROUTES.LTI_PLATFORMS] });
+      setIsDialogOpen(false);
+      setForm(emptyPlatform);
+      toast({ title: "Platform Registered", description: "The LMS can now launch the tool" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to register platform" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${API_ROUTES.LTI_PLATFORMS}/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [API_ROUTES.LTI_PLATFORMS] });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to remove platform" });
+    },
+  });
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>LTI 1.3 Platforms</CardTitle>
+          <CardDescription>
+            LMS platforms that launch assignments directly and receive grades through LTI
+          </CardDescription>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              Register Platform
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Register an LTI Platform</DialogTitle>
+              <DialogDescription>
+                Copy these values from the developer key or tool registration in your LMS
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-3">
+              {platformFields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`lti-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`lti-${field.key}`}
+                    placeholder={field.placeholder}
+                    value={form[field.key]}
+                    onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={createMutation.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                {createMutation.isPending ? "Saving..." : "Register"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {toolConfig && (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p className="font-medium">Tool configuration for your LMS</p>
+            <p>Login initiation URL: <code>{toolConfig.loginUrl}</code></p>
+            <p>Redirect / launch URL: <code>{toolConfig.launchUrl}</code></p>
+            <p>Deep linking URL: <code>{toolConfig.deepLinkingUrl}</code></p>
+            <p>Public keyset URL: <code>{toolConfig.jwksUrl}</code></p>
+          </div>
+        )}
+
+        {platforms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No LTI platforms registered</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Issuer</TableHead>
+                <TableHead>Client ID</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {platforms.map(platform => (
+                <TableRow key={platform.id}>
+                  <TableCell className="font-medium">{platform.name}</TableCell>
+                  <TableCell>{platform.issuer}</TableCell>
+                  <TableCell>{platform.clientId}</TableCell>
+                  <TableCell>
+                    <Badge variant={platform.active ? "default" : "secondary"}>
+                      {platform.active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(platform.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
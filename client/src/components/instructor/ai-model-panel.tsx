@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { AIModelChoice, AIModelConfig } from "@shared/schema";
+import { Plus, Trash2 } from "lucide-react";
+
+type Provider = AIModelChoice['provider'];
+
+const PROVIDER_LABELS: Record<Provider, string> = {
+  gemini: "Google Gemini",
+  openai: "OpenAI",
+  anthropic: "Anthropic Claude",
+  local: "Local model",
+  mock: "Mock (testing only)",
+};
+
+// Providers that can be chosen; the mock only appears when the server runs with AI_PROVIDER=mock
+const SELECTABLE_PROVIDERS: Provider[] = ["gemini", "openai", "anthropic", "local"];
+
+const MAX_CHAIN_LENGTH = 5;
+
+const SOURCE_LABELS: Record<string, string> = {
+  assignment: "this assignment",
+  course: "the course default",
+  system: "the system default",
+  environment: "the server's configured providers",
+};
+
+export interface AIModelSettings {
+  aiModel: AIModelConfig | null;
+  effective: AIModelConfig;
+  source?: string;
+  configuredProviders: Provider[];
+}
+
+export function describeChain(config: AIModelConfig): string {
+  return config.chain
+    .map((choice) => choice.model ? `${PROVIDER_LABELS[choice.provider]} (${choice.model})` : PROVIDER_LABELS[choice.provider])
+    .join(" → ");
+}
+
+interface ModelChainEditorProps {
+  chain: AIModelChoice[];
+  configuredProviders: Provider[];
+  onChange: (chain: AIModelChoice[]) => void;
+}
+
+/**
+ * Ordered list of provider/model choices; grading falls back down the list
+ */
+export function ModelChainEditor({ chain, configuredProviders, onChange }: ModelChainEditorProps) {
+  const update = (index: number, choice: AIModelChoice) =>
+    onChange(chain.map((entry, i) => (i === index ? choice : entry)));
+
+  return (
+    <div className="space-y-3">
+      {chain.map((choice, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[7rem_1fr_1fr_auto] gap-2 items-end">
+          <span className="text-sm text-neutral-500 pb-2">{index === 0 ? "Primary" : `Fallback ${index}`}</span>
+          <div className="space-y-1">
+            <Label>Provider</Label>
+            <Select value={choice.provider} onValueChange={(value) => update(index, { provider: value as Provider })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SELECTABLE_PROVIDERS.map((provider) => (
+                  <SelectItem key={provider} value={provider}>
+                    {PROVIDER_LABELS[provider]}{configuredProviders.includes(provider) ? "" : " (not configured)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`ai-model-${index}`}>Model (optional)</Label>
+            <Input
+              id={`ai-model-${index}`}
+              value={choice.model || ""}
+              onChange={(e) => update(index, { provider: choice.provider, ...(e.target.value.trim() ? { model: e.target.value.trim() } : {}) })}
+              placeholder="Provider default"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(chain.filter((_, i) => i !== index))}
+            disabled={chain.length === 1}
+            aria-label="Remove model"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...chain, { provider: configuredProviders.find((p) => !chain.some((c) => c.provider === p)) || "gemini" }])}
+        disabled={chain.length >= MAX_CHAIN_LENGTH}
+      >
+        <Plus className="h-4 w-4 mr-1" /> Add fallback
+      </Button>
+    </div>
+  );
+}
+
+interface AIModelPanelProps {
+  assignmentId: number;
+}
+
+/**
+ * Per-assignment choice of grading models. Without one the course or
+ * system default applies.
+ */
+export function AIModelPanel({ assignmentId }: AIModelPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/ai-model`];
+  const { data: settings } = useQuery<AIModelSettings>({ queryKey });
+  const [chain, setChain] = useState<AIModelChoice[]>([]);
+  const [timeoutSeconds, setTimeoutSeconds] = useState('');
+
+  useEffect(() => {
+    if (!settings) return;
+    const config = settings.aiModel || settings.effective;
+    setChain(config.chain);
+    setTimeoutSeconds(String(config.timeoutSeconds || ''));
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (aiModel: AIModelConfig | null) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/ai-model`, { aiModel });
+      return await response.json();
+    },
+    onSuccess: (_data, aiModel) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({
+        title: aiModel ? "Grading models saved" : "Using default models",
+        description: aiModel
+          ? "New submissions will be graded with the selected models."
+          : "New submissions will be graded with the course or system default.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the grading models.",
+      });
+    }
+  });
+
+  if (!settings) return null;
+
+  const buildConfig = (): AIModelConfig => ({
+    chain,
+    ...(parseInt(timeoutSeconds) > 0 ? { timeoutSeconds: parseInt(timeoutSeconds) } : {}),
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>AI Models</CardTitle>
+            <CardDescription>
+              Currently graded by {describeChain(settings.effective)}, from {SOURCE_LABELS[settings.source || 'environment']}.
+              If a model errors or times out, the next one in the list is tried.
+            </CardDescription>
+          </div>
+          {settings.aiModel ? (
+            <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-200">Custom</Badge>
+          ) : (
+            <Badge variant="secondary">Default</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ModelChainEditor chain={chain} configuredProviders={settings.configuredProviders} onChange={setChain} />
+        <div className="space-y-1 max-w-xs">
+          <Label htmlFor="ai-model-timeout">Time limit per model (seconds)</Label>
+          <Input
+            id="ai-model-timeout"
+            type="number"
+            min={10}
+            max={600}
+            value={timeoutSeconds}
+            onChange={(e) => setTimeoutSeconds(e.target.value)}
+            placeholder="120"
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="border-t pt-4 flex justify-end gap-2">
+        {settings.aiModel && (
+          <Button
+            variant="ghost"
+            onClick={() => saveMutation.mutate(null)}
+            disabled={saveMutation.isPending}
+          >
+            Use Default
+          </Button>
+        )}
+        <Button
+          onClick={() => saveMutation.mutate(buildConfig())}
+          disabled={chain.length === 0 || saveMutation.isPending}
+        >
+          Save Models
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { AutograderConfig, AutograderResult, Rubric } from "@shared/schema";
+import { CheckCircle, XCircle } from "lucide-react";
+
+interface AutograderPanelProps {
+  assignmentId: number;
+  autograder?: AutograderConfig | null;
+  rubric?: Rubric | null;
+}
+
+const DEFAULT_CRITERION = 'default';
+
+const PLACEHOLDERS: Record<AutograderConfig['language'], string> = {
+  python: "from solution import add\n\ndef test_adds_numbers():\n    assert add(2, 3) == 5",
+  javascript: "const { add } = require('./solution');\n\ntest('adds numbers', () => {\n  assert.strictEqual(add(2, 3), 5);\n});",
+};
+
+/**
+ * Hidden test suite run against every submission. The pass rate scores one
+ * rubric criterion and the results are shared with the AI grader.
+ */
+export function AutograderPanel({ assignmentId, autograder, rubric }: AutograderPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [language, setLanguage] = useState<AutograderConfig['language']>(autograder?.language || 'python');
+  const [testCode, setTestCode] = useState(autograder?.testCode || '');
+  const [entryFile, setEntryFile] = useState(autograder?.entryFile || '');
+  const [criterionId, setCriterionId] = useState(autograder?.criterionId || DEFAULT_CRITERION);
+  const [timeoutSeconds, setTimeoutSeconds] = useState(String(autograder?.timeoutSeconds || ''));
+  const [solution, setSolution] = useState('');
+  const [checkResult, setCheckResult] = useState<AutograderResult | null>(null);
+
+  useEffect(() => {
+    setLanguage(autograder?.language || 'python');
+    setTestCode(autograder?.testCode || '');
+    setEntryFile(autograder?.entryFile || '');
+    setCriterionId(autograder?.criterionId || DEFAULT_CRITERION);
+    setTimeoutSeconds(String(autograder?.timeoutSeconds || ''));
+  }, [autograder]);
+
+  const buildConfig = (): AutograderConfig => ({
+    language,
+    testCode,
+    ...(entryFile.trim() ? { entryFile: entryFile.trim() } : {}),
+    ...(criterionId !== DEFAULT_CRITERION ? { criterionId } : {}),
+    ...(parseInt(timeoutSeconds) > 0 ? { timeoutSeconds: parseInt(timeoutSeconds) } : {}),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (config: AutograderConfig | null) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/autograder`, { autograder: config });
+      return await response.json();
+    },
+    onSuccess: (_data, config) => {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/details`] });
+      toast({
+        title: config ? "Test suite saved" : "Test suite removed",
+        description: config
+          ? "New submissions will be run against the tests before AI grading."
+          : "New submissions will be graded by the AI alone.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the test suite.",
+      });
+    }
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/autograder/check`, {
+        autograder: buildConfig(),
+        solution,
+      });
+      return await response.json() as AutograderResult;
+    },
+    onSuccess: setCheckResult,
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Check failed",
+        description: "The test suite could not be run.",
+      });
+    }
+  });
+
+  const criteria = rubric?.criteria || [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Automated Tests</CardTitle>
+            <CardDescription>
+              Run a hidden test suite against each submission in a sandbox. Students see which tests passed, not the tests themselves.
+            </CardDescription>
+          </div>
+          {autograder ? (
+            <Badge className="bg-green-100 text-green-800 hover:bg-green-200">Enabled</Badge>
+          ) : (
+            <Badge variant="secondary">Off</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label>Language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as AutograderConfig['language'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="python">Python</SelectItem>
+                <SelectItem value="javascript">JavaScript</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="autograder-entry-file">Entry file</Label>
+            <Input
+              id="autograder-entry-file"
+              value={entryFile}
+              onChange={(e) => setEntryFile(e.target.value)}
+              placeholder={language === 'python' ? 'solution.py' : 'solution.js'}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Scored criterion</Label>
+            <Select value={criterionId} onValueChange={setCriterionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_CRITERION}>First functionality criterion</SelectItem>
+                {criteria.map((criterion) => (
+                  <SelectItem key={criterion.id} value={criterion.id}>{criterion.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="autograder-timeout">Time limit (seconds)</Label>
+            <Input
+              id="autograder-timeout"
+              type="number"
+              min={1}
+              max={120}
+              value={timeoutSeconds}
+              onChange={(e) => setTimeoutSeconds(e.target.value)}
+              placeholder="30"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="autograder-tests">Test suite</Label>
+          <Textarea
+            id="autograder-tests"
+            value={testCode}
+            onChange={(e) => setTestCode(e.target.value)}
+            placeholder={PLACEHOLDERS[language]}
+            className="font-mono text-xs min-h-[200px]"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="autograder-solution">Reference solution (optional, for checking the tests)</Label>
+          <Textarea
+            id="autograder-solution"
+            value={solution}
+            onChange={(e) => setSolution(e.target.value)}
+            className="font-mono text-xs min-h-[120px]"
+          />
+        </div>
+        {checkResult && (
+          <div className="rounded-md border border-neutral-200 bg-neutral-50 p-3 text-sm">
+            <p className="font-medium mb-2">
+              {checkResult.passed}/{checkResult.total} tests passed ({checkResult.status})
+            </p>
+            {checkResult.error && <p className="text-red-600 mb-2">{checkResult.error}</p>}
+            <ul className="space-y-1">
+              {checkResult.tests.map((test, index) => (
+                <li key={index} className="flex items-start gap-1.5">
+                  {test.passed ? (
+                    <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                  )}
+                  <span className="font-mono text-xs">
+                    {test.name}{test.message ? ` — ${test.message}` : ''}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {checkResult.output && (
+              <pre className="mt-2 max-h-48 overflow-auto whitespace-pre-wrap text-xs text-neutral-600">{checkResult.output}</pre>
+            )}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t pt-4 flex justify-between">
+        <Button
+          variant="outline"
+          onClick={() => checkMutation.mutate()}
+          disabled={!testCode.trim() || checkMutation.isPending}
+        >
+          {checkMutation.isPending ? 'Running...' : 'Run Against Solution'}
+        </Button>
+        <div className="flex gap-2">
+          {autograder && (
+            <Button
+              variant="ghost"
+              onClick={() => saveMutation.mutate(null)}
+              disabled={saveMutation.isPending}
+            >
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate(buildConfig())}
+            disabled={!testCode.trim() || saveMutation.isPending}
+          >
+            Save Test Suite
+          </Button>
+        </div>
+      </CardFooter>
+    </Card>
+  );
+}
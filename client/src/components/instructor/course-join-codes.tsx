@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES, APP_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { Check, Copy, Link as LinkIcon, Trash2, X } from "lucide-react";
+
+interface CourseJoinCode {
+  id: number;
+  code: string;
+  expiresAt: string;
+  requireApproval: boolean;
+  restrictToAllowedDomains: boolean;
+  uses: number;
+  createdAt: string;
+}
+
+interface EnrollmentRequest {
+  id: number;
+  userId: number;
+  name: string;
+  email: string;
+  createdAt: string;
+}
+
+const EXPIRY_OPTIONS = [1, 7, 14, 30, 90, 180];
+
+/**
+ * Generate and revoke the codes students use to enroll themselves
+ */
+export function CourseJoinCodes({ courseId }: { courseId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const joinCodesUrl = `${API_ROUTES.COURSES}/${courseId}/join-codes`;
+  const [expiresInDays, setExpiresInDays] = useState(14);
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [restrictToAllowedDomains, setRestrictToAllowedDomains] = useState(false);
+
+  const { data: joinCodes = [], isLoading } = useQuery<CourseJoinCode[]>({ queryKey: [joinCodesUrl], enabled: !!courseId });
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Error", description: error.message || "Failed to update join codes" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", joinCodesUrl, { expiresInDays, requireApproval, restrictToAllowedDomains });
+      return response.json();
+    },
+    onSuccess: (joinCode: CourseJoinCode) => {
+      queryClient.invalidateQueries({ queryKey: [joinCodesUrl] });
+      toast({ title: "Join code created", description: `Students can join with ${joinCode.code}.` });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (joinCodeId: number) => {
+      const response = await apiRequest("DELETE", `${joinCodesUrl}/${joinCodeId}`);
+      return response.json();
+    },
+    onSuccess: (updated: CourseJoinCode[]) => queryClient.setQueryData([joinCodesUrl], updated),
+    onError,
+  });
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({ title: `${what} copied` });
+    } catch {
+      toast({ variant: "destructive", title: "Error", description: `Could not copy the ${what.toLowerCase()}` });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Join Codes</CardTitle>
+        <CardDescription>
+          Students who sign in can enroll themselves with a code or link until it expires.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-4 md:flex-row md:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="join-code-expiry">Expires after</Label>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(parseInt(value))}>
+              <SelectTrigger id="join-code-expiry" className="md:w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(days => (
+                  <SelectItem key={days} value={String(days)}>{days} day{days === 1 ? "" : "s"}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="join-code-approval" checked={requireApproval} onCheckedChange={setRequireApproval} />
+            <Label htmlFor="join-code-approval">Require approval</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="join-code-domains" checked={restrictToAllowedDomains} onCheckedChange={setRestrictToAllowedDomains} />
+            <Label htmlFor="join-code-domains">Allowed email domains only</Label>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending} className="md:ml-auto">
+            {createMutation.isPending ? "Creating..." : "New Join Code"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading join codes...</p>
+        ) : joinCodes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No join codes yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Rules</TableHead>
+                <TableHead>Used</TableHead>
+                <TableHead className="text-right"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {joinCodes.map(joinCode => {
+                const expired = new Date(joinCode.expiresAt).getTime() <= Date.now();
+                return (
+                  <TableRow key={joinCode.id} className={expired ? "text-muted-foreground" : undefined}>
+                    <TableCell className="font-mono">{joinCode.code}</TableCell>
+                    <TableCell>{expired ? "Expired" : formatDate(joinCode.expiresAt)}</TableCell>
+                    <TableCell className="space-x-1">
+                      {joinCode.requireApproval && <Badge variant="secondary">Approval</Badge>}
+                      {joinCode.restrictToAllowedDomains && <Badge variant="secondary">Domains</Badge>}
+                    </TableCell>
+                    <TableCell>{joinCode.uses}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Copy code ${joinCode.code}`}
+                        onClick={() => copy(joinCode.code, "Code")}
+                        disabled={expired}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Copy link for ${joinCode.code}`}
+                        onClick={() => copy(`${window.location.origin}${APP_ROUTES.JOIN_COURSE(joinCode.code)}`, "Link")}
+                        disabled={expired}
+                      >
+                        <LinkIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Revoke code ${joinCode.code}`}
+                        onClick={() => revokeMutation.mutate(joinCode.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Students who redeemed a code that requires approval
+ */
+export function EnrollmentRequests({ courseId }: { courseId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const requestsUrl = `${API_ROUTES.COURSES}/${courseId}/join-codes/requests`;
+
+  const { data: requests = [] } = useQuery<EnrollmentRequest[]>({ queryKey: [requestsUrl], enabled: !!courseId });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ requestId, decision }: { requestId: number; decision: "approve" | "deny" }) => {
+      const response = await apiRequest("POST", `${requestsUrl}/${requestId}/${decision}`);
+      return response.json();
+    },
+    onSuccess: (updated: EnrollmentRequest[], { decision }) => {
+      queryClient.setQueryData([requestsUrl], updated);
+      if (decision === "approve") {
+        queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.COURSES}/${courseId}/students`] });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to update the request" });
+    },
+  });
+
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Join Requests</CardTitle>
+        <CardDescription>Approving a request enrolls the student.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map(request => (
+              <TableRow key={request.id}>
+                <TableCell className="font-medium">{request.name}</TableCell>
+                <TableCell>{request.email}</TableCell>
+                <TableCell>{formatDate(request.createdAt)}</TableCell>
+                <TableCell className="text-right whitespace-nowrap">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Approve ${request.email}`}
+                    onClick={() => decideMutation.mutate({ requestId: request.id, decision: "approve" })}
+                    disabled={decideMutation.isPending}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Deny ${request.email}`}
+                    onClick={() => decideMutation.mutate({ requestId: request.id, decision: "deny" })}
+                    disabled={decideMutation.isPending}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+import { Trash2, UserPlus } from "lucide-react";
+import type { CourseStaffRole } from "@shared/schema";
+
+interface CourseStaffMember {
+  userId: number;
+  name: string;
+  email: string;
+  role: CourseStaffRole;
+  fromEnrollment: boolean;
+  createdAt: string;
+}
+
+const ROLE_LABELS: Record<CourseStaffRole, string> = {
+  owner: "Owner",
+  instructor: "Co-instructor",
+  ta: "TA",
+};
+
+const ROLE_DESCRIPTIONS: Record<CourseStaffRole, string> = {
+  owner: "Runs the course and manages its staff",
+  instructor: "Runs the course: assignments, enrollment and releasing feedback",
+  ta: "Views submissions and edits feedback before release",
+};
+
+/**
+ * Lists a course's owners, co-instructors and TAs. Owners (and admins) can
+ * add staff by email, change their roles and remove them.
+ */
+export function CourseStaffCard({ courseId, canManage }: { courseId: number; canManage: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const staffKey = [`${API_ROUTES.COURSES}/${courseId}/staff`];
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<CourseStaffRole>("ta");
+
+  const { data: staff = [] } = useQuery<CourseStaffMember[]>({ queryKey: staffKey });
+
+  const onSuccess = (updated: CourseStaffMember[]) => queryClient.setQueryData(staffKey, updated);
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Error", description: error.message || "Failed to update course staff" });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.COURSES}/${courseId}/staff`, { email, role });
+      return response.json();
+    },
+    onSuccess: (updated: CourseStaffMember[]) => {
+      onSuccess(updated);
+      setEmail("");
+      toast({ title: "Staff updated", description: `${email} is now a ${ROLE_LABELS[role].toLowerCase()} of this course.` });
+    },
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: CourseStaffRole }) => {
+      const response = await apiRequest("PATCH", `${API_ROUTES.COURSES}/${courseId}/staff/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest("DELETE", `${API_ROUTES.COURSES}/${courseId}/staff/${userId}`);
+      return response.json();
+    },
+    onSuccess,
+    onError,
+  });
+
+  const isSaving = addMutation.isPending || roleMutation.isPending || removeMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Course Staff</CardTitle>
+        <CardDescription>
+          {canManage
+            ? "Owners manage the staff list. Co-instructors run the course; TAs can view submissions and grade."
+            : "The people who run this course. Only owners can change the staff list."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canManage && (
+          <form
+            className="flex flex-col gap-2 sm:flex-row"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (email.trim()) addMutation.mutate();
+            }}
+          >
+            <Input
+              type="email"
+              placeholder="colleague@university.edu"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="sm:max-w-xs"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as CourseStaffRole)}>
+              <SelectTrigger className="sm:w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ROLE_LABELS) as CourseStaffRole[]).map(option => (
+                  <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSaving || !email.trim()}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </form>
+        )}
+
+        {staff.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No staff recorded for this course</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                {canManage && <TableHead className="text-right"></TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {staff.map(member => (
+                <TableRow key={member.userId}>
+                  <TableCell className="font-medium">
+                    {member.name}
+                    {member.fromEnrollment && (
+                      <Badge variant="outline" className="ml-2">Enrolled instructor</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{member.email}</TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => roleMutation.mutate({ userId: member.userId, role: value as CourseStaffRole })}
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="h-8 w-40" title={ROLE_DESCRIPTIONS[member.role]}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as CourseStaffRole[]).map(option => (
+                            <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary" title={ROLE_DESCRIPTIONS[member.role]}>{ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      {!member.fromEnrollment && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Remove ${member.name}`}
+                          onClick={() => removeMutation.mutate(member.userId)}
+                          disabled={isSaving}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
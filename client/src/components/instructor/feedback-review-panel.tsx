@@ -0,0 +1,490 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { Feedback, FeedbackAuditEntry, SubmissionWithFeedback } from "@/lib/types";
+import { CriteriaScore } from "@shared/schema";
+import { Pencil, RefreshCw, Send } from "lucide-react";
+
+interface FeedbackReviewPanelProps {
+  assignmentId: number;
+  holdFeedbackForReview?: boolean;
+}
+
+interface FeedbackEditForm {
+  summary: string;
+  score: string;
+  strengths: string;
+  improvements: string;
+  suggestions: string;
+  criteriaScores: CriteriaScore[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  strengths: "Strengths",
+  improvements: "Improvements",
+  suggestions: "Suggestions",
+  summary: "Summary",
+  score: "Score",
+  criteriaScores: "Criteria scores",
+};
+
+function LmsSyncBadge({ submission }: { submission: SubmissionWithFeedback }) {
+  switch (submission.lmsSyncStatus) {
+    case "completed":
+      return (
+        <Badge variant="secondary" title={submission.lmsSyncedAt ? `Synced ${formatDate(submission.lmsSyncedAt)}` : undefined}>
+          Synced
+        </Badge>
+      );
+    case "failed":
+      return <Badge variant="destructive" title={submission.lmsSyncError || undefined}>Failed</Badge>;
+    case "in_progress":
+      return <Badge variant="outline">Syncing</Badge>;
+    case "pending":
+      return (
+        <Badge variant="outline" title={submission.lmsSyncError || undefined}>
+          {submission.lmsSyncAttempts ? `Retrying (${submission.lmsSyncAttempts})` : "Pending"}
+        </Badge>
+      );
+    default:
+      return <span className="text-sm text-muted-foreground">-</span>;
+  }
+}
+
+function toForm(feedback: Feedback): FeedbackEditForm {
+  return {
+    summary: feedback.summary || "",
+    score: feedback.score !== undefined && feedback.score !== null ? String(feedback.score) : "",
+    strengths: (feedback.strengths || []).join("\n"),
+    improvements: (feedback.improvements || []).join("\n"),
+    suggestions: (feedback.suggestions || []).join("\n"),
+    criteriaScores: (feedback.criteriaScores || []).map((criterion) => ({ ...criterion })),
+  };
+}
+
+function toLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function FeedbackHistory({ feedbackId }: { feedbackId: number }) {
+  const { data: history = [], isLoading } = useQuery<FeedbackAuditEntry[]>({
+    queryKey: [`${API_ROUTES.FEEDBACK}/${feedbackId}/history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No instructor changes yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {history.map((entry) => (
+        <li key={entry.id}>
+          <span className="font-medium">{entry.performedByName || "Unknown user"}</span>{" "}
+          {entry.event === "release"
+            ? "released the feedback"
+            : `edited ${entry.changes.map((change) => FIELD_LABELS[change.field] || change.field).join(", ")}`}
+          <span className="text-muted-foreground"> · {formatDate(entry.timestamp)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function FeedbackEditDialog({
+  feedback,
+  open,
+  onOpenChange,
+  onSaved,
+}: {
+  feedback: Feedback | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FeedbackEditForm | null>(null);
+
+  useEffect(() => {
+    setForm(feedback ? toForm(feedback) : null);
+  }, [feedback]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: FeedbackEditForm) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.FEEDBACK}/${feedback!.id}`, {
+        summary: values.summary,
+        score: values.score === "" ? null : Math.round(Number(values.score)),
+        strengths: toLines(values.strengths),
+        improvements: toLines(values.improvements),
+        suggestions: toLines(values.suggestions),
+        criteriaScores: values.criteriaScores.length > 0 ? values.criteriaScores : undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Feedback updated",
+        description: "Your changes have been saved.",
+      });
+      onSaved();
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to save feedback changes.",
+      });
+    }
+  });
+
+  const updateCriterion = (index: number, changes: Partial<CriteriaScore>) => {
+    setForm((current) => current && {
+      ...current,
+      criteriaScores: current.criteriaScores.map((criterion, i) => i === index ? { ...criterion, ...changes } : criterion),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Feedback</DialogTitle>
+          <DialogDescription>
+            Changes are recorded in the feedback history. Enter one item per line for lists.
+          </DialogDescription>
+        </DialogHeader>
+        {form && feedback && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <div className="col-span-1 space-y-2">
+                <Label htmlFor="feedback-score">Score</Label>
+                <Input
+                  id="feedback-score"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.score}
+                  onChange={(e) => setForm({ ...form, score: e.target.value })}
+                />
+              </div>
+              <div className="col-span-3 space-y-2">
+                <Label htmlFor="feedback-summary">Summary</Label>
+                <Textarea
+                  id="feedback-summary"
+                  rows={3}
+                  value={form.summary}
+                  onChange={(e) => setForm({ ...form, summary: e.target.value })}
+                />
+              </div>
+            </div>
+            {(["strengths", "improvements", "suggestions"] as const).map((field) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={`feedback-${field}`}>{FIELD_LABELS[field]}</Label>
+                <Textarea
+                  id={`feedback-${field}`}
+                  rows={4}
+                  value={form[field]}
+                  onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                />
+              </div>
+            ))}
+            {form.criteriaScores.length > 0 && (
+              <div className="space-y-2">
+                <Label>{FIELD_LABELS.criteriaScores}</Label>
+                {form.criteriaScores.map((criterion, index) => (
+                  <div key={criterion.criteriaId} className="grid grid-cols-4 gap-2 items-start">
+                    <div className="col-span-1 space-y-1">
+                      <span className="text-xs text-muted-foreground">{criterion.criteriaId}</span>
+                      <Input
+                        type="number"
+                        value={criterion.score}
+                        onChange={(e) => updateCriterion(index, { score: Number(e.target.value) })}
+                      />
+                    </div>
+                    <Textarea
+                      className="col-span-3"
+                      rows={2}
+                      value={criterion.feedback}
+                      onChange={(e) => updateCriterion(index, { feedback: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>History</Label>
+              <FeedbackHistory feedbackId={feedback.id} />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => form && saveMutation.mutate(form)} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function FeedbackReviewPanel({ assignmentId, holdFeedbackForReview = false }: FeedbackReviewPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [editing, setEditing] = useState<Feedback | null>(null);
+
+  const submissionsKey = [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/submissions`];
+  const { data: submissions = [], isLoading } = useQuery<SubmissionWithFeedback[]>({
+    queryKey: submissionsKey,
+  });
+
+  const refreshSubmissions = () => {
+    queryClient.invalidateQueries({ queryKey: submissionsKey });
+    if (editing) {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.FEEDBACK}/${editing.id}/history`] });
+    }
+  };
+
+  const holdMutation = useMutation({
+    mutationFn: async (hold: boolean) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/feedback-review`, {
+        holdFeedbackForReview: hold,
+      });
+      return await response.json();
+    },
+    onSuccess: (_data, hold) => {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/details`] });
+      toast({
+        title: hold ? "Feedback held for review" : "Feedback released automatically",
+        description: hold
+          ? "New AI feedback will stay in draft until you release it."
+          : "New AI feedback will be shown to students as soon as it is ready.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the review setting.",
+      });
+    }
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (feedbackIds?: number[]) => {
+      const response = await apiRequest('POST', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/feedback/release`, {
+        feedbackIds,
+      });
+      return await response.json() as { released: number };
+    },
+    onSuccess: (data) => {
+      setSelectedIds([]);
+      refreshSubmissions();
+      toast({
+        title: "Feedback released",
+        description: `${data.released} feedback ${data.released === 1 ? "record is" : "records are"} now visible to students.`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Release failed",
+        description: "Failed to release feedback.",
+      });
+    }
+  });
+
+  const lmsSyncMutation = useMutation({
+    mutationFn: async (submissionId: number) => {
+      const response = await apiRequest('POST', `${API_ROUTES.SUBMISSIONS}/${submissionId}/lms-sync`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      refreshSubmissions();
+      toast({
+        title: "Grade sync queued",
+        description: "The grade will be sent to the LMS shortly.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Sync failed",
+        description: error.message || "Failed to queue the grade sync.",
+      });
+    }
+  });
+
+  const withFeedback = submissions.filter((submission) => submission.feedback);
+  const showLmsSync = withFeedback.some((submission) => submission.lmsSyncStatus);
+  const drafts = withFeedback.filter((submission) => submission.feedback?.status === "draft");
+
+  const toggleSelected = (feedbackId: number, checked: boolean) => {
+    setSelectedIds((current) => checked ? [...current, feedbackId] : current.filter((id) => id !== feedbackId));
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Feedback Review</CardTitle>
+            <CardDescription>
+              Review and edit AI feedback before releasing it to students
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="hold-feedback"
+              checked={holdFeedbackForReview}
+              onCheckedChange={(checked) => holdMutation.mutate(checked)}
+              disabled={holdMutation.isPending}
+            />
+            <Label htmlFor="hold-feedback">Hold for review</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading submissions...</p>
+        ) : withFeedback.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No feedback has been generated yet.</p>
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <p className="text-sm">
+                {drafts.length} of {withFeedback.length} feedback records are waiting to be released.
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={selectedIds.length === 0 || releaseMutation.isPending}
+                  onClick={() => releaseMutation.mutate(selectedIds)}
+                >
+                  Release Selected ({selectedIds.length})
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={drafts.length === 0 || releaseMutation.isPending}
+                  onClick={() => releaseMutation.mutate(undefined)}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  Release All Drafts
+                </Button>
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Submission</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Status</TableHead>
+                  {showLmsSync && <TableHead>LMS Sync</TableHead>}
+                  <TableHead>Last Edited</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {withFeedback.map((submission) => {
+                  const feedback = submission.feedback!;
+                  const isDraft = feedback.status === "draft";
+                  return (
+                    <TableRow key={submission.id}>
+                      <TableCell>
+                        {isDraft && (
+                          <Checkbox
+                            checked={selectedIds.includes(feedback.id)}
+                            onCheckedChange={(checked) => toggleSelected(feedback.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>#{submission.id}</TableCell>
+                      <TableCell>{feedback.score ?? '-'}</TableCell>
+                      <TableCell>
+                        {isDraft ? (
+                          <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-200">Draft</Badge>
+                        ) : (
+                          <Badge variant="secondary">Released</Badge>
+                        )}
+                      </TableCell>
+                      {showLmsSync && (
+                        <TableCell>
+                          <LmsSyncBadge submission={submission} />
+                        </TableCell>
+                      )}
+                      <TableCell className="text-sm text-muted-foreground">
+                        {feedback.lastEditedAt ? formatDate(feedback.lastEditedAt) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => setEditing(feedback)}>
+                          <Pencil className="mr-1 h-4 w-4" />
+                          Edit
+                        </Button>
+                        {submission.lmsSyncStatus === "failed" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={lmsSyncMutation.isPending}
+                            onClick={() => lmsSyncMutation.mutate(submission.id)}
+                          >
+                            <RefreshCw className="mr-1 h-4 w-4" />
+                            Retry Sync
+                          </Button>
+                        )}
+                        {isDraft && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={releaseMutation.isPending}
+                            onClick={() => releaseMutation.mutate([feedback.id])}
+                          >
+                            Release
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+      <FeedbackEditDialog
+        feedback={editing}
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSaved={refreshSubmissions}
+      />
+    </Card>
+  );
+}
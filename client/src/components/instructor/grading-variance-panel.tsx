@@ -0,0 +1,225 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { SubmissionWithFeedback, GradingPass } from "@/lib/types";
+import { GradingConfig, GradingVariance } from "@shared/schema";
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+
+interface GradingVariancePanelProps {
+  assignmentId: number;
+  gradingConfig?: GradingConfig | null;
+}
+
+interface GradingPassesResponse {
+  submissionId: number;
+  needsReview: boolean;
+  variance: GradingVariance | null;
+  passes: GradingPass[];
+}
+
+const GRADING_MODES: Record<string, GradingConfig> = {
+  single: { mode: 'single' },
+  multi_pass_3: { mode: 'multi_pass', passes: 3 },
+  multi_pass_providers: { mode: 'multi_pass', providers: ['gemini', 'openai'] },
+};
+
+function getModeKey(config?: GradingConfig | null): string {
+  if (!config || config.mode !== 'multi_pass') return 'single';
+  return config.providers?.length ? 'multi_pass_providers' : 'multi_pass_3';
+}
+
+function PassDetails({ submissionId }: { submissionId: number }) {
+  const { data, isLoading } = useQuery<GradingPassesResponse>({
+    queryKey: [`${API_ROUTES.SUBMISSIONS}/${submissionId}/grading-passes`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading grading passes...</p>;
+  }
+
+  if (!data || data.passes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No individual passes were stored for this submission.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {data.variance?.reasons && data.variance.reasons.length > 0 && (
+        <ul className="text-sm text-amber-700 list-disc pl-5">
+          {data.variance.reasons.map((reason, index) => (
+            <li key={index}>{reason}</li>
+          ))}
+        </ul>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Pass</TableHead>
+            <TableHead>Provider</TableHead>
+            <TableHead>Score</TableHead>
+            <TableHead>Criteria</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.passes.map((pass) => (
+            <TableRow key={pass.id}>
+              <TableCell>#{pass.passNumber}</TableCell>
+              <TableCell>
+                <div className="font-medium">{pass.provider}</div>
+                <div className="text-xs text-muted-foreground">{pass.modelName}</div>
+              </TableCell>
+              <TableCell>{pass.score ?? '-'}</TableCell>
+              <TableCell className="text-xs">
+                {(pass.criteriaScores || []).map((criterion) => (
+                  <div key={criterion.criteriaId}>
+                    {criterion.criteriaId}: {criterion.score}
+                  </div>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function GradingVariancePanel({ assignmentId, gradingConfig }: GradingVariancePanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: submissions = [], isLoading } = useQuery<SubmissionWithFeedback[]>({
+    queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/submissions`],
+  });
+
+  const updateConfigMutation = useMutation({
+    mutationFn: async (config: GradingConfig) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/grading-config`, config);
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/details`] });
+      toast({
+        title: "Grading mode updated",
+        description: "New submissions will be graded with the selected mode.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the grading mode.",
+      });
+    }
+  });
+
+  const reconciled = submissions.filter((submission) => submission.feedback?.gradingVariance);
+  const flaggedCount = reconciled.filter((submission) => submission.feedback?.needsReview).length;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Grading Consistency</CardTitle>
+            <CardDescription>
+              Compare independent AI grading passes and review grades where they disagree
+            </CardDescription>
+          </div>
+          <Select
+            value={getModeKey(gradingConfig)}
+            onValueChange={(value) => updateConfigMutation.mutate(GRADING_MODES[value])}
+            disabled={updateConfigMutation.isPending}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Grading mode" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Single pass</SelectItem>
+              <SelectItem value="multi_pass_3">Multi-pass (3 passes)</SelectItem>
+              <SelectItem value="multi_pass_providers">Multi-pass (Gemini + OpenAI)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading submissions...</p>
+        ) : reconciled.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No submissions have been graded with multiple passes yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm mb-4">
+              {flaggedCount} of {reconciled.length} reconciled submissions need review.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Submission</TableHead>
+                  <TableHead>Final Score</TableHead>
+                  <TableHead>Pass Scores</TableHead>
+                  <TableHead>Spread</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reconciled.map((submission) => {
+                  const variance = submission.feedback!.gradingVariance!;
+                  const expanded = expandedId === submission.id;
+                  return (
+                    <Fragment key={submission.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedId(expanded ? null : submission.id)}
+                          >
+                            {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </Button>
+                        </TableCell>
+                        <TableCell>#{submission.id}</TableCell>
+                        <TableCell>{submission.feedback?.score ?? '-'}</TableCell>
+                        <TableCell>{variance.scores.join(', ')}</TableCell>
+                        <TableCell>
+                          {variance.scoreSpread} pts (σ {variance.scoreStdDev})
+                        </TableCell>
+                        <TableCell>
+                          {submission.feedback?.needsReview ? (
+                            <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-200">
+                              <AlertTriangle className="mr-1 h-3 w-3" />
+                              Needs Review
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">Consistent</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow>
+                          <TableCell colSpan={6}>
+                            <PassDetails submissionId={submission.id} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
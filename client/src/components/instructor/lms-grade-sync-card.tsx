@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+
+interface LmsGradeSyncSettings {
+  enabled: boolean;
+  mappings: {
+    id: number;
+    credentialId: number;
+    lmsCourseId: string;
+    lmsCourseName: string | null;
+    autoGradeSync: boolean;
+  }[];
+}
+
+/**
+ * Turns automatic grade sync to the LMS courses a course is mapped to on or
+ * off. Renders nothing for courses without an LMS mapping.
+ */
+export function LmsGradeSyncCard({ courseId }: { courseId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const settingsKey = [`${API_ROUTES.COURSES}/${courseId}/lms-grade-sync`];
+
+  const { data: settings } = useQuery<LmsGradeSyncSettings>({ queryKey: settingsKey });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest("PATCH", `${API_ROUTES.COURSES}/${courseId}/lms-grade-sync`, { enabled });
+      return response.json();
+    },
+    onSuccess: (_data, enabled) => {
+      queryClient.invalidateQueries({ queryKey: settingsKey });
+      toast({
+        title: enabled ? "Grade sync turned on" : "Grade sync turned off",
+        description: enabled
+          ? "Released grades will be sent to the LMS automatically."
+          : "Released grades will no longer be sent to the LMS.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to update grade sync" });
+    },
+  });
+
+  if (!settings || settings.mappings.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>LMS Grade Sync</CardTitle>
+          <CardDescription>
+            Send released grades to{" "}
+            {settings.mappings.map(mapping => mapping.lmsCourseName || mapping.lmsCourseId).join(", ")}
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="lms-grade-sync"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+            disabled={toggleMutation.isPending}
+          />
+          <Label htmlFor="lms-grade-sync">Automatic sync</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-muted-foreground">
+          Failed syncs are retried automatically. You can see each submission's sync status in the feedback review panel of its assignment.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { Download, Trash2, Upload } from "lucide-react";
+
+type RosterAction = "enroll" | "already_enrolled" | "create_account" | "invite" | "reject";
+
+interface RosterPreviewRow {
+  row: number;
+  email: string;
+  name: string;
+  mitHorizonSub: string | null;
+  action: RosterAction;
+  reason?: string;
+}
+
+interface RosterImportResult {
+  enrolled: number;
+  alreadyEnrolled: number;
+  accountsCreated: number;
+  invited: number;
+  rejected: { row: number; email: string; name: string; reason: string }[];
+  errorReport: string | null;
+}
+
+interface CourseInvitation {
+  id: number;
+  email: string;
+  name: string | null;
+  mitHorizonSub: string | null;
+  createdAt: string;
+}
+
+interface RosterFile {
+  name: string;
+  format: "csv" | "xlsx";
+  content: string;
+}
+
+const ACTIONS: Record<RosterAction, { label: string; className: string }> = {
+  enroll: { label: "Enroll", className: "bg-green-100 text-green-800" },
+  already_enrolled: { label: "Already enrolled", className: "bg-gray-100 text-gray-800" },
+  create_account: { label: "New account", className: "bg-blue-100 text-blue-800" },
+  invite: { label: "Invite (MIT Horizon)", className: "bg-purple-100 text-purple-800" },
+  reject: { label: "Rejected", className: "bg-red-100 text-red-800" },
+};
+
+// Excel workbooks are sent base64 encoded, CSV as text
+function readRosterFile(file: File): Promise<RosterFile> {
+  const format = file.name.toLowerCase().endsWith(".xlsx") ? "xlsx" : "csv";
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the file"));
+    reader.onload = () => {
+      const result = String(reader.result ?? "");
+      resolve({ name: file.name, format, content: format === "xlsx" ? result.slice(result.indexOf(",") + 1) : result });
+    };
+    if (format === "xlsx") {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
+  });
+}
+
+function downloadCsv(content: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Upload a registrar roster, preview how each row matches existing accounts
+ * and enroll the class. Rejected rows can be downloaded as a CSV report.
+ */
+export function RosterImport({ courseId }: { courseId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const rosterUrl = `${API_ROUTES.COURSES}/${courseId}/roster`;
+  const [file, setFile] = useState<RosterFile | null>(null);
+  const [preview, setPreview] = useState<RosterPreviewRow[] | null>(null);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Roster import failed", description: error.message || "The roster could not be read." });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (roster: RosterFile) => {
+      const response = await apiRequest("POST", `${rosterUrl}/preview`, { format: roster.format, content: roster.content });
+      return response.json();
+    },
+    onSuccess: (rows: RosterPreviewRow[]) => setPreview(rows),
+    onError,
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (roster: RosterFile) => {
+      const response = await apiRequest("POST", `${rosterUrl}/import`, { format: roster.format, content: roster.content });
+      return response.json();
+    },
+    onSuccess: (imported: RosterImportResult) => {
+      setResult(imported);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.COURSES}/${courseId}/students`] });
+      queryClient.invalidateQueries({ queryKey: [`${rosterUrl}/invitations`] });
+      toast({
+        title: "Roster imported",
+        description: `${imported.enrolled} enrolled, ${imported.invited} invited, ${imported.rejected.length} rejected.`,
+      });
+    },
+    onError,
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    setPreview(null);
+    setResult(null);
+    if (!selected) return;
+    try {
+      const roster = await readRosterFile(selected);
+      setFile(roster);
+      previewMutation.mutate(roster);
+    } catch (error) {
+      onError(error as Error);
+    }
+  };
+
+  const counts = (preview ?? []).reduce((totals, row) => {
+    totals[row.action] = (totals[row.action] ?? 0) + 1;
+    return totals;
+  }, {} as Partial<Record<RosterAction, number>>);
+  const importable = (preview ?? []).filter(row => row.action !== "reject" && row.action !== "already_enrolled").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Bulk Enrollment</h3>
+        <p className="text-sm text-muted-foreground">
+          Upload a CSV or Excel roster with an email column, and optionally name (or first and last name) and
+          MIT Horizon ID columns. Students without an account get one; students with only an MIT Horizon ID are
+          enrolled when they first sign in.
+        </p>
+        <Input
+          type="file"
+          accept=".csv,.xlsx"
+          aria-label="Roster file"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          disabled={previewMutation.isPending || importMutation.isPending}
+        />
+      </div>
+
+      {previewMutation.isPending && <p className="text-sm text-muted-foreground">Matching students...</p>}
+
+      {preview && file && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(ACTIONS) as RosterAction[]).filter(action => counts[action]).map(action => (
+              <Badge key={action} variant="secondary" className={ACTIONS[action].className}>
+                {ACTIONS[action].label}: {counts[action]}
+              </Badge>
+            ))}
+          </div>
+          <div className="max-h-80 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map(row => (
+                  <TableRow key={row.row}>
+                    <TableCell>{row.row}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{row.name || "—"}</div>
+                      <div className="text-xs text-muted-foreground">{row.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={ACTIONS[row.action].className}>{ACTIONS[row.action].label}</Badge>
+                      {row.reason && <div className="mt-1 text-xs text-muted-foreground">{row.reason}</div>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <Button
+            className="w-full"
+            onClick={() => importMutation.mutate(file)}
+            disabled={importMutation.isPending || importable === 0}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {importMutation.isPending ? "Importing..." : `Import ${importable} student${importable === 1 ? "" : "s"}`}
+          </Button>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2 rounded-md border p-3 text-sm">
+          <p>
+            {result.enrolled} enrolled ({result.accountsCreated} new accounts), {result.invited} invited,{" "}
+            {result.alreadyEnrolled} already enrolled, {result.rejected.length} rejected.
+          </p>
+          {result.errorReport && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => downloadCsv(result.errorReport!, `roster-errors-${file?.name.replace(/\.\w+$/, "") ?? courseId}.csv`)}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download error report
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Roster students waiting for their first MIT Horizon sign-in
+ */
+export function PendingInvitations({ courseId }: { courseId: number }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const invitationsKey = [`${API_ROUTES.COURSES}/${courseId}/roster/invitations`];
+
+  const { data: invitations = [] } = useQuery<CourseInvitation[]>({ queryKey: invitationsKey, enabled: !!courseId });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const response = await apiRequest("DELETE", `${API_ROUTES.COURSES}/${courseId}/roster/invitations/${invitationId}`);
+      return response.json();
+    },
+    onSuccess: (updated: CourseInvitation[]) => queryClient.setQueryData(invitationsKey, updated),
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Error", description: error.message || "Failed to cancel the invitation" });
+    },
+  });
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pending Invitations</CardTitle>
+        <CardDescription>These students are enrolled automatically when they first sign in with MIT Horizon.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>MIT Horizon ID</TableHead>
+              <TableHead>Invited</TableHead>
+              <TableHead className="text-right"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invitations.map(invitation => (
+              <TableRow key={invitation.id}>
+                <TableCell className="font-medium">{invitation.name || "—"}</TableCell>
+                <TableCell>{invitation.email}</TableCell>
+                <TableCell className="font-mono text-xs">{invitation.mitHorizonSub}</TableCell>
+                <TableCell>{formatDate(invitation.createdAt)}</TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label={`Cancel invitation for ${invitation.email}`}
+                    onClick={() => cancelMutation.mutate(invitation.id)}
+                    disabled={cancelMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
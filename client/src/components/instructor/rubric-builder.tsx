@@ -1,17 +1,37 @@
 import React, { Dispatch, SetStateAction } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { PlusCircle, Trash2 } from "lucide-react";
+import { Layers, PlusCircle, Trash2, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Rubric, RubricCriterion } from "@shared/schema";
+import { Rubric, RubricCriterion, RubricPerformanceLevel } from "@shared/schema";
+import { RubricLibrary } from "@/components/instructor/rubric-library";
 
 export interface RubricBuilderProps {
   rubric: Rubric;
   setRubric: Dispatch<SetStateAction<Rubric>>;
+  courseId?: number; // Offers sharing templates with this course
 }
 
-export function RubricBuilder({ rubric, setRubric }: RubricBuilderProps) {
+// Starting point for an analytic criterion; shares of the criterion's max score, highest level first
+const DEFAULT_LEVELS: Array<{ name: string; description: string; from: number; to: number }> = [
+  { name: "Exemplary", description: "Exceeds expectations throughout, with no meaningful gaps", from: 0.9, to: 1 },
+  { name: "Proficient", description: "Meets expectations, with minor gaps", from: 0.75, to: 0.9 },
+  { name: "Developing", description: "Partially meets expectations, with significant gaps", from: 0.5, to: 0.75 },
+  { name: "Beginning", description: "Does not yet meet expectations", from: 0, to: 0.5 }
+];
+
+function defaultLevels(maxScore: number): RubricPerformanceLevel[] {
+  const points = (share: number) => Math.round(maxScore * share * 100) / 100;
+  return DEFAULT_LEVELS.map(level => ({
+    name: level.name,
+    description: level.description,
+    minScore: points(level.from),
+    maxScore: points(level.to)
+  }));
+}
+
+export function RubricBuilder({ rubric, setRubric, courseId }: RubricBuilderProps) {
   const handleAddCriterion = () => {
     setRubric((prev) => ({
       ...prev,
@@ -45,6 +65,24 @@ export function RubricBuilder({ rubric, setRubric }: RubricBuilderProps) {
     }));
   };
 
+  const setLevels = (id: string, update: (levels: RubricPerformanceLevel[], criterion: RubricCriterion) => RubricPerformanceLevel[] | undefined) => {
+    setRubric((prev) => ({
+      ...prev,
+      criteria: prev.criteria.map((c) => {
+        if (c.id !== id) return c;
+        const levels = update(c.levels || [], c);
+        const { levels: _previous, ...rest } = c;
+        return levels && levels.length > 0 ? { ...rest, levels } : rest;
+      }),
+    }));
+  };
+
+  const handleLevelChange = (id: string, index: number, field: keyof RubricPerformanceLevel, value: string) => {
+    setLevels(id, (levels) => levels.map((level, i) =>
+      i === index ? { ...level, [field]: field === "minScore" || field === "maxScore" ? Number(value) : value } : level
+    ));
+  };
+
   const handlePassingThresholdChange = (value: string) => {
     const threshold = parseInt(value, 10);
     if (!isNaN(threshold) && threshold >= 0 && threshold <= 100) {
@@ -57,6 +95,8 @@ export function RubricBuilder({ rubric, setRubric }: RubricBuilderProps) {
 
   return (
     <div className="space-y-4">
+      <RubricLibrary rubric={rubric} setRubric={setRubric} courseId={courseId} />
+
       <div className="flex justify-between items-center">
         <div>
           <h3 className="text-sm font-medium">Passing Threshold</h3>
@@ -151,7 +191,79 @@ export function RubricBuilder({ rubric, setRubric }: RubricBuilderProps) {
                   />
                 </div>
                 
-                <div className="mt-3 flex justify-end">
+                {criterion.levels && criterion.levels.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Performance Levels</span>
+                      <span className="text-xs text-muted-foreground">Highest first; the AI picks one level and scores within its range</span>
+                    </div>
+                    {criterion.levels.map((level, levelIndex) => (
+                      <div key={levelIndex} className="grid gap-2 sm:grid-cols-[10rem_5rem_5rem_1fr_auto] items-start">
+                        <Input
+                          aria-label="Level name"
+                          value={level.name}
+                          onChange={(e) => handleLevelChange(criterion.id, levelIndex, "name", e.target.value)}
+                          placeholder="e.g., Proficient"
+                        />
+                        <Input
+                          aria-label="Minimum points"
+                          type="number"
+                          min={0}
+                          value={level.minScore}
+                          onChange={(e) => handleLevelChange(criterion.id, levelIndex, "minScore", e.target.value)}
+                        />
+                        <Input
+                          aria-label="Maximum points"
+                          type="number"
+                          min={0}
+                          value={level.maxScore}
+                          onChange={(e) => handleLevelChange(criterion.id, levelIndex, "maxScore", e.target.value)}
+                        />
+                        <Textarea
+                          aria-label="Level descriptor"
+                          value={level.description}
+                          onChange={(e) => handleLevelChange(criterion.id, levelIndex, "description", e.target.value)}
+                          placeholder="What work at this level looks like"
+                          rows={1}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-9 w-9"
+                          aria-label="Remove level"
+                          onClick={() => setLevels(criterion.id, (levels) => levels.filter((_, i) => i !== levelIndex))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setLevels(criterion.id, (levels) => [...levels, { name: "", description: "", minScore: 0, maxScore: 0 }])}
+                    >
+                      <PlusCircle className="mr-1 h-3.5 w-3.5" />
+                      Add level
+                    </Button>
+                  </div>
+                )}
+
+                <div className="mt-3 flex justify-between">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 press-effect"
+                    onClick={() => setLevels(criterion.id, (levels, c) =>
+                      levels.length > 0 ? undefined : defaultLevels(Number(c.maxScore) || 0)
+                    )}
+                  >
+                    <Layers className="mr-1 h-4 w-4" />
+                    {criterion.levels && criterion.levels.length > 0 ? "Remove performance levels" : "Add performance levels"}
+                  </Button>
                   <Button
                     type="button"
                     variant="ghost"
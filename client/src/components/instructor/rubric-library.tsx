@@ -0,0 +1,336 @@
+import { ChangeEvent, Dispatch, SetStateAction, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES, USER_ROLES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { Rubric } from "@shared/schema";
+import { Download, Library, Save, Upload } from "lucide-react";
+
+type TemplateScope = 'personal' | 'course' | 'institution';
+
+interface RubricTemplateSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  scope: TemplateScope;
+  courseId: number | null;
+  courseName: string | null;
+  ownerName: string;
+  latestVersion: number;
+  updatedAt: string;
+  canEdit: boolean;
+}
+
+interface RubricTemplateDetail extends RubricTemplateSummary {
+  version: number;
+  rubric: Rubric;
+  versions: Array<{ version: number; changeNote: string | null; createdAt: string }>;
+}
+
+interface RubricLibraryProps {
+  rubric: Rubric;
+  setRubric: Dispatch<SetStateAction<Rubric>>;
+  courseId?: number;
+}
+
+const SCOPE_LABELS: Record<TemplateScope, string> = {
+  personal: "Personal",
+  course: "Course",
+  institution: "Institution",
+};
+
+// Saving as a new version of an existing template instead of a new one
+const NEW_TEMPLATE = "new";
+
+async function downloadTemplate(template: RubricTemplateSummary, format: 'json' | 'csv') {
+  const response = await apiRequest('GET', `${API_ROUTES.RUBRIC_TEMPLATES}/${template.id}/export?format=${format}`);
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.style.display = 'none';
+  a.href = url;
+  a.download = `${template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'rubric'}-v${template.latestVersion}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
+
+function ScopeSelect({ value, onChange, courseId }: { value: TemplateScope; onChange: (scope: TemplateScope) => void; courseId?: number }) {
+  const { user } = useAuth();
+  return (
+    <Select value={value} onValueChange={(scope) => onChange(scope as TemplateScope)}>
+      <SelectTrigger id="template-scope">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="personal">Personal (only you)</SelectItem>
+        {courseId !== undefined && <SelectItem value="course">Course (this course's instructors)</SelectItem>}
+        {user?.role === USER_ROLES.ADMIN && <SelectItem value="institution">Institution (all instructors)</SelectItem>}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Toolbar above the rubric builder for loading rubrics from the template
+ * library, saving the current rubric to it, and importing JSON/CSV files
+ */
+export function RubricLibrary({ rubric, setRubric, courseId }: RubricLibraryProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [browseOpen, setBrowseOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scope, setScope] = useState<TemplateScope>('personal');
+  const [target, setTarget] = useState(NEW_TEMPLATE);
+  const [changeNote, setChangeNote] = useState("");
+
+  const { data: templates = [], isLoading } = useQuery<RubricTemplateSummary[]>({
+    queryKey: [API_ROUTES.RUBRIC_TEMPLATES],
+    enabled: browseOpen || saveOpen,
+  });
+  const editable = templates.filter((template) => template.canEdit);
+
+  const refreshLibrary = () => queryClient.invalidateQueries({ queryKey: [API_ROUTES.RUBRIC_TEMPLATES] });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ variant: "destructive", title, description: error.message });
+  };
+
+  const cloneMutation = useMutation({
+    mutationFn: async (template: RubricTemplateSummary) => {
+      const response = await apiRequest('GET', `${API_ROUTES.RUBRIC_TEMPLATES}/${template.id}/clone`);
+      return await response.json() as Rubric;
+    },
+    onSuccess: (cloned, template) => {
+      setRubric(cloned);
+      setBrowseOpen(false);
+      toast({ title: "Rubric loaded", description: `"${template.name}" (version ${template.latestVersion}) was copied into this assignment.` });
+    },
+    onError: showError("Could not load rubric"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = target === NEW_TEMPLATE
+        ? await apiRequest('POST', API_ROUTES.RUBRIC_TEMPLATES, {
+            name,
+            description: description || null,
+            scope,
+            courseId: scope === 'course' ? courseId : null,
+            rubric,
+          })
+        : await apiRequest('POST', `${API_ROUTES.RUBRIC_TEMPLATES}/${target}/versions`, {
+            rubric,
+            changeNote: changeNote || undefined,
+          });
+      return await response.json() as RubricTemplateDetail;
+    },
+    onSuccess: (template) => {
+      refreshLibrary();
+      setSaveOpen(false);
+      toast({ title: "Saved to library", description: `"${template.name}" is now at version ${template.version}.` });
+    },
+    onError: showError("Could not save template"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const format = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+      const response = await apiRequest('POST', `${API_ROUTES.RUBRIC_TEMPLATES}/import`, {
+        format,
+        content: await file.text(),
+        name: format === 'csv' ? file.name.replace(/\.csv$/i, '') : undefined,
+        scope: 'personal',
+      });
+      return await response.json() as RubricTemplateDetail;
+    },
+    onSuccess: (template) => {
+      refreshLibrary();
+      setRubric(template.rubric);
+      toast({ title: "Rubric imported", description: `"${template.name}" was added to your library and loaded here.` });
+    },
+    onError: showError("Import failed"),
+  });
+
+  const handleFile = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importMutation.mutate(file);
+    event.target.value = "";
+  };
+
+  const openSave = () => {
+    setName("");
+    setDescription("");
+    setScope('personal');
+    setTarget(NEW_TEMPLATE);
+    setChangeNote("");
+    setSaveOpen(true);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={() => setBrowseOpen(true)}>
+        <Library className="mr-2 h-4 w-4" />
+        Load from Library
+      </Button>
+      <Button type="button" variant="outline" size="sm" onClick={openSave} disabled={rubric.criteria.length === 0}>
+        <Save className="mr-2 h-4 w-4" />
+        Save as Template
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInput.current?.click()}
+        disabled={importMutation.isPending}
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Import JSON/CSV
+      </Button>
+      <input ref={fileInput} type="file" accept=".json,.csv" className="hidden" onChange={handleFile} />
+
+      <Dialog open={browseOpen} onOpenChange={setBrowseOpen}>
+        <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Rubric Library</DialogTitle>
+            <DialogDescription>
+              Copy a saved rubric into this assignment. Changes you make here do not affect the template.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rubric templates yet. Save a rubric to start your library.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Shared With</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.id}>
+                    <TableCell>
+                      <div className="font-medium">{template.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {template.ownerName} · updated {formatDate(template.updatedAt)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{SCOPE_LABELS[template.scope]}</Badge>
+                      {template.courseName && <div className="text-xs text-muted-foreground mt-1">{template.courseName}</div>}
+                    </TableCell>
+                    <TableCell>v{template.latestVersion}</TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button type="button" variant="ghost" size="sm" title="Export JSON" onClick={() => downloadTemplate(template, 'json')}>
+                        <Download className="mr-1 h-4 w-4" />
+                        JSON
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" title="Export CSV" onClick={() => downloadTemplate(template, 'csv')}>
+                        <Download className="mr-1 h-4 w-4" />
+                        CSV
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => cloneMutation.mutate(template)}
+                        disabled={cloneMutation.isPending}
+                      >
+                        Use
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save Rubric as Template</DialogTitle>
+            <DialogDescription>
+              Save this rubric to your library, or as a new version of a template you can edit.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="template-target">Save to</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger id="template-target">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_TEMPLATE}>New template</SelectItem>
+                  {editable.map((template) => (
+                    <SelectItem key={template.id} value={template.id.toString()}>
+                      New version of "{template.name}" (v{template.latestVersion + 1})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {target === NEW_TEMPLATE ? (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Lab Report Rubric" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-description">Description</Label>
+                  <Textarea id="template-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-scope">Share with</Label>
+                  <ScopeSelect value={scope} onChange={setScope} courseId={courseId} />
+                </div>
+              </>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="template-change-note">What changed</Label>
+                <Input id="template-change-note" value={changeNote} onChange={(e) => setChangeNote(e.target.value)} placeholder="e.g., Added a testing criterion" />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setSaveOpen(false)}>Cancel</Button>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || (target === NEW_TEMPLATE && !name.trim())}
+            >
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
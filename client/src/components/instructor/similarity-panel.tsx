@@ -0,0 +1,222 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { RefreshCw, ScanSearch } from "lucide-react";
+
+interface SimilarityPanelProps {
+  assignmentId: number;
+}
+
+interface SubmissionSummary {
+  id: number;
+  userId: number;
+  studentName: string;
+  submittedAt: string;
+}
+
+interface SimilarityPair {
+  id: number;
+  kind: 'text' | 'code';
+  score: number;
+  sharedFingerprints: number;
+  submissionA: SubmissionSummary;
+  submissionB: SubmissionSummary;
+}
+
+interface SimilarityReport {
+  analyzedSubmissions: number;
+  pairs: SimilarityPair[];
+}
+
+interface ComparedSubmission extends SubmissionSummary {
+  text: string;
+  matches: Array<[number, number]>;
+}
+
+interface SimilarityComparison extends Omit<SimilarityPair, 'submissionA' | 'submissionB'> {
+  submissionA: ComparedSubmission;
+  submissionB: ComparedSubmission;
+}
+
+function scoreBadgeClass(score: number): string {
+  if (score >= 70) return "bg-red-100 text-red-800 hover:bg-red-200";
+  if (score >= 40) return "bg-amber-100 text-amber-800 hover:bg-amber-200";
+  return "bg-neutral-100 text-neutral-700 hover:bg-neutral-200";
+}
+
+/**
+ * A submission's text with the passages it shares with the other one marked
+ */
+function HighlightedText({ submission }: { submission: ComparedSubmission }) {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  submission.matches.forEach(([start, end], index) => {
+    if (start > position) {
+      parts.push(<Fragment key={`text-${index}`}>{submission.text.slice(position, start)}</Fragment>);
+    }
+    parts.push(
+      <mark key={`match-${index}`} className="bg-amber-200 dark:bg-amber-700/60 rounded-sm">
+        {submission.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(<Fragment key="text-end">{submission.text.slice(position)}</Fragment>);
+
+  return (
+    <div className="min-w-0">
+      <div className="mb-2">
+        <div className="font-medium">{submission.studentName}</div>
+        <div className="text-xs text-muted-foreground">Submitted {formatDate(submission.submittedAt)}</div>
+      </div>
+      <pre className="h-[60vh] overflow-auto rounded-md border bg-muted/40 p-3 text-xs whitespace-pre-wrap break-words font-mono">
+        {submission.text ? parts : <span className="text-muted-foreground">No readable text</span>}
+      </pre>
+    </div>
+  );
+}
+
+function ComparisonDialog({ assignmentId, pairId, onClose }: { assignmentId: number; pairId: number | null; onClose: () => void }) {
+  const { data, isLoading } = useQuery<SimilarityComparison>({
+    queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/similarity/${pairId}`],
+    enabled: pairId !== null,
+  });
+
+  return (
+    <Dialog open={pairId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Submissions</DialogTitle>
+          <DialogDescription>
+            {data
+              ? `${data.score}% of the shorter submission also appears in the other. Shared passages are highlighted.`
+              : "Shared passages are highlighted."}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading || !data ? (
+          <p className="text-sm text-muted-foreground">Loading submissions...</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <HighlightedText submission={data.submissionA} />
+            <HighlightedText submission={data.submissionB} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function SimilarityPanel({ assignmentId }: SimilarityPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comparePairId, setComparePairId] = useState<number | null>(null);
+  const reportKey = `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/similarity`;
+
+  const { data, isLoading } = useQuery<SimilarityReport>({ queryKey: [reportKey] });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${reportKey}/analyze`);
+      return await response.json() as { submissions: number; pairs: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [reportKey] });
+      toast({
+        title: "Similarity check complete",
+        description: `Compared ${result.submissions} submissions and found ${result.pairs} similar pairs.`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Similarity check failed",
+        description: "The submissions could not be compared.",
+      });
+    }
+  });
+
+  const pairs = data?.pairs || [];
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>Similarity Check</CardTitle>
+            <CardDescription>
+              Pairs of students whose latest submissions share passages, most similar first.
+              Code is compared with names, comments and formatting ignored.
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => analyzeMutation.mutate()}
+            disabled={analyzeMutation.isPending}
+          >
+            <RefreshCw className={`mr-2 h-4 w-4 ${analyzeMutation.isPending ? 'animate-spin' : ''}`} />
+            {analyzeMutation.isPending ? "Checking..." : "Re-run Check"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading similarity report...</p>
+        ) : pairs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {data?.analyzedSubmissions
+              ? `No similar pairs among ${data.analyzedSubmissions} checked submissions.`
+              : "No submissions have been checked yet."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Students</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Similarity</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pairs.map((pair) => (
+                <TableRow key={pair.id}>
+                  <TableCell>
+                    <div className="font-medium">{pair.submissionA.studentName}</div>
+                    <div className="font-medium">{pair.submissionB.studentName}</div>
+                  </TableCell>
+                  <TableCell className="capitalize">{pair.kind}</TableCell>
+                  <TableCell>
+                    <Badge className={scoreBadgeClass(pair.score)}>{pair.score}%</Badge>
+                    <div className="text-xs text-muted-foreground mt-1">{pair.sharedFingerprints} shared fingerprints</div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setComparePairId(pair.id)}>
+                      <ScanSearch className="mr-2 h-4 w-4" />
+                      Compare
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      <ComparisonDialog assignmentId={assignmentId} pairId={comparePairId} onClose={() => setComparePairId(null)} />
+    </Card>
+  );
+}
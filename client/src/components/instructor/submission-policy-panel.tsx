@@ -0,0 +1,299 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { SubmissionPolicy } from "@shared/schema";
+import { CalendarPlus, Trash2 } from "lucide-react";
+
+interface SubmissionPolicyPanelProps {
+  assignmentId: number;
+  courseId?: number;
+  submissionPolicy?: SubmissionPolicy | null;
+}
+
+interface ExtensionEntry {
+  userId: number;
+  name: string;
+  email: string;
+  dueDate: string;
+  reason: string | null;
+}
+
+interface CourseStudent {
+  id: number;
+  name: string;
+  email: string;
+}
+
+// Number inputs keep their text so they can be cleared; empty means "no limit"
+interface PolicyForm {
+  maxAttempts: string;
+  gracePeriodMinutes: string;
+  allowLate: boolean;
+  latePenaltyPercentPerDay: string;
+  lateCutoffDays: string;
+  countedAttempt: 'latest' | 'best';
+}
+
+function toForm(policy?: SubmissionPolicy | null): PolicyForm {
+  return {
+    maxAttempts: policy?.maxAttempts?.toString() ?? "",
+    gracePeriodMinutes: policy?.gracePeriodMinutes?.toString() ?? "",
+    allowLate: policy?.allowLate ?? false,
+    latePenaltyPercentPerDay: policy?.latePenaltyPercentPerDay?.toString() ?? "",
+    lateCutoffDays: policy?.lateCutoffDays?.toString() ?? "",
+    countedAttempt: policy?.countedAttempt ?? "latest",
+  };
+}
+
+function toPolicy(form: PolicyForm): SubmissionPolicy {
+  const number = (value: string) => value.trim() === "" ? undefined : Number(value);
+  return {
+    maxAttempts: number(form.maxAttempts),
+    gracePeriodMinutes: number(form.gracePeriodMinutes),
+    allowLate: form.allowLate,
+    latePenaltyPercentPerDay: form.allowLate ? number(form.latePenaltyPercentPerDay) : undefined,
+    lateCutoffDays: form.allowLate ? number(form.lateCutoffDays) : undefined,
+    countedAttempt: form.countedAttempt,
+  };
+}
+
+/**
+ * Attempt limit, grace period and late penalties of an assignment, plus the
+ * students who have their own due date.
+ */
+export function SubmissionPolicyPanel({ assignmentId, courseId, submissionPolicy }: SubmissionPolicyPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const extensionsKey = `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/extensions`;
+  const [form, setForm] = useState<PolicyForm>(() => toForm(submissionPolicy));
+  const [studentId, setStudentId] = useState("");
+  const [extensionDueDate, setExtensionDueDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setForm(toForm(submissionPolicy));
+  }, [submissionPolicy]);
+
+  const { data: extensions = [] } = useQuery<ExtensionEntry[]>({ queryKey: [extensionsKey] });
+  const { data: students = [] } = useQuery<CourseStudent[]>({
+    queryKey: [`${API_ROUTES.COURSES}/${courseId}/students`],
+    enabled: !!courseId,
+  });
+
+  const onError = (error: Error) => {
+    toast({ variant: "destructive", title: "Update failed", description: error.message || "Failed to save the change." });
+  };
+
+  const policyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/submission-policy`, {
+        submissionPolicy: toPolicy(form),
+      });
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/details`] });
+      toast({ title: "Submission policy saved", description: "Grades and exports now follow the new policy." });
+    },
+    onError,
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `${extensionsKey}/${studentId}`, {
+        dueDate: new Date(extensionDueDate).toISOString(),
+        reason: reason.trim() || undefined,
+      });
+      return await response.json();
+    },
+    onSuccess: (updated: ExtensionEntry[]) => {
+      queryClient.setQueryData([extensionsKey], updated);
+      setStudentId("");
+      setExtensionDueDate("");
+      setReason("");
+      toast({ title: "Extension granted" });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const response = await apiRequest('DELETE', `${extensionsKey}/${userId}`);
+      return await response.json();
+    },
+    onSuccess: (updated: ExtensionEntry[]) => queryClient.setQueryData([extensionsKey], updated),
+    onError,
+  });
+
+  const update = (changes: Partial<PolicyForm>) => setForm(current => ({ ...current, ...changes }));
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Attempts & Late Work</CardTitle>
+        <CardDescription>
+          Limit attempts, accept late work with a penalty and choose which attempt is the grade.
+          Extensions give individual students their own due date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="max-attempts">Max attempts</Label>
+            <Input
+              id="max-attempts"
+              type="number"
+              min={1}
+              placeholder="Unlimited"
+              value={form.maxAttempts}
+              onChange={(e) => update({ maxAttempts: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="grace-period">Grace period (minutes)</Label>
+            <Input
+              id="grace-period"
+              type="number"
+              min={0}
+              placeholder="0"
+              value={form.gracePeriodMinutes}
+              onChange={(e) => update({ gracePeriodMinutes: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Attempt that counts</Label>
+            <Select value={form.countedAttempt} onValueChange={(value) => update({ countedAttempt: value as PolicyForm['countedAttempt'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="latest">Latest</SelectItem>
+                <SelectItem value="best">Best (after penalties)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Switch id="allow-late" checked={form.allowLate} onCheckedChange={(checked) => update({ allowLate: checked })} />
+          <Label htmlFor="allow-late">Accept late submissions</Label>
+        </div>
+
+        {form.allowLate && (
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="late-penalty">Penalty per day late (%)</Label>
+              <Input
+                id="late-penalty"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="0"
+                value={form.latePenaltyPercentPerDay}
+                onChange={(e) => update({ latePenaltyPercentPerDay: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="late-cutoff">Hard cutoff (days after due)</Label>
+              <Input
+                id="late-cutoff"
+                type="number"
+                min={1}
+                placeholder="None"
+                value={form.lateCutoffDays}
+                onChange={(e) => update({ lateCutoffDays: e.target.value })}
+              />
+            </div>
+          </div>
+        )}
+
+        <Button onClick={() => policyMutation.mutate()} disabled={policyMutation.isPending}>
+          Save Policy
+        </Button>
+
+        <div className="space-y-3 border-t pt-4">
+          <h3 className="text-sm font-medium">Extensions</h3>
+          <form
+            className="flex flex-col gap-2 lg:flex-row"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (studentId && extensionDueDate) grantMutation.mutate();
+            }}
+          >
+            <Select value={studentId} onValueChange={setStudentId}>
+              <SelectTrigger className="lg:w-56">
+                <SelectValue placeholder="Choose a student" />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map(student => (
+                  <SelectItem key={student.id} value={student.id.toString()}>{student.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="datetime-local"
+              aria-label="Extended due date"
+              value={extensionDueDate}
+              onChange={(e) => setExtensionDueDate(e.target.value)}
+              className="lg:w-56"
+            />
+            <Input
+              placeholder="Reason (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <Button type="submit" disabled={grantMutation.isPending || !studentId || !extensionDueDate}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Grant
+            </Button>
+          </form>
+
+          {extensions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No student has an extension for this assignment.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {extensions.map(extension => (
+                  <TableRow key={extension.userId}>
+                    <TableCell className="font-medium">{extension.name}</TableCell>
+                    <TableCell>{formatDate(extension.dueDate)}</TableCell>
+                    <TableCell className="text-muted-foreground">{extension.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Revoke extension for ${extension.name}`}
+                        onClick={() => revokeMutation.mutate(extension.userId)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
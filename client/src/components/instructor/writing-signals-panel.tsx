@@ -0,0 +1,206 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { WritingSignal } from "@shared/schema";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+
+interface WritingSignalsPanelProps {
+  assignmentId: number;
+  writingSignalsEnabled?: boolean;
+}
+
+type WritingSignalLevel = 'insufficient_text' | 'low' | 'moderate' | 'high';
+
+interface WritingSignalEntry {
+  id: number;
+  submissionId: number;
+  userId: number;
+  level: WritingSignalLevel;
+  signals: WritingSignal[];
+  baselineSubmissions: number;
+  studentName: string;
+  submittedAt: string;
+  wordCount: number | null;
+}
+
+const LEVELS: Record<WritingSignalLevel, { label: string; className: string }> = {
+  high: { label: "High", className: "bg-red-100 text-red-800 hover:bg-red-200" },
+  moderate: { label: "Moderate", className: "bg-amber-100 text-amber-800 hover:bg-amber-200" },
+  low: { label: "Low", className: "bg-neutral-100 text-neutral-700 hover:bg-neutral-200" },
+  insufficient_text: { label: "Too short", className: "bg-neutral-50 text-neutral-500 hover:bg-neutral-100" },
+};
+
+export function WritingSignalsPanel({ assignmentId, writingSignalsEnabled = false }: WritingSignalsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const signalsKey = `${API_ROUTES.ASSIGNMENTS}/${assignmentId}/writing-signals`;
+
+  const { data: entries = [], isLoading } = useQuery<WritingSignalEntry[]>({
+    queryKey: [signalsKey],
+    enabled: writingSignalsEnabled,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest('PATCH', signalsKey, { writingSignalsEnabled: enabled });
+      return await response.json();
+    },
+    onSuccess: (_data, enabled) => {
+      queryClient.invalidateQueries({ queryKey: [`${API_ROUTES.ASSIGNMENTS}/${assignmentId}/details`] });
+      toast({
+        title: enabled ? "Writing signals enabled" : "Writing signals disabled",
+        description: enabled
+          ? "New submissions will be checked for signs of AI-generated text."
+          : "New submissions will no longer be checked.",
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Failed to update the writing signals setting.",
+      });
+    }
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${signalsKey}/analyze`);
+      return await response.json() as { analyzed: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [signalsKey] });
+      toast({
+        title: "Check complete",
+        description: `Checked ${result.analyzed} submissions that had not been checked yet.`,
+      });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Check failed",
+        description: "The submissions could not be checked.",
+      });
+    }
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle>AI Writing Signals</CardTitle>
+            <CardDescription>
+              Advisory signs that an essay may be machine-written, compared with each student's earlier work.
+              Only instructors see them and they never affect scores.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            {writingSignalsEnabled && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => analyzeMutation.mutate()}
+                disabled={analyzeMutation.isPending}
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${analyzeMutation.isPending ? 'animate-spin' : ''}`} />
+                Check Existing
+              </Button>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="writing-signals"
+                checked={writingSignalsEnabled}
+                onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+                disabled={toggleMutation.isPending}
+              />
+              <Label htmlFor="writing-signals">Enabled</Label>
+            </div>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!writingSignalsEnabled ? (
+          <p className="text-sm text-muted-foreground">
+            Turn on writing signals to check essay submissions as they are graded.
+          </p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading writing signals...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No submissions have been checked yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Student</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Words</TableHead>
+                <TableHead>Signal Level</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <Fragment key={entry.id}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                    >
+                      <TableCell>
+                        {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="font-medium">{entry.studentName}</TableCell>
+                      <TableCell>{formatDate(entry.submittedAt)}</TableCell>
+                      <TableCell>{entry.wordCount ?? '-'}</TableCell>
+                      <TableCell>
+                        <Badge className={LEVELS[entry.level].className}>{LEVELS[entry.level].label}</Badge>
+                      </TableCell>
+                    </TableRow>
+                    {expanded && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={4} className="text-sm">
+                          {entry.signals.length === 0 ? (
+                            <p className="text-muted-foreground">
+                              {entry.level === 'insufficient_text'
+                                ? "The submission is too short to measure."
+                                : "Nothing unusual was found."}
+                            </p>
+                          ) : (
+                            <ul className="list-disc pl-5 space-y-1">
+                              {entry.signals.map((signal) => (
+                                <li key={signal.id}>{signal.detail}</li>
+                              ))}
+                            </ul>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-2">
+                            {entry.baselineSubmissions >= 2
+                              ? `Compared with ${entry.baselineSubmissions} earlier submissions by this student.`
+                              : "Too few earlier submissions by this student to compare with."}
+                            {" "}These signals are indicators, not proof; talk with the student before drawing conclusions.
+                          </p>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
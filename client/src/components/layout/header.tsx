@@ -3,11 +3,12 @@ import { useState } from "react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Sidebar } from "./sidebar";
 import { getUserInitials } from "@/lib/utils/format";
-import { Menu, Bell, HelpCircle, Sun, Moon } from "lucide-react";
+import { Menu, HelpCircle, Sun, Moon } from "lucide-react";
 import { useTheme } from "@/components/ui/theme-provider";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { APP_ROUTES } from "@/lib/constants";
+import { NotificationBell } from "./notification-bell";
 
 export function Header() {
   const { user } = useAuth();
@@ -52,9 +53,7 @@ export function Header() {
         >
           {theme === 'dark' ? <Sun size={20} /> : <Moon size={20} />}
         </Button>
-        <button className="p-2 rounded-full text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800" aria-label="Notifications">
-          <Bell size={20} />
-        </button>
+        <NotificationBell />
         <button className="p-2 rounded-full text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800" aria-label="Help">
           <HelpCircle size={20} />
         </button>
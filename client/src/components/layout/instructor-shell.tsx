@@ -25,6 +25,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useAuth } from "@/lib/auth";
 import { APP_ROUTES } from "@/lib/constants";
+import { NotificationBell } from "./notification-bell";
 
 interface NavLinkProps {
   href: string;
@@ -188,6 +189,7 @@ function MobileNav() {
         <img src="/AcademusLogo.webp" alt="Academus Logo" className="h-8 mr-2" />
         <span className="text-lg font-semibold">Instructor Dashboard</span>
       </div>
+      <NotificationBell className="ml-auto" />
     </div>
   );
 }
@@ -208,6 +210,7 @@ export function InstructorShell({ children }: { children: ReactNode }) {
                 <span className="text-xl font-semibold">Instructor Portal</span>
                 <span className="text-sm text-muted-foreground">AI Grader</span>
               </div>
+              <NotificationBell className="ml-auto" />
             </div>
             <Separator />
             <div className="flex-1 overflow-auto p-4">
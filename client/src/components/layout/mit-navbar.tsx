@@ -3,7 +3,6 @@ import { Link, useLocation } from "wouter";
 import { APP_ROUTES } from "@/lib/constants";
 import { useAuth } from "@/lib/auth";
 import {
-  Bell,
   ChevronDown,
   Menu,
   Search,
@@ -11,6 +10,7 @@ import {
   User,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { NotificationBell } from "./notification-bell";
 
 export function MITNavbar() {
   const [isOpen, setIsOpen] = useState(false);
@@ -136,10 +136,7 @@ export function MITNavbar() {
                     <Search className="h-5 w-5" />
                   </button>
                   
-                  <button className="p-2 text-gray-600 hover:text-[#8a1a2c] rounded-md relative">
-                    <Bell className="h-5 w-5" />
-                    <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-[#8a1a2c]"></span>
-                  </button>
+                  <NotificationBell className="rounded-md text-gray-600 hover:text-[#8a1a2c] hover:bg-transparent dark:hover:bg-transparent" />
                   
                   <div className="text-sm font-medium text-gray-700 ml-2 mr-3">
                     {user?.name || 'User'}
@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bell, CheckCheck } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { API_ROUTES } from "@/lib/constants";
+import { getTimeAgo } from "@/lib/utils/format";
+import { cn } from "@/lib/utils";
+import type { Notification as InboxNotification } from "@shared/schema";
+
+interface NotificationInbox {
+  notifications: InboxNotification[];
+  unreadCount: number;
+}
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Bell menu showing the signed-in user's recent in-app notifications with
+ * an unread count. Opening a notification marks it read and follows its link.
+ */
+export function NotificationBell({ className }: { className?: string }) {
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const { data } = useQuery<NotificationInbox>({
+    queryKey: [API_ROUTES.NOTIFICATIONS],
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('PATCH', `${API_ROUTES.NOTIFICATIONS}/${id}/read`);
+      return await response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [API_ROUTES.NOTIFICATIONS] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `${API_ROUTES.NOTIFICATIONS}/read-all`);
+      return await response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [API_ROUTES.NOTIFICATIONS] }),
+  });
+
+  const openNotification = (notification: InboxNotification) => {
+    if (!notification.read) markReadMutation.mutate(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            "relative p-2 rounded-full text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800",
+            className
+          )}
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell size={20} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-[#8a1a2c] text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              <CheckCheck className="mr-1 h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up.
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                onSelect={() => openNotification(notification)}
+                className="flex flex-col items-start gap-0.5 py-2 cursor-pointer"
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.read && <span className="h-2 w-2 shrink-0 rounded-full bg-[#8a1a2c]" aria-label="Unread" />}
+                  <span className={cn("text-sm", !notification.read && "font-semibold")}>{notification.title}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{notification.message}</p>
+                <span className="text-[11px] text-muted-foreground">{getTimeAgo(notification.createdAt)}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
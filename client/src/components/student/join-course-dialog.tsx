@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { APP_ROUTES } from "@/lib/constants";
+
+/**
+ * Enter a join code from an instructor; the join page confirms the course
+ */
+export function JoinCourseDialog() {
+  const [, navigate] = useLocation();
+  const [code, setCode] = useState("");
+  const trimmed = code.trim().replace(/[\s-]/g, "").toUpperCase();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Join a Course
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Join a Course</DialogTitle>
+          <DialogDescription>
+            Enter the join code your instructor shared with you.
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (trimmed) navigate(APP_ROUTES.JOIN_COURSE(trimmed));
+          }}
+        >
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="e.g. K7QM4XPA"
+            aria-label="Join code"
+            className="font-mono uppercase"
+            autoFocus
+          />
+          <DialogFooter className="pt-4">
+            <Button type="submit" disabled={!trimmed}>Continue</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
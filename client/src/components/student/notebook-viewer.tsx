@@ -0,0 +1,101 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { API_ROUTES } from '@/lib/constants';
+import { NotebookCell, NotebookOutput, ParsedNotebook } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface NotebookViewerProps {
+  submissionId: number;
+  className?: string;
+}
+
+function CellOutput({ output }: { output: NotebookOutput }) {
+  if (output.kind === 'image' && output.data) {
+    return (
+      <img
+        src={`data:${output.mimeType};base64,${output.data}`}
+        alt="Cell output"
+        className="max-w-full rounded border border-neutral-200 bg-white"
+      />
+    );
+  }
+
+  return (
+    <pre className={cn(
+      "whitespace-pre-wrap break-words rounded p-2 text-xs font-mono",
+      output.kind === 'error' ? "bg-red-50 text-red-800" : "bg-white text-neutral-700"
+    )}>
+      {output.text}
+    </pre>
+  );
+}
+
+function Cell({ cell }: { cell: NotebookCell }) {
+  if (cell.cellType !== 'code') {
+    return (
+      <div className="flex gap-3">
+        <span className="w-14 shrink-0 text-right text-xs text-neutral-400">{cell.index}</span>
+        <div className="min-w-0 flex-1 whitespace-pre-wrap break-words text-sm text-neutral-800">
+          {cell.source}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-3">
+      <span className="w-14 shrink-0 pt-2 text-right font-mono text-xs text-indigo-600">
+        [{cell.executionCount ?? ' '}]
+      </span>
+      <div className="min-w-0 flex-1 space-y-2">
+        <pre className="whitespace-pre-wrap break-words rounded border border-neutral-200 bg-neutral-50 p-2 text-xs font-mono text-neutral-900">
+          {cell.source}
+        </pre>
+        {cell.outputs.map((output, i) => (
+          <CellOutput key={i} output={output} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Renders a notebook submission cell by cell with its outputs and plots
+ */
+export function NotebookViewer({ submissionId, className }: NotebookViewerProps) {
+  const { data: notebook, isLoading, error } = useQuery<ParsedNotebook>({
+    queryKey: [`${API_ROUTES.SUBMISSIONS}/${submissionId}/notebook`],
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-64 w-full", className)} />;
+  }
+
+  if (error || !notebook) {
+    return (
+      <p className={cn("text-sm text-neutral-600", className)}>
+        The notebook could not be displayed.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("rounded-lg border border-neutral-200", className)}>
+      <div className="flex items-center justify-between border-b border-neutral-200 px-3 py-2">
+        <span className="text-sm font-medium text-neutral-800">Notebook</span>
+        <Badge variant="outline">{notebook.language} · {notebook.cells.length} cells</Badge>
+      </div>
+      <ScrollArea className="h-[600px]">
+        <div className="space-y-4 p-3">
+          {notebook.cells.map(cell => (
+            <Cell key={cell.index} cell={cell} />
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
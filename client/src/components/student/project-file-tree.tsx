@@ -0,0 +1,179 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { API_ROUTES } from '@/lib/constants';
+import { ProjectFile, ProjectFileContent } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { ChevronRight, File, FileCode, Folder, FolderOpen, Image } from 'lucide-react';
+
+interface ProjectFileTreeProps {
+  submissionId: number;
+  className?: string;
+}
+
+interface TreeFolder {
+  name: string;
+  path: string;
+  folders: TreeFolder[];
+  files: ProjectFile[];
+}
+
+function buildTree(files: ProjectFile[]): TreeFolder {
+  const root: TreeFolder = { name: '', path: '', folders: [], files: [] };
+  for (const file of files) {
+    const segments = file.path.split('/');
+    let folder = root;
+    for (const segment of segments.slice(0, -1)) {
+      const folderPath = folder.path ? `${folder.path}/${segment}` : segment;
+      let child = folder.folders.find(candidate => candidate.name === segment);
+      if (!child) {
+        child = { name: segment, path: folderPath, folders: [], files: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.files.push(file);
+  }
+  return root;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function FileIcon({ file }: { file: ProjectFile }) {
+  if (file.contentType === 'image') return <Image className="h-4 w-4 shrink-0 text-blue-600" />;
+  if (file.contentType === 'text') return <FileCode className="h-4 w-4 shrink-0 text-indigo-600" />;
+  return <File className="h-4 w-4 shrink-0 text-neutral-500" />;
+}
+
+interface FolderContentsProps {
+  folder: TreeFolder;
+  depth: number;
+  selectedId?: number;
+  onSelect: (file: ProjectFile) => void;
+}
+
+// Subfolders first, then files, each indented to the given depth
+function FolderContents({ folder, depth, selectedId, onSelect }: FolderContentsProps) {
+  return (
+    <>
+      {[...folder.folders].sort((a, b) => a.name.localeCompare(b.name)).map(child => (
+        <FolderNode key={child.path} folder={child} depth={depth} selectedId={selectedId} onSelect={onSelect} />
+      ))}
+      {[...folder.files].sort((a, b) => a.path.localeCompare(b.path)).map(file => (
+        <button
+          key={file.id}
+          type="button"
+          onClick={() => onSelect(file)}
+          disabled={file.contentType !== 'text'}
+          style={{ paddingLeft: `${depth * 16 + 28}px` }}
+          className={cn(
+            "flex w-full items-center gap-2 py-1 pr-2 text-left text-sm text-neutral-800 hover:bg-neutral-50 disabled:cursor-default disabled:hover:bg-transparent",
+            selectedId === file.id && "bg-indigo-50 hover:bg-indigo-50"
+          )}
+        >
+          <FileIcon file={file} />
+          <span className="min-w-0 flex-1 truncate">{fileName(file.path)}</span>
+          <span className="text-xs text-neutral-400">{formatSize(file.fileSize)}</span>
+        </button>
+      ))}
+    </>
+  );
+}
+
+function FolderNode({ folder, depth, selectedId, onSelect }: FolderContentsProps) {
+  const [open, setOpen] = useState(depth < 2);
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        style={{ paddingLeft: `${depth * 16 + 8}px` }}
+        className="flex w-full items-center gap-1 py-1 pr-2 text-left text-sm font-medium text-neutral-800 hover:bg-neutral-50"
+      >
+        <ChevronRight className={cn("h-3.5 w-3.5 shrink-0 text-neutral-400 transition-transform", open && "rotate-90")} />
+        {open ? <FolderOpen className="h-4 w-4 shrink-0 text-amber-600" /> : <Folder className="h-4 w-4 shrink-0 text-amber-600" />}
+        <span className="truncate">{folder.name}</span>
+      </button>
+      {open && <FolderContents folder={folder} depth={depth + 1} selectedId={selectedId} onSelect={onSelect} />}
+    </div>
+  );
+}
+
+function FileContent({ submissionId, file }: { submissionId: number; file: ProjectFile }) {
+  const { data, isLoading, error } = useQuery<ProjectFileContent>({
+    queryKey: [`${API_ROUTES.SUBMISSIONS}/${submissionId}/files/${file.id}`],
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (error || !data) {
+    return <p className="p-3 text-sm text-neutral-600">This file could not be displayed.</p>;
+  }
+
+  return (
+    <ScrollArea className="h-[400px]">
+      <pre className="whitespace-pre-wrap break-words p-3 text-xs font-mono text-neutral-900">{data.content}</pre>
+    </ScrollArea>
+  );
+}
+
+/**
+ * Shows the folder structure of a multi-file or ZIP project submission,
+ * with the contents of the selected text file
+ */
+export function ProjectFileTree({ submissionId, className }: ProjectFileTreeProps) {
+  const [selected, setSelected] = useState<ProjectFile | null>(null);
+  const { data: files, isLoading, error } = useQuery<ProjectFile[]>({
+    queryKey: [`${API_ROUTES.SUBMISSIONS}/${submissionId}/files`],
+    staleTime: Infinity,
+    retry: false,
+  });
+  const tree = useMemo(() => buildTree(files || []), [files]);
+
+  if (isLoading) {
+    return <Skeleton className={cn("h-40 w-full", className)} />;
+  }
+
+  if (error || !files) {
+    return (
+      <p className={cn("text-sm text-neutral-600", className)}>
+        The project files could not be displayed.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn("rounded-lg border border-neutral-200", className)}>
+      <div className="flex items-center justify-between border-b border-neutral-200 px-3 py-2">
+        <span className="text-sm font-medium text-neutral-800">Project Files</span>
+        <Badge variant="outline">{files.length} files</Badge>
+      </div>
+      <div className="max-h-[320px] overflow-y-auto py-1">
+        <FolderContents folder={tree} depth={0} selectedId={selected?.id} onSelect={setSelected} />
+      </div>
+      {selected && (
+        <div className="border-t border-neutral-200">
+          <div className="border-b border-neutral-100 bg-neutral-50 px-3 py-1.5 font-mono text-xs text-neutral-600">
+            {selected.path}
+          </div>
+          <FileContent submissionId={submissionId} file={selected} />
+        </div>
+      )}
+    </div>
+  );
+}
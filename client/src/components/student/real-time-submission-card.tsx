@@ -4,27 +4,37 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { FeedbackCard } from '@/components/ui/feedback-card';
+import { NotebookViewer } from './notebook-viewer';
+import { ProjectFileTree } from './project-file-tree';
 import { SubmissionWithFeedback } from '@/lib/types';
+import { PartialFeedback } from '@shared/schema';
 import { formatDate } from '@/lib/utils/format';
 import { 
   Loader2, CheckCircle, Clock, Sparkles, ArrowDown, RefreshCw, 
-  FileText, File, Image, FileCode 
+  FileText, File, Image, FileCode, FolderTree 
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface RealTimeSubmissionCardProps {
   submission: SubmissionWithFeedback;
   isLatest?: boolean;
+  partialFeedback?: PartialFeedback;
   onFeedbackReady?: () => void;
 }
 
+const PARTIAL_SECTIONS = [
+  { key: 'strengths', title: 'Strengths' },
+  { key: 'improvements', title: 'Areas for Improvement' },
+  { key: 'suggestions', title: 'Suggestions' },
+] as const;
+
 // Helper function to get file icon
 function getFileIcon(fileName?: string, mimeType?: string) {
   if (!fileName && !mimeType) return <FileText className="h-4 w-4" />;
   
   if (mimeType?.startsWith('image/')) {
     return <Image className="h-4 w-4 text-blue-600" />;
-  } else if (fileName?.match(/\.(js|ts|py|java|c|cpp|html|css)$/)) {
+  } else if (fileName?.match(/\.(js|ts|py|java|c|cpp|html|css|ipynb)$/)) {
     return <FileCode className="h-4 w-4 text-indigo-600" />;
   }
   
@@ -34,6 +44,7 @@ function getFileIcon(fileName?: string, mimeType?: string) {
 export function RealTimeSubmissionCard({ 
   submission, 
   isLatest = false, 
+  partialFeedback,
   onFeedbackReady 
 }: RealTimeSubmissionCardProps) {
   const [showFeedback, setShowFeedback] = useState(false);
@@ -43,6 +54,9 @@ export function RealTimeSubmissionCard({
   const isProcessing = submission.status === 'processing' || submission.status === 'pending';
   const isCompleted = submission.status === 'completed';
   const hasFeedback = !!submission.feedback;
+  const isNotebook = submission.contentType === 'notebook';
+  // Multi-file and ZIP projects keep their files separately, so have no single file URL
+  const isProject = !submission.fileUrl && !!submission.fileName;
 
   // Animate progress for processing submissions
   useEffect(() => {
@@ -101,7 +115,9 @@ export function RealTimeSubmissionCard({
         {/* Header */}
         <div className="flex items-start justify-between mb-4">
           <div className="flex items-center space-x-3">
-            {getFileIcon(submission.fileName, submission.fileType)}
+            {isProject
+              ? <FolderTree className="h-4 w-4 text-amber-600" />
+              : getFileIcon(submission.fileName, submission.fileType)}
             <div>
               <h3 className="font-medium text-neutral-900">
                 {submission.fileName || 'Code Submission'}
@@ -129,7 +145,7 @@ export function RealTimeSubmissionCard({
             {isCompleted && !hasFeedback && (
               <Badge variant="secondary" className="bg-amber-50 text-amber-700 border-amber-200">
                 <Clock className="h-3 w-3 mr-1" />
-                Pending
+                {submission.feedbackAwaitingReview ? 'In Review' : 'Pending'}
               </Badge>
             )}
           </div>
@@ -160,6 +176,30 @@ export function RealTimeSubmissionCard({
                 Evaluating code quality, functionality, and rubric criteria...
               </p>
             </div>
+
+            {/* Feedback sections streamed so far */}
+            {partialFeedback && (
+              <div className="mt-4 space-y-3 text-sm text-neutral-800 animate-in fade-in duration-300">
+                {partialFeedback.summary && <p>{partialFeedback.summary}</p>}
+                {PARTIAL_SECTIONS.map(({ key, title }) => partialFeedback[key]?.length ? (
+                  <div key={key}>
+                    <p className="font-medium text-blue-900">{title}</p>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {partialFeedback[key]!.map((item, index) => <li key={index}>{item}</li>)}
+                    </ul>
+                  </div>
+                ) : null)}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Feedback held for instructor review */}
+        {isCompleted && !hasFeedback && submission.feedbackAwaitingReview && (
+          <div className="p-3 bg-amber-50 rounded-lg border border-amber-200">
+            <p className="text-sm text-amber-800">
+              Your instructor is reviewing the feedback for this submission. It will appear here once released.
+            </p>
           </div>
         )}
 
@@ -194,17 +234,26 @@ export function RealTimeSubmissionCard({
               </Button>
             </div>
 
-            {/* Detailed feedback */}
+            {/* Detailed feedback, next to the notebook it refers to */}
             {showFeedback && submission.feedback && (
-              <div className="animate-in slide-in-from-top-2 duration-300">
+              <div className={cn(
+                "animate-in slide-in-from-top-2 duration-300",
+                isNotebook && "grid gap-4 lg:grid-cols-2"
+              )}>
+                {isNotebook && <NotebookViewer submissionId={submission.id} />}
                 <FeedbackCard feedback={submission.feedback} />
               </div>
             )}
           </div>
         )}
 
+        {/* Folder structure of a project submission */}
+        {isProject && (
+          <ProjectFileTree submissionId={submission.id} className="mt-4" />
+        )}
+
         {/* Submission content preview */}
-        {!isProcessing && submission.content && (
+        {!isProcessing && submission.content && !isNotebook && (
           <div className="mt-4 pt-4 border-t border-neutral-200">
             <p className="text-xs text-neutral-600 mb-2">Submission Content:</p>
             <div className="bg-neutral-50 rounded p-3 text-sm font-mono text-neutral-700 max-h-24 overflow-hidden">
@@ -22,6 +22,19 @@ import { Calendar, Clock, RefreshCw, Loader2, Upload, AlertCircle, CheckCircle }
 import { cn } from "@/lib/utils";
 import { QuillContent } from "@/components/quill-content";
 
+// Files that can be selected at once for a multi-file project; larger projects can be zipped
+const MAX_PROJECT_UPLOAD_FILES = 50;
+
+// The student's own due date and attempts, from the assignment's submission policy
+interface SubmissionWindow {
+  dueDate: string;
+  extended: boolean;
+  attemptsUsed: number;
+  maxAttempts: number | null;
+  refusal: string | null;
+  lateness: { minutesLate: number; daysLate: number; penaltyPercent: number };
+}
+
 interface SubmissionFormProps {
   assignment: Assignment;
   onSubmissionComplete?: (submission: Submission) => void;
@@ -29,13 +42,17 @@ interface SubmissionFormProps {
 
 export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionFormProps) {
   const [submissionType, setSubmissionType] = useState<'file' | 'text'>('file');
-  const [file, setFile] = useState<File | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
   const [code, setCode] = useState<string>('');
   const [notes, setNotes] = useState<string>('');
   const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "processing" | "complete" | "error">("idle");
   const [uploadProgress, setUploadProgress] = useState(0);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const windowKey = `${API_ROUTES.ASSIGNMENTS}/${assignment.id}/submission-window`;
+  
+  const { data: submissionWindow } = useQuery<SubmissionWindow>({ queryKey: [windowKey] });
+  const dueDate = submissionWindow?.dueDate ?? assignment.dueDate;
   
   const { mutate, isPending } = useMutation({
     mutationFn: async () => {
@@ -43,8 +60,14 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
       formData.append('assignmentId', assignment.id.toString());
       formData.append('submissionType', submissionType);
       
-      if (submissionType === 'file' && file) {
-        formData.append('file', file);
+      if (submissionType === 'file' && files.length === 1) {
+        formData.append('file', files[0]);
+      } else if (submissionType === 'file' && files.length > 1) {
+        // Several files are submitted as one project; dropped folders keep their paths (set by the dropzone)
+        files.forEach(projectFile => {
+          const projectPath = (projectFile as File & { path?: string }).path || projectFile.webkitRelativePath || projectFile.name;
+          formData.append('files', projectFile, projectPath);
+        });
       } else if (submissionType === 'text') {
         formData.append('content', code);
       }
@@ -124,6 +147,7 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
       
       queryClient.invalidateQueries({ queryKey: [API_ROUTES.SUBMISSIONS] });
       queryClient.invalidateQueries({ queryKey: [API_ROUTES.ASSIGNMENTS] });
+      queryClient.invalidateQueries({ queryKey: [windowKey] });
       
       if (onSubmissionComplete) {
         onSubmissionComplete(data);
@@ -132,7 +156,7 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
       // Reset to idle state after a delay to allow seeing the complete status
       setTimeout(() => {
         // Clear form
-        setFile(null);
+        setFiles([]);
         setCode('');
         setNotes('');
         setUploadStatus("idle");
@@ -163,7 +187,7 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
   });
   
   const handleSubmit = () => {
-    if (submissionType === 'file' && !file) {
+    if (submissionType === 'file' && files.length === 0) {
       toast({
         variant: 'destructive',
         title: 'File Required',
@@ -218,18 +242,37 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
         <div className="flex flex-wrap gap-4 text-sm mt-4">
           <div className="flex items-center gap-1.5 px-2 py-1 bg-neutral-50 rounded-md">
             <Calendar className="h-4 w-4 text-neutral-500" />
-            <span>Due: {formatDate(assignment.dueDate)}</span>
+            <span>Due: {formatDate(dueDate)}{submissionWindow?.extended && ' (extended)'}</span>
           </div>
           <div className="flex items-center gap-1.5 px-2 py-1 bg-neutral-50 rounded-md">
             <Clock className="h-4 w-4 text-neutral-500" />
-            <span>Time remaining: {formatTimeRemaining(assignment.dueDate)}</span>
+            <span>Time remaining: {formatTimeRemaining(dueDate)}</span>
           </div>
           <div className="flex items-center gap-1.5 px-2 py-1 bg-neutral-50 rounded-md">
             <RefreshCw className="h-4 w-4 text-neutral-500" />
-            <span>Submissions allowed: Unlimited until due date</span>
+            <span>
+              {submissionWindow?.maxAttempts
+                ? `Attempts used: ${submissionWindow.attemptsUsed} of ${submissionWindow.maxAttempts}`
+                : 'Submissions allowed: Unlimited'}
+            </span>
           </div>
         </div>
         
+        {submissionWindow?.refusal ? (
+          <div className="mt-4 flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{submissionWindow.refusal}</span>
+          </div>
+        ) : submissionWindow && submissionWindow.lateness.minutesLate > 0 && (
+          <div className="mt-4 flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              This submission will be late
+              {submissionWindow.lateness.penaltyPercent > 0 && ` and lose ${submissionWindow.lateness.penaltyPercent}% of its score`}.
+            </span>
+          </div>
+        )}
+        
         {/* Display assignment rubric */}
         {assignment.rubric && assignment.rubric.criteria && assignment.rubric.criteria.length > 0 && (
           <div className="mt-6 p-4 bg-white border border-neutral-200 rounded-md">
@@ -269,10 +312,10 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
             
             <TabsContent value="file" className="file-upload-area">
               <FileUpload 
-                onValueChange={(files) => setFile(files.length > 0 ? files[0] : null)}
+                onValueChange={setFiles}
                 accept=".py,.java,.cpp,.ipynb,.zip,.js,.ts,.html,.css,.md,.txt,.pdf,.jpg,.jpeg,.png,.csv,.mp4,.mp3,.doc,.docx"
                 maxSize={10 * 1024 * 1024}
-                maxFiles={1}
+                maxFiles={MAX_PROJECT_UPLOAD_FILES}
                 processingStatus={isPending ? uploadStatus : "idle"}
                 processingProgress={uploadProgress}
                 showPreviews={true}
@@ -307,7 +350,7 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
                   </li>
                   <li className="flex items-center">
                     <span className="h-1.5 w-1.5 rounded-full bg-blue-500 mr-1"></span>
-                    Archives: ZIP (multiple files)
+                    Projects: ZIP or multiple files
                   </li>
                 </ul>
               </div>
@@ -341,7 +384,7 @@ export function SubmissionForm({ assignment, onSubmissionComplete }: SubmissionF
         <div className="flex justify-end w-full">
           <Button 
             onClick={handleSubmit} 
-            disabled={isPending} 
+            disabled={isPending || !!submissionWindow?.refusal} 
             className={cn(
               "px-4 py-2 min-w-[180px] relative overflow-hidden group btn-hover-effect transition-all duration-300",
               uploadStatus === "processing" && "bg-amber-600 hover:bg-amber-700",
@@ -125,6 +125,7 @@ export function SubmissionHistory({
     submissions: polledSubmissions, 
     isLoading: pollingLoading,
     hasProcessingSubmissions,
+    partialFeedback,
     refreshSubmissions
   } = useSubmissionPolling(user?.id || 0, {
     enabled: shouldPoll,
@@ -272,6 +273,7 @@ export function SubmissionHistory({
             <RealTimeSubmissionCard 
               submission={submission}
               isLatest={index === 0}
+              partialFeedback={partialFeedback[submission.id]}
               onFeedbackReady={() => {
                 // Auto-scroll to the submission that just received feedback
                 const element = document.getElementById(`submission-${submission.id}`);
@@ -11,7 +11,9 @@ import {
   ChevronDown, 
   ChevronUp, 
   Clock,
-  Bot
+  Bot,
+  FlaskConical,
+  XCircle
 } from "lucide-react";
 import { useState } from "react";
 
@@ -130,6 +132,12 @@ export function FeedbackCard({ feedback, expanded = true, onToggle }: FeedbackCa
                   <div className="font-medium text-gray-700">
                     {/* Display a readable name for the criterion */}
                     {getCriterionDisplayName(criterion.criteriaId)}
+                    {/* Performance level chosen for analytic criteria */}
+                    {criterion.level && (
+                      <Badge variant="outline" className="ml-2 border-indigo-200 bg-indigo-50 text-indigo-700 font-medium">
+                        {criterion.level}
+                      </Badge>
+                    )}
                   </div>
                   <div className="font-semibold">
                     <span className={getScoreColor(criterion.score)}>{criterion.score}%</span>
@@ -146,6 +154,11 @@ export function FeedbackCard({ feedback, expanded = true, onToggle }: FeedbackCa
                     "bg-red-500"
                   }`}
                 />
+                {criterion.levelJustification && (
+                  <p className="text-xs text-indigo-700 mt-1">
+                    <span className="font-medium">Why {criterion.level}:</span> {criterion.levelJustification}
+                  </p>
+                )}
                 {criterion.feedback && (
                   <p className="text-xs text-gray-600 mt-1">{criterion.feedback}</p>
                 )}
@@ -155,6 +168,47 @@ export function FeedbackCard({ feedback, expanded = true, onToggle }: FeedbackCa
         </div>
       )}
       
+      {/* Autograder results; students see names and outcomes only */}
+      {feedback.testResults && (
+        <div className="bg-gray-50 rounded-md p-4 mb-5 border border-gray-200">
+          <div className="flex justify-between items-center mb-3">
+            <h5 className="text-sm font-semibold text-gray-800 flex items-center">
+              <FlaskConical className="h-4 w-4 mr-1.5 text-indigo-600" />
+              Automated Tests
+            </h5>
+            <Badge
+              variant="outline"
+              className={feedback.testResults.status === 'passed' ? "border-green-300 text-green-700" : "border-red-300 text-red-700"}
+            >
+              {feedback.testResults.passed}/{feedback.testResults.total} passed
+            </Badge>
+          </div>
+          {feedback.testResults.status === 'timeout' && (
+            <p className="text-xs text-red-600 mb-2">The tests did not finish within the time limit.</p>
+          )}
+          {feedback.testResults.error && feedback.testResults.status !== 'timeout' && (
+            <p className="text-xs text-red-600 mb-2">{feedback.testResults.error}</p>
+          )}
+          <ul className="space-y-1">
+            {feedback.testResults.tests.map((test, index) => (
+              <li key={index} className="text-sm">
+                <div className="flex items-center">
+                  {test.passed ? (
+                    <CheckCircle className="h-3.5 w-3.5 mr-1.5 shrink-0 text-green-600" />
+                  ) : (
+                    <XCircle className="h-3.5 w-3.5 mr-1.5 shrink-0 text-red-600" />
+                  )}
+                  <span className="font-mono text-xs text-gray-700">{test.name}</span>
+                </div>
+                {test.message && (
+                  <p className="ml-5 text-xs text-gray-600">{test.message}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Feedback Sections */}
       <div className="space-y-4">
         {/* Strengths Section */}
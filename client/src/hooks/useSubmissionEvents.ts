@@ -0,0 +1,68 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { PartialFeedback, SubmissionEvent } from '@shared/schema';
+import { SubmissionWithFeedback } from '@/lib/types';
+
+const SUBMISSIONS_QUERY_KEY = ['/api/submissions'];
+
+/**
+ * Hook for the server-sent submission event stream
+ * Applies status changes to the cached submissions as they happen and keeps
+ * the feedback sections streamed so far for submissions still being graded
+ */
+export function useSubmissionEvents(enabled = true) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [partialFeedback, setPartialFeedback] = useState<Record<number, PartialFeedback>>({});
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource('/api/submissions/events', { withCredentials: true });
+
+    source.onopen = () => {
+      setConnected(true);
+      // Catch up on anything that changed while disconnected
+      queryClient.invalidateQueries({ queryKey: SUBMISSIONS_QUERY_KEY });
+    };
+
+    // The browser reconnects by itself; callers poll in the meantime
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener('status', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<SubmissionEvent, { type: 'status' }>;
+
+      const cached = queryClient.getQueryData<SubmissionWithFeedback[]>(SUBMISSIONS_QUERY_KEY);
+      const isKnown = !!cached?.some((submission) => submission.id === event.submissionId);
+      if (isKnown) {
+        queryClient.setQueryData<SubmissionWithFeedback[]>(SUBMISSIONS_QUERY_KEY, (submissions) =>
+          submissions?.map((submission) =>
+            submission.id === event.submissionId ? { ...submission, status: event.status } : submission
+          )
+        );
+      }
+
+      const isFinished = event.status === 'completed' || event.status === 'failed';
+      if (isFinished) {
+        setPartialFeedback(({ [event.submissionId]: _done, ...rest }) => rest);
+      }
+
+      // New submissions are fetched, and finished ones refetched for their feedback
+      if (!isKnown || isFinished) {
+        queryClient.invalidateQueries({ queryKey: SUBMISSIONS_QUERY_KEY });
+      }
+    });
+
+    source.addEventListener('partial_feedback', (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<SubmissionEvent, { type: 'partial_feedback' }>;
+      setPartialFeedback((current) => ({ ...current, [event.submissionId]: event.feedback }));
+    });
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [enabled, queryClient]);
+
+  return { connected, partialFeedback };
+}
@@ -1,6 +1,7 @@
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useEffect, useRef } from 'react';
 import { SubmissionWithFeedback } from '@/lib/types';
+import { useSubmissionEvents } from './useSubmissionEvents';
 
 interface UseSubmissionPollingOptions {
   enabled?: boolean;
@@ -8,14 +9,17 @@ interface UseSubmissionPollingOptions {
 }
 
 /**
- * Hook for real-time polling of submission status
- * Automatically polls submissions that are in "processing" status
+ * Hook for real-time submission status
+ * Status changes and partial feedback are pushed over the submission event
+ * stream; submissions in "processing" status are polled only while the
+ * stream is disconnected
  */
 export function useSubmissionPolling(userId: number, options: UseSubmissionPollingOptions = {}) {
   const { enabled = true, onFeedbackReady } = options;
   const queryClient = useQueryClient();
   const processingSubmissionsRef = useRef<Set<number>>(new Set());
   const onFeedbackReadyRef = useRef(onFeedbackReady);
+  const { connected, partialFeedback } = useSubmissionEvents(enabled && !!userId);
   
   // Update the callback ref when it changes
   useEffect(() => {
@@ -26,15 +30,16 @@ export function useSubmissionPolling(userId: number, options: UseSubmissionPolli
   const { data: submissions = [], isLoading } = useQuery<SubmissionWithFeedback[]>({
     queryKey: ['/api/submissions'],
     enabled: enabled && !!userId,
-    refetchInterval: (data) => {
-      if (!data || !Array.isArray(data)) return false;
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      if (connected || !data || !Array.isArray(data)) return false;
       
       // Check if any submissions are in processing status
       const hasProcessing = data.some((submission: SubmissionWithFeedback) => 
         submission.status === 'processing' || submission.status === 'pending'
       );
       
-      // Poll every 3 seconds if there are processing submissions, otherwise stop
+      // Poll every 3 seconds if there are processing submissions and no event stream, otherwise stop
       return hasProcessing ? 3000 : false;
     },
     refetchIntervalInBackground: false, // Only poll when tab is active
@@ -80,6 +85,7 @@ export function useSubmissionPolling(userId: number, options: UseSubmissionPolli
     isLoading,
     processingSubmissions,
     hasProcessingSubmissions: processingSubmissions.length > 0,
+    partialFeedback,
     refreshSubmissions
   };
 }
\ No newline at end of file
@@ -10,8 +10,17 @@
     COURSES: '/api/courses',
     ADMIN_USERS: '/api/admin/users',
     SYSTEM_SETTINGS: '/api/admin/system-settings',
+    AI_MODEL_DEFAULT: '/api/admin/ai-model',
     SECURITY_AUDIT: '/api/admin/security-audit',
     NEWSLETTER_SUBSCRIBE: '/api/newsletter/subscribe',
+    LTI_DEEP_LINK: '/api/lti/deep-link',
+    LTI_LINK: '/api/lti/link',
+    LTI_PLATFORMS: '/api/lti/platforms',
+    LTI_CONFIG: '/api/lti/config',
+    NOTIFICATIONS: '/api/notifications',
+    RUBRIC_TEMPLATES: '/api/rubric-templates',
+    JOIN_COURSE: '/api/join',
+    GUEST: '/api/guest',
   };
 
   export const APP_ROUTES = {
@@ -30,7 +39,12 @@
     INSTRUCTOR_COURSE_STUDENTS: (id: string | number) => `/instructor/course/${id}/students`,
     INSTRUCTOR_COURSE_EDIT: (id: string | number) => `/instructor/course/${id}/edit`,
     INSTRUCTOR_ANALYTICS: '/instructor/analytics',
+    INSTRUCTOR_LTI_DEEP_LINK: '/instructor/lti/deep-link',
+    LTI_LINK: '/lti/link',
     SUBMIT_BY_CODE: (code: string) => `/submit/${code}`,
+    JOIN_COURSE: (code: string) => `/join/${code}`,
+    GUEST: '/guest',
+    GUEST_ACCESS: '/guest/access',
     ADMIN_DASHBOARD: '/admin/dashboard',
     ADMIN_USERS: '/admin/users',
     ADMIN_SYSTEM_CONFIG: '/admin/system-config',
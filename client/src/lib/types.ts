@@ -1,6 +1,6 @@
 import { SUBMISSION_STATUS, USER_ROLES } from './constants';
 import * as SharedEnums from '@shared/enums';
-import { Rubric, RubricCriterion, CriteriaScore as SchemaCriteriaScore } from '@shared/schema';
+import { Rubric, RubricCriterion, CriteriaScore as SchemaCriteriaScore, GradingConfig, GradingVariance, AutograderConfig, AutograderResult, AIModelConfig } from '@shared/schema';
 
 export interface User {
   id: number;
@@ -34,6 +34,10 @@ export interface Assignment {
   shareableCode?: string;
   rubric?: Rubric;
   instructorContext?: string;
+  gradingConfig?: GradingConfig | null;
+  holdFeedbackForReview?: boolean;
+  autograder?: AutograderConfig | null;
+  aiModel?: AIModelConfig | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -48,16 +52,57 @@ export interface Submission {
   fileName?: string;
   fileType?: string;
   fileSize?: number;
+  mimeType?: string;
+  contentType?: 'text' | 'image' | 'audio' | 'video' | 'document' | 'notebook' | null;
   content?: string;
   code?: string;
   submissionType?: 'file' | 'code';
   notes?: string;
   status: typeof SUBMISSION_STATUS[keyof typeof SUBMISSION_STATUS];
   processingProgress?: number;
+  lmsSyncStatus?: 'pending' | 'in_progress' | 'completed' | 'failed' | null;
+  lmsSyncAttempts?: number;
+  lmsSyncError?: string | null;
+  lmsSyncedAt?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface NotebookOutput {
+  kind: 'stream' | 'result' | 'image' | 'error';
+  text?: string;
+  mimeType?: string;
+  data?: string;
+}
+
+export interface NotebookCell {
+  index: number;
+  cellType: 'code' | 'markdown' | 'raw';
+  source: string;
+  executionCount: number | null;
+  outputs: NotebookOutput[];
+}
+
+export interface ParsedNotebook {
+  language: string;
+  cells: NotebookCell[];
+}
+
+// A file of a multi-file or ZIP project submission
+export interface ProjectFile {
+  id: number;
+  path: string;
+  mimeType: string;
+  fileSize: number;
+  contentType: 'text' | 'image' | 'audio' | 'video' | 'document' | 'notebook';
+}
+
+export interface ProjectFileContent {
+  id: number;
+  path: string;
+  content: string;
+}
+
 export interface FeedbackItem {
   type: typeof SharedEnums.FEEDBACK_TYPE[keyof typeof SharedEnums.FEEDBACK_TYPE];
   content: string;
@@ -76,11 +121,52 @@ export interface Feedback {
   score?: number;
   criteriaScores?: SchemaCriteriaScore[];
   processingTime: number;
+  modelName?: string | null;
+  needsReview?: boolean;
+  gradingVariance?: GradingVariance | null;
+  testResults?: AutograderResult | null;
+  status?: 'draft' | 'released';
+  releasedAt?: string | null;
+  releasedBy?: number | null;
+  lastEditedBy?: number | null;
+  lastEditedAt?: string | null;
+  createdAt: string;
+}
+
+export interface FeedbackFieldChange {
+  field: 'strengths' | 'improvements' | 'suggestions' | 'summary' | 'score' | 'criteriaScores';
+  from: unknown;
+  to: unknown;
+}
+
+export interface FeedbackAuditEntry {
+  id: number;
+  event: 'edit' | 'release';
+  changes: FeedbackFieldChange[];
+  performedBy: number | null;
+  performedByName: string | null;
+  timestamp: string;
+}
+
+export interface GradingPass {
+  id: number;
+  submissionId: number;
+  feedbackId: number | null;
+  passNumber: number;
+  provider: string;
+  modelName: string | null;
+  seed: number | null;
+  score: number | null;
+  criteriaScores: SchemaCriteriaScore[] | null;
+  summary: string | null;
+  tokenCount: number | null;
+  processingTime: number;
   createdAt: string;
 }
 
 export interface SubmissionWithFeedback extends Submission {
   feedback?: Feedback;
+  feedbackAwaitingReview?: boolean;
 }
 
 export interface AssignmentWithSubmissions extends Assignment {
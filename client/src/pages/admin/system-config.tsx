@@ -26,6 +26,8 @@
   import { useToast } from "@/hooks/use-toast";
   import { Settings, Database, Key, Network, Lock, Eye, EyeOff } from "lucide-react";
   import { API_ROUTES } from "@/lib/constants";
+  import { LtiPlatformsCard } from "@/components/admin/lti-platforms-card";
+  import { AIModelDefaultsCard } from "@/components/admin/ai-model-defaults-card";
 
   export default function SystemConfigPage() {
     const { toast } = useToast();
@@ -697,6 +699,7 @@
                   </CardFooter>
                 </form>
               </Card>
+              <AIModelDefaultsCard />
             </TabsContent>
 
             {/* Integrations Settings */}
@@ -790,6 +793,11 @@
                           }
                           disabled={!integrationSettings.enableLms}
                         />
+                        {integrationSettings.lmsProvider === 'moodle' && (
+                          <p className="text-sm text-muted-foreground">
+                            For Moodle, enter the web service token
+                          </p>
+                        )}
                       </div>
                       <div className="space-y-2">
                         <Label htmlFor="callbackUrl">Callback URL</Label>
@@ -881,6 +889,8 @@
                   </CardFooter>
                 </form>
               </Card>
+
+              <LtiPlatformsCard />
             </TabsContent>
 
             {/* Storage Settings */}
@@ -13,6 +13,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { ClipboardList, BookOpen } from "lucide-react";
 import { QuickStartDialog } from "@/components/student/quick-start-dialog";
+import { JoinCourseDialog } from "@/components/student/join-course-dialog";
 
 export default function Dashboard() {
   const { user } = useAuth();
@@ -43,7 +44,10 @@ export default function Dashboard() {
             <h1 className="text-2xl font-bold text-neutral-800">Dashboard</h1>
             <p className="text-neutral-600">Welcome back, {user.name}</p>
           </div>
-          <QuickStartDialog />
+          <div className="flex gap-2">
+            <JoinCourseDialog />
+            <QuickStartDialog />
+          </div>
         </div>
         
         <div className="mb-8">
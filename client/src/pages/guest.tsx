@@ -0,0 +1,395 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError, getQueryFn } from "@/lib/queryClient";
+import { API_ROUTES, APP_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { AlertCircle, Download, Loader2, Mail, Trash2 } from "lucide-react";
+
+interface GuestSubmitter {
+  id: number;
+  name: string;
+  email: string;
+  emailVerifiedAt: string | null;
+}
+
+interface GuestFeedback {
+  score: number | null;
+  summary: string | null;
+  strengths: string[];
+  improvements: string[];
+  suggestions: string[];
+}
+
+interface GuestSubmission {
+  id: number;
+  assignmentTitle: string;
+  status: string;
+  createdAt: string;
+  feedback: GuestFeedback | null;
+  feedbackAwaitingReview: boolean;
+}
+
+const GUEST_ME = `${API_ROUTES.GUEST}/me`;
+const GUEST_SUBMISSIONS = `${API_ROUTES.GUEST}/submissions`;
+
+// The server's explanation from an API error, e.g. why a link was refused
+function apiErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    try {
+      const body = JSON.parse(error.responseBody);
+      return body.error?.message || body.message || error.statusText;
+    } catch {
+      return error.responseBody || error.statusText;
+    }
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+const FEEDBACK_SECTIONS: { key: keyof Pick<GuestFeedback, "strengths" | "improvements" | "suggestions">; title: string }[] = [
+  { key: "strengths", title: "Strengths" },
+  { key: "improvements", title: "Areas for Improvement" },
+  { key: "suggestions", title: "Suggestions" },
+];
+
+/**
+ * Landing page for the emailed sign-in link: exchanges its token for a guest
+ * session, then shows the guest's submissions
+ */
+export function GuestAccessPage() {
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const started = useRef(false);
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.GUEST}/session`, { token });
+      return response.json();
+    },
+    onSuccess: (guest: GuestSubmitter) => {
+      queryClient.setQueryData([GUEST_ME], guest);
+      queryClient.invalidateQueries({ queryKey: [GUEST_SUBMISSIONS] });
+      navigate(APP_ROUTES.GUEST, { replace: true });
+    },
+  });
+
+  // Tokens are single use, so exchange it only once
+  useEffect(() => {
+    if (token && !started.current) {
+      started.current = true;
+      signInMutation.mutate();
+    }
+  }, [token]);
+
+  if (!token || signInMutation.isError) {
+    return (
+      <div className="max-w-lg mx-auto mt-8 px-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-red-500" />
+              Sign-in link not accepted
+            </CardTitle>
+            <CardDescription>
+              {token ? apiErrorMessage(signInMutation.error) : "This sign-in link is incomplete."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+        <RequestAccessLink />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto mt-8 px-4 flex items-center gap-2 text-muted-foreground">
+      <Loader2 className="h-4 w-4 animate-spin" />
+      Signing you in...
+    </div>
+  );
+}
+
+/**
+ * Ask for a new sign-in link by email
+ */
+function RequestAccessLink() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.GUEST}/access-link`, { email });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Check your email", description: `If ${email} has submitted work, a sign-in link is on its way.` });
+    },
+    onError: (error: unknown) => {
+      toast({ variant: "destructive", title: "Could not send a sign-in link", description: apiErrorMessage(error) });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Get a sign-in link</CardTitle>
+        <CardDescription>
+          Submitted work through a shared link without an account? Enter the email you used to see your feedback.
+        </CardDescription>
+      </CardHeader>
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          requestMutation.mutate();
+        }}
+      >
+        <CardContent className="space-y-1">
+          <Label htmlFor="guest-email">Email</Label>
+          <Input id="guest-email" type="email" required value={email} onChange={(event) => setEmail(event.target.value)} />
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" disabled={requestMutation.isPending || !email}>
+            <Mail className="h-4 w-4 mr-2" />
+            {requestMutation.isPending ? "Sending..." : "Email me a link"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
+
+function GuestSubmissionCard({ submission }: { submission: GuestSubmission }) {
+  const { feedback } = submission;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{submission.assignmentTitle}</CardTitle>
+            <CardDescription>Submitted {formatDate(submission.createdAt)}</CardDescription>
+          </div>
+          {feedback?.score != null ? (
+            <Badge variant="secondary">{feedback.score}</Badge>
+          ) : (
+            <Badge variant="outline">
+              {submission.feedbackAwaitingReview ? "In Review" : submission.status === "failed" ? "Failed" : "Pending"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {feedback ? (
+          <>
+            {feedback.summary && <p>{feedback.summary}</p>}
+            {FEEDBACK_SECTIONS.filter(({ key }) => feedback[key]?.length > 0).map(({ key, title }) => (
+              <div key={key}>
+                <p className="font-medium">{title}</p>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {feedback[key].map((item, index) => <li key={index}>{item}</li>)}
+                </ul>
+              </div>
+            ))}
+          </>
+        ) : submission.feedbackAwaitingReview ? (
+          <p className="text-muted-foreground">
+            Your instructor is reviewing the feedback for this submission. It will appear here once released.
+          </p>
+        ) : submission.status === "failed" ? (
+          <p className="text-muted-foreground">We could not generate feedback for this submission.</p>
+        ) : (
+          <p className="text-muted-foreground">Your feedback is being prepared. Check back shortly.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A guest's submission history with their feedback, plus a copy of their
+ * data, erasure, and moving the work to an account
+ */
+export default function GuestPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+
+  const { data: guest, isLoading } = useQuery<GuestSubmitter | null>({
+    queryKey: [GUEST_ME],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    retry: false,
+  });
+
+  const { data: submissions = [], isLoading: submissionsLoading } = useQuery<GuestSubmission[]>({
+    queryKey: [GUEST_SUBMISSIONS],
+    enabled: !!guest,
+  });
+
+  const clearGuest = () => {
+    queryClient.setQueryData([GUEST_ME], null);
+    queryClient.removeQueries({ queryKey: [GUEST_SUBMISSIONS] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({ variant: "destructive", title: "Error", description: apiErrorMessage(error) });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", `${API_ROUTES.GUEST}/data-export`);
+      return response.json();
+    },
+    onSuccess: (data: unknown) => {
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `my-submissions-${new Date().toISOString().split("T")[0]}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError,
+  });
+
+  const eraseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `${API_ROUTES.GUEST}/data`);
+      return response.json();
+    },
+    onSuccess: () => {
+      clearGuest();
+      toast({ title: "Data deleted", description: "Your submissions and feedback have been deleted." });
+    },
+    onError,
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.GUEST}/sign-out`);
+      return response.json();
+    },
+    onSuccess: clearGuest,
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.GUEST}/merge`);
+      return response.json();
+    },
+    onSuccess: ({ merged }: { merged: number }) => {
+      clearGuest();
+      queryClient.invalidateQueries({ queryKey: [API_ROUTES.SUBMISSIONS] });
+      toast({ title: "Submissions moved", description: `${merged} submission${merged === 1 ? "" : "s"} added to your account.` });
+      navigate(APP_ROUTES.SUBMISSION_HISTORY);
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-3xl mx-auto mt-8 px-4 space-y-3">
+        <Skeleton className="h-8 w-1/2" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!guest) {
+    return (
+      <div className="max-w-lg mx-auto mt-8 px-4">
+        <RequestAccessLink />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto mt-8 px-4 pb-8 space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Your submissions</h1>
+          <p className="text-sm text-muted-foreground">{guest.name} &middot; {guest.email}</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+            <Download className="h-4 w-4 mr-2" />
+            Download my data
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={eraseMutation.isPending}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete my data
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete your submissions?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your submissions, their feedback and your email address will be permanently deleted. This cannot be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={() => eraseMutation.mutate()}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+          <Button variant="ghost" size="sm" onClick={() => signOutMutation.mutate()} disabled={signOutMutation.isPending}>
+            Sign out
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="flex flex-col gap-3 p-4 text-sm md:flex-row md:items-center md:justify-between">
+          {isAuthenticated ? (
+            <>
+              <p>Move these submissions to the account you are signed in to.</p>
+              <Button size="sm" onClick={() => mergeMutation.mutate()} disabled={mergeMutation.isPending}>
+                {mergeMutation.isPending ? "Moving..." : "Add to my account"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <p>Create an account or sign in with {guest.email} to keep these submissions with your other work.</p>
+              <Button size="sm" variant="outline" onClick={() => navigate(`${APP_ROUTES.LOGIN}?returnTo=${encodeURIComponent(APP_ROUTES.GUEST)}`)}>
+                Sign in
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {submissionsLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : submissions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You have no submissions yet.</p>
+      ) : (
+        submissions.map(submission => <GuestSubmissionCard key={submission.id} submission={submission} />)
+      )}
+    </div>
+  );
+}
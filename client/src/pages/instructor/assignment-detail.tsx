@@ -5,6 +5,13 @@ import { API_ROUTES, USER_ROLES } from "@/lib/constants";
 import { AppShell } from "@/components/layout/app-shell";
 import { StudentProgress } from "@/components/instructor/student-progress";
 import { AnalyticsPanel } from "@/components/instructor/analytics-panel";
+import { GradingVariancePanel } from "@/components/instructor/grading-variance-panel";
+import { FeedbackReviewPanel } from "@/components/instructor/feedback-review-panel";
+import { AutograderPanel } from "@/components/instructor/autograder-panel";
+import { AIModelPanel } from "@/components/instructor/ai-model-panel";
+import { SimilarityPanel } from "@/components/instructor/similarity-panel";
+import { WritingSignalsPanel } from "@/components/instructor/writing-signals-panel";
+import { SubmissionPolicyPanel } from "@/components/instructor/submission-policy-panel";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +25,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { GradingConfig, AutograderConfig, AIModelConfig, SubmissionPolicy } from "@shared/schema";
 import { ChevronDown, PlayCircle, Clock, CheckCircle, Download, Link, Copy, Check } from "lucide-react";
 
 interface AssignmentDetailProps {
@@ -36,6 +44,12 @@ interface AssignmentDetailData {
   createdAt: string;
   updatedAt: string;
   shareableCode?: string;
+  gradingConfig?: GradingConfig | null;
+  holdFeedbackForReview?: boolean;
+  autograder?: AutograderConfig | null;
+  aiModel?: AIModelConfig | null;
+  writingSignalsEnabled?: boolean;
+  submissionPolicy?: SubmissionPolicy | null;
   course?: {
     id: number;
     name: string;
@@ -335,6 +349,54 @@ export default function AssignmentDetail({ id }: AssignmentDetailProps) {
           </Card>
         )}
         
+        {/* Attempt limit, late penalties and per-student extensions */}
+        {!assignmentLoading && assignment && (
+          <SubmissionPolicyPanel
+            assignmentId={assignmentId}
+            courseId={assignment.courseId}
+            submissionPolicy={assignment.submissionPolicy}
+          />
+        )}
+        
+        {/* Multi-pass grading variance */}
+        {!assignmentLoading && (
+          <GradingVariancePanel
+            assignmentId={assignmentId}
+            gradingConfig={assignment?.gradingConfig}
+          />
+        )}
+        
+        {/* Instructor review and release of AI feedback */}
+        {!assignmentLoading && (
+          <FeedbackReviewPanel
+            assignmentId={assignmentId}
+            holdFeedbackForReview={assignment?.holdFeedbackForReview}
+          />
+        )}
+        
+        {/* Hidden test suite run against each submission */}
+        {!assignmentLoading && (
+          <AutograderPanel
+            assignmentId={assignmentId}
+            autograder={assignment?.autograder}
+            rubric={assignment?.rubric}
+          />
+        )}
+        
+        {/* Which models grade this assignment, with fallbacks */}
+        {!assignmentLoading && <AIModelPanel assignmentId={assignmentId} />}
+        
+        {/* Students whose submissions share passages */}
+        {!assignmentLoading && <SimilarityPanel assignmentId={assignmentId} />}
+        
+        {/* Advisory signs of AI-generated writing */}
+        {!assignmentLoading && (
+          <WritingSignalsPanel
+            assignmentId={assignmentId}
+            writingSignalsEnabled={assignment?.writingSignalsEnabled}
+          />
+        )}
+        
         {/* Student Progress & Analytics Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
           {/* Student Progress */}
@@ -28,6 +28,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { format } from "date-fns";
 import { QuillContent } from "@/components/quill-content";
+import { LmsGradeSyncCard } from "@/components/instructor/lms-grade-sync-card";
+import { CourseStaffCard } from "@/components/instructor/course-staff-card";
+import { useAuth } from "@/lib/auth";
+import type { CourseStaffRole } from "@shared/schema";
 
 // Type definitions for better type safety
 type AssignmentStatus = "active" | "completed" | "upcoming";
@@ -51,11 +55,13 @@ interface Course {
   studentCount: number;
   createdAt: string;
   assignments: Assignment[];
+  staffRole: CourseStaffRole | null;
 }
 
 export default function CourseDetailPage({ id }: { id: string }) {
   const [, navigate] = useLocation();
   const [activeTab, setActiveTab] = useState<string>("all");
+  const { user } = useAuth();
   
   // Get course ID from the route parameter
   const courseId = parseInt(id);
@@ -196,6 +202,10 @@ export default function CourseDetailPage({ id }: { id: string }) {
           </Card>
         </div>
         
+        <LmsGradeSyncCard courseId={courseId} />
+
+        <CourseStaffCard courseId={courseId} canManage={course.staffRole === "owner" || user?.role === "admin"} />
+        
         {/* Assignments */}
         <Card>
           <CardHeader>
@@ -20,6 +20,8 @@ import { API_ROUTES, APP_ROUTES } from "@/lib/constants";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { RosterImport, PendingInvitations } from "@/components/instructor/roster-import";
+import { CourseJoinCodes, EnrollmentRequests } from "@/components/instructor/course-join-codes";
 import {
   Sheet,
   SheetContent,
@@ -200,7 +202,7 @@ export default function CourseStudentsPage() {
             <SheetTrigger asChild>
               <Button>Invite Student</Button>
             </SheetTrigger>
-            <SheetContent>
+            <SheetContent className="overflow-y-auto sm:max-w-xl">
               <SheetHeader>
                 <SheetTitle>Invite Student</SheetTitle>
                 <SheetDescription>
@@ -233,15 +235,7 @@ export default function CourseStudentsPage() {
                 
                 <Separator />
                 
-                <div className="space-y-2">
-                  <h3 className="text-sm font-medium">Bulk Enrollment</h3>
-                  <p className="text-sm text-muted-foreground">
-                    You can also upload a CSV file with a list of student emails to invite multiple students at once.
-                  </p>
-                  <Button variant="outline" className="w-full">
-                    Upload CSV
-                  </Button>
-                </div>
+                <RosterImport courseId={courseId} />
               </div>
             </SheetContent>
           </Sheet>
@@ -278,6 +272,12 @@ export default function CourseStudentsPage() {
           </CardContent>
         </Card>
         
+        <EnrollmentRequests courseId={courseId} />
+
+        <CourseJoinCodes courseId={courseId} />
+
+        <PendingInvitations courseId={courseId} />
+        
         <div className="rounded-md border">
           <Table>
             <TableCaption>A list of all students enrolled in this course</TableCaption>
@@ -730,6 +730,7 @@ export default function CreateAssignment() {
                   <RubricBuilder 
                     rubric={rubric} 
                     setRubric={setRubric} 
+                    courseId={Number(form.watch("courseId")) || undefined}
                   />
                 </CardContent>
               </Card>
@@ -388,7 +388,7 @@ export default function EnhancedCreateAssignment() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <RubricBuilder rubric={rubric} setRubric={setRubric} />
+                  <RubricBuilder rubric={rubric} setRubric={setRubric} courseId={form.watch("courseId")} />
                 </CardContent>
               </Card>
               
@@ -0,0 +1,108 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { InstructorShell } from "@/components/layout/instructor-shell";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { API_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { Link2 } from "lucide-react";
+
+interface DeepLinkRequest {
+  platformName: string | null;
+  assignments: {
+    id: number;
+    title: string;
+    courseId: number;
+    dueDate: string;
+  }[];
+}
+
+/**
+ * Lets an instructor pick the assignment to embed when their LMS sends an
+ * LTI deep linking request
+ */
+export default function LtiDeepLinkPage() {
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useQuery<DeepLinkRequest>({
+    queryKey: [API_ROUTES.LTI_DEEP_LINK],
+    retry: false,
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (assignmentId: number) => {
+      const response = await apiRequest("POST", API_ROUTES.LTI_DEEP_LINK, { assignmentId });
+      return response.json() as Promise<{ redirectUrl: string }>;
+    },
+    onSuccess: ({ redirectUrl }) => {
+      // Full page load: the server posts the signed response back to the LMS
+      window.location.href = redirectUrl;
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to link the assignment. Please try again.",
+      });
+    },
+  });
+
+  return (
+    <InstructorShell>
+      <Card>
+        <CardHeader>
+          <CardTitle>Add an Assignment to Your LMS</CardTitle>
+          <CardDescription>
+            {data?.platformName
+              ? `Choose the assignment to embed in ${data.platformName}. Students will launch it directly and their scores are sent back to the gradebook.`
+              : "Choose the assignment to embed in your course."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-48 w-full" />
+          ) : error || !data ? (
+            <p className="text-sm text-muted-foreground">
+              There is no deep linking request in progress. Start again from your LMS.
+            </p>
+          ) : data.assignments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You don't have any assignments yet. Create one first, then add it from your LMS.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Assignment</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.assignments.map(assignment => (
+                  <TableRow key={assignment.id}>
+                    <TableCell className="font-medium">{assignment.title}</TableCell>
+                    <TableCell>{formatDate(assignment.dueDate)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => selectMutation.mutate(assignment.id)}
+                        disabled={selectMutation.isPending}
+                      >
+                        <Link2 className="mr-2 h-4 w-4" />
+                        Embed
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </InstructorShell>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AppShell } from "@/components/layout/app-shell";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { API_ROUTES, APP_ROUTES } from "@/lib/constants";
+import { formatDate } from "@/lib/utils/format";
+import { AlertCircle, CheckCircle2, Clock } from "lucide-react";
+
+type JoinStatus = "enrolled" | "already_enrolled" | "pending" | "denied";
+
+interface JoinCodeDetails {
+  courseId: number;
+  courseName: string;
+  courseCode: string;
+  expiresAt: string;
+  requireApproval: boolean;
+  status: JoinStatus | null;
+}
+
+interface JoinResult {
+  courseId: number;
+  courseName: string;
+  status: JoinStatus;
+}
+
+interface JoinCoursePageProps {
+  code: string;
+}
+
+// The server's explanation from an API error, e.g. why a code was refused
+function apiErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    try {
+      const body = JSON.parse(error.responseBody);
+      return body.error?.message || body.message || error.statusText;
+    } catch {
+      return error.responseBody || error.statusText;
+    }
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+const STATUS_MESSAGES: Record<Exclude<JoinStatus, "enrolled">, string> = {
+  already_enrolled: "You are already enrolled in this course.",
+  pending: "Your request to join is waiting for your instructor's approval.",
+  denied: "Your request to join this course was declined.",
+};
+
+export default function JoinCoursePage({ code }: JoinCoursePageProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const detailsKey = [`${API_ROUTES.JOIN_COURSE}/${encodeURIComponent(code)}`];
+
+  // Students follow join links before signing in; come back here afterwards
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      navigate(`${APP_ROUTES.LOGIN}?returnTo=${encodeURIComponent(APP_ROUTES.JOIN_COURSE(code))}`);
+    }
+  }, [authLoading, isAuthenticated, code, navigate]);
+
+  const { data: details, isLoading, error } = useQuery<JoinCodeDetails>({
+    queryKey: detailsKey,
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `${API_ROUTES.JOIN_COURSE}/${encodeURIComponent(code)}`);
+      return response.json();
+    },
+    onSuccess: (result: JoinResult) => {
+      queryClient.invalidateQueries({ queryKey: detailsKey });
+      queryClient.invalidateQueries({ queryKey: [API_ROUTES.ASSIGNMENTS] });
+      if (result.status === "pending") {
+        toast({ title: "Request sent", description: `Your instructor will review your request to join ${result.courseName}.` });
+      } else {
+        toast({ title: "Enrolled", description: `You have joined ${result.courseName}.` });
+        navigate(APP_ROUTES.DASHBOARD);
+      }
+    },
+    onError: (joinError: unknown) => {
+      toast({ variant: "destructive", title: "Could not join the course", description: apiErrorMessage(joinError) });
+    },
+  });
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <AppShell>
+      <div className="max-w-lg mx-auto mt-8">
+        {isLoading ? (
+          <Card>
+            <CardContent className="p-6 space-y-3">
+              <Skeleton className="h-6 w-2/3" />
+              <Skeleton className="h-4 w-1/2" />
+            </CardContent>
+          </Card>
+        ) : error || !details ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertCircle className="h-5 w-5 text-red-500" />
+                Join code not accepted
+              </CardTitle>
+              <CardDescription>{apiErrorMessage(error)}</CardDescription>
+            </CardHeader>
+            <CardFooter>
+              <Button variant="outline" onClick={() => navigate(APP_ROUTES.DASHBOARD)}>Back to dashboard</Button>
+            </CardFooter>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{details.courseName}</CardTitle>
+              <CardDescription>{details.courseCode}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {details.status && details.status !== "enrolled" ? (
+                <p className="flex items-center gap-2">
+                  {details.status === "pending" ? (
+                    <Clock className="h-4 w-4 text-amber-500" />
+                  ) : details.status === "denied" ? (
+                    <AlertCircle className="h-4 w-4 text-red-500" />
+                  ) : (
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                  )}
+                  {STATUS_MESSAGES[details.status]}
+                </p>
+              ) : (
+                <>
+                  <p>
+                    {details.requireApproval
+                      ? "Your instructor approves requests to join this course."
+                      : "You will be enrolled straight away."}
+                  </p>
+                  <p className="text-muted-foreground">This code expires on {formatDate(details.expiresAt)}.</p>
+                </>
+              )}
+            </CardContent>
+            <CardFooter className="gap-2">
+              {details.status === null ? (
+                <Button onClick={() => joinMutation.mutate()} disabled={joinMutation.isPending}>
+                  {joinMutation.isPending
+                    ? "Joining..."
+                    : details.requireApproval ? "Request to join" : "Join course"}
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => navigate(APP_ROUTES.DASHBOARD)}>Go to dashboard</Button>
+              )}
+            </CardFooter>
+          </Card>
+        )}
+      </div>
+    </AppShell>
+  );
+}
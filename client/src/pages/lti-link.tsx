@@ -0,0 +1,122 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { API_ROUTES, APP_ROUTES } from "@/lib/constants";
+import { AlertCircle, CheckCircle2, Link2 } from "lucide-react";
+
+interface LtiAccountLink {
+  platformId: number;
+  platformName: string;
+  ltiUserId: string;
+  email: string | null;
+}
+
+// The server's explanation from an API error, e.g. why a link was refused
+function apiErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    try {
+      const body = JSON.parse(error.responseBody);
+      return body.error?.message || body.message || error.statusText;
+    } catch {
+      return error.responseBody || error.statusText;
+    }
+  }
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+/**
+ * Links an LMS user to the signed-in account. Launches from an LMS user
+ * whose email already has an account, or who teaches, land here instead of
+ * signing in, because platforms do not verify email addresses.
+ */
+export default function LtiLinkPage() {
+  const [, navigate] = useLocation();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const linkUrl = `${API_ROUTES.LTI_LINK}?token=${encodeURIComponent(token)}`;
+
+  // Sign in first, then come back to confirm
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      navigate(`${APP_ROUTES.LOGIN}?returnTo=${encodeURIComponent(`${APP_ROUTES.LTI_LINK}?token=${encodeURIComponent(token)}`)}`);
+    }
+  }, [authLoading, isAuthenticated, token, navigate]);
+
+  const { data: accountLink, isLoading, error } = useQuery<LtiAccountLink>({
+    queryKey: [linkUrl],
+    enabled: isAuthenticated && !!token,
+    retry: false,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", API_ROUTES.LTI_LINK, { token });
+      return response.json();
+    },
+  });
+
+  if (!isAuthenticated) return null;
+
+  return (
+    <div className="max-w-lg mx-auto mt-8 px-4">
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            <Skeleton className="h-6 w-2/3" />
+            <Skeleton className="h-4 w-1/2" />
+          </CardContent>
+        </Card>
+      ) : !token || error || !accountLink ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertCircle className="h-5 w-5 text-red-500" />
+              Account link not accepted
+            </CardTitle>
+            <CardDescription>{token ? apiErrorMessage(error) : "This account link is incomplete."}</CardDescription>
+          </CardHeader>
+        </Card>
+      ) : linkMutation.isSuccess ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="h-5 w-5 text-green-600" />
+              Account linked
+            </CardTitle>
+            <CardDescription>
+              Open the activity from {accountLink.platformName} again to continue.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Link your {accountLink.platformName} account</CardTitle>
+            <CardDescription>
+              Launches from {accountLink.platformName}
+              {accountLink.email ? ` as ${accountLink.email}` : ""} will sign you in as {user?.email}.
+              Only continue if both accounts are yours.
+            </CardDescription>
+          </CardHeader>
+          {linkMutation.isError && (
+            <CardContent>
+              <p className="text-sm text-red-600">{apiErrorMessage(linkMutation.error)}</p>
+            </CardContent>
+          )}
+          <CardFooter className="gap-2">
+            <Button onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending}>
+              <Link2 className="h-4 w-4 mr-2" />
+              {linkMutation.isPending ? "Linking..." : "Link account"}
+            </Button>
+            <Button variant="outline" onClick={() => navigate(APP_ROUTES.HOME)}>Cancel</Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
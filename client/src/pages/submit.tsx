@@ -288,6 +288,11 @@ export default function SubmitAssignment({ code: propCode }: SubmitAssignmentPro
                 Thank you for submitting your work to <strong>{assignment.title}</strong>. 
                 Your submission has been received and will be processed by our AI system for feedback.
               </p>
+              {!isAuthenticated && (
+                <p className="mb-6 text-sm text-muted-foreground">
+                  We've emailed <strong>{email}</strong> a link to view your feedback when it's ready.
+                </p>
+              )}
               {/* All submissions now require authentication */}
               <div className="flex justify-center space-x-4">
                 <Button variant="outline" onClick={() => setSubmitted(false)}>
@@ -0,0 +1,123 @@
+/**
+ * AI Adapter Factory
+ *
+ * Creates the appropriate AI adapter for a provider name and decides
+ * which provider to use when none is specified.
+ */
+
+import { AIAdapter } from './ai-adapter';
+import { GeminiAdapter } from './gemini-adapter';
+import { OpenAIAdapter } from './openai-adapter';
+import { AnthropicAdapter } from './anthropic-adapter';
+import { LocalAdapter, localModelSupportsVision } from './local-adapter';
+import { MockAdapter } from './mock-adapter';
+import { aiLogger as logger } from '../lib/logger';
+
+export type AIProvider = 'gemini' | 'openai' | 'anthropic' | 'local' | 'mock';
+
+// In priority order; the mock provider is only used when selected explicitly
+export const AI_PROVIDERS: AIProvider[] = ['gemini', 'openai', 'anthropic', 'local', 'mock'];
+
+// Environment variable that enables each provider
+const PROVIDER_ENV_KEYS: Record<Exclude<AIProvider, 'mock'>, string> = {
+  gemini: 'GEMINI_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  local: 'LOCAL_AI_BASE_URL'
+};
+
+function isAIProvider(value: string | undefined): value is AIProvider {
+  return !!value && (AI_PROVIDERS as string[]).includes(value);
+}
+
+class AIAdapterFactory {
+  /**
+   * Provider pinned with AI_PROVIDER, if any. Pinning keeps grading on that
+   * provider (e.g. a local model that must not fall back to a cloud API).
+   */
+  getPinnedProvider(): AIProvider | undefined {
+    const pinned = process.env.AI_PROVIDER;
+    if (!pinned) {
+      return undefined;
+    }
+    if (isAIProvider(pinned)) {
+      return pinned;
+    }
+    logger.warn('Ignoring unknown AI_PROVIDER', { provider: pinned });
+    return undefined;
+  }
+
+  /**
+   * Determine the default provider based on available API keys
+   * An AI_PROVIDER pin wins; otherwise Gemini is prioritized over OpenAI,
+   * then Anthropic, then a local model
+   */
+  getDefaultProvider(): AIProvider {
+    const pinned = this.getPinnedProvider();
+    if (pinned) {
+      return pinned;
+    }
+    if (process.env.GEMINI_API_KEY) {
+      return 'gemini';
+    }
+    if (process.env.OPENAI_API_KEY) {
+      return 'openai';
+    }
+    if (process.env.ANTHROPIC_API_KEY) {
+      return 'anthropic';
+    }
+    if (process.env.LOCAL_AI_BASE_URL) {
+      return 'local';
+    }
+    logger.warn('No AI API key found - Gemini will be used by default', {
+      adapter: 'Gemini',
+      warning: 'Missing API key - functionality may be limited'
+    });
+    return 'gemini';
+  }
+
+  /**
+   * Providers that are configured, in priority order. Only the pinned
+   * provider is returned when AI_PROVIDER is set.
+   */
+  getConfiguredProviders(): AIProvider[] {
+    const pinned = this.getPinnedProvider();
+    if (pinned) {
+      return [pinned];
+    }
+    return AI_PROVIDERS.filter(provider => provider !== 'mock' && Boolean(process.env[PROVIDER_ENV_KEYS[provider]]));
+  }
+
+  /**
+   * Whether the provider's adapter accepts images and documents natively
+   */
+  supportsMultimodal(provider: AIProvider): boolean {
+    if (provider === 'openai') return false;
+    if (provider === 'local') return localModelSupportsVision();
+    return true;
+  }
+
+  /**
+   * Create an adapter instance for the given provider, optionally overriding
+   * the provider's default model
+   */
+  createAdapter(provider: AIProvider = this.getDefaultProvider(), model?: string): AIAdapter {
+    switch (provider) {
+      case 'gemini':
+        return new GeminiAdapter(model);
+      case 'openai':
+        return new OpenAIAdapter(model);
+      case 'anthropic':
+        return new AnthropicAdapter(model);
+      case 'local':
+        return new LocalAdapter(model);
+      case 'mock':
+        return new MockAdapter(model);
+      default:
+        throw new Error(`Unknown AI provider: ${provider}`);
+    }
+  }
+}
+
+// Export a singleton instance
+export const aiAdapterFactory = new AIAdapterFactory();
@@ -1,6 +1,9 @@
 import { CriteriaScore } from '../../shared/schema';
 
 import { ContentType } from '../utils/file-type-settings';
+import { GenerationOptions } from './interfaces';
+
+export type { GenerationOptions };
 
 // Define a structure for multimodal prompts
 export interface MultimodalPromptPart {
@@ -12,7 +15,7 @@ export interface MultimodalPromptPart {
 
 export interface AIAdapter {
   // Standard text completion
-  generateCompletion(prompt: string, systemPrompt?: string): Promise<{
+  generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<{
     strengths: string[];
     improvements: string[];
     suggestions: string[];
@@ -27,7 +30,8 @@ export interface AIAdapter {
   // Multimodal content support
   generateMultimodalCompletion?(
     parts: MultimodalPromptPart[],
-    systemPrompt?: string
+    systemPrompt?: string,
+    options?: GenerationOptions
   ): Promise<{
     strengths: string[];
     improvements: string[];
@@ -0,0 +1,177 @@
+/**
+ * Anthropic Claude adapter for the AI Grader platform
+ *
+ * Feedback is requested through a forced tool call whose input schema is the
+ * grading JSON schema, so the model always answers with structured JSON that
+ * is then validated against GradingSchema like the other adapters.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import type { ContentBlockParam, ImageBlockParam, Message } from '@anthropic-ai/sdk/resources/messages';
+import { AIAdapter, AIAdapterResponse, GenerationOptions, MultimodalPromptPart } from './interfaces';
+import { GradingSchema, gradingJSONSchema } from '../schemas/gradingSchema';
+import { sanitizeText, detectInjectionAttempt } from '../utils/text-sanitizer';
+
+const MAX_OUTPUT_TOKENS = 4000;
+const MAX_INPUT_TOKENS = 32000;
+const GRADING_TOOL_NAME = 'submit_grading';
+
+// Image formats accepted by the Messages API
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
+type SupportedImageType = typeof SUPPORTED_IMAGE_TYPES[number];
+
+function toBase64(content: string | Buffer): string {
+  if (Buffer.isBuffer(content)) return content.toString('base64');
+  // Data URIs carry their payload after the comma
+  if (content.startsWith('data:')) return content.slice(content.indexOf(',') + 1);
+  return Buffer.from(content).toString('base64');
+}
+
+function isSupportedImageType(mimeType: string): mimeType is SupportedImageType {
+  return (SUPPORTED_IMAGE_TYPES as readonly string[]).includes(mimeType);
+}
+
+export class AnthropicAdapter implements AIAdapter {
+  private client: Anthropic;
+  private modelName: string;
+  private readonly inputSchema: Anthropic.Tool.InputSchema;
+
+  constructor(modelName?: string) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error("Anthropic API key is required");
+    }
+
+    this.client = new Anthropic({ apiKey });
+    this.modelName = modelName ?? process.env.ANTHROPIC_MODEL_NAME ?? "claude-sonnet-4-20250514";
+
+    // The tool input schema is the grading schema without its $schema marker
+    const { $schema: _schema, ...schema } = gradingJSONSchema as Record<string, unknown>;
+    this.inputSchema = { ...schema, type: 'object' };
+
+    console.log(`[ANTHROPIC] Initializing with model: ${this.modelName}`);
+  }
+
+  /**
+   * Standard text completion
+   */
+  async generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<AIAdapterResponse> {
+    console.log(`[ANTHROPIC] Generating completion with prompt length: ${prompt.length} chars`);
+    return this.runGrading([this.textBlock(prompt)], systemPrompt, options);
+  }
+
+  /**
+   * Multimodal completion (text, images and PDFs)
+   */
+  async generateMultimodalCompletion(
+    parts: MultimodalPromptPart[],
+    systemPrompt?: string,
+    options?: GenerationOptions
+  ): Promise<AIAdapterResponse> {
+    console.log(`[ANTHROPIC] Generating multimodal completion with ${parts.length} parts`);
+    return this.runGrading(parts.map(part => this.toContentBlock(part)), systemPrompt, options);
+  }
+
+  private textBlock(text: string): ContentBlockParam {
+    const sanitized = sanitizeText(text, MAX_INPUT_TOKENS);
+    if (detectInjectionAttempt(text)) {
+      console.warn(`[ANTHROPIC] Potential prompt injection detected in input: ${text.slice(0, 120)}...`);
+    }
+    if (sanitized.length < text.length) {
+      console.log(`[ANTHROPIC] Text truncated from ${text.length} to ${sanitized.length} characters`);
+    }
+    return { type: 'text', text: sanitized };
+  }
+
+  /**
+   * Convert a prompt part to a Messages API content block. Images and PDFs are
+   * sent natively; other files fall back to their extracted text.
+   */
+  private toContentBlock(part: MultimodalPromptPart): ContentBlockParam {
+    if (part.type === 'text' && typeof part.content === 'string') {
+      return this.textBlock(part.content);
+    }
+
+    const mimeType = part.mimeType || 'application/octet-stream';
+
+    if (isSupportedImageType(mimeType)) {
+      const image: ImageBlockParam = {
+        type: 'image',
+        source: { type: 'base64', media_type: mimeType, data: toBase64(part.content) }
+      };
+      return image;
+    }
+
+    if (mimeType === 'application/pdf') {
+      return {
+        type: 'document',
+        source: { type: 'base64', media_type: 'application/pdf', data: toBase64(part.content) }
+      };
+    }
+
+    if (part.textContent) {
+      return this.textBlock(part.textContent);
+    }
+
+    throw new Error(`Claude does not support ${mimeType} content`);
+  }
+
+  private async runGrading(
+    content: ContentBlockParam[],
+    systemPrompt?: string,
+    options?: GenerationOptions
+  ): Promise<AIAdapterResponse> {
+    const start = Date.now();
+    if (options?.seed !== undefined) {
+      // The Messages API has no seed; passes still vary through sampling
+      console.log(`[ANTHROPIC] Ignoring seed ${options.seed} (not supported by the Messages API)`);
+    }
+
+    let message: Message;
+    try {
+      message = await this.client.messages.create({
+        model: this.modelName,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        temperature: 0.2,
+        ...(systemPrompt ? { system: systemPrompt } : {}),
+        tools: [{
+          name: GRADING_TOOL_NAME,
+          description: 'Record the grading feedback for the submission.',
+          input_schema: this.inputSchema
+        }],
+        tool_choice: { type: 'tool', name: GRADING_TOOL_NAME },
+        messages: [{ role: 'user', content }]
+      });
+    } catch (error) {
+      console.error(`[ANTHROPIC] API error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`AI generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const toolUse = message.content.find(block => block.type === 'tool_use');
+    if (!toolUse || toolUse.type !== 'tool_use') {
+      throw new Error(`Claude did not return grading feedback (stop reason: ${message.stop_reason})`);
+    }
+
+    const parsed = GradingSchema.safeParse(toolUse.input);
+    if (!parsed.success) {
+      throw new Error(`Failed to validate Claude response: ${parsed.error.message}`);
+    }
+
+    const tokenCount = message.usage.input_tokens + message.usage.output_tokens;
+    console.log(`[ANTHROPIC] Response usage metrics:`, {
+      modelName: this.modelName,
+      promptTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      partsCount: content.length,
+      processingTimeMs: Date.now() - start
+    });
+
+    return {
+      ...parsed.data,
+      modelName: this.modelName,
+      rawResponse: toolUse.input as Record<string, unknown>,
+      tokenCount,
+      _promptTokens: message.usage.input_tokens,
+      _totalTokens: tokenCount
+    };
+  }
+}
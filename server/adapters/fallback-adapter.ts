@@ -0,0 +1,145 @@
+/**
+ * Fallback AI adapter
+ *
+ * Wraps an ordered chain of provider/model choices. Each request goes to the
+ * first entry; if it errors or does not answer within the timeout the next
+ * entry is tried, and so on down the chain.
+ */
+import { AIModelChoice, AIModelConfig } from '../../shared/schema';
+import { AIAdapter, GenerationOptions, MultimodalPromptPart } from './ai-adapter';
+import { aiAdapterFactory, AIProvider } from './adapter-factory';
+import { aiLogger as logger } from '../lib/logger';
+
+export const DEFAULT_ATTEMPT_TIMEOUT_SECONDS = 120;
+
+type AdapterResponse = Awaited<ReturnType<AIAdapter['generateCompletion']>>;
+
+function describeChoice(choice: AIModelChoice): string {
+  return choice.model ? `${choice.provider}/${choice.model}` : choice.provider;
+}
+
+/**
+ * Keep only the entries for the provider pinned with AI_PROVIDER, so that a
+ * stored chain or pass list can never route grading to another provider.
+ * Throws when the pin leaves nothing to grade with.
+ */
+export function restrictToPinnedProvider<T>(entries: T[], providerOf: (entry: T) => AIProvider): T[] {
+  const pinned = aiAdapterFactory.getPinnedProvider();
+  if (!pinned) return entries;
+
+  const allowed = entries.filter(entry => providerOf(entry) === pinned);
+  if (allowed.length < entries.length) {
+    logger.warn('Dropping AI providers outside the AI_PROVIDER pin', {
+      pinned,
+      dropped: entries.filter(entry => providerOf(entry) !== pinned).map(providerOf)
+    });
+  }
+  if (allowed.length === 0) {
+    throw new Error(`AI_PROVIDER is pinned to ${pinned}, but none of the configured models use it`);
+  }
+  return allowed;
+}
+
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class FallbackAdapter implements AIAdapter {
+  private readonly chain: AIModelChoice[];
+  private readonly timeoutMs: number;
+  private readonly adapters = new Map<number, AIAdapter>();
+
+  /**
+   * Only defined when some entry can read files natively; otherwise AIService
+   * falls back to extracted text as it does for a single text-only adapter.
+   * Entries without native file support are skipped for multimodal requests.
+   */
+  readonly generateMultimodalCompletion?: (
+    parts: MultimodalPromptPart[],
+    systemPrompt?: string,
+    options?: GenerationOptions
+  ) => Promise<AdapterResponse>;
+
+  constructor(config: AIModelConfig) {
+    if (config.chain.length === 0) {
+      throw new Error('AI model chain must contain at least one model');
+    }
+    this.chain = restrictToPinnedProvider(config.chain, choice => choice.provider);
+    this.timeoutMs = (config.timeoutSeconds ?? DEFAULT_ATTEMPT_TIMEOUT_SECONDS) * 1000;
+
+    if (this.chain.some(choice => aiAdapterFactory.supportsMultimodal(choice.provider))) {
+      this.generateMultimodalCompletion = (parts, systemPrompt, options) =>
+        this.runChain(
+          choice => aiAdapterFactory.supportsMultimodal(choice.provider),
+          (adapter, attemptOptions) => adapter.generateMultimodalCompletion!(parts, systemPrompt, attemptOptions),
+          options
+        );
+    }
+  }
+
+  async generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<AdapterResponse> {
+    return this.runChain(
+      () => true,
+      (adapter, attemptOptions) => adapter.generateCompletion(prompt, systemPrompt, attemptOptions),
+      options
+    );
+  }
+
+  /**
+   * Adapters are created on first use so that a provider with a missing API
+   * key only fails its own attempt rather than the whole chain
+   */
+  private getAdapter(index: number): AIAdapter {
+    let adapter = this.adapters.get(index);
+    if (!adapter) {
+      const choice = this.chain[index];
+      adapter = aiAdapterFactory.createAdapter(choice.provider, choice.model);
+      this.adapters.set(index, adapter);
+    }
+    return adapter;
+  }
+
+  private async runChain(
+    canHandle: (choice: AIModelChoice) => boolean,
+    generate: (adapter: AIAdapter, options?: GenerationOptions) => Promise<AdapterResponse>,
+    options?: GenerationOptions
+  ): Promise<AdapterResponse> {
+    const failures: string[] = [];
+    let currentAttempt = -1;
+
+    for (let index = 0; index < this.chain.length; index++) {
+      const choice = this.chain[index];
+      if (!canHandle(choice)) continue;
+      const label = describeChoice(choice);
+      currentAttempt = index;
+
+      // A timed-out attempt may keep streaming; only the current attempt reports partial feedback
+      const onPartial = options?.onPartial;
+      const attemptOptions: GenerationOptions | undefined = onPartial
+        ? { ...options, onPartial: feedback => { if (currentAttempt === index) onPartial(feedback); } }
+        : options;
+
+      try {
+        const response = await withTimeout(generate(this.getAdapter(index), attemptOptions), this.timeoutMs, label);
+        if (failures.length > 0) {
+          logger.info('AI fallback model succeeded', { model: label, failedAttempts: failures.length });
+        }
+        return response;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${label}: ${message}`);
+        logger.warn('AI model failed, trying next in chain', { model: label, attempt: index + 1, error: message });
+      }
+    }
+
+    throw new Error(`All AI models failed (${failures.join('; ')})`);
+  }
+}
@@ -29,9 +29,10 @@ const RETRY_MAX_TOKENS = 8000;  // if finishReason !== "STOP" - for complex docu
 
 // The newest Gemini model is "gemini-2.5-flash-preview-05-20" which was released May 20, 2025
 import { ContentType } from '../utils/file-type-settings';
-import { AIAdapter, AIAdapterResponse, MultimodalPromptPart } from './interfaces';
+import { AIAdapter, AIAdapterResponse, GenerationOptions, MultimodalPromptPart } from './interfaces';
 import { CriteriaScore } from '../../shared/schema';
 import { parseStrict } from '../utils/json-parser';
+import { extractPartialFeedback } from '../utils/partial-feedback';
 import { GradingFeedback, SCHEMA_VERSION, gradingJSONSchema } from '../schemas/gradingSchema';
 import { sanitizeText, detectInjectionAttempt } from '../utils/text-sanitizer';
 import { isSchemaError, shouldRetry, SchemaValidationError } from '../utils/schema-errors';
@@ -111,7 +112,7 @@ export class GeminiAdapter implements AIAdapter {
    * Core shared method for running image-rubric evaluations
    * This reduces duplication between text and multimodal completion methods
    */
-  private async runImageRubric(apiParts: Part[], systemPrompt?: string): Promise<{
+  private async runImageRubric(apiParts: Part[], systemPrompt?: string, options?: GenerationOptions): Promise<{
     raw: string;
     finishReason: string;
     result: unknown;
@@ -129,7 +130,8 @@ export class GeminiAdapter implements AIAdapter {
         ...this.defaultConfig,
         maxOutputTokens: BASE_MAX_TOKENS, // Using constant for consistency
         responseMimeType: "application/json",
-        responseSchema: this.responseSchema
+        responseSchema: this.responseSchema,
+        ...(options?.seed !== undefined ? { seed: options.seed } : {})
       }
     };
     
@@ -147,6 +149,22 @@ export class GeminiAdapter implements AIAdapter {
       return req;
     };
     
+    // Report feedback sections as they complete, skipping chunks that finish none
+    const onPartial = options?.onPartial;
+    let lastPartial = '';
+    const reportPartial = (text: string) => {
+      if (!onPartial) return;
+      const partial = extractPartialFeedback(text);
+      const snapshot = JSON.stringify(partial);
+      if (snapshot === lastPartial || snapshot === '{}') return;
+      lastPartial = snapshot;
+      try {
+        onPartial(partial);
+      } catch (error) {
+        console.warn(`[GEMINI] Partial feedback listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+    
     // Helper to run streaming request and collect all chunks
     const collectStream = async (req: any): Promise<{raw: string, finishReason: string, usageMetadata: unknown}> => {
       console.log(`[GEMINI] Using streaming with token limit: ${req.config.maxOutputTokens}`);
@@ -178,6 +196,7 @@ export class GeminiAdapter implements AIAdapter {
             const responsePart = chunk.candidates[0].content.parts[0];
             if (responsePart.text) {
               streamedText += responsePart.text;
+              reportPartial(streamedText);
             }
           }
         }
@@ -250,8 +269,9 @@ export class GeminiAdapter implements AIAdapter {
   
   /**
    * Create a new GeminiAdapter instance
+   * @param modelName Optional model override (e.g. chosen per assignment)
    */
-  constructor() {
+  constructor(modelName?: string) {
     // Get API key from environment
     const apiKey = process.env.GEMINI_API_KEY;
     if (!apiKey) {
@@ -262,7 +282,7 @@ export class GeminiAdapter implements AIAdapter {
     this.genAI = new GoogleGenAI({ apiKey });
     
     // Make model name configurable with environment variable or use default
-    this.modelName = process.env.GEMINI_MODEL_NAME ?? "gemini-2.5-flash-preview-05-20";
+    this.modelName = modelName ?? process.env.GEMINI_MODEL_NAME ?? "gemini-2.5-flash-preview-05-20";
     
     console.log(`[GEMINI] Initializing with model: ${this.modelName}`);
     
@@ -291,7 +311,7 @@ export class GeminiAdapter implements AIAdapter {
   /**
    * Standard text completion
    */
-  async generateCompletion(prompt: string, systemPrompt?: string): Promise<AIAdapterResponse> {
+  async generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<AIAdapterResponse> {
     try {
       console.log(`[GEMINI] Generating completion with prompt length: ${prompt.length} chars`);
       // Log preview of the prompt, truncated for privacy/security
@@ -318,7 +338,7 @@ export class GeminiAdapter implements AIAdapter {
       const apiParts = [{ text: sanitizedPrompt }];
       
       // Use our shared image-rubric helper (works for text-only too)
-      const { raw, result, tokenCount } = await this.runImageRubric(apiParts, systemPrompt);
+      const { raw, result, tokenCount } = await this.runImageRubric(apiParts, systemPrompt, options);
       
       // Try parsing the response as JSON
       let parsedContent: GradingFeedback;
@@ -498,7 +518,8 @@ export class GeminiAdapter implements AIAdapter {
    */
   async generateMultimodalCompletion(
     multimodalPromptParts: MultimodalPromptPart[], 
-    systemPrompt?: string
+    systemPrompt?: string,
+    options?: GenerationOptions
   ): Promise<AIAdapterResponse> {
     try {
       console.log(`[GEMINI] Generating multimodal completion with ${multimodalPromptParts.length} parts`);
@@ -519,7 +540,7 @@ export class GeminiAdapter implements AIAdapter {
       }
       
       // Use our shared image-rubric helper for the API call
-      const { raw, result, tokenCount } = await this.runImageRubric(apiParts, systemPrompt);
+      const { raw, result, tokenCount } = await this.runImageRubric(apiParts, systemPrompt, options);
       
       // Try parsing the response as JSON
       let parsedContent: GradingFeedback;
@@ -1,7 +1,7 @@
 /**
  * Shared interfaces for AI adapters
  */
-import { CriteriaScore } from '../../shared/schema';
+import { CriteriaScore, PartialFeedback } from '../../shared/schema';
 import { GradingFeedback } from '../schemas/gradingSchema';
 
 // Define a structure for multimodal prompts
@@ -21,13 +21,21 @@ export interface AIAdapterResponse extends GradingFeedback {
   _totalTokens?: number;    // Internal tracking
 }
 
+// Per-request generation options (used e.g. to vary seeds across grading passes)
+export interface GenerationOptions {
+  seed?: number;
+  // Called with the feedback sections completed so far, by adapters that stream their response
+  onPartial?: (feedback: PartialFeedback) => void;
+}
+
 export interface AIAdapter {
   // Standard text completion
-  generateCompletion(prompt: string, systemPrompt?: string): Promise<AIAdapterResponse>;
+  generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<AIAdapterResponse>;
   
   // Multimodal content support
   generateMultimodalCompletion?(
     parts: MultimodalPromptPart[],
-    systemPrompt?: string
+    systemPrompt?: string,
+    options?: GenerationOptions
   ): Promise<AIAdapterResponse>;
 }
\ No newline at end of file
@@ -0,0 +1,148 @@
+/**
+ * Local model adapter for the AI Grader platform
+ *
+ * Targets any server that implements the OpenAI chat completions API
+ * (Ollama, vLLM, llama.cpp server), so submissions can be graded without
+ * leaving the institution's network. Responses are requested in JSON mode and
+ * validated against GradingSchema, since local models drift from the format
+ * more often than hosted ones.
+ */
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart } from 'openai/resources/chat/completions';
+import { AIAdapter, AIAdapterResponse, GenerationOptions, MultimodalPromptPart } from './interfaces';
+import { parseStrict } from '../utils/json-parser';
+import { sanitizeText } from '../utils/text-sanitizer';
+
+const MAX_INPUT_TOKENS = 16000;
+
+/**
+ * Whether the local model accepts images (set LOCAL_AI_VISION=true for
+ * vision models such as llava or llama3.2-vision)
+ */
+export function localModelSupportsVision(): boolean {
+  return process.env.LOCAL_AI_VISION === 'true';
+}
+
+function toDataUri(content: string | Buffer, mimeType: string): string {
+  if (typeof content === 'string' && content.startsWith('data:')) return content;
+  const base64 = Buffer.isBuffer(content) ? content.toString('base64') : Buffer.from(content).toString('base64');
+  return `data:${mimeType};base64,${base64}`;
+}
+
+export class LocalAdapter implements AIAdapter {
+  private client: OpenAI;
+  private modelName: string;
+
+  /**
+   * Images are only sent when the model is marked as vision-capable;
+   * otherwise AIService grades files from their extracted text
+   */
+  readonly generateMultimodalCompletion?: (
+    parts: MultimodalPromptPart[],
+    systemPrompt?: string,
+    options?: GenerationOptions
+  ) => Promise<AIAdapterResponse>;
+
+  constructor(modelName?: string) {
+    const baseURL = process.env.LOCAL_AI_BASE_URL;
+    if (!baseURL) {
+      throw new Error("Local model base URL (LOCAL_AI_BASE_URL) is required");
+    }
+
+    const model = modelName ?? process.env.LOCAL_AI_MODEL_NAME;
+    if (!model) {
+      throw new Error("Local model name (LOCAL_AI_MODEL_NAME) is required");
+    }
+
+    // Most local servers ignore the key, but the client requires one
+    this.client = new OpenAI({ baseURL, apiKey: process.env.LOCAL_AI_API_KEY || 'local' });
+    this.modelName = model;
+
+    if (localModelSupportsVision()) {
+      this.generateMultimodalCompletion = (parts, systemPrompt, options) =>
+        this.runGrading(parts.map(part => this.toContentPart(part)), systemPrompt, options);
+    }
+
+    console.log(`[LOCAL] Initializing with model: ${this.modelName} at ${baseURL}`);
+  }
+
+  /**
+   * Standard text completion
+   */
+  async generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions): Promise<AIAdapterResponse> {
+    console.log(`[LOCAL] Generating completion with prompt length: ${prompt.length} chars`);
+    return this.runGrading([{ type: 'text', text: sanitizeText(prompt, MAX_INPUT_TOKENS) }], systemPrompt, options);
+  }
+
+  /**
+   * Convert a prompt part to a chat content part. Images are sent inline;
+   * other files fall back to their extracted text.
+   */
+  private toContentPart(part: MultimodalPromptPart): ChatCompletionContentPart {
+    if (part.type === 'text' && typeof part.content === 'string') {
+      return { type: 'text', text: sanitizeText(part.content, MAX_INPUT_TOKENS) };
+    }
+
+    const mimeType = part.mimeType || 'application/octet-stream';
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image_url', image_url: { url: toDataUri(part.content, mimeType) } };
+    }
+
+    if (part.textContent) {
+      return { type: 'text', text: sanitizeText(part.textContent, MAX_INPUT_TOKENS) };
+    }
+
+    throw new Error(`Local model does not support ${mimeType} content`);
+  }
+
+  private async runGrading(
+    content: ChatCompletionContentPart[],
+    systemPrompt?: string,
+    options?: GenerationOptions
+  ): Promise<AIAdapterResponse> {
+    const start = Date.now();
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+
+    try {
+      response = await this.client.chat.completions.create({
+        model: this.modelName,
+        messages: [
+          ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+          { role: 'user' as const, content }
+        ],
+        temperature: 0.2,
+        seed: options?.seed,
+        response_format: { type: 'json_object' }
+      });
+    } catch (error) {
+      console.error(`[LOCAL] API error: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(`AI generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const text = response.choices[0]?.message?.content;
+    if (!text) {
+      throw new Error(`Local model returned an empty response (finish reason: ${response.choices[0]?.finish_reason})`);
+    }
+
+    const parsed = parseStrict(text);
+    const promptTokens = response.usage?.prompt_tokens ?? 0;
+    const tokenCount = response.usage?.total_tokens ?? 0;
+
+    console.log(`[LOCAL] Response usage metrics:`, {
+      modelName: this.modelName,
+      promptTokens,
+      totalTokens: tokenCount,
+      partsCount: content.length,
+      processingTimeMs: Date.now() - start
+    });
+
+    return {
+      ...parsed,
+      modelName: this.modelName,
+      rawResponse: parsed as Record<string, unknown>,
+      tokenCount,
+      _promptTokens: promptTokens,
+      _totalTokens: tokenCount
+    };
+  }
+}
@@ -1,11 +1,11 @@
 import OpenAI from "openai";
-import { AIAdapter } from "./ai-adapter";
+import { AIAdapter, GenerationOptions } from "./ai-adapter";
 
 export class OpenAIAdapter implements AIAdapter {
   private openai: OpenAI;
   private model: string;
 
-  constructor() {
+  constructor(modelName?: string) {
     // Check for API key
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey) {
@@ -14,10 +14,10 @@ export class OpenAIAdapter implements AIAdapter {
     
     this.openai = new OpenAI({ apiKey });
     // Using gpt-4.1-mini-2025-04-14 as requested, different from gpt-4o which was the previous default
-    this.model = "gpt-4.1-mini-2025-04-14"; 
+    this.model = modelName ?? "gpt-4.1-mini-2025-04-14";
   }
 
-  async generateCompletion(prompt: string, systemPrompt?: string) {
+  async generateCompletion(prompt: string, systemPrompt?: string, options?: GenerationOptions) {
     try {
       // Create properly typed message arrays for OpenAI
       const messages = [];
@@ -41,6 +41,7 @@ export class OpenAIAdapter implements AIAdapter {
         model: this.model,
         messages: messages,
         temperature: 0.5,
+        seed: options?.seed,
         response_format: { type: "json_object" },
       });
 
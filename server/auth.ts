@@ -7,6 +7,8 @@ import passport from 'passport';
 declare module 'express-session' {
   interface SessionData {
     returnTo?: string;
+    // Guest submitter signed in through an emailed link
+    guestSubmitterId?: number;
   }
 }
 
@@ -27,6 +29,8 @@ import { Strategy as LocalStrategy } from 'passport-local';
 import { Strategy as Auth0Strategy } from 'passport-auth0';
 import { Strategy as OIDCStrategy } from 'passport-openidconnect';
 import { storage } from './storage';
+import { rosterImportService } from './services/roster-import-service';
+import { guestSubmitterService } from './services/guest-submitter-service';
 import { verifyTotp } from './utils/totp';
 import { z } from 'zod';
 import bcrypt from 'bcrypt';
@@ -325,6 +329,8 @@ export function configureAuth(app: any) {
       '/api/csrf-token',
       '/api/auth-sso/callback', // Skip for Auth0 callback
       '/api/auth/horizon/callback', // Skip for MIT Horizon OIDC callback
+      '/api/lti/login', // Skip for LTI login initiation posted by the LMS
+      '/api/lti/launch', // Skip for LTI launches; the id_token is verified instead
       '/api/test-rubric' // Skip for rubric testing to help instructors test their rubrics
     ];
     
@@ -560,6 +566,16 @@ export function configureAuth(app: any) {
               return done(new Error('Failed to retrieve or create user account'));
             }
             
+            // Take over work submitted as a guest with the same verified email
+            try {
+              const merged = await guestSubmitterService.claimVerifiedEmail(user, emailVerified);
+              if (merged > 0) {
+                logger.info(`[INFO] Merged ${merged} guest submission(s) into ${user.username}`);
+              }
+            } catch (mergeError) {
+              logger.error('[ERROR] Failed to merge guest submissions', { error: mergeError });
+            }
+            
             // Log successful authentication
             logSuccessfulAuth(
               user.id,
@@ -740,6 +756,26 @@ export function configureAuth(app: any) {
           return done(new Error('Failed to retrieve or create user account'));
         }
         
+        // Enroll the user in courses whose rosters invited them
+        try {
+          const accepted = await rosterImportService.acceptInvitations(user, emailVerified);
+          if (accepted > 0) {
+            logger.info(`[INFO] Accepted ${accepted} course invitation(s) for ${user.username}`);
+          }
+        } catch (invitationError) {
+          logger.error('[ERROR] Failed to accept course invitations', { error: invitationError });
+        }
+        
+        // Take over work submitted as a guest with the same verified email
+        try {
+          const merged = await guestSubmitterService.claimVerifiedEmail(user, emailVerified);
+          if (merged > 0) {
+            logger.info(`[INFO] Merged ${merged} guest submission(s) into ${user.username}`);
+          }
+        } catch (mergeError) {
+          logger.error('[ERROR] Failed to merge guest submissions', { error: mergeError });
+        }
+        
         // Log successful authentication
         logSuccessfulAuth(
           user.id,
@@ -1197,12 +1233,24 @@ export function configureAuth(app: any) {
       // Hash the password
       const hashedPassword = await hashPassword(result.data.password);
       
+      // Signing in regenerates the session, so note a guest sign-in first
+      const guestSubmitterId = req.session.guestSubmitterId;
+      
       // Create the user
       const newUser = await storage.createUser({
         ...result.data,
         password: hashedPassword
       });
       
+      // A guest who registers keeps the work they submitted through shareable links
+      if (guestSubmitterId) {
+        try {
+          await guestSubmitterService.mergeIntoUser(guestSubmitterId, newUser);
+        } catch (mergeError) {
+          logger.error('[ERROR] Failed to merge guest submissions on registration', { error: mergeError });
+        }
+      }
+      
       // Remove password from response
       const { password: _, ...userWithoutPassword } = newUser;
       
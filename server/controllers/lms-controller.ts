@@ -72,7 +72,8 @@ export async function getLmsCredentials(req: Request, res: Response) {
     // Mask secrets
     const maskedCredentials = credentials.map((cred: any) => ({
       ...cred,
-      clientSecret: cred.clientSecret.replace(/./g, '•')
+      clientSecret: cred.clientSecret.replace(/./g, '•'),
+      refreshToken: cred.refreshToken ? '••••••••' : null
     }));
     
     return res.status(200).json(maskedCredentials);
@@ -122,7 +123,8 @@ export async function createLmsCredentials(req: Request, res: Response) {
     // Mask the client secret before returning
     const maskedCredential = {
       ...credential,
-      clientSecret: credential.clientSecret.replace(/./g, '•')
+      clientSecret: credential.clientSecret.replace(/./g, '•'),
+      refreshToken: credential.refreshToken ? '••••••••' : null
     };
     
     return res.status(201).json(maskedCredential);
@@ -183,7 +185,8 @@ export async function updateLmsCredentials(req: Request, res: Response) {
     // Mask the client secret before returning
     const maskedCredential = {
       ...updatedCredential,
-      clientSecret: updatedCredential.clientSecret.replace(/./g, '•')
+      clientSecret: updatedCredential.clientSecret.replace(/./g, '•'),
+      refreshToken: updatedCredential.refreshToken ? '••••••••' : null
     };
     
     return res.status(200).json(maskedCredential);
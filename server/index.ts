@@ -17,6 +17,8 @@ import { errorRecoveryMiddleware, initializeErrorRecovery } from "./lib/error-re
 import { initializeCacheManager } from "./lib/cache-manager";
 import { initializeMemoryMonitor } from "./lib/memory-monitor";
 import { assignmentScheduler } from "./services/assignment-scheduler";
+import { lmsGradeSync } from "./services/lms/lms-grade-sync";
+import { notificationService } from "./services/notifications/notification-service";
 
 // Load and validate configuration
 const config = loadConfig();
@@ -249,6 +251,12 @@ app.use((req, res, next) => {
   assignmentScheduler.start(60); // Update every 60 minutes
   console.log('[Startup] Assignment status scheduler initialized');
 
+  // Send released grades to LMS courses with automatic grade sync
+  lmsGradeSync.start(1);
+
+  // Send queued email notifications and assignment reminders
+  notificationService.start(1);
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
@@ -34,6 +34,12 @@ const envSchema = z.object({
   // AI Services
   GEMINI_API_KEY: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
+  ANTHROPIC_API_KEY: z.string().optional(),
+  LOCAL_AI_BASE_URL: z.string().url().optional(),
+  LOCAL_AI_MODEL_NAME: z.string().optional(),
+  LOCAL_AI_API_KEY: z.string().optional(),
+  LOCAL_AI_VISION: z.enum(['true', 'false']).optional(),
+  AI_PROVIDER: z.enum(['gemini', 'openai', 'anthropic', 'local', 'mock']).optional(),
   
   // Authentication
   BASE_URL: z.string().url().optional(),
@@ -52,6 +58,16 @@ const envSchema = z.object({
   GCS_BUCKET_NAME: z.string().optional(),
   GCP_PROJECT_ID: z.string().optional(),
   
+  // Email notifications
+  EMAIL_TRANSPORT: z.enum(['smtp', 'file', 'console', 'none']).optional(),
+  EMAIL_FROM: z.string().optional(),
+  EMAIL_FILE_DIR: z.string().optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().optional(),
+  SMTP_SECURE: z.enum(['true', 'false']).optional(),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  
   // Other
   MAX_UPLOAD_SIZE: z.coerce.number().default(10485760), // 10MB
   TRUST_PROXY: z.coerce.boolean().default(false),
@@ -70,13 +86,16 @@ const productionSchema = envSchema.extend({
   // At least one AI service required
   GEMINI_API_KEY: z.string().min(1).optional(),
   OPENAI_API_KEY: z.string().min(1).optional(),
+  ANTHROPIC_API_KEY: z.string().min(1).optional(),
+  // The mock provider never grades real work
+  AI_PROVIDER: z.enum(['gemini', 'openai', 'anthropic', 'local']).optional(),
   BASE_URL: z.string().url(),
   STRUCTURED_LOGGING: z.literal('true')
 }).refine(
-  (data) => data.GEMINI_API_KEY || data.OPENAI_API_KEY,
+  (data) => data.GEMINI_API_KEY || data.OPENAI_API_KEY || data.ANTHROPIC_API_KEY || (data.LOCAL_AI_BASE_URL && data.LOCAL_AI_MODEL_NAME),
   {
-    message: "At least one AI API key (GEMINI_API_KEY or OPENAI_API_KEY) is required in production",
-    path: ["GEMINI_API_KEY", "OPENAI_API_KEY"]
+    message: "At least one AI API key (GEMINI_API_KEY, OPENAI_API_KEY or ANTHROPIC_API_KEY) or a local model (LOCAL_AI_BASE_URL and LOCAL_AI_MODEL_NAME) is required in production",
+    path: ["GEMINI_API_KEY", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "LOCAL_AI_BASE_URL"]
   }
 );
 
@@ -154,7 +173,10 @@ export function loadConfig(): EnvConfig {
       redis_configured: !!(config.REDIS_URL || config.REDIS_HOST),
       ai_services: {
         gemini: !!config.GEMINI_API_KEY,
-        openai: !!config.OPENAI_API_KEY
+        openai: !!config.OPENAI_API_KEY,
+        anthropic: !!config.ANTHROPIC_API_KEY,
+        local: !!config.LOCAL_AI_BASE_URL,
+        pinned: config.AI_PROVIDER
       },
       auth: {
         auth0: !!(config.AUTH0_DOMAIN && config.AUTH0_CLIENT_ID),
@@ -162,6 +184,10 @@ export function loadConfig(): EnvConfig {
       },
       storage: {
         gcs: !!(config.GOOGLE_APPLICATION_CREDENTIALS && config.GCS_BUCKET_NAME)
+      },
+      email: {
+        smtp: !!config.SMTP_HOST,
+        transport: config.EMAIL_TRANSPORT
       }
     });
     
@@ -250,7 +276,17 @@ export function getAIConfig() {
     openai: {
       apiKey: cfg.OPENAI_API_KEY,
       enabled: !!cfg.OPENAI_API_KEY
-    }
+    },
+    anthropic: {
+      apiKey: cfg.ANTHROPIC_API_KEY,
+      enabled: !!cfg.ANTHROPIC_API_KEY
+    },
+    local: {
+      baseUrl: cfg.LOCAL_AI_BASE_URL,
+      model: cfg.LOCAL_AI_MODEL_NAME,
+      enabled: !!(cfg.LOCAL_AI_BASE_URL && cfg.LOCAL_AI_MODEL_NAME)
+    },
+    pinnedProvider: cfg.AI_PROVIDER
   };
 }
 
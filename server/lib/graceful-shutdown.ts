@@ -116,6 +116,28 @@ class GracefulShutdown {
         logger.error('Error stopping assignment scheduler', { error });
       }
     });
+
+    // Stop LMS grade sync scheduler
+    this.registerHandler('lms-grade-sync', async () => {
+      try {
+        const { lmsGradeSync } = await import('../services/lms/lms-grade-sync');
+        lmsGradeSync.stop();
+        logger.info('LMS grade sync scheduler stopped');
+      } catch (error) {
+        logger.error('Error stopping LMS grade sync scheduler', { error });
+      }
+    });
+
+    // Stop email notification scheduler
+    this.registerHandler('notifications', async () => {
+      try {
+        const { notificationService } = await import('../services/notifications/notification-service');
+        notificationService.stop();
+        logger.info('Notification scheduler stopped');
+      } catch (error) {
+        logger.error('Error stopping notification scheduler', { error });
+      }
+    });
   }
 
   /**
@@ -8,6 +8,8 @@ import { db } from '../db';
 import { redisClient, isRedisReady, getRedisStatus } from '../queue/redis-client';
 import { GeminiAdapter } from '../adapters/gemini-adapter';
 import { OpenAIAdapter } from '../adapters/openai-adapter';
+import { AnthropicAdapter } from '../adapters/anthropic-adapter';
+import { LocalAdapter } from '../adapters/local-adapter';
 import { Storage } from '@google-cloud/storage';
 
 export interface HealthCheckResult {
@@ -179,6 +181,44 @@ async function checkAIServices(): Promise<HealthCheck> {
       }
     }
     
+    // Check Anthropic availability
+    if (process.env.ANTHROPIC_API_KEY) {
+      try {
+        const anthropicAdapter = new AnthropicAdapter();
+        const response = await anthropicAdapter.generateCompletion('Test connection');
+        services.push({
+          service: 'Anthropic',
+          status: 'available',
+          model: response.modelName
+        });
+      } catch (error) {
+        services.push({
+          service: 'Anthropic',
+          status: 'unavailable',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    
+    // Check the local model server
+    if (process.env.LOCAL_AI_BASE_URL) {
+      try {
+        const localAdapter = new LocalAdapter();
+        const response = await localAdapter.generateCompletion('Test connection');
+        services.push({
+          service: 'Local',
+          status: 'available',
+          model: response.modelName
+        });
+      } catch (error) {
+        services.push({
+          service: 'Local',
+          status: 'unavailable',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    
     const responseTime = Date.now() - start;
     const availableServices = services.filter(s => s.status === 'available');
     
@@ -168,13 +168,19 @@ function validateApiKeys(): { valid: boolean; errors: string[]; warnings: string
   
   const hasGemini = !!process.env.GEMINI_API_KEY;
   const hasOpenAI = !!process.env.OPENAI_API_KEY;
+  const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
+  const hasLocal = !!(process.env.LOCAL_AI_BASE_URL && process.env.LOCAL_AI_MODEL_NAME);
   
-  if (!hasGemini && !hasOpenAI) {
-    errors.push('At least one AI API key (GEMINI_API_KEY or OPENAI_API_KEY) is required');
+  if (!hasGemini && !hasOpenAI && !hasAnthropic && !hasLocal) {
+    errors.push('At least one AI API key (GEMINI_API_KEY, OPENAI_API_KEY or ANTHROPIC_API_KEY) or a local model (LOCAL_AI_BASE_URL and LOCAL_AI_MODEL_NAME) is required');
   }
   
-  if (!hasGemini) {
-    warnings.push('GEMINI_API_KEY not set - using OpenAI as primary AI service');
+  if (process.env.AI_PROVIDER === 'mock') {
+    errors.push('AI_PROVIDER=mock returns canned feedback and must not be used in production');
+  }
+  
+  if (!hasGemini && !process.env.AI_PROVIDER) {
+    warnings.push(`GEMINI_API_KEY not set - using ${hasOpenAI ? 'OpenAI' : hasAnthropic ? 'Anthropic' : 'the local model'} as primary AI service`);
   }
   
   return { valid: errors.length === 0, errors, warnings };
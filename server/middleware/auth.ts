@@ -6,10 +6,12 @@
  * - requireRole: Flexible role-checking middleware factory
  * - requireAdmin: Shorthand for admin-only access
  * - requireInstructor: Shorthand for instructor+ access
+ * - requireCourseAccess / requireAssignmentAccess: Per-course staff checks
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { userRoleEnum } from '../../shared/schema';
+import { userRoleEnum, type CourseStaffRole } from '../../shared/schema';
+import { storage } from '../storage';
 
 // Type alias for user roles from the schema
 type UserRole = typeof userRoleEnum.enumValues[number];
@@ -120,4 +122,117 @@ export function requireInstructor(req: Request, res: Response, next: NextFunctio
  */
 export function requireStudent(req: Request, res: Response, next: NextFunction) {
   return requireRole(['student'])(req, res, next);
-}
\ No newline at end of file
+}
+
+/**
+ * What course staff may do:
+ * - view: see the course's students, submissions and reports
+ * - grade: edit feedback before it is released
+ * - manage: change assignments, enrollment, release feedback and integrations
+ * - staff: add, remove and change the roles of other staff
+ */
+export type CoursePermission = 'view' | 'grade' | 'manage' | 'staff';
+
+const COURSE_ROLE_PERMISSIONS: Record<CourseStaffRole, CoursePermission[]> = {
+  owner: ['view', 'grade', 'manage', 'staff'],
+  instructor: ['view', 'grade', 'manage'],
+  ta: ['view', 'grade']
+};
+
+export function hasCoursePermission(role: CourseStaffRole | undefined, permission: CoursePermission): boolean {
+  return !!role && COURSE_ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether a user may act on a course. Admins may act on every course.
+ * Resources without a course have no staff, so only admins may act on them.
+ */
+export async function checkCourseAccess(
+  user: Express.User,
+  courseId: number | null | undefined,
+  permission: CoursePermission
+): Promise<boolean> {
+  if (user.role === 'admin') return true;
+  if (!courseId) return false;
+  return hasCoursePermission(await storage.getCourseStaffRole(user.id, courseId), permission);
+}
+
+// Finds the course a route's resource belongs to, and the student who owns it if any; undefined when the resource does not exist
+type CourseLookup = (id: number) => Promise<{ courseId: number | null; ownerId?: number | null } | undefined>;
+
+async function assignmentCourse(assignmentId: number) {
+  const assignment = await storage.getAssignment(assignmentId);
+  return assignment ? { courseId: assignment.courseId } : undefined;
+}
+
+async function submissionCourse(submissionId: number) {
+  const submission = await storage.getSubmission(submissionId);
+  const course = submission ? await assignmentCourse(submission.assignmentId) : undefined;
+  return course && { ...course, ownerId: submission!.userId };
+}
+
+function resourceAccess(permission: CoursePermission, param: string, resource: string, lookup: CourseLookup, allowOwner = false) {
+  const label = resource.charAt(0).toUpperCase() + resource.slice(1);
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    const id = parseInt(req.params[param]);
+    if (isNaN(id) || id <= 0) {
+      return res.status(400).json({ message: `Invalid ${resource} ID` });
+    }
+
+    try {
+      const found = await lookup(id);
+      if (!found) {
+        return res.status(404).json({ message: `${label} not found` });
+      }
+      if (allowOwner && found.ownerId === req.user.id) {
+        return next();
+      }
+      if (!(await checkCourseAccess(req.user, found.courseId, permission))) {
+        return res.status(403).json({
+          message: permission === 'staff'
+            ? 'Access denied. Only course owners can manage course staff.'
+            : `Access denied. You are not ${permission === 'manage' ? 'an instructor' : 'on the staff'} of this course.`,
+          requiredPermission: permission
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Middleware factories requiring a course permission on the course a route
+ * parameter points to, directly or through an assignment, submission or
+ * feedback record
+ *
+ * @example
+ * app.get('/api/courses/:courseId/students', requireAuth, requireCourseAccess('view'), handler);
+ * app.patch('/api/feedback/:id', requireAuth, requireFeedbackAccess('grade'), handler);
+ */
+export function requireCourseAccess(permission: CoursePermission, param = 'courseId') {
+  return resourceAccess(permission, param, 'course', async id => (await storage.getCourse(id)) ? { courseId: id } : undefined);
+}
+
+export function requireAssignmentAccess(permission: CoursePermission, param = 'id') {
+  return resourceAccess(permission, param, 'assignment', assignmentCourse);
+}
+
+/**
+ * With `allowSubmitter`, the student who made the submission is let through
+ * as well as the course staff
+ */
+export function requireSubmissionAccess(permission: CoursePermission, param = 'id', options: { allowSubmitter?: boolean } = {}) {
+  return resourceAccess(permission, param, 'submission', submissionCourse, options.allowSubmitter);
+}
+
+export function requireFeedbackAccess(permission: CoursePermission, param = 'id') {
+  return resourceAccess(permission, param, 'feedback', async id => {
+    const record = await storage.getFeedback(id);
+    return record ? submissionCourse(record.submissionId) : undefined;
+  });
+}
@@ -1,5 +1,6 @@
 import { db } from '../db';
 import { addMfaColumns } from './add-mfa-columns';
+import { addNotebookContentType } from './add-notebook-content-type';
 
 async function addMissingColumnsToSubmissions() {
   console.log('[Migration] Checking for missing columns in submissions table...');
@@ -191,6 +192,7 @@ export async function runMigrations() {
     // Import the createFileTypeSettingsTable function dynamically to avoid circular dependencies
     const { createFileTypeSettingsTable } = await import('./add-file-type-settings');
     await createFileTypeSettingsTable();
+    await addNotebookContentType();
     
     console.log('[Migration] All migrations completed successfully.');
   } catch (error) {
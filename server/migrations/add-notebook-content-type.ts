@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { fileTypeSettings } from '../../shared/schema';
+
+export async function addNotebookContentType() {
+  console.log('[Migration] Checking for notebook content type...');
+  await db.execute("ALTER TYPE content_type ADD VALUE IF NOT EXISTS 'notebook';");
+
+  const result = await db.execute(
+    "SELECT id FROM file_type_settings WHERE context = 'system' AND content_type = 'notebook' LIMIT 1;"
+  );
+  if (result.rows.length === 0) {
+    await db.insert(fileTypeSettings).values({
+      context: 'system',
+      contentType: 'notebook',
+      enabled: true,
+      extensions: ['ipynb'],
+      mimeTypes: ['application/x-ipynb+json'],
+      maxSize: 20 * 1024 * 1024 // 20MB
+    });
+    console.log('[Migration] Added default notebook file type settings');
+  }
+}
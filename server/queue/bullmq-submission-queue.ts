@@ -1,11 +1,20 @@
 import { Queue, Worker, QueueEvents, Job, ConnectionOptions } from 'bullmq';
-import { submissions } from '../../shared/schema';
+import { submissions, type Submission, type Assignment, type InsertFeedback, type AIModelConfig } from '../../shared/schema';
 import { db } from '../db';
 import { eq } from 'drizzle-orm';
-import { GeminiAdapter } from '../adapters/gemini-adapter';
-import { OpenAIAdapter } from '../adapters/openai-adapter';
-import { AIService } from '../services/ai-service';
+import { AIService, FeedbackResponse } from '../services/ai-service';
+import { isMultiPass, runMultiPassGrading } from '../services/grading-reconciliation';
+import { applyRubricLevels } from '../schemas/gradingSchema';
+import { resolveAIModelConfig, createFallbackAIService } from '../services/ai-model-selection';
+import { runAutograderForSubmission, applyTestScore, withTestResultsContext } from '../services/autograder-service';
 import { StorageService } from '../services/storage-service';
+import { submissionEvents, setSubmissionStatus } from '../services/submission-events';
+import { ltiService } from '../services/lti/lti-service';
+import { lmsGradeSync } from '../services/lms/lms-grade-sync';
+import { notificationService } from '../services/notifications/notification-service';
+import { inboxService } from '../services/notifications/inbox-service';
+import { similarityService } from '../services/similarity-service';
+import { writingSignalsService } from '../services/writing-signals-service';
 import { storage } from '../storage';
 import { redisClient } from './redis-client';
 import { queueLogger as logger } from '../lib/logger';
@@ -112,43 +121,271 @@ if (queueEvents) {
   });
 }
 
-// Initialize AI Service
-function createAIService() {
-  // Select the appropriate AI adapter based on available API keys
-  // Prioritizing Gemini over OpenAI as per requirements
-  let aiAdapter;
-  
-  // Try to use Gemini first (prioritized model)
-  if (process.env.GEMINI_API_KEY) {
-    logger.info('AI adapter selected', { 
-      adapter: 'Gemini',
-      model: 'models/gemini-2.5-flash-preview-05-20'
+/**
+ * Resolve the model chain for an assignment (assignment, course, system,
+ * then environment default) and log which one was picked
+ */
+async function resolveAssignmentModels(assignment: Assignment): Promise<AIModelConfig> {
+  const { config, source } = await resolveAIModelConfig(assignment);
+  logger.info('AI models selected', {
+    assignmentId: assignment.id,
+    source,
+    chain: config.chain.map(choice => choice.model ? `${choice.provider}/${choice.model}` : choice.provider)
+  });
+  return config;
+}
+
+// Create storage service
+const storageService = new StorageService();
+
+/**
+ * Run the AI analysis that matches the submission's content type
+ */
+async function analyzeSubmissionContent(
+  aiService: AIService,
+  submission: Submission,
+  assignment: Assignment,
+  rubric: any
+): Promise<FeedbackResponse> {
+  // Multi-file and ZIP projects have no single file; they are graded from their stored files
+  if (!submission.fileUrl) {
+    const projectFiles = await storage.listSubmissionFiles(submission.id);
+    if (projectFiles.length > 0) {
+      logger.info(`Processing project submission`, {
+        submissionId: submission.id,
+        fileCount: projectFiles.length
+      });
+      return aiService.analyzeProjectSubmission({
+        files: projectFiles.map(file => ({ path: file.path, fileUrl: file.fileUrl, mimeType: file.mimeType })),
+        assignmentTitle: assignment.title,
+        assignmentDescription: assignment.description || undefined,
+        instructorContext: assignment.instructorContext || undefined,
+        rubric: rubric
+      });
+    }
+  }
+
+  // Determine if this is a multimodal submission
+  const isMultimodal = submission.mimeType && 
+                       submission.mimeType !== 'text/plain' && 
+                       (submission.fileUrl || submission.content?.startsWith('data:'));
+
+  if (!isMultimodal) {
+    // Process as standard text submission
+    return aiService.analyzeSubmission({
+      studentSubmissionContent: submission.content || '',
+      assignmentTitle: assignment.title,
+      assignmentDescription: assignment.description || undefined,
+      instructorContext: assignment.instructorContext || undefined, // Instructor-only guidance
+      rubric: rubric
     });
-    aiAdapter = new GeminiAdapter();
-  } 
-  // Fall back to OpenAI only if Gemini API key is not available
-  else if (process.env.OPENAI_API_KEY) {
-    logger.info('AI adapter selected', { 
-      adapter: 'OpenAI', 
-      model: 'gpt-4.1-mini-2025-04-14',
-      note: 'Using OpenAI as fallback (Gemini API key not found)'
+  }
+
+  logger.info(`Processing multimodal submission`, {
+    submissionId: submission.id,
+    type: submission.mimeType,
+    filename: submission.fileName,
+    fileUrl: submission.fileUrl
+  });
+
+  // For multimodal submissions, we need to handle the file content properly
+  // Check if we have content (for data URIs) or need to read from file path
+  if (submission.content && submission.content.startsWith('data:')) {
+    // If content is a data URI, use it directly
+    return aiService.analyzeMultimodalSubmission({
+      fileDataUri: submission.content,
+      fileName: submission.fileName || 'unknown',
+      mimeType: submission.mimeType || 'application/octet-stream',
+      textContent: undefined, // Data URIs don't have separate text content
+      assignmentTitle: assignment.title,
+      assignmentDescription: assignment.description || undefined,
+      instructorContext: assignment.instructorContext || undefined,
+      rubric: rubric
     });
-    aiAdapter = new OpenAIAdapter();
-  } 
-  // Final fallback if no keys are available
-  else {
-    logger.warn('No AI API key found - Gemini will be used by default', {
-      adapter: 'Gemini',
-      warning: 'Missing API key - functionality may be limited'
+  }
+
+  if (submission.fileUrl) {
+    // If we have a file URL/path, use it
+    return aiService.analyzeMultimodalSubmission({
+      filePath: submission.fileUrl,
+      fileName: submission.fileName || 'unknown',
+      mimeType: submission.mimeType || 'application/octet-stream',
+      textContent: submission.content || undefined, // Optional extracted text
+      assignmentTitle: assignment.title,
+      assignmentDescription: assignment.description || undefined,
+      instructorContext: assignment.instructorContext || undefined,
+      rubric: rubric
     });
-    aiAdapter = new GeminiAdapter();
   }
-    
-  return new AIService(aiAdapter);
+
+  // Fallback to text analysis if no file content is available
+  logger.warn(`Multimodal submission ${submission.id} has no file content, falling back to text analysis`);
+  return aiService.analyzeSubmission({
+    studentSubmissionContent: submission.content || 'No content provided',
+    assignmentTitle: assignment.title,
+    assignmentDescription: assignment.description || undefined,
+    instructorContext: assignment.instructorContext || undefined,
+    rubric: rubric
+  });
 }
 
-// Create storage service
-const storageService = new StorageService();
+/**
+ * Send a released score to LMS gradebooks linked through LTI, queue it for
+ * mapped LMS courses that sync grades automatically, and notify the student
+ * by email and in-app.
+ * Passback and notification failures are logged and never fail the grading job.
+ */
+function passbackReleasedScore(submissionId: number): void {
+  ltiService.passbackSubmissionScore(submissionId).catch(error => {
+    logger.error(`LTI score passback failed`, {
+      submissionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+  lmsGradeSync.queueSubmission(submissionId).catch(error => {
+    logger.error(`Failed to queue LMS grade sync`, {
+      submissionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+  notificationService.notifyFeedbackReady(submissionId).catch(error => {
+    logger.error(`Failed to queue feedback ready email`, {
+      submissionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+  inboxService.notifyFeedbackReady(submissionId).catch(error => {
+    logger.error(`Failed to create feedback ready notification`, {
+      submissionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+}
+
+/**
+ * Fingerprint a submission and re-score its assignment for similarity in the
+ * background. Failures are logged and never fail the grading job.
+ */
+function indexForSimilarity(submissionId: number): void {
+  similarityService.indexSubmission(submissionId).catch(error => {
+    logger.error(`Similarity indexing failed`, {
+      submissionId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+}
+
+/**
+ * Compute advisory writing signals for assignments that opted in, in the
+ * background. They are never used in grading, and failures are logged and
+ * never fail the grading job.
+ */
+function analyzeWritingSignals(submission: Submission, assignment: Assignment): void {
+  if (!assignment.writingSignalsEnabled) return;
+  writingSignalsService.analyzeSubmission(submission.id).catch(error => {
+    logger.error(`Writing signal analysis failed`, {
+      submissionId: submission.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+}
+
+/**
+ * Grade a submission and persist the resulting feedback.
+ * Assignments configured for multi-pass grading are graded several times and
+ * the passes are reconciled; the individual passes are stored for review and
+ * feedback whose passes disagree is kept as a draft.
+ */
+async function gradeAndSaveFeedback(submission: Submission, assignment: Assignment, rubric: any): Promise<void> {
+  const gradingConfig = assignment.gradingConfig;
+  // Assignments held for review keep AI feedback as a draft until an instructor releases it
+  const status = assignment.holdFeedbackForReview ? 'draft' : 'released';
+  const rubricObject = typeof rubric === 'object' ? rubric : undefined;
+
+  // Run the hidden test suite first so the AI sees which behaviour actually works
+  const autograderConfig = assignment.autograder;
+  const testResults = autograderConfig
+    ? await runAutograderForSubmission(submission, autograderConfig)
+    : undefined;
+  const gradedAssignment: Assignment = testResults
+    ? { ...assignment, instructorContext: withTestResultsContext(assignment.instructorContext, testResults) }
+    : assignment;
+  const scoreWithTests = <T extends FeedbackResponse | InsertFeedback>(result: T): T =>
+    autograderConfig && testResults ? applyTestScore(result, testResults, rubricObject, autograderConfig) : result;
+
+  // Each grading result's performance levels are checked against the rubric
+  const analyze = async (aiService: AIService): Promise<FeedbackResponse> => {
+    const result = await analyzeSubmissionContent(aiService, submission, gradedAssignment, rubric);
+    return { ...result, criteriaScores: applyRubricLevels(result.criteriaScores, rubricObject) };
+  };
+
+  const modelConfig = await resolveAssignmentModels(assignment);
+
+  if (!isMultiPass(gradingConfig)) {
+    // Stream feedback sections to the student unless an instructor reviews them first
+    const aiService = createFallbackAIService(modelConfig, status === 'released'
+      ? { onPartial: partial => submissionEvents.publishPartialFeedback(submission, partial) }
+      : undefined);
+    const feedbackResult = await analyze(aiService);
+
+    // Prepare feedback for database and save it
+    const feedbackData = await aiService.prepareFeedbackForStorage(submission.id, feedbackResult);
+    await storageService.saveFeedback({ ...scoreWithTests(feedbackData), testResults: testResults || null, status });
+    if (status === 'released') passbackReleasedScore(submission.id);
+    return;
+  }
+
+  logger.info(`Running multi-pass grading`, {
+    submissionId: submission.id,
+    passes: gradingConfig.passes,
+    providers: gradingConfig.providers
+  });
+
+  const reconciled = await runMultiPassGrading(
+    gradingConfig,
+    analyze,
+    rubricObject,
+    modelConfig
+  );
+
+  const result = scoreWithTests(reconciled.feedback);
+  // Passes that disagree go through the review and release flow like held feedback
+  const multiPassStatus = reconciled.needsReview ? 'draft' : status;
+  const savedFeedback = await storageService.saveFeedback({
+    submissionId: submission.id,
+    strengths: result.strengths,
+    improvements: result.improvements,
+    suggestions: result.suggestions,
+    summary: result.summary,
+    score: result.score,
+    criteriaScores: result.criteriaScores,
+    processingTime: result.processingTime,
+    rawResponse: result.rawResponse,
+    modelName: result.modelName,
+    tokenCount: result.tokenCount,
+    needsReview: reconciled.needsReview,
+    gradingVariance: reconciled.variance,
+    testResults: testResults || null,
+    status: multiPassStatus
+  });
+
+  await storage.createGradingPasses(reconciled.passes.map(pass => ({
+    submissionId: submission.id,
+    feedbackId: savedFeedback.id,
+    passNumber: pass.passNumber,
+    provider: pass.provider,
+    modelName: pass.result.modelName,
+    seed: pass.seed,
+    score: typeof pass.result.score === 'number' ? Math.round(pass.result.score) : null,
+    criteriaScores: pass.result.criteriaScores || null,
+    summary: pass.result.summary || null,
+    rawResponse: pass.result.rawResponse,
+    tokenCount: pass.result.tokenCount,
+    processingTime: pass.result.processingTime
+  })));
+
+  if (multiPassStatus === 'released') passbackReleasedScore(submission.id);
+}
 
 // Initialize BullMQ worker based on queue activation status
 let submissionWorker: SubmissionWorker = null;
@@ -182,27 +419,21 @@ if (queueActive) { // Enable worker when queue is active
         }
 
         // Update submission status to processing
-        await storage.updateSubmissionStatus(submission.id, 'processing');
+        await setSubmissionStatus(submission.id, 'processing');
         await job.updateProgress(20);
+        indexForSimilarity(submission.id);
 
         // Get assignment for context
         const assignment = await storage.getAssignment(submission.assignmentId);
         if (!assignment) {
           throw new Error(`Assignment ${submission.assignmentId} not found`);
         }
+        analyzeWritingSignals(submission, assignment);
         await job.updateProgress(30);
 
         // Prepare for analysis
         await job.updateProgress(40);
         
-        // Initialize AI service on demand
-        const aiService = createAIService();
-        
-        // Determine if this is a multimodal submission
-        const isMultimodal = submission.mimeType && 
-                             submission.mimeType !== 'text/plain' && 
-                             submission.fileUrl;
-
         // Parse the rubric if it exists in the assignment
         let rubric;
         if (assignment.rubric) {
@@ -227,40 +458,12 @@ if (queueActive) { // Enable worker when queue is active
               errorCode: 'RUBRIC_PARSE_ERROR'
             });
             
-            // Create a notification for the instructor about the rubric parsing error
-            const instructorNotification = {
-              userId: assignment.createdBy, // Instructor who created the assignment
-              type: 'rubric_error',
-              title: 'Rubric Parsing Error',
-              message: `There was an error parsing the rubric for assignment "${assignment.title}" (ID: ${assignment.id}). The submission will be processed without the rubric, which may affect feedback quality.`,
-              metadata: {
-                assignmentId: assignment.id,
-                submissionId: submissionId,
-                error: parseError.message,
-                timestamp: new Date().toISOString()
-              },
-              read: false,
-              createdAt: new Date()
-            };
-            
-            // Save notification (wrapped in try-catch to prevent it from affecting main flow)
-            try {
-              // This is a non-blocking operation - no await
-              // The actual implementation depends on the notification system
-              // For now, just log it as we'll implement the actual notification later
-              logger.info(`Created instructor notification for rubric parsing error`, {
-                notificationType: 'rubric_error',
-                instructorId: assignment.createdBy,
-                assignmentId: assignment.id
-              });
-              
-              // When a notification system is implemented:
-              // await storage.createNotification(instructorNotification);
-            } catch (notifyError) {
+            // Tell the course instructors about the rubric parsing error
+            inboxService.notifyRubricError(assignment, submissionId, parseError.message).catch(notifyError => {
               logger.error(`Failed to create instructor notification`, {
-                error: notifyError.message
+                error: notifyError instanceof Error ? notifyError.message : String(notifyError)
               });
-            }
+            });
             
             // Continue without rubric but with warning
             logger.warn(`Proceeding with submission processing without rubric`, {
@@ -280,79 +483,12 @@ if (queueActive) { // Enable worker when queue is active
           rubric = undefined;
         }
         
-        // Analyze the submission with AI based on file type
-        let feedbackResult;
-        if (isMultimodal) {
-          logger.info(`Processing multimodal submission`, {
-            submissionId,
-            type: submission.mimeType,
-            filename: submission.fileName,
-            fileUrl: submission.fileUrl
-          });
-          
-          // For multimodal submissions, we need to handle the file content properly
-          // Check if we have content (for data URIs) or need to read from file path
-          if (submission.content && submission.content.startsWith('data:')) {
-            // If content is a data URI, use it directly
-            feedbackResult = await aiService.analyzeMultimodalSubmission({
-              fileDataUri: submission.content,
-              fileName: submission.fileName || 'unknown',
-              mimeType: submission.mimeType || 'application/octet-stream',
-              textContent: undefined, // Data URIs don't have separate text content
-              assignmentTitle: assignment.title,
-              assignmentDescription: assignment.description || undefined,
-              instructorContext: assignment.instructorContext || undefined,
-              rubric: rubric
-            });
-          } else if (submission.fileUrl) {
-            // If we have a file URL/path, use it
-            feedbackResult = await aiService.analyzeMultimodalSubmission({
-              filePath: submission.fileUrl,
-              fileName: submission.fileName || 'unknown',
-              mimeType: submission.mimeType || 'application/octet-stream',
-              textContent: submission.content || undefined, // Optional extracted text
-              assignmentTitle: assignment.title,
-              assignmentDescription: assignment.description || undefined,
-              instructorContext: assignment.instructorContext || undefined,
-              rubric: rubric
-            });
-          } else {
-            // Fallback to text analysis if no file content is available
-            logger.warn(`Multimodal submission ${submissionId} has no file content, falling back to text analysis`);
-            feedbackResult = await aiService.analyzeSubmission({
-              studentSubmissionContent: submission.content || 'No content provided',
-              assignmentTitle: assignment.title,
-              assignmentDescription: assignment.description || undefined,
-              instructorContext: assignment.instructorContext || undefined,
-              rubric: rubric
-            });
-          }
-        } else {
-          // Process as standard text submission
-          const content = submission.content || '';
-          feedbackResult = await aiService.analyzeSubmission({
-            studentSubmissionContent: content,
-            assignmentTitle: assignment.title,
-            assignmentDescription: assignment.description || undefined,
-            instructorContext: assignment.instructorContext || undefined, // Instructor-only guidance
-            rubric: rubric
-          });
-        }
-        await job.updateProgress(70);
-
-        // Prepare feedback for database
-        const feedbackData = await aiService.prepareFeedbackForStorage(
-          submission.id,
-          feedbackResult
-        );
-        await job.updateProgress(80);
-
-        // Save feedback to database
-        await storageService.saveFeedback(feedbackData);
+        // Analyze the submission with AI and save the feedback
+        await gradeAndSaveFeedback(submission, assignment, rubric);
         await job.updateProgress(90);
         
         // Update submission status to completed
-        await storage.updateSubmissionStatus(submission.id, 'completed');
+        await setSubmissionStatus(submission.id, 'completed');
         await job.updateProgress(100);
         
         const processingTime = Date.now() - job.timestamp;
@@ -380,7 +516,7 @@ if (queueActive) { // Enable worker when queue is active
         const maxAttempts = job.opts.attempts || 1;
         if (job.attemptsMade >= maxAttempts - 1) {
           try {
-            await storage.updateSubmissionStatus(submissionId, 'failed');
+            await setSubmissionStatus(submissionId, 'failed');
             logger.info(`Marked submission as failed (final attempt)`, { submissionId });
           } catch (updateError: any) {
             logger.error(`Failed to update submission status`, { 
@@ -457,88 +593,27 @@ export const queueApi = {
       logger.info('Processing submission directly (Redis queue disabled)', { submissionId });
       
       // Update submission status to processing
-      await storage.updateSubmissionStatus(submissionId, 'processing');
+      await setSubmissionStatus(submissionId, 'processing');
       
       // Get submission data
       const submission = await storage.getSubmission(submissionId);
       if (!submission) {
         throw new Error(`Submission not found: ${submissionId}`);
       }
+      indexForSimilarity(submissionId);
       
       // Get assignment data
       const assignment = await storage.getAssignment(submission.assignmentId);
       if (!assignment) {
         throw new Error(`Assignment not found: ${submission.assignmentId}`);
       }
-      
-      // Process the submission directly with AI service
-      const aiService = createAIService();
+      analyzeWritingSignals(submission, assignment);
       
       // Get assignment rubric
       const rubric = assignment.rubric || assignment.description || 'Please provide feedback on this submission.';
       
-      // Determine if this is a multimodal submission
-      const isMultimodal = submission.mimeType && 
-                           submission.mimeType !== 'text/plain' && 
-                           (submission.fileUrl || submission.content?.startsWith('data:'));
-      
-      // Analyze the submission based on its type
-      let feedbackResult;
-      if (isMultimodal) {
-        // Handle multimodal submissions (images, documents, etc.)
-        if (submission.content && submission.content.startsWith('data:')) {
-          // If content is a data URI, use it directly
-          feedbackResult = await aiService.analyzeMultimodalSubmission({
-            fileDataUri: submission.content,
-            fileName: submission.fileName || 'unknown',
-            mimeType: submission.mimeType || 'application/octet-stream',
-            textContent: undefined,
-            assignmentTitle: assignment.title,
-            assignmentDescription: assignment.description || undefined,
-            instructorContext: assignment.instructorContext || undefined,
-            rubric: rubric
-          });
-        } else if (submission.fileUrl) {
-          // If we have a file URL/path, use it
-          feedbackResult = await aiService.analyzeMultimodalSubmission({
-            filePath: submission.fileUrl,
-            fileName: submission.fileName || 'unknown',
-            mimeType: submission.mimeType || 'application/octet-stream',
-            textContent: submission.content || undefined,
-            assignmentTitle: assignment.title,
-            assignmentDescription: assignment.description || undefined,
-            instructorContext: assignment.instructorContext || undefined,
-            rubric: rubric
-          });
-        } else {
-          // Fallback to text analysis if no file content is available
-          feedbackResult = await aiService.analyzeSubmission({
-            studentSubmissionContent: submission.content || 'No content provided',
-            assignmentTitle: assignment.title,
-            assignmentDescription: assignment.description || undefined,
-            instructorContext: assignment.instructorContext || undefined,
-            rubric: rubric
-          });
-        }
-      } else {
-        // Handle text-only submissions
-        feedbackResult = await aiService.analyzeSubmission({
-          studentSubmissionContent: submission.content || '',
-          assignmentTitle: assignment.title,
-          assignmentDescription: assignment.description || undefined,
-          instructorContext: assignment.instructorContext || undefined,
-          rubric: rubric
-        });
-      }
-      
-      // Prepare feedback for storage
-      const feedbackData = await aiService.prepareFeedbackForStorage(
-        submission.id,
-        feedbackResult
-      );
-      
-      // Save feedback to database using the proper storage service
-      await storageService.saveFeedback(feedbackData);
+      // Analyze the submission with AI and save the feedback
+      await gradeAndSaveFeedback(submission, assignment, rubric);
       
       logger.info(`Submission processed directly (Redis fallback mode)`, { submissionId });
       return `direct-${submissionId}-${Date.now()}`;
@@ -550,7 +625,7 @@ export const queueApi = {
       
       // Mark as failed
       try {
-        await storage.updateSubmissionStatus(submissionId, 'failed');
+        await setSubmissionStatus(submissionId, 'failed');
       } catch (updateError) {
         logger.error(`Failed to update submission status to failed`, { 
           submissionId, 
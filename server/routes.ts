@@ -8,21 +8,49 @@ import multer from "multer";
 import path from "path";
 import * as fs from 'fs';
 import { StorageService } from "./services/storage-service";
-import { AIService } from "./services/ai-service";
-import { GeminiAdapter, SUPPORTED_MIME_TYPES } from "./adapters/gemini-adapter";
+import { feedbackReviewService, withholdDraftFeedback } from "./services/feedback-review-service";
+import { autograder } from "./services/autograder-service";
+import { resolveAIModelConfig, createFallbackAIService, courseAIModelKey, getStoredAIModelConfig, SYSTEM_AI_MODEL_KEY } from "./services/ai-model-selection";
+import { aiAdapterFactory } from "./adapters/adapter-factory";
+import { lmsGradeSync } from "./services/lms/lms-grade-sync";
+import { submissionEvents, setSubmissionStatus } from "./services/submission-events";
+import { DEFAULT_NOTIFICATION_SETTINGS } from "./services/notifications/notification-service";
+import { similarityService, MIN_STORED_SCORE } from "./services/similarity-service";
+import { writingSignalsService } from "./services/writing-signals-service";
+import { submissionPolicyService } from "./services/submission-policy-service";
+import { guestSubmitterService } from "./services/guest-submitter-service";
+import { SUPPORTED_MIME_TYPES } from "./adapters/gemini-adapter";
 import { OpenAIAdapter } from "./adapters/openai-adapter";
 import { z } from "zod";
 import { eq, count } from "drizzle-orm";
 import { db } from "./db";
-import { submissions, feedback, users, userNotificationSettings, newsletterSubscribers, type User } from "../shared/schema";
+import { submissions, feedback, users, userNotificationSettings, newsletterSubscribers, gradingConfigSchema, autograderConfigSchema, aiModelConfigSchema, submissionPolicySchema, feedbackEditSchema, rubricPerformanceLevelSchema, type User, type InsertSubmissionFile } from "../shared/schema";
 import { v4 as uuidv4 } from "uuid";
 import { defaultRateLimiter, submissionRateLimiter } from "./middleware/rate-limiter";
 import adminRoutes from "./routes/admin";
 import instructorRoutes from "./routes/instructor";
 import dataProtectionRouter from "./routes/data-protection";
 import errorReportingRoutes from "./routes/error-reporting";
+import ltiRoutes from "./routes/lti";
+import rubricTemplateRoutes from "./routes/rubric-templates";
+import courseStaffRoutes from "./routes/course-staff";
+import courseRosterRoutes from "./routes/course-roster";
+import courseJoinCodeRoutes from "./routes/course-join-codes";
+import joinRoutes from "./routes/join";
+import guestRoutes from "./routes/guest";
 import { queueSecurityAudit } from "./queue/security-audit";
-import { determineContentType, isFileTypeAllowed, ContentType } from "./utils/file-type-settings";
+import { determineContentType, isFileTypeAllowed, isNotebookFile, ContentType } from "./utils/file-type-settings";
+import { NOTEBOOK_MIME_TYPE, parseNotebook } from "./utils/notebook-parser";
+import { effectiveDueDate, selectCountedAttempt } from "./utils/late-policy";
+import {
+  MAX_PROJECT_FILES,
+  extractZipEntries,
+  getProjectFileMimeType,
+  isSourceFile,
+  isZipFile,
+  readUploadedProjectFiles,
+  type ProjectEntry
+} from "./utils/project-submission";
 import { processFileForMultimodal } from "./utils/multimodal-processor";
 import { asyncHandler } from "./lib/error-handler";
 import { generateSecret, verifyTotp, generateOtpAuthUrl } from "./utils/totp";
@@ -50,6 +78,12 @@ function generateShareableCode(length = 8): string {
   return code;
 }
 
+// Instructor-only assignment fields (AI guidance, the hidden test suite and writing-signal checks) are never sent to students
+function withoutHiddenAssignmentFields<T extends { instructorContext?: unknown; autograder?: unknown; writingSignalsEnabled?: unknown }>(assignment: T): Omit<T, 'instructorContext' | 'autograder' | 'writingSignalsEnabled'> {
+  const { instructorContext: _instructorContext, autograder: _autograder, writingSignalsEnabled: _writingSignalsEnabled, ...visible } = assignment;
+  return visible;
+}
+
 // Configure multer for file uploads with disk storage for production-grade memory management
 const uploadDir = process.env.NODE_ENV === 'production' ? '/tmp/aigrader-uploads' : '/tmp/aigrader-dev-uploads';
 
@@ -76,6 +110,8 @@ const upload = multer({
   limits: {
     fileSize: 10 * 1024 * 1024 // 10MB limit
   },
+  // Keep folder paths sent as filenames by multi-file project uploads
+  preservePath: true,
   fileFilter: function (req, file, cb) {
     // Additional security: validate file types
     const allowedTypes = [
@@ -84,7 +120,11 @@ const upload = multer({
       ...SUPPORTED_MIME_TYPES.audio,
       ...SUPPORTED_MIME_TYPES.document
     ];
-    if (allowedTypes.includes(file.mimetype)) {
+    // Browsers send source files, notebooks and archives with generic or missing MIME types
+    if (allowedTypes.includes(file.mimetype) ||
+        isZipFile(file.mimetype, file.originalname) ||
+        isSourceFile(file.originalname) ||
+        isNotebookFile(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
       cb(new Error(`Unsupported file type: ${file.mimetype}`));
@@ -97,7 +137,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const { requireAuth, requireRole } = configureAuth(app);
   
   // Import the new flexible middleware from auth middleware
-  const { requireRole: flexibleRequireRole, requireInstructor, requireAdmin } = await import('./middleware/auth.js');
+  const {
+    requireRole: flexibleRequireRole,
+    requireInstructor,
+    requireAdmin,
+    requireCourseAccess,
+    requireAssignmentAccess,
+    requireSubmissionAccess,
+    requireFeedbackAccess,
+    checkCourseAccess
+  } = await import('./middleware/auth.js');
   
   // Add CSRF protection middleware
   app.use(addCSRFToken);
@@ -114,6 +163,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mount instructor routes
   app.use('/api/instructor', instructorRoutes);
 
+  // LTI 1.3 tool endpoints (login initiation, launch, deep linking)
+  app.use('/api/lti', ltiRoutes);
+
+  // Course owners, co-instructors and TAs
+  app.use('/api/courses/:courseId/staff', requireAuth, courseStaffRoutes);
+
+  // Registrar roster import and pending MIT Horizon invitations
+  app.use('/api/courses/:courseId/roster', requireAuth, courseRosterRoutes);
+
+  // Self-enrollment: instructors manage join codes, students redeem them
+  app.use('/api/courses/:courseId/join-codes', requireAuth, courseJoinCodeRoutes);
+  app.use('/api/join', requireAuth, defaultRateLimiter, joinRoutes);
+
+  // Guests who submitted through a shareable link: magic-link sign-in and their own history
+  app.use('/api/guest', defaultRateLimiter, guestRoutes);
+
+  // Rubric template library (instructors and admins)
+  app.use('/api/rubric-templates', requireAuth, flexibleRequireRole(['instructor']), rubricTemplateRoutes);
+
   // Data protection routes (GDPR/FERPA compliance) - require admin role
   app.use('/api/data-protection', requireAuth, flexibleRequireRole(['admin']), dataProtectionRouter);
   
@@ -310,6 +378,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(result);
   }));
 
+  // System-wide default model chain; assignments and courses without their own use it
+  app.get('/api/admin/ai-model', requireAuth, flexibleRequireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+    const resolved = await resolveAIModelConfig();
+    res.json({
+      aiModel: await getStoredAIModelConfig(SYSTEM_AI_MODEL_KEY),
+      effective: resolved.config,
+      configuredProviders: aiAdapterFactory.getConfiguredProviders()
+    });
+  }));
+
+  app.put('/api/admin/ai-model', requireAuth, flexibleRequireRole(['admin']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const result = aiModelConfigSchema.nullable().safeParse(req.body?.aiModel);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid AI model configuration', errors: result.error.format() });
+    }
+
+    const user = req.user as User;
+    if (result.data) {
+      await storage.upsertSystemSetting({
+        key: SYSTEM_AI_MODEL_KEY,
+        value: result.data,
+        description: 'Default AI model chain for grading',
+        updatedBy: user.id
+      });
+    } else {
+      await storage.deleteSystemSetting(SYSTEM_AI_MODEL_KEY);
+    }
+    res.json({ aiModel: result.data });
+  }));
+
+  // Per-course default model chain, used by assignments without their own
+  app.get('/api/admin/courses/:id/ai-model', requireAuth, flexibleRequireRole(['admin']), asyncHandler(async (req: Request, res: Response) => {
+    const courseId = parseInt(req.params.id);
+
+    if (isNaN(courseId)) {
+      return res.status(400).json({ message: 'Invalid course ID' });
+    }
+
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    res.json({ aiModel: await getStoredAIModelConfig(courseAIModelKey(courseId)) });
+  }));
+
+  app.put('/api/admin/courses/:id/ai-model', requireAuth, flexibleRequireRole(['admin']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const courseId = parseInt(req.params.id);
+
+    if (isNaN(courseId)) {
+      return res.status(400).json({ message: 'Invalid course ID' });
+    }
+
+    const result = aiModelConfigSchema.nullable().safeParse(req.body?.aiModel);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid AI model configuration', errors: result.error.format() });
+    }
+
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      return res.status(404).json({ message: 'Course not found' });
+    }
+
+    const user = req.user as User;
+    if (result.data) {
+      await storage.upsertSystemSetting({
+        key: courseAIModelKey(courseId),
+        value: result.data,
+        description: `Default AI model chain for course ${course.code}`,
+        updatedBy: user.id
+      });
+    } else {
+      await storage.deleteSystemSetting(courseAIModelKey(courseId));
+    }
+    res.json({ aiModel: result.data });
+  }));
+
   app.post('/api/admin/security-audit', requireAuth, flexibleRequireRole(['admin']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
     const user = req.user as User;
     await queueSecurityAudit(user.id);
@@ -408,12 +553,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const user = req.user as User;
     const settings = await storage.getUserNotificationSettings(user.id);
     if (!settings) {
-      return res.json({
-        emailNotifications: true,
-        assignmentNotifications: true,
-        feedbackNotifications: true,
-        systemNotifications: false
-      });
+      return res.json(DEFAULT_NOTIFICATION_SETTINGS);
     }
     res.json(settings);
   }));
@@ -440,6 +580,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(settings);
   }));
 
+  // In-app notification inbox
+  app.get('/api/notifications', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user as User;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ message: 'limit must be between 1 and 100' });
+    }
+
+    const [notifications, unreadCount] = await Promise.all([
+      storage.listNotifications(user.id, { unreadOnly: req.query.unread === 'true', limit }),
+      storage.countUnreadNotifications(user.id)
+    ]);
+    res.json({ notifications, unreadCount });
+  }));
+
+  app.get('/api/notifications/unread-count', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user as User;
+    res.json({ unreadCount: await storage.countUnreadNotifications(user.id) });
+  }));
+
+  app.patch('/api/notifications/:id/read', requireAuth, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user as User;
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({ message: 'Invalid notification ID' });
+    }
+
+    const notification = await storage.markNotificationRead(notificationId, user.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    res.json(notification);
+  }));
+
+  app.post('/api/notifications/read-all', requireAuth, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const user = req.user as User;
+    const updated = await storage.markAllNotificationsRead(user.id);
+    res.json({ updated });
+  }));
+
   // MFA endpoints (from origin/main branch)
   app.get('/api/mfa/setup', requireAuth, asyncHandler(async (req: Request, res: Response) => {
     const user = req.user as any; // Assuming user object has id and username
@@ -487,13 +667,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Use optimized single query to get assignments with submissions and courses
       console.log(`[PERFORMANCE] Using optimized assignments with submissions query for student ${user.id}`);
       const assignmentsWithSubmissions = await storage.listAssignmentsWithSubmissionsForUser(user.id);
-      res.json(assignmentsWithSubmissions);
+      res.json(assignmentsWithSubmissions.map(withoutHiddenAssignmentFields));
     } else {
       // For instructors, use optimized assignment stats with single query
       const assignmentsWithStats = await storage.listAssignmentsWithStats();
       console.log(`[PERFORMANCE] Using optimized assignments with stats query - eliminated N+1 queries`);
 
-      res.json(assignmentsWithStats);
+      // Instructors only see assignments from courses they are on the staff of
+      const courseIds = user.role === 'admin' ? undefined : await storage.listStaffCourseIds(user.id);
+      res.json(courseIds
+        ? assignmentsWithStats.filter(assignment => courseIds.includes(assignment.courseId))
+        : assignmentsWithStats);
     }
   }));
 
@@ -507,9 +691,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     const course = await storage.getCourse(assignment.courseId);
+    const user = req.user as any;
+    // Instructor-only fields are limited to the course's staff
+    const isStaff = await checkCourseAccess(user, assignment.courseId, 'view');
 
     res.json({
-      ...assignment,
+      ...(isStaff ? assignment : withoutHiddenAssignmentFields(assignment)),
       course
     });
   }));
@@ -519,7 +706,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create assignment (instructor only)
   app.post('/api/assignments', requireAuth, flexibleRequireRole(['instructor']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
     try {
-      const { title, description, courseId, dueDate, rubric } = req.body;
+      const { title, description, courseId, dueDate, rubric, gradingConfig } = req.body;
 
       console.log("Creating assignment with data:", JSON.stringify({
         title,
@@ -547,10 +734,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
             description: z.string(),
             maxScore: z.number().int().min(1),
             weight: z.number().int().min(1),
+            levels: z.array(rubricPerformanceLevelSchema).min(2).max(10).optional(),
           })).optional(),
           totalPoints: z.number().int().positive().optional(),
           passingThreshold: z.number().int().min(0).max(100).optional(),
         }).optional(),
+        gradingConfig: gradingConfigSchema.optional(),
+        holdFeedbackForReview: z.boolean().optional(),
+        autograder: autograderConfigSchema.optional(),
+        aiModel: aiModelConfigSchema.optional(),
+        submissionPolicy: submissionPolicySchema.optional(),
       });
 
       const result = assignmentSchema.safeParse(req.body);
@@ -570,6 +763,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!course) {
           return res.status(404).json({ message: 'Course not found' });
         }
+        if (!(await checkCourseAccess(req.user!, courseIdNum, 'manage'))) {
+          return res.status(403).json({ message: 'You can only create assignments in courses you teach' });
+        }
       }
 
       // Generate a unique shareable code
@@ -578,21 +774,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create assignment - if no courseId provided, use the default course
       let finalCourseId = courseId ? (typeof courseId === 'string' ? parseInt(courseId) : courseId) : undefined;
       
-      // If no course specified, create or use a default course
+      // If no course specified, use the instructor's first course or their own default course
       if (!finalCourseId) {
-        // Try to get or create a default course
-        const courses = await storage.listCourses();
-        if (courses.length === 0) {
-          // Create a default course
-          const defaultCourse = await storage.createCourse({
+        const staffCourseIds = await storage.listStaffCourseIds(req.user!.id);
+        if (staffCourseIds.length > 0) {
+          finalCourseId = staffCourseIds[0];
+        } else {
+          // Each instructor gets a separate one, so standalone assignments stay private to them
+          const defaultCourseCode = `GENERAL-${req.user!.id}`;
+          const defaultCourse = await storage.getCourseByCode(defaultCourseCode) ?? await storage.createCourse({
             name: "General Assignments",
-            code: "GENERAL",
+            code: defaultCourseCode,
             description: "Default course for standalone assignments"
           });
+          await storage.upsertCourseStaff({ courseId: defaultCourse.id, userId: req.user!.id, role: 'owner', addedBy: req.user!.id });
           finalCourseId = defaultCourse.id;
-        } else {
-          // Use the first available course
-          finalCourseId = courses[0].id;
         }
       }
       
@@ -604,6 +800,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'active',
         shareableCode,
         rubric: rubric ? JSON.stringify(rubric) as any : null,
+        gradingConfig: result.data.gradingConfig ?? null,
+        holdFeedbackForReview: result.data.holdFeedbackForReview ?? false,
+        autograder: result.data.autograder ?? null,
+        aiModel: result.data.aiModel ?? null,
+        submissionPolicy: result.data.submissionPolicy ?? null,
       });
 
       console.log("Assignment created successfully, ID:", assignment.id);
@@ -618,7 +819,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }));
 
   // Get assignment details for instructor - OPTIMIZED
-  app.get('/api/assignments/:id/details', requireAuth, flexibleRequireRole(['instructor']), asyncHandler(async (req: Request, res: Response) => {
+  app.get('/api/assignments/:id/details', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
     const assignmentId = parseInt(req.params.id);
 
     if (isNaN(assignmentId)) {
@@ -662,7 +863,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
-  app.patch('/api/assignments/:id/status', requireAuth, flexibleRequireRole(['instructor']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  app.patch('/api/assignments/:id/status', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
     const assignmentId = parseInt(req.params.id);
 
     if (isNaN(assignmentId)) {
@@ -726,6 +927,373 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }));
 
+  // Update how an assignment is graded (single pass or multi-pass with reconciliation)
+  app.patch('/api/assignments/:id/grading-config', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = gradingConfigSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid grading configuration', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentGradingConfig(assignmentId, result.data);
+    res.json(updatedAssignment);
+  }));
+
+  // Hold AI feedback for instructor review before students can see it
+  app.patch('/api/assignments/:id/feedback-review', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = z.object({ holdFeedbackForReview: z.boolean() }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid review setting', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentFeedbackReview(assignmentId, result.data.holdFeedbackForReview);
+    res.json(updatedAssignment);
+  }));
+
+  // Attach, replace or remove (with null) the hidden test suite run against each submission
+  app.patch('/api/assignments/:id/autograder', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = autograderConfigSchema.nullable().safeParse(req.body?.autograder);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid autograder configuration', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentAutograder(assignmentId, result.data);
+    res.json(updatedAssignment);
+  }));
+
+  // Show the assignment's model chain override and the chain that will actually grade it
+  app.get('/api/assignments/:id/ai-model', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const resolved = await resolveAIModelConfig(assignment);
+    res.json({
+      aiModel: assignment.aiModel ?? null,
+      effective: resolved.config,
+      source: resolved.source,
+      configuredProviders: aiAdapterFactory.getConfiguredProviders()
+    });
+  }));
+
+  // Choose, replace or clear (with null) the model chain that grades an assignment
+  app.patch('/api/assignments/:id/ai-model', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = aiModelConfigSchema.nullable().safeParse(req.body?.aiModel);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid AI model configuration', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentAIModel(assignmentId, result.data);
+    res.json(updatedAssignment);
+  }));
+
+  // Run a test suite against a reference solution so instructors can check it before students submit
+  app.post('/api/assignments/:id/autograder/check', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = z.object({
+      autograder: autograderConfigSchema,
+      solution: z.string().max(200_000)
+    }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid autograder check', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await autograder.runForCode(result.data.solution, result.data.autograder));
+  }));
+
+  // Release draft feedback for an assignment (selected IDs, or every draft if none are given)
+  app.post('/api/assignments/:id/feedback/release', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+    const user = req.user as User;
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = z.object({ feedbackIds: z.array(z.number().int().positive()).optional() }).safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid release request', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const actor = { id: user.id, username: user.username, ipAddress: req.ip, userAgent: req.get('User-Agent') };
+    let released;
+    if (result.data.feedbackIds) {
+      // Only release drafts that belong to this assignment
+      const drafts = await storage.listDraftFeedbackForAssignment(assignmentId);
+      const draftIds = new Set(drafts.map(item => item.id));
+      released = await feedbackReviewService.releaseFeedback(result.data.feedbackIds.filter(id => draftIds.has(id)), actor);
+    } else {
+      released = await feedbackReviewService.releaseAllForAssignment(assignmentId, actor);
+    }
+
+    res.json({ released: released.length, feedbackIds: released.map(item => item.id) });
+  }));
+
+  // Ranked pairs of students' submissions that share passages (instructor only)
+  app.get('/api/assignments/:id/similarity', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = z.object({
+      minScore: z.coerce.number().int().min(0).max(100).default(MIN_STORED_SCORE),
+      limit: z.coerce.number().int().min(1).max(200).default(50)
+    }).safeParse(req.query);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid similarity query', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await similarityService.getReport(assignmentId, result.data.minScore, result.data.limit));
+  }));
+
+  // Fingerprint any missing submissions and re-score every pair (instructor only)
+  app.post('/api/assignments/:id/similarity/analyze', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await similarityService.analyzeAssignment(assignmentId));
+  }));
+
+  // Both submissions of a pair with their shared passages marked (instructor only)
+  app.get('/api/assignments/:id/similarity/:pairId', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+    const pairId = parseInt(req.params.pairId);
+
+    if (isNaN(assignmentId) || isNaN(pairId)) {
+      return res.status(400).json({ message: 'Invalid assignment or pair ID' });
+    }
+
+    const comparison = await similarityService.comparePair(pairId, assignmentId);
+    if (!comparison) {
+      return res.status(404).json({ message: 'Similarity pair not found' });
+    }
+
+    res.json(comparison);
+  }));
+
+  // Turn advisory AI-writing signals on or off for an assignment (instructor only)
+  app.patch('/api/assignments/:id/writing-signals', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = z.object({ writingSignalsEnabled: z.boolean() }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid writing signals setting', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentWritingSignals(assignmentId, result.data.writingSignalsEnabled);
+    res.json(updatedAssignment);
+  }));
+
+  // Set or clear (with null) the attempt limit, late policy and counted attempt of an assignment
+  app.patch('/api/assignments/:id/submission-policy', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const result = submissionPolicySchema.nullable().safeParse(req.body?.submissionPolicy);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid submission policy', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    const updatedAssignment = await storage.updateAssignmentSubmissionPolicy(assignmentId, result.data);
+    res.json(updatedAssignment);
+  }));
+
+  // The caller's due date, attempts used and whether they may submit now
+  app.get('/api/assignments/:id/submission-window', requireAuth, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await submissionPolicyService.getSubmissionWindow(assignment, req.user!.id));
+  }));
+
+  // Per-student due date extensions
+  app.get('/api/assignments/:id/extensions', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    res.json(await submissionPolicyService.listExtensions(assignmentId));
+  }));
+
+  app.put('/api/assignments/:id/extensions/:userId', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+
+    if (isNaN(assignmentId) || isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid assignment or user ID' });
+    }
+
+    const result = z.object({
+      dueDate: z.string().refine(val => !isNaN(Date.parse(val)), {
+        message: 'Invalid date format'
+      }),
+      reason: z.string().max(500).optional()
+    }).safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: 'Invalid extension', errors: result.error.format() });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await submissionPolicyService.grantExtension(assignment, req.user as User, userId, new Date(result.data.dueDate), result.data.reason));
+  }));
+
+  app.delete('/api/assignments/:id/extensions/:userId', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+    const userId = parseInt(req.params.userId);
+
+    if (isNaN(assignmentId) || isNaN(userId)) {
+      return res.status(400).json({ message: 'Invalid assignment or user ID' });
+    }
+
+    res.json(await submissionPolicyService.revokeExtension(assignmentId, userId));
+  }));
+
+  // Advisory AI-writing signals for an assignment's submissions (instructor only, never shown to students)
+  app.get('/api/assignments/:id/writing-signals', requireAuth, requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+
+    res.json(await writingSignalsService.listForAssignment(assignmentId));
+  }));
+
+  // Compute writing signals for latest submissions that have none yet (instructor only)
+  app.post('/api/assignments/:id/writing-signals/analyze', requireAuth, requireAssignmentAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+    const assignmentId = parseInt(req.params.id);
+
+    if (isNaN(assignmentId)) {
+      return res.status(400).json({ message: 'Invalid assignment ID' });
+    }
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) {
+      return res.status(404).json({ message: 'Assignment not found' });
+    }
+    if (!assignment.writingSignalsEnabled) {
+      return res.status(409).json({ message: 'Writing signals are not enabled for this assignment' });
+    }
+
+    res.json(await writingSignalsService.analyzeAssignment(assignmentId));
+  }));
+
   // Bulk update all assignment statuses based on due dates (admin only)
   app.post('/api/assignments/update-statuses', requireAuth, flexibleRequireRole(['admin']), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
     const { dryRun = false } = req.body;
@@ -900,12 +1468,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(403).json({ message: 'Invalid shareable code' });
     }
 
-    const userId = req.user ? (req.user as any).id : 1;  // Use user ID 1 for anonymous submissions
-    console.log(`[DEBUG] Anonymous submission userId: ${userId}, type: ${typeof userId}`);
+    // Signed-in users submit as themselves; everyone else as a guest identified by email
+    const userId: number | null = req.user ? (req.user as User).id : null;
+
+    // Signed-in users get the same attempt limit and due date as on the submit page
+    if (userId !== null) {
+      await submissionPolicyService.checkCanSubmit(assignment, userId);
+    }
 
     let submission: any = {
       assignmentId,
       userId,
+      guestSubmitterId: null,
       name,
       email,
       status: 'pending',
@@ -972,7 +1546,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ message: 'Invalid submission type' });
     }
 
-    const createdSubmission = await storage.createSubmission(submission);
+    const createdSubmission = userId !== null
+      ? await submissionPolicyService.recordAttempt(assignment, submission)
+      : await storage.createSubmission(submission);
+    const pendingGuest = userId === null
+      ? await guestSubmitterService.recordSubmitter(createdSubmission.id, name, email)
+      : undefined;
 
     // Add submission to BullMQ queue for processing
     try {
@@ -981,7 +1560,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error('Error adding submission to queue:', error);
       // Fallback: mark as failed if queue addition fails
-      await storage.updateSubmissionStatus(createdSubmission.id, 'failed');
+      await setSubmissionStatus(createdSubmission.id, 'failed');
+    }
+
+    // The emailed link verifies the guest's address, files the submission under it and opens their feedback
+    if (pendingGuest) {
+      try {
+        await guestSubmitterService.sendSubmissionLink(pendingGuest, assignment.title);
+      } catch (error) {
+        console.error('Error sending guest access link:', error);
+      }
     }
 
     res.status(201).json({
@@ -990,7 +1578,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }));
 
-  app.post('/api/submissions', requireAuth, upload.single('file'), asyncHandler(async (req: Request, res: Response) => {
+  // Accepts a single file, a ZIP project, or several project files under "files"
+  const submissionUpload = upload.fields([
+    { name: 'file', maxCount: 1 },
+    { name: 'files', maxCount: MAX_PROJECT_FILES }
+  ]);
+
+  app.post('/api/submissions', requireAuth, submissionUpload, asyncHandler(async (req: Request, res: Response) => {
       const user = req.user as any;
 
       if (user.role !== 'student') {
@@ -1011,9 +1605,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { assignmentId, submissionType, notes, content: textContent } = result.data;
 
-      const isActive = await storageService.isAssignmentActive(assignmentId);
-      if (!isActive) {
-        return res.status(400).json({ message: 'Assignment is not active or has passed its due date' });
+      const assignment = await storage.getAssignment(assignmentId);
+      if (!assignment || assignment.status !== 'active') {
+        return res.status(400).json({ message: 'Assignment is not active' });
       }
 
       const isEnrolled = await storageService.isStudentEnrolled(user.id, assignmentId);
@@ -1021,16 +1615,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'You are not enrolled in this course' });
       }
 
+      // Attempt limit and the student's due date, grace period and late cutoff
+      const { attemptNumber, lateness } = await submissionPolicyService.checkCanSubmit(assignment, user.id);
+
       let fileUrl = '';
       let fileName = '';
       let content = '';
       let mimeType = null;
       let fileSize = null;
       let contentType: ContentType | null = null;
+      let projectFiles: Omit<InsertSubmissionFile, 'submissionId'>[] = [];
+
+      const uploads = req.files as Record<string, Express.Multer.File[]> | undefined;
+      const uploadedFile = uploads?.file?.[0];
+      const projectUploads = uploads?.files || [];
 
-      if (submissionType === 'file' && req.file) {
+      if (submissionType === 'file' && (projectUploads.length > 0 || (uploadedFile && isZipFile(uploadedFile.mimetype, uploadedFile.originalname)))) {
+        let entries: ProjectEntry[];
+        try {
+          entries = uploadedFile
+            ? await extractZipEntries(await fs.promises.readFile(uploadedFile.path))
+            : await readUploadedProjectFiles(projectUploads);
+        } catch (projectError: any) {
+          return res.status(400).json({
+            message: 'Invalid project submission',
+            details: projectError.message
+          });
+        }
+
+        // Every file of the project is stored under one folder, keeping its path
+        const projectId = `${Date.now()}-${uuidv4()}`;
+        try {
+          for (const entry of entries) {
+            const entryMimeType = getProjectFileMimeType(entry.path);
+            const entryUrl = await storageService.storeProjectFile(entry.content, entry.path, entryMimeType, user.id, assignmentId, projectId);
+            projectFiles.push({
+              path: entry.path,
+              fileUrl: entryUrl,
+              mimeType: entryMimeType,
+              fileSize: entry.content.length,
+              contentType: determineContentType(entryMimeType, entry.path)
+            });
+          }
+        } catch (storageError: any) {
+          console.error(`[SUBMISSION] Project storage error for user ${user.id}: ${storageError.message}`);
+          return res.status(500).json({
+            message: "Failed to store project submission",
+            details: "An error occurred while saving your files. Please try again."
+          });
+        }
+
+        fileName = uploadedFile ? uploadedFile.originalname : `${entries.length} files`;
+        mimeType = uploadedFile ? 'application/zip' : null;
+        fileSize = projectFiles.reduce((total, file) => total + file.fileSize, 0);
+        contentType = 'text';
+
+        console.log(`[SUBMISSION] User ${user.id} project submission: ${fileName}, ${projectFiles.length} files, ${fileSize} bytes`);
+      } else if (submissionType === 'file' && uploadedFile) {
         // Validate file exists on disk and is not empty  
-        if (!req.file.path || !fs.existsSync(req.file.path)) {
+        if (!uploadedFile.path || !fs.existsSync(uploadedFile.path)) {
           console.error(`[SUBMISSION] File upload failed - no file path or file doesn't exist for user ${user.id}`);
           return res.status(400).json({
             message: "File upload failed - file not found",
@@ -1039,24 +1682,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // Check file size on disk
-        const fileStats = fs.statSync(req.file.path);
+        const fileStats = fs.statSync(uploadedFile.path);
         if (fileStats.size === 0) {
           console.error(`[SUBMISSION] Empty file uploaded by user ${user.id}`);
           // Clean up empty file
-          fs.unlinkSync(req.file.path);
+          fs.unlinkSync(uploadedFile.path);
           return res.status(400).json({
             message: "File upload failed - empty file",
             details: "The uploaded file contains no data. Please check the file and try again."
           });
         }
         
-        fileName = req.file.originalname;
-        mimeType = req.file.mimetype;
-        fileSize = req.file.size;
+        fileName = uploadedFile.originalname;
+        mimeType = uploadedFile.mimetype;
+        fileSize = uploadedFile.size;
 
         const fileExtension = path.extname(fileName).slice(1).toLowerCase();
         contentType = determineContentType(mimeType, fileName);
 
+        // Browsers send notebooks as generic JSON or binary; store the notebook type so grading recognises them
+        if (contentType === 'notebook') {
+          mimeType = NOTEBOOK_MIME_TYPE;
+        }
+
         console.log(`[SUBMISSION] User ${user.id} submission: ${fileName}, MIME: ${mimeType}, Content type: ${contentType}, Size: ${fileSize} bytes`);
 
         // Check if file type is allowed
@@ -1070,7 +1718,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Store the file with error handling
         try {
-          fileUrl = await storageService.storeSubmissionFile(req.file, user.id, assignmentId);
+          fileUrl = await storageService.storeSubmissionFile(uploadedFile, user.id, assignmentId);
           console.log(`[SUBMISSION] File stored successfully at ${fileUrl}`);
         } catch (storageError: any) {
           console.error(`[SUBMISSION] File storage error for user ${user.id}: ${storageError.message}`);
@@ -1083,7 +1731,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // For text files, extract content safely from disk
         if (contentType === 'text' && mimeType.startsWith('text/')) {
           try {
-            content = fs.readFileSync(req.file.path, 'utf8');
+            content = fs.readFileSync(uploadedFile.path, 'utf8');
           } catch (textError: any) {
             console.warn(`[SUBMISSION] Failed to extract text content from file: ${textError.message}`);
             // Continue without text extraction for binary files
@@ -1113,7 +1761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Invalid submission type or missing content' });
       }
 
-      const submission = await storage.createSubmission({
+      const submission = await submissionPolicyService.recordAttempt(assignment, {
         assignmentId,
         userId: user.id,
         fileUrl,
@@ -1126,6 +1774,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         contentType: contentType || null
       });
 
+      if (projectFiles.length > 0) {
+        await storage.createSubmissionFiles(projectFiles.map(file => ({ ...file, submissionId: submission.id })));
+      }
+
       // Add submission to queue for asynchronous processing
       try {
         const { queueApi } = await import('./queue/bullmq-submission-queue');
@@ -1134,10 +1786,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } catch (queueError: any) {
         console.error(`[SUBMISSION] Failed to add submission ${submission.id} to queue:`, queueError);
         // Mark submission as failed if queue addition fails
-        await storage.updateSubmissionStatus(submission.id, 'failed');
+        await setSubmissionStatus(submission.id, 'failed');
       }
 
-      res.status(201).json(submission);
+      res.status(201).json({ ...submission, attemptNumber, lateness });
   }));
 
   app.get('/api/submissions', requireAuth, asyncHandler(async (req: Request, res: Response) => {
@@ -1148,7 +1800,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`[PERFORMANCE] Using optimized submissions with feedback query for user ${user.id}`);
       const submissionsWithFeedback = await storage.listSubmissionsWithFeedbackForUser(user.id, assignmentId);
 
-      res.json(submissionsWithFeedback);
+      // Feedback still held for instructor review is not shown to the submitter
+      res.json(submissionsWithFeedback.map(withholdDraftFeedback));
   }));
 
   app.get('/api/submissions/recent', requireAuth, asyncHandler(async (req: Request, res: Response) => {
@@ -1160,11 +1813,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const recentSubmissions = submissionsWithFeedback
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(0, 5);
+        .slice(0, 5)
+        .map(withholdDraftFeedback);
 
       res.json(recentSubmissions);
   }));
 
+  // Server-Sent Events stream of status changes and partial feedback for the user's submissions
+  app.get('/api/submissions/events', requireAuth, (req: Request, res: Response) => {
+      const user = req.user as any;
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        // Stop reverse proxies from buffering the stream
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+      res.write('retry: 5000\n\n');
+
+      const unsubscribe = submissionEvents.subscribe(user.id, event => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      // Comments keep idle connections open through proxies with read timeouts
+      const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25000);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      });
+  });
+
   app.get('/api/assignments/:id/submissions', requireAuth, asyncHandler(async (req: Request, res: Response) => {
       const assignmentId = parseInt(req.params.id);
       const user = req.user as any;
@@ -1180,21 +1861,196 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Role-based access control
-      if (user.role === 'student') {
-        // Students can only see their own submissions for this assignment
-        console.log(`[PERFORMANCE] Using optimized assignment-specific submissions query for assignment ${assignmentId}, user ${user.id}`);
-        const submissions = await storage.listSubmissionsWithFeedbackForAssignment(assignmentId, user.id);
-        res.json(submissions);
-      } else if (user.role === 'instructor') {
-        // Instructors can see all submissions for the assignment
+      if (await checkCourseAccess(user, assignment.courseId, 'view')) {
+        // Course staff can see all submissions for the assignment
         console.log(`[PERFORMANCE] Using optimized submissions with feedback query for assignment ${assignmentId} (instructor view)`);
         const submissionsWithFeedback = await storage.listSubmissionsWithFeedbackForAssignment(assignmentId);
         res.json(submissionsWithFeedback);
+      } else if (user.role === 'student') {
+        // Students can only see their own submissions for this assignment
+        console.log(`[PERFORMANCE] Using optimized assignment-specific submissions query for assignment ${assignmentId}, user ${user.id}`);
+        const submissions = await storage.listSubmissionsWithFeedbackForAssignment(assignmentId, user.id);
+        res.json(submissions.map(withholdDraftFeedback));
       } else {
         return res.status(403).json({ message: 'Access denied' });
       }
   }));
 
+  // Individual grading passes behind a reconciled feedback record (instructor only)
+  app.get('/api/submissions/:id/grading-passes', requireAuth, requireSubmissionAccess('grade'), asyncHandler(async (req: Request, res: Response) => {
+      const submissionId = parseInt(req.params.id);
+
+      if (isNaN(submissionId) || submissionId <= 0) {
+        return res.status(400).json({ message: 'Invalid submission ID' });
+      }
+
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const [passes, submissionFeedback] = await Promise.all([
+        storage.listGradingPasses(submissionId),
+        storage.getFeedbackBySubmissionId(submissionId)
+      ]);
+
+      res.json({
+        submissionId,
+        needsReview: submissionFeedback?.needsReview ?? false,
+        variance: submissionFeedback?.gradingVariance ?? null,
+        passes
+      });
+  }));
+
+  // Parsed cells of a notebook submission, for rendering next to the feedback
+  app.get('/api/submissions/:id/notebook', requireAuth, requireSubmissionAccess('view', 'id', { allowSubmitter: true }), asyncHandler(async (req: Request, res: Response) => {
+      const submissionId = parseInt(req.params.id);
+
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      if (submission.contentType !== 'notebook' || !submission.fileUrl) {
+        return res.status(404).json({ message: 'This submission is not a notebook' });
+      }
+
+      const file = await processFileForMultimodal(submission.fileUrl, submission.fileName || 'notebook.ipynb', NOTEBOOK_MIME_TYPE);
+      try {
+        res.json(parseNotebook(file.content));
+      } catch (error) {
+        return res.status(422).json({ message: error instanceof Error ? error.message : 'Notebook could not be parsed' });
+      }
+  }));
+
+  // List the files of a multi-file or ZIP project submission
+  app.get('/api/submissions/:id/files', requireAuth, requireSubmissionAccess('view', 'id', { allowSubmitter: true }), asyncHandler(async (req: Request, res: Response) => {
+      const submissionId = parseInt(req.params.id);
+
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const files = await storage.listSubmissionFiles(submissionId);
+      res.json(files.map(({ id, path, mimeType, fileSize, contentType }) => ({ id, path, mimeType, fileSize, contentType })));
+  }));
+
+  // Read one text file of a project submission for display
+  app.get('/api/submissions/:id/files/:fileId', requireAuth, requireSubmissionAccess('view', 'id', { allowSubmitter: true }), asyncHandler(async (req: Request, res: Response) => {
+      const submissionId = parseInt(req.params.id);
+      const fileId = parseInt(req.params.fileId);
+
+      if (isNaN(fileId) || fileId <= 0) {
+        return res.status(400).json({ message: 'Invalid file ID' });
+      }
+
+      const submission = await storage.getSubmission(submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: 'Submission not found' });
+      }
+
+      const file = (await storage.listSubmissionFiles(submissionId)).find(candidate => candidate.id === fileId);
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      if (file.contentType !== 'text') {
+        return res.status(415).json({ message: 'Only text files can be displayed' });
+      }
+
+      const processed = await processFileForMultimodal(file.fileUrl, file.path, file.mimeType);
+      res.json({ id: file.id, path: file.path, content: processed.textContent ?? '' });
+  }));
+
+  // Queue a submission's grade for LMS sync again, e.g. after a failed sync (instructor only)
+  app.post('/api/submissions/:id/lms-sync', requireAuth, requireSubmissionAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+      const submissionId = parseInt(req.params.id);
+
+      if (isNaN(submissionId) || submissionId <= 0) {
+        return res.status(400).json({ message: 'Invalid submission ID' });
+      }
+
+      const submissionFeedback = await storage.getFeedbackBySubmissionId(submissionId);
+      if (!submissionFeedback || submissionFeedback.status === 'draft') {
+        return res.status(409).json({ message: 'Only released feedback can be synced' });
+      }
+
+      const queued = await lmsGradeSync.queueSubmission(submissionId);
+      if (!queued) {
+        return res.status(409).json({ message: 'Automatic grade sync is not enabled for this course' });
+      }
+
+      res.json({ submissionId, lmsSyncStatus: 'pending' });
+  }));
+
+  // Edit AI feedback (instructor only); changed fields are recorded in the audit trail
+  app.patch('/api/feedback/:id', requireAuth, requireFeedbackAccess('grade'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+      const feedbackId = parseInt(req.params.id);
+      const user = req.user as User;
+
+      if (isNaN(feedbackId) || feedbackId <= 0) {
+        return res.status(400).json({ message: 'Invalid feedback ID' });
+      }
+
+      const result = feedbackEditSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid feedback data', errors: result.error.format() });
+      }
+
+      const existing = await storage.getFeedback(feedbackId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Feedback not found' });
+      }
+
+      const { feedback: updated, changes } = await feedbackReviewService.editFeedback(feedbackId, result.data, {
+        id: user.id,
+        username: user.username,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json({ feedback: updated, changes });
+  }));
+
+  // Release a single draft feedback record to the student
+  app.post('/api/feedback/:id/release', requireAuth, requireFeedbackAccess('manage'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+      const feedbackId = parseInt(req.params.id);
+      const user = req.user as User;
+
+      if (isNaN(feedbackId) || feedbackId <= 0) {
+        return res.status(400).json({ message: 'Invalid feedback ID' });
+      }
+
+      const existing = await storage.getFeedback(feedbackId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Feedback not found' });
+      }
+      if (existing.status === 'released') {
+        return res.json(existing);
+      }
+
+      const [released] = await feedbackReviewService.releaseFeedback([feedbackId], {
+        id: user.id,
+        username: user.username,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      });
+
+      res.json(released ?? existing);
+  }));
+
+  // Edit and release history for a feedback record
+  app.get('/api/feedback/:id/history', requireAuth, requireFeedbackAccess('grade'), asyncHandler(async (req: Request, res: Response) => {
+      const feedbackId = parseInt(req.params.id);
+
+      if (isNaN(feedbackId) || feedbackId <= 0) {
+        return res.status(400).json({ message: 'Invalid feedback ID' });
+      }
+
+      const history = await feedbackReviewService.getAuditTrail(feedbackId);
+      res.json(history);
+  }));
+
   app.get('/api/courses', requireAuth, createCacheMiddleware({ 
     ttl: 300, // Cache for 5 minutes
     key: (req) => `/api/courses:${(req.user as any)?.id}`
@@ -1203,8 +2059,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let courses;
 
       if (user.role === 'instructor') {
-        // Use optimized method to get courses with stats in single query
-        courses = await storage.listCoursesWithStats();
+        // Use optimized method to get courses with stats in single query, limited to courses the instructor staffs
+        courses = await storage.listCoursesWithStats(await storage.listStaffCourseIds(user.id));
         console.log(`[PERFORMANCE] Using optimized course listing with database-level stats aggregation`);
       } else {
         courses = await storage.listUserEnrollments(user.id);
@@ -1237,7 +2093,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         ...course,
         studentCount,
-        assignments: assignmentsWithStats
+        assignments: assignmentsWithStats,
+        // The current user's staff role, so the UI can offer staff management to owners
+        staffRole: (await storage.getCourseStaffRole((req.user as any).id, courseId)) ?? null
       });
   }));
 
@@ -1265,6 +2123,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         code,
         description: description || null
       });
+      await storage.upsertCourseStaff({ courseId: course.id, userId: req.user!.id, role: 'owner', addedBy: req.user!.id });
 
       const testStudent = await storage.getUserByEmail('student@test.com');
       if (testStudent) {
@@ -1278,7 +2137,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(course);
   }));
 
-  app.get('/api/courses/:courseId/students', requireAuth, flexibleRequireRole(['instructor']), asyncHandler(async (req: Request, res: Response) => {
+  app.get('/api/courses/:courseId/students', requireAuth, requireCourseAccess('view'), asyncHandler(async (req: Request, res: Response) => {
       const courseId = parseInt(req.params.courseId);
       if (isNaN(courseId)) {
         return res.status(400).json({ message: 'Invalid course ID' });
@@ -1288,12 +2147,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(students);
   }));
 
+  // LMS mappings of a course and whether they push released grades automatically
+  app.get('/api/courses/:id/lms-grade-sync', requireAuth, requireCourseAccess('view', 'id'), asyncHandler(async (req: Request, res: Response) => {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: 'Invalid course ID' });
+      }
+
+      const mappings = await lmsGradeSync.listCourseMappings(courseId);
+      res.json({
+        enabled: mappings.length > 0 && mappings.every(mapping => mapping.autoGradeSync),
+        mappings: mappings.map(mapping => ({
+          id: mapping.id,
+          credentialId: mapping.credentialId,
+          lmsCourseId: mapping.lmsCourseId,
+          lmsCourseName: mapping.lmsCourseName,
+          autoGradeSync: mapping.autoGradeSync
+        }))
+      });
+  }));
+
+  // Turn automatic LMS grade sync on or off for a course
+  app.patch('/api/courses/:id/lms-grade-sync', requireAuth, requireCourseAccess('manage', 'id'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({ message: 'Invalid course ID' });
+      }
+
+      const result = z.object({ enabled: z.boolean() }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid grade sync setting', errors: result.error.format() });
+      }
+
+      const mappings = await lmsGradeSync.setCourseAutoSync(courseId, result.data.enabled);
+      if (mappings.length === 0) {
+        return res.status(404).json({ message: 'This course is not mapped to an LMS course' });
+      }
+
+      res.json({ enabled: result.data.enabled, mappings: mappings.length });
+  }));
+
   app.get('/api/students', requireAuth, flexibleRequireRole(['instructor']), asyncHandler(async (req: Request, res: Response) => {
-      const students = await storage.listStudents();
+      // Instructors only see students enrolled in courses they are on the staff of
+      const user = req.user as any;
+      const courseIds = user.role === 'admin' ? undefined : await storage.listStaffCourseIds(user.id);
+      const students = await storage.listStudents(courseIds);
       res.json(students);
   }));
 
   app.get('/api/students/progress/:assignmentId?', requireAuth, flexibleRequireRole(['instructor']), asyncHandler(async (req: Request, res: Response) => {
+      const user = req.user as any;
       let page = 1;
       const pageSize = 10;
       const searchQuery = req.query.search as string || '';
@@ -1324,11 +2227,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (!assignment) {
           return res.status(404).json({ message: 'Assignment not found' });
         }
+        if (!(await checkCourseAccess(user, assignment.courseId, 'view'))) {
+          return res.status(403).json({ message: 'Access denied. You are not on the staff of this course.' });
+        }
 
         const enrolledStudents = await storage.listCourseEnrollments(assignment.courseId);
         const submissions = await storage.listSubmissionsForAssignment(assignmentId);
 
         const submissionsByStudent = submissions.reduce((acc, submission) => {
+          if (submission.userId === null) return acc; // Guest submissions belong to no enrolled student
           if (!acc[submission.userId]) {
             acc[submission.userId] = [];
           }
@@ -1365,8 +2272,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         totalCount = students.length;
       } else {
-        // Use optimized method to get student progress with database-level aggregation
-        const allStudentProgress = await storage.getStudentProgress();
+        // Use optimized method to get student progress with database-level aggregation,
+        // limited to the courses an instructor is on the staff of
+        const courseIds = user.role === 'admin' ? undefined : await storage.listStaffCourseIds(user.id);
+        const allStudentProgress = await storage.getStudentProgress(undefined, courseIds);
         console.log(`[PERFORMANCE] Using optimized student progress query with database-level aggregation`);
         
         totalCount = allStudentProgress.length;
@@ -1451,6 +2360,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn('Error parsing course/assignment IDs:', e);
       }
 
+      // Statistics are limited to courses the user is on the staff of
+      const user = req.user as any;
+      if (assignmentId) {
+        const assignment = await storage.getAssignment(assignmentId);
+        if (!assignment) {
+          return res.status(404).json({ message: 'Assignment not found' });
+        }
+        if (!(await checkCourseAccess(user, assignment.courseId, 'view'))) {
+          return res.status(403).json({ message: 'Access denied. You are not on the staff of this course.' });
+        }
+      } else if (courseId && !(await checkCourseAccess(user, courseId, 'view'))) {
+        return res.status(403).json({ message: 'Access denied. You are not on the staff of this course.' });
+      }
+      const staffCourseIds = user.role === 'admin' ? undefined : await storage.listStaffCourseIds(user.id);
+
       // Use optimized single-query method for assignment statistics
       if (assignmentId) {
         console.log(`[PERFORMANCE] Using optimized assignment stats for assignment ${assignmentId}`);
@@ -1459,7 +2383,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // For course-level stats, we still need to aggregate across assignments
-      let allAssignments = await storage.listAssignments(courseId);
+      let allAssignments = (await storage.listAssignments(courseId))
+        .filter(assignment => !staffCourseIds || staffCourseIds.includes(assignment.courseId));
       console.log(`Total assignments for courseId ${courseId}: ${allAssignments.length}`);
 
       if (allAssignments.length === 0) {
@@ -1608,11 +2533,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const user = req.user as any;
       let targetAssignmentId = assignmentId;
 
       if (!targetAssignmentId) {
+        // The newest active assignment among the courses the user is on the staff of
+        const courseIds = user.role === 'admin' ? undefined : await storage.listStaffCourseIds(user.id);
         const activeAssignments = (await storage.listAssignments())
-          .filter(a => a.status === 'active')
+          .filter(a => a.status === 'active' && (!courseIds || courseIds.includes(a.courseId)))
           .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
         if (activeAssignments.length === 0) {
@@ -1626,6 +2554,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!assignment) {
         return res.status(404).json({ message: 'Assignment not found' });
       }
+      if (!(await checkCourseAccess(user, assignment.courseId, 'view'))) {
+        return res.status(403).json({ message: 'Access denied. You are not on the staff of this course.' });
+      }
 
       const submissions = await storage.listSubmissionsForAssignment(targetAssignmentId);
       const students = await storage.listCourseEnrollments(assignment.courseId);
@@ -1681,6 +2612,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         : 0;
 
       const submissionsByStudent = submissions.reduce((acc, sub) => {
+        if (sub.userId === null) return acc; // Guest submissions belong to no enrolled student
         if (!acc[sub.userId]) acc[sub.userId] = [];
         acc[sub.userId].push(sub);
         return acc;
@@ -1726,7 +2658,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`[TEST-RUBRIC] File details: name=${file.originalname}, type=${file.mimetype}, size=${file.size} bytes`);
       }
 
-      const aiService = new AIService(new GeminiAdapter()); // Consider making AI adapter configurable
+      // Test with the models that would grade the assignment, or the system default without one
+      const testAssignmentId = parseInt(req.body.assignmentId);
+      const testAssignment = isNaN(testAssignmentId) ? undefined : await storage.getAssignment(testAssignmentId);
+      const { config: modelConfig } = await resolveAIModelConfig(testAssignment);
+      const aiService = createFallbackAIService(modelConfig);
 
       try {
         let feedback;
@@ -1898,6 +2834,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!assignment) {
         return res.status(404).json({ message: 'Assignment not found' });
       }
+      if (!(await checkCourseAccess(req.user!, assignment.courseId, 'view'))) {
+        return res.status(403).json({ message: 'Access denied. You are not on the staff of this course.' });
+      }
 
       const course = await storage.getCourse(assignment.courseId);
       if (!course) {
@@ -1906,8 +2845,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const students = await storage.listCourseEnrollments(assignment.courseId);
       const submissions = await storage.listSubmissionsForAssignment(assignmentId);
+      const extensions = await storage.listAssignmentExtensions(assignmentId);
+      const extensionByStudent = new Map(extensions.map(extension => [extension.userId, extension]));
 
       const submissionsByStudent = submissions.reduce((acc, sub) => {
+        if (sub.userId === null) return acc; // Guest submissions belong to no enrolled student
         if (!acc[sub.userId]) acc[sub.userId] = [];
         acc[sub.userId].push(sub);
         return acc;
@@ -1923,7 +2865,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
 
-      let csv = 'Student ID,Student Name,Student Email,Submission Status,Submission Date,Last Score,Attempts,Feedback Summary\n';
+      let csv = 'Student ID,Student Name,Student Email,Submission Status,Submission Date,Last Score,Attempts,Counted Attempt,Late Penalty (%),Adjusted Score,Feedback Summary\n';
 
       for (const student of students) {
         const studentSubmissions = submissionsByStudent[student.id] || [];
@@ -1937,7 +2879,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let status = 'Not Submitted';
         let submissionDate = '';
         let score = '';
-        let attempts = studentSubmissions.length.toString();
+        let attempts = studentSubmissions.filter(sub => sub.status !== 'failed').length.toString();
+        let countedAttempt = '';
+        let latePenalty = '';
+        let adjustedScore = '';
         let feedbackSummary = '';
 
         if (latestSubmission) {
@@ -1952,9 +2897,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
             score = feedbackForLatest.score !== null ? feedbackForLatest.score.toString() : '';
             feedbackSummary = feedbackForLatest.summary ? feedbackForLatest.summary.replace(/"/g, '""') : ''; // Handle null summary
           }
+
+          // The grade is the latest or best attempt after late penalties, per the assignment's policy
+          const counted = selectCountedAttempt(
+            studentSubmissions
+              .filter(sub => sub.status !== 'failed')
+              .map(sub => ({ createdAt: sub.createdAt, score: feedbackBySubmission.get(sub.id)?.score ?? null })),
+            effectiveDueDate(assignment.dueDate, extensionByStudent.get(student.id)),
+            assignment.submissionPolicy
+          );
+          if (counted) {
+            countedAttempt = counted.attemptNumber.toString();
+            latePenalty = counted.lateness.penaltyPercent.toString();
+            adjustedScore = counted.adjustedScore.toString();
+          }
         }
 
-        csv += `${student.id},"${student.name}","${student.email}","${status}","${submissionDate}","${score}","${attempts}","${feedbackSummary}"\n`;
+        csv += `${student.id},"${student.name}","${student.email}","${status}","${submissionDate}","${score}","${attempts}","${countedAttempt}","${latePenalty}","${adjustedScore}","${feedbackSummary}"\n`;
       }
 
       res.setHeader('Content-Type', 'text/csv');
@@ -0,0 +1,71 @@
+/**
+ * Course Join Code Routes
+ *
+ * Lets instructors generate and revoke the join codes students use to enroll
+ * themselves, and work through the queue of join requests waiting for
+ * approval. Mounted at /api/courses/:courseId/join-codes behind requireAuth
+ * in routes.ts; students redeem codes through routes/join.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { requireCourseAccess } from '../middleware/auth';
+import { courseJoinService } from '../services/course-join-service';
+import type { User } from '../../shared/schema';
+
+const router = Router({ mergeParams: true });
+
+const joinCodeSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).default(14),
+  requireApproval: z.boolean().default(false),
+  restrictToAllowedDomains: z.boolean().default(false)
+});
+
+router.use(requireCourseAccess('manage'));
+
+// Codes that have not been revoked, newest first (expired ones included)
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await courseJoinService.listJoinCodes(parseInt(req.params.courseId)));
+}));
+
+router.post('/', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = joinCodeSchema.safeParse(req.body ?? {});
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid join code settings', errors: result.error.format() });
+  }
+
+  const joinCode = await courseJoinService.createJoinCode(parseInt(req.params.courseId), req.user as User, result.data);
+  res.status(201).json(joinCode);
+}));
+
+// Join requests waiting for approval
+router.get('/requests', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await courseJoinService.listRequests(parseInt(req.params.courseId)));
+}));
+
+router.post('/requests/:requestId/:decision', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const requestId = parseInt(req.params.requestId);
+  if (isNaN(requestId) || !['approve', 'deny'].includes(req.params.decision)) {
+    return res.status(400).json({ message: 'Invalid join request or decision' });
+  }
+
+  res.json(await courseJoinService.decideRequest(
+    parseInt(req.params.courseId),
+    requestId,
+    req.user as User,
+    req.params.decision === 'approve'
+  ));
+}));
+
+router.delete('/:joinCodeId', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const joinCodeId = parseInt(req.params.joinCodeId);
+  if (isNaN(joinCodeId)) {
+    return res.status(400).json({ message: 'Invalid join code ID' });
+  }
+
+  res.json(await courseJoinService.revokeJoinCode(parseInt(req.params.courseId), joinCodeId));
+}));
+
+export default router;
@@ -0,0 +1,63 @@
+/**
+ * Course Roster Routes
+ *
+ * Imports registrar rosters (CSV or XLSX) into a course: preview how each
+ * row matches existing accounts, then enroll, provision or invite. Mounted
+ * at /api/courses/:courseId/roster behind requireAuth in routes.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { requireCourseAccess } from '../middleware/auth';
+import { rosterImportService } from '../services/roster-import-service';
+import { parseRoster } from '../utils/roster-import';
+import type { User } from '../../shared/schema';
+
+const router = Router({ mergeParams: true });
+
+// XLSX files are sent base64 encoded
+const rosterFileSchema = z.object({
+  format: z.enum(['csv', 'xlsx']),
+  content: z.string().min(1).max(5_000_000)
+});
+
+router.use(requireCourseAccess('manage'));
+
+// How each row would be imported, without changing anything
+router.post('/preview', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = rosterFileSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid roster file', errors: result.error.format() });
+  }
+
+  const rows = await parseRoster(result.data.content, result.data.format);
+  res.json(await rosterImportService.preview(parseInt(req.params.courseId), rows));
+}));
+
+router.post('/import', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = rosterFileSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid roster file', errors: result.error.format() });
+  }
+
+  const rows = await parseRoster(result.data.content, result.data.format);
+  res.json(await rosterImportService.importRoster(parseInt(req.params.courseId), req.user as User, rows));
+}));
+
+// Students invited by MIT Horizon ID who have not signed in yet
+router.get('/invitations', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await rosterImportService.listInvitations(parseInt(req.params.courseId)));
+}));
+
+router.delete('/invitations/:invitationId', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const invitationId = parseInt(req.params.invitationId);
+  if (isNaN(invitationId)) {
+    return res.status(400).json({ message: 'Invalid invitation ID' });
+  }
+
+  res.json(await rosterImportService.cancelInvitation(parseInt(req.params.courseId), invitationId));
+}));
+
+export default router;
@@ -0,0 +1,67 @@
+/**
+ * Course Staff Routes
+ *
+ * Lists a course's owners, co-instructors and TAs, and lets owners add,
+ * re-role and remove them. Mounted at /api/courses/:courseId/staff behind
+ * requireAuth in routes.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { requireCourseAccess } from '../middleware/auth';
+import { courseStaffService } from '../services/course-staff-service';
+import type { User } from '../../shared/schema';
+
+const router = Router({ mergeParams: true });
+
+const roleSchema = z.enum(['owner', 'instructor', 'ta']);
+
+function parseUserId(req: Request, res: Response): number | undefined {
+  const userId = parseInt(req.params.userId);
+  if (isNaN(userId)) {
+    res.status(400).json({ message: 'Invalid user ID' });
+    return undefined;
+  }
+  return userId;
+}
+
+// Staff of the course, visible to all staff
+router.get('/', requireCourseAccess('view'), asyncHandler(async (req: Request, res: Response) => {
+  res.json(await courseStaffService.listStaff(parseInt(req.params.courseId)));
+}));
+
+// Add a user by email (or change the role of one already on the staff)
+router.post('/', requireCourseAccess('staff'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = z.object({
+    email: z.string().email(),
+    role: roleSchema
+  }).safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid staff member', errors: result.error.format() });
+  }
+
+  const staff = await courseStaffService.addStaff(parseInt(req.params.courseId), req.user as User, result.data.email, result.data.role);
+  res.status(201).json(staff);
+}));
+
+router.patch('/:userId', requireCourseAccess('staff'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const userId = parseUserId(req, res);
+  if (userId === undefined) return;
+  const result = z.object({ role: roleSchema }).safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid staff role', errors: result.error.format() });
+  }
+
+  res.json(await courseStaffService.updateRole(parseInt(req.params.courseId), req.user as User, userId, result.data.role));
+}));
+
+router.delete('/:userId', requireCourseAccess('staff'), csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const userId = parseUserId(req, res);
+  if (userId === undefined) return;
+
+  res.json(await courseStaffService.removeStaff(parseInt(req.params.courseId), userId));
+}));
+
+export default router;
@@ -8,8 +8,9 @@ import { Router } from "express";
 import { configureAuth } from "../auth";
 import { csrfProtection } from "../middleware/csrf-protection";
 import { dataProtectionService } from "../services/data-protection";
+import { inboxService } from "../services/notifications/inbox-service";
 import { db } from "../db";
-import { dataSubjectRequests, userConsents, dataAuditLog } from "../../shared/schema";
+import { dataSubjectRequests, userConsents, dataAuditLog, guestSubmitters } from "../../shared/schema";
 import { eq, desc, and, gte, lte, count, sql } from "drizzle-orm";
 import { z } from "zod";
 
@@ -146,6 +147,11 @@ router.post('/requests/:id/process', csrfProtection, async (req, res) => {
         .where(eq(dataSubjectRequests.id, requestId));
     }
 
+    // Let the requester know where their request stands
+    inboxService.notifyDataRequestStatus(requestId).catch(error => {
+      console.error('Error notifying user about data subject request:', error);
+    });
+
     // Log admin action
     await dataProtectionService.logDataAccess({
       userId: request.userId,
@@ -238,6 +244,79 @@ router.delete('/users/:userId/data', csrfProtection, async (req, res) => {
   }
 });
 
+/**
+ * Find a guest submitter (shareable-link submissions without an account) by email
+ */
+router.get('/guests', async (req, res) => {
+  try {
+    const email = z.string().email().safeParse(req.query.email);
+    if (!email.success) {
+      return res.status(400).json({ error: 'A valid email is required' });
+    }
+
+    const [guest] = await db.select()
+      .from(guestSubmitters)
+      .where(eq(guestSubmitters.email, email.data.toLowerCase()));
+
+    if (!guest) {
+      return res.status(404).json({ error: 'Guest submitter not found' });
+    }
+
+    res.json(guest);
+  } catch (error) {
+    console.error('Error finding guest submitter:', error);
+    res.status(500).json({ error: 'Failed to find guest submitter' });
+  }
+});
+
+/**
+ * Export a guest submitter's data
+ */
+router.get('/guests/:guestId/export', async (req, res) => {
+  try {
+    const guestId = parseInt(req.params.guestId);
+
+    if (!guestId || isNaN(guestId)) {
+      return res.status(400).json({ error: 'Invalid guest ID' });
+    }
+
+    res.json(await dataProtectionService.exportGuestData(guestId, req.user!.id));
+  } catch (error) {
+    console.error('Error exporting guest data:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to export guest data' });
+  }
+});
+
+/**
+ * Delete a guest submitter with their submissions and feedback
+ */
+router.delete('/guests/:guestId/data', csrfProtection, async (req, res) => {
+  try {
+    const guestId = parseInt(req.params.guestId);
+
+    if (!guestId || isNaN(guestId)) {
+      return res.status(400).json({ error: 'Invalid guest ID' });
+    }
+
+    await dataProtectionService.deleteGuestData(guestId, req.user!.id);
+
+    res.json({ success: true, deletedGuestId: guestId });
+  } catch (error) {
+    console.error('Error deleting guest data:', error);
+
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+
+    res.status(500).json({ error: 'Failed to delete guest data' });
+  }
+});
+
 /**
  * Get consent management dashboard with optimized pagination
  * ✅ PERFORMANCE OPTIMIZED: Single query with window functions + fixed pagination bug
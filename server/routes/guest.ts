@@ -0,0 +1,95 @@
+/**
+ * Guest Routes
+ *
+ * People who submitted through a shareable link without an account sign in
+ * here with the single-use link emailed to them. The guest is kept in the
+ * session, which unlocks their submission history, a copy of their data and
+ * erasure. Mounted at /api/guest in routes.ts.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { authRateLimiter } from '../middleware/rate-limiter';
+import { requireAuth } from '../middleware/auth';
+import { guestSubmitterService } from '../services/guest-submitter-service';
+import { dataProtectionService } from '../services/data-protection';
+import type { User } from '../../shared/schema';
+
+const router = Router();
+
+const accessLinkSchema = z.object({
+  email: z.string().email()
+});
+
+const sessionSchema = z.object({
+  token: z.string().min(1)
+});
+
+function requireGuestSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.guestSubmitterId) {
+    return res.status(401).json({ message: 'Open the sign-in link from your email to continue' });
+  }
+  next();
+}
+
+// Always accepted, so the form does not reveal which emails have submitted
+router.post('/access-link', authRateLimiter, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = accessLinkSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid email address', errors: result.error.format() });
+  }
+
+  await guestSubmitterService.requestAccessLink(result.data.email);
+  res.status(202).json({ message: 'If that email has submitted work, a sign-in link is on its way' });
+}));
+
+router.post('/session', authRateLimiter, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = sessionSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid sign-in link', errors: result.error.format() });
+  }
+
+  const guest = await guestSubmitterService.signIn(result.data.token);
+  req.session.guestSubmitterId = guest.id;
+  res.json(guest);
+}));
+
+router.get('/me', requireGuestSession, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await guestSubmitterService.getGuest(req.session.guestSubmitterId!));
+}));
+
+// Submissions newest first, with feedback still under review withheld
+router.get('/submissions', requireGuestSession, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await guestSubmitterService.listSubmissions(req.session.guestSubmitterId!));
+}));
+
+router.get('/data-export', requireGuestSession, asyncHandler(async (req: Request, res: Response) => {
+  const guestSubmitterId = req.session.guestSubmitterId!;
+  const exportData = await dataProtectionService.exportGuestData(guestSubmitterId, null);
+
+  res.setHeader('Content-Disposition', `attachment; filename="guest-data-export-${guestSubmitterId}.json"`);
+  res.json(exportData);
+}));
+
+// Erase the guest with their submissions and feedback, then sign them out
+router.delete('/data', requireGuestSession, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  await dataProtectionService.deleteGuestData(req.session.guestSubmitterId!, null);
+  delete req.session.guestSubmitterId;
+  res.json({ message: 'Your submissions and feedback have been deleted' });
+}));
+
+router.post('/sign-out', csrfProtection, (req: Request, res: Response) => {
+  delete req.session.guestSubmitterId;
+  res.json({ message: 'Signed out' });
+});
+
+// Move the signed-in guest's submissions to the current account
+router.post('/merge', requireAuth, requireGuestSession, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const merged = await guestSubmitterService.mergeIntoUser(req.session.guestSubmitterId!, req.user as User);
+  delete req.session.guestSubmitterId;
+  res.json({ merged });
+}));
+
+export default router;
@@ -1,24 +1,23 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { db } from '../db';
-import { submissions, users, courses, assignments, feedback, enrollments, type Submission } from '../../shared/schema';
+import { submissions, users, guestSubmitters, pendingGuestSubmitters, courses, assignments, feedback, enrollments, type Submission } from '../../shared/schema';
 import { eq, count, and, desc, sql, inArray } from 'drizzle-orm';
 import { batchOperations } from '../services/batch-operations';
 import { metricsService } from '../services/metrics-service';
 import { stringify } from 'csv-stringify';
 import { asyncHandler } from '../lib/error-handler';
-import { requireRole } from '../middleware/auth';
+import { requireAssignmentAccess, requireCourseAccess } from '../middleware/auth';
 
 const router = Router();
 
-// Use the flexible role middleware for instructor access (includes admins)
-const requireInstructor = requireRole(['instructor']);
+// Every route is limited to the staff of the course it touches (admins always pass)
 
 // Get student progress for an entire course (optimized for large classes)
-router.get('/students/progress/:courseId', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+router.get('/students/progress/:courseId', requireCourseAccess('view'), asyncHandler(async (req: Request, res: Response) => {
     const courseId = parseInt(req.params.courseId);
 
-    // Validate course exists and instructor has access
+    // Validate course exists
     const course = await storage.getCourse(courseId);
     if (!course) {
       return res.status(404).json({ message: 'Course not found' });
@@ -60,7 +59,7 @@ router.get('/students/progress/:courseId', requireInstructor, asyncHandler(async
 }));
 
 // Bulk enroll students in a course
-router.post('/course/:courseId/enroll-students', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+router.post('/course/:courseId/enroll-students', requireCourseAccess('manage'), asyncHandler(async (req: Request, res: Response) => {
     const courseId = parseInt(req.params.courseId);
     const { studentIds } = req.body;
     
@@ -68,7 +67,7 @@ router.post('/course/:courseId/enroll-students', requireInstructor, asyncHandler
       return res.status(400).json({ message: 'Student IDs must be provided as an array' });
     }
     
-    // Validate course exists and instructor has access
+    // Validate course exists
     const course = await storage.getCourse(courseId);
     if (!course) {
       return res.status(404).json({ message: 'Course not found' });
@@ -87,10 +86,10 @@ router.post('/course/:courseId/enroll-students', requireInstructor, asyncHandler
 }));
 
 // Get all submissions for an assignment with detailed metrics
-router.get('/assignments/:id/submissions', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+router.get('/assignments/:id/submissions', requireAssignmentAccess('view'), asyncHandler(async (req: Request, res: Response) => {
     const assignmentId = parseInt(req.params.id);
     
-    // Validate assignment exists and instructor has access
+    // Validate assignment exists
     const assignment = await storage.getAssignment(assignmentId);
     if (!assignment) {
       return res.status(404).json({ message: 'Assignment not found' });
@@ -103,7 +102,9 @@ router.get('/assignments/:id/submissions', requireInstructor, asyncHandler(async
     const submissionsWithFeedback = await db
       .select()
       .from(submissions)
-      .innerJoin(users, eq(submissions.userId, users.id))
+      .leftJoin(users, eq(submissions.userId, users.id))
+      .leftJoin(guestSubmitters, eq(submissions.guestSubmitterId, guestSubmitters.id)) // Shareable-link submissions
+      .leftJoin(pendingGuestSubmitters, eq(pendingGuestSubmitters.submissionId, submissions.id)) // ...whose email is not confirmed yet
       .leftJoin(feedback, eq(submissions.id, feedback.submissionId)) // LEFT JOIN to include submissions without feedback
       .where(eq(submissions.assignmentId, assignmentId))
       .orderBy(desc(submissions.createdAt));
@@ -117,10 +118,11 @@ router.get('/assignments/:id/submissions', requireInstructor, asyncHandler(async
     // Structure the final response - single pass through data
     const result = submissionsWithFeedback.map(row => ({
       ...row.submissions, // Spread all properties from the submission
-      student: {
-        name: row.users.name,
-        email: row.users.email
-      },
+      student: row.users
+        ? { name: row.users.name, email: row.users.email }
+        : row.guest_submitters
+          ? { name: row.guest_submitters.name, email: row.guest_submitters.email, guest: true }
+          : { name: row.pending_guest_submitters?.name ?? 'Guest', email: row.pending_guest_submitters?.email ?? '', guest: true, emailUnconfirmed: true },
       feedback: row.feedback || null // The feedback object will be present or null
     }));
     
@@ -132,10 +134,10 @@ router.get('/assignments/:id/submissions', requireInstructor, asyncHandler(async
 }));
 
 // Export grades as CSV
-router.get('/export/grades/:courseId', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+router.get('/export/grades/:courseId', requireCourseAccess('view'), asyncHandler(async (req: Request, res: Response) => {
     const courseId = parseInt(req.params.courseId);
     
-    // Validate course exists and instructor has access
+    // Validate course exists
     const course = await storage.getCourse(courseId);
     if (!course) {
       return res.status(404).json({ message: 'Course not found' });
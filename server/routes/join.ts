@@ -0,0 +1,25 @@
+/**
+ * Join Routes
+ *
+ * Students redeem course join codes here, typed in or followed from a
+ * /join/:code link. Mounted at /api/join behind requireAuth in routes.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { courseJoinService } from '../services/course-join-service';
+import type { User } from '../../shared/schema';
+
+const router = Router();
+
+// The course a code joins and the student's standing in it
+router.get('/:code', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await courseJoinService.describeCode(req.params.code, req.user as User));
+}));
+
+router.post('/:code', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await courseJoinService.redeem(req.params.code, req.user as User));
+}));
+
+export default router;
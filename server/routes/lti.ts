@@ -0,0 +1,305 @@
+/**
+ * LTI 1.3 Routes
+ *
+ * Endpoints registered with LMS platforms (login initiation, launch, JWKS),
+ * linking LMS users to existing accounts, the deep linking flow for
+ * instructors and admin management of platform registrations.
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { asc, eq } from 'drizzle-orm';
+import { z } from 'zod';
+import { db } from '../db';
+import { storage } from '../storage';
+import { ltiPlatforms, insertLtiPlatformSchema, submissions, type User } from '../../shared/schema';
+import { asyncHandler, logger } from '../lib/error-handler';
+import { requireAuth, requireRole, requireAssignmentAccess, checkCourseAccess } from '../middleware/auth';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { ltiService, getToolBaseUrl, type LtiDeepLinkContext, type LtiLaunchResult } from '../services/lti/lti-service';
+
+declare module 'express-session' {
+  interface SessionData {
+    ltiDeepLink?: LtiDeepLinkContext;
+    ltiDeepLinkResponse?: { returnUrl: string; jwt: string };
+  }
+}
+
+const router = Router();
+
+const requireAdmin = requireRole(['admin']);
+const requireInstructor = requireRole(['instructor']);
+
+const deepLinkSelectionSchema = z.object({
+  assignmentId: z.number().int().positive()
+});
+
+const accountLinkSchema = z.object({
+  token: z.string().min(1)
+});
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Continue from a launch to a page of the app. The launch is a cross-site
+ * form post, and the SameSite=Strict session cookie used in production is not
+ * sent on a redirect from it; a navigation started by a page on our own
+ * origin is same-site, so the session set during the launch arrives.
+ */
+function sendLaunchInterstitial(res: Response, path: string): void {
+  const nonce = crypto.randomBytes(16).toString('base64');
+  res.setHeader('Content-Security-Policy', `default-src 'none'; script-src 'nonce-${nonce}'`);
+  res.type('html').send(`<!DOCTYPE html>
+<html>
+<head><title>Opening your activity</title></head>
+<body>
+<p><a href="${escapeHtml(path)}">Continue</a></p>
+<script nonce="${nonce}">window.location.replace(${JSON.stringify(path).replace(/</g, '\\u003c')});</script>
+</body>
+</html>`);
+}
+
+/**
+ * Where to send the user after a resource link launch
+ */
+function launchRedirectPath(result: LtiLaunchResult, user: User): string {
+  const isStaff = user.role !== 'student';
+  if (result.assignment) {
+    if (isStaff) return `/instructor/assignment/${result.assignment.id}`;
+    return result.assignment.shareableCode ? `/submit/${result.assignment.shareableCode}` : '/assignments';
+  }
+  if (isStaff) {
+    return result.course ? `/instructor/course/${result.course.id}` : '/instructor/dashboard';
+  }
+  return '/dashboard';
+}
+
+// Tool configuration to enter when registering the tool with a platform
+router.get('/config', (req: Request, res: Response) => {
+  const baseUrl = getToolBaseUrl();
+  res.json({
+    loginUrl: `${baseUrl}/api/lti/login`,
+    launchUrl: `${baseUrl}/api/lti/launch`,
+    deepLinkingUrl: `${baseUrl}/api/lti/launch`,
+    jwksUrl: `${baseUrl}/api/lti/jwks`
+  });
+});
+
+// Public keys platforms use to verify messages signed by the tool
+router.get('/jwks', asyncHandler(async (req: Request, res: Response) => {
+  res.json(await ltiService.getPublicJwks());
+}));
+
+// OIDC third-party login initiation; platforms may use GET or POST
+router.all('/login', asyncHandler(async (req: Request, res: Response) => {
+  const params = req.method === 'POST' ? req.body : req.query;
+  const redirectUrl = await ltiService.initiateLogin({
+    iss: params.iss,
+    login_hint: params.login_hint,
+    target_link_uri: params.target_link_uri,
+    lti_message_hint: params.lti_message_hint,
+    client_id: params.client_id,
+    lti_deployment_id: params.lti_deployment_id
+  });
+  res.redirect(redirectUrl);
+}));
+
+// Launch: the platform posts the signed id_token here
+router.post('/launch', async (req: Request, res: Response) => {
+  let result: LtiLaunchResult;
+  try {
+    const launch = await ltiService.validateLaunch(req.body.id_token, req.body.state);
+    result = await ltiService.provisionLaunch(launch);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.error('LTI launch failed', { error: reason });
+    return res.redirect('/login?error=lti_failed&reason=' + encodeURIComponent(reason));
+  }
+
+  const user = result.user;
+  if (!user) {
+    return sendLaunchInterstitial(res, `/lti/link?token=${encodeURIComponent(result.accountLinkToken!)}`);
+  }
+
+  req.login(user, (err) => {
+    if (err) {
+      logger.error('Session login error after LTI launch', { error: err });
+      return res.redirect('/login?error=lti_failed&reason=session_error');
+    }
+
+    if (result.deepLink) {
+      req.session.ltiDeepLink = result.deepLink;
+      return sendLaunchInterstitial(res, '/instructor/lti/deep-link');
+    }
+    return sendLaunchInterstitial(res, launchRedirectPath(result, user));
+  });
+});
+
+// Account linking: which LMS user the token from a launch stands for
+router.get('/link', asyncHandler(async (req: Request, res: Response) => {
+  const result = accountLinkSchema.safeParse(req.query);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Missing account link token', errors: result.error.format() });
+  }
+  res.json(await ltiService.describeAccountLink(result.data.token));
+}));
+
+// Account linking: the signed-in owner confirms the link to their account
+router.post('/link', requireAuth, csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = accountLinkSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Missing account link token', errors: result.error.format() });
+  }
+  res.json(await ltiService.linkAccount(result.data.token, req.user as User));
+}));
+
+// Deep linking: what the instructor is choosing an assignment for
+router.get('/deep-link', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+  const context = req.session.ltiDeepLink;
+  if (!context) {
+    return res.status(404).json({ message: 'No deep linking request in progress' });
+  }
+
+  const [platform] = await db.select().from(ltiPlatforms).where(eq(ltiPlatforms.id, context.platformId));
+  // Only assignments from courses the instructor teaches can be linked
+  const courseIds = req.user!.role === 'admin' ? undefined : await storage.listStaffCourseIds(req.user!.id);
+  const assignments = (await storage.listAssignments())
+    .filter(assignment => !courseIds || courseIds.includes(assignment.courseId));
+
+  res.json({
+    platformName: platform?.name ?? null,
+    assignments: assignments.map(assignment => ({
+      id: assignment.id,
+      title: assignment.title,
+      courseId: assignment.courseId,
+      dueDate: assignment.dueDate
+    }))
+  });
+}));
+
+// Deep linking: sign the response for the chosen assignment
+router.post('/deep-link', requireInstructor, asyncHandler(async (req: Request, res: Response) => {
+  const context = req.session.ltiDeepLink;
+  if (!context) {
+    return res.status(404).json({ message: 'No deep linking request in progress' });
+  }
+
+  const result = deepLinkSelectionSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid assignment selection', errors: result.error.format() });
+  }
+
+  const assignment = await storage.getAssignment(result.data.assignmentId);
+  if (!assignment) {
+    return res.status(404).json({ message: 'Assignment not found' });
+  }
+  if (!(await checkCourseAccess(req.user!, assignment.courseId, 'manage'))) {
+    return res.status(403).json({ message: 'You can only link assignments from courses you teach' });
+  }
+
+  const jwt = await ltiService.createDeepLinkingResponse(context, assignment);
+  req.session.ltiDeepLink = undefined;
+  req.session.ltiDeepLinkResponse = { returnUrl: context.returnUrl, jwt };
+
+  res.json({ redirectUrl: '/api/lti/deep-link/return' });
+}));
+
+// Deep linking: post the signed response back to the platform. This is a
+// server-rendered page so it can allow a form post to the platform's origin.
+router.get('/deep-link/return', requireInstructor, (req: Request, res: Response) => {
+  const response = req.session.ltiDeepLinkResponse;
+  if (!response) {
+    return res.redirect('/instructor/dashboard');
+  }
+  req.session.ltiDeepLinkResponse = undefined;
+
+  const nonce = crypto.randomBytes(16).toString('base64');
+  const returnOrigin = new URL(response.returnUrl).origin;
+  res.setHeader(
+    'Content-Security-Policy',
+    `default-src 'none'; script-src 'nonce-${nonce}'; form-action ${returnOrigin}`
+  );
+  res.type('html').send(`<!DOCTYPE html>
+<html>
+<head><title>Returning to your LMS</title></head>
+<body>
+<form id="lti-deep-link" method="POST" action="${escapeHtml(response.returnUrl)}">
+<input type="hidden" name="JWT" value="${escapeHtml(response.jwt)}">
+<noscript><button type="submit">Continue</button></noscript>
+</form>
+<script nonce="${nonce}">document.getElementById('lti-deep-link').submit();</script>
+</body>
+</html>`);
+});
+
+// Re-send released scores for an assignment to linked LMS gradebooks
+router.post('/assignments/:id/passback', requireAssignmentAccess('manage'), asyncHandler(async (req: Request, res: Response) => {
+  const assignmentId = parseInt(req.params.id);
+  if (isNaN(assignmentId)) {
+    return res.status(400).json({ message: 'Invalid assignment ID' });
+  }
+
+  const rows = await db.select({ id: submissions.id })
+    .from(submissions)
+    .where(eq(submissions.assignmentId, assignmentId))
+    .orderBy(asc(submissions.createdAt));
+
+  // Oldest first, so each student's latest score is the one the LMS keeps
+  let updated = 0;
+  for (const row of rows) {
+    updated += await ltiService.passbackSubmissionScore(row.id);
+  }
+  res.json({ submissions: rows.length, scoresSent: updated });
+}));
+
+// Platform registrations
+router.get('/platforms', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  res.json(await db.select().from(ltiPlatforms).orderBy(ltiPlatforms.name));
+}));
+
+router.post('/platforms', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const result = insertLtiPlatformSchema.safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid platform registration', errors: result.error.format() });
+  }
+
+  const [platform] = await db.insert(ltiPlatforms)
+    .values({ ...result.data, deploymentId: result.data.deploymentId ?? null, createdBy: req.user!.id })
+    .returning();
+  res.status(201).json(platform);
+}));
+
+router.put('/platforms/:id', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  const result = insertLtiPlatformSchema.partial().safeParse(req.body);
+  if (isNaN(id) || !result.success) {
+    return res.status(400).json({ message: 'Invalid platform registration', errors: result.success ? undefined : result.error.format() });
+  }
+
+  const [platform] = await db.update(ltiPlatforms)
+    .set({ ...result.data, updatedAt: new Date() })
+    .where(eq(ltiPlatforms.id, id))
+    .returning();
+  if (!platform) {
+    return res.status(404).json({ message: 'Platform not found' });
+  }
+  res.json(platform);
+}));
+
+router.delete('/platforms/:id', requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid platform ID' });
+  }
+
+  await db.delete(ltiPlatforms).where(eq(ltiPlatforms.id, id));
+  res.status(204).end();
+}));
+
+export default router;
@@ -0,0 +1,156 @@
+/**
+ * Rubric Template Routes
+ *
+ * Instructor rubric library: save rubrics as templates, revise them as new
+ * versions, clone them into assignments and import/export JSON or CSV.
+ * Mounted behind requireAuth and the instructor role in routes.ts.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../lib/error-handler';
+import { csrfProtection } from '../middleware/csrf-protection';
+import { rubricTemplateService } from '../services/rubric-template-service';
+import { rubricSchema, type Rubric, type User } from '../../shared/schema';
+
+const router = Router();
+
+const scopeSchema = z.enum(['personal', 'course', 'institution']);
+const formatSchema = z.enum(['json', 'csv']);
+
+const templateDetailsSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).nullable().optional(),
+  scope: scopeSchema.default('personal'),
+  courseId: z.number().int().positive().nullable().optional()
+});
+
+const versionQuerySchema = z.object({
+  version: z.coerce.number().int().positive().optional()
+});
+
+function parseId(req: Request, res: Response): number | undefined {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({ message: 'Invalid rubric template ID' });
+    return undefined;
+  }
+  return id;
+}
+
+// Templates the current user can see, optionally filtered by scope or course
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const result = z.object({
+    scope: scopeSchema.optional(),
+    courseId: z.coerce.number().int().positive().optional()
+  }).safeParse(req.query);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid template filter', errors: result.error.format() });
+  }
+
+  res.json(await rubricTemplateService.listTemplates(req.user as User, result.data));
+}));
+
+// Save a rubric as a new template (version 1)
+router.post('/', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = templateDetailsSchema.extend({
+    rubric: rubricSchema,
+    changeNote: z.string().max(500).optional()
+  }).safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid rubric template', errors: result.error.format() });
+  }
+
+  const { rubric, changeNote, ...details } = result.data;
+  res.status(201).json(await rubricTemplateService.createTemplate(req.user as User, details, rubric as Rubric, changeNote));
+}));
+
+// Create a template from an exported JSON or CSV file
+router.post('/import', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const result = templateDetailsSchema.partial({ name: true }).extend({
+    format: formatSchema,
+    content: z.string().min(1).max(1_000_000)
+  }).safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid rubric import', errors: result.error.format() });
+  }
+
+  const { format, content, ...details } = result.data;
+  res.status(201).json(await rubricTemplateService.importTemplate(req.user as User, content, format, details));
+}));
+
+// A template with the rubric of one version (default: latest) and its version history
+router.get('/:id', asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+  const query = versionQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: 'Invalid version', errors: query.error.format() });
+  }
+
+  res.json(await rubricTemplateService.getTemplate(id, req.user as User, query.data.version));
+}));
+
+// Rename a template or change who it is shared with
+router.patch('/:id', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+  const result = templateDetailsSchema.partial().safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid rubric template', errors: result.error.format() });
+  }
+
+  res.json(await rubricTemplateService.updateTemplate(id, req.user as User, result.data));
+}));
+
+router.delete('/:id', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+
+  await rubricTemplateService.deleteTemplate(id, req.user as User);
+  res.status(204).end();
+}));
+
+// Save a revised rubric as the next version
+router.post('/:id/versions', csrfProtection, asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+  const result = z.object({
+    rubric: rubricSchema,
+    changeNote: z.string().max(500).optional()
+  }).safeParse(req.body);
+  if (!result.success) {
+    return res.status(400).json({ message: 'Invalid rubric', errors: result.error.format() });
+  }
+
+  res.status(201).json(await rubricTemplateService.saveVersion(id, req.user as User, result.data.rubric as Rubric, result.data.changeNote));
+}));
+
+// A copy of a version's rubric with fresh criterion IDs, for a new assignment
+router.get('/:id/clone', asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+  const query = versionQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: 'Invalid version', errors: query.error.format() });
+  }
+
+  res.json(await rubricTemplateService.cloneRubric(id, req.user as User, query.data.version));
+}));
+
+// Download a version as a JSON or CSV file
+router.get('/:id/export', asyncHandler(async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === undefined) return;
+  const query = versionQuerySchema.extend({ format: formatSchema.default('json') }).safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: 'Invalid export options', errors: query.error.format() });
+  }
+
+  const file = await rubricTemplateService.exportTemplate(id, req.user as User, query.data.format, query.data.version);
+  res.setHeader('Content-Type', query.data.format === 'json' ? 'application/json' : 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.send(file.body);
+}));
+
+export default router;
@@ -4,6 +4,7 @@
  */
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import type { CriteriaScore, Rubric, RubricPerformanceLevel } from "../../shared/schema";
 
 // Define schema version for tracking/history
 export const SCHEMA_VERSION = "1.0.0";
@@ -12,7 +13,10 @@ export const SCHEMA_VERSION = "1.0.0";
 const CriteriaScoreSchema = z.object({
   criteriaId: z.string(), // Must be string to match shared schema
   score: z.number(),
-  feedback: z.string()
+  feedback: z.string(),
+  // Performance level chosen for a leveled (analytic) criterion, and why
+  level: z.string().optional(),
+  levelJustification: z.string().optional()
 });
 
 // Define the grading schema
@@ -37,4 +41,40 @@ export const gradingJSONSchema = zodToJsonSchema(GradingSchema, {
 
 // Export the types
 export type GradingFeedback = z.infer<typeof GradingSchema>;
-export type CriteriaScoreData = z.infer<typeof CriteriaScoreSchema>;
\ No newline at end of file
+export type CriteriaScoreData = z.infer<typeof CriteriaScoreSchema>;
+
+// The level whose point range contains the score, or the nearest one
+function levelForScore(levels: RubricPerformanceLevel[], score: number): RubricPerformanceLevel {
+  const distance = (level: RubricPerformanceLevel) =>
+    score < level.minScore ? level.minScore - score : score > level.maxScore ? score - level.maxScore : 0;
+  return levels.reduce((best, level) => distance(level) < distance(best) ? level : best);
+}
+
+/**
+ * Check the performance levels chosen for leveled criteria against the
+ * rubric. Level names are matched without regard to case, and a score
+ * outside the chosen level's point range is clamped into it. A missing or
+ * unknown level is replaced by the level the score falls in. Criteria
+ * without levels keep their score and lose any level the model made up.
+ */
+export function applyRubricLevels(criteriaScores: CriteriaScore[] | undefined, rubric?: Rubric): CriteriaScore[] | undefined {
+  if (!criteriaScores || !rubric?.criteria) return criteriaScores;
+
+  return criteriaScores.map(entry => {
+    const levels = rubric.criteria.find(criterion => criterion.id === entry.criteriaId)?.levels;
+    if (!levels || levels.length === 0) {
+      const { level, levelJustification, ...rest } = entry;
+      return rest;
+    }
+
+    const named = typeof entry.level === 'string'
+      ? levels.find(level => level.name.trim().toLowerCase() === entry.level!.trim().toLowerCase())
+      : undefined;
+    const chosen = named || levelForScore(levels, entry.score);
+    return {
+      ...entry,
+      score: Math.min(Math.max(entry.score, chosen.minScore), chosen.maxScore),
+      level: chosen.name
+    };
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * AI model selection
+ *
+ * Resolves which models grade an assignment. The most specific configuration
+ * wins: the assignment's own model chain, then the course default, then the
+ * system default (both kept in systemSettings), and finally every provider
+ * with a configured API key in priority order.
+ */
+
+import { AIModelConfig, Assignment, aiModelConfigSchema } from '../../shared/schema';
+import { storage } from '../storage';
+import { aiAdapterFactory } from '../adapters/adapter-factory';
+import { FallbackAdapter, restrictToPinnedProvider } from '../adapters/fallback-adapter';
+import { AIService } from './ai-service';
+import { GenerationOptions } from '../adapters/interfaces';
+import { aiLogger as logger } from '../lib/logger';
+
+export const SYSTEM_AI_MODEL_KEY = 'aiModel';
+
+export type AIModelSource = 'assignment' | 'course' | 'system' | 'environment';
+
+export interface ResolvedAIModel {
+  config: AIModelConfig;
+  source: AIModelSource;
+}
+
+/**
+ * systemSettings key holding a course's default model chain
+ */
+export function courseAIModelKey(courseId: number): string {
+  return `${SYSTEM_AI_MODEL_KEY}:course:${courseId}`;
+}
+
+/**
+ * Chain used when nothing is configured: every provider with an API key
+ */
+export function getEnvironmentAIModelConfig(): AIModelConfig {
+  const providers = aiAdapterFactory.getConfiguredProviders();
+  const chain = providers.length > 0 ? providers : [aiAdapterFactory.getDefaultProvider()];
+  return { chain: chain.map(provider => ({ provider })) };
+}
+
+/**
+ * Read a model chain stored in systemSettings, ignoring malformed values
+ */
+export async function getStoredAIModelConfig(key: string): Promise<AIModelConfig | null> {
+  const setting = await storage.getSystemSetting(key);
+  if (!setting) return null;
+
+  const result = aiModelConfigSchema.safeParse(setting.value);
+  if (!result.success) {
+    logger.warn('Ignoring invalid AI model setting', { key, error: result.error.message });
+    return null;
+  }
+  return result.data;
+}
+
+/**
+ * Work out which model chain grades the given assignment. Entries outside an
+ * AI_PROVIDER pin are dropped, and a chain with none left is an error.
+ */
+export async function resolveAIModelConfig(
+  assignment?: Pick<Assignment, 'aiModel' | 'courseId'> | null
+): Promise<ResolvedAIModel> {
+  const { config, source } = await findAIModelConfig(assignment);
+  return { config: { ...config, chain: restrictToPinnedProvider(config.chain, choice => choice.provider) }, source };
+}
+
+async function findAIModelConfig(
+  assignment?: Pick<Assignment, 'aiModel' | 'courseId'> | null
+): Promise<ResolvedAIModel> {
+  if (assignment?.aiModel?.chain?.length) {
+    return { config: assignment.aiModel, source: 'assignment' };
+  }
+
+  try {
+    if (assignment?.courseId) {
+      const courseDefault = await getStoredAIModelConfig(courseAIModelKey(assignment.courseId));
+      if (courseDefault) return { config: courseDefault, source: 'course' };
+    }
+
+    const systemDefault = await getStoredAIModelConfig(SYSTEM_AI_MODEL_KEY);
+    if (systemDefault) return { config: systemDefault, source: 'system' };
+  } catch (error) {
+    // A settings lookup failure should not stop grading
+    logger.warn('Failed to load AI model settings, using environment default', {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  return { config: getEnvironmentAIModelConfig(), source: 'environment' };
+}
+
+/**
+ * Create an AIService that grades with the given model chain
+ */
+export function createFallbackAIService(config: AIModelConfig, generationOptions?: GenerationOptions): AIService {
+  return new AIService(new FallbackAdapter(config), generationOptions);
+}
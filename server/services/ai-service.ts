@@ -1,8 +1,11 @@
-import { InsertFeedback, Rubric, CriteriaScore, InstructorContext } from '../../shared/schema';
+import { InsertFeedback, Rubric, RubricCriterion, CriteriaScore, InstructorContext } from '../../shared/schema';
 import { logger } from '../lib/error-handler';
-import { AIAdapter, MultimodalPromptPart } from '../adapters/ai-adapter';
+import { AIAdapter, GenerationOptions, MultimodalPromptPart } from '../adapters/ai-adapter';
 import { processFileForMultimodal } from '../utils/multimodal-processor';
-import { ContentType, determineContentType } from '../utils/file-type-settings';
+import { ContentType, determineContentType, isNotebookFile } from '../utils/file-type-settings';
+import { notebookToPromptParts, parseNotebook } from '../utils/notebook-parser';
+import { buildProjectPromptParts, ProjectFileContent } from '../utils/project-submission';
+import { estimateTokensForText } from '../utils/token-management';
 
 interface SubmissionAnalysisRequest {
   studentSubmissionContent: string;
@@ -25,7 +28,14 @@ interface MultimodalSubmissionAnalysisRequest {
   rubric?: Rubric;
 }
 
-interface FeedbackResponse {
+// Assignment details included in every grading prompt
+type AssignmentPromptContext = Pick<MultimodalSubmissionAnalysisRequest, 'assignmentTitle' | 'assignmentDescription' | 'instructorContext' | 'rubric'>;
+
+interface ProjectSubmissionAnalysisRequest extends AssignmentPromptContext {
+  files: { path: string; fileUrl: string; mimeType: string }[];  // Stored files of the project
+}
+
+export interface FeedbackResponse {
   strengths: string[];
   improvements: string[];
   suggestions: string[];
@@ -38,11 +48,58 @@ interface FeedbackResponse {
   tokenCount: number;
 }
 
+const LEVELED_CRITERIA_INSTRUCTION =
+  "For criteria that list performance levels, you MUST choose exactly one level by its name, give a score within that level's point range, and justify the choice against the level descriptor.";
+
+function hasLeveledCriteria(rubric: Rubric): boolean {
+  return rubric.criteria.some(criterion => (criterion.levels?.length || 0) > 0);
+}
+
+/**
+ * A rubric criterion as listed in the grading prompt, with its performance
+ * levels for analytic criteria
+ */
+function describeCriterion(criterion: RubricCriterion): string {
+  let criterionString = `- Criterion Name: "${criterion.name}" (ID: ${criterion.id})\n`;
+  criterionString += `  Description: "${criterion.description}"\n`;
+  criterionString += `  Maximum Score: ${criterion.maxScore}`;
+  if (criterion.weight) {
+    criterionString += ` (Weight: ${criterion.weight}%)`;
+  }
+  if (criterion.levels && criterion.levels.length > 0) {
+    criterionString += `\n  Performance Levels (choose exactly one):`;
+    criterionString += criterion.levels
+      .map(level => `\n    - "${level.name}" (${level.minScore}-${level.maxScore} points): ${level.description}`)
+      .join("");
+  }
+  return criterionString;
+}
+
+// The criteriaScores entry of the JSON output structure for a rubric
+function criteriaScoresOutputField(rubric: Rubric): string {
+  const levelFields = hasLeveledCriteria(rubric)
+    ? `
+      "level": "Name of the chosen performance level, for criteria that list levels (omit otherwise)",
+      "levelJustification": "Why the submission meets this level's descriptor and not the one above it (string, for criteria that list levels)",`
+    : "";
+  return `"criteriaScores": [
+    // For EACH criterion listed above, include an object like this:
+    {
+      "criteriaId": "ID_of_the_criterion",${levelFields}
+      "score": <numeric_score_for_this_criterion_up_to_its_maxScore>,
+      "feedback": "Specific, detailed feedback for this particular criterion, explaining the rationale for the score and how to improve (string)."
+    }
+    // ... ensure one object per criterion
+  ],`;
+}
+
 export class AIService {
   private adapter: AIAdapter;
+  private generationOptions?: GenerationOptions;
 
-  constructor(adapter: AIAdapter) {
+  constructor(adapter: AIAdapter, generationOptions?: GenerationOptions) {
     this.adapter = adapter;
+    this.generationOptions = generationOptions;
   }
 
   /**
@@ -108,31 +165,15 @@ into your evaluation logic while keeping the actual guidance confidential.`
       if (params.rubric && params.rubric.criteria && params.rubric.criteria?.length > 0) {
         promptSegments.push("\n## Evaluation Rubric:");
         promptSegments.push("You MUST evaluate the student's submission against EACH of the following rubric criteria meticulously. For each criterion, provide specific feedback and a numeric score within the specified range.");
+        if (hasLeveledCriteria(params.rubric)) {
+          promptSegments.push(LEVELED_CRITERIA_INSTRUCTION);
+        }
 
         // Format criteria details
-        let criteriaDetails = params.rubric.criteria.map(criterion => {
-          let criterionString = `- Criterion Name: "${criterion.name}" (ID: ${criterion.id})\n`;
-          criterionString += `  Description: "${criterion.description}"\n`;
-          criterionString += `  Maximum Score: ${criterion.maxScore}`;
-          if (criterion.weight) {
-            criterionString += ` (Weight: ${criterion.weight}%)`;
-          }
-          return criterionString;
-        }).join("\n");
-        promptSegments.push(criteriaDetails);
+        promptSegments.push(params.rubric.criteria.map(describeCriterion).join("\n"));
 
         // Add criteria scores to JSON output structure
-        jsonOutputStructureFields.push(
-          `"criteriaScores": [
-    // For EACH criterion listed above, include an object like this:
-    {
-      "criteriaId": "ID_of_the_criterion",
-      "score": <numeric_score_for_this_criterion_up_to_its_maxScore>,
-      "feedback": "Specific, detailed feedback for this particular criterion, explaining the rationale for the score and how to improve (string)."
-    }
-    // ... ensure one object per criterion
-  ],`
-        );
+        jsonOutputStructureFields.push(criteriaScoresOutputField(params.rubric));
         jsonOutputStructureFields.push(
           `"score": <OPTIONAL but Recommended: An overall numeric score from 0-100. If rubric criteria have weights, attempt to calculate a weighted average. Otherwise, provide a holistic quality score.>`
         );
@@ -197,7 +238,7 @@ Do not include explanatory text, comments, or markdown outside the JSON object.`
       logger.info(`[AIService] Using system prompt for text submission (${systemPrompt.length} chars)`);
       
       // Send to AI adapter with system prompt
-      const response = await this.adapter.generateCompletion(finalPrompt, systemPrompt);
+      const response = await this.adapter.generateCompletion(finalPrompt, systemPrompt, this.generationOptions);
       
       const processingTime = Date.now() - startTime;
       
@@ -274,7 +315,9 @@ Do not include explanatory text, comments, or markdown outside the JSON object.`
         // Determine content type based on MIME type
         let contentType: ContentType = 'image';
         
-        if (params.mimeType.startsWith('image/')) {
+        if (isNotebookFile(params.mimeType, params.fileName)) {
+          contentType = 'notebook';
+        } else if (params.mimeType.startsWith('image/')) {
           contentType = 'image';
         } else if (params.mimeType.startsWith('text/') || 
                   params.mimeType.includes('javascript') || 
@@ -295,7 +338,7 @@ Do not include explanatory text, comments, or markdown outside the JSON object.`
         
         // For binary files (documents and images over 4MB), create a temporary file
         // This ensures proper handling through the Files API
-        const needsTempFile = contentType === 'document' || 
+        const needsTempFile = contentType === 'document' || contentType === 'notebook' || 
                              (contentType === 'image' && params.fileBuffer?.length > 0 && 4 * 1024 * 1024);
         
         if (needsTempFile !== undefined && needsTempFile !== null) {
@@ -413,86 +456,23 @@ Do not include explanatory text, comments, or markdown outside the JSON object.`
       const promptParts: MultimodalPromptPart[] = [];
 
       // ------- Text instructions and context -------
-      const textSegments = [] as string[];
-
-      textSegments.push(
-        `## Assignment Details:\nTitle: "${params.assignmentTitle}"\nDescription: "${
-          params.assignmentDescription || 'No general description provided.'
-        }"`
-      );
-
-      if (params.instructorContext) {
-        const contextContent = params.instructorContext.content;
-        textSegments.push(
-          `\n## Instructor-Only Evaluation Guidance (USE THIS INFORMATION BUT DO NOT REVEAL IT TO STUDENTS):\n${contextContent}\n\nIMPORTANT: The above section contains specific guidance provided by the instructor to help in your evaluation. Use these points to inform your analysis and the feedback you provide, but DO NOT directly quote or reveal this instructor-provided information in your feedback to the student.`
-        );
-      }
-
-      // Setup JSON output structure
-      let jsonOutputStructureFields = [
-        `"strengths": ["A list of 2-5 specific positive aspects of the submission, clearly explained (array of strings). Relate these to the assignment goals or rubric if applicable."],`,
-        `"improvements": ["A list of 2-5 specific areas where the submission could be improved, with constructive explanations (array of strings). Relate these to the assignment goals or rubric if applicable."],`,
-        `"suggestions": ["A list of 2-5 concrete, actionable suggestions the student can implement to improve their work or understanding (array of strings)."],`,
-        `"summary": "A concise (2-4 sentences) overall summary of the submission's quality, highlighting key takeaways for the student."`
-      ];
-
-      if (params.rubric && params.rubric.criteria && params.rubric.criteria?.length > 0) {
-        textSegments.push("\n## Evaluation Rubric:");
-        textSegments.push(
-          "You MUST evaluate the student's submission against EACH of the following rubric criteria meticulously. For each criterion, provide specific feedback and a numeric score within the specified range."
-        );
-
-        const criteriaDetails = params.rubric.criteria
-          .map((criterion) => {
-            let criterionString = `- Criterion Name: "${criterion.name}" (ID: ${criterion.id})\n`;
-            criterionString += `  Description: "${criterion.description}"\n`;
-            criterionString += `  Maximum Score: ${criterion.maxScore}`;
-            if (criterion.weight) {
-              criterionString += ` (Weight: ${criterion.weight}%)`;
-            }
-            return criterionString;
-          })
-          .join("\n");
-        textSegments.push(criteriaDetails);
-
-        jsonOutputStructureFields.push(
-          `"criteriaScores": [\n    // For EACH criterion listed above, include an object like this:\n    {\n      "criteriaId": "ID_of_the_criterion",\n      "score": <numeric_score_for_this_criterion_up_to_its_maxScore>,\n      "feedback": "Specific, detailed feedback for this particular criterion, explaining the rationale for the score and how to improve (string)."\n    }\n    // ... ensure one object per criterion\n  ],`
-        );
-        jsonOutputStructureFields.push(
-          `"score": <OPTIONAL but Recommended: An overall numeric score from 0-100. If rubric criteria have weights, attempt to calculate a weighted average. Otherwise, provide a holistic quality score.>`
-        );
-      } else {
-        textSegments.push(
-          `\n## General Evaluation Focus (No specific rubric provided):\nPlease analyze the submission for:\n1.  Clarity, coherence, and organization of the content.\n2.  Fulfillment of the assignment requirements as per the description.\n3.  Identification of strengths and positive aspects.\n4.  Areas that could be improved, with constructive explanations.\n5.  Actionable suggestions for the student.\n6.  If the submission appears to be code or involves technical problem-solving, also consider aspects like correctness, efficiency (if discernible), and clarity/documentation.`
-        );
-        jsonOutputStructureFields.push(
-          `"criteriaScores": [] // Empty array as no specific rubric criteria were provided for itemized scoring.`
-        );
-        jsonOutputStructureFields.push(
-          `"score": <A numeric score from 0-100 representing the overall quality based on the general evaluation focus above.>`
-        );
-      }
-
-      textSegments.push(
-        `\n## JSON Output Structure:\nYour response MUST be a single, valid JSON object adhering to the following structure. Ensure all string values are properly escaped within the JSON.\n{\n  ${jsonOutputStructureFields.join("\n  ")}\n}`
-      );
-
-      textSegments.push(
-        "\nProvide your feedback now as a single, valid JSON object:"
-      );
-
-      const finalPromptText = textSegments.join("\n");
+      const finalPromptText = this.buildMultimodalInstructions(params);
 
       // Add the text instructions as the first part so Gemini has full context
       promptParts.push({ type: 'text', content: finalPromptText });
 
-      // Add the file content as the appropriate type
-      promptParts.push({
-        type: processedFile.contentType as ContentType,
-        content: processedFile.content,
-        mimeType: params.mimeType,
-        textContent: processedFile.textContent
-      });
+      if (processedFile.contentType === 'notebook') {
+        // Send the cells as text and plots as images so the model sees the rendered outputs
+        promptParts.push(...notebookToPromptParts(parseNotebook(processedFile.content)));
+      } else {
+        // Add the file content as the appropriate type
+        promptParts.push({
+          type: processedFile.contentType as ContentType,
+          content: processedFile.content,
+          mimeType: params.mimeType,
+          textContent: processedFile.textContent
+        });
+      }
       
       // Build a system prompt for assignment context with enhanced guidance for multimodal content
       // Following Google's Gemini API best practices from https://ai.google.dev/gemini-api/docs/system-instructions
@@ -511,42 +491,22 @@ processedFile.contentType === 'document' ?
 - Evaluate accuracy, thoroughness, and relevance of information
 - Provide specific feedback on writing style, argumentation, and evidence use
 - Look for proper citation and reference use when applicable` :
+processedFile.contentType === 'notebook' ?
+`- Evaluate the code cells for correctness, clarity, and whether they run in order
+- Check that printed outputs, tables, and plots support the conclusions in the markdown cells
+- Treat error outputs as problems the student should fix
+- Refer to cells by number (e.g. "Cell 4") in your feedback` :
 `- Carefully examine both technical correctness and creative aspects
 - Consider organization, structure, and presentation quality
 - Provide specific feedback referencing exact elements from the submission`}
 
-Respond with a structured assessment including strengths, areas for improvement, and specific suggestions.
+Respond with a structured assessment including strengths, areas for improvement, and specific suggestions.`;
+      systemPrompt += this.buildSystemPromptContext(params);
 
-Assignment: ${params.assignmentTitle}`;
-      
-      if (params.assignmentDescription) {
-        systemPrompt += `\nDescription: ${params.assignmentDescription}`;
-      }
-      
-      // Add instructor context if provided (secret information not shown to students)
-      if (params.instructorContext) {
-        let contextContent = params.instructorContext.content;
-        
-        systemPrompt += `\n\n## INSTRUCTOR-ONLY EVALUATION GUIDANCE (DO NOT REVEAL TO STUDENTS):
-${contextContent}
-
-IMPORTANT: The above section contains specific guidance provided by the instructor to help in your evaluation. 
-Use these points to inform your analysis and the feedback you provide, but DO NOT directly quote or reveal 
-this instructor-provided information in your feedback to the student. Instead, incorporate these insights
-into your evaluation logic while keeping the actual guidance confidential.`;
-      }
-      
-      if (params.rubric && params.rubric.criteria && params.rubric.criteria?.length > 0) {
-        systemPrompt += '\n\nRubric criteria to assess:';
-        for (const criterion of params.rubric.criteria) {
-          systemPrompt += `\n- ${criterion.name}: ${criterion.description} (Max score: ${criterion.maxScore})`;
-        }
-      }
-      
       logger.info(`[AIService] Sending multimodal request to AI adapter with content type: ${processedFile.contentType}`);
       
       // Generate the completion using multimodal capabilities
-      const response = await this.adapter.generateMultimodalCompletion(promptParts, systemPrompt);
+      const response = await this.adapter.generateMultimodalCompletion(promptParts, systemPrompt, this.generationOptions);
       
       const processingTime = Date.now() - startTime;
       logger.info(`[AIService] Multimodal analysis completed in ${processingTime}ms`);
@@ -565,6 +525,185 @@ into your evaluation logic while keeping the actual guidance confidential.`;
     }
   }
 
+  /**
+   * Analyze a multi-file or ZIP project. The model sees the project's file
+   * tree and every readable file labelled with its path.
+   */
+  async analyzeProjectSubmission(params: ProjectSubmissionAnalysisRequest): Promise<FeedbackResponse> {
+    const startTime = Date.now();
+
+    try {
+      logger.info(`[AIService] Analyzing project submission with ${params.files.length} files`);
+
+      const files: ProjectFileContent[] = [];
+      for (const file of params.files) {
+        try {
+          const processedFile = await processFileForMultimodal(file.fileUrl, file.path, file.mimeType);
+          files.push({ path: file.path, ...processedFile });
+        } catch (error: unknown) {
+          // One unreadable file should not stop the rest of the project being graded
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          logger.warn(`[AIService] Could not read project file ${file.path}: ${errorMessage}`);
+          files.push({ path: file.path, contentType: determineContentType(file.mimeType, file.path), mimeType: file.mimeType, content: '' });
+        }
+      }
+
+      const instructions = this.buildMultimodalInstructions(params);
+      // The adapter's model is not known here, so files are budgeted for the default context size
+      const projectParts = buildProjectPromptParts(files, '', estimateTokensForText(instructions));
+
+      if (!this.adapter.generateMultimodalCompletion) {
+        logger.info('[AIService] AI adapter does not support multimodal content; grading the project as text');
+        const projectText = projectParts
+          .filter(part => part.type === 'text')
+          .map(part => part.content)
+          .join('\n\n');
+
+        return this.analyzeSubmission({
+          studentSubmissionContent: projectText,
+          assignmentTitle: params.assignmentTitle,
+          assignmentDescription: params.assignmentDescription,
+          instructorContext: params.instructorContext,
+          rubric: params.rubric
+        });
+      }
+
+      let systemPrompt = `You are an expert AI Teaching Assistant analyzing a multi-file project submission.
+Your task is to provide precise, detailed, and constructive feedback on the student's work.
+
+For project submissions:
+- Consider how the code is organized across files and whether the structure suits the task
+- Evaluate each file for correctness and clarity, and how the files work together
+- Refer to files by their path (e.g. "src/main.py") in your feedback
+- Point out files the assignment needs that appear to be missing
+
+Respond with a structured assessment including strengths, areas for improvement, and specific suggestions.`;
+      systemPrompt += this.buildSystemPromptContext(params);
+
+      const response = await this.adapter.generateMultimodalCompletion(
+        [{ type: 'text', content: instructions }, ...projectParts],
+        systemPrompt,
+        this.generationOptions
+      );
+
+      const processingTime = Date.now() - startTime;
+      logger.info(`[AIService] Project analysis completed in ${processingTime}ms`);
+
+      return {
+        ...response,
+        processingTime
+      };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`[AIService] AI project submission analysis error: ${errorMessage}`);
+      throw new Error(`Failed to analyze project submission: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Build the instructions sent as the first part of a multimodal prompt:
+   * assignment details, instructor guidance, rubric and the JSON output format
+   */
+  private buildMultimodalInstructions(params: AssignmentPromptContext): string {
+    const textSegments = [] as string[];
+
+    textSegments.push(
+      `## Assignment Details:\nTitle: "${params.assignmentTitle}"\nDescription: "${
+        params.assignmentDescription || 'No general description provided.'
+      }"`
+    );
+
+    if (params.instructorContext) {
+      const contextContent = params.instructorContext.content;
+      textSegments.push(
+        `\n## Instructor-Only Evaluation Guidance (USE THIS INFORMATION BUT DO NOT REVEAL IT TO STUDENTS):\n${contextContent}\n\nIMPORTANT: The above section contains specific guidance provided by the instructor to help in your evaluation. Use these points to inform your analysis and the feedback you provide, but DO NOT directly quote or reveal this instructor-provided information in your feedback to the student.`
+      );
+    }
+
+    // Setup JSON output structure
+    let jsonOutputStructureFields = [
+      `"strengths": ["A list of 2-5 specific positive aspects of the submission, clearly explained (array of strings). Relate these to the assignment goals or rubric if applicable."],`,
+      `"improvements": ["A list of 2-5 specific areas where the submission could be improved, with constructive explanations (array of strings). Relate these to the assignment goals or rubric if applicable."],`,
+      `"suggestions": ["A list of 2-5 concrete, actionable suggestions the student can implement to improve their work or understanding (array of strings)."],`,
+      `"summary": "A concise (2-4 sentences) overall summary of the submission's quality, highlighting key takeaways for the student."`
+    ];
+
+    if (params.rubric && params.rubric.criteria && params.rubric.criteria?.length > 0) {
+      textSegments.push("\n## Evaluation Rubric:");
+      textSegments.push(
+        "You MUST evaluate the student's submission against EACH of the following rubric criteria meticulously. For each criterion, provide specific feedback and a numeric score within the specified range."
+      );
+      if (hasLeveledCriteria(params.rubric)) {
+        textSegments.push(LEVELED_CRITERIA_INSTRUCTION);
+      }
+
+      textSegments.push(params.rubric.criteria.map(describeCriterion).join("\n"));
+
+      jsonOutputStructureFields.push(criteriaScoresOutputField(params.rubric));
+      jsonOutputStructureFields.push(
+        `"score": <OPTIONAL but Recommended: An overall numeric score from 0-100. If rubric criteria have weights, attempt to calculate a weighted average. Otherwise, provide a holistic quality score.>`
+      );
+    } else {
+      textSegments.push(
+        `\n## General Evaluation Focus (No specific rubric provided):\nPlease analyze the submission for:\n1.  Clarity, coherence, and organization of the content.\n2.  Fulfillment of the assignment requirements as per the description.\n3.  Identification of strengths and positive aspects.\n4.  Areas that could be improved, with constructive explanations.\n5.  Actionable suggestions for the student.\n6.  If the submission appears to be code or involves technical problem-solving, also consider aspects like correctness, efficiency (if discernible), and clarity/documentation.`
+      );
+      jsonOutputStructureFields.push(
+        `"criteriaScores": [] // Empty array as no specific rubric criteria were provided for itemized scoring.`
+      );
+      jsonOutputStructureFields.push(
+        `"score": <A numeric score from 0-100 representing the overall quality based on the general evaluation focus above.>`
+      );
+    }
+
+    textSegments.push(
+      `\n## JSON Output Structure:\nYour response MUST be a single, valid JSON object adhering to the following structure. Ensure all string values are properly escaped within the JSON.\n{\n  ${jsonOutputStructureFields.join("\n  ")}\n}`
+    );
+
+    textSegments.push(
+      "\nProvide your feedback now as a single, valid JSON object:"
+    );
+
+    return textSegments.join("\n");
+  }
+
+  /**
+   * Assignment, instructor guidance and rubric section of a multimodal system prompt
+   */
+  private buildSystemPromptContext(params: AssignmentPromptContext): string {
+    let systemPrompt = `\n\nAssignment: ${params.assignmentTitle}`;
+    
+    if (params.assignmentDescription) {
+      systemPrompt += `\nDescription: ${params.assignmentDescription}`;
+    }
+    
+    // Add instructor context if provided (secret information not shown to students)
+    if (params.instructorContext) {
+      let contextContent = params.instructorContext.content;
+      
+      systemPrompt += `\n\n## INSTRUCTOR-ONLY EVALUATION GUIDANCE (DO NOT REVEAL TO STUDENTS):
+${contextContent}
+
+IMPORTANT: The above section contains specific guidance provided by the instructor to help in your evaluation. 
+Use these points to inform your analysis and the feedback you provide, but DO NOT directly quote or reveal 
+this instructor-provided information in your feedback to the student. Instead, incorporate these insights
+into your evaluation logic while keeping the actual guidance confidential.`;
+    }
+    
+    if (params.rubric && params.rubric.criteria && params.rubric.criteria?.length > 0) {
+      systemPrompt += '\n\nRubric criteria to assess:';
+      for (const criterion of params.rubric.criteria) {
+        systemPrompt += `\n- ${criterion.name}: ${criterion.description} (Max score: ${criterion.maxScore})`;
+        if (criterion.levels && criterion.levels.length > 0) {
+          systemPrompt += `; levels: ${criterion.levels.map(level => `${level.name} (${level.minScore}-${level.maxScore})`).join(', ')}`;
+        }
+      }
+      if (hasLeveledCriteria(params.rubric)) {
+        systemPrompt += `\n${LEVELED_CRITERIA_INSTRUCTION}`;
+      }
+    }
+    return systemPrompt;
+  }
+
   async prepareFeedbackForStorage(submissionId: number, feedback: FeedbackResponse): Promise<InsertFeedback> {
     return {
       submissionId,
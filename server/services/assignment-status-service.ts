@@ -1,6 +1,7 @@
 import { db } from "../db";
-import { assignments } from "../../shared/schema";
+import { assignments, type Assignment } from "../../shared/schema";
 import { eq, and, or, lte, gte } from "drizzle-orm";
+import { inboxService } from "./notifications/inbox-service";
 
 export class AssignmentStatusService {
   /**
@@ -109,6 +110,7 @@ export class AssignmentStatusService {
                 updatedAt: new Date()
               })
               .where(eq(assignments.id, assignment.id));
+            await this.notifyStatusChange(assignment, currentStatus, calculatedStatus);
           }
         }
       }
@@ -156,6 +158,10 @@ export class AssignmentStatusService {
         .where(eq(assignments.id, assignmentId));
       
       console.log(`[ASSIGNMENT-STATUS] Updated assignment ${assignmentId} from ${assignment.status} to ${calculatedStatus}`);
+
+      if (assignment.status !== calculatedStatus) {
+        await this.notifyStatusChange(assignment, assignment.status, calculatedStatus);
+      }
       
       return {
         updated: true,
@@ -168,6 +174,22 @@ export class AssignmentStatusService {
     }
   }
 
+  /**
+   * Put a status change in the inbox of the course instructors and students.
+   * A failure is logged and does not stop the status update.
+   */
+  private static async notifyStatusChange(
+    assignment: Assignment,
+    oldStatus: string,
+    newStatus: string
+  ): Promise<void> {
+    try {
+      await inboxService.notifyAssignmentStatusChange(assignment, oldStatus, newStatus);
+    } catch (error) {
+      console.error(`[ASSIGNMENT-STATUS] Failed to notify about assignment ${assignment.id}:`, error);
+    }
+  }
+
   /**
    * Get assignments grouped by their effective status (calculated from dates)
    */
@@ -0,0 +1,605 @@
+/**
+ * Autograder service
+ *
+ * Runs an assignment's hidden test suite against a submission and turns the
+ * outcome into a deterministic score for one rubric criterion. The
+ * student's code and the tests run in two separate sandboxed processes: a
+ * host that loads the submission, and a runner that executes the tests and
+ * reaches the submission only through requests relayed over a pipe (see
+ * autograder-harness.ts). The runner alone reports results, so code in the
+ * submission cannot fake them.
+ *
+ * Each process gets its own user, mount, PID, network and IPC namespaces
+ * (util-linux unshare), no capabilities and no network. The root file system
+ * is read-only, and the temporary directories (which hold every upload), the
+ * home directory and the server's directory are hidden. Only the process's
+ * own working directory is writable. It gets a minimal environment, CPU,
+ * memory and file-size limits, and is killed with its whole process group
+ * when the wall-clock timeout expires. Set AUTOGRADER_UID and AUTOGRADER_GID
+ * to also run both as a separate account.
+ */
+
+import { spawn, spawnSync, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import type { Socket } from 'net';
+import os from 'os';
+import path from 'path';
+import { storage } from '../storage';
+import { processFileForMultimodal } from '../utils/multimodal-processor';
+import { PYTHON_HOST, PYTHON_RUNNER, JAVASCRIPT_HOST, JAVASCRIPT_RUNNER } from '../utils/autograder-harness';
+import { logger } from '../lib/logger';
+import type {
+  AutograderConfig,
+  AutograderResult,
+  CriteriaScore,
+  InstructorContext,
+  Rubric,
+  RubricCriterion,
+  Submission,
+  TestCaseResult
+} from '../../shared/schema';
+
+export const DEFAULT_AUTOGRADER_TIMEOUT_SECONDS = 30;
+const MEMORY_LIMIT_MB = 512;
+const MAX_FILE_SIZE_KB = 10 * 1024;
+const MAX_OUTPUT_BYTES = 64 * 1024;
+const MAX_RESULTS_BYTES = 1024 * 1024;
+const MAX_STORED_OUTPUT_CHARS = 4000;
+const MAX_TESTS = 500;
+
+interface LanguageRuntime {
+  extension: string;
+  command: () => string;
+  // Arguments that run a harness script
+  args: (script: string) => string[];
+  host: string;
+  runner: string;
+  limitVirtualMemory: boolean;
+}
+
+const RUNTIMES: Record<AutograderConfig['language'], LanguageRuntime> = {
+  python: {
+    extension: '.py',
+    command: () => process.env.AUTOGRADER_PYTHON || 'python3',
+    args: script => ['-I', '-B', '-c', script],
+    host: PYTHON_HOST,
+    runner: PYTHON_RUNNER,
+    limitVirtualMemory: true
+  },
+  javascript: {
+    extension: '.js',
+    command: () => process.execPath,
+    // V8 reserves far more address space than it uses, so Node is capped by heap size instead of ulimit -v
+    args: script => [`--max-old-space-size=${MEMORY_LIMIT_MB}`, '-e', script],
+    host: JAVASCRIPT_HOST,
+    runner: JAVASCRIPT_RUNNER,
+    limitVirtualMemory: false
+  }
+};
+
+// New namespaces for the child: it is root only inside its own user namespace
+const UNSHARE_ARGS = ['--user', '--map-root-user', '--mount', '--net', '--pid', '--ipc', '--uts', '--fork', '--mount-proc', '--kill-child'];
+
+/**
+ * Runs inside the namespaces as
+ * `sh -c SANDBOX_SCRIPT sandbox <workDir> <hiddenDir...> -- <command...>`:
+ * covers each hidden directory with an empty file system, keeps the working
+ * directory writable even when it lies inside one, makes every other mount
+ * read-only, then drops all capabilities so none of this can be undone
+ */
+const SANDBOX_SCRIPT = `
+set -e
+work="$1"
+shift
+# Holds on to the working directory while its parents are hidden
+cd "$work"
+while [ "$1" != "--" ]; do
+  # Skipped when the account running the tests cannot reach it anyway
+  if [ -d "$1" ]; then
+    mount -t tmpfs -o size=64k,mode=0755 autograder-hidden "$1"
+  fi
+  shift
+done
+shift
+mkdir -p "$work"
+mount --no-canonicalize --bind . "$work"
+for target in $(awk '{ print $5 }' /proc/self/mountinfo); do
+  case "$target" in
+    "$work"|/proc|/proc/*) ;;
+    # Mounts under a hidden directory can no longer be reached
+    *) mount -o remount,bind,ro "$target" || [ ! -e "$target" ] ;;
+  esac
+done
+# Re-enter the working directory through its writable bind mount
+cd "$work"
+exec setpriv --no-new-privs --inh-caps=-all --ambient-caps=-all --bounding-set=-all -- "$@"
+`;
+
+let sandboxAvailable: boolean | undefined;
+
+/**
+ * Whether this host can create the namespaces the sandbox needs. Without
+ * them the autograder refuses to run code.
+ */
+export function isSandboxAvailable(): boolean {
+  if (sandboxAvailable === undefined) {
+    const probe = spawnSync('unshare', [...UNSHARE_ARGS, 'setpriv', '--no-new-privs', '--', 'true'], {
+      stdio: 'ignore',
+      timeout: 10000
+    });
+    sandboxAvailable = probe.status === 0;
+  }
+  return sandboxAvailable;
+}
+
+/**
+ * The separate account to run tests as, from AUTOGRADER_UID / AUTOGRADER_GID
+ */
+function sandboxAccount(): { uid: number; gid: number } | undefined {
+  const uid = Number.parseInt(process.env.AUTOGRADER_UID || '', 10);
+  if (Number.isNaN(uid)) return undefined;
+  const gid = Number.parseInt(process.env.AUTOGRADER_GID || '', 10);
+  return { uid, gid: Number.isNaN(gid) ? uid : gid };
+}
+
+/**
+ * Hand the working directory to the account the tests run as
+ */
+async function chownTree(dir: string, uid: number, gid: number): Promise<void> {
+  await fs.promises.chown(dir, uid, gid);
+  for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await chownTree(entryPath, uid, gid);
+    } else {
+      await fs.promises.chown(entryPath, uid, gid);
+    }
+  }
+}
+
+/**
+ * Directories hidden from sandboxed code: temporary directories hold other
+ * students' uploads, and the home and server directories hold credentials
+ */
+function hiddenDirectories(): string[] {
+  const candidates = [os.tmpdir(), '/tmp', '/var/tmp', '/dev/shm', '/run/secrets', os.homedir(), process.cwd()];
+  return Array.from(new Set(candidates.filter(dir => dir && dir !== path.parse(dir).root)));
+}
+
+interface SandboxedProcess {
+  child: ChildProcess;
+  exited: Promise<number | null>;
+  kill: () => void;
+}
+
+/**
+ * Start a command in the sandbox with resource limits. `input` is written
+ * to its stdin; file descriptors 3 up to `channels` are extra pipes.
+ */
+function startSandboxed(
+  command: string,
+  args: string[],
+  options: { cwd: string; env: NodeJS.ProcessEnv; input: string; cpuSeconds: number; limitVirtualMemory: boolean; channels: number },
+  collectOutput: (chunk: Buffer) => void
+): SandboxedProcess {
+  const limits = [
+    `ulimit -t ${options.cpuSeconds}`,
+    `ulimit -f ${MAX_FILE_SIZE_KB * 2}`,
+    'ulimit -c 0',
+    ...(options.limitVirtualMemory ? [`ulimit -v ${MEMORY_LIMIT_MB * 1024}`] : [])
+  ].join(' && ');
+  const account = sandboxAccount();
+
+  const child = spawn('unshare', [
+    ...UNSHARE_ARGS,
+    '/bin/sh', '-c', `${limits}\n${SANDBOX_SCRIPT}`, 'sandbox',
+    options.cwd, ...hiddenDirectories(), '--',
+    command, ...args
+  ], {
+    cwd: options.cwd,
+    env: options.env,
+    stdio: Array.from({ length: options.channels + 1 }, () => 'pipe' as const),
+    detached: true,
+    ...(account || {})
+  });
+
+  // The child may exit before reading its input
+  child.stdin!.on('error', () => undefined);
+  child.stdin!.end(options.input);
+  child.stdout!.on('data', collectOutput);
+  child.stderr!.on('data', collectOutput);
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  return {
+    child,
+    exited,
+    kill: () => {
+      try {
+        // Negative PID signals the whole process group, including anything it spawned
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }
+  };
+}
+
+interface SandboxOutcome {
+  exitCode: number | null;
+  timedOut: boolean;
+  output: string;
+  results: string;
+}
+
+/**
+ * Run the test runner against a submission host, relaying requests between
+ * them, until the runner exits or the wall-clock timeout expires. Whatever
+ * the runner writes to file descriptor 3 is returned as `results`.
+ */
+async function runSandboxed(
+  runtime: LanguageRuntime,
+  options: { workDir: string; runnerDir: string; input: string; timeoutMs: number }
+): Promise<SandboxOutcome> {
+  const chunks: Buffer[] = [];
+  let outputBytes = 0;
+  const collectOutput = (chunk: Buffer) => {
+    if (outputBytes >= MAX_OUTPUT_BYTES) return;
+    chunks.push(chunk.subarray(0, MAX_OUTPUT_BYTES - outputBytes));
+    outputBytes += chunk.length;
+  };
+  const environment = (dir: string): NodeJS.ProcessEnv => ({
+    PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+    HOME: dir,
+    TMPDIR: dir,
+    LANG: 'C.UTF-8',
+    PYTHONDONTWRITEBYTECODE: '1'
+  });
+  const shared = {
+    cpuSeconds: Math.ceil(options.timeoutMs / 1000) + 1,
+    limitVirtualMemory: runtime.limitVirtualMemory
+  };
+
+  const host = startSandboxed(runtime.command(), runtime.args(runtime.host), {
+    ...shared, cwd: options.workDir, env: environment(options.workDir), input: '', channels: 3
+  }, collectOutput);
+  const runner = startSandboxed(runtime.command(), runtime.args(runtime.runner), {
+    ...shared, cwd: options.runnerDir, env: environment(options.runnerDir), input: options.input, channels: 4
+  }, collectOutput);
+
+  // Either side closing its end tells the other that the conversation is over
+  const hostChannel = host.child.stdio[3] as Socket;
+  const runnerChannel = runner.child.stdio[4] as Socket;
+  hostChannel.on('error', () => undefined);
+  runnerChannel.on('error', () => undefined);
+  runnerChannel.pipe(hostChannel);
+  hostChannel.pipe(runnerChannel);
+
+  const resultChunks: Buffer[] = [];
+  let resultBytes = 0;
+  (runner.child.stdio[3] as NodeJS.ReadableStream).on('data', (chunk: Buffer) => {
+    if (resultBytes >= MAX_RESULTS_BYTES) return;
+    resultChunks.push(chunk.subarray(0, MAX_RESULTS_BYTES - resultBytes));
+    resultBytes += chunk.length;
+  });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    runner.kill();
+    host.kill();
+  }, options.timeoutMs);
+
+  try {
+    const exitCode = await runner.exited;
+    // The host has nothing left to do once the runner is finished
+    host.kill();
+    await host.exited;
+    return {
+      exitCode,
+      timedOut,
+      output: Buffer.concat(chunks).toString('utf8'),
+      results: Buffer.concat(resultChunks).toString('utf8')
+    };
+  } finally {
+    clearTimeout(timer);
+    runner.kill();
+    host.kill();
+  }
+}
+
+/**
+ * Names the tests can import the submission's Python modules by: its
+ * top-level source files and directories
+ */
+async function submissionModules(workDir: string): Promise<string[]> {
+  const entries = await fs.promises.readdir(workDir, { withFileTypes: true });
+  return entries.flatMap(entry => {
+    const name = entry.isDirectory() ? entry.name : path.basename(entry.name, '.py');
+    const isModule = entry.isDirectory() || entry.name.endsWith('.py');
+    return isModule && /^[A-Za-z_]\w*$/.test(name) ? [name] : [];
+  });
+}
+
+function truncateOutput(output: string): string | undefined {
+  const trimmed = output.trim();
+  if (!trimmed) return undefined;
+  return trimmed.length > MAX_STORED_OUTPUT_CHARS
+    ? `${trimmed.slice(0, MAX_STORED_OUTPUT_CHARS)}\n[output truncated]`
+    : trimmed;
+}
+
+/**
+ * The runner's results message, or undefined when it wrote none
+ */
+function readResultsMessage(results: string): unknown {
+  const line = results.split('\n').find(candidate => candidate.trim());
+  if (!line) return undefined;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return { error: 'Test run reported unreadable results' };
+  }
+}
+
+function parseTestResults(raw: unknown): TestCaseResult[] {
+  const tests = raw && typeof raw === 'object' && Array.isArray((raw as { tests?: unknown }).tests)
+    ? (raw as { tests: unknown[] }).tests
+    : [];
+
+  return tests.slice(0, MAX_TESTS).flatMap(test => {
+    if (!test || typeof test !== 'object') return [];
+    const { name, passed, message, durationMs } = test as Record<string, unknown>;
+    return [{
+      name: String(name),
+      passed: passed === true,
+      ...(typeof message === 'string' ? { message } : {}),
+      ...(typeof durationMs === 'number' ? { durationMs } : {})
+    }];
+  });
+}
+
+/**
+ * Turn a finished run into the result stored with the feedback
+ */
+function summarizeRun(outcome: SandboxOutcome, timeoutMs: number, durationMs: number): AutograderResult {
+  const output = truncateOutput(outcome.output);
+  const raw = readResultsMessage(outcome.results);
+
+  const tests = parseTestResults(raw);
+  const passed = tests.filter(test => test.passed).length;
+  const base = { passed, total: tests.length, tests, output, durationMs };
+
+  if (outcome.timedOut) {
+    return { ...base, status: 'timeout', error: `Tests did not finish within ${timeoutMs / 1000} seconds` };
+  }
+  if (raw && typeof raw === 'object' && typeof (raw as { error?: unknown }).error === 'string') {
+    return { ...base, status: 'error', error: (raw as { error: string }).error };
+  }
+  if (raw === undefined) {
+    return { ...base, status: 'error', error: `Test run ended without results (exit code ${outcome.exitCode})` };
+  }
+  if (tests.length === 0) {
+    return { ...base, status: 'error', error: 'No tests were found in the test suite' };
+  }
+  return { ...base, status: passed === tests.length ? 'passed' : 'failed' };
+}
+
+/**
+ * Write a file inside the working directory, refusing paths that escape it
+ */
+async function writeWorkspaceFile(workDir: string, relativePath: string, content: Buffer | string): Promise<void> {
+  const filePath = path.join(workDir, relativePath);
+  if (!filePath.startsWith(workDir + path.sep)) {
+    throw new Error(`Invalid submission path: ${relativePath}`);
+  }
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, content);
+}
+
+export function getEntryFile(config: AutograderConfig): string {
+  return config.entryFile || `solution${RUNTIMES[config.language].extension}`;
+}
+
+export class AutograderService {
+  /**
+   * Run the test suite against a submission's code, whether it was submitted
+   * as text, a single file or a multi-file project
+   */
+  async runForSubmission(submission: Submission, config: AutograderConfig): Promise<AutograderResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'autograder-'));
+    try {
+      await this.writeSubmission(workDir, submission, config);
+      return await this.runTests(workDir, config);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Run the test suite against code supplied directly, e.g. an instructor's
+   * reference solution when checking a new suite
+   */
+  async runForCode(code: string, config: AutograderConfig): Promise<AutograderResult> {
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'autograder-'));
+    try {
+      await writeWorkspaceFile(workDir, getEntryFile(config), code);
+      return await this.runTests(workDir, config);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Run the test suite in a working directory that already holds the code
+   */
+  async runTests(workDir: string, config: AutograderConfig): Promise<AutograderResult> {
+    if (!isSandboxAvailable()) {
+      throw new Error('Autograder sandbox is unavailable: unshare could not create user, mount, PID and network namespaces');
+    }
+
+    const runtime = RUNTIMES[config.language];
+    const runnerDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'autograder-runner-'));
+    try {
+      const account = sandboxAccount();
+      if (account) {
+        await chownTree(workDir, account.uid, account.gid);
+        await chownTree(runnerDir, account.uid, account.gid);
+      }
+
+      const timeoutMs = (config.timeoutSeconds || DEFAULT_AUTOGRADER_TIMEOUT_SECONDS) * 1000;
+      const started = Date.now();
+      const outcome = await runSandboxed(runtime, {
+        workDir,
+        runnerDir,
+        input: JSON.stringify({ testCode: config.testCode, modules: await submissionModules(workDir) }),
+        timeoutMs
+      });
+      return summarizeRun(outcome, timeoutMs, Date.now() - started);
+    } finally {
+      await fs.promises.rm(runnerDir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private async writeSubmission(workDir: string, submission: Submission, config: AutograderConfig): Promise<void> {
+    const entryFile = getEntryFile(config);
+
+    if (submission.fileUrl) {
+      const fileName = path.basename(submission.fileName || entryFile);
+      const processed = await processFileForMultimodal(submission.fileUrl, fileName, submission.mimeType || 'text/plain');
+      await writeWorkspaceFile(workDir, fileName, processed.content);
+      // Tests import the entry file, whatever the student called their upload
+      if (fileName !== entryFile && path.extname(fileName) === path.extname(entryFile)) {
+        await writeWorkspaceFile(workDir, entryFile, processed.content);
+      }
+      return;
+    }
+
+    const files = await storage.listSubmissionFiles(submission.id);
+    if (files.length > 0) {
+      for (const file of files) {
+        const processed = await processFileForMultimodal(file.fileUrl, file.path, file.mimeType);
+        await writeWorkspaceFile(workDir, file.path, processed.content);
+      }
+      return;
+    }
+
+    await writeWorkspaceFile(workDir, entryFile, submission.content || '');
+  }
+}
+
+export const autograder = new AutograderService();
+
+/**
+ * The rubric criterion scored by the test pass rate: the configured one, or
+ * the first functionality criterion
+ */
+export function findTestedCriterion(rubric: Rubric | undefined, config: AutograderConfig): RubricCriterion | undefined {
+  const criteria = rubric?.criteria || [];
+  if (config.criterionId) {
+    return criteria.find(criterion => criterion.id === config.criterionId);
+  }
+  return criteria.find(criterion => criterion.type === 'functionality');
+}
+
+/**
+ * Replace the AI's score for the tested criterion with one derived from the
+ * pass rate, then recompute the weighted overall score when every criterion
+ * has a score
+ */
+export function applyTestScore<T extends { score?: number | null; criteriaScores?: CriteriaScore[] | null }>(
+  feedback: T,
+  results: AutograderResult,
+  rubric: Rubric | undefined,
+  config: AutograderConfig
+): T {
+  const criterion = findTestedCriterion(rubric, config);
+  if (!criterion || !rubric) return feedback;
+
+  const testScore = results.total > 0
+    ? Math.round((criterion.maxScore * results.passed / results.total) * 100) / 100
+    : 0;
+  const testFeedback = `Automated tests: ${results.passed}/${results.total} passed.`;
+
+  const existing = feedback.criteriaScores || [];
+  const current = existing.find(score => score.criteriaId === criterion.id);
+  const updated: CriteriaScore = {
+    criteriaId: criterion.id,
+    score: testScore,
+    feedback: current?.feedback ? `${testFeedback} ${current.feedback}` : testFeedback
+  };
+  const criteriaScores = current
+    ? existing.map(score => score.criteriaId === criterion.id ? updated : score)
+    : [...existing, updated];
+
+  let score = feedback.score;
+  const totalWeight = rubric.criteria.reduce((sum, item) => sum + (item.weight || 0), 0);
+  const scored = rubric.criteria.map(item => ({
+    item,
+    result: criteriaScores.find(entry => entry.criteriaId === item.id)
+  }));
+  if (totalWeight > 0 && scored.every(({ item, result }) => result && item.maxScore > 0)) {
+    const weighted = scored.reduce((sum, { item, result }) => sum + (result!.score / item.maxScore) * (item.weight || 0), 0);
+    score = Math.round((weighted / totalWeight) * 100);
+  }
+
+  return { ...feedback, criteriaScores, score };
+}
+
+/**
+ * Plain-text summary of a test run for the AI prompt
+ */
+export function describeTestResults(results: AutograderResult): string {
+  const lines = [`Automated test results: ${results.passed}/${results.total} tests passed (status: ${results.status}).`];
+  if (results.error) lines.push(`Error: ${results.error}`);
+  for (const test of results.tests) {
+    lines.push(`- ${test.passed ? 'PASS' : 'FAIL'} ${test.name}${test.message ? `: ${test.message}` : ''}`);
+  }
+  if (results.status !== 'passed' && results.output) {
+    lines.push('Program output:', results.output.slice(0, 1500));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Add the test results to the instructor-only guidance given to the AI, so
+ * its feedback reflects which behaviour actually works
+ */
+export function withTestResultsContext(
+  context: InstructorContext | null | undefined,
+  results: AutograderResult
+): InstructorContext {
+  const summary = `${describeTestResults(results)}\n\nUse these results when judging functionality and testing, but do not reveal the hidden test cases.`;
+  return {
+    ...(context || {}),
+    content: context?.content ? `${context.content}\n\n${summary}` : summary
+  };
+}
+
+/**
+ * Run the assignment's test suite for the queue worker. Failures of the
+ * autograder itself are logged and grading continues without test results.
+ */
+export async function runAutograderForSubmission(
+  submission: Submission,
+  config: AutograderConfig
+): Promise<AutograderResult | undefined> {
+  try {
+    const results = await autograder.runForSubmission(submission, config);
+    logger.info('Autograder finished', {
+      submissionId: submission.id,
+      status: results.status,
+      passed: results.passed,
+      total: results.total,
+      durationMs: results.durationMs
+    });
+    return results;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error(`Autograder failed for submission ${submission.id}: ${errorMessage}`);
+    return undefined;
+  }
+}
@@ -1,8 +1,9 @@
 import { storage } from '../storage';
 import { logger } from '../lib/error-handler';
-import { submissions, feedback, users, courses, assignments, enrollments } from '../../shared/schema';
+import { submissions, feedback, users, courses, assignments, enrollments, assignmentExtensions, type SubmissionPolicy } from '../../shared/schema';
+import { effectiveDueDate, selectCountedAttempt } from '../utils/late-policy';
 import { db } from '../db';
-import { eq, and, lt, desc, sql, count, inArray } from 'drizzle-orm';
+import { eq, ne, and, lt, desc, sql, count, inArray } from 'drizzle-orm';
 import { stringify } from 'csv-stringify';
 import type { InferSelectModel } from 'drizzle-orm';
 
@@ -16,6 +17,13 @@ interface Student {
   email: string;
 }
 
+interface GradedAssignment {
+  id: number;
+  title: string;
+  dueDate: Date;
+  submissionPolicy: SubmissionPolicy | null;
+}
+
 interface SubmissionRecord {
   userId: number;
   assignmentId: number;
@@ -304,15 +312,18 @@ export class BatchOperationsService {
   
   /**
    * Generate a CSV for assignment grades across a course
-   * Optimized for large classes
+   * Optimized for large classes. Each grade is the attempt that counts under
+   * the assignment's submission policy, after late penalties.
    * @param courseId The course ID to export grades for
    */
   async exportCourseGrades(courseId: number): Promise<string> {
     // Get all assignments for this course
-    const courseAssignments = await db
+    const courseAssignments: GradedAssignment[] = await db
       .select({
         id: assignments.id,
-        title: assignments.title
+        title: assignments.title,
+        dueDate: assignments.dueDate,
+        submissionPolicy: assignments.submissionPolicy
       })
       .from(assignments)
       .where(eq(assignments.courseId, courseId))
@@ -351,9 +362,9 @@ export class BatchOperationsService {
       // Get all student IDs in this chunk with proper typing
       const studentIds = studentChunk.map(s => s.id);
       
-      // Get all assignments and their most recent submission scores in bulk
+      // Get all assignments and their counted submission scores in bulk
       // This is much more efficient than querying each student+assignment combination
-      const submissionScores = await this.getSubmissionScores(studentIds, courseAssignments.map((a: { id: number }) => a.id));
+      const submissionScores = await this.getSubmissionScores(studentIds, courseAssignments);
       
       // Generate a row for each student
       for (const student of studentChunk) {
@@ -398,54 +409,76 @@ export class BatchOperationsService {
    */
   private async getSubmissionScores(
     studentIds: number[],
-    assignmentIds: number[]
+    courseAssignments: GradedAssignment[]
   ): Promise<Map<string, number | null>> {
-    // ✅ LOGIC FIX: Get latest submission per student-assignment pair using optimized approach
-    console.log(`[PERFORMANCE] Using optimized query to correctly isolate latest submissions for grade export`);
-    
-    // Get all completed submissions for the specified students and assignments
-    const allSubmissions = await db
-      .select({
-        id: submissions.id,
-        userId: submissions.userId,
-        assignmentId: submissions.assignmentId,
-        createdAt: submissions.createdAt,
-        score: feedback.score
-      })
-      .from(submissions)
-      .leftJoin(feedback, eq(submissions.id, feedback.submissionId))
-      .where(and(
-        inArray(submissions.userId, studentIds),
-        inArray(submissions.assignmentId, assignmentIds),
-        eq(submissions.status, 'completed')
-      ))
-      .orderBy(submissions.createdAt);
+    const assignmentIds = courseAssignments.map(assignment => assignment.id);
+    console.log(`[PERFORMANCE] Using bulk queries to pick the counted submission of each student for grade export`);
     
-    // Group submissions by student-assignment pair and keep only the latest
-    const latestSubmissionsMap = new Map<string, { id: number; score: number | null; createdAt: Date }>();
+    // Every attempt counts towards attempt numbers and lateness, so load all
+    // submissions that did not fail, with their scores when graded
+    const [allSubmissions, extensions] = await Promise.all([
+      db
+        .select({
+          userId: submissions.userId,
+          assignmentId: submissions.assignmentId,
+          status: submissions.status,
+          createdAt: submissions.createdAt,
+          score: feedback.score
+        })
+        .from(submissions)
+        .leftJoin(feedback, eq(submissions.id, feedback.submissionId))
+        .where(and(
+          inArray(submissions.userId, studentIds),
+          inArray(submissions.assignmentId, assignmentIds),
+          ne(submissions.status, 'failed')
+        )),
+      db
+        .select({
+          userId: assignmentExtensions.userId,
+          assignmentId: assignmentExtensions.assignmentId,
+          dueDate: assignmentExtensions.dueDate
+        })
+        .from(assignmentExtensions)
+        .where(and(
+          inArray(assignmentExtensions.userId, studentIds),
+          inArray(assignmentExtensions.assignmentId, assignmentIds)
+        ))
+    ]);
     
-    for (const submission of allSubmissions) {
+    // Group submissions by student-assignment pair
+    const attemptsByKey = new Map<string, { createdAt: Date; score: number | null }[]>();
+    for (const submission of allSubmissions as { userId: number; assignmentId: number; status: string; createdAt: Date; score: number | null }[]) {
       const key = `${submission.userId}-${submission.assignmentId}`;
-      const existing = latestSubmissionsMap.get(key);
-      
-      // Keep the submission with the latest createdAt timestamp
-      if (!existing || submission.createdAt > existing.createdAt) {
-        latestSubmissionsMap.set(key, {
-          id: submission.id,
-          score: submission.score,
-          createdAt: submission.createdAt
-        });
-      }
+      const attempts = attemptsByKey.get(key) || [];
+      // Only completed submissions have a grade yet
+      attempts.push({
+        createdAt: submission.createdAt,
+        score: submission.status === 'completed' && submission.score !== null ? Number(submission.score) : null
+      });
+      attemptsByKey.set(key, attempts);
     }
     
-    // Create a map of student-assignment to score
+    const extensionByKey = new Map<string, { dueDate: Date }>();
+    for (const extension of extensions as { userId: number; assignmentId: number; dueDate: Date }[]) {
+      extensionByKey.set(`${extension.userId}-${extension.assignmentId}`, extension);
+    }
+    
+    const assignmentById = new Map(courseAssignments.map(assignment => [assignment.id, assignment]));
+    
+    // Create a map of student-assignment to the counted, penalty-adjusted score
     const result = new Map<string, number | null>();
     
-    // Process each latest submission
-    for (const [key, submission] of latestSubmissionsMap.entries()) {
-      const score = submission.score === null ? null : Number(submission.score);
-      result.set(key, score);
-    }
+    attemptsByKey.forEach((attempts, key) => {
+      const assignment = assignmentById.get(Number(key.split('-')[1]));
+      if (!assignment) return;
+      
+      const counted = selectCountedAttempt(
+        attempts,
+        effectiveDueDate(assignment.dueDate, extensionByKey.get(key)),
+        assignment.submissionPolicy
+      );
+      result.set(key, counted ? counted.adjustedScore : null);
+    });
     
     return result;
   }
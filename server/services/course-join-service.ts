@@ -0,0 +1,195 @@
+/**
+ * Course Join Service
+ *
+ * Self-enrollment through join codes. Instructors generate expiring codes
+ * (shared as a code or a /join link); signed-in students redeem them to
+ * enroll. A code can be limited to the allowed email domains in the
+ * security settings, and can send students to an approval queue instead of
+ * enrolling them straight away.
+ */
+
+import { storage, type EnrollmentRequestEntry } from '../storage';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../lib/error-handler';
+import { emailDomainAllowed, generateJoinCode, normalizeJoinCode, parseAllowedDomains } from '../utils/join-codes';
+import type { CourseJoinCode, SecuritySettings, User } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+export interface JoinCodeOptions {
+  expiresInDays: number;
+  requireApproval: boolean;
+  restrictToAllowedDomains: boolean;
+}
+
+export type JoinStatus = 'enrolled' | 'already_enrolled' | 'pending' | 'denied';
+
+// What a student sees before redeeming a code
+export interface JoinCodeDetails {
+  courseId: number;
+  courseName: string;
+  courseCode: string;
+  expiresAt: Date;
+  requireApproval: boolean;
+  // The student's standing in the course, null when they have not joined
+  status: JoinStatus | null;
+}
+
+export interface JoinResult {
+  courseId: number;
+  courseName: string;
+  status: JoinStatus;
+}
+
+export class CourseJoinService {
+  async listJoinCodes(courseId: number): Promise<CourseJoinCode[]> {
+    await this.loadCourse(courseId);
+    return storage.listCourseJoinCodes(courseId);
+  }
+
+  async createJoinCode(courseId: number, actor: User, options: JoinCodeOptions): Promise<CourseJoinCode> {
+    await this.loadCourse(courseId);
+    if (options.restrictToAllowedDomains && (await this.allowedDomains()).length === 0) {
+      throw new BadRequestError('No allowed email domains are configured in the security settings');
+    }
+
+    for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+      const code = generateJoinCode();
+      if (await storage.getCourseJoinCodeByCode(code)) continue;
+
+      return storage.createCourseJoinCode({
+        courseId,
+        code,
+        expiresAt: new Date(Date.now() + options.expiresInDays * DAY_MS),
+        requireApproval: options.requireApproval,
+        restrictToAllowedDomains: options.restrictToAllowedDomains,
+        createdBy: actor.id
+      });
+    }
+    throw new Error('Could not generate a unique join code');
+  }
+
+  async revokeJoinCode(courseId: number, joinCodeId: number): Promise<CourseJoinCode[]> {
+    const revoked = await storage.revokeCourseJoinCode(courseId, joinCodeId);
+    if (!revoked) {
+      throw new NotFoundError('Join code not found');
+    }
+    return storage.listCourseJoinCodes(courseId);
+  }
+
+  async describeCode(code: string, user: User): Promise<JoinCodeDetails> {
+    const joinCode = await this.loadActiveCode(code);
+    const course = await this.loadCourse(joinCode.courseId);
+
+    return {
+      courseId: course.id,
+      courseName: course.name,
+      courseCode: course.code,
+      expiresAt: joinCode.expiresAt,
+      requireApproval: joinCode.requireApproval,
+      status: await this.currentStatus(course.id, user.id)
+    };
+  }
+
+  /**
+   * Enroll a student with a join code, or queue them for approval when the
+   * code requires it
+   */
+  async redeem(code: string, user: User): Promise<JoinResult> {
+    const joinCode = await this.loadActiveCode(code);
+    const course = await this.loadCourse(joinCode.courseId);
+    const result = (status: JoinStatus): JoinResult => ({ courseId: course.id, courseName: course.name, status });
+
+    // Enrolled instructors count as course staff, so codes only enroll students
+    if (user.role !== 'student') {
+      throw new ForbiddenError('Join codes are for student accounts');
+    }
+    if (await storage.getEnrollment(user.id, course.id)) {
+      return result('already_enrolled');
+    }
+    if (joinCode.restrictToAllowedDomains) {
+      // Anyone can register with an address they do not own
+      if (!user.emailVerified) {
+        throw new ForbiddenError('Verify your email address before joining this course');
+      }
+      if (!emailDomainAllowed(user.email, await this.allowedDomains())) {
+        throw new ForbiddenError('Your email address is not from a domain allowed to join this course');
+      }
+    }
+
+    if (joinCode.requireApproval) {
+      const existing = await storage.getEnrollmentRequest(course.id, user.id);
+      if (existing?.status === 'pending') {
+        return result('pending');
+      }
+      if (existing?.status === 'denied') {
+        throw new ForbiddenError('Your request to join this course was declined');
+      }
+      await storage.upsertEnrollmentRequest({ courseId: course.id, userId: user.id, joinCodeId: joinCode.id });
+      await storage.incrementCourseJoinCodeUses(joinCode.id);
+      return result('pending');
+    }
+
+    await storage.createEnrollment({ userId: user.id, courseId: course.id });
+    await storage.incrementCourseJoinCodeUses(joinCode.id);
+    return result('enrolled');
+  }
+
+  async listRequests(courseId: number): Promise<EnrollmentRequestEntry[]> {
+    await this.loadCourse(courseId);
+    return storage.listPendingEnrollmentRequests(courseId);
+  }
+
+  /**
+   * Approve (enrolling the student) or deny a pending join request
+   */
+  async decideRequest(courseId: number, requestId: number, actor: User, approve: boolean): Promise<EnrollmentRequestEntry[]> {
+    const request = await storage.decideEnrollmentRequest(courseId, requestId, approve ? 'approved' : 'denied', actor.id);
+    if (!request) {
+      throw new NotFoundError('Pending join request not found');
+    }
+    if (approve && !(await storage.getEnrollment(request.userId, courseId))) {
+      await storage.createEnrollment({ userId: request.userId, courseId });
+    }
+    return storage.listPendingEnrollmentRequests(courseId);
+  }
+
+  private async currentStatus(courseId: number, userId: number): Promise<JoinStatus | null> {
+    if (await storage.getEnrollment(userId, courseId)) {
+      return 'already_enrolled';
+    }
+    const request = await storage.getEnrollmentRequest(courseId, userId);
+    if (request?.status === 'pending' || request?.status === 'denied') {
+      return request.status;
+    }
+    return null;
+  }
+
+  private async loadActiveCode(code: string): Promise<CourseJoinCode> {
+    const joinCode = await storage.getCourseJoinCodeByCode(normalizeJoinCode(code));
+    if (!joinCode || joinCode.revokedAt) {
+      throw new NotFoundError('This join code is not valid');
+    }
+    if (new Date(joinCode.expiresAt).getTime() <= Date.now()) {
+      throw new BadRequestError('This join code has expired; ask your instructor for a new one');
+    }
+    return joinCode;
+  }
+
+  private async allowedDomains(): Promise<string[]> {
+    const setting = await storage.getSystemSetting('security');
+    const security = setting?.value as Partial<SecuritySettings> | undefined;
+    return parseAllowedDomains(security?.allowedDomains);
+  }
+
+  private async loadCourse(courseId: number) {
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    return course;
+  }
+}
+
+// Export a singleton instance
+export const courseJoinService = new CourseJoinService();
@@ -0,0 +1,90 @@
+/**
+ * Course Staff Service
+ *
+ * Manages who runs a course. Owners manage the staff list, co-instructors
+ * run the course day to day, and TAs may view the course and grade. Every
+ * course keeps at least one owner.
+ */
+
+import { storage, type CourseStaffMember } from '../storage';
+import { BadRequestError, NotFoundError } from '../lib/error-handler';
+import type { CourseStaffRole, User } from '../../shared/schema';
+
+export class CourseStaffService {
+  async listStaff(courseId: number): Promise<CourseStaffMember[]> {
+    await this.loadCourse(courseId);
+    return storage.listCourseStaff(courseId);
+  }
+
+  /**
+   * Add a user to the staff by email, or change their role if they are
+   * already on it
+   */
+  async addStaff(courseId: number, actor: User, email: string, role: CourseStaffRole): Promise<CourseStaffMember[]> {
+    await this.loadCourse(courseId);
+    const user = await storage.getUserByEmail(email.trim());
+    if (!user) {
+      throw new NotFoundError('No user has that email address');
+    }
+
+    return this.setRole(courseId, actor, user.id, role);
+  }
+
+  async updateRole(courseId: number, actor: User, userId: number, role: CourseStaffRole): Promise<CourseStaffMember[]> {
+    const staff = await this.listStaff(courseId);
+    if (!staff.some(member => member.userId === userId)) {
+      throw new NotFoundError('That user is not on the staff of this course');
+    }
+
+    return this.setRole(courseId, actor, userId, role, staff);
+  }
+
+  async removeStaff(courseId: number, userId: number): Promise<CourseStaffMember[]> {
+    const staff = await this.listStaff(courseId);
+    const member = staff.find(entry => entry.userId === userId);
+    if (!member) {
+      throw new NotFoundError('That user is not on the staff of this course');
+    }
+    if (member.fromEnrollment) {
+      throw new BadRequestError(`${member.name} is an instructor through their enrollment; remove the enrollment to take away their access`);
+    }
+    this.checkOwnerRemains(staff, userId);
+
+    await storage.removeCourseStaff(courseId, userId);
+    return storage.listCourseStaff(courseId);
+  }
+
+  private async setRole(
+    courseId: number,
+    actor: User,
+    userId: number,
+    role: CourseStaffRole,
+    staff?: CourseStaffMember[]
+  ): Promise<CourseStaffMember[]> {
+    if (role !== 'owner') {
+      this.checkOwnerRemains(staff ?? await storage.listCourseStaff(courseId), userId);
+    }
+
+    await storage.upsertCourseStaff({ courseId, userId, role, addedBy: actor.id });
+    return storage.listCourseStaff(courseId);
+  }
+
+  // Refuse changes that would leave a course with owners without any
+  private checkOwnerRemains(staff: CourseStaffMember[], userId: number): void {
+    const owners = staff.filter(member => member.role === 'owner');
+    if (owners.length === 1 && owners[0].userId === userId) {
+      throw new BadRequestError('A course needs at least one owner; make someone else an owner first');
+    }
+  }
+
+  private async loadCourse(courseId: number) {
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    return course;
+  }
+}
+
+// Export a singleton instance
+export const courseStaffService = new CourseStaffService();
@@ -9,6 +9,7 @@ import { db } from "../db";
 import { 
   users, 
   submissions, 
+  guestSubmitters,
   feedback, 
   enrollments,
   assignments,
@@ -27,7 +28,7 @@ import {
   type User,
 } from "../../shared/schema";
 import { eq, and, desc, gte, lte, inArray } from "drizzle-orm";
-import { DATA_RETENTION_POLICIES, ANONYMIZATION_RULES, type UserDataExport } from "../../shared/data-protection";
+import { DATA_RETENTION_POLICIES, ANONYMIZATION_RULES, type UserDataExport, type GuestDataExport } from "../../shared/data-protection";
 import * as crypto from "crypto";
 
 export class DataProtectionService {
@@ -525,6 +526,100 @@ export class DataProtectionService {
     console.log(`[DATA-PROTECTION] ✅ Enterprise-grade cascade deletion completed for userId: ${userId}`);
   }
 
+  /**
+   * Export everything held about a guest submitter. performedBy is null when
+   * the guest exports their own data.
+   */
+  async exportGuestData(guestSubmitterId: number, performedBy: number | null): Promise<GuestDataExport> {
+    const [guest] = await db.select().from(guestSubmitters).where(eq(guestSubmitters.id, guestSubmitterId));
+    if (!guest) {
+      throw new Error('Guest submitter not found');
+    }
+
+    const guestSubmissions = await db.select({
+      id: submissions.id,
+      assignment_title: assignments.title,
+      assignment_description: assignments.description,
+      content: submissions.content,
+      file_url: submissions.fileUrl,
+      submitted_at: submissions.createdAt,
+      feedback_summary: feedback.summary,
+      feedback_score: feedback.score,
+      feedback_status: feedback.status,
+    }).from(submissions)
+      .leftJoin(assignments, eq(submissions.assignmentId, assignments.id))
+      .leftJoin(feedback, eq(feedback.submissionId, submissions.id))
+      .where(eq(submissions.guestSubmitterId, guestSubmitterId))
+      .orderBy(submissions.createdAt);
+
+    await this.logDataAccess({
+      userId: null,
+      action: 'export',
+      tableName: 'guest_submitters',
+      recordId: guestSubmitterId.toString(),
+      details: { submissions: guestSubmissions.length },
+      performedBy: performedBy ?? undefined,
+      ipAddress: null,
+      userAgent: null,
+    });
+
+    return {
+      guest_info: {
+        id: guest.id,
+        name: guest.name,
+        email: guest.email,
+        email_verified_at: guest.emailVerifiedAt,
+        created_at: guest.createdAt,
+      },
+      // Feedback still under instructor review is not part of the guest's record yet
+      submissions: guestSubmissions.map((s: any) => ({
+        id: s.id,
+        assignment_title: s.assignment_title || 'Assignment Not Found',
+        assignment_description: s.assignment_description || '',
+        content: s.content || '',
+        file_url: s.file_url || null,
+        submitted_at: s.submitted_at,
+        grade: s.feedback_status === 'draft' ? undefined : s.feedback_score ?? undefined,
+        feedback: s.feedback_status === 'draft' ? undefined : s.feedback_summary || undefined,
+      })),
+    };
+  }
+
+  /**
+   * Permanently delete a guest submitter with their submissions and
+   * feedback. Guests have no enrollment, so nothing is kept for FERPA.
+   */
+  async deleteGuestData(guestSubmitterId: number, performedBy: number | null): Promise<void> {
+    const guestSubmissions = await db.select({ id: submissions.id })
+      .from(submissions)
+      .where(eq(submissions.guestSubmitterId, guestSubmitterId));
+    const submissionIds = guestSubmissions.map((s: { id: number }) => s.id);
+
+    if (submissionIds.length > 0) {
+      await db.delete(feedback).where(inArray(feedback.submissionId, submissionIds));
+      await db.delete(submissions).where(inArray(submissions.id, submissionIds));
+    }
+
+    // Access tokens go with the guest record
+    const deleted = await db.delete(guestSubmitters)
+      .where(eq(guestSubmitters.id, guestSubmitterId))
+      .returning({ id: guestSubmitters.id });
+    if (deleted.length === 0) {
+      throw new Error(`Guest submitter ${guestSubmitterId} not found`);
+    }
+
+    await this.logDataAccess({
+      userId: null,
+      action: 'delete',
+      tableName: 'guest_submitters',
+      recordId: guestSubmitterId.toString(),
+      details: { submissionsDeleted: submissionIds.length },
+      performedBy: performedBy ?? undefined,
+      ipAddress: null,
+      userAgent: null,
+    });
+  }
+
   /**
    * Check if user has active educational records that must be retained
    */
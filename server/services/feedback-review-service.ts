@@ -0,0 +1,233 @@
+/**
+ * Feedback Review Service
+ *
+ * Supports the instructor review-and-release workflow. Assignments can hold
+ * AI feedback in draft so instructors can edit it before students see it.
+ * Every edit and release is written to the data audit log so there is a
+ * record of who changed which fields and when.
+ */
+
+import { db } from '../db';
+import { storage } from '../storage';
+import { dataAuditLog, users, type Feedback, type FeedbackEdit } from '../../shared/schema';
+import { and, eq, asc } from 'drizzle-orm';
+import { logAudit, AuditCategory, AuditEventType } from '../lib/audit-logger';
+import { logger } from '../lib/error-handler';
+import { ltiService } from './lti/lti-service';
+import { lmsGradeSync } from './lms/lms-grade-sync';
+import { notificationService } from './notifications/notification-service';
+import { inboxService } from './notifications/inbox-service';
+
+const EDITABLE_FIELDS = ['strengths', 'improvements', 'suggestions', 'summary', 'score', 'criteriaScores'] as const;
+
+export interface FeedbackFieldChange {
+  field: typeof EDITABLE_FIELDS[number];
+  from: unknown;
+  to: unknown;
+}
+
+export interface FeedbackReviewActor {
+  id: number;
+  username?: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface FeedbackAuditEntry {
+  id: number;
+  event: 'edit' | 'release';
+  changes: FeedbackFieldChange[];
+  performedBy: number | null;
+  performedByName: string | null;
+  timestamp: Date;
+}
+
+interface AuditTrailRow {
+  id: number;
+  details: Record<string, unknown> | null;
+  performedBy: number | null;
+  performedByName: string | null;
+  timestamp: Date;
+}
+
+/**
+ * Compare an instructor edit against the stored feedback and return only the
+ * fields whose values actually change
+ */
+export function diffFeedback(current: Feedback, updates: FeedbackEdit): FeedbackFieldChange[] {
+  const changes: FeedbackFieldChange[] = [];
+  for (const field of EDITABLE_FIELDS) {
+    if (updates[field] === undefined) continue;
+    const from = current[field] ?? null;
+    const to = updates[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Hide draft feedback from students. The submission keeps its status but the
+ * feedback is replaced with null and flagged as awaiting instructor review.
+ * Released feedback keeps its autograder results without failure messages or
+ * program output, which could reveal the hidden test cases.
+ */
+export function withholdDraftFeedback<T extends { feedback: Feedback | null }>(
+  submission: T
+): T & { feedbackAwaitingReview: boolean } {
+  if (submission.feedback?.status === 'draft') {
+    return { ...submission, feedback: null, feedbackAwaitingReview: true };
+  }
+  const testResults = submission.feedback?.testResults;
+  if (submission.feedback && testResults) {
+    const { status, passed, total, durationMs } = testResults;
+    const tests = testResults.tests.map(({ name, passed }) => ({ name, passed }));
+    return {
+      ...submission,
+      feedback: { ...submission.feedback, testResults: { status, passed, total, tests, durationMs } },
+      feedbackAwaitingReview: false
+    };
+  }
+  return { ...submission, feedbackAwaitingReview: false };
+}
+
+export class FeedbackReviewService {
+  /**
+   * Apply instructor edits to a feedback record and record the changed fields
+   */
+  async editFeedback(
+    feedbackId: number,
+    updates: FeedbackEdit,
+    actor: FeedbackReviewActor
+  ): Promise<{ feedback: Feedback; changes: FeedbackFieldChange[] }> {
+    const current = await storage.getFeedback(feedbackId);
+    if (!current) {
+      throw new Error('Feedback not found');
+    }
+
+    const changes = diffFeedback(current, updates);
+    if (changes.length === 0) {
+      return { feedback: current, changes };
+    }
+
+    const values: Partial<Feedback> = { lastEditedBy: actor.id, lastEditedAt: new Date() };
+    for (const change of changes) {
+      Object.assign(values, { [change.field]: change.to });
+    }
+
+    const updated = await storage.updateFeedback(feedbackId, values);
+    await this.recordAudit(updated, 'edit', actor, changes);
+
+    if (updated.status === 'released' && changes.some(change => change.field === 'score')) {
+      this.passbackScore(updated);
+    }
+
+    return { feedback: updated, changes };
+  }
+
+  /**
+   * Release draft feedback so students can see it. Feedback that is already
+   * released is skipped.
+   */
+  async releaseFeedback(feedbackIds: number[], actor: FeedbackReviewActor): Promise<Feedback[]> {
+    const released = await storage.releaseFeedback(feedbackIds, actor.id);
+    for (const item of released) {
+      await this.recordAudit(item, 'release', actor, []);
+      this.passbackScore(item);
+      inboxService.notifyFeedbackReady(item.submissionId).catch(error => {
+        logger.error('Failed to create feedback ready notification', { submissionId: item.submissionId, error });
+      });
+    }
+    return released;
+  }
+
+  /**
+   * Release every draft feedback record for an assignment
+   */
+  async releaseAllForAssignment(assignmentId: number, actor: FeedbackReviewActor): Promise<Feedback[]> {
+    const drafts = await storage.listDraftFeedbackForAssignment(assignmentId);
+    return this.releaseFeedback(drafts.map(item => item.id), actor);
+  }
+
+  /**
+   * Get the edit and release history for a feedback record, oldest first
+   */
+  async getAuditTrail(feedbackId: number): Promise<FeedbackAuditEntry[]> {
+    const rows = await db.select({
+      id: dataAuditLog.id,
+      details: dataAuditLog.details,
+      performedBy: dataAuditLog.performedBy,
+      performedByName: users.name,
+      timestamp: dataAuditLog.timestamp
+    })
+      .from(dataAuditLog)
+      .leftJoin(users, eq(dataAuditLog.performedBy, users.id))
+      .where(and(eq(dataAuditLog.tableName, 'feedback'), eq(dataAuditLog.recordId, feedbackId)))
+      .orderBy(asc(dataAuditLog.timestamp));
+
+    return rows.map((row: AuditTrailRow) => ({
+      id: row.id,
+      event: row.details?.event === 'release' ? 'release' : 'edit',
+      changes: (row.details?.changes as FeedbackFieldChange[] | undefined) ?? [],
+      performedBy: row.performedBy,
+      performedByName: row.performedByName,
+      timestamp: row.timestamp
+    }));
+  }
+
+  /**
+   * Send a released score to LMS gradebooks linked through LTI, queue it for
+   * automatic LMS grade sync and email the student, without holding up the
+   * instructor's request
+   */
+  private passbackScore(item: Feedback): void {
+    ltiService.passbackSubmissionScore(item.submissionId).catch(error => {
+      logger.error('LTI score passback failed', { submissionId: item.submissionId, error });
+    });
+    lmsGradeSync.queueSubmission(item.submissionId).catch(error => {
+      logger.error('Failed to queue LMS grade sync', { submissionId: item.submissionId, error });
+    });
+    notificationService.notifyFeedbackReady(item.submissionId).catch(error => {
+      logger.error('Failed to queue feedback ready email', { submissionId: item.submissionId, error });
+    });
+  }
+
+  private async recordAudit(
+    item: Feedback,
+    event: 'edit' | 'release',
+    actor: FeedbackReviewActor,
+    changes: FeedbackFieldChange[]
+  ): Promise<void> {
+    // The audit row belongs to the student who owns the submission
+    const submission = await storage.getSubmission(item.submissionId);
+
+    await db.insert(dataAuditLog).values({
+      userId: submission?.userId ?? null,
+      action: 'update',
+      tableName: 'feedback',
+      recordId: item.id,
+      details: { event, submissionId: item.submissionId, changes },
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+      performedBy: actor.id
+    });
+
+    logAudit({
+      category: AuditCategory.DATA_ACCESS,
+      event: AuditEventType.DATA_UPDATE,
+      userId: actor.id,
+      username: actor.username,
+      targetId: item.id,
+      targetType: 'feedback',
+      ipAddress: actor.ipAddress ?? undefined,
+      description: event === 'release'
+        ? `Feedback ${item.id} released to student`
+        : `Feedback ${item.id} edited (${changes.map(change => change.field).join(', ')})`,
+      status: 'success'
+    });
+  }
+}
+
+// Export a singleton instance
+export const feedbackReviewService = new FeedbackReviewService();
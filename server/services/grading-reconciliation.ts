@@ -0,0 +1,263 @@
+/**
+ * Multi-pass grading and score reconciliation
+ *
+ * Grades a submission several times (same provider with varied seeds, or a
+ * list of providers) and reconciles the passes into a single feedback result.
+ * Passes that disagree by more than the configured threshold are flagged so
+ * that an instructor reviews the grade before relying on it.
+ */
+
+import { GradingConfig, GradingVariance, CriterionVariance, CriteriaScore, Rubric, AIModelConfig } from '../../shared/schema';
+import { AIService, FeedbackResponse } from './ai-service';
+import { aiAdapterFactory, AIProvider } from '../adapters/adapter-factory';
+import { FallbackAdapter, restrictToPinnedProvider } from '../adapters/fallback-adapter';
+import { aiLogger as logger } from '../lib/logger';
+
+export const DEFAULT_PASS_COUNT = 3;
+export const DEFAULT_DISAGREEMENT_THRESHOLD = 0.15;
+
+export interface PlannedPass {
+  passNumber: number;
+  provider: AIProvider;
+  seed: number;
+}
+
+export interface GradingPassOutcome extends PlannedPass {
+  result: FeedbackResponse;
+}
+
+export interface ReconciledGrading {
+  feedback: FeedbackResponse;
+  variance: GradingVariance;
+  needsReview: boolean;
+  passes: GradingPassOutcome[];
+}
+
+/**
+ * Check whether an assignment's grading config asks for more than one pass
+ */
+export function isMultiPass(config?: GradingConfig | null): config is GradingConfig {
+  return !!config && config.mode === 'multi_pass';
+}
+
+/**
+ * Work out which provider and seed each pass should use. Providers outside
+ * an AI_PROVIDER pin are left out of the plan.
+ */
+export function planGradingPasses(config: GradingConfig, defaultProvider: AIProvider): PlannedPass[] {
+  const providers = restrictToPinnedProvider(
+    (config.providers?.length ? config.providers : [defaultProvider]) as AIProvider[],
+    provider => provider
+  );
+  // A single provider only shows disagreement across several seeded passes
+  const passCount = config.passes ?? (providers.length > 1 ? providers.length : DEFAULT_PASS_COUNT);
+
+  return Array.from({ length: passCount }, (_, index) => ({
+    passNumber: index + 1,
+    provider: providers[index % providers.length],
+    seed: index + 1
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length;
+  return Math.round(Math.sqrt(variance) * 100) / 100;
+}
+
+/**
+ * Find the index of the value closest to the target (first one wins on ties)
+ */
+function closestIndex(values: number[], target: number): number {
+  let best = 0;
+  values.forEach((value, index) => {
+    if (Math.abs(value - target) < Math.abs(values[best] - target)) {
+      best = index;
+    }
+  });
+  return best;
+}
+
+/**
+ * Reconcile several grading results into one.
+ *
+ * The overall and per-criterion scores use the median across passes. The
+ * narrative feedback comes from the pass whose overall score is closest to
+ * the median, so the written comments stay consistent with the final grade.
+ */
+export function reconcileGradingPasses(
+  results: FeedbackResponse[],
+  rubric?: Rubric,
+  threshold: number = DEFAULT_DISAGREEMENT_THRESHOLD
+): { feedback: FeedbackResponse; variance: GradingVariance } {
+  if (results.length === 0) {
+    throw new Error('Cannot reconcile grading without any passes');
+  }
+
+  const reasons: string[] = [];
+
+  // Overall score
+  const scored = results.filter(result => typeof result.score === 'number');
+  const scores = scored.map(result => result.score as number);
+  const scoreSpread = scores.length > 0 ? Math.max(...scores) - Math.min(...scores) : 0;
+  const reconciledScore = scores.length > 0 ? Math.round(median(scores)) : undefined;
+
+  if (scoreSpread > threshold * 100) {
+    reasons.push(`Overall scores differ by ${scoreSpread} points across passes`);
+  }
+
+  // Pick the representative pass for narrative feedback
+  const representative = reconciledScore !== undefined
+    ? scored[closestIndex(scores, reconciledScore)]
+    : results[0];
+
+  // Per-criterion scores
+  const criteriaIds: string[] = [];
+  for (const result of results) {
+    for (const criterion of result.criteriaScores || []) {
+      if (!criteriaIds.includes(criterion.criteriaId)) {
+        criteriaIds.push(criterion.criteriaId);
+      }
+    }
+  }
+
+  const criteriaVariance: CriterionVariance[] = [];
+  const reconciledCriteria: CriteriaScore[] = [];
+
+  for (const criteriaId of criteriaIds) {
+    const entries = results
+      .map(result => result.criteriaScores?.find(c => c.criteriaId === criteriaId))
+      .filter((entry): entry is CriteriaScore => !!entry && typeof entry.score === 'number');
+    if (entries.length === 0) continue;
+
+    const criterionScores = entries.map(entry => entry.score);
+    const min = Math.min(...criterionScores);
+    const max = Math.max(...criterionScores);
+    const maxScore = rubric?.criteria?.find(c => c.id === criteriaId)?.maxScore || 100;
+    const flagged = max - min > threshold * maxScore;
+
+    if (flagged) {
+      const name = rubric?.criteria?.find(c => c.id === criteriaId)?.name || criteriaId;
+      reasons.push(`Criterion "${name}" scores range from ${min} to ${max}`);
+    }
+
+    const criterionMedian = median(criterionScores);
+    const closest = entries[closestIndex(criterionScores, criterionMedian)];
+    criteriaVariance.push({ criteriaId, scores: criterionScores, min, max, spread: max - min, flagged });
+    reconciledCriteria.push({
+      criteriaId,
+      score: Math.round(criterionMedian * 100) / 100,
+      feedback: closest.feedback,
+      // Leveled criteria take their level from the pass whose feedback is used
+      ...(closest.level ? { level: closest.level, levelJustification: closest.levelJustification } : {})
+    });
+  }
+
+  const modelNames = Array.from(new Set(results.map(result => result.modelName)));
+
+  const variance: GradingVariance = {
+    passCount: results.length,
+    scores,
+    scoreSpread,
+    scoreStdDev: standardDeviation(scores),
+    threshold,
+    criteria: criteriaVariance,
+    flagged: reasons.length > 0,
+    reasons
+  };
+
+  const feedback: FeedbackResponse = {
+    strengths: representative.strengths,
+    improvements: representative.improvements,
+    suggestions: representative.suggestions,
+    summary: representative.summary,
+    score: reconciledScore,
+    criteriaScores: reconciledCriteria.length > 0 ? reconciledCriteria : representative.criteriaScores,
+    processingTime: results.reduce((sum, result) => sum + (result.processingTime || 0), 0),
+    rawResponse: representative.rawResponse,
+    modelName: modelNames.join(', '),
+    tokenCount: results.reduce((sum, result) => sum + (result.tokenCount || 0), 0)
+  };
+
+  return { feedback, variance };
+}
+
+/**
+ * Create the AI service for one pass. Without an explicit provider list every
+ * pass grades with the assignment's model chain, so a failing primary falls
+ * back; listed providers use the model chosen for them in the chain, if any.
+ */
+function createPassService(pass: PlannedPass, config: GradingConfig, modelConfig?: AIModelConfig): AIService {
+  const generationOptions = { seed: pass.seed };
+  if (modelConfig && !config.providers?.length) {
+    return new AIService(new FallbackAdapter(modelConfig), generationOptions);
+  }
+
+  const model = modelConfig?.chain.find(choice => choice.provider === pass.provider)?.model;
+  const adapter = model
+    ? aiAdapterFactory.createAdapter(pass.provider, model)
+    : aiAdapterFactory.createAdapter(pass.provider);
+  return new AIService(adapter, generationOptions);
+}
+
+/**
+ * Run every planned pass and reconcile the results.
+ *
+ * Passes run sequentially to stay within provider rate limits. A failed pass
+ * is skipped; if fewer than two passes succeed the result is still returned
+ * but flagged for review. If every pass fails the first error is rethrown.
+ */
+export async function runMultiPassGrading(
+  config: GradingConfig,
+  analyze: (aiService: AIService) => Promise<FeedbackResponse>,
+  rubric?: Rubric,
+  modelConfig?: AIModelConfig
+): Promise<ReconciledGrading> {
+  const plan = planGradingPasses(config, modelConfig?.chain[0]?.provider ?? aiAdapterFactory.getDefaultProvider());
+  const threshold = config.disagreementThreshold ?? DEFAULT_DISAGREEMENT_THRESHOLD;
+  const outcomes: GradingPassOutcome[] = [];
+  let firstError: unknown;
+
+  for (const pass of plan) {
+    try {
+      const aiService = createPassService(pass, config, modelConfig);
+      const result = await analyze(aiService);
+      outcomes.push({ ...pass, result });
+    } catch (error) {
+      firstError = firstError ?? error;
+      logger.warn('Grading pass failed', {
+        passNumber: pass.passNumber,
+        provider: pass.provider,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  if (outcomes.length === 0) {
+    throw firstError instanceof Error ? firstError : new Error(String(firstError));
+  }
+
+  const { feedback, variance } = reconcileGradingPasses(outcomes.map(o => o.result), rubric, threshold);
+
+  if (outcomes.length < Math.min(2, plan.length)) {
+    variance.flagged = true;
+    variance.reasons.push(`Only ${outcomes.length} of ${plan.length} grading passes succeeded`);
+  }
+
+  logger.info('Multi-pass grading reconciled', {
+    passes: outcomes.length,
+    planned: plan.length,
+    score: feedback.score,
+    scoreSpread: variance.scoreSpread,
+    needsReview: variance.flagged
+  });
+
+  return { feedback, variance, needsReview: variance.flagged, passes: outcomes };
+}
@@ -0,0 +1,175 @@
+/**
+ * Guest Submitter Service
+ *
+ * Identities for people who submit through a shareable link without an
+ * account. Each submission is held under the name and email it was sent
+ * with and emails a single-use sign-in link; following it verifies the
+ * address, files the submission under the guest with that email and opens
+ * their submission and feedback history. Guests are merged into a real
+ * account when they register or sign in with the same verified email.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { storage, type GuestAccessTokenOwner, type GuestSubmissionEntry } from '../storage';
+import { BadRequestError, ForbiddenError, NotFoundError, logger } from '../lib/error-handler';
+import { withholdDraftFeedback } from './feedback-review-service';
+import { createEmailTransport, type EmailTransport } from './notifications/email-transport';
+import { renderGuestAccessEmail } from './notifications/email-templates';
+import type { GuestSubmitter, PendingGuestSubmitter, User } from '../../shared/schema';
+
+export const GUEST_ACCESS_LINK_HOURS = 48;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type GuestSubmissionView = GuestSubmissionEntry & { feedbackAwaitingReview: boolean };
+
+/**
+ * Tokens are only stored hashed, so a leaked table cannot be used to sign in
+ */
+export function hashGuestAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class GuestSubmitterService {
+  private transport: EmailTransport | null | undefined;
+
+  /**
+   * @param transport Delivery backend; defaults to the one configured in the environment
+   */
+  constructor(transport?: EmailTransport | null) {
+    this.transport = transport;
+  }
+
+  /**
+   * Hold the name and email given with a shareable-link submission. The
+   * submission joins no guest's history until the link emailed for it is
+   * followed, since anyone can submit under any email.
+   */
+  async recordSubmitter(submissionId: number, name: string, email: string): Promise<PendingGuestSubmitter> {
+    return storage.createPendingGuestSubmitter(submissionId, { name: name.trim(), email: email.trim() });
+  }
+
+  /**
+   * Email a guest a single-use link to their submissions
+   */
+  async sendAccessLink(guest: GuestSubmitter, assignmentTitle?: string): Promise<void> {
+    await this.emailAccessLink(guest, { guestSubmitterId: guest.id }, assignmentTitle);
+  }
+
+  /**
+   * Email the submitter of a shareable-link submission a single-use link that
+   * files the submission under their verified email and signs them in
+   */
+  async sendSubmissionLink(pending: PendingGuestSubmitter, assignmentTitle?: string): Promise<void> {
+    await this.emailAccessLink(pending, { pendingGuestSubmitterId: pending.id }, assignmentTitle);
+  }
+
+  /**
+   * Send a new sign-in link on request. Unknown addresses are ignored
+   * silently so the form does not reveal who has submitted.
+   */
+  async requestAccessLink(email: string): Promise<void> {
+    const guest = await storage.getGuestSubmitterByEmail(email.trim());
+    if (guest) {
+      await this.sendAccessLink(guest);
+    }
+  }
+
+  /**
+   * Exchange a sign-in link's token for the guest it belongs to, verifying
+   * their email address. A link sent with a submission first files that
+   * submission under the guest with its email.
+   */
+  async signIn(token: string): Promise<GuestSubmitter> {
+    const accessToken = await storage.consumeGuestAccessToken(hashGuestAccessToken(token));
+    let guest: GuestSubmitter | undefined;
+    if (accessToken?.pendingGuestSubmitterId) {
+      guest = await storage.confirmPendingGuestSubmitter(accessToken.pendingGuestSubmitterId);
+    } else if (accessToken?.guestSubmitterId) {
+      guest = await storage.getGuestSubmitter(accessToken.guestSubmitterId);
+    }
+    if (!guest) {
+      throw new BadRequestError('This sign-in link is invalid or has expired; request a new one');
+    }
+
+    await storage.markGuestSubmitterVerified(guest.id);
+    return { ...guest, emailVerifiedAt: guest.emailVerifiedAt ?? new Date() };
+  }
+
+  async getGuest(guestSubmitterId: number): Promise<GuestSubmitter> {
+    const guest = await storage.getGuestSubmitter(guestSubmitterId);
+    if (!guest) {
+      throw new NotFoundError('Guest submitter not found');
+    }
+    return guest;
+  }
+
+  async listSubmissions(guestSubmitterId: number): Promise<GuestSubmissionView[]> {
+    const entries = await storage.listGuestSubmissions(guestSubmitterId);
+    return entries.map(entry => withholdDraftFeedback(entry));
+  }
+
+  /**
+   * Move a guest's submissions to an account and remove the guest
+   */
+  async mergeIntoUser(guestSubmitterId: number, user: User): Promise<number> {
+    if (user.role !== 'student') {
+      throw new ForbiddenError('Guest submissions can only be moved to a student account');
+    }
+    await this.getGuest(guestSubmitterId);
+    return storage.mergeGuestSubmitter(guestSubmitterId, user.id);
+  }
+
+  /**
+   * Merge the guest with the same email into an account that signed in with
+   * a verified address. Guests who never followed a sign-in link are left
+   * alone, since anyone can submit under any email. Returns the number of
+   * submissions moved.
+   */
+  async claimVerifiedEmail(user: User, emailVerified: boolean): Promise<number> {
+    if (!emailVerified || user.role !== 'student') {
+      return 0;
+    }
+    const guest = await storage.getGuestSubmitterByEmail(user.email);
+    if (!guest?.emailVerifiedAt) {
+      return 0;
+    }
+    return storage.mergeGuestSubmitter(guest.id, user.id);
+  }
+
+  private async emailAccessLink(
+    recipient: Pick<GuestSubmitter, 'name' | 'email'>,
+    owner: GuestAccessTokenOwner,
+    assignmentTitle?: string
+  ): Promise<void> {
+    const transport = this.getTransport();
+    if (!transport) {
+      logger.warn('No email transport configured; guest access link not sent', owner);
+      return;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await storage.createGuestAccessToken(
+      owner,
+      hashGuestAccessToken(token),
+      new Date(Date.now() + GUEST_ACCESS_LINK_HOURS * HOUR_MS)
+    );
+
+    const email = renderGuestAccessEmail({
+      recipientName: recipient.name,
+      accessPath: `/guest/access?token=${encodeURIComponent(token)}`,
+      assignmentTitle,
+      expiresInHours: GUEST_ACCESS_LINK_HOURS
+    });
+    await transport.send({ to: recipient.email, ...email });
+  }
+
+  private getTransport(): EmailTransport | null {
+    if (this.transport === undefined) {
+      this.transport = createEmailTransport();
+    }
+    return this.transport;
+  }
+}
+
+// Export a singleton instance
+export const guestSubmitterService = new GuestSubmitterService();
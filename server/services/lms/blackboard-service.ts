@@ -9,7 +9,7 @@
  */
 
 import fetch from 'node-fetch';
-import { logger } from '../lib/error-handler';
+import { logger } from '../../lib/error-handler';
 import { 
   BaseLmsService, 
   ConnectionTestResult, 
@@ -77,7 +77,7 @@ export class BlackboardService implements BaseLmsService {
       
       return this.accessToken;
     } catch (error) {
-      logger.error('Error getting Blackboard access token:', error);
+      logger.error('Error getting Blackboard access token:', { error });
       throw error;
     }
   }
@@ -166,7 +166,7 @@ export class BlackboardService implements BaseLmsService {
           : undefined
       }));
     } catch (error) {
-      logger.error('Error fetching Blackboard courses:', error);
+      logger.error('Error fetching Blackboard courses:', { error });
       throw error;
     }
   }
@@ -198,7 +198,7 @@ export class BlackboardService implements BaseLmsService {
         externalId: user.externalId
       }));
     } catch (error) {
-      logger.error(`Error fetching Blackboard students for course ${courseId}:`, error);
+      logger.error(`Error fetching Blackboard students for course ${courseId}:`, { error });
       throw error;
     }
   }
@@ -233,7 +233,7 @@ export class BlackboardService implements BaseLmsService {
           points: assignment.grading?.score?.possible || 100
         }));
     } catch (error) {
-      logger.error(`Error fetching Blackboard assignments for course ${courseId}:`, error);
+      logger.error(`Error fetching Blackboard assignments for course ${courseId}:`, { error });
       throw error;
     }
   }
@@ -268,7 +268,7 @@ export class BlackboardService implements BaseLmsService {
         gradedAt: entry.lastActivityDate ? new Date(entry.lastActivityDate) : undefined
       }));
     } catch (error) {
-      logger.error(`Error fetching Blackboard grades for assignment ${assignmentId}:`, error);
+      logger.error(`Error fetching Blackboard grades for assignment ${assignmentId}:`, { error });
       throw error;
     }
   }
@@ -302,7 +302,7 @@ export class BlackboardService implements BaseLmsService {
 
       return true;
     } catch (error) {
-      logger.error(`Error submitting Blackboard grade for student ${studentId}:`, error);
+      logger.error(`Error submitting Blackboard grade for student ${studentId}:`, { error });
       return false;
     }
   }
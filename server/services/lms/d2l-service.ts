@@ -0,0 +1,473 @@
+/**
+ * D2L Brightspace LMS Service Implementation
+ *
+ * This service provides integration with the Brightspace Valence API for:
+ * - OAuth2 authentication with refresh token rotation
+ * - Course synchronization
+ * - Roster synchronization into local enrollments
+ * - Grade passback of feedback scores into grade objects
+ *
+ * Brightspace issues a new refresh token every time one is used, so the
+ * rotated token is saved back to the credential after each refresh.
+ */
+
+import fetch from 'node-fetch';
+import { eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { logger } from '../../lib/error-handler';
+import {
+  BaseLmsService,
+  ConnectionTestResult,
+  CourseInfo,
+  StudentInfo,
+  AssignmentInfo,
+  GradeInfo,
+  SyncResult
+} from './base-lms-service';
+import { findCourseMapping, importRosterIntoCourse, collectReleasedScores, findByTitle, scaleScore } from './lms-sync-helpers';
+import { LmsCredential, lmsCredentials } from '../../../shared/schema';
+
+const DEFAULT_TOKEN_URL = 'https://auth.brightspace.com/core/connect/token';
+const DEFAULT_SCOPE = 'core:*:* enrollment:*:* grades:*:*';
+const LP_VERSION = process.env.D2L_LP_VERSION || '1.43';
+const LE_VERSION = process.env.D2L_LE_VERSION || '1.74';
+
+// Org unit type for course offerings
+const COURSE_OFFERING_TYPE_ID = 3;
+
+interface D2LPagedResultSet<T> {
+  PagingInfo: { Bookmark: string; HasMoreItems: boolean };
+  Items: T[];
+}
+
+interface D2LObjectListPage<T> {
+  Next: string | null;
+  Objects: T[];
+}
+
+interface D2LEnrollment {
+  OrgUnit: { Id: number; Name: string; Code: string | null; Type: { Id: number } };
+  Access?: { StartDate: string | null; EndDate: string | null };
+}
+
+interface D2LClasslistUser {
+  Identifier: string;
+  DisplayName: string;
+  Email: string | null;
+  OrgDefinedId: string | null;
+  ClasslistRoleDisplayName?: string;
+}
+
+interface D2LGradeObject {
+  Id: number;
+  Name: string;
+  GradeType: string;
+  MaxPoints?: number;
+  Description?: { Text: string; Html: string };
+}
+
+interface D2LGradeValue {
+  User: { Identifier: string; DisplayName: string };
+  GradeValue: {
+    PointsNumerator?: number | null;
+    PointsDenominator?: number | null;
+    Comments?: { Text: string; Html: string };
+    LastModified?: string | null;
+    ReleasedDate?: string | null;
+  } | null;
+}
+
+export class D2LService implements BaseLmsService {
+  private credential: LmsCredential;
+  private accessToken: string | null = null;
+  private tokenExpires: Date | null = null;
+
+  constructor(credential: LmsCredential) {
+    this.credential = credential;
+  }
+
+  /**
+   * Get base URL without a trailing slash
+   */
+  private get baseUrl(): string {
+    return this.credential.baseUrl.endsWith('/')
+      ? this.credential.baseUrl.slice(0, -1)
+      : this.credential.baseUrl;
+  }
+
+  private get lpUrl(): string {
+    return `${this.baseUrl}/d2l/api/lp/${LP_VERSION}`;
+  }
+
+  private get leUrl(): string {
+    return `${this.baseUrl}/d2l/api/le/${LE_VERSION}`;
+  }
+
+  /**
+   * Get authorization token for the Valence API.
+   * Uses the stored refresh token when there is one, otherwise falls back to
+   * the client credentials grant.
+   */
+  private async getAccessToken(): Promise<string> {
+    // Check if we have a valid token
+    if (this.accessToken && this.tokenExpires && this.tokenExpires > new Date()) {
+      return this.accessToken;
+    }
+
+    try {
+      const params: Record<string, string> = this.credential.refreshToken
+        ? { grant_type: 'refresh_token', refresh_token: this.credential.refreshToken }
+        : { grant_type: 'client_credentials', scope: process.env.D2L_SCOPE || DEFAULT_SCOPE };
+
+      const response = await fetch(process.env.D2L_TOKEN_URL || DEFAULT_TOKEN_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({
+          ...params,
+          client_id: this.credential.clientId,
+          client_secret: this.credential.clientSecret
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to get access token: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const data = await response.json() as { access_token: string; expires_in: number; refresh_token?: string };
+      this.accessToken = data.access_token;
+
+      // Set token expiration (subtract 60 seconds for safety)
+      const expiresIn = (data.expires_in - 60) * 1000;
+      this.tokenExpires = new Date(Date.now() + expiresIn);
+
+      if (data.refresh_token && data.refresh_token !== this.credential.refreshToken) {
+        await this.saveRefreshToken(data.refresh_token);
+      }
+
+      return this.accessToken;
+    } catch (error) {
+      logger.error('Error getting D2L access token:', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Persist a rotated refresh token; the previous one is no longer valid
+   */
+  private async saveRefreshToken(refreshToken: string): Promise<void> {
+    this.credential = { ...this.credential, refreshToken };
+
+    // Temporary credentials (e.g. connection tests) are not stored
+    if (!this.credential.id) return;
+
+    await db.update(lmsCredentials)
+      .set({ refreshToken, updatedAt: new Date() })
+      .where(eq(lmsCredentials.id, this.credential.id));
+  }
+
+  /**
+   * Create authorization headers with token
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    const token = await this.getAccessToken();
+    return {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    };
+  }
+
+  /**
+   * Perform an authenticated request against the Valence API
+   */
+  private async request<T>(url: string, init: { method?: string; body?: unknown } = {}): Promise<T> {
+    const headers = await this.getHeaders();
+    const response = await fetch(url, {
+      method: init.method || 'GET',
+      headers,
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined
+    });
+
+    if (!response.ok) {
+      throw new Error(`D2L API error: ${response.status} ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
+  /**
+   * Test the connection to Brightspace
+   */
+  async testConnection(credential: LmsCredential): Promise<ConnectionTestResult> {
+    try {
+      // Use the provided credential for this test
+      this.credential = credential;
+      this.accessToken = null;
+      this.tokenExpires = null;
+
+      const whoami = await this.request<{ Identifier: string; FirstName: string; LastName: string; UniqueName: string }>(
+        `${this.lpUrl}/users/whoami`
+      );
+
+      return {
+        success: true,
+        message: 'Successfully connected to D2L Brightspace API',
+        details: { userId: whoami.Identifier, username: whoami.UniqueName }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error connecting to D2L Brightspace API: ${error instanceof Error ? error.message : String(error)}`,
+        details: { error: String(error) }
+      };
+    }
+  }
+
+  /**
+   * Get all course offerings the API user is enrolled in
+   */
+  async getCourses(): Promise<CourseInfo[]> {
+    try {
+      const courses: CourseInfo[] = [];
+      let bookmark: string | null = null;
+
+      do {
+        const query = new URLSearchParams({ orgUnitTypeId: String(COURSE_OFFERING_TYPE_ID) });
+        if (bookmark) query.set('bookmark', bookmark);
+
+        const page: D2LPagedResultSet<D2LEnrollment> = await this.request<D2LPagedResultSet<D2LEnrollment>>(
+          `${this.lpUrl}/enrollments/myenrollments/?${query.toString()}`
+        );
+
+        for (const item of page.Items) {
+          courses.push({
+            id: String(item.OrgUnit.Id),
+            name: item.OrgUnit.Name,
+            code: item.OrgUnit.Code || undefined,
+            startDate: item.Access?.StartDate ? new Date(item.Access.StartDate) : undefined,
+            endDate: item.Access?.EndDate ? new Date(item.Access.EndDate) : undefined
+          });
+        }
+
+        bookmark = page.PagingInfo.HasMoreItems ? page.PagingInfo.Bookmark : null;
+      } while (bookmark);
+
+      return courses;
+    } catch (error) {
+      logger.error('Error fetching D2L courses:', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all students enrolled in a specific course offering
+   */
+  async getStudentsInCourse(courseId: string): Promise<StudentInfo[]> {
+    try {
+      const classlist = await this.request<D2LClasslistUser[]>(`${this.leUrl}/${courseId}/classlist/`);
+
+      return classlist
+        .filter(user => /student|learner/i.test(user.ClasslistRoleDisplayName || 'Student'))
+        .map(user => ({
+          id: user.Identifier,
+          name: user.DisplayName,
+          email: user.Email || '',
+          externalId: user.OrgDefinedId || undefined
+        }));
+    } catch (error) {
+      logger.error(`Error fetching D2L students for course ${courseId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the numeric grade objects for a specific course offering
+   */
+  async getAssignmentsInCourse(courseId: string): Promise<AssignmentInfo[]> {
+    try {
+      const gradeObjects = await this.request<D2LGradeObject[]>(`${this.leUrl}/${courseId}/grades/`);
+
+      return gradeObjects
+        .filter(gradeObject => gradeObject.GradeType === 'Numeric')
+        .map(gradeObject => ({
+          id: String(gradeObject.Id),
+          title: gradeObject.Name,
+          description: gradeObject.Description?.Text || '',
+          points: gradeObject.MaxPoints || 100
+        }));
+    } catch (error) {
+      logger.error(`Error fetching D2L grade objects for course ${courseId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get grades for all students for a specific grade object
+   */
+  async getGradesForAssignment(courseId: string, assignmentId: string): Promise<GradeInfo[]> {
+    try {
+      const grades: GradeInfo[] = [];
+      let next: string | null = `${this.leUrl}/${courseId}/grades/${assignmentId}/values/`;
+
+      while (next) {
+        const page: D2LObjectListPage<D2LGradeValue> = await this.request<D2LObjectListPage<D2LGradeValue>>(next);
+
+        for (const entry of page.Objects) {
+          const value = entry.GradeValue;
+          if (!value || value.PointsNumerator === null || value.PointsNumerator === undefined) continue;
+
+          grades.push({
+            studentId: entry.User.Identifier,
+            assignmentId,
+            score: value.PointsNumerator,
+            maxScore: value.PointsDenominator || 100,
+            comment: value.Comments?.Text || '',
+            gradedAt: value.LastModified ? new Date(value.LastModified) : undefined
+          });
+        }
+
+        next = page.Next;
+      }
+
+      return grades;
+    } catch (error) {
+      logger.error(`Error fetching D2L grades for grade object ${assignmentId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a grade for a student on a specific grade object
+   */
+  async submitGradeForStudent(
+    courseId: string,
+    assignmentId: string,
+    studentId: string,
+    grade: GradeInfo
+  ): Promise<boolean> {
+    try {
+      await this.request(`${this.leUrl}/${courseId}/grades/${assignmentId}/values/${studentId}`, {
+        method: 'PUT',
+        body: {
+          GradeObjectType: 1, // Numeric
+          PointsNumerator: grade.score,
+          Comments: { Content: grade.comment || '', Type: 'Text' },
+          PrivateComments: { Content: '', Type: 'Text' }
+        }
+      });
+
+      return true;
+    } catch (error) {
+      logger.error(`Error submitting D2L grade for student ${studentId}:`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Synchronize the course offering's students into local enrollments
+   */
+  async syncRoster(courseId: string): Promise<SyncResult> {
+    try {
+      const mapping = await findCourseMapping(this.credential.id, courseId);
+      if (!mapping) {
+        throw new Error(`No local course is mapped to D2L course ${courseId}`);
+      }
+
+      const students = await this.getStudentsInCourse(courseId);
+      const imported = await importRosterIntoCourse(mapping.courseId, students);
+
+      return {
+        success: imported.errors.length === 0,
+        syncedCount: imported.enrolled + imported.alreadyEnrolled,
+        errors: imported.errors,
+        details: {
+          courseId: mapping.courseId,
+          enrolled: imported.enrolled,
+          alreadyEnrolled: imported.alreadyEnrolled,
+          usersCreated: imported.usersCreated
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        syncedCount: 0,
+        errors: [error instanceof Error ? error.message : String(error)],
+        details: { error: String(error) }
+      };
+    }
+  }
+
+  /**
+   * Pass released feedback scores back into a D2L grade object.
+   * The grade object is matched to the local assignment with the same title in
+   * the mapped course, and students are matched by email. Feedback scores are
+   * percentages, so they are scaled to the grade object's maximum points.
+   */
+  async syncGrades(courseId: string, assignmentId: string): Promise<SyncResult> {
+    try {
+      const mapping = await findCourseMapping(this.credential.id, courseId);
+      if (!mapping) {
+        throw new Error(`No local course is mapped to D2L course ${courseId}`);
+      }
+
+      const gradeObject = (await this.getAssignmentsInCourse(courseId)).find(a => a.id === assignmentId);
+      if (!gradeObject) {
+        throw new Error(`D2L grade object ${assignmentId} was not found or is not numeric`);
+      }
+
+      const localAssignment = findByTitle(await storage.listAssignments(mapping.courseId), gradeObject.title);
+      if (!localAssignment) {
+        throw new Error(`No assignment titled "${gradeObject.title}" in the mapped course`);
+      }
+
+      const students = await this.getStudentsInCourse(courseId);
+      const studentsByEmail = new Map(students.map(student => [student.email.toLowerCase(), student]));
+      const maxPoints = gradeObject.points || 100;
+
+      const scores = await collectReleasedScores(localAssignment.id);
+      const errors: string[] = [];
+      let syncedCount = 0;
+
+      for (const entry of scores) {
+        const student = studentsByEmail.get(entry.email);
+        if (!student) {
+          errors.push(`${entry.email} is not enrolled in D2L course ${courseId}`);
+          continue;
+        }
+
+        const ok = await this.submitGradeForStudent(courseId, assignmentId, student.id, {
+          studentId: student.id,
+          assignmentId,
+          score: scaleScore(entry.score, maxPoints),
+          maxScore: maxPoints,
+          comment: entry.comment
+        });
+
+        if (ok) {
+          syncedCount++;
+        } else {
+          errors.push(`Failed to submit grade for ${entry.email}`);
+        }
+      }
+
+      return {
+        success: errors.length === 0,
+        syncedCount,
+        errors,
+        details: { assignmentId: localAssignment.id, gradeObjectId: assignmentId, candidates: scores.length }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        syncedCount: 0,
+        errors: [error instanceof Error ? error.message : String(error)],
+        details: { error: String(error) }
+      };
+    }
+  }
+}
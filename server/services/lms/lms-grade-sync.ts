@@ -0,0 +1,322 @@
+/**
+ * LMS Grade Sync
+ *
+ * Automatic grade passback to mapped LMS courses. When feedback is released
+ * for a submission whose course has an LMS mapping with automatic grade sync
+ * turned on, the submission is marked pending. A scheduler sends pending
+ * grades with the provider's submitGradeForStudent and retries failures with
+ * exponential backoff. The outcome is kept on the submission so instructors
+ * can see which grades reached the LMS.
+ *
+ * A worker claims a grade by moving it from pending to in_progress in one
+ * conditional update, so two workers never send the same grade. The claim
+ * is a lease: if the worker stops before recording the outcome, the grade
+ * is picked up again once lmsSyncNextAttemptAt has passed.
+ */
+
+import { and, asc, eq, isNull, lte, or } from 'drizzle-orm';
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { logger } from '../../lib/error-handler';
+import { inboxService } from '../notifications/inbox-service';
+import { lmsServiceFactory } from './lms-service-factory';
+import { findByTitle, getReleasedGrade, scaleScore } from './lms-sync-helpers';
+import {
+  lmsCourseMappings,
+  lmsCredentials,
+  submissions,
+  type LmsCourseMapping,
+  type Submission
+} from '../../../shared/schema';
+
+export const MAX_SYNC_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 25;
+const SYNC_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after a failure: 1, 2, 4, 8... minutes,
+ * capped at an hour
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+export class LmsGradeSyncService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+
+  /**
+   * All LMS mappings of a course
+   */
+  async listCourseMappings(courseId: number): Promise<LmsCourseMapping[]> {
+    return db.select().from(lmsCourseMappings).where(eq(lmsCourseMappings.courseId, courseId));
+  }
+
+  /**
+   * Mappings of a course that push grades automatically
+   */
+  async listAutoSyncMappings(courseId: number): Promise<LmsCourseMapping[]> {
+    return db.select()
+      .from(lmsCourseMappings)
+      .where(and(
+        eq(lmsCourseMappings.courseId, courseId),
+        eq(lmsCourseMappings.syncEnabled, true),
+        eq(lmsCourseMappings.autoGradeSync, true)
+      ));
+  }
+
+  /**
+   * Turn automatic grade sync on or off for every LMS mapping of a course
+   */
+  async setCourseAutoSync(courseId: number, enabled: boolean): Promise<LmsCourseMapping[]> {
+    return db.update(lmsCourseMappings)
+      .set({ autoGradeSync: enabled, updatedAt: new Date() })
+      .where(eq(lmsCourseMappings.courseId, courseId))
+      .returning();
+  }
+
+  /**
+   * Mark a submission's grade for sync if its course pushes grades
+   * automatically. Returns whether the submission was queued.
+   */
+  async queueSubmission(submissionId: number): Promise<boolean> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) return false;
+
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment) return false;
+
+    const mappings = await this.listAutoSyncMappings(assignment.courseId);
+    if (mappings.length === 0) return false;
+
+    await db.update(submissions)
+      .set({
+        lmsSyncStatus: 'pending',
+        lmsSyncAttempts: 0,
+        lmsSyncError: null,
+        lmsSyncNextAttemptAt: new Date()
+      })
+      .where(eq(submissions.id, submissionId));
+    return true;
+  }
+
+  /**
+   * Send every pending grade that is due, along with grades whose worker's
+   * lease ran out. Returns the number of grades synced.
+   */
+  async processDueSubmissions(): Promise<number> {
+    if (this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+      const due = await db.select()
+        .from(submissions)
+        .where(or(
+          and(
+            eq(submissions.lmsSyncStatus, 'pending'),
+            or(isNull(submissions.lmsSyncNextAttemptAt), lte(submissions.lmsSyncNextAttemptAt, now))
+          ),
+          and(
+            eq(submissions.lmsSyncStatus, 'in_progress'),
+            lte(submissions.lmsSyncNextAttemptAt, now)
+          )
+        ))
+        .orderBy(asc(submissions.lmsSyncNextAttemptAt))
+        .limit(BATCH_SIZE);
+
+      let synced = 0;
+      for (const submission of due) {
+        if (await this.processSubmission(submission)) synced++;
+      }
+      return synced;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Send the student's grade to every LMS course the assignment's course is
+   * mapped to, once the submission's feedback is released. The grade is the
+   * counted attempt's late-adjusted score. Throws if any mapping fails.
+   */
+  async syncSubmission(submission: Submission): Promise<void> {
+    const item = await storage.getFeedbackBySubmissionId(submission.id);
+    if (!item || item.status === 'draft' || item.score === null || item.score === undefined) {
+      throw new Error('Submission has no released score');
+    }
+
+    if (submission.userId === null) {
+      throw new Error('Guest submissions have no LMS student to sync');
+    }
+
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    const user = await storage.getUser(submission.userId);
+    if (!assignment || !user) {
+      throw new Error('Assignment or student no longer exists');
+    }
+
+    const grade = await getReleasedGrade(assignment.id, user.id);
+    if (!grade) {
+      throw new Error('Submission has no released score');
+    }
+
+    const mappings = await this.listAutoSyncMappings(assignment.courseId);
+    if (mappings.length === 0) {
+      throw new Error('Automatic grade sync is turned off for this course');
+    }
+
+    for (const mapping of mappings) {
+      const [credential] = await db.select().from(lmsCredentials).where(eq(lmsCredentials.id, mapping.credentialId));
+      if (!credential || !credential.active) {
+        throw new Error(`LMS credential ${mapping.credentialId} is missing or inactive`);
+      }
+
+      const service = lmsServiceFactory.createService(credential);
+
+      const lmsAssignment = findByTitle(await service.getAssignmentsInCourse(mapping.lmsCourseId), assignment.title);
+      if (!lmsAssignment) {
+        throw new Error(`No ${credential.provider} assignment titled "${assignment.title}" in course ${mapping.lmsCourseId}`);
+      }
+
+      const email = user.email.toLowerCase();
+      const student = (await service.getStudentsInCourse(mapping.lmsCourseId))
+        .find(candidate => candidate.email?.toLowerCase() === email);
+      if (!student) {
+        throw new Error(`${email} is not enrolled in ${credential.provider} course ${mapping.lmsCourseId}`);
+      }
+
+      const maxPoints = lmsAssignment.points || 100;
+      const ok = await service.submitGradeForStudent(mapping.lmsCourseId, lmsAssignment.id, student.id, {
+        studentId: student.id,
+        assignmentId: lmsAssignment.id,
+        score: scaleScore(grade.adjustedScore, maxPoints),
+        maxScore: maxPoints,
+        comment: grade.comment || undefined
+      });
+      if (!ok) {
+        throw new Error(`${credential.provider} rejected the grade for ${email}`);
+      }
+    }
+  }
+
+  /**
+   * Start the scheduler that sends pending grades
+   */
+  start(intervalMinutes: number = 1): void {
+    if (this.isRunning) {
+      logger.info('LMS grade sync scheduler already running');
+      return;
+    }
+
+    logger.info(`Starting LMS grade sync every ${intervalMinutes} minutes`);
+    this.intervalId = setInterval(() => {
+      this.processDueSubmissions().catch(error => {
+        logger.error('LMS grade sync cycle failed', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, intervalMinutes * 60 * 1000);
+    this.isRunning = true;
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+  }
+
+  /**
+   * Check if the scheduler is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Claim one submission, attempt it and record the outcome, scheduling a
+   * retry or giving up after MAX_SYNC_ATTEMPTS. Returns false without
+   * syncing when another worker claimed the submission first.
+   */
+  private async processSubmission(submission: Submission): Promise<boolean> {
+    const leaseExpired = submission.lmsSyncStatus === 'in_progress';
+
+    // Only the worker whose update still sees the row as selected gets it
+    const [claimed] = await db.update(submissions)
+      .set({
+        lmsSyncStatus: 'in_progress',
+        lmsSyncAttempts: submission.lmsSyncAttempts + 1,
+        lmsSyncNextAttemptAt: new Date(Date.now() + SYNC_LEASE_MS)
+      })
+      .where(and(
+        eq(submissions.id, submission.id),
+        eq(submissions.lmsSyncStatus, leaseExpired ? 'in_progress' : 'pending'),
+        eq(submissions.lmsSyncAttempts, submission.lmsSyncAttempts)
+      ))
+      .returning();
+    if (!claimed) return false;
+
+    const attempts: number = claimed.lmsSyncAttempts;
+    if (leaseExpired) {
+      logger.warn(`Requeued LMS grade sync for submission ${submission.id} after its lease expired`, { attempts });
+      if (attempts > MAX_SYNC_ATTEMPTS) {
+        await this.recordFailure(submission.id, attempts, 'Grade sync was interrupted before it finished');
+        return false;
+      }
+    }
+
+    try {
+      await this.syncSubmission(claimed);
+      await db.update(submissions)
+        .set({
+          lmsSyncStatus: 'completed',
+          lmsSyncError: null,
+          lmsSyncNextAttemptAt: null,
+          lmsSyncedAt: new Date()
+        })
+        .where(and(eq(submissions.id, submission.id), eq(submissions.lmsSyncAttempts, attempts)));
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordFailure(submission.id, attempts, message);
+      return false;
+    }
+  }
+
+  /**
+   * Schedule the next attempt of a claimed submission, or mark it failed and
+   * tell the instructor once it has used every attempt. The outcome is
+   * dropped if the lease expired and another worker has claimed it since.
+   */
+  private async recordFailure(submissionId: number, attempts: number, message: string): Promise<void> {
+    const giveUp = attempts >= MAX_SYNC_ATTEMPTS;
+
+    logger.warn(`LMS grade sync failed for submission ${submissionId}`, { attempts, giveUp, error: message });
+
+    await db.update(submissions)
+      .set({
+        lmsSyncStatus: giveUp ? 'failed' : 'pending',
+        lmsSyncError: message,
+        lmsSyncNextAttemptAt: giveUp ? null : new Date(Date.now() + retryDelayMs(attempts))
+      })
+      .where(and(eq(submissions.id, submissionId), eq(submissions.lmsSyncAttempts, attempts)));
+
+    if (giveUp) {
+      inboxService.notifyLmsSyncFailed(submissionId, message).catch(notifyError => {
+        logger.error('Failed to notify instructor about LMS grade sync failure', {
+          submissionId,
+          error: notifyError instanceof Error ? notifyError.message : String(notifyError)
+        });
+      });
+    }
+  }
+}
+
+// Export a singleton instance
+export const lmsGradeSync = new LmsGradeSyncService();
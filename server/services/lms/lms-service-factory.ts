@@ -9,6 +9,8 @@ import { LmsCredential } from '../../../shared/schema';
 import { BaseLmsService } from './base-lms-service';
 import { CanvasService } from './canvas-service';
 import { BlackboardService } from './blackboard-service';
+import { MoodleService } from './moodle-service';
+import { D2LService } from './d2l-service';
 
 class LmsServiceFactory {
   /**
@@ -21,13 +23,9 @@ class LmsServiceFactory {
       case 'blackboard':
         return new BlackboardService(credential);
       case 'moodle':
-        // For now, we'll throw an error for unimplemented providers
-        // In the future, we would implement MoodleService
-        throw new Error('Moodle LMS integration is not yet implemented');
+        return new MoodleService(credential);
       case 'd2l':
-        // For now, we'll throw an error for unimplemented providers
-        // In the future, we would implement D2LService
-        throw new Error('D2L Brightspace integration is not yet implemented');
+        return new D2LService(credential);
       default:
         throw new Error(`Unknown LMS provider: ${credential.provider}`);
     }
@@ -0,0 +1,188 @@
+/**
+ * LMS Sync Helpers
+ *
+ * Provider-independent pieces of roster and grade synchronization:
+ * - Resolving which local course an LMS course is mapped to
+ * - Provisioning and enrolling students from an LMS roster
+ * - Collecting the counted, late-penalty-adjusted grades for passback
+ * - Matching local assignments to LMS assignments and scaling scores
+ */
+
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { lmsCourseMappings, type Assignment, type Feedback, type LmsCourseMapping, type Submission } from '../../../shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { StudentInfo } from './base-lms-service';
+import { effectiveDueDate, selectCountedAttempt, type CountedAttempt } from '../../utils/late-policy';
+
+export interface RosterImportResult {
+  enrolled: number;
+  alreadyEnrolled: number;
+  usersCreated: number;
+  errors: string[];
+}
+
+export interface ReleasedScore {
+  userId: number;
+  email: string;
+  score: number;
+  comment: string;
+}
+
+export type ReleasedAttempt = CountedAttempt<{ createdAt: Date; score: number | null; comment: string }>;
+
+/**
+ * Find the local course mapping for an LMS course under a credential
+ */
+export async function findCourseMapping(credentialId: number, lmsCourseId: string): Promise<LmsCourseMapping | undefined> {
+  const [mapping] = await db.select()
+    .from(lmsCourseMappings)
+    .where(and(
+      eq(lmsCourseMappings.credentialId, credentialId),
+      eq(lmsCourseMappings.lmsCourseId, lmsCourseId)
+    ));
+  return mapping;
+}
+
+/**
+ * Build a unique username from an email address, the same way SSO sign-up does
+ */
+export function usernameFromEmail(email: string): string {
+  const prefix = email.split('@')[0]
+    .replace(/[^a-zA-Z0-9._-]/g, '')
+    .toLowerCase();
+  const randomSuffix = Math.floor(Math.random() * 10000);
+  const timestamp = Date.now().toString().slice(-4);
+  return `${prefix}_${randomSuffix}${timestamp}`;
+}
+
+/**
+ * Enroll LMS students into a local course, matching users by email.
+ * Students without an account get a password-less student account so they
+ * can sign in through SSO.
+ */
+export async function importRosterIntoCourse(courseId: number, students: StudentInfo[]): Promise<RosterImportResult> {
+  const result: RosterImportResult = { enrolled: 0, alreadyEnrolled: 0, usersCreated: 0, errors: [] };
+
+  for (const student of students) {
+    if (!student.email) {
+      result.errors.push(`Student ${student.name} (${student.id}) has no email address`);
+      continue;
+    }
+
+    try {
+      const email = student.email.toLowerCase();
+      let user = await storage.getUserByEmail(email);
+
+      if (!user) {
+        user = await storage.createUser({
+          name: student.name,
+          username: usernameFromEmail(email),
+          email,
+          password: null,
+          role: 'student',
+          auth0Sub: null,
+          mitHorizonSub: null,
+          emailVerified: false,
+          mfaEnabled: false,
+          mfaSecret: null
+        });
+        result.usersCreated++;
+      }
+
+      const existing = await storage.getEnrollment(user.id, courseId);
+      if (existing) {
+        result.alreadyEnrolled++;
+        continue;
+      }
+
+      await storage.createEnrollment({ userId: user.id, courseId });
+      result.enrolled++;
+    } catch (error) {
+      result.errors.push(`Failed to enroll ${student.email}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The attempt that counts as a student's grade among those with released,
+ * scored feedback: the latest or best one per the assignment's submission
+ * policy, with its late penalty applied in `adjustedScore`. That adjusted
+ * score is what leaves the system, never the raw feedback score.
+ */
+export function selectReleasedAttempt(
+  submissions: (Submission & { feedback: Feedback | null })[],
+  assignment: Pick<Assignment, 'dueDate' | 'submissionPolicy'>,
+  extension?: { dueDate: Date } | null
+): ReleasedAttempt | undefined {
+  const released = submissions.flatMap(submission => {
+    const item = submission.feedback;
+    if (submission.status === 'failed' || !item || item.status === 'draft' || item.score === null || item.score === undefined) {
+      return [];
+    }
+    return [{ createdAt: submission.createdAt, score: item.score, comment: item.summary || '' }];
+  });
+  return selectCountedAttempt(released, effectiveDueDate(assignment.dueDate, extension), assignment.submissionPolicy);
+}
+
+/**
+ * A student's counted grade on an assignment, taking their extension into
+ * account. Undefined when none of their attempts has a released score.
+ */
+export async function getReleasedGrade(assignmentId: number, userId: number): Promise<ReleasedAttempt | undefined> {
+  const assignment = await storage.getAssignment(assignmentId);
+  if (!assignment) return undefined;
+
+  const submissions = await storage.listSubmissionsWithFeedbackForAssignment(assignmentId, userId);
+  const extension = await storage.getAssignmentExtension(assignmentId, userId);
+  return selectReleasedAttempt(submissions, assignment, extension);
+}
+
+/**
+ * Get the grade to pass back for each student on an assignment: their
+ * counted attempt's adjusted score.
+ */
+export async function collectReleasedScores(assignmentId: number): Promise<ReleasedScore[]> {
+  const assignment = await storage.getAssignment(assignmentId);
+  if (!assignment) return [];
+
+  const submissions = await storage.listSubmissionsWithFeedbackForAssignment(assignmentId);
+  const extensions = await storage.listAssignmentExtensions(assignmentId);
+
+  const attemptsByUser = new Map<number, typeof submissions>();
+  for (const submission of submissions) {
+    if (submission.userId === null) continue; // Guest submission
+    attemptsByUser.set(submission.userId, [...(attemptsByUser.get(submission.userId) || []), submission]);
+  }
+
+  const scores: ReleasedScore[] = [];
+  for (const [userId, attempts] of Array.from(attemptsByUser.entries())) {
+    const counted = selectReleasedAttempt(attempts, assignment, extensions.find(extension => extension.userId === userId));
+    if (!counted) continue;
+
+    const user = await storage.getUser(userId);
+    if (!user) continue;
+    scores.push({ userId, email: user.email.toLowerCase(), score: counted.adjustedScore, comment: counted.comment });
+  }
+  return scores;
+}
+
+/**
+ * Find the assignment with the same title, ignoring case and surrounding
+ * whitespace. Assignments are matched by title because there is no stored
+ * mapping between local and LMS assignments.
+ */
+export function findByTitle<T extends { title: string }>(items: T[], title: string): T | undefined {
+  const wanted = title.trim().toLowerCase();
+  return items.find(item => item.title.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Convert a 0-100 feedback score to the LMS assignment's point scale,
+ * rounded to two decimals
+ */
+export function scaleScore(score: number, maxPoints: number): number {
+  return Math.round(score / 100 * maxPoints * 100) / 100;
+}
@@ -0,0 +1,362 @@
+/**
+ * Moodle LMS Service Implementation
+ *
+ * This service provides integration with the Moodle web services REST API for:
+ * - Token validation
+ * - Course synchronization
+ * - Grade posting
+ * - Roster synchronization
+ *
+ * Moodle authenticates web service calls with a pre-issued token rather than
+ * an OAuth flow, so the credential's clientSecret holds the web service token.
+ * The clientId is the short name of the external service the token belongs to.
+ */
+
+import fetch from 'node-fetch';
+import { logger } from '../../lib/error-handler';
+import {
+  BaseLmsService,
+  ConnectionTestResult,
+  CourseInfo,
+  StudentInfo,
+  AssignmentInfo,
+  GradeInfo,
+  SyncResult
+} from './base-lms-service';
+import { LmsCredential } from '../../../shared/schema';
+
+type MoodleParams = Record<string, string | number | (string | number)[] | Record<string, unknown>>;
+
+interface MoodleException {
+  exception: string;
+  errorcode: string;
+  message: string;
+}
+
+interface MoodleSiteInfo {
+  sitename: string;
+  username: string;
+  userid: number;
+  release?: string;
+  functions?: { name: string }[];
+}
+
+interface MoodleCourse {
+  id: number;
+  fullname: string;
+  shortname: string;
+  format?: string;
+  startdate?: number;
+  enddate?: number;
+}
+
+interface MoodleEnrolledUser {
+  id: number;
+  fullname: string;
+  email?: string;
+  idnumber?: string;
+  roles?: { shortname: string }[];
+}
+
+interface MoodleAssignment {
+  id: number;
+  name: string;
+  intro?: string;
+  duedate?: number;
+  grade?: number;
+}
+
+interface MoodleAssignmentsResponse {
+  courses: { id: number; assignments: MoodleAssignment[] }[];
+}
+
+interface MoodleGradesResponse {
+  assignments: {
+    assignmentid: number;
+    grades: { userid: number; grade: string; timecreated?: number; timemodified?: number }[];
+  }[];
+}
+
+/**
+ * Flatten nested parameters into Moodle's bracket notation
+ * e.g. { courseids: [3] } becomes courseids[0]=3
+ */
+function encodeMoodleParams(params: MoodleParams, prefix = '', body = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (value !== null && typeof value === 'object') {
+      encodeMoodleParams(value as MoodleParams, name, body);
+    } else if (value !== undefined) {
+      body.append(name, String(value));
+    }
+  }
+  return body;
+}
+
+/**
+ * Moodle timestamps are Unix seconds, with 0 meaning "not set"
+ */
+function fromMoodleTime(seconds?: number): Date | undefined {
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+export class MoodleService implements BaseLmsService {
+  private credential: LmsCredential;
+
+  constructor(credential: LmsCredential) {
+    this.credential = credential;
+  }
+
+  /**
+   * Get the web services REST endpoint
+   */
+  private get apiUrl(): string {
+    const baseUrl = this.credential.baseUrl.endsWith('/')
+      ? this.credential.baseUrl.slice(0, -1)
+      : this.credential.baseUrl;
+    return `${baseUrl}/webservice/rest/server.php`;
+  }
+
+  /**
+   * Call a Moodle web service function.
+   * Moodle reports most failures with a 200 response containing an exception
+   * object, so both the HTTP status and the body are checked.
+   */
+  private async call<T>(wsfunction: string, params: MoodleParams = {}): Promise<T> {
+    const body = encodeMoodleParams({
+      wstoken: this.credential.clientSecret,
+      wsfunction,
+      moodlewsrestformat: 'json',
+      ...params
+    });
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body
+    });
+
+    if (!response.ok) {
+      throw new Error(`Moodle API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as T | MoodleException | null;
+    if (data && typeof data === 'object' && 'exception' in data) {
+      throw new Error(`Moodle API error (${data.errorcode}): ${data.message}`);
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Test the connection to Moodle
+   */
+  async testConnection(credential: LmsCredential): Promise<ConnectionTestResult> {
+    try {
+      // Use the provided credential for this test
+      this.credential = credential;
+
+      const siteInfo = await this.call<MoodleSiteInfo>('core_webservice_get_site_info');
+
+      return {
+        success: true,
+        message: `Successfully connected to Moodle site "${siteInfo.sitename}"`,
+        details: {
+          siteName: siteInfo.sitename,
+          username: siteInfo.username,
+          release: siteInfo.release,
+          functionCount: siteInfo.functions?.length ?? 0
+        }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Error connecting to Moodle API: ${error instanceof Error ? error.message : String(error)}`,
+        details: { error: String(error) }
+      };
+    }
+  }
+
+  /**
+   * Get all courses from Moodle
+   */
+  async getCourses(): Promise<CourseInfo[]> {
+    try {
+      const courses = await this.call<MoodleCourse[]>('core_course_get_courses');
+
+      // The front page is returned as a course with the "site" format
+      return courses
+        .filter(course => course.format !== 'site')
+        .map(course => ({
+          id: String(course.id),
+          name: course.fullname,
+          code: course.shortname,
+          startDate: fromMoodleTime(course.startdate),
+          endDate: fromMoodleTime(course.enddate)
+        }));
+    } catch (error) {
+      logger.error('Error fetching Moodle courses:', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all students enrolled in a specific course
+   */
+  async getStudentsInCourse(courseId: string): Promise<StudentInfo[]> {
+    try {
+      const users = await this.call<MoodleEnrolledUser[]>('core_enrol_get_enrolled_users', {
+        courseid: courseId
+      });
+
+      return users
+        .filter(user => user.roles?.some(role => role.shortname === 'student'))
+        .map(user => ({
+          id: String(user.id),
+          name: user.fullname,
+          email: user.email || '',
+          externalId: user.idnumber || undefined
+        }));
+    } catch (error) {
+      logger.error(`Error fetching Moodle students for course ${courseId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all assignments for a specific course
+   */
+  async getAssignmentsInCourse(courseId: string): Promise<AssignmentInfo[]> {
+    try {
+      const data = await this.call<MoodleAssignmentsResponse>('mod_assign_get_assignments', {
+        courseids: [courseId]
+      });
+
+      const course = data.courses.find(c => String(c.id) === courseId);
+
+      return (course?.assignments || []).map(assignment => ({
+        id: String(assignment.id),
+        title: assignment.name,
+        description: assignment.intro || '',
+        dueDate: fromMoodleTime(assignment.duedate),
+        // A negative grade refers to a scale rather than a point value
+        points: assignment.grade && assignment.grade > 0 ? assignment.grade : 100
+      }));
+    } catch (error) {
+      logger.error(`Error fetching Moodle assignments for course ${courseId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Get grades for all students for a specific assignment
+   */
+  async getGradesForAssignment(courseId: string, assignmentId: string): Promise<GradeInfo[]> {
+    try {
+      const [data, assignments] = await Promise.all([
+        this.call<MoodleGradesResponse>('mod_assign_get_grades', { assignmentids: [assignmentId] }),
+        this.getAssignmentsInCourse(courseId)
+      ]);
+
+      const maxScore = assignments.find(a => a.id === assignmentId)?.points || 100;
+      const grades = data.assignments.find(a => String(a.assignmentid) === assignmentId)?.grades || [];
+
+      // Ungraded entries are returned with a grade of -1
+      return grades
+        .filter(entry => parseFloat(entry.grade) >= 0)
+        .map(entry => ({
+          studentId: String(entry.userid),
+          assignmentId: assignmentId,
+          score: parseFloat(entry.grade),
+          maxScore,
+          submittedAt: fromMoodleTime(entry.timecreated),
+          gradedAt: fromMoodleTime(entry.timemodified)
+        }));
+    } catch (error) {
+      logger.error(`Error fetching Moodle grades for assignment ${assignmentId}:`, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a grade for a student on a specific assignment
+   */
+  async submitGradeForStudent(
+    courseId: string,
+    assignmentId: string,
+    studentId: string,
+    grade: GradeInfo
+  ): Promise<boolean> {
+    try {
+      await this.call<null>('mod_assign_save_grade', {
+        assignmentid: assignmentId,
+        userid: studentId,
+        grade: grade.score,
+        attemptnumber: -1,
+        addattempt: 0,
+        workflowstate: 'released',
+        applytoall: 0,
+        plugindata: {
+          assignfeedbackcomments_editor: {
+            text: grade.comment || '',
+            format: 1
+          }
+        }
+      });
+
+      return true;
+    } catch (error) {
+      logger.error(`Error submitting Moodle grade for student ${studentId}:`, { error });
+      return false;
+    }
+  }
+
+  /**
+   * Synchronize student roster from Moodle to local database
+   */
+  async syncRoster(courseId: string): Promise<SyncResult> {
+    try {
+      const students = await this.getStudentsInCourse(courseId);
+
+      return {
+        success: true,
+        syncedCount: students.length,
+        errors: [],
+        details: { students }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        syncedCount: 0,
+        errors: [error instanceof Error ? error.message : String(error)],
+        details: { error: String(error) }
+      };
+    }
+  }
+
+  /**
+   * Synchronize grades for an assignment from Moodle
+   */
+  async syncGrades(courseId: string, assignmentId: string): Promise<SyncResult> {
+    try {
+      const grades = await this.getGradesForAssignment(courseId, assignmentId);
+
+      return {
+        success: true,
+        syncedCount: grades.length,
+        errors: [],
+        details: { grades }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        syncedCount: 0,
+        errors: [error instanceof Error ? error.message : String(error)],
+        details: { error: String(error) }
+      };
+    }
+  }
+}
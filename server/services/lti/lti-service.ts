@@ -0,0 +1,784 @@
+/**
+ * LTI 1.3 Tool Service
+ *
+ * Lets any LTI 1.3 platform (Canvas, Moodle, Brightspace, Blackboard...)
+ * launch the app directly:
+ * - OIDC third-party login initiation
+ * - Launch id_token validation against the platform's JWKS
+ * - Provisioning of users and enrollments from launch claims. Existing
+ *   accounts are only linked after their owner signs in and confirms, and
+ *   launches never grant instructor or course staff access.
+ * - Deep Linking so instructors can embed an assignment in their course
+ * - Assignment and Grade Services (AGS) passback of feedback scores
+ *
+ * Login state is kept in the database rather than the session because the
+ * launch is a cross-site form post that does not carry the session cookie.
+ */
+
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import { and, eq, isNotNull, lt } from 'drizzle-orm';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  exportJWK,
+  generateKeyPair,
+  importPKCS8,
+  jwtVerify,
+  calculateJwkThumbprint,
+  SignJWT,
+  type JWK,
+  type JWTPayload
+} from 'jose';
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { logger, BadRequestError, UnauthorizedError, NotFoundError } from '../../lib/error-handler';
+import { getReleasedGrade, usernameFromEmail } from '../lms/lms-sync-helpers';
+import {
+  ltiPlatforms,
+  ltiLaunchStates,
+  ltiUserLinks,
+  ltiContexts,
+  ltiResourceLinks,
+  type LtiPlatform,
+  type User,
+  type Course,
+  type Assignment
+} from '../../../shared/schema';
+
+export const LTI_CLAIMS = {
+  messageType: 'https://purl.imsglobal.org/spec/lti/claim/message_type',
+  version: 'https://purl.imsglobal.org/spec/lti/claim/version',
+  deploymentId: 'https://purl.imsglobal.org/spec/lti/claim/deployment_id',
+  targetLinkUri: 'https://purl.imsglobal.org/spec/lti/claim/target_link_uri',
+  resourceLink: 'https://purl.imsglobal.org/spec/lti/claim/resource_link',
+  roles: 'https://purl.imsglobal.org/spec/lti/claim/roles',
+  context: 'https://purl.imsglobal.org/spec/lti/claim/context',
+  custom: 'https://purl.imsglobal.org/spec/lti/claim/custom',
+  agsEndpoint: 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint',
+  deepLinkingSettings: 'https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings',
+  deepLinkingContentItems: 'https://purl.imsglobal.org/spec/lti-dl/claim/content_items',
+  deepLinkingData: 'https://purl.imsglobal.org/spec/lti-dl/claim/data'
+} as const;
+
+export const AGS_SCORE_SCOPE = 'https://purl.imsglobal.org/spec/lti-ags/scope/score';
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+const ACCOUNT_LINK_TTL = '30m';
+const ACCOUNT_LINK_AUDIENCE = 'lti-account-link';
+const RESOURCE_LINK_AUDIENCE = 'lti-resource-link';
+
+// LMS roles that teach; unlinked instructors link an existing account rather
+// than getting a new student account
+const INSTRUCTOR_ROLE_PATTERN = /(^|#|\/)(Instructor|ContentDeveloper|Administrator)$/;
+
+export type LtiMessageType = 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest';
+
+export interface LtiLoginRequest {
+  iss?: string;
+  login_hint?: string;
+  target_link_uri?: string;
+  lti_message_hint?: string;
+  client_id?: string;
+  lti_deployment_id?: string;
+}
+
+export interface LtiLaunchClaims extends JWTPayload {
+  nonce?: string;
+  email?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  [LTI_CLAIMS.messageType]?: string;
+  [LTI_CLAIMS.version]?: string;
+  [LTI_CLAIMS.deploymentId]?: string;
+  [LTI_CLAIMS.resourceLink]?: { id: string; title?: string };
+  [LTI_CLAIMS.roles]?: string[];
+  [LTI_CLAIMS.context]?: { id: string; label?: string; title?: string };
+  [LTI_CLAIMS.custom]?: Record<string, string>;
+  [LTI_CLAIMS.agsEndpoint]?: { scope?: string[]; lineitem?: string; lineitems?: string };
+  [LTI_CLAIMS.deepLinkingSettings]?: { deep_link_return_url: string; data?: string; accept_types?: string[] };
+}
+
+export interface ValidatedLaunch {
+  platform: LtiPlatform;
+  messageType: LtiMessageType;
+  claims: LtiLaunchClaims;
+}
+
+/**
+ * What is needed to answer a deep linking request once the instructor has
+ * picked an assignment. Kept in the session between launch and response.
+ */
+export interface LtiDeepLinkContext {
+  platformId: number;
+  deploymentId: string;
+  returnUrl: string;
+  data?: string;
+}
+
+/**
+ * A platform user waiting for the owner of a local account to confirm the
+ * link between them
+ */
+export interface LtiAccountLink {
+  platformId: number;
+  platformName: string;
+  ltiUserId: string;
+  email: string | null;
+}
+
+export interface LtiLaunchResult {
+  // Null until an unlinked platform user links their account
+  user: User | null;
+  course: Course | null;
+  assignment: Assignment | null;
+  messageType: LtiMessageType;
+  deepLink: LtiDeepLinkContext | null;
+  // Signed token for the account linking page when user is null
+  accountLinkToken: string | null;
+}
+
+interface ToolKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: JWK;
+}
+
+/**
+ * Public base URL of the tool, used for the launch and deep link URLs that
+ * are registered with platforms
+ */
+export function getToolBaseUrl(): string {
+  return (process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '');
+}
+
+/**
+ * Decide whether launch roles are teaching roles. Accepts both the
+ * full LIS vocabulary URIs and the short role names some platforms send.
+ */
+export function isInstructorRole(roles: string[] = []): boolean {
+  return roles.some(role => INSTRUCTOR_ROLE_PATTERN.test(role));
+}
+
+/**
+ * Build the AGS scores endpoint from a line item URL, keeping any query string
+ */
+export function scoresUrl(lineItemUrl: string): string {
+  const url = new URL(lineItemUrl);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}/scores`;
+  return url.toString();
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function shortHash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
+
+export class LtiService {
+  private keyPromise: Promise<ToolKey> | null = null;
+  private jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+  private tokenCache = new Map<number, { token: string; expiresAt: number }>();
+
+  /**
+   * Handle an OIDC login initiation from a platform and return the URL of the
+   * platform's authorization endpoint to redirect the browser to
+   */
+  async initiateLogin(params: LtiLoginRequest): Promise<string> {
+    if (!params.iss || !params.login_hint || !params.target_link_uri) {
+      throw new BadRequestError('Missing iss, login_hint or target_link_uri');
+    }
+
+    const platform = await this.findPlatform(params.iss, params.client_id);
+    if (!platform) {
+      throw new NotFoundError(`No LTI platform is registered for issuer ${params.iss}`);
+    }
+
+    const state = randomToken();
+    const nonce = randomToken();
+
+    // Expired logins are cleaned up whenever a new one starts
+    await db.delete(ltiLaunchStates).where(lt(ltiLaunchStates.expiresAt, new Date()));
+    await db.insert(ltiLaunchStates).values({
+      state,
+      nonce,
+      platformId: platform.id,
+      targetLinkUri: params.target_link_uri,
+      expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS)
+    });
+
+    const url = new URL(platform.authLoginUrl);
+    url.searchParams.set('scope', 'openid');
+    url.searchParams.set('response_type', 'id_token');
+    url.searchParams.set('response_mode', 'form_post');
+    url.searchParams.set('prompt', 'none');
+    url.searchParams.set('client_id', platform.clientId);
+    url.searchParams.set('redirect_uri', `${getToolBaseUrl()}/api/lti/launch`);
+    url.searchParams.set('login_hint', params.login_hint);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    if (params.lti_message_hint) {
+      url.searchParams.set('lti_message_hint', params.lti_message_hint);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Validate a launch: the state must match a pending login, and the id_token
+   * must be signed by the platform, addressed to this tool and carry the
+   * login's nonce
+   */
+  async validateLaunch(idToken: string | undefined, state: string | undefined): Promise<ValidatedLaunch> {
+    if (!idToken || !state) {
+      throw new BadRequestError('Missing id_token or state');
+    }
+
+    const [pending] = await db.delete(ltiLaunchStates)
+      .where(eq(ltiLaunchStates.state, state))
+      .returning();
+    if (!pending || pending.expiresAt < new Date()) {
+      throw new UnauthorizedError('Unknown or expired LTI login state');
+    }
+
+    const platform = await this.getPlatform(pending.platformId);
+    if (!platform || !platform.active) {
+      throw new UnauthorizedError('LTI platform is not active');
+    }
+
+    let claims: LtiLaunchClaims;
+    try {
+      const verified = await jwtVerify(idToken, this.getPlatformKeySet(platform.jwksUrl), {
+        issuer: platform.issuer,
+        audience: platform.clientId,
+        algorithms: ['RS256']
+      });
+      claims = verified.payload as LtiLaunchClaims;
+    } catch (error) {
+      throw new UnauthorizedError(`Invalid LTI id_token: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (claims.nonce !== pending.nonce) {
+      throw new UnauthorizedError('LTI nonce does not match the login request');
+    }
+    if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== platform.clientId) {
+      throw new UnauthorizedError('LTI id_token azp does not match the client ID');
+    }
+
+    const deploymentId = claims[LTI_CLAIMS.deploymentId];
+    if (!deploymentId) {
+      throw new UnauthorizedError('LTI id_token has no deployment_id');
+    }
+    if (platform.deploymentId && platform.deploymentId !== deploymentId) {
+      throw new UnauthorizedError(`Unknown LTI deployment ${deploymentId}`);
+    }
+
+    if (claims[LTI_CLAIMS.version] !== '1.3.0') {
+      throw new BadRequestError(`Unsupported LTI version ${claims[LTI_CLAIMS.version]}`);
+    }
+    const messageType = claims[LTI_CLAIMS.messageType];
+    if (messageType !== 'LtiResourceLinkRequest' && messageType !== 'LtiDeepLinkingRequest') {
+      throw new BadRequestError(`Unsupported LTI message type ${messageType}`);
+    }
+    if (!claims.sub) {
+      throw new BadRequestError('Anonymous LTI launches are not supported');
+    }
+
+    return { platform, messageType, claims };
+  }
+
+  /**
+   * Find or create the local user, course, enrollment and resource link for a
+   * validated launch
+   */
+  async provisionLaunch(launch: ValidatedLaunch): Promise<LtiLaunchResult> {
+    const { platform, messageType, claims } = launch;
+    const user = await this.provisionUser(platform, claims);
+
+    if (!user) {
+      return {
+        user: null,
+        course: null,
+        assignment: null,
+        messageType,
+        deepLink: null,
+        accountLinkToken: await this.signAccountLink(platform, claims)
+      };
+    }
+
+    if (messageType === 'LtiDeepLinkingRequest') {
+      const settings = claims[LTI_CLAIMS.deepLinkingSettings];
+      if (!settings?.deep_link_return_url) {
+        throw new BadRequestError('Deep linking request has no return URL');
+      }
+      return {
+        user,
+        course: null,
+        assignment: null,
+        messageType,
+        deepLink: {
+          platformId: platform.id,
+          deploymentId: claims[LTI_CLAIMS.deploymentId] as string,
+          returnUrl: settings.deep_link_return_url,
+          data: settings.data
+        },
+        accountLinkToken: null
+      };
+    }
+
+    const assignment = await this.resolveAssignment(platform, claims);
+    const course = await this.resolveCourse(platform, claims, assignment);
+
+    // Enrolled instructors count as course staff, so launches only enroll students
+    if (course && user.role === 'student' && !(await storage.getEnrollment(user.id, course.id))) {
+      await storage.createEnrollment({ userId: user.id, courseId: course.id });
+    }
+
+    return { user, course, assignment, messageType, deepLink: null, accountLinkToken: null };
+  }
+
+  /**
+   * Read the platform user behind an account linking token
+   */
+  async describeAccountLink(token: string): Promise<LtiAccountLink> {
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, createLocalJWKSet(await this.getPublicJwks()), {
+        issuer: getToolBaseUrl(),
+        audience: ACCOUNT_LINK_AUDIENCE
+      }));
+    } catch {
+      throw new BadRequestError('This account link has expired; launch the activity from your LMS again');
+    }
+
+    const platform = await this.getPlatform(payload.platform_id as number);
+    if (!platform || !platform.active) {
+      throw new BadRequestError('LTI platform is not active');
+    }
+    return {
+      platformId: platform.id,
+      platformName: platform.name,
+      ltiUserId: payload.sub as string,
+      email: (payload.email as string | undefined) ?? null
+    };
+  }
+
+  /**
+   * Link the platform user behind a token to the signed-in account, so
+   * later launches sign in as that account
+   */
+  async linkAccount(token: string, user: User): Promise<LtiAccountLink> {
+    const accountLink = await this.describeAccountLink(token);
+
+    const [existing] = await db.select()
+      .from(ltiUserLinks)
+      .where(and(eq(ltiUserLinks.platformId, accountLink.platformId), eq(ltiUserLinks.ltiUserId, accountLink.ltiUserId)));
+    if (existing) {
+      throw new BadRequestError(`This ${accountLink.platformName} user is already linked to an account`);
+    }
+
+    await db.insert(ltiUserLinks).values({
+      platformId: accountLink.platformId,
+      ltiUserId: accountLink.ltiUserId,
+      userId: user.id
+    });
+    return accountLink;
+  }
+
+  /**
+   * Sign the deep linking response that embeds an assignment as an LTI
+   * resource link with a gradebook line item
+   */
+  async createDeepLinkingResponse(context: LtiDeepLinkContext, assignment: Assignment): Promise<string> {
+    const platform = await this.getPlatform(context.platformId);
+    if (!platform) {
+      throw new NotFoundError('LTI platform not found');
+    }
+
+    const key = await this.getToolKey();
+    // The signed assignment_link shows launches that this tool created the link
+    const assignmentLink = await new SignJWT({ platform_id: platform.id })
+      .setProtectedHeader({ alg: 'RS256', kid: key.kid })
+      .setIssuer(getToolBaseUrl())
+      .setAudience(RESOURCE_LINK_AUDIENCE)
+      .setSubject(String(assignment.id))
+      .setIssuedAt()
+      .sign(key.privateKey);
+    const contentItem = {
+      type: 'ltiResourceLink',
+      title: assignment.title,
+      text: assignment.description ?? undefined,
+      url: `${getToolBaseUrl()}/api/lti/launch`,
+      custom: { assignment_id: String(assignment.id), assignment_link: assignmentLink },
+      lineItem: {
+        scoreMaximum: 100,
+        label: assignment.title,
+        resourceId: String(assignment.id)
+      }
+    };
+
+    const payload: Record<string, unknown> = {
+      nonce: randomToken(),
+      [LTI_CLAIMS.messageType]: 'LtiDeepLinkingResponse',
+      [LTI_CLAIMS.version]: '1.3.0',
+      [LTI_CLAIMS.deploymentId]: context.deploymentId,
+      [LTI_CLAIMS.deepLinkingContentItems]: [contentItem]
+    };
+    if (context.data) {
+      payload[LTI_CLAIMS.deepLinkingData] = context.data;
+    }
+
+    return new SignJWT(payload)
+      .setProtectedHeader({ alg: 'RS256', kid: key.kid, typ: 'JWT' })
+      .setIssuer(platform.clientId)
+      .setAudience(platform.issuer)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .sign(key.privateKey);
+  }
+
+  /**
+   * Once a submission's feedback is released, push the student's grade (the
+   * counted attempt's late-adjusted score) to every LMS line item linked to
+   * its assignment. Returns the number of line items updated.
+   */
+  async passbackSubmissionScore(submissionId: number): Promise<number> {
+    const submission = await storage.getSubmission(submissionId);
+    // Guest submissions have no LMS user to pass a score back to
+    if (!submission || submission.userId === null) return 0;
+
+    const item = await storage.getFeedbackBySubmissionId(submissionId);
+    if (!item || item.status === 'draft' || item.score === null || item.score === undefined) {
+      return 0;
+    }
+
+    // The gradebook holds the counted attempt's late-adjusted score, not this submission's raw score
+    const grade = await getReleasedGrade(submission.assignmentId, submission.userId);
+    if (!grade) return 0;
+
+    const links = await db.select()
+      .from(ltiResourceLinks)
+      .where(and(
+        eq(ltiResourceLinks.assignmentId, submission.assignmentId),
+        isNotNull(ltiResourceLinks.lineItemUrl)
+      ));
+
+    let updated = 0;
+    for (const link of links) {
+      const [userLink] = await db.select()
+        .from(ltiUserLinks)
+        .where(and(eq(ltiUserLinks.platformId, link.platformId), eq(ltiUserLinks.userId, submission.userId)));
+      if (!userLink) continue;
+
+      const platform = await this.getPlatform(link.platformId);
+      if (!platform || !platform.active) continue;
+
+      try {
+        const token = await this.getAccessToken(platform);
+        const response = await fetch(scoresUrl(link.lineItemUrl as string), {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/vnd.ims.lis.v1.score+json'
+          },
+          body: JSON.stringify({
+            userId: userLink.ltiUserId,
+            scoreGiven: grade.adjustedScore,
+            scoreMaximum: 100,
+            comment: grade.comment || undefined,
+            timestamp: new Date().toISOString(),
+            activityProgress: 'Completed',
+            gradingProgress: 'FullyGraded'
+          })
+        });
+
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}: ${await response.text()}`);
+        }
+        updated++;
+      } catch (error) {
+        logger.error(`LTI score passback failed for submission ${submissionId}`, {
+          platformId: platform.id,
+          lineItemUrl: link.lineItemUrl,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Public keys of the tool, published for platforms to verify deep linking
+   * responses and AGS client assertions
+   */
+  async getPublicJwks(): Promise<{ keys: JWK[] }> {
+    const key = await this.getToolKey();
+    return { keys: [key.publicJwk] };
+  }
+
+  private async findPlatform(issuer: string, clientId?: string): Promise<LtiPlatform | undefined> {
+    const platforms = await db.select()
+      .from(ltiPlatforms)
+      .where(clientId
+        ? and(eq(ltiPlatforms.issuer, issuer), eq(ltiPlatforms.clientId, clientId), eq(ltiPlatforms.active, true))
+        : and(eq(ltiPlatforms.issuer, issuer), eq(ltiPlatforms.active, true)));
+
+    // Without a client_id the issuer has to identify a single registration
+    return platforms.length === 1 ? platforms[0] : undefined;
+  }
+
+  private async getPlatform(id: number): Promise<LtiPlatform | undefined> {
+    const [platform] = await db.select().from(ltiPlatforms).where(eq(ltiPlatforms.id, id));
+    return platform;
+  }
+
+  private getPlatformKeySet(jwksUrl: string): ReturnType<typeof createRemoteJWKSet> {
+    let keySet = this.jwksCache.get(jwksUrl);
+    if (!keySet) {
+      keySet = createRemoteJWKSet(new URL(jwksUrl));
+      this.jwksCache.set(jwksUrl, keySet);
+    }
+    return keySet;
+  }
+
+  /**
+   * Find the local user linked to the launching platform user. An unlinked
+   * learner gets a new password-less student account. Platforms do not verify
+   * email addresses, so an unlinked user whose email belongs to an account,
+   * or who teaches in the LMS, gets null and has to sign in to link first.
+   */
+  private async provisionUser(platform: LtiPlatform, claims: LtiLaunchClaims): Promise<User | null> {
+    const ltiUserId = claims.sub as string;
+
+    const [link] = await db.select()
+      .from(ltiUserLinks)
+      .where(and(eq(ltiUserLinks.platformId, platform.id), eq(ltiUserLinks.ltiUserId, ltiUserId)));
+    if (link) {
+      const linked = await storage.getUser(link.userId);
+      if (linked) return linked;
+      await db.delete(ltiUserLinks).where(eq(ltiUserLinks.id, link.id));
+    }
+
+    const claimedEmail = claims.email?.toLowerCase();
+    if (isInstructorRole(claims[LTI_CLAIMS.roles])
+      || (claimedEmail && await storage.getUserByEmail(claimedEmail))) {
+      return null;
+    }
+
+    // Platforms may withhold the email address; fall back to a stable placeholder
+    const email = claimedEmail || `lti-${platform.id}-${shortHash(ltiUserId)}@lti.invalid`;
+    const name = claims.name
+      || [claims.given_name, claims.family_name].filter(Boolean).join(' ')
+      || 'LTI User';
+
+    const user = await storage.createUser({
+      name,
+      username: usernameFromEmail(email),
+      email,
+      password: null,
+      role: 'student',
+      auth0Sub: null,
+      mitHorizonSub: null,
+      emailVerified: false,
+      mfaEnabled: false,
+      mfaSecret: null
+    });
+    await db.insert(ltiUserLinks).values({ platformId: platform.id, ltiUserId, userId: user.id });
+    return user;
+  }
+
+  private async signAccountLink(platform: LtiPlatform, claims: LtiLaunchClaims): Promise<string> {
+    const key = await this.getToolKey();
+    return new SignJWT({ platform_id: platform.id, email: claims.email?.toLowerCase() })
+      .setProtectedHeader({ alg: 'RS256', kid: key.kid })
+      .setIssuer(getToolBaseUrl())
+      .setAudience(ACCOUNT_LINK_AUDIENCE)
+      .setSubject(claims.sub as string)
+      .setIssuedAt()
+      .setExpirationTime(ACCOUNT_LINK_TTL)
+      .sign(key.privateKey);
+  }
+
+  /**
+   * Check the signed assignment_link this tool adds to links it creates
+   * through deep linking
+   */
+  private async isToolCreatedLink(platform: LtiPlatform, assignmentId: number, token: string | undefined): Promise<boolean> {
+    if (!token) return false;
+    try {
+      const { payload } = await jwtVerify(token, createLocalJWKSet(await this.getPublicJwks()), {
+        issuer: getToolBaseUrl(),
+        audience: RESOURCE_LINK_AUDIENCE,
+        subject: String(assignmentId)
+      });
+      return payload.platform_id === platform.id;
+    } catch {
+      return false;
+    }
+  }
+
+  private async findContextMapping(platform: LtiPlatform, claims: LtiLaunchClaims) {
+    const contextId = claims[LTI_CLAIMS.context]?.id;
+    if (!contextId) return undefined;
+
+    const [mapping] = await db.select()
+      .from(ltiContexts)
+      .where(and(eq(ltiContexts.platformId, platform.id), eq(ltiContexts.contextId, contextId)));
+    return mapping;
+  }
+
+  /**
+   * Find the assignment a resource link launches, recording the link and its
+   * AGS line item. Links created by deep linking carry the assignment ID as a
+   * custom parameter; it is only trusted when the tool signed it, or when the
+   * launch context is already mapped to the assignment's course.
+   */
+  private async resolveAssignment(platform: LtiPlatform, claims: LtiLaunchClaims): Promise<Assignment | null> {
+    const resourceLinkId = claims[LTI_CLAIMS.resourceLink]?.id;
+    if (!resourceLinkId) return null;
+
+    const lineItemUrl = claims[LTI_CLAIMS.agsEndpoint]?.lineitem ?? null;
+    const [existing] = await db.select()
+      .from(ltiResourceLinks)
+      .where(and(eq(ltiResourceLinks.platformId, platform.id), eq(ltiResourceLinks.resourceLinkId, resourceLinkId)));
+
+    if (existing) {
+      if (lineItemUrl && lineItemUrl !== existing.lineItemUrl) {
+        await db.update(ltiResourceLinks)
+          .set({ lineItemUrl, updatedAt: new Date() })
+          .where(eq(ltiResourceLinks.id, existing.id));
+      }
+      return (await storage.getAssignment(existing.assignmentId)) ?? null;
+    }
+
+    const assignmentId = parseInt(claims[LTI_CLAIMS.custom]?.assignment_id ?? '', 10);
+    if (isNaN(assignmentId)) return null;
+
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) return null;
+
+    const trusted = await this.isToolCreatedLink(platform, assignment.id, claims[LTI_CLAIMS.custom]?.assignment_link)
+      || (await this.findContextMapping(platform, claims))?.courseId === assignment.courseId;
+    if (!trusted) {
+      logger.warn('Ignoring an LTI resource link this tool did not create', {
+        platformId: platform.id,
+        resourceLinkId,
+        assignmentId
+      });
+      return null;
+    }
+
+    await db.insert(ltiResourceLinks).values({
+      platformId: platform.id,
+      resourceLinkId,
+      assignmentId: assignment.id,
+      lineItemUrl
+    });
+    return assignment;
+  }
+
+  /**
+   * Find the local course for the launch context. An unmapped context is
+   * mapped to the launched assignment's course; without an assignment it
+   * stays unmapped until one is launched from it.
+   */
+  private async resolveCourse(
+    platform: LtiPlatform,
+    claims: LtiLaunchClaims,
+    assignment: Assignment | null
+  ): Promise<Course | null> {
+    const context = claims[LTI_CLAIMS.context];
+    if (!context?.id) {
+      return assignment ? (await storage.getCourse(assignment.courseId)) ?? null : null;
+    }
+
+    const mapping = await this.findContextMapping(platform, claims);
+
+    // Students must be enrolled where the assignment lives, even if the
+    // context was first mapped elsewhere
+    if (assignment && mapping?.courseId !== assignment.courseId) {
+      if (!mapping) {
+        await db.insert(ltiContexts).values({
+          platformId: platform.id,
+          contextId: context.id,
+          courseId: assignment.courseId,
+          title: context.title ?? null
+        });
+      }
+      return (await storage.getCourse(assignment.courseId)) ?? null;
+    }
+
+    return mapping ? (await storage.getCourse(mapping.courseId)) ?? null : null;
+  }
+
+  /**
+   * Get an AGS access token from the platform using a signed client assertion
+   */
+  private async getAccessToken(platform: LtiPlatform): Promise<string> {
+    const cached = this.tokenCache.get(platform.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token;
+    }
+
+    const key = await this.getToolKey();
+    const assertion = await new SignJWT({})
+      .setProtectedHeader({ alg: 'RS256', kid: key.kid })
+      .setIssuer(platform.clientId)
+      .setSubject(platform.clientId)
+      .setAudience(platform.authTokenUrl)
+      .setIssuedAt()
+      .setExpirationTime('5m')
+      .setJti(randomToken())
+      .sign(key.privateKey);
+
+    const response = await fetch(platform.authTokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion,
+        scope: AGS_SCORE_SCOPE
+      }).toString()
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get AGS access token: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in?: number };
+    // Refresh a minute early so a token never expires mid-request
+    const expiresIn = (data.expires_in ?? 3600) - 60;
+    this.tokenCache.set(platform.id, { token: data.access_token, expiresAt: Date.now() + expiresIn * 1000 });
+    return data.access_token;
+  }
+
+  /**
+   * Load the tool's signing key from LTI_PRIVATE_KEY. Without one, a key is
+   * generated at startup, which platforms will stop trusting after a restart.
+   */
+  private getToolKey(): Promise<ToolKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = (async () => {
+        let privateKey: CryptoKey;
+        if (process.env.LTI_PRIVATE_KEY) {
+          privateKey = await importPKCS8(process.env.LTI_PRIVATE_KEY.replace(/\\n/g, '\n'), 'RS256', { extractable: true });
+        } else {
+          logger.warn('LTI_PRIVATE_KEY is not set; using a temporary LTI signing key');
+          ({ privateKey } = await generateKeyPair('RS256', { extractable: true }));
+        }
+
+        const { kty, n, e } = await exportJWK(privateKey);
+        const kid = process.env.LTI_KEY_ID || await calculateJwkThumbprint({ kty, n, e });
+        return { kid, privateKey, publicJwk: { kty, n, e, kid, alg: 'RS256', use: 'sig' } };
+      })();
+    }
+    return this.keyPromise;
+  }
+}
+
+// Export a singleton instance
+export const ltiService = new LtiService();
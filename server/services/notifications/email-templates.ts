@@ -0,0 +1,174 @@
+/**
+ * Email templates
+ *
+ * Subject, plain-text and HTML bodies for each notification type. Every
+ * message links back to the assignment page and to the notification settings
+ * where the student can turn the email off.
+ */
+
+import type { EmailNotification } from '../../../shared/schema';
+
+export type EmailNotificationType = EmailNotification['type'];
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTemplateContext {
+  recipientName: string;
+  assignmentId: number;
+  assignmentTitle: string;
+  courseName?: string;
+  dueDate?: Date;
+  score?: number | null;
+}
+
+interface TemplateContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  action: string;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDueDate(date: Date): string {
+  return date.toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+}
+
+function appUrl(pathname: string): string {
+  return `${(process.env.BASE_URL || 'http://localhost:5000').replace(/\/$/, '')}${pathname}`;
+}
+
+function content(type: EmailNotificationType, ctx: EmailTemplateContext): TemplateContent {
+  const inCourse = ctx.courseName ? ` in ${ctx.courseName}` : '';
+  const due = ctx.dueDate ? `It is due ${formatDueDate(ctx.dueDate)}.` : '';
+
+  switch (type) {
+    case 'feedback_ready':
+      return {
+        subject: `Feedback ready: ${ctx.assignmentTitle}`,
+        heading: 'Your feedback is ready',
+        paragraphs: [
+          `Feedback on your submission for "${ctx.assignmentTitle}"${inCourse} is now available.`,
+          ...(ctx.score !== null && ctx.score !== undefined ? [`Score: ${ctx.score}%`] : [])
+        ],
+        action: 'View feedback'
+      };
+    case 'assignment_opening':
+      return {
+        subject: `Now open: ${ctx.assignmentTitle}`,
+        heading: 'A new assignment is open',
+        paragraphs: [`"${ctx.assignmentTitle}"${inCourse} is now open for submissions.`, due].filter(Boolean),
+        action: 'Open assignment'
+      };
+    case 'assignment_due_soon':
+      return {
+        subject: `Due within 24 hours: ${ctx.assignmentTitle}`,
+        heading: 'An assignment is due soon',
+        paragraphs: [`You have not submitted "${ctx.assignmentTitle}"${inCourse} yet.`, due].filter(Boolean),
+        action: 'Submit now'
+      };
+    case 'submission_failed':
+      return {
+        subject: `Submission could not be graded: ${ctx.assignmentTitle}`,
+        heading: 'We could not grade your submission',
+        paragraphs: [
+          `Something went wrong while grading your submission for "${ctx.assignmentTitle}"${inCourse}.`,
+          'Please try submitting again. If the problem continues, contact your instructor.'
+        ],
+        action: 'Resubmit'
+      };
+  }
+}
+
+/**
+ * Render the email for a notification type
+ */
+export function renderEmail(type: EmailNotificationType, ctx: EmailTemplateContext): RenderedEmail {
+  const { subject, heading, paragraphs, action } = content(type, ctx);
+  const actionUrl = appUrl(`/submission/${ctx.assignmentId}`);
+  const settingsUrl = appUrl('/settings');
+  const greeting = `Hi ${ctx.recipientName},`;
+  const footer = 'You are receiving this email because of your notification settings.';
+
+  const text = [
+    greeting,
+    '',
+    ...paragraphs,
+    '',
+    `${action}: ${actionUrl}`,
+    '',
+    `${footer} Change them at ${settingsUrl}`
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="margin-bottom: 16px;">${escapeHtml(heading)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    <p><a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(action)}</a></p>
+    <p style="font-size: 12px; color: #6b7280;">${escapeHtml(footer)} <a href="${escapeHtml(settingsUrl)}">Change your notification settings</a>.</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export interface GuestAccessEmailContext {
+  recipientName: string;
+  // Sign-in path carrying the guest's single-use token
+  accessPath: string;
+  assignmentTitle?: string;
+  expiresInHours: number;
+}
+
+/**
+ * Render the magic link email that verifies a guest submitter's address and
+ * signs them in to their feedback
+ */
+export function renderGuestAccessEmail(ctx: GuestAccessEmailContext): RenderedEmail {
+  const heading = 'View your feedback';
+  const subject = ctx.assignmentTitle ? `Your submission: ${ctx.assignmentTitle}` : 'Your submissions and feedback';
+  const paragraphs = [
+    ctx.assignmentTitle
+      ? `We received your submission for "${ctx.assignmentTitle}". Your feedback will be ready shortly.`
+      : 'Use the link below to see your submissions and feedback.',
+    `The link can be used once and expires in ${ctx.expiresInHours} hours. You can ask for a new one from the sign-in page.`
+  ];
+  const actionUrl = appUrl(ctx.accessPath);
+  const greeting = `Hi ${ctx.recipientName},`;
+  const footer = 'If you did not submit work with this email address, you can ignore this message.';
+
+  const text = [greeting, '', ...paragraphs, '', `${heading}: ${actionUrl}`, '', footer].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+    <h2 style="margin-bottom: 16px;">${escapeHtml(heading)}</h2>
+    <p>${escapeHtml(greeting)}</p>
+    ${paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n    ')}
+    <p><a href="${escapeHtml(actionUrl)}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(heading)}</a></p>
+    <p style="font-size: 12px; color: #6b7280;">${escapeHtml(footer)}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
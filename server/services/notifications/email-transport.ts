@@ -0,0 +1,114 @@
+/**
+ * Email transports
+ *
+ * Delivery backends for the notification service. SMTP sends real mail; the
+ * file transport writes each message to a directory and the console
+ * transport logs it, so notifications can be checked locally without a mail
+ * server. The transport is chosen with EMAIL_TRANSPORT, defaulting to SMTP
+ * when SMTP_HOST is set, the console in development and no email at all in
+ * production.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { logger } from '../../lib/error-handler';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type EmailTransportName = 'smtp' | 'file' | 'console' | 'none';
+
+const DEFAULT_FROM = 'AI Grader <no-reply@localhost>';
+const DEFAULT_FILE_DIR = '/tmp/aigrader-mail';
+
+function fromAddress(): string {
+  return process.env.EMAIL_FROM || DEFAULT_FROM;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    const host = process.env.SMTP_HOST;
+    if (!host) {
+      throw new Error('SMTP host (SMTP_HOST) is required for the SMTP email transport');
+    }
+
+    const secure = process.env.SMTP_SECURE === 'true';
+    this.transporter = nodemailer.createTransport({
+      host,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : (secure ? 465 : 587),
+      secure,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: fromAddress(), ...message });
+  }
+}
+
+/**
+ * Writes each message as a JSON file, for local testing and end-to-end tests
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string = process.env.EMAIL_FILE_DIR || DEFAULT_FILE_DIR) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: fromAddress(), ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    logger.info(`[EMAIL] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export function resolveEmailTransportName(): EmailTransportName {
+  const configured = process.env.EMAIL_TRANSPORT;
+  if (configured === 'smtp' || configured === 'file' || configured === 'console' || configured === 'none') {
+    return configured;
+  }
+  if (configured) {
+    logger.warn(`Unknown EMAIL_TRANSPORT "${configured}", using the default transport`);
+  }
+  if (process.env.SMTP_HOST) return 'smtp';
+  return process.env.NODE_ENV === 'production' ? 'none' : 'console';
+}
+
+/**
+ * The configured transport, or null when email delivery is turned off
+ */
+export function createEmailTransport(name: EmailTransportName = resolveEmailTransportName()): EmailTransport | null {
+  switch (name) {
+    case 'smtp':
+      return new SmtpTransport();
+    case 'file':
+      return new FileTransport();
+    case 'console':
+      return new ConsoleTransport();
+    case 'none':
+      return null;
+  }
+}
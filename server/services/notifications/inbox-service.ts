@@ -0,0 +1,186 @@
+/**
+ * Inbox Service
+ *
+ * Writes the in-app notifications shown in the header bell menu: feedback
+ * released or failed, assignments opening and closing, LMS grade sync
+ * failures, rubric errors and data subject request updates. Unlike email,
+ * every notification is recorded; the settings toggles only control email.
+ * Failures are logged and never break the action that raised them.
+ */
+
+import { eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { logger } from '../../lib/error-handler';
+import {
+  dataSubjectRequests,
+  type Assignment,
+  type InsertNotification
+} from '../../../shared/schema';
+
+type NotificationContent = Omit<InsertNotification, 'userId'>;
+
+const ASSIGNMENT_STATUS_MESSAGES: Record<string, (title: string) => string> = {
+  upcoming: title => `"${title}" has been rescheduled and is not open yet.`,
+  active: title => `"${title}" is now open for submissions.`,
+  completed: title => `"${title}" is past its due date and has closed.`
+};
+
+const DATA_REQUEST_STATUS_MESSAGES: Record<string, string> = {
+  pending: 'has been received',
+  verified: 'has been verified and will be processed soon',
+  processing: 'is being processed',
+  completed: 'has been completed',
+  rejected: 'has been rejected'
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class InboxService {
+  /**
+   * Add a notification to the inbox of each user. Returns the number created.
+   */
+  async notify(userIds: number[], content: NotificationContent): Promise<number> {
+    const recipients = Array.from(new Set(userIds));
+    if (recipients.length === 0) return 0;
+
+    try {
+      const created = await storage.createNotifications(
+        recipients.map(userId => ({ ...content, userId }))
+      );
+      return created.length;
+    } catch (error) {
+      logger.error(`Failed to create ${content.type} notifications`, {
+        userIds: recipients,
+        error: errorMessage(error)
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Tell a student their feedback has been released
+   */
+  async notifyFeedbackReady(submissionId: number): Promise<number> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission || submission.userId === null) return 0;
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment) return 0;
+
+    return this.notify([submission.userId], {
+      type: 'feedback_ready',
+      title: 'Feedback ready',
+      message: `Your feedback for "${assignment.title}" is ready to view.`,
+      link: `/submission/${assignment.id}`,
+      metadata: { submissionId, assignmentId: assignment.id }
+    });
+  }
+
+  /**
+   * Tell a student their submission could not be graded
+   */
+  async notifySubmissionFailed(submissionId: number): Promise<number> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission || submission.userId === null) return 0;
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment) return 0;
+
+    return this.notify([submission.userId], {
+      type: 'submission_failed',
+      title: 'Submission could not be graded',
+      message: `Something went wrong while grading your submission for "${assignment.title}". Please try submitting again.`,
+      link: `/submission/${assignment.id}`,
+      metadata: { submissionId, assignmentId: assignment.id }
+    });
+  }
+
+  /**
+   * Tell a course's instructors and students that an assignment opened or
+   * closed. Students are not told about assignments moved back to upcoming.
+   */
+  async notifyAssignmentStatusChange(
+    assignment: Pick<Assignment, 'id' | 'title' | 'courseId'>,
+    oldStatus: string,
+    newStatus: string
+  ): Promise<number> {
+    const members = await storage.listCourseEnrollments(assignment.courseId);
+    const recipients = members
+      .filter(user => user.role === 'instructor' || (user.role === 'student' && newStatus !== 'upcoming'))
+      .map(user => user.id);
+
+    const describe = ASSIGNMENT_STATUS_MESSAGES[newStatus];
+    return this.notify(recipients, {
+      type: 'assignment_status',
+      title: newStatus === 'active' ? 'Assignment open' : newStatus === 'completed' ? 'Assignment closed' : 'Assignment rescheduled',
+      message: describe ? describe(assignment.title) : `"${assignment.title}" is now ${newStatus}.`,
+      link: `/submission/${assignment.id}`,
+      metadata: { assignmentId: assignment.id, oldStatus, newStatus }
+    });
+  }
+
+  /**
+   * Tell a course's instructors that a grade could not be synced to the LMS
+   * after every retry
+   */
+  async notifyLmsSyncFailed(submissionId: number, error: string): Promise<number> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) return 0;
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment) return 0;
+
+    return this.notify(await this.courseInstructors(assignment.courseId), {
+      type: 'lms_sync_failed',
+      title: 'LMS grade sync failed',
+      message: `A grade for "${assignment.title}" could not be sent to the LMS: ${error}`,
+      link: `/instructor/assignment/${assignment.id}`,
+      metadata: { submissionId, assignmentId: assignment.id, error }
+    });
+  }
+
+  /**
+   * Tell a course's instructors that an assignment's rubric could not be
+   * read while grading
+   */
+  async notifyRubricError(
+    assignment: Pick<Assignment, 'id' | 'title' | 'courseId'>,
+    submissionId: number,
+    error: string
+  ): Promise<number> {
+    return this.notify(await this.courseInstructors(assignment.courseId), {
+      type: 'rubric_error',
+      title: 'Rubric parsing error',
+      message: `The rubric for "${assignment.title}" could not be read, so a submission was graded without it.`,
+      link: `/instructor/assignment/${assignment.id}`,
+      metadata: { assignmentId: assignment.id, submissionId, error }
+    });
+  }
+
+  /**
+   * Tell a user the current status of their data subject request
+   */
+  async notifyDataRequestStatus(requestId: number): Promise<number> {
+    const [request] = await db.select()
+      .from(dataSubjectRequests)
+      .where(eq(dataSubjectRequests.id, requestId));
+    if (!request) return 0;
+
+    const status = DATA_REQUEST_STATUS_MESSAGES[request.status] ?? `is now ${request.status}`;
+    return this.notify([request.userId], {
+      type: 'data_request_status',
+      title: 'Data request update',
+      message: `Your ${request.type} request ${status}.`,
+      link: null,
+      metadata: { requestId, requestType: request.type, status: request.status }
+    });
+  }
+
+  private async courseInstructors(courseId: number): Promise<number[]> {
+    const members = await storage.listCourseEnrollments(courseId);
+    return members.filter(user => user.role === 'instructor').map(user => user.id);
+  }
+}
+
+// Export a singleton instance
+export const inboxService = new InboxService();
@@ -0,0 +1,408 @@
+/**
+ * Notification Service
+ *
+ * Emails students about their work: feedback ready, assignment opening,
+ * assignment due within 24 hours, and submission failed. Each user's
+ * notification settings are checked before a message is queued: the email
+ * switch turns everything off, and the feedback and assignment switches turn
+ * off their own messages. Messages are written to an outbox table and a
+ * scheduler sends them, retrying failures with exponential backoff.
+ *
+ * A worker claims a message by moving it from pending to sending in one
+ * conditional update, so two workers never send the same email. The claim
+ * is a lease: if the worker stops before recording the outcome, the message
+ * is picked up again once nextAttemptAt has passed.
+ */
+
+import { and, asc, eq, gt, lte, or, isNull } from 'drizzle-orm';
+import { db } from '../../db';
+import { storage } from '../../storage';
+import { logger } from '../../lib/error-handler';
+import {
+  assignments,
+  emailNotifications,
+  submissions,
+  type Assignment,
+  type EmailNotification,
+  type User,
+  type UserNotificationSetting
+} from '../../../shared/schema';
+import { createEmailTransport, type EmailTransport } from './email-transport';
+import { renderEmail, type EmailNotificationType, type EmailTemplateContext } from './email-templates';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const BATCH_SIZE = 50;
+const DELIVERY_LEASE_MS = 10 * 60 * 1000;
+const REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+const REMINDER_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+
+type NotificationToggles = Pick<
+  UserNotificationSetting,
+  'emailNotifications' | 'assignmentNotifications' | 'feedbackNotifications' | 'systemNotifications'
+>;
+
+/**
+ * Settings of users who never changed them
+ */
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationToggles = {
+  emailNotifications: true,
+  assignmentNotifications: true,
+  feedbackNotifications: true,
+  systemNotifications: false
+};
+
+/**
+ * The setting that controls each type of email
+ */
+const NOTIFICATION_TOGGLE: Record<EmailNotificationType, keyof NotificationToggles> = {
+  feedback_ready: 'feedbackNotifications',
+  submission_failed: 'feedbackNotifications',
+  assignment_opening: 'assignmentNotifications',
+  assignment_due_soon: 'assignmentNotifications'
+};
+
+/**
+ * Delay before the next attempt after a failure: 1, 2, 4, 8... minutes,
+ * capped at an hour
+ */
+export function deliveryRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+}
+
+export class NotificationService {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private isProcessing = false;
+  private lastReminderScan = 0;
+  private transport: EmailTransport | null | undefined;
+
+  /**
+   * @param transport Delivery backend; defaults to the one configured in the environment
+   */
+  constructor(transport?: EmailTransport | null) {
+    this.transport = transport;
+  }
+
+  /**
+   * Whether a user wants a type of email
+   */
+  async wantsEmail(userId: number, type: EmailNotificationType): Promise<boolean> {
+    const settings = (await storage.getUserNotificationSettings(userId)) ?? DEFAULT_NOTIFICATION_SETTINGS;
+    return settings.emailNotifications && settings[NOTIFICATION_TOGGLE[type]];
+  }
+
+  /**
+   * Render and queue an email unless the user turned it off or it was
+   * already queued. Returns whether a message was queued.
+   */
+  async queueEmail(
+    user: Pick<User, 'id' | 'name' | 'email'>,
+    type: EmailNotificationType,
+    context: Omit<EmailTemplateContext, 'recipientName'>,
+    dedupeKey: string
+  ): Promise<boolean> {
+    if (!this.getTransport()) return false;
+    if (!(await this.wantsEmail(user.id, type))) return false;
+
+    const email = renderEmail(type, { ...context, recipientName: user.name });
+    const inserted = await db.insert(emailNotifications)
+      .values({
+        userId: user.id,
+        type,
+        toAddress: user.email,
+        subject: email.subject,
+        textBody: email.text,
+        htmlBody: email.html,
+        dedupeKey
+      })
+      .onConflictDoNothing({ target: emailNotifications.dedupeKey })
+      .returning();
+    return inserted.length > 0;
+  }
+
+  /**
+   * Tell a student their feedback has been released
+   */
+  async notifyFeedbackReady(submissionId: number): Promise<boolean> {
+    const details = await this.loadSubmission(submissionId);
+    if (!details) return false;
+
+    const item = await storage.getFeedbackBySubmissionId(submissionId);
+    return this.queueEmail(details.user, 'feedback_ready', {
+      ...(await this.assignmentContext(details.assignment)),
+      score: item?.score ?? null
+    }, `feedback_ready:submission:${submissionId}`);
+  }
+
+  /**
+   * Tell a student their submission could not be graded
+   */
+  async notifySubmissionFailed(submissionId: number): Promise<boolean> {
+    const details = await this.loadSubmission(submissionId);
+    if (!details) return false;
+
+    return this.queueEmail(
+      details.user,
+      'submission_failed',
+      await this.assignmentContext(details.assignment),
+      `submission_failed:submission:${submissionId}`
+    );
+  }
+
+  /**
+   * Queue "assignment opening" emails for assignments that opened in the last
+   * 24 hours and "due in 24h" emails for students who have not submitted an
+   * assignment due within the next 24 hours. Returns the number queued.
+   */
+  async queueAssignmentReminders(now: Date = new Date()): Promise<number> {
+    if (!this.getTransport()) return 0;
+
+    const windowStart = new Date(now.getTime() - REMINDER_WINDOW_MS);
+    const windowEnd = new Date(now.getTime() + REMINDER_WINDOW_MS);
+    let queued = 0;
+
+    const opened = await db.select()
+      .from(assignments)
+      .where(and(gt(assignments.availableAt, windowStart), lte(assignments.availableAt, now), gt(assignments.dueDate, now)));
+    for (const assignment of opened) {
+      queued += await this.queueForStudents(assignment, 'assignment_opening');
+    }
+
+    const dueSoon = await db.select()
+      .from(assignments)
+      .where(and(gt(assignments.dueDate, now), lte(assignments.dueDate, windowEnd), lte(assignments.availableAt, now)));
+    for (const assignment of dueSoon) {
+      queued += await this.queueForStudents(assignment, 'assignment_due_soon');
+    }
+
+    return queued;
+  }
+
+  /**
+   * Send every queued email that is due. Returns the number sent.
+   */
+  async processDueNotifications(): Promise<number> {
+    const transport = this.getTransport();
+    if (!transport || this.isProcessing) return 0;
+    this.isProcessing = true;
+
+    try {
+      const now = new Date();
+      const due = await db.select()
+        .from(emailNotifications)
+        .where(or(
+          and(
+            eq(emailNotifications.status, 'pending'),
+            or(isNull(emailNotifications.nextAttemptAt), lte(emailNotifications.nextAttemptAt, now))
+          ),
+          and(
+            eq(emailNotifications.status, 'sending'),
+            lte(emailNotifications.nextAttemptAt, now)
+          )
+        ))
+        .orderBy(asc(emailNotifications.nextAttemptAt))
+        .limit(BATCH_SIZE);
+
+      let sent = 0;
+      for (const notification of due) {
+        if (await this.deliver(transport, notification)) sent++;
+      }
+      return sent;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Start the scheduler that sends queued emails and looks for assignment
+   * reminders every 15 minutes
+   */
+  start(intervalMinutes: number = 1): void {
+    if (this.isRunning) {
+      logger.info('Notification scheduler already running');
+      return;
+    }
+
+    const transport = this.getTransport();
+    if (!transport) {
+      logger.info('Email notifications are turned off (no email transport configured)');
+      return;
+    }
+
+    logger.info(`Starting email notifications every ${intervalMinutes} minutes using the ${transport.name} transport`);
+    this.intervalId = setInterval(() => {
+      this.runCycle().catch(error => {
+        logger.error('Notification cycle failed', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, intervalMinutes * 60 * 1000);
+    this.isRunning = true;
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.isRunning = false;
+  }
+
+  /**
+   * Check if the scheduler is running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  private getTransport(): EmailTransport | null {
+    if (this.transport === undefined) {
+      this.transport = createEmailTransport();
+    }
+    return this.transport;
+  }
+
+  private async runCycle(): Promise<void> {
+    if (Date.now() - this.lastReminderScan >= REMINDER_SCAN_INTERVAL_MS) {
+      this.lastReminderScan = Date.now();
+      await this.queueAssignmentReminders();
+    }
+    await this.processDueNotifications();
+  }
+
+  private async loadSubmission(submissionId: number): Promise<{ user: User; assignment: Assignment } | undefined> {
+    const submission = await storage.getSubmission(submissionId);
+    // Guests get a sign-in link by email when they submit instead
+    if (!submission || submission.userId === null) return undefined;
+
+    const [user, assignment] = await Promise.all([
+      storage.getUser(submission.userId),
+      storage.getAssignment(submission.assignmentId)
+    ]);
+    return user && assignment ? { user, assignment } : undefined;
+  }
+
+  private async assignmentContext(assignment: Assignment): Promise<Omit<EmailTemplateContext, 'recipientName'>> {
+    const course = await storage.getCourse(assignment.courseId);
+    return {
+      assignmentId: assignment.id,
+      assignmentTitle: assignment.title,
+      courseName: course?.name,
+      dueDate: assignment.dueDate
+    };
+  }
+
+  /**
+   * Queue an assignment email for every enrolled student. Due-soon emails
+   * skip students who have already submitted.
+   */
+  private async queueForStudents(assignment: Assignment, type: EmailNotificationType): Promise<number> {
+    const students = (await storage.listCourseEnrollments(assignment.courseId))
+      .filter(user => user.role === 'student');
+    if (students.length === 0) return 0;
+
+    let submitted = new Set<number>();
+    if (type === 'assignment_due_soon') {
+      const rows = await db.select({ userId: submissions.userId })
+        .from(submissions)
+        .where(eq(submissions.assignmentId, assignment.id));
+      submitted = new Set(rows.map((row: { userId: number }) => row.userId));
+    }
+
+    const context = await this.assignmentContext(assignment);
+    let queued = 0;
+    for (const student of students) {
+      if (submitted.has(student.id)) continue;
+      try {
+        if (await this.queueEmail(student, type, context, `${type}:assignment:${assignment.id}:user:${student.id}`)) queued++;
+      } catch (error) {
+        logger.error(`Failed to queue ${type} email`, {
+          assignmentId: assignment.id,
+          userId: student.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return queued;
+  }
+
+  /**
+   * Claim one email, attempt it and record the outcome, scheduling a retry
+   * or giving up after MAX_DELIVERY_ATTEMPTS. Returns false without sending
+   * when another worker claimed the email first.
+   */
+  private async deliver(transport: EmailTransport, notification: EmailNotification): Promise<boolean> {
+    const leaseExpired = notification.status === 'sending';
+
+    // Only the worker whose update still sees the row as selected gets it
+    const [claimed] = await db.update(emailNotifications)
+      .set({
+        status: 'sending',
+        attempts: notification.attempts + 1,
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+      })
+      .where(and(
+        eq(emailNotifications.id, notification.id),
+        eq(emailNotifications.status, leaseExpired ? 'sending' : 'pending'),
+        eq(emailNotifications.attempts, notification.attempts)
+      ))
+      .returning();
+    if (!claimed) return false;
+
+    const attempts: number = claimed.attempts;
+    if (leaseExpired) {
+      logger.warn(`Requeued email notification ${notification.id} after its lease expired`, { attempts });
+      if (attempts > MAX_DELIVERY_ATTEMPTS) {
+        await this.recordFailure(notification.id, attempts, 'Delivery was interrupted before it finished');
+        return false;
+      }
+    }
+
+    try {
+      await transport.send({
+        to: claimed.toAddress,
+        subject: claimed.subject,
+        text: claimed.textBody,
+        html: claimed.htmlBody
+      });
+      await db.update(emailNotifications)
+        .set({
+          status: 'sent',
+          lastError: null,
+          nextAttemptAt: null,
+          sentAt: new Date()
+        })
+        .where(and(eq(emailNotifications.id, notification.id), eq(emailNotifications.attempts, attempts)));
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.recordFailure(notification.id, attempts, message);
+      return false;
+    }
+  }
+
+  /**
+   * Schedule the next attempt of a claimed email, or mark it failed once it
+   * has used every attempt. The outcome is dropped if the lease expired and
+   * another worker has claimed the email since.
+   */
+  private async recordFailure(notificationId: number, attempts: number, message: string): Promise<void> {
+    const giveUp = attempts >= MAX_DELIVERY_ATTEMPTS;
+
+    logger.warn(`Email notification ${notificationId} failed`, { attempts, giveUp, error: message });
+
+    await db.update(emailNotifications)
+      .set({
+        status: giveUp ? 'failed' : 'pending',
+        lastError: message,
+        nextAttemptAt: giveUp ? null : new Date(Date.now() + deliveryRetryDelayMs(attempts))
+      })
+      .where(and(eq(emailNotifications.id, notificationId), eq(emailNotifications.attempts, attempts)));
+  }
+}
+
+// Export a singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,188 @@
+/**
+ * Roster Import Service
+ *
+ * Enrolls a registrar roster in a course. Each student is matched to an
+ * account by email (or MIT Horizon ID); students without one get a
+ * password-less account they claim by signing in through SSO, or, when the
+ * roster gives their MIT Horizon ID, a pending invitation that enrolls them
+ * on their first MIT Horizon sign-in. Rows that cannot be imported are
+ * reported with the reason.
+ */
+
+import { z } from 'zod';
+import { storage } from '../storage';
+import { logger, NotFoundError } from '../lib/error-handler';
+import { usernameFromEmail } from './lms/lms-sync-helpers';
+import { rosterErrorReport, type RejectedRosterRow, type RosterRow } from '../utils/roster-import';
+import type { CourseInvitation, User } from '../../shared/schema';
+
+export type RosterAction = 'enroll' | 'already_enrolled' | 'create_account' | 'invite' | 'reject';
+
+export interface RosterPreviewRow extends RosterRow {
+  action: RosterAction;
+  userId?: number;
+  reason?: string;
+}
+
+export interface RosterImportResult {
+  enrolled: number;
+  alreadyEnrolled: number;
+  accountsCreated: number;
+  invited: number;
+  rejected: RejectedRosterRow[];
+  // CSV of the rejected rows, null when every row was imported
+  errorReport: string | null;
+}
+
+const emailSchema = z.string().email();
+
+export class RosterImportService {
+  /**
+   * Work out what importing each row would do, without changing anything
+   */
+  async preview(courseId: number, rows: RosterRow[]): Promise<RosterPreviewRow[]> {
+    await this.loadCourse(courseId);
+    const firstRowByEmail = new Map<string, number>();
+    const preview: RosterPreviewRow[] = [];
+
+    for (const row of rows) {
+      preview.push(await this.previewRow(courseId, row, firstRowByEmail));
+    }
+    return preview;
+  }
+
+  async importRoster(courseId: number, actor: User, rows: RosterRow[]): Promise<RosterImportResult> {
+    const preview = await this.preview(courseId, rows);
+    const result: RosterImportResult = { enrolled: 0, alreadyEnrolled: 0, accountsCreated: 0, invited: 0, rejected: [], errorReport: null };
+    const reject = (row: RosterPreviewRow, reason: string) => {
+      result.rejected.push({ row: row.row, email: row.email, name: row.name, reason });
+    };
+
+    for (const row of preview) {
+      try {
+        switch (row.action) {
+          case 'reject':
+            reject(row, row.reason ?? 'Rejected');
+            break;
+          case 'already_enrolled':
+            result.alreadyEnrolled++;
+            break;
+          case 'enroll':
+            await storage.createEnrollment({ userId: row.userId!, courseId });
+            result.enrolled++;
+            break;
+          case 'create_account': {
+            const user = await storage.createUser({
+              name: row.name,
+              username: usernameFromEmail(row.email),
+              email: row.email,
+              password: null,
+              role: 'student',
+              auth0Sub: null,
+              mitHorizonSub: null,
+              emailVerified: false,
+              mfaEnabled: false,
+              mfaSecret: null
+            });
+            result.accountsCreated++;
+            await storage.createEnrollment({ userId: user.id, courseId });
+            result.enrolled++;
+            break;
+          }
+          case 'invite':
+            await storage.upsertCourseInvitation({
+              courseId,
+              email: row.email,
+              name: row.name || null,
+              mitHorizonSub: row.mitHorizonSub,
+              invitedBy: actor.id
+            });
+            result.invited++;
+            break;
+        }
+      } catch (error) {
+        logger.error('Roster row import failed', { courseId, row: row.row, error });
+        reject(row, `Could not be imported: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (result.rejected.length > 0) {
+      result.errorReport = rosterErrorReport(result.rejected);
+    }
+    return result;
+  }
+
+  async listInvitations(courseId: number): Promise<CourseInvitation[]> {
+    await this.loadCourse(courseId);
+    return storage.listCourseInvitations(courseId);
+  }
+
+  async cancelInvitation(courseId: number, invitationId: number): Promise<CourseInvitation[]> {
+    const removed = await storage.removeCourseInvitation(courseId, invitationId);
+    if (!removed) {
+      throw new NotFoundError('Invitation not found');
+    }
+    return storage.listCourseInvitations(courseId);
+  }
+
+  /**
+   * Enroll a user in the courses whose rosters invited them, matched by
+   * MIT Horizon ID, or by email when the identity provider verified it.
+   * Called when they sign in through MIT Horizon.
+   */
+  async acceptInvitations(user: Pick<User, 'id' | 'email' | 'mitHorizonSub'>, emailVerified: boolean): Promise<number> {
+    const invitations = await storage.listPendingInvitationsForUser(user.mitHorizonSub, emailVerified ? user.email : null);
+    for (const invitation of invitations) {
+      if (!(await storage.getEnrollment(user.id, invitation.courseId))) {
+        await storage.createEnrollment({ userId: user.id, courseId: invitation.courseId });
+      }
+      await storage.markCourseInvitationAccepted(invitation.id, user.id);
+    }
+    return invitations.length;
+  }
+
+  private async previewRow(courseId: number, row: RosterRow, firstRowByEmail: Map<string, number>): Promise<RosterPreviewRow> {
+    const rejected = (reason: string): RosterPreviewRow => ({ ...row, action: 'reject', reason });
+
+    if (!emailSchema.safeParse(row.email).success) {
+      return rejected(row.email ? 'Invalid email address' : 'Missing email address');
+    }
+    const duplicateOf = firstRowByEmail.get(row.email);
+    if (duplicateOf !== undefined) {
+      return rejected(`Duplicate of row ${duplicateOf}`);
+    }
+    firstRowByEmail.set(row.email, row.row);
+
+    const user = await storage.getUserByEmail(row.email)
+      ?? (row.mitHorizonSub ? await storage.getUserByMitHorizonSub(row.mitHorizonSub) : undefined);
+
+    if (!user) {
+      if (row.mitHorizonSub) {
+        return { ...row, action: 'invite' };
+      }
+      return row.name ? { ...row, action: 'create_account' } : rejected('A name is needed to create an account');
+    }
+
+    if (user.role !== 'student') {
+      return rejected(`${row.email} belongs to an ${user.role} account`);
+    }
+    if (row.mitHorizonSub && user.mitHorizonSub && user.mitHorizonSub !== row.mitHorizonSub) {
+      return rejected('The MIT Horizon ID does not match the existing account');
+    }
+    if (await storage.getEnrollment(user.id, courseId)) {
+      return { ...row, action: 'already_enrolled', userId: user.id };
+    }
+    return { ...row, action: 'enroll', userId: user.id };
+  }
+
+  private async loadCourse(courseId: number) {
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    return course;
+  }
+}
+
+// Export a singleton instance
+export const rosterImportService = new RosterImportService();
@@ -0,0 +1,304 @@
+/**
+ * Rubric Template Service
+ *
+ * Library of reusable rubrics. Templates are shared at one of three scopes:
+ * personal (the owner only), course (the course's staff) or
+ * institution (every instructor; only admins publish at this scope). Each
+ * save adds a numbered version, and any version can be cloned into an
+ * assignment or exported as JSON or CSV.
+ */
+
+import { and, desc, eq, inArray, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../lib/error-handler';
+import { exportRubric, importRubric, renumberCriteria, type RubricFileFormat } from '../utils/rubric-transfer';
+import {
+  courses,
+  rubricTemplates,
+  rubricTemplateVersions,
+  users,
+  type Rubric,
+  type RubricTemplate,
+  type RubricTemplateVersion,
+  type User
+} from '../../shared/schema';
+
+export type RubricTemplateScope = RubricTemplate['scope'];
+
+export interface RubricTemplateSummary extends RubricTemplate {
+  ownerName: string;
+  courseName: string | null;
+  canEdit: boolean;
+}
+
+export interface RubricTemplateDetail extends RubricTemplateSummary {
+  version: number;
+  rubric: Rubric;
+  versions: Array<Pick<RubricTemplateVersion, 'version' | 'changeNote' | 'createdBy' | 'createdAt'>>;
+}
+
+export interface RubricTemplateInput {
+  name: string;
+  description?: string | null;
+  scope: RubricTemplateScope;
+  courseId?: number | null;
+}
+
+export class RubricTemplateService {
+  /**
+   * Templates the user can see, most recently updated first
+   */
+  async listTemplates(user: User, filters: { scope?: RubricTemplateScope; courseId?: number } = {}): Promise<RubricTemplateSummary[]> {
+    const courseIds = user.role === 'admin' ? [] : await this.courseIds(user);
+    const conditions = [];
+    if (user.role !== 'admin') {
+      conditions.push(or(
+        eq(rubricTemplates.ownerId, user.id),
+        eq(rubricTemplates.scope, 'institution'),
+        courseIds.length > 0
+          ? and(eq(rubricTemplates.scope, 'course'), inArray(rubricTemplates.courseId, courseIds))
+          : undefined
+      ));
+    }
+    if (filters.scope) conditions.push(eq(rubricTemplates.scope, filters.scope));
+    if (filters.courseId) conditions.push(eq(rubricTemplates.courseId, filters.courseId));
+
+    const rows: Array<RubricTemplate & { ownerName: string; courseName: string | null }> = await db.select({
+      ...this.templateColumns(),
+      ownerName: users.name,
+      courseName: courses.name
+    })
+      .from(rubricTemplates)
+      .innerJoin(users, eq(users.id, rubricTemplates.ownerId))
+      .leftJoin(courses, eq(courses.id, rubricTemplates.courseId))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(rubricTemplates.updatedAt));
+
+    return rows.map(row => ({ ...row, canEdit: this.canEdit(row, user, courseIds) }));
+  }
+
+  /**
+   * A template with the rubric of the requested version (default: latest)
+   */
+  async getTemplate(id: number, user: User, version?: number): Promise<RubricTemplateDetail> {
+    const template = await this.loadVisible(id, user);
+    const versions: RubricTemplateVersion[] = await db.select()
+      .from(rubricTemplateVersions)
+      .where(eq(rubricTemplateVersions.templateId, id))
+      .orderBy(desc(rubricTemplateVersions.version));
+
+    const selected = versions.find(row => row.version === (version ?? template.latestVersion));
+    if (!selected) {
+      throw new NotFoundError(`Version ${version} of this rubric template was not found`);
+    }
+
+    return {
+      ...template,
+      version: selected.version,
+      rubric: selected.rubric,
+      versions: versions.map(row => ({
+        version: row.version,
+        changeNote: row.changeNote,
+        createdBy: row.createdBy,
+        createdAt: row.createdAt
+      }))
+    };
+  }
+
+  async createTemplate(user: User, input: RubricTemplateInput, rubric: Rubric, changeNote?: string | null): Promise<RubricTemplateDetail> {
+    const courseId = await this.checkScope(user, input.scope, input.courseId);
+
+    const [template] = await db.insert(rubricTemplates)
+      .values({
+        name: input.name,
+        description: input.description ?? null,
+        scope: input.scope,
+        ownerId: user.id,
+        courseId,
+        latestVersion: 1
+      })
+      .returning();
+    await db.insert(rubricTemplateVersions).values({
+      templateId: template.id,
+      version: 1,
+      rubric,
+      changeNote: changeNote ?? null,
+      createdBy: user.id
+    });
+
+    return this.getTemplate(template.id, user);
+  }
+
+  /**
+   * Save a revised rubric as the template's next version
+   */
+  async saveVersion(id: number, user: User, rubric: Rubric, changeNote?: string | null): Promise<RubricTemplateDetail> {
+    await this.loadEditable(id, user);
+
+    const [updated] = await db.update(rubricTemplates)
+      .set({ latestVersion: sql`${rubricTemplates.latestVersion} + 1`, updatedAt: new Date() })
+      .where(eq(rubricTemplates.id, id))
+      .returning();
+    await db.insert(rubricTemplateVersions).values({
+      templateId: id,
+      version: updated.latestVersion,
+      rubric,
+      changeNote: changeNote ?? null,
+      createdBy: user.id
+    });
+
+    return this.getTemplate(id, user);
+  }
+
+  /**
+   * Rename a template or move it to another scope. The rubric itself only
+   * changes through saveVersion.
+   */
+  async updateTemplate(id: number, user: User, input: Partial<RubricTemplateInput>): Promise<RubricTemplateDetail> {
+    const template = await this.loadEditable(id, user);
+    const scope = input.scope ?? template.scope;
+    const courseId = input.scope !== undefined || input.courseId !== undefined
+      ? await this.checkScope(user, scope, input.courseId !== undefined ? input.courseId : template.courseId)
+      : template.courseId;
+
+    await db.update(rubricTemplates)
+      .set({
+        name: input.name ?? template.name,
+        description: input.description !== undefined ? input.description : template.description,
+        scope,
+        courseId,
+        updatedAt: new Date()
+      })
+      .where(eq(rubricTemplates.id, id));
+
+    return this.getTemplate(id, user);
+  }
+
+  async deleteTemplate(id: number, user: User): Promise<void> {
+    await this.loadEditable(id, user);
+    await db.delete(rubricTemplates).where(eq(rubricTemplates.id, id));
+  }
+
+  /**
+   * A copy of a template version ready to use in a new assignment, with
+   * fresh criterion IDs
+   */
+  async cloneRubric(id: number, user: User, version?: number): Promise<Rubric> {
+    const template = await this.getTemplate(id, user, version);
+    return renumberCriteria(template.rubric);
+  }
+
+  async exportTemplate(id: number, user: User, format: RubricFileFormat, version?: number): Promise<{ fileName: string; body: string }> {
+    const template = await this.getTemplate(id, user, version);
+    const slug = template.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'rubric';
+    return {
+      fileName: `${slug}-v${template.version}.${format}`,
+      body: exportRubric({ name: template.name, description: template.description, version: template.version, rubric: template.rubric }, format)
+    };
+  }
+
+  /**
+   * Create a template from an exported JSON or CSV file. The name stored in
+   * a JSON export is used unless one is given.
+   */
+  async importTemplate(
+    user: User,
+    content: string,
+    format: RubricFileFormat,
+    input: Omit<RubricTemplateInput, 'name'> & { name?: string }
+  ): Promise<RubricTemplateDetail> {
+    const imported = importRubric(content, format);
+    const name = input.name || imported.name;
+    if (!name) {
+      throw new BadRequestError('A name is required when importing a CSV rubric');
+    }
+
+    return this.createTemplate(user, {
+      name,
+      description: input.description !== undefined ? input.description : imported.description,
+      scope: input.scope,
+      courseId: input.courseId
+    }, imported.rubric, `Imported from ${format.toUpperCase()}`);
+  }
+
+  private templateColumns() {
+    return {
+      id: rubricTemplates.id,
+      name: rubricTemplates.name,
+      description: rubricTemplates.description,
+      scope: rubricTemplates.scope,
+      ownerId: rubricTemplates.ownerId,
+      courseId: rubricTemplates.courseId,
+      latestVersion: rubricTemplates.latestVersion,
+      createdAt: rubricTemplates.createdAt,
+      updatedAt: rubricTemplates.updatedAt
+    };
+  }
+
+  private async courseIds(user: User): Promise<number[]> {
+    return storage.listStaffCourseIds(user.id);
+  }
+
+  private canView(template: RubricTemplate, user: User, courseIds: number[]): boolean {
+    if (user.role === 'admin' || template.ownerId === user.id || template.scope === 'institution') return true;
+    return template.scope === 'course' && template.courseId !== null && courseIds.includes(template.courseId);
+  }
+
+  private canEdit(template: RubricTemplate, user: User, courseIds: number[]): boolean {
+    if (user.role === 'admin' || template.ownerId === user.id) return true;
+    return template.scope === 'course' && template.courseId !== null && courseIds.includes(template.courseId);
+  }
+
+  private async loadVisible(id: number, user: User): Promise<RubricTemplateSummary> {
+    const [row]: Array<RubricTemplate & { ownerName: string; courseName: string | null }> = await db.select({
+      ...this.templateColumns(),
+      ownerName: users.name,
+      courseName: courses.name
+    })
+      .from(rubricTemplates)
+      .innerJoin(users, eq(users.id, rubricTemplates.ownerId))
+      .leftJoin(courses, eq(courses.id, rubricTemplates.courseId))
+      .where(eq(rubricTemplates.id, id));
+
+    const courseIds = row && user.role !== 'admin' ? await this.courseIds(user) : [];
+    // Templates the user cannot see are reported as missing, like other users' private data
+    if (!row || !this.canView(row, user, courseIds)) {
+      throw new NotFoundError('Rubric template not found');
+    }
+    return { ...row, canEdit: this.canEdit(row, user, courseIds) };
+  }
+
+  private async loadEditable(id: number, user: User): Promise<RubricTemplateSummary> {
+    const template = await this.loadVisible(id, user);
+    if (!template.canEdit) {
+      throw new ForbiddenError('Only the owner or the course instructors can change this rubric template');
+    }
+    return template;
+  }
+
+  /**
+   * Check the user may share at a scope, returning the course ID to store
+   */
+  private async checkScope(user: User, scope: RubricTemplateScope, courseId: number | null | undefined): Promise<number | null> {
+    if (scope === 'institution' && user.role !== 'admin') {
+      throw new ForbiddenError('Only administrators can share rubric templates with the whole institution');
+    }
+    if (scope !== 'course') return null;
+
+    if (!courseId) {
+      throw new BadRequestError('Course templates need a courseId');
+    }
+    const course = await storage.getCourse(courseId);
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+    if (user.role !== 'admin' && !(await storage.getCourseStaffRole(user.id, courseId))) {
+      throw new ForbiddenError('You can only share rubric templates with courses you teach');
+    }
+    return courseId;
+  }
+}
+
+// Export a singleton instance
+export const rubricTemplateService = new RubricTemplateService();
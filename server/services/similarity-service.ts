@@ -0,0 +1,365 @@
+/**
+ * Similarity Service
+ *
+ * Compares each student's latest submission to an assignment with every
+ * other student's, to surface possible plagiarism. Submissions are
+ * fingerprinted when they are queued for grading; each new fingerprint
+ * re-scores the assignment's pairs. Fingerprints found in most submissions,
+ * such as starter code or the assignment prompt, are left out of the scores.
+ * Only pairs at or above MIN_STORED_SCORE are kept.
+ */
+
+import path from 'path';
+import { desc, eq, and, gte, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { logger } from '../lib/logger';
+import { processFileForMultimodal } from '../utils/multimodal-processor';
+import { isSourceFile } from '../utils/project-submission';
+import {
+  compareFingerprints,
+  findMatchingRegions,
+  fingerprintHashes,
+  tokenize,
+  type SimilarityKind,
+  type Token
+} from '../utils/similarity';
+import {
+  submissionFingerprints,
+  submissionSimilarities,
+  submissions,
+  users,
+  type Assignment,
+  type InsertSubmissionSimilarity,
+  type Submission,
+  type SubmissionSimilarity
+} from '../../shared/schema';
+
+// Submissions with fewer fingerprints are too short to compare meaningfully
+const MIN_FINGERPRINTS = 5;
+export const MIN_STORED_SCORE = 10;
+// A fingerprint in more than this share of submissions is treated as shared material
+const COMMON_FINGERPRINT_SHARE = 0.5;
+const MIN_SUBMISSIONS_FOR_COMMON = 4;
+const INSERT_BATCH_SIZE = 500;
+
+// Source-like extensions that are compared as prose
+const PROSE_EXTENSIONS = ['txt', 'md', 'rst', 'tex', 'csv', 'tsv'];
+
+/**
+ * A submission's comparable text. Segments are the [start, end) ranges
+ * written by the student, leaving out the file headers of projects.
+ */
+export interface SubmissionText {
+  kind: SimilarityKind;
+  text: string;
+  segments: Array<[number, number]>;
+}
+
+type StudentSubmission = Submission & { userId: number };
+
+export interface FingerprintEntry {
+  submissionId: number;
+  userId: number;
+  kind: SimilarityKind;
+  hashes: number[];
+}
+
+export interface SimilaritySubmissionSummary {
+  id: number;
+  userId: number;
+  studentName: string;
+  submittedAt: Date;
+}
+
+export interface SimilarityReportEntry {
+  id: number;
+  kind: SimilarityKind;
+  score: number;
+  sharedFingerprints: number;
+  submissionA: SimilaritySubmissionSummary;
+  submissionB: SimilaritySubmissionSummary;
+}
+
+export interface SimilarityComparison extends Omit<SimilarityReportEntry, 'submissionA' | 'submissionB'> {
+  submissionA: SimilaritySubmissionSummary & { text: string; matches: Array<[number, number]> };
+  submissionB: SimilaritySubmissionSummary & { text: string; matches: Array<[number, number]> };
+}
+
+function kindForFile(fileName: string): SimilarityKind {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return isSourceFile(fileName) && !PROSE_EXTENSIONS.includes(extension) ? 'code' : 'text';
+}
+
+/**
+ * Each student's most recent submission. Guest submissions made through a
+ * shareable link are not compared.
+ */
+export function latestPerStudent(items: Submission[]): StudentSubmission[] {
+  const latest = new Map<number, StudentSubmission>();
+  items.filter((item): item is StudentSubmission => item.userId !== null).forEach(item => {
+    const current = latest.get(item.userId);
+    if (!current || item.createdAt > current.createdAt || (item.createdAt.getTime() === current.createdAt.getTime() && item.id > current.id)) {
+      latest.set(item.userId, item);
+    }
+  });
+  return Array.from(latest.values());
+}
+
+/**
+ * Score every pair of different students' submissions of the same kind,
+ * leaving out fingerprints most submissions share
+ */
+export function scoreSubmissionPairs(assignmentId: number, entries: FingerprintEntry[]): InsertSubmissionSimilarity[] {
+  const comparable = entries.filter(entry => entry.hashes.length >= MIN_FINGERPRINTS);
+
+  const common: Record<SimilarityKind, Set<number>> = { text: new Set(), code: new Set() };
+  (['text', 'code'] as SimilarityKind[]).forEach(kind => {
+    const group = comparable.filter(entry => entry.kind === kind);
+    if (group.length < MIN_SUBMISSIONS_FOR_COMMON) return;
+
+    const counts = new Map<number, number>();
+    group.forEach(entry => entry.hashes.forEach(hash => counts.set(hash, (counts.get(hash) ?? 0) + 1)));
+    counts.forEach((count, hash) => {
+      if (count / group.length > COMMON_FINGERPRINT_SHARE) common[kind].add(hash);
+    });
+  });
+
+  const rows: InsertSubmissionSimilarity[] = [];
+  for (let i = 0; i < comparable.length; i++) {
+    for (let j = i + 1; j < comparable.length; j++) {
+      const [a, b] = comparable[i].submissionId < comparable[j].submissionId
+        ? [comparable[i], comparable[j]]
+        : [comparable[j], comparable[i]];
+      if (a.userId === b.userId || a.kind !== b.kind) continue;
+
+      const { shared, score } = compareFingerprints(a.hashes, b.hashes, common[a.kind]);
+      if (score < MIN_STORED_SCORE) continue;
+      rows.push({ assignmentId, submissionAId: a.submissionId, submissionBId: b.submissionId, kind: a.kind, score, sharedFingerprints: shared });
+    }
+  }
+  return rows.sort((x, y) => y.score - x.score);
+}
+
+export class SimilarityService {
+  // Analyses run one at a time per assignment so their writes do not interleave
+  private analyses = new Map<number, Promise<unknown>>();
+
+  /**
+   * Read the text of a submission: typed content, an uploaded file, or the
+   * text files of a project joined with a header per file. Returns
+   * undefined when the submission has no readable text.
+   */
+  async loadSubmissionText(submission: Submission, assignment: Pick<Assignment, 'autograder'>): Promise<SubmissionText | undefined> {
+    if (submission.fileUrl) {
+      const fileName = submission.fileName || 'submission.txt';
+      const processed = await processFileForMultimodal(submission.fileUrl, fileName, submission.mimeType || 'text/plain');
+      if (!processed.textContent) return undefined;
+      return { kind: kindForFile(fileName), text: processed.textContent, segments: [[0, processed.textContent.length]] };
+    }
+
+    const files = await storage.listSubmissionFiles(submission.id);
+    if (files.length > 0) {
+      let text = '';
+      let kind: SimilarityKind = 'text';
+      const segments: Array<[number, number]> = [];
+      for (const file of files) {
+        if (file.contentType === 'image' || file.contentType === 'audio' || file.contentType === 'video') continue;
+        const processed = await processFileForMultimodal(file.fileUrl, file.path, file.mimeType);
+        if (!processed.textContent) continue;
+
+        if (kindForFile(file.path) === 'code') kind = 'code';
+        text += `=== ${file.path} ===\n`;
+        segments.push([text.length, text.length + processed.textContent.length]);
+        text += `${processed.textContent}\n\n`;
+      }
+      return segments.length > 0 ? { kind, text, segments } : undefined;
+    }
+
+    if (!submission.content) return undefined;
+    return {
+      kind: assignment.autograder ? 'code' : 'text',
+      text: submission.content,
+      segments: [[0, submission.content.length]]
+    };
+  }
+
+  /**
+   * Fingerprint a submission, then re-score its assignment. Returns whether
+   * the submission had text to fingerprint.
+   */
+  async indexSubmission(submissionId: number): Promise<boolean> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) return false;
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment) return false;
+
+    const indexed = await this.fingerprint(submission, assignment);
+    await this.analyzeAssignment(submission.assignmentId);
+    return indexed !== undefined;
+  }
+
+  /**
+   * Fingerprint any latest submissions that are missing fingerprints and
+   * replace the assignment's stored pair scores
+   */
+  async analyzeAssignment(assignmentId: number): Promise<{ submissions: number; pairs: number }> {
+    const previous = this.analyses.get(assignmentId) ?? Promise.resolve();
+    const analysis = previous.catch(() => undefined).then(() => this.runAnalysis(assignmentId));
+    this.analyses.set(assignmentId, analysis);
+
+    const cleanup = () => {
+      if (this.analyses.get(assignmentId) === analysis) this.analyses.delete(assignmentId);
+    };
+    analysis.then(cleanup, cleanup);
+    return analysis;
+  }
+
+  /**
+   * Stored pairs for an assignment, most similar first
+   */
+  async getReport(assignmentId: number, minScore: number = MIN_STORED_SCORE, limit: number = 50): Promise<{
+    analyzedSubmissions: number;
+    pairs: SimilarityReportEntry[];
+  }> {
+    const [pairs, fingerprinted] = await Promise.all([
+      db.select()
+        .from(submissionSimilarities)
+        .where(and(eq(submissionSimilarities.assignmentId, assignmentId), gte(submissionSimilarities.score, minScore)))
+        .orderBy(desc(submissionSimilarities.score), desc(submissionSimilarities.sharedFingerprints))
+        .limit(limit),
+      db.select({ id: submissionFingerprints.id })
+        .from(submissionFingerprints)
+        .where(eq(submissionFingerprints.assignmentId, assignmentId))
+    ]);
+
+    const summaries = await this.summarize(pairs.flatMap((pair: SubmissionSimilarity) => [pair.submissionAId, pair.submissionBId]));
+    return {
+      analyzedSubmissions: fingerprinted.length,
+      pairs: pairs
+        .filter((pair: SubmissionSimilarity) => summaries.has(pair.submissionAId) && summaries.has(pair.submissionBId))
+        .map((pair: SubmissionSimilarity) => ({
+          id: pair.id,
+          kind: pair.kind,
+          score: pair.score,
+          sharedFingerprints: pair.sharedFingerprints,
+          submissionA: summaries.get(pair.submissionAId)!,
+          submissionB: summaries.get(pair.submissionBId)!
+        }))
+    };
+  }
+
+  /**
+   * Both submissions of a stored pair with the passages they share
+   */
+  async comparePair(pairId: number, assignmentId: number): Promise<SimilarityComparison | undefined> {
+    const [pair] = await db.select()
+      .from(submissionSimilarities)
+      .where(and(eq(submissionSimilarities.id, pairId), eq(submissionSimilarities.assignmentId, assignmentId))) as SubmissionSimilarity[];
+    if (!pair) return undefined;
+
+    const [submissionA, submissionB, assignment] = await Promise.all([
+      storage.getSubmission(pair.submissionAId),
+      storage.getSubmission(pair.submissionBId),
+      storage.getAssignment(pair.assignmentId)
+    ]);
+    if (!submissionA || !submissionB || !assignment) return undefined;
+
+    const [textA, textB, summaries] = await Promise.all([
+      this.loadSubmissionText(submissionA, assignment),
+      this.loadSubmissionText(submissionB, assignment),
+      this.summarize([pair.submissionAId, pair.submissionBId])
+    ]);
+    const tokensA = textA ? this.tokenizeSegments(textA, pair.kind) : [];
+    const tokensB = textB ? this.tokenizeSegments(textB, pair.kind) : [];
+    const matches = findMatchingRegions(tokensA, tokensB, pair.kind);
+
+    return {
+      id: pair.id,
+      kind: pair.kind,
+      score: pair.score,
+      sharedFingerprints: pair.sharedFingerprints,
+      submissionA: { ...summaries.get(pair.submissionAId)!, text: textA?.text ?? '', matches: matches.a },
+      submissionB: { ...summaries.get(pair.submissionBId)!, text: textB?.text ?? '', matches: matches.b }
+    };
+  }
+
+  private async runAnalysis(assignmentId: number): Promise<{ submissions: number; pairs: number }> {
+    const latest = latestPerStudent(await storage.listSubmissionsForAssignment(assignmentId));
+    const stored: Array<{ submissionId: number; kind: SimilarityKind; hashes: number[] }> = latest.length === 0 ? [] : await db.select()
+      .from(submissionFingerprints)
+      .where(inArray(submissionFingerprints.submissionId, latest.map(submission => submission.id)));
+    const bySubmission = new Map(stored.map(row => [row.submissionId, row] as [number, typeof row]));
+
+    const missing = latest.filter(submission => !bySubmission.has(submission.id));
+    const assignment = missing.length > 0 ? await storage.getAssignment(assignmentId) : undefined;
+    if (assignment) {
+      for (const submission of missing) {
+        const row = await this.fingerprint(submission, assignment).catch(error => {
+          logger.warn(`Could not fingerprint submission ${submission.id}: ${error instanceof Error ? error.message : String(error)}`);
+          return undefined;
+        });
+        if (row) bySubmission.set(submission.id, row);
+      }
+    }
+
+    const entries: FingerprintEntry[] = [];
+    latest.forEach(submission => {
+      const row = bySubmission.get(submission.id);
+      if (row) entries.push({ submissionId: submission.id, userId: submission.userId, kind: row.kind, hashes: row.hashes });
+    });
+    const rows = scoreSubmissionPairs(assignmentId, entries);
+
+    await db.delete(submissionSimilarities).where(eq(submissionSimilarities.assignmentId, assignmentId));
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(submissionSimilarities).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    logger.info(`Similarity analysis for assignment ${assignmentId}: ${entries.length} submissions, ${rows.length} pairs`);
+    return { submissions: entries.length, pairs: rows.length };
+  }
+
+  /**
+   * Store a submission's fingerprints, replacing earlier ones
+   */
+  private async fingerprint(
+    submission: Submission,
+    assignment: Pick<Assignment, 'autograder'>
+  ): Promise<{ submissionId: number; kind: SimilarityKind; hashes: number[] } | undefined> {
+    const content = await this.loadSubmissionText(submission, assignment);
+    if (!content) return undefined;
+
+    const hashes = fingerprintHashes(this.tokenizeSegments(content, content.kind), content.kind);
+    const values = { submissionId: submission.id, assignmentId: submission.assignmentId, kind: content.kind, hashes };
+    await db.insert(submissionFingerprints)
+      .values(values)
+      .onConflictDoUpdate({
+        target: submissionFingerprints.submissionId,
+        set: { kind: content.kind, hashes, createdAt: new Date() }
+      });
+    return values;
+  }
+
+  private tokenizeSegments(content: SubmissionText, kind: SimilarityKind): Token[] {
+    return content.segments.flatMap(([start, end]) => tokenize(content.text.slice(start, end), kind, start));
+  }
+
+  private async summarize(submissionIds: number[]): Promise<Map<number, SimilaritySubmissionSummary>> {
+    const ids = Array.from(new Set(submissionIds));
+    if (ids.length === 0) return new Map();
+
+    const rows: SimilaritySubmissionSummary[] = await db.select({
+      id: submissions.id,
+      userId: submissions.userId,
+      studentName: users.name,
+      submittedAt: submissions.createdAt
+    })
+      .from(submissions)
+      .innerJoin(users, eq(users.id, submissions.userId))
+      .where(inArray(submissions.id, ids));
+    return new Map(rows.map(row => [row.id, row] as [number, SimilaritySubmissionSummary]));
+  }
+}
+
+// Export a singleton instance
+export const similarityService = new SimilarityService();
@@ -2,6 +2,7 @@ import { storage } from '../storage';
 import { InsertSubmission, InsertFeedback, Submission, Feedback } from '../../shared/schema';
 import { isGcsConfigured, uploadFile, uploadBuffer, generateSignedUrl } from '../utils/gcs-client';
 import { logger } from '../lib/logger';
+import { setSubmissionStatus } from './submission-events';
 import path from 'path';
 import crypto from 'crypto';
 import * as fs from 'fs';
@@ -19,12 +20,13 @@ export class StorageService {
   }
 
   // Save feedback to database
-  async saveFeedback(feedback: InsertFeedback): Promise<void> {
+  async saveFeedback(feedback: InsertFeedback): Promise<Feedback> {
     try {
-      await storage.createFeedback(feedback);
+      const saved = await storage.createFeedback(feedback);
       
       // Update submission status to completed
-      await storage.updateSubmissionStatus(feedback.submissionId, 'completed');
+      await setSubmissionStatus(feedback.submissionId, 'completed');
+      return saved;
     } catch (error) {
       logger.error('Error saving feedback', { error });
       throw new Error('Failed to save feedback to database');
@@ -156,6 +158,46 @@ export class StorageService {
     }
   }
   
+  /**
+   * Store one file of a multi-file or ZIP project submission, keeping its
+   * path within the project so the folder structure survives
+   * @param content File content
+   * @param projectPath Path of the file within the project (already normalized)
+   * @param mimeType MIME type of the file
+   * @param userId User ID of the submitter
+   * @param assignmentId Assignment ID
+   * @param projectId Identifier shared by all files of the same submission
+   * @returns File path for processing (GCS path or local path)
+   */
+  async storeProjectFile(
+    content: Buffer,
+    projectPath: string,
+    mimeType: string,
+    userId: number,
+    assignmentId: number,
+    projectId: string
+  ): Promise<string> {
+    try {
+      if (isGcsConfigured()) {
+        const gcsPath = `submissions/${userId}/${assignmentId}/${projectId}/${projectPath}`;
+        return await uploadBuffer(content, gcsPath, mimeType);
+      }
+
+      // In development mode, keep the project tree on local disk for processing
+      const projectDir = path.join('/tmp/aigrader-dev-files', projectId);
+      const filePath = path.join(projectDir, projectPath);
+      if (!filePath.startsWith(projectDir + path.sep)) {
+        throw new Error(`Invalid project path: ${projectPath}`);
+      }
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, content);
+      return filePath;
+    } catch (error) {
+      console.error('Error storing project file:', error);
+      throw new Error(`Failed to store project file: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Generate a signed URL for accessing a file stored in Google Cloud Storage
    * @param objectPath The path to the object in GCS (as returned by storeSubmissionFile)
@@ -0,0 +1,104 @@
+/**
+ * Submission Events
+ *
+ * Pushes grading progress to the student who submitted: status transitions
+ * (pending → processing → completed/failed) and, for models that stream,
+ * the feedback sections written so far. GET /api/submissions/events relays
+ * the events over Server-Sent Events.
+ *
+ * The hub is in-process. Both the BullMQ worker and the direct processing
+ * fallback run inside the web server, so every event is published in the
+ * process that holds the student's connection.
+ */
+import { EventEmitter } from 'events';
+import type { PartialFeedback, Submission, SubmissionEvent } from '../../shared/schema';
+import { storage } from '../storage';
+import { logger } from '../lib/logger';
+import { notificationService } from './notifications/notification-service';
+import { inboxService } from './notifications/inbox-service';
+
+type SubmissionEventListener = (event: SubmissionEvent) => void;
+type SubmissionRef = Pick<Submission, 'id' | 'assignmentId' | 'userId'>;
+
+export class SubmissionEventHub {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open browser tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Listen for events about a user's submissions. Returns the unsubscribe function.
+   */
+  subscribe(userId: number, listener: SubmissionEventListener): () => void {
+    const channel = this.channel(userId);
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  publishStatus(submission: Pick<Submission, 'id' | 'assignmentId' | 'userId' | 'status'>): void {
+    this.publish(submission.userId, {
+      type: 'status',
+      submissionId: submission.id,
+      assignmentId: submission.assignmentId,
+      status: submission.status
+    });
+  }
+
+  publishPartialFeedback(submission: SubmissionRef, feedback: PartialFeedback): void {
+    this.publish(submission.userId, {
+      type: 'partial_feedback',
+      submissionId: submission.id,
+      assignmentId: submission.assignmentId,
+      feedback
+    });
+  }
+
+  /**
+   * Number of open connections listening for a user's events
+   */
+  listenerCount(userId: number): number {
+    return this.emitter.listenerCount(this.channel(userId));
+  }
+
+  private channel(userId: number): string {
+    return `user:${userId}`;
+  }
+
+  private publish(userId: number | null, event: SubmissionEvent): void {
+    // Guest submissions have no signed-in listener
+    if (userId === null) return;
+    try {
+      this.emitter.emit(this.channel(userId), event);
+    } catch (error) {
+      logger.error(`Failed to deliver submission event: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+export const submissionEvents = new SubmissionEventHub();
+
+/**
+ * Update a submission's status and tell the student about it. Failures are
+ * also emailed and added to the student's inbox, since they may have left
+ * the page.
+ */
+export async function setSubmissionStatus(
+  submissionId: number,
+  status: Submission['status']
+): Promise<Submission> {
+  const submission = await storage.updateSubmissionStatus(submissionId, status);
+  if (submission) submissionEvents.publishStatus(submission);
+  if (status === 'failed') {
+    notificationService.notifySubmissionFailed(submissionId).catch(error => {
+      logger.error(`Failed to queue submission failed email for submission ${submissionId}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    inboxService.notifySubmissionFailed(submissionId).catch(error => {
+      logger.error(`Failed to create submission failed notification for submission ${submissionId}: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+  return submission;
+}
@@ -0,0 +1,121 @@
+/**
+ * Submission Policy Service
+ *
+ * Applies an assignment's submission policy to a student: their due date
+ * (with any extension), the attempts they have left and whether they may
+ * submit now. Instructors grant and revoke per-student extensions here.
+ */
+
+import { storage, type AssignmentExtensionEntry } from '../storage';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../lib/error-handler';
+import { assessLateness, attemptLimitRefusal, effectiveDueDate, submissionRefusal, type Lateness } from '../utils/late-policy';
+import type { Assignment, InsertSubmission, Submission, User } from '../../shared/schema';
+
+export interface SubmissionWindow {
+  dueDate: Date;
+  extended: boolean;
+  attemptsUsed: number;
+  maxAttempts: number | null;
+  // Why a new submission would be refused, or null when it is allowed
+  refusal: string | null;
+  // Lateness a submission made now would have
+  lateness: Lateness;
+}
+
+export class SubmissionPolicyService {
+  async getSubmissionWindow(assignment: Assignment, userId: number, now: Date = new Date()): Promise<SubmissionWindow> {
+    const [extension, previous] = await Promise.all([
+      storage.getAssignmentExtension(assignment.id, userId),
+      storage.listSubmissionsForUser(userId, assignment.id)
+    ]);
+    const policy = assignment.submissionPolicy;
+    const dueDate = effectiveDueDate(assignment.dueDate, extension);
+    const attemptsUsed = previous.filter(submission => submission.status !== 'failed').length;
+
+    return {
+      dueDate,
+      extended: !!extension,
+      attemptsUsed,
+      maxAttempts: policy?.maxAttempts ?? null,
+      refusal: submissionRefusal(now, dueDate, policy, attemptsUsed),
+      lateness: assessLateness(now, dueDate, policy)
+    };
+  }
+
+  /**
+   * Check a student may submit now, returning the attempt number and
+   * lateness of the new submission
+   */
+  async checkCanSubmit(assignment: Assignment, userId: number): Promise<{ attemptNumber: number; lateness: Lateness }> {
+    const window = await this.getSubmissionWindow(assignment, userId);
+    if (window.refusal) {
+      if (window.maxAttempts !== null && window.attemptsUsed >= window.maxAttempts) {
+        throw new ForbiddenError(window.refusal);
+      }
+      throw new BadRequestError(window.refusal);
+    }
+
+    return { attemptNumber: window.attemptsUsed + 1, lateness: window.lateness };
+  }
+
+  /**
+   * Store a student's new attempt. The attempt limit is checked again as the
+   * submission is inserted, since another request may have used the last
+   * attempt after checkCanSubmit.
+   */
+  async recordAttempt(assignment: Assignment, submission: InsertSubmission & { userId: number }): Promise<Submission> {
+    const maxAttempts = assignment.submissionPolicy?.maxAttempts;
+    if (!maxAttempts) {
+      return storage.createSubmission(submission);
+    }
+
+    const created = await storage.createSubmissionWithinAttemptLimit(submission, maxAttempts);
+    if (!created) {
+      throw new ForbiddenError(attemptLimitRefusal(maxAttempts));
+    }
+    return created;
+  }
+
+  async listExtensions(assignmentId: number): Promise<AssignmentExtensionEntry[]> {
+    return storage.listAssignmentExtensions(assignmentId);
+  }
+
+  /**
+   * Give a student their own due date, replacing any extension they had
+   */
+  async grantExtension(
+    assignment: Assignment,
+    actor: User,
+    userId: number,
+    dueDate: Date,
+    reason?: string
+  ): Promise<AssignmentExtensionEntry[]> {
+    const enrollment = await storage.getEnrollment(userId, assignment.courseId);
+    if (!enrollment) {
+      throw new NotFoundError('That student is not enrolled in this course');
+    }
+    if (dueDate.getTime() <= new Date(assignment.dueDate).getTime()) {
+      throw new BadRequestError('An extension must be later than the assignment due date');
+    }
+
+    await storage.upsertAssignmentExtension({
+      assignmentId: assignment.id,
+      userId,
+      dueDate,
+      reason: reason?.trim() || null,
+      grantedBy: actor.id
+    });
+    return storage.listAssignmentExtensions(assignment.id);
+  }
+
+  async revokeExtension(assignmentId: number, userId: number): Promise<AssignmentExtensionEntry[]> {
+    const removed = await storage.removeAssignmentExtension(assignmentId, userId);
+    if (!removed) {
+      throw new NotFoundError('That student has no extension for this assignment');
+    }
+    return storage.listAssignmentExtensions(assignmentId);
+  }
+}
+
+// Export a singleton instance
+export const submissionPolicyService = new SubmissionPolicyService();
@@ -0,0 +1,174 @@
+/**
+ * Writing Signals Service
+ *
+ * Computes advisory AI-writing signals for prose submissions to assignments
+ * that opt in. Each submission is measured with computeWritingStats and
+ * compared with the student's own earlier submissions. The stored level and
+ * explanation are shown to instructors only and never feed into grading.
+ */
+
+import { desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { logger } from '../lib/logger';
+import { similarityService, latestPerStudent } from './similarity-service';
+import { assessWritingSignals, computeWritingStats } from '../utils/writing-signals';
+import {
+  submissionWritingSignals,
+  submissions,
+  users,
+  type Assignment,
+  type InsertSubmissionWritingSignal,
+  type Submission,
+  type SubmissionWritingSignal,
+  type WritingStats
+} from '../../shared/schema';
+
+// Most recent earlier submissions by the student used as their baseline
+const MAX_BASELINE_SUBMISSIONS = 5;
+
+export interface WritingSignalReportEntry extends Omit<SubmissionWritingSignal, 'stats'> {
+  studentName: string;
+  submittedAt: Date;
+  wordCount: number | null;
+}
+
+export class WritingSignalsService {
+  /**
+   * Measure a submission and store its signals. Returns undefined when the
+   * assignment has not opted in or the submission is code.
+   */
+  async analyzeSubmission(submissionId: number): Promise<SubmissionWritingSignal | undefined> {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) return undefined;
+    const assignment = await storage.getAssignment(submission.assignmentId);
+    if (!assignment?.writingSignalsEnabled) return undefined;
+
+    return this.analyze(submission, assignment);
+  }
+
+  /**
+   * Measure each student's latest submission that has no signals yet, for
+   * assignments that opted in after students submitted
+   */
+  async analyzeAssignment(assignmentId: number): Promise<{ analyzed: number }> {
+    const assignment = await storage.getAssignment(assignmentId);
+    if (!assignment) return { analyzed: 0 };
+
+    const latest = latestPerStudent(await storage.listSubmissionsForAssignment(assignmentId));
+    const existing: Array<{ submissionId: number }> = latest.length === 0 ? [] : await db.select({ submissionId: submissionWritingSignals.submissionId })
+      .from(submissionWritingSignals)
+      .where(inArray(submissionWritingSignals.submissionId, latest.map(submission => submission.id)));
+    const done = new Set(existing.map(row => row.submissionId));
+
+    let analyzed = 0;
+    for (const submission of latest.filter(item => !done.has(item.id))) {
+      const row = await this.analyze(submission, assignment).catch(error => {
+        logger.warn(`Could not compute writing signals for submission ${submission.id}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      });
+      if (row) analyzed++;
+    }
+    return { analyzed };
+  }
+
+  /**
+   * Stored signals for an assignment's submissions, newest first
+   */
+  async listForAssignment(assignmentId: number): Promise<WritingSignalReportEntry[]> {
+    const rows: Array<SubmissionWritingSignal & { studentName: string; submittedAt: Date }> = await db.select({
+      id: submissionWritingSignals.id,
+      submissionId: submissionWritingSignals.submissionId,
+      assignmentId: submissionWritingSignals.assignmentId,
+      userId: submissionWritingSignals.userId,
+      level: submissionWritingSignals.level,
+      stats: submissionWritingSignals.stats,
+      signals: submissionWritingSignals.signals,
+      baselineSubmissions: submissionWritingSignals.baselineSubmissions,
+      createdAt: submissionWritingSignals.createdAt,
+      studentName: users.name,
+      submittedAt: submissions.createdAt
+    })
+      .from(submissionWritingSignals)
+      .innerJoin(submissions, eq(submissions.id, submissionWritingSignals.submissionId))
+      .innerJoin(users, eq(users.id, submissionWritingSignals.userId))
+      .where(eq(submissionWritingSignals.assignmentId, assignmentId))
+      .orderBy(desc(submissions.createdAt));
+
+    return rows.map(({ stats, ...row }) => ({ ...row, wordCount: stats?.wordCount ?? null }));
+  }
+
+  private async analyze(submission: Submission, assignment: Assignment): Promise<SubmissionWritingSignal | undefined> {
+    // Guests have no earlier work to compare with
+    if (submission.userId === null) return undefined;
+    const userId = submission.userId;
+    const content = await similarityService.loadSubmissionText(submission, assignment);
+    if (content?.kind === 'code') return undefined;
+
+    const stats = content ? computeWritingStats(this.studentText(content.text, content.segments)) : undefined;
+    const baseline = stats ? await this.loadBaseline(submission, userId) : [];
+    const { level, signals } = assessWritingSignals(stats, baseline);
+
+    const values: InsertSubmissionWritingSignal = {
+      submissionId: submission.id,
+      assignmentId: submission.assignmentId,
+      userId,
+      level,
+      stats: stats ?? null,
+      signals,
+      baselineSubmissions: baseline.length
+    };
+    const [row] = await db.insert(submissionWritingSignals)
+      .values(values)
+      .onConflictDoUpdate({
+        target: submissionWritingSignals.submissionId,
+        set: { level, stats: values.stats, signals, baselineSubmissions: baseline.length, createdAt: new Date() }
+      })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Measurements of the student's most recent earlier prose submissions to
+   * other assignments, reusing stored ones where available
+   */
+  private async loadBaseline(submission: Submission, userId: number): Promise<WritingStats[]> {
+    const earlier = (await storage.listSubmissionsForUser(userId))
+      .filter(item => item.assignmentId !== submission.assignmentId && item.createdAt < submission.createdAt)
+      .slice(0, MAX_BASELINE_SUBMISSIONS);
+    if (earlier.length === 0) return [];
+
+    const stored: Array<{ submissionId: number; stats: WritingStats | null }> = await db.select({
+      submissionId: submissionWritingSignals.submissionId,
+      stats: submissionWritingSignals.stats
+    })
+      .from(submissionWritingSignals)
+      .where(inArray(submissionWritingSignals.submissionId, earlier.map(item => item.id)));
+    const bySubmission = new Map(stored.map(row => [row.submissionId, row.stats] as [number, WritingStats | null]));
+
+    const baseline: WritingStats[] = [];
+    for (const item of earlier) {
+      if (bySubmission.has(item.id)) {
+        const stats = bySubmission.get(item.id);
+        if (stats) baseline.push(stats);
+        continue;
+      }
+
+      const assignment = await storage.getAssignment(item.assignmentId);
+      if (!assignment) continue;
+      const content = await similarityService.loadSubmissionText(item, assignment).catch(() => undefined);
+      if (!content || content.kind === 'code') continue;
+      const stats = computeWritingStats(this.studentText(content.text, content.segments));
+      if (stats) baseline.push(stats);
+    }
+    return baseline;
+  }
+
+  // The parts written by the student, without project file headers
+  private studentText(text: string, segments: Array<[number, number]>): string {
+    return segments.map(([start, end]) => text.slice(start, end)).join('\n\n');
+  }
+}
+
+// Export a singleton instance
+export const writingSignalsService = new WritingSignalsService();
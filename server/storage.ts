@@ -5,9 +5,20 @@ import {
   submissions,
   feedback,
   enrollments,
+  courseStaff,
+  courseInvitations,
+  courseJoinCodes,
+  enrollmentRequests,
+  guestSubmitters,
+  pendingGuestSubmitters,
+  guestAccessTokens,
+  assignmentExtensions,
   systemSettings,
   fileTypeSettings,
   userNotificationSettings,
+  notifications,
+  gradingPasses,
+  submissionFiles,
   contentTypeEnum,
   type User,
   type InsertUser,
@@ -21,18 +32,75 @@ import {
   type InsertFeedback,
   type Enrollment,
   type InsertEnrollment,
+  type CourseStaff,
+  type InsertCourseStaff,
+  type CourseStaffRole,
+  type CourseInvitation,
+  type InsertCourseInvitation,
+  type CourseJoinCode,
+  type InsertCourseJoinCode,
+  type EnrollmentRequest,
+  type InsertEnrollmentRequest,
+  type GuestSubmitter,
+  type InsertGuestSubmitter,
+  type PendingGuestSubmitter,
+  type GuestAccessToken,
+  type AssignmentExtension,
+  type InsertAssignmentExtension,
   type SystemSetting,
   type InsertSystemSetting,
   type FileTypeSetting,
   type InsertFileTypeSetting,
   type UserNotificationSetting,
   type InsertUserNotificationSetting,
+  type Notification,
+  type InsertNotification,
+  type GradingConfig,
+  type AutograderConfig,
+  type AIModelConfig,
+  type SubmissionPolicy,
+  type GradingPass,
+  type InsertGradingPass,
+  type SubmissionFile,
+  type InsertSubmissionFile,
 } from "../shared/schema";
 
 // Define type for the content type enum values
-type ContentType = "text" | "image" | "audio" | "video" | "document";
+type ContentType = "text" | "image" | "audio" | "video" | "document" | "notebook";
 import { db } from "./db";
-import { eq, and, desc, gte, lt, like, or, sql } from "drizzle-orm";
+import { eq, and, desc, gte, lt, like, ne, or, sql, inArray, isNull } from "drizzle-orm";
+
+// A course staff member with their user details; fromEnrollment marks
+// instructors who are staff through their enrollment rather than a staff entry
+export interface CourseStaffMember {
+  userId: number;
+  name: string;
+  email: string;
+  role: CourseStaffRole;
+  fromEnrollment: boolean;
+  createdAt: Date;
+}
+
+// A pending join request with the student's details
+export interface EnrollmentRequestEntry extends EnrollmentRequest {
+  name: string;
+  email: string;
+}
+
+// A guest's submission with its assignment title and feedback
+export interface GuestSubmissionEntry extends Submission {
+  assignmentTitle: string;
+  feedback: Feedback | null;
+}
+
+// Who a guest sign-in link belongs to: a guest, or the pending submitter of one submission
+export type GuestAccessTokenOwner = { guestSubmitterId: number } | { pendingGuestSubmitterId: number };
+
+// A per-student due date with the student's details
+export interface AssignmentExtensionEntry extends AssignmentExtension {
+  name: string;
+  email: string;
+}
 
 export interface IStorage {
   // User operations
@@ -62,10 +130,49 @@ export interface IStorage {
   createEnrollment(enrollment: InsertEnrollment): Promise<Enrollment>;
   listUserEnrollments(userId: number): Promise<Course[]>;
   listCourseEnrollments(courseId: number): Promise<User[]>;
+
+  // Course staff operations. Instructors enrolled in a course without a staff
+  // entry (courses created before staff roles, or joined through LTI) count
+  // as co-instructors.
+  getCourseStaffRole(userId: number, courseId: number): Promise<CourseStaffRole | undefined>;
+  listCourseStaff(courseId: number): Promise<CourseStaffMember[]>;
+  listStaffCourseIds(userId: number): Promise<number[]>;
+  upsertCourseStaff(staff: InsertCourseStaff): Promise<CourseStaff>;
+  removeCourseStaff(courseId: number, userId: number): Promise<boolean>;
+
+  // Roster invitations for students who have not signed in through MIT Horizon yet
+  listCourseInvitations(courseId: number): Promise<CourseInvitation[]>;
+  upsertCourseInvitation(invitation: InsertCourseInvitation): Promise<CourseInvitation>;
+  // Matched by MIT Horizon ID, or by email when one is given
+  listPendingInvitationsForUser(mitHorizonSub: string | null, email: string | null): Promise<CourseInvitation[]>;
+  markCourseInvitationAccepted(id: number, userId: number): Promise<void>;
+  removeCourseInvitation(courseId: number, id: number): Promise<boolean>;
+
+  // Join codes and the approval queue for codes that require it
+  createCourseJoinCode(joinCode: InsertCourseJoinCode): Promise<CourseJoinCode>;
+  listCourseJoinCodes(courseId: number): Promise<CourseJoinCode[]>;
+  getCourseJoinCodeByCode(code: string): Promise<CourseJoinCode | undefined>;
+  revokeCourseJoinCode(courseId: number, id: number): Promise<boolean>;
+  incrementCourseJoinCodeUses(id: number): Promise<void>;
+  getEnrollmentRequest(courseId: number, userId: number): Promise<EnrollmentRequest | undefined>;
+  upsertEnrollmentRequest(request: InsertEnrollmentRequest): Promise<EnrollmentRequest>;
+  listPendingEnrollmentRequests(courseId: number): Promise<EnrollmentRequestEntry[]>;
+  decideEnrollmentRequest(courseId: number, id: number, status: 'approved' | 'denied', decidedBy: number): Promise<EnrollmentRequest | undefined>;
+
+  // Guest submitters, who submit through shareable links without an account
+  getGuestSubmitter(id: number): Promise<GuestSubmitter | undefined>;
+  getGuestSubmitterByEmail(email: string): Promise<GuestSubmitter | undefined>;
+  createPendingGuestSubmitter(submissionId: number, guest: InsertGuestSubmitter): Promise<PendingGuestSubmitter>;
+  confirmPendingGuestSubmitter(id: number): Promise<GuestSubmitter | undefined>;
+  markGuestSubmitterVerified(id: number): Promise<void>;
+  createGuestAccessToken(owner: GuestAccessTokenOwner, tokenHash: string, expiresAt: Date): Promise<GuestAccessToken>;
+  consumeGuestAccessToken(tokenHash: string): Promise<GuestAccessToken | undefined>;
+  listGuestSubmissions(guestSubmitterId: number): Promise<GuestSubmissionEntry[]>;
+  mergeGuestSubmitter(guestSubmitterId: number, userId: number): Promise<number>;
   /**
-   * List all users with the student role
+   * List all users with the student role, or only those enrolled in courseIds
    */
-  listStudents(): Promise<User[]>;
+  listStudents(courseIds?: number[]): Promise<User[]>;
 
   // Assignment operations
   getAssignment(id: number): Promise<Assignment | undefined>;
@@ -74,6 +181,18 @@ export interface IStorage {
   listAssignmentsForUser(userId: number): Promise<Assignment[]>;
   updateAssignmentStatus(id: number, status: string): Promise<Assignment>;
   updateAssignmentShareableCode(id: number, shareableCode: string): Promise<Assignment>;
+  updateAssignmentGradingConfig(id: number, gradingConfig: GradingConfig): Promise<Assignment>;
+  updateAssignmentFeedbackReview(id: number, holdFeedbackForReview: boolean): Promise<Assignment>;
+  updateAssignmentAutograder(id: number, autograder: AutograderConfig | null): Promise<Assignment>;
+  updateAssignmentAIModel(id: number, aiModel: AIModelConfig | null): Promise<Assignment>;
+  updateAssignmentWritingSignals(id: number, writingSignalsEnabled: boolean): Promise<Assignment>;
+  updateAssignmentSubmissionPolicy(id: number, submissionPolicy: SubmissionPolicy | null): Promise<Assignment>;
+
+  // Per-student due date extensions
+  getAssignmentExtension(assignmentId: number, userId: number): Promise<AssignmentExtension | undefined>;
+  listAssignmentExtensions(assignmentId: number): Promise<AssignmentExtensionEntry[]>;
+  upsertAssignmentExtension(extension: InsertAssignmentExtension): Promise<AssignmentExtension>;
+  removeAssignmentExtension(assignmentId: number, userId: number): Promise<boolean>;
   
   // Optimized assignment operations with JOINs
   getAssignmentWithDetails(id: number): Promise<any>;
@@ -84,21 +203,35 @@ export interface IStorage {
   // Submission operations
   getSubmission(id: number): Promise<Submission | undefined>;
   createSubmission(submission: InsertSubmission): Promise<Submission>;
+  // Undefined when the student already has maxAttempts submissions that did not fail
+  createSubmissionWithinAttemptLimit(submission: InsertSubmission & { userId: number }, maxAttempts: number): Promise<Submission | undefined>;
   listSubmissionsForUser(userId: number, assignmentId?: number): Promise<Submission[]>;
   listSubmissionsForAssignment(assignmentId: number): Promise<Submission[]>;
   updateSubmissionStatus(id: number, status: string): Promise<Submission>;
   updateSubmission(id: number, updates: Partial<InsertSubmission>): Promise<Submission>;
   getLatestSubmission(userId: number, assignmentId: number): Promise<Submission | undefined>;
+
+  // Submission file operations (multi-file and ZIP project submissions)
+  createSubmissionFiles(files: InsertSubmissionFile[]): Promise<SubmissionFile[]>;
+  listSubmissionFiles(submissionId: number): Promise<SubmissionFile[]>;
   getAssignmentByShareableCode(code: string): Promise<Assignment | undefined>;
 
   // Feedback operations
   getFeedback(id: number): Promise<Feedback | undefined>;
   getFeedbackBySubmissionId(submissionId: number): Promise<Feedback | undefined>;
   createFeedback(feedback: InsertFeedback): Promise<Feedback>;
+  updateFeedback(id: number, updates: Partial<Feedback>): Promise<Feedback>;
+  releaseFeedback(ids: number[], releasedBy: number): Promise<Feedback[]>;
+  listDraftFeedbackForAssignment(assignmentId: number): Promise<Feedback[]>;
+
+  // Grading pass operations (multi-pass grading)
+  createGradingPasses(passes: InsertGradingPass[]): Promise<GradingPass[]>;
+  listGradingPasses(submissionId: number): Promise<GradingPass[]>;
 
   // System Settings operations
   getSystemSetting(key: string): Promise<SystemSetting | undefined>;
   upsertSystemSetting(setting: InsertSystemSetting): Promise<SystemSetting>;
+  deleteSystemSetting(key: string): Promise<void>;
   listSystemSettings(): Promise<SystemSetting[]>;
 
   // File Type Settings operations
@@ -109,10 +242,17 @@ export interface IStorage {
   // User Notification Settings operations
   getUserNotificationSettings(userId: number): Promise<UserNotificationSetting | undefined>;
   upsertUserNotificationSettings(setting: InsertUserNotificationSetting): Promise<UserNotificationSetting>;
+
+  // In-app notification operations
+  createNotifications(items: InsertNotification[]): Promise<Notification[]>;
+  listNotifications(userId: number, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
   
   // Optimized data operations
-  getStudentProgress(assignmentId?: number): Promise<any[]>;
-  listCoursesWithStats(): Promise<any[]>;
+  getStudentProgress(assignmentId?: number, courseIds?: number[]): Promise<any[]>; // all courses unless limited to courseIds
+  listCoursesWithStats(courseIds?: number[]): Promise<any[]>; // all courses unless limited to courseIds
   
   // OPTIMIZED: Get submissions with feedback in single query (with optional assignment filter)
   listSubmissionsWithFeedbackForUser(userId: number, assignmentId?: number): Promise<(Submission & { feedback: Feedback | null })[]>;
@@ -281,8 +421,309 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async listStudents(): Promise<User[]> {
+  // Course staff operations
+  async getCourseStaffRole(userId: number, courseId: number): Promise<CourseStaffRole | undefined> {
+    const [staff] = await db.select({ role: courseStaff.role }).from(courseStaff)
+      .where(and(eq(courseStaff.userId, userId), eq(courseStaff.courseId, courseId)));
+    if (staff) return staff.role;
+
+    const [enrolledInstructor] = await db.select({ id: users.id })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.userId, users.id))
+      .where(and(eq(enrollments.userId, userId), eq(enrollments.courseId, courseId), eq(users.role, 'instructor')));
+    return enrolledInstructor ? 'instructor' : undefined;
+  }
+
+  async listCourseStaff(courseId: number): Promise<CourseStaffMember[]> {
+    const staff: Omit<CourseStaffMember, 'fromEnrollment'>[] = await db.select({
+      userId: courseStaff.userId,
+      name: users.name,
+      email: users.email,
+      role: courseStaff.role,
+      createdAt: courseStaff.createdAt
+    })
+      .from(courseStaff)
+      .innerJoin(users, eq(courseStaff.userId, users.id))
+      .where(eq(courseStaff.courseId, courseId))
+      .orderBy(courseStaff.createdAt);
+
+    const enrolledInstructors: Omit<CourseStaffMember, 'fromEnrollment' | 'role'>[] = await db.select({
+      userId: users.id,
+      name: users.name,
+      email: users.email,
+      createdAt: enrollments.createdAt
+    })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.userId, users.id))
+      .where(and(eq(enrollments.courseId, courseId), eq(users.role, 'instructor')))
+      .orderBy(enrollments.createdAt);
+
+    const staffIds = staff.map(member => member.userId);
+    return [
+      ...staff.map(member => ({ ...member, fromEnrollment: false })),
+      ...enrolledInstructors
+        .filter(instructor => !staffIds.includes(instructor.userId))
+        .map(instructor => ({ ...instructor, role: 'instructor' as const, fromEnrollment: true }))
+    ];
+  }
+
+  async listStaffCourseIds(userId: number): Promise<number[]> {
+    const staffRows: { courseId: number }[] = await db.select({ courseId: courseStaff.courseId })
+      .from(courseStaff)
+      .where(eq(courseStaff.userId, userId));
+    const enrolledRows: { courseId: number }[] = await db.select({ courseId: enrollments.courseId })
+      .from(enrollments)
+      .innerJoin(users, eq(enrollments.userId, users.id))
+      .where(and(eq(enrollments.userId, userId), eq(users.role, 'instructor')));
+
+    return Array.from(new Set([...staffRows, ...enrolledRows].map(row => row.courseId)));
+  }
+
+  async upsertCourseStaff(staff: InsertCourseStaff): Promise<CourseStaff> {
+    const [saved] = await db.insert(courseStaff)
+      .values(staff)
+      .onConflictDoUpdate({
+        target: [courseStaff.courseId, courseStaff.userId],
+        set: { role: staff.role }
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeCourseStaff(courseId: number, userId: number): Promise<boolean> {
+    const removed = await db.delete(courseStaff)
+      .where(and(eq(courseStaff.courseId, courseId), eq(courseStaff.userId, userId)))
+      .returning({ id: courseStaff.id });
+    return removed.length > 0;
+  }
+
+  async listCourseInvitations(courseId: number): Promise<CourseInvitation[]> {
+    return db.select()
+      .from(courseInvitations)
+      .where(and(eq(courseInvitations.courseId, courseId), isNull(courseInvitations.acceptedAt)))
+      .orderBy(courseInvitations.email);
+  }
+
+  async upsertCourseInvitation(invitation: InsertCourseInvitation): Promise<CourseInvitation> {
+    const [saved] = await db.insert(courseInvitations)
+      .values(invitation)
+      .onConflictDoUpdate({
+        target: [courseInvitations.courseId, courseInvitations.email],
+        set: {
+          name: invitation.name ?? null,
+          mitHorizonSub: invitation.mitHorizonSub ?? null,
+          invitedBy: invitation.invitedBy ?? null,
+          acceptedBy: null,
+          acceptedAt: null
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async listPendingInvitationsForUser(mitHorizonSub: string | null, email: string | null): Promise<CourseInvitation[]> {
+    const matches = or(
+      mitHorizonSub ? eq(courseInvitations.mitHorizonSub, mitHorizonSub) : undefined,
+      email ? eq(courseInvitations.email, email.toLowerCase()) : undefined
+    );
+    if (!matches) {
+      return [];
+    }
+
+    return db.select()
+      .from(courseInvitations)
+      .where(and(isNull(courseInvitations.acceptedAt), matches));
+  }
+
+  async markCourseInvitationAccepted(id: number, userId: number): Promise<void> {
+    await db.update(courseInvitations)
+      .set({ acceptedBy: userId, acceptedAt: new Date() })
+      .where(eq(courseInvitations.id, id));
+  }
+
+  async removeCourseInvitation(courseId: number, id: number): Promise<boolean> {
+    const removed = await db.delete(courseInvitations)
+      .where(and(eq(courseInvitations.courseId, courseId), eq(courseInvitations.id, id)))
+      .returning({ id: courseInvitations.id });
+    return removed.length > 0;
+  }
+
+  async createCourseJoinCode(joinCode: InsertCourseJoinCode): Promise<CourseJoinCode> {
+    const [created] = await db.insert(courseJoinCodes).values(joinCode).returning();
+    return created;
+  }
+
+  async listCourseJoinCodes(courseId: number): Promise<CourseJoinCode[]> {
+    return db.select()
+      .from(courseJoinCodes)
+      .where(and(eq(courseJoinCodes.courseId, courseId), isNull(courseJoinCodes.revokedAt)))
+      .orderBy(desc(courseJoinCodes.createdAt));
+  }
+
+  async getCourseJoinCodeByCode(code: string): Promise<CourseJoinCode | undefined> {
+    const [joinCode] = await db.select().from(courseJoinCodes).where(eq(courseJoinCodes.code, code.toUpperCase()));
+    return joinCode;
+  }
+
+  async revokeCourseJoinCode(courseId: number, id: number): Promise<boolean> {
+    const revoked = await db.update(courseJoinCodes)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(courseJoinCodes.courseId, courseId), eq(courseJoinCodes.id, id), isNull(courseJoinCodes.revokedAt)))
+      .returning({ id: courseJoinCodes.id });
+    return revoked.length > 0;
+  }
+
+  async incrementCourseJoinCodeUses(id: number): Promise<void> {
+    await db.update(courseJoinCodes)
+      .set({ uses: sql`${courseJoinCodes.uses} + 1` })
+      .where(eq(courseJoinCodes.id, id));
+  }
+
+  async getEnrollmentRequest(courseId: number, userId: number): Promise<EnrollmentRequest | undefined> {
+    const [request] = await db.select()
+      .from(enrollmentRequests)
+      .where(and(eq(enrollmentRequests.courseId, courseId), eq(enrollmentRequests.userId, userId)));
+    return request;
+  }
+
+  async upsertEnrollmentRequest(request: InsertEnrollmentRequest): Promise<EnrollmentRequest> {
+    const [saved] = await db.insert(enrollmentRequests)
+      .values(request)
+      .onConflictDoUpdate({
+        target: [enrollmentRequests.courseId, enrollmentRequests.userId],
+        set: { joinCodeId: request.joinCodeId ?? null, status: 'pending', decidedBy: null, decidedAt: null, createdAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async listPendingEnrollmentRequests(courseId: number): Promise<EnrollmentRequestEntry[]> {
+    const rows: { request: EnrollmentRequest; name: string; email: string }[] = await db.select({
+      request: enrollmentRequests,
+      name: users.name,
+      email: users.email
+    })
+      .from(enrollmentRequests)
+      .innerJoin(users, eq(enrollmentRequests.userId, users.id))
+      .where(and(eq(enrollmentRequests.courseId, courseId), eq(enrollmentRequests.status, 'pending')))
+      .orderBy(enrollmentRequests.createdAt);
+    return rows.map(row => ({ ...row.request, name: row.name, email: row.email }));
+  }
+
+  async decideEnrollmentRequest(courseId: number, id: number, status: 'approved' | 'denied', decidedBy: number): Promise<EnrollmentRequest | undefined> {
+    const [decided] = await db.update(enrollmentRequests)
+      .set({ status, decidedBy, decidedAt: new Date() })
+      .where(and(
+        eq(enrollmentRequests.courseId, courseId),
+        eq(enrollmentRequests.id, id),
+        eq(enrollmentRequests.status, 'pending')
+      ))
+      .returning();
+    return decided;
+  }
+
+  async getGuestSubmitter(id: number): Promise<GuestSubmitter | undefined> {
+    const [guest] = await db.select().from(guestSubmitters).where(eq(guestSubmitters.id, id));
+    return guest;
+  }
+
+  async getGuestSubmitterByEmail(email: string): Promise<GuestSubmitter | undefined> {
+    const [guest] = await db.select().from(guestSubmitters).where(eq(guestSubmitters.email, email.toLowerCase()));
+    return guest;
+  }
+
+  async createPendingGuestSubmitter(submissionId: number, guest: InsertGuestSubmitter): Promise<PendingGuestSubmitter> {
+    const [pending] = await db.insert(pendingGuestSubmitters)
+      .values({ submissionId, email: guest.email.toLowerCase(), name: guest.name })
+      .returning();
+    return pending;
+  }
+
+  async confirmPendingGuestSubmitter(id: number): Promise<GuestSubmitter | undefined> {
+    return db.transaction(async (tx: typeof db) => {
+      // Deleting the pending row claims it, so a submission is attached once
+      const [pending] = await tx.delete(pendingGuestSubmitters)
+        .where(eq(pendingGuestSubmitters.id, id))
+        .returning();
+      if (!pending) {
+        return undefined;
+      }
+
+      const now = new Date();
+      const [guest] = await tx.insert(guestSubmitters)
+        .values({ email: pending.email, name: pending.name, emailVerifiedAt: now, lastSubmittedAt: pending.createdAt })
+        .onConflictDoUpdate({
+          target: guestSubmitters.email,
+          set: {
+            name: pending.name,
+            emailVerifiedAt: sql`coalesce(${guestSubmitters.emailVerifiedAt}, ${now})`,
+            lastSubmittedAt: pending.createdAt
+          }
+        })
+        .returning();
+      await tx.update(submissions)
+        .set({ guestSubmitterId: guest.id })
+        .where(and(eq(submissions.id, pending.submissionId), isNull(submissions.userId)));
+      return guest;
+    });
+  }
+
+  async markGuestSubmitterVerified(id: number): Promise<void> {
+    await db.update(guestSubmitters)
+      .set({ emailVerifiedAt: new Date() })
+      .where(and(eq(guestSubmitters.id, id), isNull(guestSubmitters.emailVerifiedAt)));
+  }
+
+  async createGuestAccessToken(owner: GuestAccessTokenOwner, tokenHash: string, expiresAt: Date): Promise<GuestAccessToken> {
+    const [token] = await db.insert(guestAccessTokens).values({ ...owner, tokenHash, expiresAt }).returning();
+    return token;
+  }
+
+  async consumeGuestAccessToken(tokenHash: string): Promise<GuestAccessToken | undefined> {
+    const [token] = await db.update(guestAccessTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(guestAccessTokens.tokenHash, tokenHash),
+        isNull(guestAccessTokens.usedAt),
+        gte(guestAccessTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  async listGuestSubmissions(guestSubmitterId: number): Promise<GuestSubmissionEntry[]> {
+    const rows: { submission: Submission; assignmentTitle: string; feedback: Feedback | null }[] = await db.select({
+      submission: submissions,
+      assignmentTitle: assignments.title,
+      feedback: feedback
+    })
+      .from(submissions)
+      .innerJoin(assignments, eq(submissions.assignmentId, assignments.id))
+      .leftJoin(feedback, eq(feedback.submissionId, submissions.id))
+      .where(eq(submissions.guestSubmitterId, guestSubmitterId))
+      .orderBy(desc(submissions.createdAt));
+    return rows.map(row => ({ ...row.submission, assignmentTitle: row.assignmentTitle, feedback: row.feedback }));
+  }
+
+  async mergeGuestSubmitter(guestSubmitterId: number, userId: number): Promise<number> {
+    const moved = await db.update(submissions)
+      .set({ userId, guestSubmitterId: null })
+      .where(eq(submissions.guestSubmitterId, guestSubmitterId))
+      .returning({ id: submissions.id });
+    await db.delete(guestSubmitters).where(eq(guestSubmitters.id, guestSubmitterId));
+    return moved.length;
+  }
+
+  async listStudents(courseIds?: number[]): Promise<User[]> {
+    if (courseIds && courseIds.length === 0) return [];
     try {
+      if (courseIds) {
+        const enrolled = await db.selectDistinct({ user: users })
+          .from(users)
+          .innerJoin(enrollments, eq(enrollments.userId, users.id))
+          .where(and(eq(users.role, 'student'), inArray(enrollments.courseId, courseIds)));
+        return enrolled.map((row: { user: User }) => row.user);
+      }
       return await db.select().from(users).where(eq(users.role, 'student'));
     } catch (error) {
       console.error('Error retrieving students:', error);
@@ -390,6 +831,92 @@ export class DatabaseStorage implements IStorage {
     return assignment;
   }
 
+  async updateAssignmentGradingConfig(id: number, gradingConfig: GradingConfig): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ gradingConfig, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async updateAssignmentFeedbackReview(id: number, holdFeedbackForReview: boolean): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ holdFeedbackForReview, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async updateAssignmentAutograder(id: number, autograder: AutograderConfig | null): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ autograder, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async updateAssignmentAIModel(id: number, aiModel: AIModelConfig | null): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ aiModel, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async updateAssignmentWritingSignals(id: number, writingSignalsEnabled: boolean): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ writingSignalsEnabled, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async updateAssignmentSubmissionPolicy(id: number, submissionPolicy: SubmissionPolicy | null): Promise<Assignment> {
+    const [assignment] = await db.update(assignments)
+      .set({ submissionPolicy, updatedAt: new Date() })
+      .where(eq(assignments.id, id))
+      .returning();
+    return assignment;
+  }
+
+  async getAssignmentExtension(assignmentId: number, userId: number): Promise<AssignmentExtension | undefined> {
+    const [extension] = await db.select()
+      .from(assignmentExtensions)
+      .where(and(eq(assignmentExtensions.assignmentId, assignmentId), eq(assignmentExtensions.userId, userId)));
+    return extension;
+  }
+
+  async listAssignmentExtensions(assignmentId: number): Promise<AssignmentExtensionEntry[]> {
+    const rows: { extension: AssignmentExtension; name: string; email: string }[] = await db.select({
+      extension: assignmentExtensions,
+      name: users.name,
+      email: users.email
+    })
+      .from(assignmentExtensions)
+      .innerJoin(users, eq(assignmentExtensions.userId, users.id))
+      .where(eq(assignmentExtensions.assignmentId, assignmentId))
+      .orderBy(users.name);
+    return rows.map(row => ({ ...row.extension, name: row.name, email: row.email }));
+  }
+
+  async upsertAssignmentExtension(extension: InsertAssignmentExtension): Promise<AssignmentExtension> {
+    const [saved] = await db.insert(assignmentExtensions)
+      .values(extension)
+      .onConflictDoUpdate({
+        target: [assignmentExtensions.assignmentId, assignmentExtensions.userId],
+        set: { dueDate: extension.dueDate, reason: extension.reason ?? null, grantedBy: extension.grantedBy ?? null }
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeAssignmentExtension(assignmentId: number, userId: number): Promise<boolean> {
+    const removed = await db.delete(assignmentExtensions)
+      .where(and(eq(assignmentExtensions.assignmentId, assignmentId), eq(assignmentExtensions.userId, userId)))
+      .returning({ id: assignmentExtensions.id });
+    return removed.length > 0;
+  }
+
   async getAssignmentByShareableCode(code: string): Promise<Assignment | undefined> {
     try {
       console.log(`[PERFORMANCE] Using optimized shareable code lookup for: ${code}`);
@@ -546,22 +1073,7 @@ export class DatabaseStorage implements IStorage {
     console.log("[INFO] Creating submission with data:", JSON.stringify(insertSubmission, null, 2));
     
     try {
-      // Use standard Drizzle ORM insert
-      const [submission] = await db.insert(submissions)
-        .values({
-          assignmentId: insertSubmission.assignmentId,
-          userId: insertSubmission.userId,
-          fileUrl: insertSubmission.fileUrl || '',
-          fileName: insertSubmission.fileName || '',
-          content: insertSubmission.content || '',
-          notes: insertSubmission.notes || null,
-          status: (insertSubmission.status || 'pending') as 'pending' | 'processing' | 'completed' | 'failed',
-          mimeType: insertSubmission.mimeType || null,
-          fileSize: insertSubmission.fileSize || null,
-          contentType: insertSubmission.contentType || null,
-          fileExtension: insertSubmission.fileExtension || null
-        })
-        .returning();
+      const submission = await this.insertSubmissionRow(db, insertSubmission);
       
       console.log(`[INFO] Submission created successfully: ${submission.id}`);
       return submission;
@@ -572,6 +1084,46 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async createSubmissionWithinAttemptLimit(insertSubmission: InsertSubmission & { userId: number }, maxAttempts: number): Promise<Submission | undefined> {
+    const { assignmentId, userId } = insertSubmission;
+    return db.transaction(async (tx: typeof db) => {
+      // Held until commit, so a student's concurrent submissions are counted one at a time
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${assignmentId}, ${userId})`);
+      const [{ used }] = await tx.select({ used: sql<number>`count(*)::int` })
+        .from(submissions)
+        .where(and(
+          eq(submissions.assignmentId, assignmentId),
+          eq(submissions.userId, userId),
+          ne(submissions.status, 'failed')
+        ));
+      if (used >= maxAttempts) {
+        return undefined;
+      }
+      return this.insertSubmissionRow(tx, insertSubmission);
+    });
+  }
+
+  private async insertSubmissionRow(executor: typeof db, insertSubmission: InsertSubmission): Promise<Submission> {
+    // Use standard Drizzle ORM insert
+    const [submission] = await executor.insert(submissions)
+      .values({
+        assignmentId: insertSubmission.assignmentId,
+        userId: insertSubmission.userId,
+        guestSubmitterId: insertSubmission.guestSubmitterId ?? null,
+        fileUrl: insertSubmission.fileUrl || '',
+        fileName: insertSubmission.fileName || '',
+        content: insertSubmission.content || '',
+        notes: insertSubmission.notes || null,
+        status: (insertSubmission.status || 'pending') as 'pending' | 'processing' | 'completed' | 'failed',
+        mimeType: insertSubmission.mimeType || null,
+        fileSize: insertSubmission.fileSize || null,
+        contentType: insertSubmission.contentType || null,
+        fileExtension: insertSubmission.fileExtension || null
+      })
+      .returning();
+    return submission;
+  }
+
   async listSubmissionsForUser(userId: number, assignmentId?: number): Promise<Submission[]> {
     if (assignmentId) {
       return db.select()
@@ -598,6 +1150,7 @@ export class DatabaseStorage implements IStorage {
       id: submissions.id,
       assignmentId: submissions.assignmentId,
       userId: submissions.userId,
+      guestSubmitterId: submissions.guestSubmitterId,
       fileUrl: submissions.fileUrl,
       fileName: submissions.fileName,
       content: submissions.content,
@@ -608,6 +1161,11 @@ export class DatabaseStorage implements IStorage {
       contentType: submissions.contentType,
       createdAt: submissions.createdAt,
       updatedAt: submissions.updatedAt,
+      lmsSyncStatus: submissions.lmsSyncStatus,
+      lmsSyncAttempts: submissions.lmsSyncAttempts,
+      lmsSyncError: submissions.lmsSyncError,
+      lmsSyncNextAttemptAt: submissions.lmsSyncNextAttemptAt,
+      lmsSyncedAt: submissions.lmsSyncedAt,
       // Feedback fields
       feedbackId: feedback.id,
       feedbackSubmissionId: feedback.submissionId,
@@ -621,6 +1179,13 @@ export class DatabaseStorage implements IStorage {
       feedbackRawResponse: feedback.rawResponse,
       feedbackModelName: feedback.modelName,
       feedbackTokenCount: feedback.tokenCount,
+      feedbackNeedsReview: feedback.needsReview,
+      feedbackGradingVariance: feedback.gradingVariance,
+      feedbackStatus: feedback.status,
+      feedbackReleasedAt: feedback.releasedAt,
+      feedbackReleasedBy: feedback.releasedBy,
+      feedbackLastEditedBy: feedback.lastEditedBy,
+      feedbackLastEditedAt: feedback.lastEditedAt,
       feedbackCreatedAt: feedback.createdAt
     })
     .from(submissions)
@@ -636,6 +1201,7 @@ export class DatabaseStorage implements IStorage {
       id: row.id,
       assignmentId: row.assignmentId,
       userId: row.userId,
+      guestSubmitterId: row.guestSubmitterId,
       fileUrl: row.fileUrl,
       fileName: row.fileName,
       content: row.content,
@@ -646,6 +1212,11 @@ export class DatabaseStorage implements IStorage {
       contentType: row.contentType,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
+      lmsSyncStatus: row.lmsSyncStatus,
+      lmsSyncAttempts: row.lmsSyncAttempts,
+      lmsSyncError: row.lmsSyncError,
+      lmsSyncNextAttemptAt: row.lmsSyncNextAttemptAt,
+      lmsSyncedAt: row.lmsSyncedAt,
       feedback: row.feedbackId ? {
         id: row.feedbackId,
         submissionId: row.feedbackSubmissionId!,
@@ -659,6 +1230,13 @@ export class DatabaseStorage implements IStorage {
         rawResponse: row.feedbackRawResponse,
         modelName: row.feedbackModelName,
         tokenCount: row.feedbackTokenCount,
+        needsReview: row.feedbackNeedsReview ?? false,
+        gradingVariance: row.feedbackGradingVariance,
+        status: row.feedbackStatus ?? 'released',
+        releasedAt: row.feedbackReleasedAt,
+        releasedBy: row.feedbackReleasedBy,
+        lastEditedBy: row.feedbackLastEditedBy,
+        lastEditedAt: row.feedbackLastEditedAt,
         createdAt: row.feedbackCreatedAt!
       } : null
     }));
@@ -673,6 +1251,7 @@ export class DatabaseStorage implements IStorage {
       id: submissions.id,
       assignmentId: submissions.assignmentId,
       userId: submissions.userId,
+      guestSubmitterId: submissions.guestSubmitterId,
       fileUrl: submissions.fileUrl,
       fileName: submissions.fileName,
       content: submissions.content,
@@ -683,6 +1262,11 @@ export class DatabaseStorage implements IStorage {
       contentType: submissions.contentType,
       createdAt: submissions.createdAt,
       updatedAt: submissions.updatedAt,
+      lmsSyncStatus: submissions.lmsSyncStatus,
+      lmsSyncAttempts: submissions.lmsSyncAttempts,
+      lmsSyncError: submissions.lmsSyncError,
+      lmsSyncNextAttemptAt: submissions.lmsSyncNextAttemptAt,
+      lmsSyncedAt: submissions.lmsSyncedAt,
       // Feedback fields
       feedbackId: feedback.id,
       feedbackSubmissionId: feedback.submissionId,
@@ -696,6 +1280,13 @@ export class DatabaseStorage implements IStorage {
       feedbackRawResponse: feedback.rawResponse,
       feedbackModelName: feedback.modelName,
       feedbackTokenCount: feedback.tokenCount,
+      feedbackNeedsReview: feedback.needsReview,
+      feedbackGradingVariance: feedback.gradingVariance,
+      feedbackStatus: feedback.status,
+      feedbackReleasedAt: feedback.releasedAt,
+      feedbackReleasedBy: feedback.releasedBy,
+      feedbackLastEditedBy: feedback.lastEditedBy,
+      feedbackLastEditedAt: feedback.lastEditedAt,
       feedbackCreatedAt: feedback.createdAt
     })
     .from(submissions)
@@ -718,6 +1309,7 @@ export class DatabaseStorage implements IStorage {
       id: row.id,
       assignmentId: row.assignmentId,
       userId: row.userId,
+      guestSubmitterId: row.guestSubmitterId,
       fileUrl: row.fileUrl,
       fileName: row.fileName,
       content: row.content,
@@ -728,6 +1320,11 @@ export class DatabaseStorage implements IStorage {
       contentType: row.contentType,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
+      lmsSyncStatus: row.lmsSyncStatus,
+      lmsSyncAttempts: row.lmsSyncAttempts,
+      lmsSyncError: row.lmsSyncError,
+      lmsSyncNextAttemptAt: row.lmsSyncNextAttemptAt,
+      lmsSyncedAt: row.lmsSyncedAt,
       feedback: row.feedbackId ? {
         id: row.feedbackId,
         submissionId: row.feedbackSubmissionId!,
@@ -741,6 +1338,13 @@ export class DatabaseStorage implements IStorage {
         rawResponse: row.feedbackRawResponse,
         modelName: row.feedbackModelName,
         tokenCount: row.feedbackTokenCount,
+        needsReview: row.feedbackNeedsReview ?? false,
+        gradingVariance: row.feedbackGradingVariance,
+        status: row.feedbackStatus ?? 'released',
+        releasedAt: row.feedbackReleasedAt,
+        releasedBy: row.feedbackReleasedBy,
+        lastEditedBy: row.feedbackLastEditedBy,
+        lastEditedAt: row.feedbackLastEditedAt,
         createdAt: row.feedbackCreatedAt!
       } : null
     }));
@@ -992,6 +1596,11 @@ export class DatabaseStorage implements IStorage {
           rawResponse: insertFeedback.rawResponse || null,
           tokenCount: insertFeedback.tokenCount || null,
           modelName: insertFeedback.modelName || null,
+          needsReview: insertFeedback.needsReview ?? false,
+          gradingVariance: insertFeedback.gradingVariance || null,
+          testResults: insertFeedback.testResults || null,
+          status: insertFeedback.status ?? 'released',
+          releasedAt: insertFeedback.status === 'draft' ? null : new Date(),
         })
         .returning();
 
@@ -1003,6 +1612,81 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateFeedback(id: number, updates: Partial<Feedback>): Promise<Feedback> {
+    try {
+      const [result] = await db.update(feedback)
+        .set(updates)
+        .where(eq(feedback.id, id))
+        .returning();
+      return result;
+    } catch (error: unknown) {
+      console.error(`[ERROR] Error updating feedback ${id}:`, error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to update feedback: ${errorMessage}`);
+    }
+  }
+
+  async releaseFeedback(ids: number[], releasedBy: number): Promise<Feedback[]> {
+    if (ids.length === 0) return [];
+    try {
+      return await db.update(feedback)
+        .set({ status: 'released', releasedAt: new Date(), releasedBy })
+        .where(and(inArray(feedback.id, ids), eq(feedback.status, 'draft')))
+        .returning();
+    } catch (error: unknown) {
+      console.error('[ERROR] Error releasing feedback:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to release feedback: ${errorMessage}`);
+    }
+  }
+
+  async listDraftFeedbackForAssignment(assignmentId: number): Promise<Feedback[]> {
+    const rows = await db.select({ feedback })
+      .from(feedback)
+      .innerJoin(submissions, eq(feedback.submissionId, submissions.id))
+      .where(and(eq(submissions.assignmentId, assignmentId), eq(feedback.status, 'draft')))
+      .orderBy(feedback.createdAt);
+    return rows.map((row: { feedback: Feedback }) => row.feedback);
+  }
+
+  // Submission file operations
+  async createSubmissionFiles(files: InsertSubmissionFile[]): Promise<SubmissionFile[]> {
+    if (files.length === 0) return [];
+    try {
+      return await db.insert(submissionFiles).values(files).returning();
+    } catch (error: unknown) {
+      console.error('[ERROR] Error creating submission files:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to create submission files: ${errorMessage}`);
+    }
+  }
+
+  async listSubmissionFiles(submissionId: number): Promise<SubmissionFile[]> {
+    return await db.select()
+      .from(submissionFiles)
+      .where(eq(submissionFiles.submissionId, submissionId))
+      .orderBy(submissionFiles.path);
+  }
+
+  // Grading pass operations
+  async createGradingPasses(passes: InsertGradingPass[]): Promise<GradingPass[]> {
+    if (passes.length === 0) return [];
+    try {
+      return await db.insert(gradingPasses).values(passes).returning();
+    } catch (error: unknown) {
+      console.error('[ERROR] Error creating grading passes:', error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to create grading passes: ${errorMessage}`);
+    }
+  }
+
+  async listGradingPasses(submissionId: number): Promise<GradingPass[]> {
+    return await db.select()
+      .from(gradingPasses)
+      .where(eq(gradingPasses.submissionId, submissionId))
+      .orderBy(gradingPasses.passNumber);
+  }
+
   // System Settings operations
   async getSystemSetting(key: string): Promise<SystemSetting | undefined> {
     const result = await db.select()
@@ -1034,6 +1718,10 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async deleteSystemSetting(key: string): Promise<void> {
+    await db.delete(systemSettings).where(eq(systemSettings.key, key));
+  }
+
   async listSystemSettings(): Promise<SystemSetting[]> {
     return await db.select().from(systemSettings);
   }
@@ -1238,7 +1926,7 @@ export class DatabaseStorage implements IStorage {
   ): Promise<boolean> {
     try {
       // Validate contentType is one of the allowed values
-      if (!['text', 'image', 'audio', 'video', 'document'].includes(contentType)) {
+      if (!['text', 'image', 'audio', 'video', 'document', 'notebook'].includes(contentType)) {
         console.warn(`Invalid content type: ${contentType}`);
         return false;
       }
@@ -1359,6 +2047,49 @@ export class DatabaseStorage implements IStorage {
     return inserted;
   }
 
+  // In-app notification operations
+  async createNotifications(items: InsertNotification[]): Promise<Notification[]> {
+    if (items.length === 0) return [];
+    return await db.insert(notifications).values(items).returning();
+  }
+
+  async listNotifications(userId: number, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(eq(notifications.read, false));
+    }
+
+    return await db.select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(options.limit ?? 20);
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)));
+    return result?.count ?? 0;
+  }
+
+  // Scoped to the owner so users cannot mark each other's notifications
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db.update(notifications)
+      .set({ read: true, readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
   // Performance-optimized methods with database-level JOINs and aggregations
   
   async getAssignmentWithDetails(id: number): Promise<any> {
@@ -1374,6 +2105,13 @@ export class DatabaseStorage implements IStorage {
           courseId: assignments.courseId,
           shareableCode: assignments.shareableCode,
           status: assignments.status,
+          gradingConfig: assignments.gradingConfig,
+          holdFeedbackForReview: assignments.holdFeedbackForReview,
+          rubric: assignments.rubric,
+          autograder: assignments.autograder,
+          aiModel: assignments.aiModel,
+          writingSignalsEnabled: assignments.writingSignalsEnabled,
+          submissionPolicy: assignments.submissionPolicy,
           courseName: courses.name,
           courseCode: courses.code,
           submissionCount: sql<number>`COUNT(DISTINCT ${submissions.id})`.as('submissionCount'),
@@ -1457,9 +2195,10 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getStudentProgress(assignmentId?: number): Promise<any[]> {
+  async getStudentProgress(assignmentId?: number, courseIds?: number[]): Promise<any[]> {
+    if (courseIds && courseIds.length === 0) return [];
     try {
-      let query = db
+      return await db
         .select({
           userId: users.id,
           userName: users.name,
@@ -1480,22 +2219,21 @@ export class DatabaseStorage implements IStorage {
         .leftJoin(assignments, eq(courses.id, assignments.courseId))
         .leftJoin(submissions, and(eq(assignments.id, submissions.assignmentId), eq(users.id, submissions.userId)))
         .leftJoin(feedback, eq(submissions.id, feedback.submissionId))
-        .where(eq(users.role, 'student'))
+        .where(and(
+          eq(users.role, 'student'),
+          assignmentId ? eq(assignments.id, assignmentId) : undefined,
+          courseIds ? inArray(courses.id, courseIds) : undefined
+        ))
         .groupBy(users.id, users.name, users.email, assignments.id, assignments.title, assignments.maxScore, courses.name)
         .orderBy(users.name, assignments.title);
-
-      if (assignmentId) {
-        query = query.where(eq(assignments.id, assignmentId));
-      }
-
-      return await query;
     } catch (error) {
       console.error(`[ERROR] Error getting student progress:`, error);
       throw new Error(`Failed to get student progress: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
-  async listCoursesWithStats(): Promise<any[]> {
+  async listCoursesWithStats(courseIds?: number[]): Promise<any[]> {
+    if (courseIds && courseIds.length === 0) return [];
     try {
       return await db
         .select({
@@ -1512,6 +2250,7 @@ export class DatabaseStorage implements IStorage {
         .leftJoin(enrollments, eq(courses.id, enrollments.courseId))
         .leftJoin(assignments, eq(courses.id, assignments.courseId))
         .leftJoin(submissions, eq(assignments.id, submissions.assignmentId))
+        .where(courseIds ? inArray(courses.id, courseIds) : undefined)
         .groupBy(courses.id, courses.name, courses.code, courses.description)
         .orderBy(courses.name);
     } catch (error) {
@@ -0,0 +1,532 @@
+/**
+ * Test harnesses for the autograder
+ *
+ * A run uses two sandboxed processes. The submission host loads the
+ * student's code and nothing else. The test runner reads `{ testCode,
+ * modules }` from stdin, runs every test it finds and writes the results as
+ * one JSON line to file descriptor 3, then closes it. The student's modules
+ * never load in the runner: importing one gives a stand-in whose attribute
+ * reads, calls and operators are sent to the host over a pipe (runner fd 4,
+ * host fd 3), one JSON line per request and reply. Plain values are copied
+ * across; anything else stays in the host and is referred to by id. The
+ * student's code can therefore only influence the values its functions
+ * return, never which tests pass or what the runner reports.
+ */
+
+/**
+ * Python value encoding shared by both sides. `to_ref` and `from_ref` map
+ * objects that cannot be copied to and from ids.
+ */
+const PYTHON_COMMON = String.raw`
+import json
+import traceback
+
+MAX_MESSAGE_LENGTH = 500
+PLAIN_TYPES = (type(None), bool, int, float, str)
+COLLECTIONS = {"tuple": tuple, "set": set, "frozenset": frozenset}
+
+
+def encode(value, to_ref):
+    kind = type(value)
+    if kind in PLAIN_TYPES:
+        return value
+    if kind is list:
+        return [encode(item, to_ref) for item in value]
+    if kind in (tuple, set, frozenset):
+        return {"$": kind.__name__, "items": [encode(item, to_ref) for item in value]}
+    if kind is dict:
+        return {"$": "dict", "items": [[encode(key, to_ref), encode(item, to_ref)] for key, item in value.items()]}
+    if kind is bytes:
+        return {"$": "bytes", "hex": value.hex()}
+    return {"$": "ref", "id": to_ref(value)}
+
+
+def decode(data, from_ref):
+    if isinstance(data, list):
+        return [decode(item, from_ref) for item in data]
+    if not isinstance(data, dict):
+        return data
+    kind = data["$"]
+    if kind == "ref":
+        return from_ref(data["id"])
+    if kind == "bytes":
+        return bytes.fromhex(data["hex"])
+    if kind == "dict":
+        return {decode(key, from_ref): decode(item, from_ref) for key, item in data["items"]}
+    return COLLECTIONS[kind](decode(item, from_ref) for item in data["items"])
+
+
+def describe(error):
+    if isinstance(error, AssertionError):
+        message = str(error) or "Assertion failed"
+    else:
+        message = "".join(traceback.format_exception_only(type(error), error)).strip()
+    return message[:MAX_MESSAGE_LENGTH]
+`;
+
+/**
+ * Python submission host: imports the student's modules from the working
+ * directory and performs the runner's requests on them
+ */
+export const PYTHON_HOST = PYTHON_COMMON + String.raw`
+import importlib
+import operator
+import os
+import sys
+
+OPERATIONS = {
+    "len": len, "str": str, "repr": repr, "bool": bool, "hash": hash, "list": list, "abs": abs,
+    "contains": operator.contains, "getitem": operator.getitem, "setitem": operator.setitem,
+    "delitem": operator.delitem, "eq": operator.eq, "ne": operator.ne, "lt": operator.lt,
+    "le": operator.le, "gt": operator.gt, "ge": operator.ge, "add": operator.add,
+    "sub": operator.sub, "mul": operator.mul, "truediv": operator.truediv,
+    "floordiv": operator.floordiv, "mod": operator.mod, "pow": operator.pow,
+    "neg": operator.neg, "pos": operator.pos,
+}
+objects = []
+
+
+def to_ref(value):
+    objects.append(value)
+    return len(objects) - 1
+
+
+def perform(request):
+    op = request["op"]
+    args = decode(request["args"], objects.__getitem__)
+    if op == "import":
+        return importlib.import_module(args[0])
+    if op == "names":
+        module = args[0]
+        return list(getattr(module, "__all__", [name for name in vars(module) if not name.startswith("_")]))
+    if op == "getattr":
+        return getattr(args[0], args[1])
+    if op == "setattr":
+        return setattr(args[0], args[1], args[2])
+    if op == "call":
+        return args[0](*args[1], **args[2])
+    return OPERATIONS[op](*args)
+
+
+def main():
+    sys.path.insert(0, os.getcwd())
+    requests = os.fdopen(3, "r", encoding="utf-8")
+    replies = os.fdopen(os.dup(3), "w", encoding="utf-8")
+    for line in requests:
+        try:
+            reply = {"value": encode(perform(json.loads(line)), to_ref)}
+        except BaseException as error:
+            reply = {"error": {"type": type(error).__name__, "message": str(error)[:MAX_MESSAGE_LENGTH]}}
+            if isinstance(error, ImportError):
+                reply["error"]["module"] = error.name
+        replies.write(json.dumps(reply) + "\n")
+        replies.flush()
+
+
+main()
+`;
+
+/**
+ * Python test runner: runs module-level test_* functions and
+ * unittest.TestCase classes in definition order
+ */
+export const PYTHON_RUNNER = PYTHON_COMMON + String.raw`
+import builtins
+import importlib.abc
+import importlib.util
+import inspect
+import os
+import sys
+import time
+import types
+import unittest
+
+
+class SubmissionError(Exception):
+    """Raised for errors in the submission that have no built-in equivalent"""
+
+
+class Submission:
+    def __init__(self, fd):
+        self.replies = os.fdopen(fd, "r", encoding="utf-8")
+        self.requests = os.fdopen(os.dup(fd), "w", encoding="utf-8")
+
+    def request(self, op, *args):
+        self.requests.write(json.dumps({"op": op, "args": encode(list(args), to_ref)}) + "\n")
+        self.requests.flush()
+        line = self.replies.readline()
+        if not line:
+            raise SubmissionError("The submission stopped responding")
+        try:
+            reply = json.loads(line)
+        except ValueError:
+            reply = None
+        if isinstance(reply, dict) and isinstance(reply.get("error"), dict):
+            raise remote_exception(reply["error"])
+        if not isinstance(reply, dict) or "value" not in reply:
+            raise SubmissionError("The submission sent an unreadable reply")
+        return decode(reply["value"], Remote)
+
+
+def remote_exception(error):
+    name = str(error.get("type"))
+    message = str(error.get("message"))
+    kind = getattr(builtins, name, None)
+    if isinstance(kind, type) and issubclass(kind, ImportError):
+        # Lets "from module import name" report a missing name as usual
+        return kind(message, name=error.get("module"))
+    if isinstance(kind, type) and issubclass(kind, Exception):
+        try:
+            return kind(message)
+        except Exception:
+            pass
+    return SubmissionError(name + ": " + message)
+
+
+def to_ref(value):
+    if isinstance(value, Remote):
+        return object.__getattribute__(value, "_ref")
+    raise TypeError("Only plain values and objects from the submission can be passed to it, not " + type(value).__name__)
+
+
+class Remote:
+    """An object that lives in the submission host"""
+
+    __slots__ = ("_ref",)
+
+    def __init__(self, ref):
+        object.__setattr__(self, "_ref", ref)
+
+    def __getattr__(self, name):
+        if name.startswith("__") and name.endswith("__"):
+            raise AttributeError(name)
+        return submission.request("getattr", self, name)
+
+    def __setattr__(self, name, value):
+        submission.request("setattr", self, name, value)
+
+    def __call__(self, *args, **kwargs):
+        return submission.request("call", self, list(args), kwargs)
+
+    def __iter__(self):
+        return iter(submission.request("list", self))
+
+
+def forward(op, reflected=False):
+    def method(self, *args):
+        return submission.request(op, *((args[0], self) if reflected else (self,) + args))
+    return method
+
+
+for op in ("len", "str", "repr", "bool", "hash", "abs", "contains", "getitem", "setitem", "delitem",
+           "eq", "ne", "lt", "le", "gt", "ge", "neg", "pos"):
+    setattr(Remote, "__" + op + "__", forward(op))
+for op in ("add", "sub", "mul", "truediv", "floordiv", "mod", "pow"):
+    setattr(Remote, "__" + op + "__", forward(op))
+    setattr(Remote, "__r" + op + "__", forward(op, reflected=True))
+
+
+class SubmissionModules(importlib.abc.MetaPathFinder, importlib.abc.Loader):
+    """Imports the student's modules as stand-ins for the ones in the host"""
+
+    def __init__(self, names):
+        self.names = set(names)
+
+    def find_spec(self, fullname, path, target=None):
+        if fullname.partition(".")[0] not in self.names:
+            return None
+        return importlib.util.spec_from_loader(fullname, self, is_package=True)
+
+    def create_module(self, spec):
+        return None
+
+    def exec_module(self, module):
+        remote = submission.request("import", module.__name__)
+        module.__all__ = submission.request("names", remote)
+        module.__getattr__ = lambda name: getattr(remote, name)
+
+
+def last_line(text):
+    lines = [line for line in text.strip().splitlines() if line.strip()]
+    return (lines[-1] if lines else "Test failed")[:MAX_MESSAGE_LENGTH]
+
+
+def write_results(channel, payload):
+    channel.write(json.dumps(payload) + "\n")
+    channel.close()
+
+
+def main():
+    global submission
+    request = json.loads(sys.stdin.read())
+    sys.stdin.close()
+    channel = os.fdopen(3, "w", encoding="utf-8")
+    submission = Submission(4)
+    # Last, so the standard library wins over a student module with the same name
+    sys.meta_path.append(SubmissionModules(request["modules"]))
+
+    module = types.ModuleType("autograder_tests")
+    sys.modules[module.__name__] = module
+    try:
+        exec(compile(request["testCode"], "<tests>", "exec"), module.__dict__)
+    except BaseException as error:
+        write_results(channel, {"error": "Test suite failed to load: " + describe(error)})
+        return
+
+    results = []
+    for name, value in list(vars(module).items()):
+        if inspect.isfunction(value) and name.startswith("test") and value.__module__ == module.__name__:
+            started = time.monotonic()
+            try:
+                value()
+                results.append({"name": name, "passed": True})
+            except BaseException as error:
+                results.append({"name": name, "passed": False, "message": describe(error)})
+            results[-1]["durationMs"] = round((time.monotonic() - started) * 1000)
+        elif inspect.isclass(value) and issubclass(value, unittest.TestCase) and value.__module__ == module.__name__:
+            for case in unittest.defaultTestLoader.loadTestsFromTestCase(value):
+                started = time.monotonic()
+                outcome = unittest.TestResult()
+                case.run(outcome)
+                problems = outcome.failures + outcome.errors
+                result = {"name": name + "." + case._testMethodName, "passed": outcome.wasSuccessful()}
+                if problems:
+                    result["message"] = last_line(problems[0][1])
+                result["durationMs"] = round((time.monotonic() - started) * 1000)
+                results.append(result)
+
+    write_results(channel, {"tests": results})
+
+
+main()
+`;
+
+/**
+ * JavaScript value encoding shared by both sides. `toRef` and `fromRef` map
+ * objects that cannot be copied to and from ids.
+ */
+const JAVASCRIPT_COMMON = String.raw`
+const fs = require('node:fs');
+const path = require('node:path');
+const { createRequire } = require('node:module');
+
+const MAX_MESSAGE_LENGTH = 500;
+
+function encode(value, toRef) {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : { $: 'number', value: String(value) };
+  if (value === undefined) return { $: 'undefined' };
+  if (typeof value === 'bigint') return { $: 'bigint', value: String(value) };
+  const prototype = typeof value === 'object' ? Object.getPrototypeOf(value) : undefined;
+  if (prototype === Array.prototype) return Array.from(value, item => encode(item, toRef));
+  if (prototype === Object.prototype || prototype === null) {
+    return { $: 'object', entries: Object.entries(value).map(([key, item]) => [key, encode(item, toRef)]) };
+  }
+  if (prototype === Map.prototype) {
+    return { $: 'map', entries: Array.from(value, ([key, item]) => [encode(key, toRef), encode(item, toRef)]) };
+  }
+  if (prototype === Set.prototype) return { $: 'set', items: Array.from(value, item => encode(item, toRef)) };
+  if (prototype === Date.prototype) return { $: 'date', value: value.getTime() };
+  return { $: 'ref', id: toRef(value) };
+}
+
+function decode(data, fromRef) {
+  if (Array.isArray(data)) return data.map(item => decode(item, fromRef));
+  if (data === null || typeof data !== 'object') return data;
+  switch (data.$) {
+    case 'ref': return fromRef(data.id);
+    case 'undefined': return undefined;
+    case 'number': return Number(data.value);
+    case 'bigint': return BigInt(data.value);
+    case 'date': return new Date(data.value);
+    case 'object': return Object.fromEntries(data.entries.map(([key, item]) => [String(key), decode(item, fromRef)]));
+    case 'map': return new Map(data.entries.map(([key, item]) => [decode(key, fromRef), decode(item, fromRef)]));
+    case 'set': return new Set(data.items.map(item => decode(item, fromRef)));
+    default: throw new TypeError('Unrecognised value from the submission');
+  }
+}
+
+function describe(error) {
+  const message = error instanceof Error ? error.message || error.name : String(error);
+  return message.slice(0, MAX_MESSAGE_LENGTH);
+}
+`;
+
+/**
+ * JavaScript submission host: requires the student's modules from the
+ * working directory and performs the runner's requests on them, awaiting
+ * any promise a call returns
+ */
+export const JAVASCRIPT_HOST = JAVASCRIPT_COMMON + String.raw`
+const net = require('node:net');
+const readline = require('node:readline');
+
+const requireSubmission = createRequire(path.join(process.cwd(), '__autograder_host__.js'));
+const objects = [];
+const toRef = value => objects.push(value) - 1;
+
+async function perform({ op, args: encoded }) {
+  const args = decode(encoded, id => objects[id]);
+  switch (op) {
+    case 'import': return requireSubmission(args[0]);
+    case 'get': return args[0][args[1]];
+    case 'set': args[0][args[1]] = args[2]; return undefined;
+    case 'has': return args[1] in args[0];
+    case 'call': return await Reflect.apply(args[0], args[1], args[2]);
+    case 'new': return Reflect.construct(args[0], args[1]);
+    case 'list': return Array.from(args[0]);
+    case 'string': return String(args[0]);
+    case 'number': return Number(args[0]);
+    default: throw new Error('Unknown operation ' + op);
+  }
+}
+
+(async () => {
+  const channel = new net.Socket({ fd: 3, readable: true, writable: true });
+  for await (const line of readline.createInterface({ input: channel, crlfDelay: Infinity })) {
+    let reply;
+    try {
+      reply = { value: encode(await perform(JSON.parse(line)), toRef) };
+    } catch (error) {
+      reply = { error: { name: error instanceof Error ? error.name : 'Error', message: describe(error) } };
+    }
+    channel.write(JSON.stringify(reply) + '\n');
+  }
+  process.exit(0);
+})();
+`;
+
+/**
+ * JavaScript test runner: collects test(name, fn) / it(name, fn) calls and
+ * awaits each one in turn. Node's assert module is available as a global.
+ * Relative requires load the student's modules; calls to them block until
+ * the host replies.
+ */
+export const JAVASCRIPT_RUNNER = JAVASCRIPT_COMMON + String.raw`
+const assert = require('node:assert');
+const { StringDecoder } = require('node:string_decoder');
+const vm = require('node:vm');
+
+const CHANNEL = 4;
+const BUILTIN_ERRORS = ['Error', 'TypeError', 'RangeError', 'SyntaxError', 'ReferenceError', 'EvalError', 'URIError'];
+const tests = [];
+const refs = new WeakMap();
+const modules = new Map();
+const replyDecoder = new StringDecoder('utf8');
+let pending = '';
+
+const request = JSON.parse(fs.readFileSync(0, 'utf8'));
+fs.closeSync(0);
+
+globalThis.assert = assert;
+globalThis.test = globalThis.it = (name, fn) => tests.push({ name: String(name), fn });
+
+function toRef(value) {
+  if (refs.has(value)) return refs.get(value);
+  throw new TypeError('Only plain values and objects from the submission can be passed to it');
+}
+
+function remoteError(error) {
+  const name = String(error && error.name);
+  const Kind = BUILTIN_ERRORS.includes(name) ? globalThis[name] : Error;
+  const thrown = new Kind(String(error && error.message));
+  if (Kind === Error && name !== 'Error') thrown.name = name;
+  return thrown;
+}
+
+function readReply() {
+  const chunk = Buffer.alloc(64 * 1024);
+  while (!pending.includes('\n')) {
+    const read = fs.readSync(CHANNEL, chunk);
+    if (read === 0) throw new Error('The submission stopped responding');
+    pending += replyDecoder.write(chunk.subarray(0, read));
+  }
+  const end = pending.indexOf('\n');
+  const line = pending.slice(0, end);
+  pending = pending.slice(end + 1);
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined;
+  }
+}
+
+function call(op, ...args) {
+  fs.writeSync(CHANNEL, JSON.stringify({ op, args: encode(args, toRef) }) + '\n');
+  const reply = readReply();
+  if (reply && typeof reply === 'object' && reply.error && typeof reply.error === 'object') throw remoteError(reply.error);
+  if (!reply || typeof reply !== 'object' || !('value' in reply)) throw new Error('The submission sent an unreadable reply');
+  return decode(reply.value, remote);
+}
+
+// An object that lives in the submission host
+function remote(id) {
+  const proxy = new Proxy(function () {}, {
+    get(target, key) {
+      if (key === 'then') return undefined;
+      if (key === Symbol.iterator) return () => call('list', proxy)[Symbol.iterator]();
+      if (key === Symbol.toPrimitive) return hint => call(hint === 'number' ? 'number' : 'string', proxy);
+      if (typeof key === 'symbol') return undefined;
+      return call('get', proxy, key);
+    },
+    set(target, key, value) {
+      if (typeof key === 'symbol') return false;
+      call('set', proxy, key, value);
+      return true;
+    },
+    has(target, key) {
+      return typeof key !== 'symbol' && call('has', proxy, key);
+    },
+    apply(target, thisArg, args) {
+      return call('call', proxy, thisArg, args);
+    },
+    construct(target, args) {
+      return call('new', proxy, args);
+    }
+  });
+  refs.set(proxy, id);
+  return proxy;
+}
+
+// Relative and absolute paths are the student's modules; anything else loads here
+const requireHere = createRequire(path.join(process.cwd(), '__autograder_tests__.js'));
+function requireForTests(specifier) {
+  if (!specifier.startsWith('.') && !path.isAbsolute(specifier)) {
+    return requireHere(specifier);
+  }
+  if (!modules.has(specifier)) {
+    modules.set(specifier, call('import', specifier));
+  }
+  return modules.get(specifier);
+}
+
+function writeResults(payload) {
+  fs.writeSync(3, JSON.stringify(payload) + '\n');
+  fs.closeSync(3);
+}
+
+(async () => {
+  try {
+    const filename = path.join(process.cwd(), '__autograder_tests__.js');
+    const testModule = { exports: {} };
+    const load = vm.runInThisContext('(function (exports, require, module, __filename, __dirname) {' + request.testCode + '\n})', { filename });
+    load(testModule.exports, requireForTests, testModule, filename, process.cwd());
+  } catch (error) {
+    writeResults({ error: 'Test suite failed to load: ' + describe(error) });
+    return;
+  }
+
+  const results = [];
+  for (const { name, fn } of tests) {
+    const started = Date.now();
+    try {
+      await fn();
+      results.push({ name, passed: true, durationMs: Date.now() - started });
+    } catch (error) {
+      results.push({ name, passed: false, message: describe(error), durationMs: Date.now() - started });
+    }
+  }
+
+  writeResults({ tests: results });
+})();
+`;
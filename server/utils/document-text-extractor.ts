@@ -0,0 +1,430 @@
+/**
+ * Text extraction for office documents and PDFs
+ *
+ * Converts PDF, DOCX, PPTX and XLSX files to plain text with light Markdown
+ * structure (headings, lists, tables, slide and sheet sections) so adapters
+ * without multimodal support can still grade documents and token estimates
+ * reflect the real content size.
+ */
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { getExtensionFromFilename } from './file-type-settings';
+import { readZipEntry } from './project-submission';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx';
+
+// Large spreadsheets are summarised rather than sent row by row
+const MAX_SHEET_ROWS = 200;
+// Total size the XML parts of one document may inflate to
+const MAX_DOCUMENT_XML_BYTES = 50 * 1024 * 1024;
+
+const FORMAT_MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx'
+};
+
+const FORMAT_EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  pptx: 'pptx',
+  xlsx: 'xlsx'
+};
+
+// Nodes produced by fast-xml-parser with preserveOrder: { tagName: children, ':@': attributes }
+type XmlNode = Record<string, any>;
+
+const xmlParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  // Keep whitespace inside runs such as <w:t xml:space="preserve"> </w:t>
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false
+});
+
+function parseXml(xml: string): XmlNode[] {
+  return xmlParser.parse(xml) as XmlNode[];
+}
+
+function tagOf(node: XmlNode): string | undefined {
+  return Object.keys(node).find(key => key !== ':@');
+}
+
+function childrenOf(node: XmlNode): XmlNode[] {
+  const tag = tagOf(node);
+  const children = tag ? node[tag] : undefined;
+  return Array.isArray(children) ? children : [];
+}
+
+function attrOf(node: XmlNode, name: string): string | undefined {
+  return node[':@']?.[name];
+}
+
+/**
+ * Depth-first search for every descendant with the given tag
+ */
+function findAll(nodes: XmlNode[], tag: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const node of nodes) {
+    if (tagOf(node) === tag) {
+      found.push(node);
+    } else {
+      found.push(...findAll(childrenOf(node), tag));
+    }
+  }
+  return found;
+}
+
+function findFirst(nodes: XmlNode[], tag: string): XmlNode | undefined {
+  return findAll(nodes, tag)[0];
+}
+
+/**
+ * Concatenate the text runs under a node. `textTag` is w:t (Word), a:t
+ * (DrawingML) or t (SpreadsheetML); tabs and line breaks are kept.
+ */
+function runText(nodes: XmlNode[], textTag: string): string {
+  let text = '';
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === '#text') {
+      continue;
+    }
+    if (tag === textTag) {
+      text += childrenOf(node).map(child => child['#text'] ?? '').join('');
+    } else if (tag === 'w:tab') {
+      text += '\t';
+    } else if (tag === 'w:br' || tag === 'a:br') {
+      text += '\n';
+    } else {
+      text += runText(childrenOf(node), textTag);
+    }
+  }
+  return text;
+}
+
+/**
+ * Render rows as a Markdown table, using the first row as the header
+ */
+function toMarkdownTable(rows: string[][]): string {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  if (width === 0) return '';
+
+  const cell = (value: string | undefined) => (value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(' | ')} |`;
+
+  return [
+    line(rows[0]),
+    `| ${Array(width).fill('---').join(' | ')} |`,
+    ...rows.slice(1).map(line)
+  ].join('\n');
+}
+
+// An opened DOCX, PPTX or XLSX package and what is left of its byte budget
+interface OfficePackage {
+  zip: JSZip;
+  remainingBytes: number;
+}
+
+async function openPackage(buffer: Buffer): Promise<OfficePackage> {
+  return { zip: await JSZip.loadAsync(buffer), remainingBytes: MAX_DOCUMENT_XML_BYTES };
+}
+
+/**
+ * Read a part of the package as text, counting it against the package's
+ * budget so a small upload cannot inflate to gigabytes of XML
+ */
+async function readZipText(pkg: OfficePackage, name: string): Promise<string | undefined> {
+  const file = pkg.zip.file(name);
+  if (!file) return undefined;
+
+  const content = await readZipEntry(file, pkg.remainingBytes, MAX_DOCUMENT_XML_BYTES);
+  pkg.remainingBytes -= content.length;
+  return content.toString('utf8');
+}
+
+/**
+ * Resolve a relationship target relative to the part that references it
+ */
+function resolvePartPath(basePath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = basePath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Relationship id -> part path for a part such as ppt/slides/slide1.xml
+ */
+async function readRelationships(pkg: OfficePackage, partPath: string): Promise<Map<string, { target: string; type: string }>> {
+  const segments = partPath.split('/');
+  const fileName = segments.pop();
+  const relsXml = await readZipText(pkg, [...segments, '_rels', `${fileName}.rels`].join('/'));
+  const relationships = new Map<string, { target: string; type: string }>();
+  if (!relsXml) return relationships;
+
+  for (const rel of findAll(parseXml(relsXml), 'Relationship')) {
+    const id = attrOf(rel, 'Id');
+    const target = attrOf(rel, 'Target');
+    if (id && target && attrOf(rel, 'TargetMode') !== 'External') {
+      relationships.set(id, { target: resolvePartPath(partPath, target), type: attrOf(rel, 'Type') || '' });
+    }
+  }
+  return relationships;
+}
+
+function byPartNumber(a: string, b: string): number {
+  return Number(a.match(/(\d+)\.xml$/)?.[1] ?? 0) - Number(b.match(/(\d+)\.xml$/)?.[1] ?? 0);
+}
+
+async function extractPdf(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { totalPages, text } = await extractText(pdf, { mergePages: false });
+
+  const pages = text.map(page => page.trim());
+  if (pages.every(page => page.length === 0)) return '';
+  if (totalPages === 1) return pages[0];
+
+  return pages
+    .map((page, index) => `--- Page ${index + 1} ---\n${page}`)
+    .join('\n\n');
+}
+
+function docxParagraph(paragraph: XmlNode): string {
+  const text = runText(childrenOf(paragraph).filter(child => tagOf(child) !== 'w:pPr'), 'w:t').trim();
+  if (!text) return '';
+
+  const properties = findFirst(childrenOf(paragraph), 'w:pPr');
+  const style = properties ? attrOf(findFirst(childrenOf(properties), 'w:pStyle') ?? {}, 'w:val') : undefined;
+
+  const heading = style?.match(/^heading\s*(\d)$/i);
+  if (heading) return `${'#'.repeat(Number(heading[1]))} ${text}`;
+  if (style && /^(title)$/i.test(style)) return `# ${text}`;
+  if (style && /^(subtitle)$/i.test(style)) return `## ${text}`;
+  if (properties && findFirst(childrenOf(properties), 'w:numPr')) return `- ${text}`;
+  return text;
+}
+
+function docxTable(table: XmlNode): string {
+  const rows = childrenOf(table)
+    .filter(row => tagOf(row) === 'w:tr')
+    .map(row => childrenOf(row)
+      .filter(cell => tagOf(cell) === 'w:tc')
+      .map(cell => findAll(childrenOf(cell), 'w:p').map(p => runText(childrenOf(p), 'w:t').trim()).filter(Boolean).join(' ')));
+  return toMarkdownTable(rows);
+}
+
+function docxBlocks(nodes: XmlNode[]): string[] {
+  const blocks: string[] = [];
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === 'w:p') {
+      blocks.push(docxParagraph(node));
+    } else if (tag === 'w:tbl') {
+      blocks.push(docxTable(node));
+    } else if (tag === 'w:sdt' || tag === 'w:sdtContent' || tag === 'w:customXml') {
+      // Content controls wrap ordinary paragraphs and tables
+      blocks.push(...docxBlocks(childrenOf(node)));
+    }
+  }
+  return blocks.filter(Boolean);
+}
+
+async function extractDocx(buffer: Buffer): Promise<string> {
+  const pkg = await openPackage(buffer);
+  const documentXml = await readZipText(pkg, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document: word/document.xml is missing');
+
+  const body = findFirst(parseXml(documentXml), 'w:body');
+  return body ? docxBlocks(childrenOf(body)).join('\n\n') : '';
+}
+
+function slideParagraphs(shape: XmlNode): string[] {
+  return findAll(childrenOf(shape), 'a:p')
+    .map(paragraph => runText(childrenOf(paragraph), 'a:t').trim())
+    .filter(Boolean);
+}
+
+function slideBlocks(nodes: XmlNode[]): string[] {
+  const blocks: string[] = [];
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    if (tag === 'p:sp') {
+      const placeholder = findFirst(childrenOf(node), 'p:ph');
+      const type = placeholder ? attrOf(placeholder, 'type') : undefined;
+      const paragraphs = slideParagraphs(node);
+      if (paragraphs.length === 0) continue;
+      if (type === 'title' || type === 'ctrTitle') {
+        blocks.push(`### ${paragraphs.join(' ')}`);
+      } else {
+        blocks.push(paragraphs.join('\n'));
+      }
+    } else if (tag === 'a:tbl') {
+      const rows = childrenOf(node)
+        .filter(row => tagOf(row) === 'a:tr')
+        .map(row => childrenOf(row)
+          .filter(cell => tagOf(cell) === 'a:tc')
+          .map(cell => slideParagraphs(cell).join(' ')));
+      blocks.push(toMarkdownTable(rows));
+    } else {
+      blocks.push(...slideBlocks(childrenOf(node)));
+    }
+  }
+  return blocks.filter(Boolean);
+}
+
+async function extractPptx(buffer: Buffer): Promise<string> {
+  const pkg = await openPackage(buffer);
+  const slidePaths = Object.keys(pkg.zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort(byPartNumber);
+  if (slidePaths.length === 0) throw new Error('Not a PowerPoint presentation: no slides found');
+
+  const sections: string[] = [];
+  for (let index = 0; index < slidePaths.length; index++) {
+    const slidePath = slidePaths[index];
+    const slideXml = await readZipText(pkg, slidePath);
+    const blocks = slideXml ? slideBlocks(parseXml(slideXml)) : [];
+
+    // Speaker notes are linked from the slide's relationships
+    const relationships = await readRelationships(pkg, slidePath);
+    const notesPart = Array.from(relationships.values()).find(rel => rel.type.endsWith('/notesSlide'));
+    if (notesPart) {
+      const notesXml = await readZipText(pkg, notesPart.target);
+      const notes = notesXml
+        ? findAll(parseXml(notesXml), 'p:sp')
+          .filter(shape => attrOf(findFirst(childrenOf(shape), 'p:ph') ?? {}, 'type') === 'body')
+          .flatMap(slideParagraphs)
+        : [];
+      if (notes.length > 0) blocks.push(`Speaker notes:\n${notes.join('\n')}`);
+    }
+
+    sections.push([`## Slide ${index + 1}`, ...blocks].join('\n\n'));
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * Zero-based column index from a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function sheetCellValue(cell: XmlNode, sharedStrings: string[]): string {
+  const type = attrOf(cell, 't');
+  if (type === 'inlineStr') {
+    const inline = findFirst(childrenOf(cell), 'is');
+    return inline ? runText(childrenOf(inline), 't') : '';
+  }
+
+  const valueNode = findFirst(childrenOf(cell), 'v');
+  const value = valueNode ? runText([valueNode], 'v') : '';
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+}
+
+export interface SheetRows {
+  name: string;
+  rows: string[][];
+}
+
+/**
+ * Read every sheet of a workbook as rows of cell text, skipping blank rows
+ */
+export async function readXlsxSheets(buffer: Buffer): Promise<SheetRows[]> {
+  const pkg = await openPackage(buffer);
+  const workbookXml = await readZipText(pkg, 'xl/workbook.xml');
+  if (!workbookXml) throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+
+  const sharedStringsXml = await readZipText(pkg, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? findAll(parseXml(sharedStringsXml), 'si').map(item => runText(childrenOf(item), 't'))
+    : [];
+
+  const relationships = await readRelationships(pkg, 'xl/workbook.xml');
+  const sheets: SheetRows[] = [];
+
+  for (const sheet of findAll(parseXml(workbookXml), 'sheet')) {
+    const name = attrOf(sheet, 'name') || 'Sheet';
+    const part = relationships.get(attrOf(sheet, 'r:id') || '');
+    const sheetXml = part ? await readZipText(pkg, part.target) : undefined;
+    if (!sheetXml) continue;
+
+    const rows = findAll(parseXml(sheetXml), 'row').map(row => {
+      const values: string[] = [];
+      childrenOf(row)
+        .filter(cell => tagOf(cell) === 'c')
+        .forEach((cell, position) => {
+          const reference = attrOf(cell, 'r');
+          values[reference ? columnIndex(reference) : position] = sheetCellValue(cell, sharedStrings);
+        });
+      return Array.from(values, value => value ?? '');
+    }).filter(row => row.some(value => value.trim() !== ''));
+
+    sheets.push({ name, rows });
+  }
+  return sheets;
+}
+
+async function extractXlsx(buffer: Buffer): Promise<string> {
+  const sections = (await readXlsxSheets(buffer)).map(({ name, rows }) => {
+    if (rows.length === 0) {
+      return `## Sheet: ${name}\n\n(empty)`;
+    }
+
+    const shown = rows.slice(0, MAX_SHEET_ROWS);
+    let section = `## Sheet: ${name}\n\n${toMarkdownTable(shown)}`;
+    if (rows.length > shown.length) {
+      section += `\n\n[${rows.length - shown.length} more rows not shown]`;
+    }
+    return section;
+  });
+  return sections.join('\n\n');
+}
+
+/**
+ * Determine which extractor handles a file
+ * @param mimeType MIME type of the file
+ * @param filename File name or bare extension
+ * @returns The document format, or undefined if it is not supported
+ */
+export function getDocumentFormat(mimeType: string | undefined, filename?: string): DocumentFormat | undefined {
+  const fromMime = mimeType ? FORMAT_MIME_TYPES[mimeType.toLowerCase()] : undefined;
+  if (fromMime) return fromMime;
+
+  const extension = filename?.includes('.') ? getExtensionFromFilename(filename) : filename?.toLowerCase();
+  return extension ? FORMAT_EXTENSIONS[extension] : undefined;
+}
+
+/**
+ * Extract the text of a document with Markdown headings and tables
+ * @param buffer File content
+ * @param format Document format from getDocumentFormat
+ * @returns The extracted text; empty when the document has no text layer (e.g. a scanned PDF)
+ */
+export async function extractDocumentText(buffer: Buffer, format: DocumentFormat): Promise<string> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'pptx':
+      return extractPptx(buffer);
+    case 'xlsx':
+      return extractXlsx(buffer);
+  }
+}
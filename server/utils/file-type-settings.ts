@@ -4,7 +4,7 @@
 import path from 'path';
 
 // Define the content type enum values that match our schema
-export type ContentType = 'text' | 'image' | 'audio' | 'video' | 'document';
+export type ContentType = 'text' | 'image' | 'audio' | 'video' | 'document' | 'notebook';
 
 // MIME type mapping for common file extensions
 const MIME_TYPES: Record<string, string> = {
@@ -27,6 +27,9 @@ const MIME_TYPES: Record<string, string> = {
   'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
   'csv': 'text/csv',
   
+  // Notebooks
+  'ipynb': 'application/x-ipynb+json',
+  
   // Text
   'txt': 'text/plain',
   'html': 'text/html',
@@ -96,6 +99,10 @@ export function getContentTypeFromMimeType(mimeType: string | undefined): Conten
   
   const mime = mimeType.toLowerCase();
   
+  if (mime === 'application/x-ipynb+json') {
+    return 'notebook';
+  }
+  
   if (mime.startsWith('image/')) {
     return 'image';
   }
@@ -149,6 +156,21 @@ export function isCSVFile(mimeType: string | undefined, filename: string | undef
   return false;
 }
 
+/**
+ * Check if a file is a Jupyter notebook based on mime type or extension
+ * Browsers usually upload .ipynb files as application/octet-stream or JSON
+ * @param mimeType MIME type of the file
+ * @param filename Filename with extension
+ * @returns Boolean indicating if it's a notebook
+ */
+export function isNotebookFile(mimeType: string | undefined, filename: string | undefined): boolean {
+  if (mimeType === 'application/x-ipynb+json') {
+    return true;
+  }
+  
+  return !!filename && getExtensionFromFilename(filename) === 'ipynb';
+}
+
 /**
  * Get the maximum allowed file size for a given content type in bytes
  * @param contentType Content type category
@@ -163,6 +185,7 @@ export function getMaxFileSizeForContentType(contentType: ContentType): number {
     case 'video':
       return 100 * 1024 * 1024; // 100MB
     case 'document':
+    case 'notebook':
       return 20 * 1024 * 1024; // 20MB
     case 'text':
     default:
@@ -188,6 +211,11 @@ export function isFileSizeAcceptable(size: number, contentType: ContentType): bo
  * @returns Content type category
  */
 export function determineContentType(mimeType: string | undefined, filename: string | undefined): ContentType {
+  // Notebooks are JSON files, so the extension is more reliable than the MIME type
+  if (isNotebookFile(mimeType, filename)) {
+    return 'notebook';
+  }
+  
   // First try by MIME type if available
   if (mimeType) {
     return getContentTypeFromMimeType(mimeType);
@@ -216,7 +244,7 @@ export function determineContentType(mimeType: string | undefined, filename: str
 export function isFileTypeAllowed(
   mimeType: string | undefined,
   filename: string | undefined,
-  enabledTypes: ContentType[] = ['text', 'image', 'document', 'audio', 'video']
+  enabledTypes: ContentType[] = ['text', 'image', 'document', 'notebook', 'audio', 'video']
 ): boolean {
   // If both are missing, we can't determine type
   if (!mimeType && !filename) {
@@ -0,0 +1,53 @@
+/**
+ * Course join codes
+ *
+ * Generates the codes students type (or follow as a link) to enroll
+ * themselves, and checks student emails against the allowed email domains
+ * in the security settings for codes restricted to them.
+ */
+
+import { randomInt } from 'crypto';
+
+// Letters and digits without the easily confused 0/O, 1/I/L
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+export function generateJoinCode(): string {
+  let code = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize a code as typed by a student: upper-case, without spaces or dashes
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Read SecuritySettings.allowedDomains, one pattern per line (commas also
+ * separate). Patterns are a domain ("mit.edu"), a wildcard for its
+ * subdomains ("*.edu") or "*" for any domain.
+ */
+export function parseAllowedDomains(allowedDomains: string | null | undefined): string[] {
+  return (allowedDomains ?? '')
+    .split(/[\n,]/)
+    .map(pattern => pattern.trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+}
+
+export function emailDomainAllowed(email: string, patterns: string[]): boolean {
+  const domain = email.toLowerCase().slice(email.lastIndexOf('@') + 1);
+  if (!email.includes('@') || !domain) return false;
+
+  return patterns.some(pattern => {
+    if (pattern === '*') return true;
+    if (pattern.startsWith('*.')) {
+      return domain.endsWith(pattern.slice(1));
+    }
+    return domain === pattern;
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * Submission policy rules
+ *
+ * Decides whether a student may still submit (attempt limit, grace period,
+ * hard cutoff), how late a submission was against the student's due date,
+ * the penalty that lateness earns and which graded attempt is the student's
+ * grade. Everything is worked out from submission timestamps, so changing
+ * the policy or granting an extension also applies to earlier submissions.
+ */
+
+import type { SubmissionPolicy } from '../../shared/schema';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export interface Lateness {
+  minutesLate: number;    // 0 for submissions on time or within the grace period
+  daysLate: number;       // Started days late
+  penaltyPercent: number; // Deducted from the score, at most 100
+}
+
+export interface GradedAttempt {
+  createdAt: Date;
+  score: number | null;
+}
+
+export type CountedAttempt<T extends GradedAttempt> = T & {
+  attemptNumber: number;
+  lateness: Lateness;
+  adjustedScore: number;
+};
+
+/**
+ * The due date that applies to a student: their extension if they have one
+ */
+export function effectiveDueDate(dueDate: Date, extension?: { dueDate: Date } | null): Date {
+  return extension ? new Date(extension.dueDate) : new Date(dueDate);
+}
+
+export function assessLateness(submittedAt: Date, dueDate: Date, policy?: SubmissionPolicy | null): Lateness {
+  const minutesLate = Math.max(0, Math.ceil((new Date(submittedAt).getTime() - new Date(dueDate).getTime()) / MINUTE_MS));
+  if (minutesLate <= (policy?.gracePeriodMinutes ?? 0)) {
+    return { minutesLate: 0, daysLate: 0, penaltyPercent: 0 };
+  }
+
+  const daysLate = Math.ceil(minutesLate / DAY_MINUTES);
+  const penaltyPercent = Math.min(100, daysLate * (policy?.latePenaltyPercentPerDay ?? 0));
+  return { minutesLate, daysLate, penaltyPercent };
+}
+
+/**
+ * The refusal given to a student who has no attempts left
+ */
+export function attemptLimitRefusal(maxAttempts: number): string {
+  return `You have used all ${maxAttempts} attempt${maxAttempts === 1 ? '' : 's'} for this assignment`;
+}
+
+/**
+ * The reason a new submission would be refused, or null when it is allowed
+ * @param attemptsUsed Submissions the student has made that did not fail
+ */
+export function submissionRefusal(
+  now: Date,
+  dueDate: Date,
+  policy: SubmissionPolicy | null | undefined,
+  attemptsUsed: number
+): string | null {
+  if (policy?.maxAttempts && attemptsUsed >= policy.maxAttempts) {
+    return attemptLimitRefusal(policy.maxAttempts);
+  }
+
+  const lateness = assessLateness(now, dueDate, policy);
+  if (lateness.minutesLate === 0) {
+    return null;
+  }
+  if (!policy?.allowLate) {
+    return 'Assignment is not active or has passed its due date';
+  }
+  if (policy.lateCutoffDays && lateness.minutesLate > policy.lateCutoffDays * DAY_MINUTES) {
+    return 'The cutoff for late submissions to this assignment has passed';
+  }
+  return null;
+}
+
+export function applyLatePenalty(score: number, lateness: Lateness): number {
+  return Math.round(score * (100 - lateness.penaltyPercent)) / 100;
+}
+
+/**
+ * Pick the attempt that counts as the student's grade: the latest graded one,
+ * or the one with the highest score after late penalties. Attempts without a
+ * score are skipped.
+ */
+export function selectCountedAttempt<T extends GradedAttempt>(
+  attempts: T[],
+  dueDate: Date,
+  policy?: SubmissionPolicy | null
+): CountedAttempt<T> | undefined {
+  const graded = attempts
+    .slice()
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    .map((attempt, index) => {
+      const lateness = assessLateness(attempt.createdAt, dueDate, policy);
+      return {
+        ...attempt,
+        attemptNumber: index + 1,
+        lateness,
+        adjustedScore: attempt.score === null ? 0 : applyLatePenalty(Number(attempt.score), lateness)
+      };
+    })
+    .filter(attempt => attempt.score !== null);
+
+  if (graded.length === 0) {
+    return undefined;
+  }
+  if (policy?.countedAttempt === 'best') {
+    // Ties go to the earlier attempt
+    return graded.reduce((best, attempt) => attempt.adjustedScore > best.adjustedScore ? attempt : best);
+  }
+  return graded[graded.length - 1];
+}
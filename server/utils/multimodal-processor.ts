@@ -10,6 +10,8 @@ import {
   getContentTypeFromMimeType, 
   getMimeTypeFromExtension,
   isCSVFile,
+  isNotebookFile,
+  determineContentType,
   getExtensionFromFilename,
   ContentType
 } from './file-type-settings';
@@ -17,6 +19,8 @@ import os from 'os';
 import crypto from 'crypto';
 // Import GCS client properly - will be available throughout the module 
 import * as gcsClient from './gcs-client';
+import { extractDocumentText, getDocumentFormat } from './document-text-extractor';
+import { notebookToText, parseNotebook } from './notebook-parser';
 
 const readFileAsync = promisify(fs.readFile);
 // fs.exists does not follow the Node callback convention, so promisify will
@@ -157,10 +161,11 @@ async function downloadFromGCS(url: string, mimeType?: string): Promise<GcsDownl
 
 /**
  * Extract text content from various document types
- * Currently handles text files and CSV directly
- * More complex document types would require external libraries
+ * Handles text files and CSV directly; PDF, DOCX, PPTX and XLSX are
+ * converted to text with Markdown headings and tables
  * @param filePath Path to the file
  * @param mimeType MIME type of the file
+ * @param extension File name or extension, used when the MIME type is generic
  */
 export async function extractTextContent(
   filePath: string, 
@@ -174,6 +179,12 @@ export async function extractTextContent(
       throw new Error(`File does not exist: ${filePath}`);
     }
 
+    // Notebooks are JSON, so check them before the generic text handling
+    if (isNotebookFile(mimeType, extension)) {
+      const content = await readFileAsync(filePath, 'utf8');
+      return notebookToText(parseNotebook(content));
+    }
+    
     // Handle based on content type
     const contentType = getContentTypeFromMimeType(mimeType);
     
@@ -202,6 +213,19 @@ export async function extractTextContent(
       return csvDescription;
     }
     
+    // PDF and Office Open XML documents
+    const documentFormat = getDocumentFormat(mimeType, extension);
+    if (documentFormat) {
+      const buffer = await readFileAsync(filePath);
+      const text = await extractDocumentText(buffer, documentFormat);
+      if (!text.trim()) {
+        // No text layer (e.g. a scanned PDF); multimodal models can still read the file itself
+        console.warn(`[MULTIMODAL] No extractable text in ${documentFormat} file`);
+        return undefined;
+      }
+      return text;
+    }
+    
     // For other document types, return basic metadata
     return `This is a ${contentType} file with MIME type ${mimeType}. Content processing not available for this file type.`;
     
@@ -235,7 +259,7 @@ export async function createMultimodalPromptParts(
     };
     
     // For document and text types, extract text content when possible
-    if (fileMetadata.contentType === 'document' || fileMetadata.contentType === 'text') {
+    if (fileMetadata.contentType === 'document' || fileMetadata.contentType === 'text' || fileMetadata.contentType === 'notebook') {
       const extractedText = await extractTextContent(
         fileMetadata.path, 
         fileMetadata.mimeType,
@@ -632,14 +656,14 @@ export async function processFileForMultimodal(
       }
     }
     
-    // Determine content type from MIME type
-    const contentType = getContentTypeFromMimeType(mimeType);
+    // Determine content type from MIME type (and extension for notebooks)
+    const contentType = determineContentType(mimeType, fileName);
     console.log(`[MULTIMODAL] Determined content type: ${contentType} for MIME type: ${mimeType}`);
     
     // Extract text content if applicable
     let textContent: string | undefined;
     
-    if (contentType === 'text' || contentType === 'document') {
+    if (contentType === 'text' || contentType === 'document' || contentType === 'notebook') {
       try {
         textContent = await extractTextContent(actualFilePath, mimeType, fileName);
         console.log(`[MULTIMODAL] Extracted text content (${textContent?.length || 0} chars)`);
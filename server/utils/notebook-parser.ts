@@ -0,0 +1,195 @@
+/**
+ * Jupyter notebook (.ipynb) parsing
+ *
+ * Turns nbformat 4 notebooks into ordered code/markdown/raw cells with their
+ * outputs, and builds the text and image prompt parts used for grading.
+ */
+import { MultimodalPromptPart } from '../adapters/ai-adapter';
+
+export const NOTEBOOK_MIME_TYPE = 'application/x-ipynb+json';
+
+// Long outputs (training logs, printed dataframes) are cut to keep prompts small
+const MAX_OUTPUT_CHARS = 4000;
+// Plots beyond this are listed in the text but not sent as images
+const MAX_IMAGE_OUTPUTS = 20;
+// Image formats multimodal models accept inline
+const IMAGE_OUTPUT_TYPES = ['image/png', 'image/jpeg'];
+
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+export interface NotebookOutput {
+  kind: 'stream' | 'result' | 'image' | 'error';
+  // Text of stream, result and error outputs
+  text?: string;
+  // MIME type and base64 data of image outputs
+  mimeType?: string;
+  data?: string;
+}
+
+export interface NotebookCell {
+  index: number;
+  cellType: NotebookCellType;
+  source: string;
+  executionCount: number | null;
+  outputs: NotebookOutput[];
+}
+
+export interface ParsedNotebook {
+  language: string;
+  cells: NotebookCell[];
+}
+
+function joinText(value: unknown): string {
+  if (Array.isArray(value)) return value.join('');
+  return typeof value === 'string' ? value : '';
+}
+
+// Tracebacks carry terminal colour codes
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_OUTPUT_CHARS) return text;
+  return `${text.slice(0, MAX_OUTPUT_CHARS)}\n[output truncated, ${text.length - MAX_OUTPUT_CHARS} more characters]`;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(tr|p|div|h\d|li)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function parseOutput(output: any): NotebookOutput | undefined {
+  switch (output?.output_type) {
+    case 'stream':
+      return { kind: 'stream', text: truncate(joinText(output.text)) };
+    case 'error': {
+      const traceback = Array.isArray(output.traceback) ? output.traceback.join('\n') : '';
+      return { kind: 'error', text: truncate(stripAnsi(traceback || `${output.ename}: ${output.evalue}`)) };
+    }
+    case 'execute_result':
+    case 'display_data': {
+      const data = output.data || {};
+      const imageType = IMAGE_OUTPUT_TYPES.find(type => data[type]);
+      if (imageType) {
+        // nbformat allows base64 split across lines
+        return { kind: 'image', mimeType: imageType, data: joinText(data[imageType]).replace(/\s/g, '') };
+      }
+      const text = data['text/plain'] !== undefined
+        ? joinText(data['text/plain'])
+        : data['text/markdown'] !== undefined
+          ? joinText(data['text/markdown'])
+          : data['text/html'] !== undefined ? htmlToText(joinText(data['text/html'])) : '';
+      return text ? { kind: 'result', text: truncate(text) } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a notebook file
+ * @param content Raw .ipynb content
+ * @returns The notebook's language and cells in order
+ * @throws If the content is not an nbformat 4 notebook
+ */
+export function parseNotebook(content: string | Buffer): ParsedNotebook {
+  let notebook: any;
+  try {
+    notebook = JSON.parse(typeof content === 'string' ? content : content.toString('utf8'));
+  } catch {
+    throw new Error('Notebook is not valid JSON');
+  }
+
+  if (!notebook || !Array.isArray(notebook.cells)) {
+    throw new Error('Notebook has no cells');
+  }
+  if (typeof notebook.nbformat === 'number' && notebook.nbformat < 4) {
+    throw new Error(`Notebook format ${notebook.nbformat} is not supported; save it with Jupyter 4 or later`);
+  }
+
+  const metadata = notebook.metadata || {};
+  const language = metadata.language_info?.name || metadata.kernelspec?.language || 'python';
+
+  const cells = notebook.cells.map((cell: any, index: number): NotebookCell => {
+    const cellType: NotebookCellType = cell.cell_type === 'code' || cell.cell_type === 'markdown' ? cell.cell_type : 'raw';
+    return {
+      index: index + 1,
+      cellType,
+      source: joinText(cell.source),
+      executionCount: cellType === 'code' && typeof cell.execution_count === 'number' ? cell.execution_count : null,
+      outputs: cellType === 'code' && Array.isArray(cell.outputs)
+        ? cell.outputs.map(parseOutput).filter((output: NotebookOutput | undefined): output is NotebookOutput => !!output)
+        : []
+    };
+  });
+
+  return { language, cells };
+}
+
+/**
+ * Render a notebook as text, with image outputs replaced by placeholders
+ * @param notebook Parsed notebook
+ */
+export function notebookToText(notebook: ParsedNotebook): string {
+  let imageNumber = 0;
+  const sections = notebook.cells.map(cell => {
+    const label = cell.cellType === 'code'
+      ? `code, In [${cell.executionCount ?? ' '}]`
+      : cell.cellType;
+    const lines = [`## Cell ${cell.index} [${label}]`];
+
+    if (cell.cellType === 'code') {
+      lines.push(`\`\`\`${notebook.language}\n${cell.source}\n\`\`\``);
+    } else {
+      lines.push(cell.source);
+    }
+
+    for (const output of cell.outputs) {
+      if (output.kind === 'image') {
+        imageNumber++;
+        lines.push(`[Image output ${imageNumber}: ${output.mimeType}]`);
+      } else {
+        const heading = output.kind === 'error' ? 'Error:' : 'Output:';
+        lines.push(`${heading}\n\`\`\`\n${output.text}\n\`\`\``);
+      }
+    }
+    return lines.join('\n\n');
+  });
+
+  return [`Jupyter notebook (${notebook.language}, ${notebook.cells.length} cells)`, ...sections].join('\n\n');
+}
+
+/**
+ * Build prompt parts for a notebook: the notebook text, then each image
+ * output labelled with the cell it came from
+ * @param notebook Parsed notebook
+ */
+export function notebookToPromptParts(notebook: ParsedNotebook): MultimodalPromptPart[] {
+  const parts: MultimodalPromptPart[] = [{ type: 'text', content: notebookToText(notebook) }];
+
+  let imageNumber = 0;
+  for (const cell of notebook.cells) {
+    for (const output of cell.outputs) {
+      if (output.kind !== 'image' || !output.data) continue;
+      imageNumber++;
+      if (imageNumber > MAX_IMAGE_OUTPUTS) continue;
+
+      parts.push({ type: 'text', content: `Image output ${imageNumber} (from cell ${cell.index}):` });
+      parts.push({ type: 'image', content: Buffer.from(output.data, 'base64'), mimeType: output.mimeType });
+    }
+  }
+
+  if (imageNumber > MAX_IMAGE_OUTPUTS) {
+    parts.push({ type: 'text', content: `[${imageNumber - MAX_IMAGE_OUTPUTS} more image outputs not shown]` });
+  }
+  return parts;
+}
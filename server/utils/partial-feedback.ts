@@ -0,0 +1,65 @@
+/**
+ * Partial feedback extraction
+ *
+ * Reads the feedback sections a model has finished writing out of an
+ * incomplete JSON grading response, so they can be shown to the student while
+ * the rest is still streaming. Only complete strings are returned; a string or
+ * list item that is still being written is left out until it is closed.
+ */
+import type { PartialFeedback } from '../../shared/schema';
+
+const LIST_FIELDS = ['strengths', 'improvements', 'suggestions'] as const;
+
+// A complete JSON string literal, including escapes
+const STRING_LITERAL = /^\s*("(?:[^"\\]|\\.)*")\s*/;
+
+/**
+ * Index just after `"key":` in the text, or -1 if the key has not been written yet
+ */
+function valueStart(text: string, key: string): number {
+  const match = new RegExp(`"${key}"\\s*:\\s*`).exec(text);
+  return match ? match.index + match[0].length : -1;
+}
+
+function readString(text: string, key: string): string | undefined {
+  const start = valueStart(text, key);
+  if (start < 0) return undefined;
+
+  const match = STRING_LITERAL.exec(text.slice(start));
+  return match ? JSON.parse(match[1]) : undefined;
+}
+
+function readStringList(text: string, key: string): string[] | undefined {
+  const start = valueStart(text, key);
+  if (start < 0 || text[start] !== '[') return undefined;
+
+  const items: string[] = [];
+  let index = start + 1;
+  while (index < text.length) {
+    const match = STRING_LITERAL.exec(text.slice(index));
+    if (!match) break;
+
+    items.push(JSON.parse(match[1]));
+    const next = index + match[0].length;
+    if (text[next] !== ',') break;
+    index = next + 1;
+  }
+  return items;
+}
+
+/**
+ * Feedback sections completed so far in a streamed grading response
+ */
+export function extractPartialFeedback(text: string): PartialFeedback {
+  const partial: PartialFeedback = {};
+
+  const summary = readString(text, 'summary');
+  if (summary !== undefined) partial.summary = summary;
+
+  for (const field of LIST_FIELDS) {
+    const items = readStringList(text, field);
+    if (items && items.length > 0) partial[field] = items;
+  }
+
+  return partial;
+}
@@ -0,0 +1,318 @@
+/**
+ * Multi-file and ZIP project submissions
+ *
+ * Unpacks uploaded ZIP archives into project files, renders the project's
+ * file tree and builds the per-file prompt parts used for grading.
+ */
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+import { MultimodalPromptPart } from '../adapters/ai-adapter';
+import { ContentType, getMimeTypeFromExtension } from './file-type-settings';
+import {
+  estimateTokensForMultimodalParts,
+  getMaxPromptTokens,
+  optimizePromptForTokenLimits,
+  truncateTextToFitTokens
+} from './token-management';
+
+// Upload limits for a single project
+export const MAX_PROJECT_FILES = 200;
+export const MAX_PROJECT_BYTES = 50 * 1024 * 1024;
+
+// Each file gets at least this many tokens, even in very large projects
+const MIN_TOKENS_PER_FILE = 500;
+// Images beyond this are listed in the tree but not sent to the model
+const MAX_PROJECT_IMAGES = 10;
+
+const ZIP_MIME_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/x-zip'];
+
+// Build output, dependencies and editor/OS metadata are not the student's work
+const IGNORED_DIRECTORIES = [
+  '__MACOSX', '.git', '.svn', '.hg', 'node_modules', '__pycache__', '.ipynb_checkpoints',
+  '.venv', 'venv', '.idea', '.vscode', '.gradle', 'target', 'bin', 'obj', 'dist', 'build'
+];
+const IGNORED_FILES = ['.DS_Store', 'Thumbs.db', 'desktop.ini'];
+
+// Source and plain-text extensions, with the language used for code fences
+const SOURCE_LANGUAGES: Record<string, string> = {
+  py: 'python', ipynb: 'json', r: 'r', jl: 'julia', m: 'matlab',
+  java: 'java', kt: 'kotlin', scala: 'scala', groovy: 'groovy',
+  c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', cxx: 'cpp', hpp: 'cpp', cs: 'csharp',
+  go: 'go', rs: 'rust', swift: 'swift', rb: 'ruby', php: 'php', pl: 'perl', lua: 'lua', hs: 'haskell',
+  js: 'javascript', mjs: 'javascript', cjs: 'javascript', jsx: 'jsx', ts: 'typescript', tsx: 'tsx',
+  vue: 'vue', svelte: 'svelte', html: 'html', htm: 'html', css: 'css', scss: 'scss', sass: 'sass', less: 'less',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', bat: 'bat', sql: 'sql',
+  json: 'json', xml: 'xml', yaml: 'yaml', yml: 'yaml', toml: 'toml', ini: 'ini', cfg: 'ini', env: '',
+  gradle: 'groovy', csv: 'csv', tsv: '', md: 'markdown', rst: 'rst', tex: 'latex', txt: ''
+};
+// Common project files without a meaningful extension
+const SOURCE_FILE_NAMES = ['Makefile', 'Dockerfile', 'README', 'LICENSE', 'Gemfile', 'Procfile', 'Rakefile', '.gitignore'];
+
+export interface ProjectEntry {
+  path: string;
+  content: Buffer;
+}
+
+// A stored project file after it has been read back for grading
+export interface ProjectFileContent {
+  path: string;
+  contentType: ContentType;
+  mimeType: string;
+  content: Buffer | string;
+  textContent?: string;
+}
+
+/**
+ * Check whether an upload is a ZIP archive
+ */
+export function isZipFile(mimeType: string | undefined, filename: string | undefined): boolean {
+  if (filename && path.extname(filename).toLowerCase() === '.zip') return true;
+  return !!mimeType && ZIP_MIME_TYPES.includes(mimeType.toLowerCase());
+}
+
+/**
+ * Check whether a file is source code or plain text that can be read as UTF-8
+ */
+export function isSourceFile(filename: string): boolean {
+  const basename = path.posix.basename(filename);
+  const extension = path.extname(basename).slice(1).toLowerCase();
+  return (extension !== '' && extension in SOURCE_LANGUAGES) || SOURCE_FILE_NAMES.includes(basename);
+}
+
+/**
+ * MIME type to store for a project file. Browsers and archives give source
+ * files generic or missing types, so those are stored as text.
+ */
+export function getProjectFileMimeType(filename: string, uploadedMimeType?: string): string {
+  const fromExtension = getMimeTypeFromExtension(path.extname(filename));
+  if (fromExtension !== 'application/octet-stream') return fromExtension;
+  if (isSourceFile(filename)) return 'text/plain';
+  return uploadedMimeType || fromExtension;
+}
+
+/**
+ * Normalize a path from an archive or upload into a project-relative path
+ * @returns The path, or undefined if it escapes the project or is metadata to skip
+ */
+export function normalizeProjectPath(rawPath: string): string | undefined {
+  const segments = rawPath.replace(/\\/g, '/').split('/').filter(segment => segment !== '' && segment !== '.');
+  if (segments.length === 0 || /^[a-zA-Z]:$/.test(segments[0])) return undefined;
+  if (segments.includes('..')) return undefined;
+
+  const directories = segments.slice(0, -1);
+  const filename = segments[segments.length - 1];
+  if (directories.some(directory => IGNORED_DIRECTORIES.includes(directory))) return undefined;
+  if (IGNORED_FILES.includes(filename) || filename.startsWith('._')) return undefined;
+
+  return segments.join('/');
+}
+
+/**
+ * Read a ZIP entry, failing as soon as it exceeds the remaining byte budget
+ * so archives that expand to huge sizes are never fully inflated
+ * @param maxBytes Bytes left in the budget
+ * @param limitBytes The whole budget, reported in the error
+ */
+export function readZipEntry(file: JSZip.JSZipObject, maxBytes: number, limitBytes: number = MAX_PROJECT_BYTES): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream('nodebuffer');
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        stream.pause();
+        stream.removeAllListeners();
+        reject(new Error(`Archive expands to more than ${limitBytes / (1024 * 1024)}MB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Unpack a ZIP archive into project files. Metadata and dependency folders
+ * are skipped, and a single folder wrapping the whole project is removed.
+ * @throws If the archive is invalid, empty, or exceeds the project limits
+ */
+export async function extractZipEntries(buffer: Buffer): Promise<ProjectEntry[]> {
+  let archive: JSZip;
+  try {
+    archive = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error('File is not a valid ZIP archive');
+  }
+
+  const files = Object.values(archive.files)
+    .filter(file => !file.dir)
+    // JSZip strips ".." from names; entries that tried to escape the project are dropped instead
+    .map(file => ({ file, path: normalizeProjectPath(file.unsafeOriginalName ?? file.name) }))
+    .filter((entry): entry is { file: JSZip.JSZipObject; path: string } => !!entry.path);
+
+  if (files.length === 0) {
+    throw new Error('Archive contains no files');
+  }
+  if (files.length > MAX_PROJECT_FILES) {
+    throw new Error(`Archive contains more than ${MAX_PROJECT_FILES} files`);
+  }
+
+  const entries: ProjectEntry[] = [];
+  let totalBytes = 0;
+  for (const { file, path: entryPath } of files) {
+    const content = await readZipEntry(file, MAX_PROJECT_BYTES - totalBytes);
+    totalBytes += content.length;
+    entries.push({ path: entryPath, content });
+  }
+
+  return stripCommonRoot(entries);
+}
+
+/**
+ * Read the files of a multi-file upload as project files. Clients send each
+ * file's path within the project (e.g. from a folder picker) as its filename.
+ * @throws If a file cannot be placed in the project or the limits are exceeded
+ */
+export async function readUploadedProjectFiles(uploads: { originalname: string; path: string }[]): Promise<ProjectEntry[]> {
+  if (uploads.length > MAX_PROJECT_FILES) {
+    throw new Error(`A project can contain at most ${MAX_PROJECT_FILES} files`);
+  }
+
+  const entries: ProjectEntry[] = [];
+  let totalBytes = 0;
+  for (const upload of uploads) {
+    if (isZipFile(undefined, upload.originalname)) {
+      throw new Error('ZIP archives must be uploaded on their own');
+    }
+    const entryPath = normalizeProjectPath(upload.originalname);
+    if (!entryPath) continue;
+    if (entries.some(entry => entry.path === entryPath)) {
+      throw new Error(`More than one file is named ${entryPath}`);
+    }
+
+    const content = await fs.promises.readFile(upload.path);
+    totalBytes += content.length;
+    if (totalBytes > MAX_PROJECT_BYTES) {
+      throw new Error(`Project is larger than ${MAX_PROJECT_BYTES / (1024 * 1024)}MB`);
+    }
+    entries.push({ path: entryPath, content });
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No project files were uploaded');
+  }
+  return entries;
+}
+
+// Archives made by "compress folder" put everything under one top-level folder
+function stripCommonRoot(entries: ProjectEntry[]): ProjectEntry[] {
+  const roots = new Set(entries.map(entry => entry.path.split('/')[0]));
+  if (roots.size !== 1 || entries.some(entry => !entry.path.includes('/'))) {
+    return entries;
+  }
+  return entries.map(entry => ({ ...entry, path: entry.path.slice(entry.path.indexOf('/') + 1) }));
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  isFile: boolean;
+}
+
+/**
+ * Render project paths as an indented file tree, folders first
+ * @param paths Project-relative file paths
+ */
+export function buildFileTree(paths: string[]): string {
+  const root: TreeNode = { children: new Map(), isFile: false };
+  for (const filePath of paths) {
+    let node = root;
+    const segments = filePath.split('/');
+    segments.forEach((segment, i) => {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = { children: new Map(), isFile: i === segments.length - 1 };
+        node.children.set(segment, child);
+      }
+      node = child;
+    });
+  }
+
+  const lines: string[] = [];
+  const render = (node: TreeNode, prefix: string) => {
+    const children = Array.from(node.children.entries()).sort(([nameA, a], [nameB, b]) =>
+      a.isFile === b.isFile ? nameA.localeCompare(nameB) : a.isFile ? 1 : -1
+    );
+    children.forEach(([name, child], i) => {
+      const isLast = i === children.length - 1;
+      lines.push(`${prefix}${isLast ? '└── ' : '├── '}${name}${child.isFile ? '' : '/'}`);
+      if (!child.isFile) {
+        render(child, `${prefix}${isLast ? '    ' : '│   '}`);
+      }
+    });
+  };
+  render(root, '');
+
+  return lines.join('\n');
+}
+
+function fenceLanguage(filePath: string): string {
+  return SOURCE_LANGUAGES[path.extname(filePath).slice(1).toLowerCase()] ?? '';
+}
+
+/**
+ * Build prompt parts for a project: the file tree, then every readable file.
+ * The token budget left after the instructions is shared between the text
+ * files so one large file cannot push the rest of the project out of the
+ * prompt; the result is then fitted to the model with optimizePromptForTokenLimits.
+ * @param files Project files with their content
+ * @param modelName Model the prompt is for, used to size the token budget
+ * @param reservedTokens Tokens already used by instructions sent alongside
+ */
+export function buildProjectPromptParts(
+  files: ProjectFileContent[],
+  modelName: string,
+  reservedTokens = 0
+): MultimodalPromptPart[] {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const textFiles = sorted.filter(file => file.textContent !== undefined);
+  const imageFiles = sorted.filter(file => file.textContent === undefined && file.contentType === 'image').slice(0, MAX_PROJECT_IMAGES);
+  const omitted = sorted.filter(file => !textFiles.includes(file) && !imageFiles.includes(file));
+
+  const treeLines = [`Project submission (${files.length} files):`, '```', buildFileTree(sorted.map(file => file.path)), '```'];
+  if (omitted.length > 0) {
+    treeLines.push(`Not shown (binary or unsupported): ${omitted.map(file => file.path).join(', ')}`);
+  }
+  const parts: MultimodalPromptPart[] = [{ type: 'text', content: treeLines.join('\n') }];
+
+  const imageParts: MultimodalPromptPart[] = imageFiles.map(file => ({
+    type: 'image', content: file.content, mimeType: file.mimeType
+  }));
+  const fixedTokens = reservedTokens + estimateTokensForMultimodalParts([...parts, ...imageParts]);
+  const perFileTokens = Math.max(
+    MIN_TOKENS_PER_FILE,
+    Math.floor((getMaxPromptTokens(modelName) - fixedTokens) / Math.max(textFiles.length, 1))
+  );
+
+  for (const file of textFiles) {
+    const text = file.textContent || '';
+    const truncated = truncateTextToFitTokens(text, perFileTokens);
+    const note = truncated.length < text.length
+      ? `\n[File truncated to fit the token budget: ${text.length - truncated.length} more characters]`
+      : '';
+    parts.push({
+      type: 'text',
+      content: `### File: ${file.path}\n\`\`\`${fenceLanguage(file.path)}\n${truncated}\n\`\`\`${note}`
+    });
+  }
+
+  imageFiles.forEach((file, i) => {
+    parts.push({ type: 'text', content: `### Image: ${file.path}` });
+    parts.push(imageParts[i]);
+  });
+
+  return optimizePromptForTokenLimits(parts, modelName);
+}
@@ -0,0 +1,110 @@
+/**
+ * Roster files
+ *
+ * Reads the class lists instructors get from the registrar, as CSV or Excel
+ * workbooks, into one entry per student, and writes the report of rows that
+ * could not be imported. The header row names the columns; common registrar
+ * headings such as "Email Address", "First Name"/"Last Name" and an MIT
+ * Horizon ID column are recognised.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { BadRequestError } from '../lib/error-handler';
+import { readXlsxSheets } from './document-text-extractor';
+
+export type RosterFileFormat = 'csv' | 'xlsx';
+
+export interface RosterRow {
+  row: number;                 // Line in the file, counting the header as line 1
+  email: string;               // Lower-case
+  name: string;
+  mitHorizonSub: string | null;
+}
+
+export interface RejectedRosterRow {
+  row: number;
+  email: string;
+  name: string;
+  reason: string;
+}
+
+// Headers accepted for each column, compared without case, spaces or punctuation
+const HEADER_ALIASES: Record<string, string[]> = {
+  email: ['email', 'emailaddress', 'mail', 'studentemail', 'universityemail'],
+  name: ['name', 'fullname', 'studentname', 'displayname'],
+  firstName: ['firstname', 'givenname', 'first', 'preferredname'],
+  lastName: ['lastname', 'surname', 'familyname', 'last'],
+  mitHorizonSub: ['mithorizonid', 'mithorizonsub', 'horizonid', 'horizonsub', 'ssoid']
+};
+
+const MAX_ROSTER_ROWS = 5000;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+async function readRows(content: string, format: RosterFileFormat): Promise<string[][]> {
+  if (format === 'xlsx') {
+    let sheets;
+    try {
+      sheets = await readXlsxSheets(Buffer.from(content, 'base64'));
+    } catch (error) {
+      throw new BadRequestError(`The roster is not a valid Excel workbook: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    // The roster is the first sheet with any rows
+    return sheets.find(sheet => sheet.rows.length > 0)?.rows ?? [];
+  }
+
+  try {
+    return parse(content, { skip_empty_lines: true, trim: true, bom: true, relax_column_count: true });
+  } catch (error) {
+    throw new BadRequestError(`The roster is not valid CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Read the students of a roster file. XLSX content is base64 encoded.
+ */
+export async function parseRoster(content: string, format: RosterFileFormat): Promise<RosterRow[]> {
+  const rows = await readRows(content, format);
+  if (rows.length < 2) {
+    throw new BadRequestError('The roster needs a header row and at least one student');
+  }
+  if (rows.length - 1 > MAX_ROSTER_ROWS) {
+    throw new BadRequestError(`Rosters are limited to ${MAX_ROSTER_ROWS} students; split the file and import each part`);
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const columnIndex: Record<string, number> = {};
+  Object.keys(HEADER_ALIASES).forEach(column => {
+    const index = headers.findIndex(header => HEADER_ALIASES[column].includes(header));
+    if (index >= 0) columnIndex[column] = index;
+  });
+  if (columnIndex.email === undefined) {
+    throw new BadRequestError('The roster header must include an email column');
+  }
+
+  const cell = (row: string[], column: string) =>
+    columnIndex[column] === undefined ? '' : String(row[columnIndex[column]] ?? '').trim();
+
+  return rows.slice(1).map((row, index) => {
+    const fullName = cell(row, 'name') || [cell(row, 'firstName'), cell(row, 'lastName')].filter(Boolean).join(' ');
+    return {
+      row: index + 2,
+      email: cell(row, 'email').toLowerCase(),
+      name: fullName,
+      mitHorizonSub: cell(row, 'mitHorizonSub') || null
+    };
+  });
+}
+
+/**
+ * CSV of the rows that were not imported, with the reason for each
+ */
+export function rosterErrorReport(rejected: RejectedRosterRow[]): string {
+  return stringify(
+    rejected.map(entry => [entry.row, entry.email, entry.name, entry.reason]),
+    { header: true, columns: ['row', 'email', 'name', 'reason'] }
+  );
+}
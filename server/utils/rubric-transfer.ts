@@ -0,0 +1,149 @@
+/**
+ * Rubric import and export
+ *
+ * Converts rubrics to and from the JSON and CSV files instructors share
+ * between courses. JSON keeps the whole rubric; CSV has one row per
+ * criterion so it can be edited in a spreadsheet, and leaves out performance
+ * levels, the passing threshold and total points.
+ */
+
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify/sync';
+import { BadRequestError } from '../lib/error-handler';
+import { rubricSchema, type Rubric } from '../../shared/schema';
+import { RUBRIC_CRITERIA_TYPE } from '../../shared/enums';
+
+export type RubricFileFormat = 'json' | 'csv';
+
+export interface RubricExport {
+  name: string;
+  description?: string | null;
+  version?: number;
+  rubric: Rubric;
+}
+
+const CSV_COLUMNS = ['name', 'type', 'description', 'maxScore', 'weight'];
+
+// Spreadsheet headers accepted for each column, compared without case, spaces or punctuation
+const CSV_HEADER_ALIASES: Record<string, string[]> = {
+  name: ['name', 'criterion', 'criterionname', 'title'],
+  type: ['type', 'category', 'criteriontype'],
+  description: ['description', 'details', 'guidance'],
+  maxScore: ['maxscore', 'max', 'points', 'maxpoints'],
+  weight: ['weight', 'weightpercent', 'percentage']
+};
+
+const CRITERIA_TYPES: string[] = Object.values(RUBRIC_CRITERIA_TYPE);
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+function validate(rubric: unknown, format: RubricFileFormat): Rubric {
+  const result = rubricSchema.safeParse(rubric);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const [field, index, property] = issue.path;
+    // CSV criteria start on the second line, after the header
+    const location = format === 'csv' && field === 'criteria' && typeof index === 'number'
+      ? ` on row ${index + 2}${property ? ` (${property})` : ''}`
+      : issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new BadRequestError(`Invalid rubric in ${format.toUpperCase()} file${location}: ${issue.message}`);
+  }
+  return result.data as Rubric;
+}
+
+/**
+ * Give criteria fresh sequential IDs, so rubrics from other assignments or
+ * spreadsheets never reuse IDs by accident
+ */
+export function renumberCriteria(rubric: Rubric): Rubric {
+  return {
+    ...rubric,
+    criteria: rubric.criteria.map((criterion, index) => ({ ...criterion, id: `criterion-${index + 1}` }))
+  };
+}
+
+export function exportRubric(data: RubricExport, format: RubricFileFormat): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      name: data.name,
+      description: data.description ?? null,
+      version: data.version,
+      rubric: data.rubric
+    }, null, 2);
+  }
+
+  return stringify(
+    data.rubric.criteria.map(criterion => CSV_COLUMNS.map(column => criterion[column as keyof typeof criterion])),
+    { header: true, columns: CSV_COLUMNS }
+  );
+}
+
+/**
+ * Read a rubric from an exported file. JSON may be an export with a name or
+ * a bare rubric; CSV needs a header row naming at least the criterion and
+ * its maximum score.
+ */
+export function importRubric(content: string, format: RubricFileFormat): { name?: string; description?: string | null; rubric: Rubric } {
+  if (format === 'json') {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new BadRequestError('The rubric file is not valid JSON');
+    }
+
+    const isExport = parsed && typeof parsed === 'object' && parsed.rubric && typeof parsed.rubric === 'object';
+    const rubric = validate(isExport ? parsed.rubric : parsed, 'json');
+    return {
+      name: isExport && typeof parsed.name === 'string' ? parsed.name : undefined,
+      description: isExport && typeof parsed.description === 'string' ? parsed.description : null,
+      rubric: renumberCriteria(rubric)
+    };
+  }
+
+  let rows: string[][];
+  try {
+    rows = parse(content, { skip_empty_lines: true, trim: true, bom: true, relax_column_count: true });
+  } catch (error) {
+    throw new BadRequestError(`The rubric file is not valid CSV: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (rows.length < 2) {
+    throw new BadRequestError('The CSV file needs a header row and at least one criterion');
+  }
+
+  const headers = rows[0].map(normalizeHeader);
+  const columnIndex: Record<string, number> = {};
+  Object.keys(CSV_HEADER_ALIASES).forEach(column => {
+    const index = headers.findIndex(header => CSV_HEADER_ALIASES[column].includes(header));
+    if (index >= 0) columnIndex[column] = index;
+  });
+  if (columnIndex.name === undefined || columnIndex.maxScore === undefined) {
+    throw new BadRequestError('The CSV header must include name and maxScore columns');
+  }
+
+  const cell = (row: string[], column: string) => columnIndex[column] === undefined ? '' : (row[columnIndex[column]] ?? '');
+  const criteria = rows.slice(1).map((row, index) => {
+    const type = cell(row, 'type').toLowerCase().replace(/[\s-]+/g, '_');
+    const weight = cell(row, 'weight').replace('%', '');
+    return {
+      id: `criterion-${index + 1}`,
+      type: CRITERIA_TYPES.includes(type) ? type : 'other',
+      name: cell(row, 'name'),
+      description: cell(row, 'description'),
+      maxScore: Number(cell(row, 'maxScore')),
+      weight: weight === '' ? 0 : Number(weight)
+    };
+  });
+
+  // Spread weights evenly when the file does not set them
+  if (criteria.every(criterion => criterion.weight === 0)) {
+    const even = Math.floor(100 / criteria.length);
+    criteria.forEach((criterion, index) => {
+      criterion.weight = index === 0 ? 100 - even * (criteria.length - 1) : even;
+    });
+  }
+
+  return { rubric: validate({ criteria }, 'csv') };
+}
@@ -0,0 +1,184 @@
+/**
+ * Submission similarity fingerprints
+ *
+ * Splits submissions into tokens, hashes every run of k tokens (shingles)
+ * and keeps a representative subset with winnowing, so two documents that
+ * share a long enough passage always share at least one fingerprint. Prose
+ * is compared word by word, ignoring case and punctuation. Code drops
+ * comments and whitespace and replaces identifiers, strings and numbers
+ * with placeholders, so renaming variables does not hide copied code.
+ */
+
+export type SimilarityKind = 'text' | 'code';
+
+export interface Token {
+  value: string;
+  // Character offsets in the original text
+  start: number;
+  end: number;
+}
+
+export interface Fingerprint {
+  hash: number;
+  start: number;
+  end: number;
+}
+
+// Shingle length in tokens, and the winnowing window in shingles. Any shared
+// run of k + window - 1 tokens is guaranteed to be detected.
+const KGRAM_SIZE: Record<SimilarityKind, number> = { text: 5, code: 12 };
+const WINDOW_SIZE = 4;
+
+const WORD_PATTERN = /[A-Za-z0-9\u00C0-\uFFFF]+/g;
+
+// Comments (including Python docstrings), strings, numbers, identifiers, then
+// any other non-space character
+const CODE_PATTERN = /(\/\*[\s\S]*?\*\/|\/\/[^\n]*|#[^\n]*|"""[\s\S]*?"""|'''[\s\S]*?''')|("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)|(\d+(?:\.\d+)?)|([A-Za-z_$][\w$]*)|(\S)/g;
+
+// Keywords are kept so the structure of the code still counts
+const CODE_KEYWORDS = new Set([
+  'if', 'else', 'elif', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'function', 'def', 'class', 'struct', 'interface', 'enum', 'new', 'delete', 'try', 'catch', 'except',
+  'finally', 'throw', 'throws', 'raise', 'import', 'from', 'as', 'export', 'package', 'using', 'namespace',
+  'public', 'private', 'protected', 'static', 'final', 'const', 'let', 'var', 'void', 'int', 'long', 'float',
+  'double', 'char', 'bool', 'boolean', 'string', 'true', 'false', 'null', 'None', 'True', 'False', 'nil',
+  'this', 'self', 'super', 'extends', 'implements', 'lambda', 'yield', 'async', 'await', 'with', 'in', 'is',
+  'not', 'and', 'or', 'pass', 'global', 'nonlocal', 'assert', 'func', 'fn', 'match', 'impl', 'mut', 'where'
+]);
+
+/**
+ * Split text into comparable tokens. `offset` shifts the positions, for text
+ * that is one part of a longer document.
+ */
+export function tokenize(text: string, kind: SimilarityKind, offset: number = 0): Token[] {
+  const tokens: Token[] = [];
+
+  if (kind === 'text') {
+    const pattern = new RegExp(WORD_PATTERN.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      tokens.push({ value: match[0].toLowerCase(), start: offset + match.index, end: offset + match.index + match[0].length });
+    }
+    return tokens;
+  }
+
+  const pattern = new RegExp(CODE_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const [whole, comment, literal, number, identifier] = match;
+    if (comment !== undefined) continue;
+
+    let value = whole;
+    if (literal !== undefined) value = 'S';
+    else if (number !== undefined) value = 'N';
+    else if (identifier !== undefined) value = CODE_KEYWORDS.has(identifier) ? identifier : 'V';
+
+    tokens.push({ value, start: offset + match.index, end: offset + match.index + whole.length });
+  }
+  return tokens;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hash every k-gram of tokens and keep the smallest hash in each window
+ * (the rightmost one on ties), recording each selected position once
+ */
+export function winnow(tokens: Token[], kind: SimilarityKind): Fingerprint[] {
+  const k = KGRAM_SIZE[kind];
+  if (tokens.length < k) return [];
+
+  const shingles: Fingerprint[] = [];
+  for (let i = 0; i + k <= tokens.length; i++) {
+    const gram = tokens.slice(i, i + k).map(token => token.value).join('\u0001');
+    shingles.push({ hash: hashString(gram), start: tokens[i].start, end: tokens[i + k - 1].end });
+  }
+
+  const window = Math.min(WINDOW_SIZE, shingles.length);
+  const selected: Fingerprint[] = [];
+  let lastPosition = -1;
+  for (let i = 0; i + window <= shingles.length; i++) {
+    let minPosition = i;
+    for (let j = i + 1; j < i + window; j++) {
+      if (shingles[j].hash <= shingles[minPosition].hash) minPosition = j;
+    }
+    if (minPosition !== lastPosition) {
+      selected.push(shingles[minPosition]);
+      lastPosition = minPosition;
+    }
+  }
+  return selected;
+}
+
+/**
+ * The distinct fingerprint hashes of a document, as stored for comparison
+ */
+export function fingerprintHashes(tokens: Token[], kind: SimilarityKind): number[] {
+  return Array.from(new Set(winnow(tokens, kind).map(fingerprint => fingerprint.hash)));
+}
+
+/**
+ * Count the fingerprints two documents share, leaving out `ignored` ones
+ * such as starter code every student received. The score is the percentage
+ * of the shorter document found in the other.
+ */
+export function compareFingerprints(
+  a: number[],
+  b: number[],
+  ignored: Set<number> = new Set()
+): { shared: number; score: number } {
+  const left = a.filter(hash => !ignored.has(hash));
+  const right = new Set(b.filter(hash => !ignored.has(hash)));
+  const smaller = Math.min(left.length, right.size);
+  if (smaller === 0) return { shared: 0, score: 0 };
+
+  const shared = left.filter(hash => right.has(hash)).length;
+  return { shared, score: Math.round((shared / smaller) * 100) };
+}
+
+/**
+ * Merge overlapping or touching [start, end) ranges
+ */
+export function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const sorted = ranges.slice().sort((x, y) => x[0] - y[0]);
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Character ranges of the passages two documents share, for highlighting
+ * them side by side
+ */
+export function findMatchingRegions(
+  a: Token[],
+  b: Token[],
+  kind: SimilarityKind
+): { a: Array<[number, number]>; b: Array<[number, number]> } {
+  const left = winnow(a, kind);
+  const right = winnow(b, kind);
+  const leftHashes = new Set(left.map(fingerprint => fingerprint.hash));
+  const rightHashes = new Set(right.map(fingerprint => fingerprint.hash));
+
+  return {
+    a: mergeRanges(left.filter(fingerprint => rightHashes.has(fingerprint.hash)).map(fingerprint => [fingerprint.start, fingerprint.end])),
+    b: mergeRanges(right.filter(fingerprint => leftHashes.has(fingerprint.hash)).map(fingerprint => [fingerprint.start, fingerprint.end]))
+  };
+}
@@ -7,7 +7,7 @@
  * - Split content into manageable chunks
  */
 
-import { MultimodalPromptPart } from '../types';
+import { MultimodalPromptPart } from '../adapters/ai-adapter';
 
 // Token limits for different Gemini models
 export const TOKEN_LIMITS = {
@@ -99,16 +99,33 @@ export function estimateTokensForMultimodalParts(parts: MultimodalPromptPart[]):
     if (part.type === 'text' && typeof part.content === 'string') {
       totalTokens += estimateTokensForText(part.content);
     } 
-    else if (part.type === 'file') {
-      // For files, we use a fixed estimate of 1000 tokens as a conservative approach
-      // This is a simplification since we don't know the exact content dimensions
-      totalTokens += 1000;
+    else {
+      totalTokens += estimateTokensForFilePart(part);
     }
   }
   
   return totalTokens;
 }
 
+/**
+ * Estimate tokens for a non-text prompt part
+ * Uses the extracted text when available, since that is what text-only
+ * adapters send and it tracks the document's real length
+ * @param part A file prompt part (image, document, audio, video)
+ * @returns Estimated token count
+ */
+export function estimateTokensForFilePart(part: MultimodalPromptPart): number {
+  if (part.textContent) {
+    return estimateTokensForText(part.textContent);
+  }
+  if (part.type === 'image') {
+    return TOKEN_ESTIMATES.image.small;
+  }
+  // For other files, we use a fixed estimate of 1000 tokens as a conservative approach
+  // This is a simplification since we don't know the exact content dimensions
+  return 1000;
+}
+
 /**
  * Determine if a prompt is likely to exceed token limits
  * @param parts Array of prompt parts
@@ -158,8 +175,7 @@ export function optimizePromptForTokenLimits(
   
   // Add all file parts first (they're typically more important)
   for (const part of fileParts) {
-    // Estimate tokens for file (using 1000 as conservative estimate)
-    const estimatedTokens = 1000;
+    const estimatedTokens = estimateTokensForFilePart(part);
     
     if (tokenBudget >= estimatedTokens) {
       optimizedParts.push(part);
@@ -0,0 +1,207 @@
+/**
+ * Writing signals
+ *
+ * Stylometric measurements of prose used to flag submissions that may have
+ * been machine-written. The measurements are weak evidence on their own:
+ * generated text tends to have evenly sized sentences, long formal words
+ * and stock transition phrases, and it often reads differently from the
+ * student's own earlier work. The result is an advisory level with the
+ * observations behind it, never a verdict.
+ */
+
+import type { WritingSignal, WritingStats } from '../../shared/schema';
+
+export type WritingSignalLevel = 'insufficient_text' | 'low' | 'moderate' | 'high';
+
+// Shorter texts vary too much to measure
+export const MIN_WORDS = 150;
+const MIN_SENTENCES = 5;
+// Sentences shorter than this are headings or list items
+const MIN_SENTENCE_WORDS = 3;
+const VOCABULARY_WINDOW = 100;
+// Earlier submissions needed before drift from the student's own writing is reported
+export const MIN_BASELINE_SUBMISSIONS = 2;
+
+// Summed signal weights at which the level is raised
+const MODERATE_WEIGHT = 1.5;
+const HIGH_WEIGHT = 3;
+
+const WORD_PATTERN = /[A-Za-z\u00C0-\uFFFF]+(?:'[A-Za-z]+)?/g;
+// Sentences end at terminal punctuation or a blank line; wrapped lines are joined first
+const SENTENCE_PATTERN = /[^.!?\n]+(?:[.!?]+|\n|$)/g;
+const LINE_WRAP_PATTERN = /([^\n])\n(?!\s*\n)/g;
+
+const FUNCTION_WORDS = [
+  'the', 'of', 'and', 'to', 'a', 'in', 'that', 'is', 'it', 'for', 'as', 'with', 'was', 'on', 'be',
+  'by', 'this', 'but', 'not', 'are', 'or', 'which', 'from', 'have', 'an', 'they', 'i', 'we', 'you', 'so'
+];
+
+const STOCK_PHRASES = [
+  'delve', 'delves', 'delving', 'tapestry', 'it is important to note', 'it is worth noting',
+  'in conclusion', 'in today\'s', 'plays a crucial role', 'plays a pivotal role', 'a testament to',
+  'furthermore', 'moreover', 'additionally', 'overall', 'in summary', 'navigate the complexities',
+  'multifaceted', 'underscores', 'showcasing', 'fostering', 'ever-evolving', 'in the realm of'
+];
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+}
+
+function round(value: number, places: number = 3): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function words(text: string): string[] {
+  return (text.match(WORD_PATTERN) || []).map(word => word.toLowerCase());
+}
+
+/**
+ * Moving-average type/token ratio, which unlike the plain ratio does not
+ * fall as texts get longer
+ */
+function movingTypeTokenRatio(tokens: string[]): number {
+  if (tokens.length <= VOCABULARY_WINDOW) return new Set(tokens).size / tokens.length;
+
+  const ratios: number[] = [];
+  for (let i = 0; i + VOCABULARY_WINDOW <= tokens.length; i++) {
+    ratios.push(new Set(tokens.slice(i, i + VOCABULARY_WINDOW)).size / VOCABULARY_WINDOW);
+  }
+  return mean(ratios);
+}
+
+/**
+ * Measure a piece of prose. Returns undefined when it is too short.
+ */
+export function computeWritingStats(text: string): WritingStats | undefined {
+  const tokens = words(text);
+  const sentenceLengths = (text.replace(LINE_WRAP_PATTERN, '$1 ').match(SENTENCE_PATTERN) || [])
+    .map(sentence => words(sentence).length)
+    .filter(length => length >= MIN_SENTENCE_WORDS);
+  if (tokens.length < MIN_WORDS || sentenceLengths.length < MIN_SENTENCES) return undefined;
+
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+  const joined = ` ${tokens.join(' ')} `;
+  const stockPhrases = STOCK_PHRASES.reduce(
+    (total, phrase) => total + (joined.split(` ${words(phrase).join(' ')} `).length - 1),
+    0
+  );
+
+  const functionWords: Record<string, number> = {};
+  FUNCTION_WORDS.forEach(word => {
+    functionWords[word] = round((counts.get(word) ?? 0) / tokens.length, 4);
+  });
+
+  const meanSentenceLength = mean(sentenceLengths);
+  return {
+    wordCount: tokens.length,
+    sentenceCount: sentenceLengths.length,
+    meanSentenceLength: round(meanSentenceLength, 2),
+    burstiness: round(standardDeviation(sentenceLengths) / meanSentenceLength),
+    meanWordLength: round(mean(tokens.map(token => token.length)), 2),
+    vocabularyRichness: round(movingTypeTokenRatio(tokens)),
+    stockPhraseRate: round((stockPhrases / tokens.length) * 1000, 2),
+    functionWords
+  };
+}
+
+function cosineSimilarity(a: Record<string, number>, b: Record<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  FUNCTION_WORDS.forEach(word => {
+    const x = a[word] ?? 0;
+    const y = b[word] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  });
+  return normA === 0 || normB === 0 ? 1 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * How far a submission moves from the student's earlier writing. Each
+ * measurement that changed by more than its tolerance is listed.
+ */
+function baselineDrift(stats: WritingStats, baseline: WritingStats[]): string[] {
+  const drifted: string[] = [];
+  const compare = (label: string, current: number, earlier: number[], tolerance: number) => {
+    const average = mean(earlier);
+    if (average > 0 && Math.abs(current - average) / average > tolerance) {
+      drifted.push(`${label} ${round(current, 2)} vs ${round(average, 2)}`);
+    }
+  };
+
+  compare('sentence length', stats.meanSentenceLength, baseline.map(item => item.meanSentenceLength), 0.4);
+  compare('sentence variation', stats.burstiness, baseline.map(item => item.burstiness), 0.4);
+  compare('word length', stats.meanWordLength, baseline.map(item => item.meanWordLength), 0.12);
+  compare('vocabulary richness', stats.vocabularyRichness, baseline.map(item => item.vocabularyRichness), 0.15);
+
+  const profile: Record<string, number> = {};
+  FUNCTION_WORDS.forEach(word => {
+    profile[word] = mean(baseline.map(item => item.functionWords[word] ?? 0));
+  });
+  if (cosineSimilarity(stats.functionWords, profile) < 0.85) {
+    drifted.push('function word usage');
+  }
+  return drifted;
+}
+
+/**
+ * Turn a submission's measurements, and those of the student's earlier
+ * submissions, into an advisory level and the observations behind it
+ */
+export function assessWritingSignals(
+  stats: WritingStats | undefined,
+  baseline: WritingStats[] = []
+): { level: WritingSignalLevel; signals: WritingSignal[] } {
+  if (!stats) return { level: 'insufficient_text', signals: [] };
+
+  const signals: WritingSignal[] = [];
+
+  if (stats.burstiness < 0.35) {
+    signals.push({
+      id: 'low_burstiness',
+      weight: stats.burstiness < 0.25 ? 1.5 : 1,
+      detail: `Sentence lengths are unusually even (variation ${stats.burstiness}); people usually mix short and long sentences more.`
+    });
+  }
+
+  if (stats.meanWordLength >= 5.5) {
+    signals.push({
+      id: 'elevated_vocabulary',
+      weight: 1,
+      detail: `Words are unusually long for student writing (average ${stats.meanWordLength} letters), typical of formal generated prose.`
+    });
+  }
+
+  if (stats.stockPhraseRate >= 3) {
+    signals.push({
+      id: 'stock_phrases',
+      weight: stats.stockPhraseRate >= 6 ? 2 : 1,
+      detail: `Stock phrases common in generated text appear ${stats.stockPhraseRate} times per 1000 words.`
+    });
+  }
+
+  if (baseline.length >= MIN_BASELINE_SUBMISSIONS) {
+    const drifted = baselineDrift(stats, baseline);
+    if (drifted.length > 0) {
+      signals.push({
+        id: 'baseline_drift',
+        weight: Math.min(2, drifted.length * 0.75),
+        detail: `Differs from the student's ${baseline.length} earlier submissions in ${drifted.join(', ')}.`
+      });
+    }
+  }
+
+  const total = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  const level: WritingSignalLevel = total >= HIGH_WEIGHT ? 'high' : total >= MODERATE_WEIGHT ? 'moderate' : 'low';
+  return { level, signals };
+}
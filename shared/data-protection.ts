@@ -140,6 +140,18 @@ export interface UserDataExport {
   }>;
 }
 
+// Everything held about a guest who submitted through a shareable link
+export interface GuestDataExport {
+  guest_info: {
+    id: number;
+    name: string;
+    email: string;
+    email_verified_at: Date | null;
+    created_at: Date;
+  };
+  submissions: UserDataExport['submissions'];
+}
+
 // Data protection validation schemas
 export const dataSubjectRequestSchema = z.object({
   type: z.enum(['access', 'rectification', 'erasure', 'portability', 'restriction', 'objection']),
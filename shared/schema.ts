@@ -1,4 +1,4 @@
-  import { pgTable, text, serial, integer, timestamp, json, pgEnum, smallint, boolean, index } from "drizzle-orm/pg-core";
+  import { pgTable, text, serial, integer, timestamp, json, pgEnum, smallint, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
   import { createInsertSchema } from "drizzle-zod";
   import { z } from "zod";
 
@@ -12,6 +12,19 @@
   import { RubricCriteriaTypeValue } from './enums';
 
   // Rubric type definitions
+
+  /**
+   * A performance level of an analytic rubric criterion, e.g. "Proficient",
+   * with the descriptor the AI matches the work against and the points the
+   * level is worth. Levels are listed from highest to lowest.
+   */
+  export interface RubricPerformanceLevel {
+    name: string;
+    description: string;
+    minScore: number;
+    maxScore: number;
+  }
+
   export interface RubricCriterion {
     id: string;
     type: RubricCriteriaTypeValue;
@@ -19,6 +32,7 @@
     description: string;
     maxScore: number;
     weight: number; // percentage weight in the overall assignment grade
+    levels?: RubricPerformanceLevel[]; // set for analytic (leveled) criteria
   }
 
   export interface Rubric {
@@ -31,6 +45,8 @@
     criteriaId: string;
     score: number;
     feedback: string;
+    level?: string; // name of the performance level chosen for a leveled criterion
+    levelJustification?: string;
   }
 
   /**
@@ -51,6 +67,163 @@
     lastUpdated?: Date;     // Optional timestamp of last update
   }
 
+  /**
+   * GradingConfig controls how many AI grading passes an assignment receives.
+   * In multi-pass mode the submission is graded several times (either by the
+   * same provider with varied seeds, or by each listed provider in turn) and
+   * the results are reconciled into a single feedback record.
+   */
+  export interface GradingConfig {
+    mode: 'single' | 'multi_pass';
+    passes?: number;                 // Number of passes when using a single provider (default 3)
+    providers?: string[];            // Optional list of providers, e.g. ['gemini', 'openai', 'anthropic', 'local']
+    disagreementThreshold?: number;  // Max allowed spread as a fraction of max score (default 0.15)
+  }
+
+  /**
+   * AIModelConfig selects the models that grade an assignment. The first entry
+   * in the chain is the primary; when it errors or times out grading falls back
+   * to the next entry in order. Assignments without one use the course default,
+   * then the system default from systemSettings.
+   */
+  export interface AIModelChoice {
+    provider: 'gemini' | 'openai' | 'anthropic' | 'local' | 'mock'; // 'mock' only via AI_PROVIDER=mock, never saved
+    model?: string;                  // Provider model name (default: the adapter's configured model)
+  }
+
+  export interface AIModelConfig {
+    chain: AIModelChoice[];
+    timeoutSeconds?: number;         // Per-attempt limit before falling back (default 120)
+  }
+
+  /**
+   * AutograderConfig attaches a hidden test suite to an assignment. Like the
+   * instructor context it is never shown to students; the queue worker runs it
+   * against each submission in a resource-limited sandbox before AI grading.
+   */
+  export interface AutograderConfig {
+    language: 'python' | 'javascript';
+    testCode: string;                // Test suite source (test_* functions/unittest for Python, test(name, fn) for JavaScript)
+    entryFile?: string;              // File name the tests import when the submission is plain text (default solution.py / solution.js)
+    criterionId?: string;            // Rubric criterion scored by the pass rate (default: first functionality criterion)
+    timeoutSeconds?: number;         // Wall-clock limit for the whole run (default 30)
+  }
+
+  /**
+   * SubmissionPolicy limits how many times and how late students may submit.
+   * Lateness is measured against the student's extended due date when they
+   * have one. Assignments without a policy take unlimited attempts until the
+   * due date and grade the latest one.
+   */
+  export interface SubmissionPolicy {
+    maxAttempts?: number;              // Attempts per student; failed submissions do not count (default unlimited)
+    gracePeriodMinutes?: number;       // Submissions this soon after the due date count as on time (default 0)
+    allowLate?: boolean;               // Accept submissions after the grace period (default false)
+    latePenaltyPercentPerDay?: number; // Deducted from the score for each started day late (default 0)
+    lateCutoffDays?: number;           // Hard cutoff: no submissions this many days after the due date (default none)
+    countedAttempt?: 'latest' | 'best'; // Which graded attempt is the student's grade (default latest)
+  }
+
+  export interface TestCaseResult {
+    name: string;
+    passed: boolean;
+    message?: string;
+    durationMs?: number;
+  }
+
+  /**
+   * AutograderResult is the outcome of running an assignment's test suite
+   * against a submission. It is stored on the feedback record.
+   */
+  export interface AutograderResult {
+    status: 'passed' | 'failed' | 'error' | 'timeout';
+    passed: number;
+    total: number;
+    tests: TestCaseResult[];
+    output?: string;                 // Truncated stdout/stderr, for instructors diagnosing errors
+    error?: string;
+    durationMs: number;
+  }
+
+  /**
+   * WritingStats are stylometric measurements of a prose submission, kept so
+   * later submissions by the same student can be compared against them.
+   */
+  export interface WritingStats {
+    wordCount: number;
+    sentenceCount: number;
+    meanSentenceLength: number;      // Words per sentence
+    burstiness: number;              // Coefficient of variation of sentence length
+    meanWordLength: number;
+    vocabularyRichness: number;      // Moving-average type/token ratio over 100-word windows
+    stockPhraseRate: number;         // Stock phrases common in generated text, per 1000 words
+    functionWords: Record<string, number>; // Relative frequency of common function words
+  }
+
+  /**
+   * WritingSignal is one observation behind a writing-signal level, shown to
+   * instructors as the explanation.
+   */
+  export interface WritingSignal {
+    id: 'low_burstiness' | 'elevated_vocabulary' | 'stock_phrases' | 'baseline_drift';
+    weight: number;
+    detail: string;
+  }
+
+  /**
+   * PartialFeedback holds the feedback sections a streaming model has finished
+   * writing so far. Scores are left out because the autograder or multi-pass
+   * reconciliation may still change them.
+   */
+  export interface PartialFeedback {
+    summary?: string;
+    strengths?: string[];
+    improvements?: string[];
+    suggestions?: string[];
+  }
+
+  /**
+   * SubmissionEvent is pushed to the submitting student over
+   * GET /api/submissions/events while a submission is graded.
+   */
+  export type SubmissionEvent =
+    | {
+        type: 'status';
+        submissionId: number;
+        assignmentId: number;
+        status: 'pending' | 'processing' | 'completed' | 'failed';
+      }
+    | {
+        type: 'partial_feedback';
+        submissionId: number;
+        assignmentId: number;
+        feedback: PartialFeedback;
+      };
+
+  export interface CriterionVariance {
+    criteriaId: string;
+    scores: number[];
+    min: number;
+    max: number;
+    spread: number;
+    flagged: boolean;
+  }
+
+  /**
+   * GradingVariance summarises how much independent grading passes disagreed.
+   * It is stored alongside reconciled feedback so instructors can see it.
+   */
+  export interface GradingVariance {
+    passCount: number;
+    scores: number[];
+    scoreSpread: number;
+    scoreStdDev: number;
+    threshold: number;
+    criteria: CriterionVariance[];
+    flagged: boolean;
+    reasons: string[];
+  }
+
   // Additional system configuration types (from HEAD branch)
   export interface LmsSettings {
     enableLms: boolean;
@@ -87,9 +260,25 @@
   export const userRoleEnum = pgEnum('user_role', ['student', 'instructor', 'admin']);
   export const assignmentStatusEnum = pgEnum('assignment_status', ['active', 'completed', 'upcoming']);
   export const submissionStatusEnum = pgEnum('submission_status', ['pending', 'processing', 'completed', 'failed']);
-  export const contentTypeEnum = pgEnum('content_type', ['text', 'image', 'audio', 'video', 'document']);
+  export const contentTypeEnum = pgEnum('content_type', ['text', 'image', 'audio', 'video', 'document', 'notebook']);
   export const lmsProviderEnum = pgEnum('lms_provider', ['canvas', 'blackboard', 'moodle', 'd2l']); // From main
   export const syncStatusEnum = pgEnum('sync_status', ['pending', 'in_progress', 'completed', 'failed']); // From main
+  export const feedbackStatusEnum = pgEnum('feedback_status', ['draft', 'released']);
+  export const emailNotificationTypeEnum = pgEnum('email_notification_type', ['feedback_ready', 'assignment_opening', 'assignment_due_soon', 'submission_failed']);
+  export const emailDeliveryStatusEnum = pgEnum('email_delivery_status', ['pending', 'sending', 'sent', 'failed']);
+  export const similarityKindEnum = pgEnum('similarity_kind', ['text', 'code']);
+  export const writingSignalLevelEnum = pgEnum('writing_signal_level', ['insufficient_text', 'low', 'moderate', 'high']);
+  export const rubricTemplateScopeEnum = pgEnum('rubric_template_scope', ['personal', 'course', 'institution']);
+  export const courseStaffRoleEnum = pgEnum('course_staff_role', ['owner', 'instructor', 'ta']);
+  export const enrollmentRequestStatusEnum = pgEnum('enrollment_request_status', ['pending', 'approved', 'denied']);
+  export const notificationTypeEnum = pgEnum('notification_type', [
+    'feedback_ready',
+    'submission_failed',
+    'assignment_status',
+    'lms_sync_failed',
+    'data_request_status',
+    'rubric_error'
+  ]);
   
   // Data protection and privacy enums
   export const dataSubjectRequestTypeEnum = pgEnum("data_subject_request_type", 
@@ -152,6 +341,75 @@
     };
   });
 
+  // Course staff: owners and co-instructors run the course, TAs may only view and grade
+  export const courseStaff = pgTable("course_staff", {
+    id: serial("id").primaryKey(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }).notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    role: courseStaffRoleEnum("role").notNull(),
+    addedBy: integer("added_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      courseUserIdx: uniqueIndex("idx_course_staff_course_user").on(table.courseId, table.userId),
+      userIdIdx: index("idx_course_staff_user_id").on(table.userId)
+    };
+  });
+
+  // Roster entries waiting for the student's first MIT Horizon sign-in
+  export const courseInvitations = pgTable("course_invitations", {
+    id: serial("id").primaryKey(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }).notNull(),
+    email: text("email").notNull(), // Stored lower-case
+    name: text("name"),
+    mitHorizonSub: text("mit_horizon_sub"),
+    invitedBy: integer("invited_by").references(() => users.id, { onDelete: 'set null' }),
+    acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: 'set null' }),
+    acceptedAt: timestamp("accepted_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      courseEmailIdx: uniqueIndex("idx_course_invitations_course_email").on(table.courseId, table.email),
+      mitHorizonSubIdx: index("idx_course_invitations_mit_horizon_sub").on(table.mitHorizonSub),
+      emailIdx: index("idx_course_invitations_email").on(table.email)
+    };
+  });
+
+  // Join codes students redeem to enroll themselves in a course
+  export const courseJoinCodes = pgTable("course_join_codes", {
+    id: serial("id").primaryKey(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }).notNull(),
+    code: text("code").notNull().unique(), // Stored upper-case
+    expiresAt: timestamp("expires_at").notNull(),
+    requireApproval: boolean("require_approval").notNull().default(false),
+    restrictToAllowedDomains: boolean("restrict_to_allowed_domains").notNull().default(false),
+    uses: integer("uses").notNull().default(0),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      courseIdIdx: index("idx_course_join_codes_course_id").on(table.courseId)
+    };
+  });
+
+  // Join code redemptions waiting for an instructor's approval
+  export const enrollmentRequests = pgTable("enrollment_requests", {
+    id: serial("id").primaryKey(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }).notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    joinCodeId: integer("join_code_id").references(() => courseJoinCodes.id, { onDelete: 'set null' }),
+    status: enrollmentRequestStatusEnum("status").notNull().default('pending'),
+    decidedBy: integer("decided_by").references(() => users.id, { onDelete: 'set null' }),
+    decidedAt: timestamp("decided_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      courseUserIdx: uniqueIndex("idx_enrollment_requests_course_user").on(table.courseId, table.userId),
+      statusIdx: index("idx_enrollment_requests_status").on(table.courseId, table.status)
+    };
+  });
+
   // Assignments
   export const assignments = pgTable("assignments", {
     id: serial("id").primaryKey(),
@@ -164,6 +422,12 @@
     shareableCode: text("shareable_code"),
     rubric: json("rubric").$type<Rubric>(),
     instructorContext: json("instructor_context").$type<InstructorContext>(), 
+    gradingConfig: json("grading_config").$type<GradingConfig>(),
+    holdFeedbackForReview: boolean("hold_feedback_for_review").notNull().default(false), // AI feedback stays in draft until an instructor releases it
+    autograder: json("autograder").$type<AutograderConfig>(), // Hidden test suite run against each submission
+    aiModel: json("ai_model").$type<AIModelConfig>(), // Model chain override; falls back to course/system defaults
+    writingSignalsEnabled: boolean("writing_signals_enabled").notNull().default(false), // Compute advisory AI-writing signals for instructors
+    submissionPolicy: json("submission_policy").$type<SubmissionPolicy>(), // Attempt limit, late penalties and which attempt counts
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   }, (table) => {
@@ -176,11 +440,28 @@
     };
   });
 
+  // Per-student due dates that replace the assignment's due date
+  export const assignmentExtensions = pgTable("assignment_extensions", {
+    id: serial("id").primaryKey(),
+    assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    dueDate: timestamp("due_date").notNull(),
+    reason: text("reason"),
+    grantedBy: integer("granted_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      assignmentUserIdx: uniqueIndex("idx_assignment_extensions_assignment_user").on(table.assignmentId, table.userId)
+    };
+  });
+
   // Submissions
   export const submissions = pgTable("submissions", {
     id: serial("id").primaryKey(),
     assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
-    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    // Null for guest submissions made through a shareable link
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }),
+    guestSubmitterId: integer("guest_submitter_id").references(() => guestSubmitters.id, { onDelete: 'cascade' }),
     fileUrl: text("file_url"),
     fileName: text("file_name"),
     mimeType: text("mime_type"), 
@@ -189,18 +470,63 @@
     content: text("content"),
     notes: text("notes"),
     status: submissionStatusEnum("status").notNull().default('pending'),
+    // Automatic grade passback to mapped LMS courses; null when the course does not sync grades
+    lmsSyncStatus: syncStatusEnum("lms_sync_status"),
+    lmsSyncAttempts: integer("lms_sync_attempts").notNull().default(0),
+    lmsSyncError: text("lms_sync_error"),
+    lmsSyncNextAttemptAt: timestamp("lms_sync_next_attempt_at"),
+    lmsSyncedAt: timestamp("lms_synced_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   }, (table) => {
     return {
       assignmentIdIdx: index("idx_submissions_assignment_id").on(table.assignmentId),
       userIdIdx: index("idx_submissions_user_id").on(table.userId),
+      guestSubmitterIdx: index("idx_submissions_guest_submitter_id").on(table.guestSubmitterId),
       statusIdx: index("idx_submissions_status").on(table.status),
       contentTypeIdx: index("idx_submissions_content_type").on(table.contentType),
       createdAtIdx: index("idx_submissions_created_at").on(table.createdAt),
       userAssignmentIdx: index("idx_submissions_user_assignment").on(table.userId, table.assignmentId),
       assignmentStatusIdx: index("idx_submissions_assignment_status").on(table.assignmentId, table.status),
-      contentTypeStatusIdx: index("idx_submissions_content_type_status").on(table.contentType, table.status)
+      contentTypeStatusIdx: index("idx_submissions_content_type_status").on(table.contentType, table.status),
+      lmsSyncStatusIdx: index("idx_submissions_lms_sync_status").on(table.lmsSyncStatus, table.lmsSyncNextAttemptAt)
+    };
+  });
+
+  // People who submit through a shareable link without an account, identified by email
+  export const guestSubmitters = pgTable("guest_submitters", {
+    id: serial("id").primaryKey(),
+    email: text("email").notNull().unique(), // Stored lower-case
+    name: text("name").notNull(),
+    emailVerifiedAt: timestamp("email_verified_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    lastSubmittedAt: timestamp("last_submitted_at"),
+  });
+
+  // Name and email given with a shareable-link submission. Anyone can type any
+  // email, so the submission joins that guest's history only once the link
+  // emailed for it is followed.
+  export const pendingGuestSubmitters = pgTable("pending_guest_submitters", {
+    id: serial("id").primaryKey(),
+    submissionId: integer("submission_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull().unique(),
+    email: text("email").notNull(), // Stored lower-case
+    name: text("name").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  });
+
+  // Single-use magic links that verify a guest's email and sign them in. Links
+  // sent with a submission belong to its pending submitter instead of a guest.
+  export const guestAccessTokens = pgTable("guest_access_tokens", {
+    id: serial("id").primaryKey(),
+    guestSubmitterId: integer("guest_submitter_id").references(() => guestSubmitters.id, { onDelete: 'cascade' }),
+    pendingGuestSubmitterId: integer("pending_guest_submitter_id").references(() => pendingGuestSubmitters.id, { onDelete: 'cascade' }),
+    tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token in the link
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      guestIdx: index("idx_guest_access_tokens_guest").on(table.guestSubmitterId)
     };
   });
 
@@ -218,16 +544,65 @@
     rawResponse: json("raw_response").$type<Record<string, unknown>>(), // From main
     modelName: text("model_name"), // From main
     tokenCount: integer("token_count"), // From main
+    needsReview: boolean("needs_review").notNull().default(false),
+    gradingVariance: json("grading_variance").$type<GradingVariance>(),
+    testResults: json("test_results").$type<AutograderResult>(),
+    status: feedbackStatusEnum("status").notNull().default('released'), // Draft feedback is hidden from students
+    releasedAt: timestamp("released_at"),
+    releasedBy: integer("released_by").references(() => users.id, { onDelete: 'set null' }),
+    lastEditedBy: integer("last_edited_by").references(() => users.id, { onDelete: 'set null' }),
+    lastEditedAt: timestamp("last_edited_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
   }, (table) => {
     return {
       submissionIdIdx: index("idx_feedback_submission_id").on(table.submissionId),
+      needsReviewIdx: index("idx_feedback_needs_review").on(table.needsReview),
+      statusIdx: index("idx_feedback_status").on(table.status),
       scoreIdx: index("idx_feedback_score").on(table.score),
       processingTimeIdx: index("idx_feedback_processing_time").on(table.processingTime),
       createdAtIdx: index("idx_feedback_created_at").on(table.createdAt)
     };
   });
 
+  // Grading Passes - individual AI grading results that were reconciled into a feedback record
+  export const gradingPasses = pgTable("grading_passes", {
+    id: serial("id").primaryKey(),
+    submissionId: integer("submission_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull(),
+    feedbackId: integer("feedback_id").references(() => feedback.id, { onDelete: 'cascade' }),
+    passNumber: smallint("pass_number").notNull(),
+    provider: text("provider").notNull(),
+    modelName: text("model_name"),
+    seed: integer("seed"),
+    score: smallint("score"),
+    criteriaScores: json("criteria_scores").$type<CriteriaScore[]>(),
+    summary: text("summary"),
+    rawResponse: json("raw_response").$type<Record<string, unknown>>(),
+    tokenCount: integer("token_count"),
+    processingTime: integer("processing_time").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      submissionIdIdx: index("idx_grading_passes_submission_id").on(table.submissionId),
+      feedbackIdIdx: index("idx_grading_passes_feedback_id").on(table.feedbackId)
+    };
+  });
+
+  // Individual files of multi-file and ZIP project submissions
+  export const submissionFiles = pgTable("submission_files", {
+    id: serial("id").primaryKey(),
+    submissionId: integer("submission_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull(),
+    path: text("path").notNull(), // Path within the project, e.g. "src/main.py"
+    fileUrl: text("file_url").notNull(),
+    mimeType: text("mime_type").notNull(),
+    fileSize: integer("file_size").notNull(),
+    contentType: contentTypeEnum("content_type").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      submissionIdIdx: index("idx_submission_files_submission_id").on(table.submissionId)
+    };
+  });
+
   // System Settings (using HEAD's version with new lms, storage, security columns)
   export const systemSettings = pgTable("system_settings", {
     id: serial("id").primaryKey(),
@@ -279,6 +654,135 @@
     };
   });
 
+  // Email notification outbox - messages are rendered when queued and sent with retries
+  export const emailNotifications = pgTable("email_notifications", {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    type: emailNotificationTypeEnum("type").notNull(),
+    toAddress: text("to_address").notNull(),
+    subject: text("subject").notNull(),
+    textBody: text("text_body").notNull(),
+    htmlBody: text("html_body").notNull(),
+    // Stops the same event from emailing a user twice, e.g. due_soon:assignment:12:user:5
+    dedupeKey: text("dedupe_key").notNull().unique(),
+    status: emailDeliveryStatusEnum("status").notNull().default('pending'),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      userIdx: index("idx_email_notifications_user").on(table.userId),
+      statusNextAttemptIdx: index("idx_email_notifications_status_next_attempt").on(table.status, table.nextAttemptAt)
+    };
+  });
+
+  // Winnowed fingerprints of a submission, compared with the other students' submissions
+  export const submissionFingerprints = pgTable("submission_fingerprints", {
+    id: serial("id").primaryKey(),
+    submissionId: integer("submission_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull().unique(),
+    assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
+    kind: similarityKindEnum("kind").notNull(),
+    hashes: json("hashes").notNull().$type<number[]>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      assignmentIdx: index("idx_submission_fingerprints_assignment").on(table.assignmentId)
+    };
+  });
+
+  // Pairwise similarity between students' latest submissions; submissionAId is always the lower ID
+  export const submissionSimilarities = pgTable("submission_similarities", {
+    id: serial("id").primaryKey(),
+    assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
+    submissionAId: integer("submission_a_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull(),
+    submissionBId: integer("submission_b_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull(),
+    kind: similarityKindEnum("kind").notNull(),
+    // Percentage of the shorter submission's fingerprints found in the other
+    score: smallint("score").notNull(),
+    sharedFingerprints: integer("shared_fingerprints").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      pairIdx: uniqueIndex("idx_submission_similarities_pair").on(table.submissionAId, table.submissionBId),
+      assignmentScoreIdx: index("idx_submission_similarities_assignment_score").on(table.assignmentId, table.score)
+    };
+  });
+
+  // Advisory AI-writing signals for a prose submission. Shown to instructors only and never used in grading.
+  export const submissionWritingSignals = pgTable("submission_writing_signals", {
+    id: serial("id").primaryKey(),
+    submissionId: integer("submission_id").references(() => submissions.id, { onDelete: 'cascade' }).notNull().unique(),
+    assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    level: writingSignalLevelEnum("level").notNull(),
+    stats: json("stats").$type<WritingStats>(), // Null when the submission is too short to measure
+    signals: json("signals").notNull().$type<WritingSignal[]>(),
+    baselineSubmissions: integer("baseline_submissions").notNull().default(0), // Earlier submissions by the student compared against
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      assignmentIdx: index("idx_submission_writing_signals_assignment").on(table.assignmentId),
+      userIdx: index("idx_submission_writing_signals_user").on(table.userId)
+    };
+  });
+
+  // Reusable rubrics instructors clone into assignments. Personal templates are visible to their owner,
+  // course templates to the course's instructors and institution templates to every instructor.
+  export const rubricTemplates = pgTable("rubric_templates", {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    description: text("description"),
+    scope: rubricTemplateScopeEnum("scope").notNull().default('personal'),
+    ownerId: integer("owner_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }), // Set for course scope only
+    latestVersion: integer("latest_version").notNull().default(1),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      ownerIdx: index("idx_rubric_templates_owner").on(table.ownerId),
+      courseIdx: index("idx_rubric_templates_course").on(table.courseId),
+      scopeIdx: index("idx_rubric_templates_scope").on(table.scope)
+    };
+  });
+
+  // Every saved revision of a rubric template; earlier versions stay available for cloning
+  export const rubricTemplateVersions = pgTable("rubric_template_versions", {
+    id: serial("id").primaryKey(),
+    templateId: integer("template_id").references(() => rubricTemplates.id, { onDelete: 'cascade' }).notNull(),
+    version: integer("version").notNull(),
+    rubric: json("rubric").notNull().$type<Rubric>(),
+    changeNote: text("change_note"),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      templateVersionIdx: uniqueIndex("idx_rubric_template_versions_template_version").on(table.templateId, table.version)
+    };
+  });
+
+  // In-app notification inbox shown in the header bell menu
+  export const notifications = pgTable("notifications", {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    type: notificationTypeEnum("type").notNull(),
+    title: text("title").notNull(),
+    message: text("message").notNull(),
+    // Page the notification opens, e.g. /submission/12
+    link: text("link"),
+    metadata: json("metadata").$type<Record<string, unknown>>(),
+    read: boolean("read").notNull().default(false),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      userReadIdx: index("idx_notifications_user_read").on(table.userId, table.read),
+      userCreatedIdx: index("idx_notifications_user_created").on(table.userId, table.createdAt)
+    };
+  });
+
   // Newsletter Subscribers (from main branch)
   export const newsletterSubscribers = pgTable("newsletter_subscribers", {
     id: serial("id").primaryKey(),
@@ -299,6 +803,7 @@
     clientId: text("client_id").notNull(),
     clientSecret: text("client_secret").notNull(),
     callbackUrl: text("callback_url").notNull(),
+    refreshToken: text("refresh_token"), // OAuth2 refresh token for providers that rotate tokens (D2L)
     active: boolean("active").notNull().default(true),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -340,6 +845,7 @@
     lmsCourseName: text("lms_course_name"), 
     lastSynced: timestamp("last_synced"),
     syncEnabled: boolean("sync_enabled").notNull().default(true),
+    autoGradeSync: boolean("auto_grade_sync").notNull().default(false), // Push released scores automatically
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   }, (table) => {
@@ -351,6 +857,86 @@
     };
   });
 
+  // LTI 1.3 - Registered platforms (LMS instances that launch the tool)
+  export const ltiPlatforms = pgTable("lti_platforms", {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    issuer: text("issuer").notNull(), // "iss" claim of the platform's id_tokens
+    clientId: text("client_id").notNull(), // Client ID the platform assigned to this tool
+    deploymentId: text("deployment_id"), // When set, launches from other deployments are rejected
+    authLoginUrl: text("auth_login_url").notNull(), // Platform OIDC authorization endpoint
+    authTokenUrl: text("auth_token_url").notNull(), // Platform OAuth2 token endpoint (for AGS)
+    jwksUrl: text("jwks_url").notNull(), // Platform public keys
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    createdBy: integer("created_by").references(() => users.id, { onDelete: 'set null' }),
+  }, (table) => {
+    return {
+      issuerClientIdx: uniqueIndex("idx_lti_platforms_issuer_client").on(table.issuer, table.clientId),
+    };
+  });
+
+  // LTI 1.3 - Pending OIDC logins, consumed by the matching launch
+  export const ltiLaunchStates = pgTable("lti_launch_states", {
+    id: serial("id").primaryKey(),
+    state: text("state").notNull().unique(),
+    nonce: text("nonce").notNull(),
+    platformId: integer("platform_id").references(() => ltiPlatforms.id, { onDelete: 'cascade' }).notNull(),
+    targetLinkUri: text("target_link_uri").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      expiresAtIdx: index("idx_lti_launch_states_expires_at").on(table.expiresAt),
+    };
+  });
+
+  // LTI 1.3 - Platform users linked to local accounts ("sub" claim)
+  export const ltiUserLinks = pgTable("lti_user_links", {
+    id: serial("id").primaryKey(),
+    platformId: integer("platform_id").references(() => ltiPlatforms.id, { onDelete: 'cascade' }).notNull(),
+    ltiUserId: text("lti_user_id").notNull(),
+    userId: integer("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      platformUserIdx: uniqueIndex("idx_lti_user_links_platform_user").on(table.platformId, table.ltiUserId),
+      userIdIdx: index("idx_lti_user_links_user_id").on(table.userId),
+    };
+  });
+
+  // LTI 1.3 - Platform contexts (LMS courses) linked to local courses
+  export const ltiContexts = pgTable("lti_contexts", {
+    id: serial("id").primaryKey(),
+    platformId: integer("platform_id").references(() => ltiPlatforms.id, { onDelete: 'cascade' }).notNull(),
+    contextId: text("context_id").notNull(),
+    courseId: integer("course_id").references(() => courses.id, { onDelete: 'cascade' }).notNull(),
+    title: text("title"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      platformContextIdx: uniqueIndex("idx_lti_contexts_platform_context").on(table.platformId, table.contextId),
+      courseIdIdx: index("idx_lti_contexts_course_id").on(table.courseId),
+    };
+  });
+
+  // LTI 1.3 - Resource links placed in the LMS, with the AGS line item used for grade passback
+  export const ltiResourceLinks = pgTable("lti_resource_links", {
+    id: serial("id").primaryKey(),
+    platformId: integer("platform_id").references(() => ltiPlatforms.id, { onDelete: 'cascade' }).notNull(),
+    resourceLinkId: text("resource_link_id").notNull(),
+    assignmentId: integer("assignment_id").references(() => assignments.id, { onDelete: 'cascade' }).notNull(),
+    lineItemUrl: text("line_item_url"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  }, (table) => {
+    return {
+      platformResourceIdx: uniqueIndex("idx_lti_resource_links_platform_resource").on(table.platformId, table.resourceLinkId),
+      assignmentIdIdx: index("idx_lti_resource_links_assignment_id").on(table.assignmentId),
+    };
+  });
+
   // Schema Relationships - (Combined)
   export const usersRelations = {
     // @ts-ignore - Correctly typed at runtime by Drizzle
@@ -431,6 +1017,36 @@
     userId: z.number(),
     courseId: z.number()
   });
+
+  export const insertCourseStaffSchema = z.object({
+    courseId: z.number(),
+    userId: z.number(),
+    role: z.enum(['owner', 'instructor', 'ta']),
+    addedBy: z.number().nullable().optional()
+  });
+  
+  export const insertCourseInvitationSchema = z.object({
+    courseId: z.number(),
+    email: z.string().email(),
+    name: z.string().nullable().optional(),
+    mitHorizonSub: z.string().nullable().optional(),
+    invitedBy: z.number().nullable().optional()
+  });
+
+  export const insertCourseJoinCodeSchema = z.object({
+    courseId: z.number(),
+    code: z.string(),
+    expiresAt: z.date(),
+    requireApproval: z.boolean().optional(),
+    restrictToAllowedDomains: z.boolean().optional(),
+    createdBy: z.number().nullable().optional()
+  });
+
+  export const insertEnrollmentRequestSchema = z.object({
+    courseId: z.number(),
+    userId: z.number(),
+    joinCodeId: z.number().nullable().optional()
+  });
   
   export const insertAssignmentSchema = z.object({
     title: z.string(),
@@ -440,12 +1056,26 @@
     maxScore: z.number().nullable(),
     rubric: z.any().nullable(),
     instructorContext: z.any().nullable(),
+    gradingConfig: z.any().nullable().optional(),
+    holdFeedbackForReview: z.boolean().optional(),
+    autograder: z.any().nullable().optional(),
+    aiModel: z.any().nullable().optional(),
+    submissionPolicy: z.any().nullable().optional(),
     status: z.enum(['active', 'completed', 'upcoming']).default('active')
   });
+
+  export const insertAssignmentExtensionSchema = z.object({
+    assignmentId: z.number(),
+    userId: z.number(),
+    dueDate: z.date(),
+    reason: z.string().nullable().optional(),
+    grantedBy: z.number().nullable().optional()
+  });
   
   export const insertSubmissionSchema = z.object({
     assignmentId: z.number(),
     userId: z.number().nullable(),
+    guestSubmitterId: z.number().nullable().optional(),
     content: z.string().nullable(),
     fileName: z.string().nullable(),
     fileUrl: z.string().nullable(),
@@ -454,22 +1084,210 @@
     shareableCode: z.string().nullable()
   });
   
+  export const insertGuestSubmitterSchema = z.object({
+    email: z.string().email(),
+    name: z.string().min(1)
+  });
+
   export const insertFeedbackSchema = z.object({
     submissionId: z.number(),
-    overallScore: z.number().nullable(),
-    overallFeedback: z.string().nullable(),
+    strengths: z.array(z.string()),
+    improvements: z.array(z.string()),
+    suggestions: z.array(z.string()),
+    summary: z.string().nullable().optional(),
+    score: z.number().nullable().optional(),
     criteriaScores: z.any().nullable(),
-    processingTime: z.number().nullable(),
-    aiModel: z.string().nullable()
+    processingTime: z.number(),
+    rawResponse: z.any().nullable().optional(),
+    modelName: z.string().nullable().optional(),
+    tokenCount: z.number().nullable().optional(),
+    needsReview: z.boolean().optional(),
+    gradingVariance: z.any().nullable().optional(),
+    testResults: z.any().nullable().optional(),
+    status: z.enum(['draft', 'released']).optional()
+  });
+
+  // Instructor edits to AI feedback before (or after) it is released
+  export const feedbackEditSchema = z.object({
+    strengths: z.array(z.string()).optional(),
+    improvements: z.array(z.string()).optional(),
+    suggestions: z.array(z.string()).optional(),
+    summary: z.string().nullable().optional(),
+    score: z.number().int().min(0).max(100).nullable().optional(),
+    criteriaScores: z.array(z.object({
+      criteriaId: z.string(),
+      score: z.number(),
+      feedback: z.string(),
+      level: z.string().optional(),
+      levelJustification: z.string().optional()
+    })).nullable().optional()
+  });
+
+  export const rubricPerformanceLevelSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().max(2000),
+    minScore: z.number().min(0),
+    maxScore: z.number().min(0)
+  }).refine(level => level.minScore <= level.maxScore, {
+    message: 'A level\'s minimum score cannot exceed its maximum score',
+    path: ['minScore']
+  });
+
+  export const rubricCriterionSchema = z.object({
+    id: z.string().min(1),
+    type: z.enum(['code_quality', 'functionality', 'design', 'documentation', 'creativity', 'problem_solving', 'testing', 'completeness', 'other']),
+    name: z.string().min(1).max(200),
+    description: z.string().max(5000),
+    maxScore: z.number().int().min(1).max(1000),
+    weight: z.number().int().min(0).max(100),
+    levels: z.array(rubricPerformanceLevelSchema).min(2).max(10).optional()
+  }).superRefine((criterion, ctx) => {
+    const names = new Set<string>();
+    (criterion.levels || []).forEach((level, index) => {
+      if (level.maxScore > criterion.maxScore) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Level "${level.name}" is worth more than the criterion's maximum score of ${criterion.maxScore}`,
+          path: ['levels', index, 'maxScore']
+        });
+      }
+      const key = level.name.trim().toLowerCase();
+      if (names.has(key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Level names must be unique; "${level.name}" is used twice`,
+          path: ['levels', index, 'name']
+        });
+      }
+      names.add(key);
+    });
+  });
+
+  export const rubricSchema = z.object({
+    criteria: z.array(rubricCriterionSchema).min(1).max(50),
+    totalPoints: z.number().int().positive().optional(),
+    passingThreshold: z.number().int().min(0).max(100).optional()
+  });
+
+  // Providers that can be saved in a model chain or pass list. The mock provider
+  // is only reachable through AI_PROVIDER=mock, which production refuses.
+  export const aiProviderSchema = z.enum(['gemini', 'openai', 'anthropic', 'local']);
+
+  export const gradingConfigSchema = z.object({
+    mode: z.enum(['single', 'multi_pass']).default('single'),
+    passes: z.number().int().min(2).max(5).optional(),
+    providers: z.array(aiProviderSchema).min(1).optional(),
+    disagreementThreshold: z.number().min(0).max(1).optional()
+  });
+
+  export const autograderConfigSchema = z.object({
+    language: z.enum(['python', 'javascript']),
+    testCode: z.string().min(1).max(200_000),
+    entryFile: z.string().regex(/^[\w.-]+$/, 'Entry file must be a plain file name').optional(),
+    criterionId: z.string().optional(),
+    timeoutSeconds: z.number().int().min(1).max(120).optional()
+  });
+
+  export const aiModelConfigSchema = z.object({
+    chain: z.array(z.object({
+      provider: aiProviderSchema,
+      model: z.string().regex(/^[\w.:\/-]+$/, 'Model name contains invalid characters').max(100).optional()
+    })).min(1).max(5),
+    timeoutSeconds: z.number().int().min(10).max(600).optional()
+  });
+
+  export const submissionPolicySchema = z.object({
+    maxAttempts: z.number().int().min(1).max(100).optional(),
+    gracePeriodMinutes: z.number().int().min(0).max(10080).optional(),
+    allowLate: z.boolean().optional(),
+    latePenaltyPercentPerDay: z.number().min(0).max(100).optional(),
+    lateCutoffDays: z.number().int().min(1).max(365).optional(),
+    countedAttempt: z.enum(['latest', 'best']).optional()
+  });
+
+  export const insertGradingPassSchema = z.object({
+    submissionId: z.number(),
+    feedbackId: z.number().nullable(),
+    passNumber: z.number(),
+    provider: z.string(),
+    modelName: z.string().nullable(),
+    seed: z.number().nullable(),
+    score: z.number().nullable(),
+    criteriaScores: z.any().nullable(),
+    summary: z.string().nullable(),
+    rawResponse: z.any().nullable(),
+    tokenCount: z.number().nullable(),
+    processingTime: z.number()
   });
   
+  export const insertSubmissionFileSchema = z.object({
+    submissionId: z.number(),
+    path: z.string(),
+    fileUrl: z.string(),
+    mimeType: z.string(),
+    fileSize: z.number(),
+    contentType: z.enum(['text', 'image', 'audio', 'video', 'document', 'notebook'])
+  });
+  
+  export const insertEmailNotificationSchema = z.object({
+    userId: z.number(),
+    type: z.enum(['feedback_ready', 'assignment_opening', 'assignment_due_soon', 'submission_failed']),
+    toAddress: z.string().email(),
+    subject: z.string(),
+    textBody: z.string(),
+    htmlBody: z.string(),
+    dedupeKey: z.string()
+  });
+
+  export const insertSubmissionSimilaritySchema = z.object({
+    assignmentId: z.number(),
+    submissionAId: z.number(),
+    submissionBId: z.number(),
+    kind: z.enum(['text', 'code']),
+    score: z.number().int().min(0).max(100),
+    sharedFingerprints: z.number().int().min(0)
+  });
+
+  export const insertSubmissionWritingSignalSchema = z.object({
+    submissionId: z.number(),
+    assignmentId: z.number(),
+    userId: z.number(),
+    level: z.enum(['insufficient_text', 'low', 'moderate', 'high']),
+    stats: z.any().nullable(),
+    signals: z.array(z.object({
+      id: z.enum(['low_burstiness', 'elevated_vocabulary', 'stock_phrases', 'baseline_drift']),
+      weight: z.number(),
+      detail: z.string()
+    })),
+    baselineSubmissions: z.number().int().min(0)
+  });
+
+  export const insertRubricTemplateSchema = z.object({
+    name: z.string().min(1).max(200),
+    description: z.string().max(2000).nullable().optional(),
+    scope: z.enum(['personal', 'course', 'institution']),
+    ownerId: z.number(),
+    courseId: z.number().nullable().optional()
+  });
+
+  export const insertNotificationSchema = z.object({
+    userId: z.number(),
+    type: z.enum(['feedback_ready', 'submission_failed', 'assignment_status', 'lms_sync_failed', 'data_request_status', 'rubric_error']),
+    title: z.string(),
+    message: z.string(),
+    link: z.string().nullable().optional(),
+    metadata: z.record(z.unknown()).nullable().optional()
+  });
+
   // Additional schemas for missing types
   export const insertSystemSettingSchema = z.object({
     key: z.string(),
-    value: z.string(),
-    lms: z.boolean().default(false),
-    storage: z.boolean().default(false),
-    security: z.boolean().default(false)
+    value: z.record(z.unknown()),
+    description: z.string().nullable().optional(),
+    updatedBy: z.number().nullable().optional(),
+    lms: z.record(z.unknown()).nullable().optional(),
+    storage: z.record(z.unknown()).nullable().optional(),
+    security: z.record(z.unknown()).nullable().optional()
   });
   
   export const insertFileTypeSettingSchema = z.object({
@@ -497,6 +1315,7 @@
     clientId: z.string(),
     clientSecret: z.string(),
     baseUrl: z.string(),
+    refreshToken: z.string().nullable().optional(),
     isActive: z.boolean().default(true)
   });
   
@@ -517,6 +1336,17 @@
     isActive: z.boolean().default(true)
   });
 
+  export const insertLtiPlatformSchema = z.object({
+    name: z.string().min(1),
+    issuer: z.string().url(),
+    clientId: z.string().min(1),
+    deploymentId: z.string().min(1).nullable().optional(),
+    authLoginUrl: z.string().url(),
+    authTokenUrl: z.string().url(),
+    jwksUrl: z.string().url(),
+    active: z.boolean().default(true)
+  });
+
   // Types (Consolidated)
   export type User = typeof users.$inferSelect;
   export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -526,15 +1356,37 @@
 
   export type Enrollment = typeof enrollments.$inferSelect;
   export type InsertEnrollment = z.infer<typeof insertEnrollmentSchema>;
+  export type CourseStaff = typeof courseStaff.$inferSelect;
+  export type InsertCourseStaff = z.infer<typeof insertCourseStaffSchema>;
+  export type CourseStaffRole = CourseStaff['role'];
+  export type CourseInvitation = typeof courseInvitations.$inferSelect;
+  export type InsertCourseInvitation = z.infer<typeof insertCourseInvitationSchema>;
+  export type CourseJoinCode = typeof courseJoinCodes.$inferSelect;
+  export type InsertCourseJoinCode = z.infer<typeof insertCourseJoinCodeSchema>;
+  export type EnrollmentRequest = typeof enrollmentRequests.$inferSelect;
+  export type InsertEnrollmentRequest = z.infer<typeof insertEnrollmentRequestSchema>;
 
   export type Assignment = typeof assignments.$inferSelect;
   export type InsertAssignment = z.infer<typeof insertAssignmentSchema>;
+  export type AssignmentExtension = typeof assignmentExtensions.$inferSelect;
+  export type InsertAssignmentExtension = z.infer<typeof insertAssignmentExtensionSchema>;
 
   export type Submission = typeof submissions.$inferSelect;
   export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
+  export type GuestSubmitter = typeof guestSubmitters.$inferSelect;
+  export type InsertGuestSubmitter = z.infer<typeof insertGuestSubmitterSchema>;
+  export type PendingGuestSubmitter = typeof pendingGuestSubmitters.$inferSelect;
+  export type GuestAccessToken = typeof guestAccessTokens.$inferSelect;
 
   export type Feedback = typeof feedback.$inferSelect;
   export type InsertFeedback = z.infer<typeof insertFeedbackSchema>;
+  export type FeedbackEdit = z.infer<typeof feedbackEditSchema>;
+
+  export type GradingPass = typeof gradingPasses.$inferSelect;
+  export type InsertGradingPass = z.infer<typeof insertGradingPassSchema>;
+
+  export type SubmissionFile = typeof submissionFiles.$inferSelect;
+  export type InsertSubmissionFile = z.infer<typeof insertSubmissionFileSchema>;
 
   export type SystemSetting = typeof systemSettings.$inferSelect;
   export type InsertSystemSetting = z.infer<typeof insertSystemSettingSchema>;
@@ -543,6 +1395,18 @@
   export type InsertFileTypeSetting = z.infer<typeof insertFileTypeSettingSchema>; // From HEAD
 
   export type UserNotificationSetting = typeof userNotificationSettings.$inferSelect; // From HEAD
+  export type EmailNotification = typeof emailNotifications.$inferSelect;
+  export type InsertEmailNotification = z.infer<typeof insertEmailNotificationSchema>;
+  export type SubmissionFingerprint = typeof submissionFingerprints.$inferSelect;
+  export type SubmissionSimilarity = typeof submissionSimilarities.$inferSelect;
+  export type InsertSubmissionSimilarity = z.infer<typeof insertSubmissionSimilaritySchema>;
+  export type SubmissionWritingSignal = typeof submissionWritingSignals.$inferSelect;
+  export type InsertSubmissionWritingSignal = z.infer<typeof insertSubmissionWritingSignalSchema>;
+  export type RubricTemplate = typeof rubricTemplates.$inferSelect;
+  export type InsertRubricTemplate = z.infer<typeof insertRubricTemplateSchema>;
+  export type RubricTemplateVersion = typeof rubricTemplateVersions.$inferSelect;
+  export type Notification = typeof notifications.$inferSelect;
+  export type InsertNotification = z.infer<typeof insertNotificationSchema>;
   export type InsertUserNotificationSetting = z.infer<typeof insertUserNotificationSettingSchema>; // From HEAD
 
   export type NewsletterSubscriber = typeof newsletterSubscribers.$inferSelect; // From main
@@ -557,6 +1421,13 @@
   export type LmsCourseMapping = typeof lmsCourseMappings.$inferSelect; // From main
   export type InsertLmsCourseMapping = z.infer<typeof insertLmsCourseMappingSchema>; // From main
 
+  export type LtiPlatform = typeof ltiPlatforms.$inferSelect;
+  export type InsertLtiPlatform = z.infer<typeof insertLtiPlatformSchema>;
+  export type LtiLaunchState = typeof ltiLaunchStates.$inferSelect;
+  export type LtiUserLink = typeof ltiUserLinks.$inferSelect;
+  export type LtiContext = typeof ltiContexts.$inferSelect;
+  export type LtiResourceLink = typeof ltiResourceLinks.$inferSelect;
+
   // ============================================
   // DATA PROTECTION AND PRIVACY TABLES
   // ============================================
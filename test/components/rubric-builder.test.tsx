@@ -6,8 +6,15 @@ import React from 'react';
 
 // Mock Lucide icons
 vi.mock('lucide-react', () => ({
+  Layers: () => <div data-testid="layers-icon" />,
   PlusCircle: () => <div data-testid="plus-circle-icon" />,
-  Trash2: () => <div data-testid="trash-icon" />
+  Trash2: () => <div data-testid="trash-icon" />,
+  X: () => <div data-testid="x-icon" />
+}));
+
+// The template library fetches from the API and is tested on its own
+vi.mock('../../client/src/components/instructor/rubric-library', () => ({
+  RubricLibrary: () => null
 }));
 
 describe('RubricBuilder Component', () => {
@@ -239,4 +246,57 @@ describe('RubricBuilder Component', () => {
     // Check that empty state message is displayed
     expect(screen.getByText('No criteria defined yet. Add your first criterion to get started.')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should add default performance levels scaled to the criterion max score', () => {
+    const setRubric = vi.fn();
+
+    render(
+      <RubricBuilder
+        rubric={mockRubric}
+        setRubric={setRubric}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Add performance levels'));
+
+    const updatedRubric = setRubric.mock.calls[0][0](mockRubric);
+    expect(updatedRubric.criteria[0].levels).toHaveLength(4);
+    expect(updatedRubric.criteria[0].levels[0]).toMatchObject({ name: 'Exemplary', minScore: 90, maxScore: 100 });
+    expect(updatedRubric.criteria[0].levels[3]).toMatchObject({ name: 'Beginning', minScore: 0, maxScore: 50 });
+  });
+
+  it('should edit, remove and clear performance levels', () => {
+    const setRubric = vi.fn();
+    const analyticRubric: Rubric = {
+      ...mockRubric,
+      criteria: [{
+        ...mockRubric.criteria[0],
+        levels: [
+          { name: 'Proficient', description: 'Meets expectations', minScore: 75, maxScore: 100 },
+          { name: 'Beginning', description: 'Not yet', minScore: 0, maxScore: 75 }
+        ]
+      }]
+    };
+
+    render(
+      <RubricBuilder
+        rubric={analyticRubric}
+        setRubric={setRubric}
+      />
+    );
+
+    expect(screen.getByText('Performance Levels')).toBeTruthy();
+    expect(screen.getAllByLabelText('Level name')).toHaveLength(2);
+
+    // Points are stored as numbers
+    fireEvent.change(screen.getAllByLabelText('Minimum points')[0], { target: { value: '80' } });
+    expect(setRubric.mock.calls[0][0](analyticRubric).criteria[0].levels[0]).toMatchObject({ name: 'Proficient', minScore: 80 });
+
+    fireEvent.click(screen.getAllByLabelText('Remove level')[1]);
+    expect(setRubric.mock.calls[1][0](analyticRubric).criteria[0].levels).toEqual([analyticRubric.criteria[0].levels![0]]);
+
+    // Removing every level turns the criterion back into a holistic one
+    fireEvent.click(screen.getByText('Remove performance levels'));
+    expect(setRubric.mock.calls[2][0](analyticRubric).criteria[0]).not.toHaveProperty('levels');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const adapters: Record<string, { generateCompletion: ReturnType<typeof vi.fn>; generateMultimodalCompletion?: ReturnType<typeof vi.fn> }> = {};
+
+vi.mock('../../server/adapters/adapter-factory', () => ({
+  aiAdapterFactory: {
+    getPinnedProvider: vi.fn((): string | undefined => undefined),
+    getDefaultProvider: vi.fn(() => 'gemini'),
+    getConfiguredProviders: vi.fn(() => ['gemini', 'anthropic']),
+    supportsMultimodal: vi.fn((provider: string) => provider !== 'openai'),
+    createAdapter: vi.fn((provider: string, model?: string) => {
+      const adapter = adapters[model ? `${provider}/${model}` : provider];
+      if (!adapter) throw new Error(`${provider} API key is required`);
+      return adapter;
+    })
+  }
+}));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getSystemSetting: vi.fn()
+  }
+}));
+
+import { FallbackAdapter } from '../../server/adapters/fallback-adapter';
+import { resolveAIModelConfig, courseAIModelKey, SYSTEM_AI_MODEL_KEY } from '../../server/services/ai-model-selection';
+import { storage } from '../../server/storage';
+import { aiAdapterFactory } from '../../server/adapters/adapter-factory';
+import { aiModelConfigSchema, gradingConfigSchema } from '../../shared/schema';
+
+function response(modelName: string) {
+  return {
+    strengths: [],
+    improvements: [],
+    suggestions: [],
+    summary: `Graded by ${modelName}`,
+    score: 80,
+    rawResponse: {},
+    modelName,
+    tokenCount: 10
+  };
+}
+
+describe('FallbackAdapter', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(adapters)) delete adapters[key];
+  });
+
+  it('uses the primary model when it answers', async () => {
+    adapters['gemini/gemini-2.5-pro'] = { generateCompletion: vi.fn().mockResolvedValue(response('gemini-2.5-pro')) };
+    adapters['openai'] = { generateCompletion: vi.fn() };
+
+    const adapter = new FallbackAdapter({ chain: [{ provider: 'gemini', model: 'gemini-2.5-pro' }, { provider: 'openai' }] });
+    const result = await adapter.generateCompletion('Grade this', 'system', { seed: 2 });
+
+    expect(result.modelName).toBe('gemini-2.5-pro');
+    expect(adapters['gemini/gemini-2.5-pro'].generateCompletion).toHaveBeenCalledWith('Grade this', 'system', { seed: 2 });
+    expect(adapters['openai'].generateCompletion).not.toHaveBeenCalled();
+  });
+
+  it('falls back down the chain on errors, missing keys and timeouts', async () => {
+    vi.useFakeTimers();
+    try {
+      adapters['gemini'] = { generateCompletion: vi.fn().mockRejectedValue(new Error('503 overloaded')) };
+      adapters['anthropic'] = { generateCompletion: vi.fn(() => new Promise(() => {})) };
+      adapters['openai'] = { generateCompletion: vi.fn().mockResolvedValue(response('gpt')) };
+
+      const adapter = new FallbackAdapter({
+        chain: [{ provider: 'gemini' }, { provider: 'anthropic' }, { provider: 'gemini', model: 'no-key' }, { provider: 'openai' }],
+        timeoutSeconds: 10
+      });
+      const pending = adapter.generateCompletion('Grade this');
+      await vi.advanceTimersByTimeAsync(10_000);
+
+      expect((await pending).modelName).toBe('gpt');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('drops partial feedback from attempts that timed out', async () => {
+    vi.useFakeTimers();
+    try {
+      let lateReport: ((feedback: { summary: string }) => void) | undefined;
+      adapters['gemini'] = {
+        generateCompletion: vi.fn((_prompt, _system, options) => {
+          options.onPartial({ summary: 'First draft' });
+          lateReport = options.onPartial;
+          return new Promise(() => {});
+        })
+      };
+      adapters['openai'] = { generateCompletion: vi.fn().mockResolvedValue(response('gpt')) };
+
+      const onPartial = vi.fn();
+      const adapter = new FallbackAdapter({ chain: [{ provider: 'gemini' }, { provider: 'openai' }], timeoutSeconds: 10 });
+      const pending = adapter.generateCompletion('Grade this', undefined, { onPartial });
+      await vi.advanceTimersByTimeAsync(10_000);
+      await pending;
+      lateReport!({ summary: 'Stale' });
+
+      expect(onPartial.mock.calls).toEqual([[{ summary: 'First draft' }]]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports every failure when the whole chain fails', async () => {
+    adapters['gemini'] = { generateCompletion: vi.fn().mockRejectedValue(new Error('quota exceeded')) };
+
+    const adapter = new FallbackAdapter({ chain: [{ provider: 'gemini' }, { provider: 'openai' }] });
+
+    await expect(adapter.generateCompletion('Grade this')).rejects.toThrow(
+      'All AI models failed (gemini: quota exceeded; openai: openai API key is required)'
+    );
+  });
+
+  it('only offers multimodal grading through providers that read files', async () => {
+    adapters['openai'] = { generateCompletion: vi.fn() };
+    adapters['anthropic'] = {
+      generateCompletion: vi.fn(),
+      generateMultimodalCompletion: vi.fn().mockResolvedValue(response('claude'))
+    };
+
+    expect(new FallbackAdapter({ chain: [{ provider: 'openai' }] }).generateMultimodalCompletion).toBeUndefined();
+
+    const adapter = new FallbackAdapter({ chain: [{ provider: 'openai' }, { provider: 'anthropic' }] });
+    const result = await adapter.generateMultimodalCompletion!([{ type: 'image', content: Buffer.from('png'), mimeType: 'image/png' }]);
+
+    expect(result.modelName).toBe('claude');
+    expect(adapters['openai'].generateCompletion).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveAIModelConfig', () => {
+  const settings: Record<string, unknown> = {};
+
+  beforeEach(() => {
+    for (const key of Object.keys(settings)) delete settings[key];
+    vi.mocked(storage.getSystemSetting).mockImplementation(async (key: string) =>
+      settings[key] ? { key, value: settings[key] } as any : undefined
+    );
+  });
+
+  it('prefers the assignment, then the course, then the system default', async () => {
+    settings[SYSTEM_AI_MODEL_KEY] = { chain: [{ provider: 'openai' }] };
+    settings[courseAIModelKey(7)] = { chain: [{ provider: 'anthropic' }] };
+
+    const own = { courseId: 7, aiModel: { chain: [{ provider: 'gemini' as const, model: 'gemini-2.5-pro' }] } };
+    expect(await resolveAIModelConfig(own)).toEqual({ config: own.aiModel, source: 'assignment' });
+    expect(await resolveAIModelConfig({ courseId: 7, aiModel: null })).toEqual({
+      config: { chain: [{ provider: 'anthropic' }] },
+      source: 'course'
+    });
+    expect(await resolveAIModelConfig({ courseId: 8, aiModel: null })).toEqual({
+      config: { chain: [{ provider: 'openai' }] },
+      source: 'system'
+    });
+  });
+
+  it('ignores malformed settings and falls back to the configured providers', async () => {
+    settings[SYSTEM_AI_MODEL_KEY] = { chain: [{ provider: 'unknown' }] };
+
+    expect(await resolveAIModelConfig()).toEqual({
+      config: { chain: [{ provider: 'gemini' }, { provider: 'anthropic' }] },
+      source: 'environment'
+    });
+  });
+
+  it('never accepts the mock provider in a saved chain or pass list', async () => {
+    expect(aiModelConfigSchema.safeParse({ chain: [{ provider: 'mock' }] }).success).toBe(false);
+    expect(gradingConfigSchema.safeParse({ mode: 'multi_pass', providers: ['mock'] }).success).toBe(false);
+
+    settings[SYSTEM_AI_MODEL_KEY] = { chain: [{ provider: 'mock' }] };
+    expect(await resolveAIModelConfig()).toEqual({
+      config: { chain: [{ provider: 'gemini' }, { provider: 'anthropic' }] },
+      source: 'environment'
+    });
+  });
+
+  it('keeps every stored chain on the AI_PROVIDER pin', async () => {
+    vi.mocked(aiAdapterFactory.getPinnedProvider).mockReturnValue('local');
+    try {
+      settings[courseAIModelKey(7)] = { chain: [{ provider: 'openai' }, { provider: 'local', model: 'llama3' }] };
+      settings[SYSTEM_AI_MODEL_KEY] = { chain: [{ provider: 'anthropic' }] };
+
+      expect(await resolveAIModelConfig({ courseId: 7, aiModel: null })).toEqual({
+        config: { chain: [{ provider: 'local', model: 'llama3' }] },
+        source: 'course'
+      });
+      await expect(resolveAIModelConfig({ courseId: 8, aiModel: null })).rejects.toThrow('pinned to local');
+      await expect(resolveAIModelConfig({ courseId: 7, aiModel: { chain: [{ provider: 'gemini' }] } }))
+        .rejects.toThrow('pinned to local');
+      expect(() => new FallbackAdapter({ chain: [{ provider: 'gemini' }, { provider: 'openai' }] }))
+        .toThrow('pinned to local');
+    } finally {
+      vi.mocked(aiAdapterFactory.getPinnedProvider).mockReturnValue(undefined);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const createMessage = vi.fn();
+
+vi.mock('@anthropic-ai/sdk', () => ({
+  default: vi.fn().mockImplementation(() => ({ messages: { create: createMessage } }))
+}));
+
+import { AnthropicAdapter } from '../../server/adapters/anthropic-adapter';
+import { aiAdapterFactory } from '../../server/adapters/adapter-factory';
+
+const grading = {
+  strengths: ['Clear structure'],
+  improvements: ['Handle empty input'],
+  suggestions: ['Add tests'],
+  summary: 'Solid work',
+  score: 82,
+  criteriaScores: [{ criteriaId: 'c1', score: 8, feedback: 'Good' }]
+};
+
+function toolResponse(input: unknown) {
+  return {
+    content: [{ type: 'tool_use', id: 'tool_1', name: 'submit_grading', input }],
+    stop_reason: 'tool_use',
+    usage: { input_tokens: 120, output_tokens: 30 }
+  };
+}
+
+describe('AnthropicAdapter', () => {
+  beforeEach(() => {
+    createMessage.mockReset();
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+  });
+
+  it('requires an API key', () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    expect(() => new AnthropicAdapter()).toThrow('Anthropic API key is required');
+  });
+
+  it('forces the grading tool and returns the validated feedback', async () => {
+    createMessage.mockResolvedValue(toolResponse(grading));
+
+    const result = await new AnthropicAdapter().generateCompletion('Grade this essay', 'You are a grader');
+
+    const request = createMessage.mock.calls[0][0];
+    expect(request.system).toBe('You are a grader');
+    expect(request.tool_choice).toEqual({ type: 'tool', name: 'submit_grading' });
+    expect(request.tools[0].input_schema).toMatchObject({ type: 'object' });
+    expect(request.tools[0].input_schema).not.toHaveProperty('$schema');
+    expect(result).toMatchObject({ ...grading, tokenCount: 150, rawResponse: grading });
+  });
+
+  it('sends images and PDFs as native content blocks', async () => {
+    createMessage.mockResolvedValue(toolResponse(grading));
+
+    await new AnthropicAdapter().generateMultimodalCompletion([
+      { type: 'text', content: 'Grade the attached work' },
+      { type: 'image', content: Buffer.from('png-bytes'), mimeType: 'image/png' },
+      { type: 'document', content: 'data:application/pdf;base64,JVBERi0=', mimeType: 'application/pdf' },
+      { type: 'document', content: Buffer.from('docx'), mimeType: 'application/msword', textContent: 'Extracted text' }
+    ]);
+
+    expect(createMessage.mock.calls[0][0].messages[0].content).toEqual([
+      { type: 'text', text: 'Grade the attached work' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: Buffer.from('png-bytes').toString('base64') } },
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' } },
+      { type: 'text', text: 'Extracted text' }
+    ]);
+  });
+
+  it('rejects responses that do not match the grading schema', async () => {
+    createMessage.mockResolvedValue(toolResponse({ summary: 'Missing fields' }));
+
+    await expect(new AnthropicAdapter().generateCompletion('Grade this')).rejects.toThrow('Failed to validate Claude response');
+  });
+
+  it('is chosen by the adapter factory when it is the only configured provider', () => {
+    const saved = { gemini: process.env.GEMINI_API_KEY, openai: process.env.OPENAI_API_KEY };
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      expect(aiAdapterFactory.getDefaultProvider()).toBe('anthropic');
+      expect(aiAdapterFactory.createAdapter('anthropic')).toBeInstanceOf(AnthropicAdapter);
+    } finally {
+      if (saved.gemini !== undefined) process.env.GEMINI_API_KEY = saved.gemini;
+      if (saved.openai !== undefined) process.env.OPENAI_API_KEY = saved.openai;
+    }
+  });
+});
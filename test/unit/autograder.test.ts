@@ -0,0 +1,268 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    listSubmissionFiles: vi.fn().mockResolvedValue([])
+  }
+}));
+
+import { autograder, applyTestScore, isSandboxAvailable, withTestResultsContext } from '../../server/services/autograder-service';
+import type { AutograderResult, Rubric } from '../../shared/schema';
+
+const PYTHON_TESTS = `
+import unittest
+from solution import add
+
+def test_adds_positive_numbers():
+    assert add(2, 3) == 5
+
+def test_adds_negative_numbers():
+    assert add(-2, -3) == -5, "negative numbers"
+
+class AddTests(unittest.TestCase):
+    def test_zero(self):
+        self.assertEqual(add(0, 0), 0)
+`;
+
+const FORGED_RESULTS = '{"tests": [{"name": "test_adds", "passed": true}]}';
+
+const rubric: Rubric = {
+  criteria: [
+    { id: 'style', type: 'code_quality', name: 'Style', description: '', maxScore: 10, weight: 50 },
+    { id: 'works', type: 'functionality', name: 'Works', description: '', maxScore: 20, weight: 50 }
+  ]
+};
+
+function results(passed: number, total: number): AutograderResult {
+  return { status: passed === total ? 'passed' : 'failed', passed, total, tests: [], durationMs: 1 };
+}
+
+// Running code needs user namespaces; hosts without them only check scoring
+const itRuns = it.skipIf(!isSandboxAvailable());
+
+describe('autograder', () => {
+  itRuns('runs Python test functions and unittest cases against the solution', async () => {
+    const result = await autograder.runForCode('def add(a, b):\n    return a + b if a >= 0 else 0\n', {
+      language: 'python',
+      testCode: PYTHON_TESTS
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.passed).toBe(2);
+    expect(result.total).toBe(3);
+    expect(result.tests.map(test => test.name)).toEqual([
+      'test_adds_positive_numbers',
+      'test_adds_negative_numbers',
+      'AddTests.test_zero'
+    ]);
+    expect(result.tests[1]).toMatchObject({ passed: false, message: 'negative numbers' });
+  });
+
+  itRuns('runs JavaScript tests, including async ones', async () => {
+    const result = await autograder.runForCode('module.exports = { double: n => n * 2 };', {
+      language: 'javascript',
+      testCode: [
+        "const { double } = require('./solution');",
+        "test('doubles', () => assert.strictEqual(double(2), 4));",
+        "test('doubles later', async () => assert.strictEqual(await Promise.resolve(double(3)), 7));"
+      ].join('\n')
+    });
+
+    expect(result).toMatchObject({ status: 'failed', passed: 1, total: 2 });
+    expect(result.tests[1].message).toContain('6 !== 7');
+  });
+
+  itRuns('reports suites that fail to load and runs that hang', async () => {
+    const broken = await autograder.runForCode('', { language: 'python', testCode: 'from solution import missing' });
+    expect(broken.status).toBe('error');
+    expect(broken.error).toContain('Test suite failed to load: ImportError');
+
+    const hanging = await autograder.runForCode('while True:\n    pass\n', {
+      language: 'python',
+      testCode: 'import solution\ndef test_never_runs():\n    pass\n',
+      timeoutSeconds: 1
+    });
+    expect(hanging.status).toBe('timeout');
+  }, 15000);
+
+  itRuns('does not pass server secrets to the submission', async () => {
+    process.env.AUTOGRADER_TEST_SECRET = 'secret';
+    try {
+      const result = await autograder.runForCode('import os\nSECRET = os.environ.get("AUTOGRADER_TEST_SECRET")\n', {
+        language: 'python',
+        testCode: 'from solution import SECRET\ndef test_no_secret():\n    assert SECRET is None\n'
+      });
+      expect(result.status).toBe('passed');
+    } finally {
+      delete process.env.AUTOGRADER_TEST_SECRET;
+    }
+  });
+
+  itRuns('keeps the submission off the network, uploads, the server directory and the rest of the file system', async () => {
+    const uploads = fs.mkdtempSync(path.join(os.tmpdir(), 'autograder-upload-probe-'));
+    fs.writeFileSync(path.join(uploads, 'essay.txt'), 'another student');
+    try {
+      const result = await autograder.runForCode([
+        'import os, socket',
+        'def network_reachable():',
+        '    try:',
+        '        socket.create_connection(("1.1.1.1", 80), timeout=2)',
+        '    except OSError:',
+        '        return False',
+        '    return True',
+        'def can_write(path):',
+        '    try:',
+        '        open(path, "w").write("ok")',
+        '    except OSError:',
+        '        return False',
+        '    return True',
+        'def listing(path):',
+        '    try:',
+        '        return os.listdir(path)',
+        '    except OSError:',
+        '        return []'
+      ].join('\n'), {
+        language: 'python',
+        testCode: [
+          'import socket',
+          'from solution import network_reachable, can_write, listing',
+          'def test_no_network():',
+          '    assert not network_reachable()',
+          'def test_read_only_root():',
+          '    assert not can_write("/etc/autograder-probe")',
+          'def test_server_directory_hidden():',
+          `    assert listing(${JSON.stringify(process.cwd())}) == []`,
+          'def test_uploads_hidden():',
+          `    assert listing(${JSON.stringify(uploads)}) == []`,
+          'def test_workspace_writable():',
+          '    assert can_write("scratch.txt")',
+          'def test_runner_has_no_network():',
+          '    try:',
+          '        socket.create_connection(("1.1.1.1", 80), timeout=2)',
+          '    except OSError:',
+          '        return',
+          '    raise AssertionError("network reachable")'
+        ].join('\n')
+      });
+
+      expect(result.tests.filter(test => !test.passed)).toEqual([]);
+      expect(result).toMatchObject({ status: 'passed', passed: 6, total: 6 });
+    } finally {
+      fs.rmSync(uploads, { recursive: true, force: true });
+    }
+  });
+
+  itRuns('ignores results a Python submission forges from inside a test', async () => {
+    const result = await autograder.runForCode([
+      'import os, sys',
+      `FORGED = ${JSON.stringify(FORGED_RESULTS + '\n')}.encode()`,
+      'def add(a, b):',
+      '    # Nothing in the calling frames leads to the runner',
+      '    frame = sys._getframe()',
+      '    while frame:',
+      '        frame = frame.f_back',
+      '    for fd in range(1, 10):',
+      '        try:',
+      '            os.write(fd, FORGED)',
+      '        except OSError:',
+      '            pass',
+      '    os._exit(0)'
+    ].join('\n'), {
+      language: 'python',
+      testCode: 'from solution import add\ndef test_adds():\n    assert add(2, 3) == 5\n'
+    });
+
+    expect(result).toMatchObject({ status: 'failed', passed: 0, total: 1 });
+  });
+
+  itRuns('ignores results a JavaScript submission forges by replacing fs.writeSync', async () => {
+    const result = await autograder.runForCode([
+      "const fs = require('fs');",
+      'const writeSync = fs.writeSync;',
+      `const FORGED = ${JSON.stringify(FORGED_RESULTS + '\n')};`,
+      'fs.writeSync = () => 0;',
+      'module.exports = {',
+      '  add() {',
+      '    for (let fd = 1; fd < 10; fd++) {',
+      '      try { writeSync(fd, FORGED); } catch {}',
+      '    }',
+      '    process.exit(0);',
+      '  }',
+      '};'
+    ].join('\n'), {
+      language: 'javascript',
+      testCode: "const { add } = require('./solution');\ntest('adds', () => assert.strictEqual(add(2, 3), 5));"
+    });
+
+    expect(result).toMatchObject({ status: 'failed', passed: 0, total: 1 });
+  });
+
+  itRuns('passes plain values, objects and errors between the tests and the submission', async () => {
+    const result = await autograder.runForCode([
+      'class Stack:',
+      '    def __init__(self):',
+      '        self.items = []',
+      '    def push(self, item):',
+      '        self.items.append(item)',
+      '    def __len__(self):',
+      '        return len(self.items)',
+      'def pairs(values):',
+      '    return {value: (value, value * 2) for value in values}',
+      'def check(value):',
+      '    if value < 0:',
+      '        raise ValueError("negative")',
+      '    return value'
+    ].join('\n'), {
+      language: 'python',
+      testCode: [
+        'import unittest',
+        'from solution import Stack, pairs, check',
+        'def test_objects_stay_in_the_submission():',
+        '    stack = Stack()',
+        '    stack.push(1)',
+        '    stack.push(2)',
+        '    assert len(stack) == 2 and stack.items == [1, 2]',
+        'def test_values_are_copied():',
+        '    assert pairs({1, 2}) == {1: (1, 2), 2: (2, 4)}',
+        'class CheckTests(unittest.TestCase):',
+        '    def test_errors_keep_their_type(self):',
+        '        with self.assertRaises(ValueError):',
+        '            check(-1)'
+      ].join('\n')
+    });
+
+    expect(result.tests.filter(test => !test.passed)).toEqual([]);
+    expect(result).toMatchObject({ status: 'passed', passed: 3, total: 3 });
+  });
+
+  it('scores the functionality criterion from the pass rate and recomputes the total', () => {
+    const feedback = applyTestScore(
+      { score: 90, criteriaScores: [{ criteriaId: 'style', score: 8, feedback: 'Tidy' }, { criteriaId: 'works', score: 20, feedback: 'Looks right' }] },
+      results(1, 4),
+      rubric,
+      { language: 'python', testCode: '' }
+    );
+
+    expect(feedback.criteriaScores[1]).toEqual({ criteriaId: 'works', score: 5, feedback: 'Automated tests: 1/4 passed. Looks right' });
+    expect(feedback.score).toBe(53);
+  });
+
+  it('leaves feedback alone when no criterion is tested', () => {
+    const feedback = { score: 70, criteriaScores: [] };
+    expect(applyTestScore(feedback, results(0, 2), rubric, { language: 'python', testCode: '', criterionId: 'nope' })).toBe(feedback);
+  });
+
+  it('adds the results to the instructor-only context', () => {
+    const context = withTestResultsContext({ content: 'Check edge cases' }, {
+      ...results(1, 2),
+      tests: [{ name: 'test_a', passed: true }, { name: 'test_b', passed: false, message: 'expected 3' }]
+    });
+    expect(context.content).toContain('Check edge cases');
+    expect(context.content).toContain('1/2 tests passed');
+    expect(context.content).toContain('- FAIL test_b: expected 3');
+  });
+});
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../server/db', () => ({ db: {} }));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getCourse: vi.fn(),
+    getSystemSetting: vi.fn(),
+    getCourseJoinCodeByCode: vi.fn(),
+    createCourseJoinCode: vi.fn(),
+    incrementCourseJoinCodeUses: vi.fn(),
+    getEnrollment: vi.fn(),
+    createEnrollment: vi.fn(),
+    getEnrollmentRequest: vi.fn(),
+    upsertEnrollmentRequest: vi.fn(),
+    decideEnrollmentRequest: vi.fn(),
+    listPendingEnrollmentRequests: vi.fn()
+  }
+}));
+
+import { emailDomainAllowed, generateJoinCode, normalizeJoinCode, parseAllowedDomains } from '../../server/utils/join-codes';
+import { CourseJoinService } from '../../server/services/course-join-service';
+import { storage } from '../../server/storage';
+import type { User } from '../../shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const student = { id: 5, role: 'student', email: 'ada@cs.mit.edu', emailVerified: true } as User;
+const instructor = { id: 7, role: 'instructor', email: 'tim@mit.edu' } as User;
+
+function joinCode(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    courseId: 3,
+    code: 'K7QM4XPA',
+    expiresAt: new Date(Date.now() + DAY_MS),
+    requireApproval: false,
+    restrictToAllowedDomains: false,
+    uses: 0,
+    revokedAt: null,
+    ...overrides
+  } as any;
+}
+
+describe('join code helpers', () => {
+  it('generates readable codes and normalizes typed ones', () => {
+    expect(generateJoinCode()).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+    expect(normalizeJoinCode(' k7qm-4xpa ')).toBe('K7QM4XPA');
+  });
+
+  it('matches emails against the allowed domain settings', () => {
+    const patterns = parseAllowedDomains('*.edu\n@example.org, ');
+
+    expect(patterns).toEqual(['*.edu', 'example.org']);
+    expect(emailDomainAllowed('ada@cs.mit.edu', patterns)).toBe(true);
+    expect(emailDomainAllowed('bo@example.org', patterns)).toBe(true);
+    expect(emailDomainAllowed('cy@mail.example.org', patterns)).toBe(false);
+    expect(emailDomainAllowed('dee@gmail.com', patterns)).toBe(false);
+    expect(emailDomainAllowed('not-an-email', ['*'])).toBe(false);
+  });
+});
+
+describe('CourseJoinService', () => {
+  const service = new CourseJoinService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getCourse).mockResolvedValue({ id: 3, name: 'Intro to AI', code: 'AI101' } as any);
+    vi.mocked(storage.getEnrollment).mockResolvedValue(undefined);
+    vi.mocked(storage.getEnrollmentRequest).mockResolvedValue(undefined);
+    vi.mocked(storage.getSystemSetting).mockResolvedValue({ key: 'security', value: { allowedDomains: 'mit.edu\n*.mit.edu' } } as any);
+  });
+
+  it('enrolls a student with an open code', async () => {
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValue(joinCode());
+
+    expect(await service.redeem('k7qm4xpa', student)).toEqual({ courseId: 3, courseName: 'Intro to AI', status: 'enrolled' });
+    expect(storage.getCourseJoinCodeByCode).toHaveBeenCalledWith('K7QM4XPA');
+    expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 5, courseId: 3 });
+    expect(storage.incrementCourseJoinCodeUses).toHaveBeenCalledWith(1);
+  });
+
+  it('refuses expired and revoked codes, other or unverified domains and staff accounts', async () => {
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValueOnce(joinCode({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(service.redeem('K7QM4XPA', student)).rejects.toThrow(/expired/);
+
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValueOnce(joinCode({ revokedAt: new Date() }));
+    await expect(service.redeem('K7QM4XPA', student)).rejects.toThrow(/not valid/);
+
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValueOnce(joinCode({ restrictToAllowedDomains: true }));
+    await expect(service.redeem('K7QM4XPA', { ...student, email: 'ada@gmail.com' })).rejects.toThrow(/domain/);
+
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValueOnce(joinCode({ restrictToAllowedDomains: true }));
+    await expect(service.redeem('K7QM4XPA', { ...student, emailVerified: false })).rejects.toThrow(/Verify your email/);
+
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValueOnce(joinCode());
+    await expect(service.redeem('K7QM4XPA', instructor)).rejects.toThrow(/student accounts/);
+
+    expect(storage.createEnrollment).not.toHaveBeenCalled();
+  });
+
+  it('queues students for approval and enrolls them once approved', async () => {
+    vi.mocked(storage.getCourseJoinCodeByCode).mockResolvedValue(joinCode({ requireApproval: true, restrictToAllowedDomains: true }));
+
+    expect((await service.redeem('K7QM4XPA', student)).status).toBe('pending');
+    expect(storage.upsertEnrollmentRequest).toHaveBeenCalledWith({ courseId: 3, userId: 5, joinCodeId: 1 });
+    expect(storage.createEnrollment).not.toHaveBeenCalled();
+
+    vi.mocked(storage.getEnrollmentRequest).mockResolvedValueOnce({ status: 'denied' } as any);
+    await expect(service.redeem('K7QM4XPA', student)).rejects.toThrow(/declined/);
+
+    vi.mocked(storage.decideEnrollmentRequest).mockResolvedValue({ id: 9, courseId: 3, userId: 5 } as any);
+    await service.decideRequest(3, 9, instructor, true);
+    expect(storage.decideEnrollmentRequest).toHaveBeenCalledWith(3, 9, 'approved', 7);
+    expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 5, courseId: 3 });
+  });
+
+  it('only restricts codes to domains when some are configured', async () => {
+    vi.mocked(storage.getSystemSetting).mockResolvedValue(undefined);
+
+    await expect(service.createJoinCode(3, instructor, { expiresInDays: 7, requireApproval: false, restrictToAllowedDomains: true }))
+      .rejects.toThrow(/No allowed email domains/);
+    expect(storage.createCourseJoinCode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getCourse: vi.fn(),
+    getAssignment: vi.fn(),
+    getSubmission: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getCourseStaffRole: vi.fn(),
+    listCourseStaff: vi.fn(),
+    upsertCourseStaff: vi.fn(),
+    removeCourseStaff: vi.fn()
+  }
+}));
+
+import { checkCourseAccess, hasCoursePermission, requireAssignmentAccess, requireSubmissionAccess } from '../../server/middleware/auth';
+import { CourseStaffService } from '../../server/services/course-staff-service';
+import { BadRequestError } from '../../server/lib/error-handler';
+import { storage } from '../../server/storage';
+import type { CourseStaffMember } from '../../server/storage';
+import type { User } from '../../shared/schema';
+
+const instructor = { id: 7, username: 'ana', email: 'ana@example.edu', role: 'instructor' } as User;
+
+function member(userId: number, role: CourseStaffMember['role'], fromEnrollment = false): CourseStaffMember {
+  return { userId, name: `User ${userId}`, email: `user${userId}@example.edu`, role, fromEnrollment, createdAt: new Date() };
+}
+
+describe('course staff authorization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('gives TAs view and grade rights only', () => {
+    expect(hasCoursePermission('ta', 'grade')).toBe(true);
+    expect(hasCoursePermission('ta', 'manage')).toBe(false);
+    expect(hasCoursePermission('instructor', 'manage')).toBe(true);
+    expect(hasCoursePermission('instructor', 'staff')).toBe(false);
+    expect(hasCoursePermission('owner', 'staff')).toBe(true);
+    expect(hasCoursePermission(undefined, 'view')).toBe(false);
+  });
+
+  it('checks the staff role of the course, letting admins through', async () => {
+    vi.mocked(storage.getCourseStaffRole).mockResolvedValueOnce(undefined).mockResolvedValueOnce('ta');
+
+    expect(await checkCourseAccess(instructor, 3, 'view')).toBe(false);
+    expect(await checkCourseAccess({ ...instructor, role: 'student' }, 3, 'grade')).toBe(true);
+    expect(await checkCourseAccess({ ...instructor, role: 'admin' }, 3, 'staff')).toBe(true);
+    expect(storage.getCourseStaffRole).toHaveBeenCalledWith(7, 3);
+  });
+
+  it('leaves resources without a course to admins', async () => {
+    expect(await checkCourseAccess(instructor, null, 'view')).toBe(false);
+    expect(await checkCourseAccess({ ...instructor, role: 'admin' }, null, 'manage')).toBe(true);
+    expect(storage.getCourseStaffRole).not.toHaveBeenCalled();
+  });
+
+  it('rejects instructors who are not on the staff of the assignment\'s course', async () => {
+    vi.mocked(storage.getAssignment).mockResolvedValue({ id: 4, courseId: 3 } as any);
+    vi.mocked(storage.getCourseStaffRole).mockResolvedValue(undefined);
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const next = vi.fn();
+
+    await requireAssignmentAccess('manage')({ user: instructor, params: { id: '4' } } as any, res as any, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('lets submitters view their own submissions but not other students\' ones', async () => {
+    vi.mocked(storage.getSubmission).mockResolvedValue({ id: 12, assignmentId: 4, userId: 5 } as any);
+    vi.mocked(storage.getAssignment).mockResolvedValue({ id: 4, courseId: 3 } as any);
+    vi.mocked(storage.getCourseStaffRole).mockResolvedValue(undefined);
+    const middleware = requireSubmissionAccess('view', 'id', { allowSubmitter: true });
+    const student = (id: number) => ({ id, role: 'student' }) as any;
+
+    const next = vi.fn();
+    await middleware({ user: student(5), params: { id: '12' } } as any, {} as any, next);
+    expect(next).toHaveBeenCalledWith();
+
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+    const denied = vi.fn();
+    await middleware({ user: student(6), params: { id: '12' } } as any, res as any, denied);
+    expect(denied).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe('CourseStaffService', () => {
+  const service = new CourseStaffService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getCourse).mockResolvedValue({ id: 3 } as any);
+  });
+
+  it('adds staff by email', async () => {
+    vi.mocked(storage.getUserByEmail).mockResolvedValue({ id: 9 } as User);
+    vi.mocked(storage.listCourseStaff).mockResolvedValue([member(7, 'owner')]);
+
+    await service.addStaff(3, instructor, ' ta@example.edu ', 'ta');
+
+    expect(storage.getUserByEmail).toHaveBeenCalledWith('ta@example.edu');
+    expect(storage.upsertCourseStaff).toHaveBeenCalledWith({ courseId: 3, userId: 9, role: 'ta', addedBy: 7 });
+  });
+
+  it('keeps at least one owner', async () => {
+    vi.mocked(storage.listCourseStaff).mockResolvedValue([member(7, 'owner'), member(9, 'ta')]);
+
+    await expect(service.updateRole(3, instructor, 7, 'instructor')).rejects.toThrow(BadRequestError);
+    await expect(service.removeStaff(3, 7)).rejects.toThrow(/at least one owner/);
+    expect(storage.upsertCourseStaff).not.toHaveBeenCalled();
+    expect(storage.removeCourseStaff).not.toHaveBeenCalled();
+
+    await service.removeStaff(3, 9);
+    expect(storage.removeCourseStaff).toHaveBeenCalledWith(3, 9);
+  });
+
+  it('does not remove instructors who are staff through their enrollment', async () => {
+    vi.mocked(storage.listCourseStaff).mockResolvedValue([member(7, 'owner'), member(8, 'instructor', true)]);
+
+    await expect(service.removeStaff(3, 8)).rejects.toThrow(/enrollment/);
+  });
+});
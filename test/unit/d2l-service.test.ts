@@ -0,0 +1,270 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+const dbUpdateSet = vi.fn();
+const dbSelectWhere = vi.fn();
+
+vi.mock('../../server/db', () => ({
+  db: {
+    update: vi.fn(() => ({ set: (values: unknown) => { dbUpdateSet(values); return { where: vi.fn().mockResolvedValue(undefined) }; } })),
+    select: vi.fn(() => ({ from: () => ({ where: dbSelectWhere }) }))
+  }
+}));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    getUserByEmail: vi.fn(),
+    createUser: vi.fn(),
+    getEnrollment: vi.fn(),
+    createEnrollment: vi.fn(),
+    listAssignments: vi.fn(),
+    getAssignment: vi.fn(),
+    listSubmissionsWithFeedbackForAssignment: vi.fn(),
+    listAssignmentExtensions: vi.fn()
+  }
+}));
+
+import { D2LService } from '../../server/services/lms/d2l-service';
+import { lmsServiceFactory } from '../../server/services/lms/lms-service-factory';
+import { storage } from '../../server/storage';
+import type { LmsCredential } from '../../shared/schema';
+
+const LE = '/d2l/api/le/1.74';
+const LP = '/d2l/api/lp/1.43';
+
+let server: http.Server;
+let baseUrl: string;
+let requests: { method: string; path: string; body: string; auth?: string }[] = [];
+let tokenRequests: URLSearchParams[] = [];
+
+function json(res: http.ServerResponse, body: unknown, status = 200) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function makeCredential(overrides: Partial<LmsCredential> = {}): LmsCredential {
+  return {
+    id: 4,
+    provider: 'd2l',
+    name: 'Brightspace',
+    baseUrl,
+    clientId: 'client',
+    clientSecret: 'secret',
+    callbackUrl: 'http://localhost/callback',
+    refreshToken: 'refresh-1',
+    active: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: null,
+    ...overrides
+  };
+}
+
+describe('D2LService', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const url = req.url || '';
+
+        if (url === '/token') {
+          const params = new URLSearchParams(body);
+          tokenRequests.push(params);
+          if (params.get('client_secret') !== 'secret') {
+            return json(res, { error: 'invalid_client' }, 400);
+          }
+          return json(res, { access_token: `token-${tokenRequests.length}`, expires_in: 3600, refresh_token: 'refresh-2' });
+        }
+
+        requests.push({ method: req.method || 'GET', path: url, body, auth: req.headers.authorization });
+
+        if (url === `${LP}/users/whoami`) {
+          return json(res, { Identifier: '100', FirstName: 'API', LastName: 'User', UniqueName: 'apiuser' });
+        }
+        if (url.startsWith(`${LP}/enrollments/myenrollments/`)) {
+          const page2 = url.includes('bookmark=b1');
+          return json(res, {
+            PagingInfo: { Bookmark: 'b1', HasMoreItems: !page2 },
+            Items: [page2
+              ? { OrgUnit: { Id: 602, Name: 'Biology', Code: 'BIO1', Type: { Id: 3 } } }
+              : { OrgUnit: { Id: 601, Name: 'Chemistry', Code: 'CHEM1', Type: { Id: 3 } }, Access: { StartDate: '2025-01-06T00:00:00.000Z', EndDate: null } }]
+          });
+        }
+        if (url === `${LE}/601/classlist/`) {
+          return json(res, [
+            { Identifier: '11', DisplayName: 'Ada Lovelace', Email: 'Ada@Example.edu', OrgDefinedId: 'S11', ClasslistRoleDisplayName: 'Student' },
+            { Identifier: '12', DisplayName: 'Grace Hopper', Email: 'grace@example.edu', OrgDefinedId: null, ClasslistRoleDisplayName: 'Instructor' },
+            { Identifier: '13', DisplayName: 'Alan Turing', Email: 'alan@example.edu', OrgDefinedId: null, ClasslistRoleDisplayName: 'Learner' }
+          ]);
+        }
+        if (url === `${LE}/601/grades/`) {
+          return json(res, [
+            { Id: 31, Name: 'Lab Report', GradeType: 'Numeric', MaxPoints: 20 },
+            { Id: 32, Name: 'Participation', GradeType: 'PassFail' }
+          ]);
+        }
+        if (url === `${LE}/601/grades/31/values/`) {
+          return json(res, {
+            Next: `${baseUrl}${LE}/601/grades/31/values/?page=2`,
+            Objects: [{ User: { Identifier: '11', DisplayName: 'Ada' }, GradeValue: { PointsNumerator: 18, PointsDenominator: 20, Comments: { Text: 'Great', Html: '' }, LastModified: '2025-02-01T00:00:00.000Z' } }]
+          });
+        }
+        if (url === `${LE}/601/grades/31/values/?page=2`) {
+          return json(res, { Next: null, Objects: [{ User: { Identifier: '13', DisplayName: 'Alan' }, GradeValue: null }] });
+        }
+        if (req.method === 'PUT' && url.startsWith(`${LE}/601/grades/31/values/`)) {
+          res.statusCode = 200;
+          return res.end();
+        }
+
+        json(res, { error: 'not found' }, 404);
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.D2L_TOKEN_URL = `${baseUrl}/token`;
+  });
+
+  afterAll(async () => {
+    delete process.env.D2L_TOKEN_URL;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    requests = [];
+    tokenRequests = [];
+  });
+
+  it('is created by the LMS service factory', () => {
+    expect(lmsServiceFactory.createService(makeCredential())).toBeInstanceOf(D2LService);
+  });
+
+  describe('authentication', () => {
+    it('refreshes the token once and stores the rotated refresh token', async () => {
+      const service = new D2LService(makeCredential());
+
+      await service.getCourses();
+      await service.getStudentsInCourse('601');
+
+      expect(tokenRequests).toHaveLength(1);
+      expect(tokenRequests[0].get('grant_type')).toBe('refresh_token');
+      expect(tokenRequests[0].get('refresh_token')).toBe('refresh-1');
+      expect(requests.every(r => r.auth === 'Bearer token-1')).toBe(true);
+      expect(dbUpdateSet).toHaveBeenCalledWith(expect.objectContaining({ refreshToken: 'refresh-2' }));
+    });
+
+    it('uses the client credentials grant without a refresh token', async () => {
+      const service = new D2LService(makeCredential({ refreshToken: null }));
+      const result = await service.testConnection(makeCredential({ refreshToken: null }));
+
+      expect(result).toMatchObject({ success: true, details: { username: 'apiuser' } });
+      expect(tokenRequests[0].get('grant_type')).toBe('client_credentials');
+    });
+
+    it('reports a failed token request', async () => {
+      const service = new D2LService(makeCredential());
+      const result = await service.testConnection(makeCredential({ clientSecret: 'wrong' }));
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Failed to get access token: 400');
+    });
+  });
+
+  it('follows bookmarks when listing courses', async () => {
+    const courses = await new D2LService(makeCredential()).getCourses();
+
+    expect(courses.map(c => c.id)).toEqual(['601', '602']);
+    expect(courses[0]).toMatchObject({ name: 'Chemistry', code: 'CHEM1', startDate: new Date('2025-01-06T00:00:00.000Z') });
+  });
+
+  it('lists students and numeric grade objects', async () => {
+    const service = new D2LService(makeCredential());
+
+    const students = await service.getStudentsInCourse('601');
+    expect(students.map(s => s.id)).toEqual(['11', '13']);
+
+    const assignments = await service.getAssignmentsInCourse('601');
+    expect(assignments).toEqual([{ id: '31', title: 'Lab Report', description: '', points: 20 }]);
+  });
+
+  it('follows Next links when reading grade values and skips ungraded students', async () => {
+    const grades = await new D2LService(makeCredential()).getGradesForAssignment('601', '31');
+
+    expect(grades).toEqual([{
+      studentId: '11',
+      assignmentId: '31',
+      score: 18,
+      maxScore: 20,
+      comment: 'Great',
+      gradedAt: new Date('2025-02-01T00:00:00.000Z')
+    }]);
+  });
+
+  describe('syncRoster', () => {
+    it('enrolls existing users and provisions new students', async () => {
+      dbSelectWhere.mockResolvedValue([{ id: 1, courseId: 9, credentialId: 4, lmsCourseId: '601' }]);
+      vi.mocked(storage.getUserByEmail).mockImplementation(async email =>
+        email === 'ada@example.edu' ? { id: 21, email } as any : undefined);
+      vi.mocked(storage.createUser).mockResolvedValue({ id: 22, email: 'alan@example.edu' } as any);
+      vi.mocked(storage.getEnrollment).mockResolvedValue(undefined);
+
+      const result = await new D2LService(makeCredential()).syncRoster('601');
+
+      expect(result).toMatchObject({ success: true, syncedCount: 2, details: { enrolled: 2, usersCreated: 1 } });
+      expect(storage.createUser).toHaveBeenCalledWith(expect.objectContaining({ email: 'alan@example.edu', role: 'student', password: null }));
+      expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 21, courseId: 9 });
+      expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 22, courseId: 9 });
+    });
+
+    it('fails when the course is not mapped', async () => {
+      dbSelectWhere.mockResolvedValue([]);
+
+      const result = await new D2LService(makeCredential()).syncRoster('601');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('No local course is mapped');
+    });
+  });
+
+  describe('syncGrades', () => {
+    it('passes released feedback scores back scaled to the grade object maximum', async () => {
+      dbSelectWhere.mockResolvedValue([{ id: 1, courseId: 9, credentialId: 4, lmsCourseId: '601' }]);
+      vi.mocked(storage.listAssignments).mockResolvedValue([{ id: 50, title: 'lab report' } as any]);
+      vi.mocked(storage.getAssignment).mockResolvedValue({ id: 50, dueDate: new Date('2025-03-01'), submissionPolicy: null } as any);
+      vi.mocked(storage.listAssignmentExtensions).mockResolvedValue([]);
+      vi.mocked(storage.listSubmissionsWithFeedbackForAssignment).mockResolvedValue([
+        { id: 1, userId: 21, createdAt: new Date('2025-02-01'), feedback: { score: 70, summary: 'Old', status: 'released' } },
+        { id: 2, userId: 21, createdAt: new Date('2025-02-02'), feedback: { score: 85, summary: 'Good work', status: 'released' } },
+        { id: 3, userId: 22, createdAt: new Date('2025-02-02'), feedback: { score: 90, summary: 'Draft', status: 'draft' } }
+      ] as any);
+      vi.mocked(storage.getUser).mockResolvedValue({ id: 21, email: 'ada@example.edu' } as any);
+
+      const result = await new D2LService(makeCredential()).syncGrades('601', '31');
+
+      expect(result).toMatchObject({ success: true, syncedCount: 1, errors: [] });
+      const put = requests.find(r => r.method === 'PUT');
+      expect(put?.path).toBe(`${LE}/601/grades/31/values/11`);
+      expect(JSON.parse(put!.body)).toMatchObject({
+        GradeObjectType: 1,
+        PointsNumerator: 17,
+        Comments: { Content: 'Good work', Type: 'Text' }
+      });
+    });
+
+    it('fails when no local assignment matches the grade object', async () => {
+      dbSelectWhere.mockResolvedValue([{ id: 1, courseId: 9, credentialId: 4, lmsCourseId: '601' }]);
+      vi.mocked(storage.listAssignments).mockResolvedValue([]);
+
+      const result = await new D2LService(makeCredential()).syncGrades('601', '31');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('Lab Report');
+    });
+  });
+});
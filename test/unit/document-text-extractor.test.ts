@@ -0,0 +1,209 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import { extractDocumentText, getDocumentFormat } from '../../server/utils/document-text-extractor';
+import { extractTextContent } from '../../server/utils/multimodal-processor';
+import { estimateTokensForMultimodalParts } from '../../server/utils/token-management';
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const PML = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+async function zip(files: Record<string, string>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    archive.file(name, content);
+  }
+  return archive.generateAsync({ type: 'nodebuffer' });
+}
+
+function wordParagraph(text: string, style?: string, numbered = false): string {
+  const properties = style || numbered
+    ? `<w:pPr>${style ? `<w:pStyle w:val="${style}"/>` : ''}${numbered ? '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>' : ''}</w:pPr>`
+    : '';
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function wordCell(text: string): string {
+  return `<w:tc>${wordParagraph(text)}</w:tc>`;
+}
+
+function slideShape(text: string, placeholderType?: string): string {
+  const placeholder = placeholderType ? `<p:nvPr><p:ph type="${placeholderType}"/></p:nvPr>` : '<p:nvPr/>';
+  return `<p:sp><p:nvSpPr><p:cNvPr id="1" name="Shape"/><p:cNvSpPr/>${placeholder}</p:nvSpPr>` +
+    `<p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+}
+
+/**
+ * Minimal single-font PDF with one line of text per page
+ */
+function buildPdf(pages: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+describe('document text extraction', () => {
+  describe('getDocumentFormat', () => {
+    it('detects formats from the MIME type', () => {
+      expect(getDocumentFormat('application/pdf')).toBe('pdf');
+      expect(getDocumentFormat('application/vnd.openxmlformats-officedocument.wordprocessingml.document')).toBe('docx');
+      expect(getDocumentFormat('application/vnd.openxmlformats-officedocument.presentationml.presentation')).toBe('pptx');
+      expect(getDocumentFormat('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')).toBe('xlsx');
+    });
+
+    it('falls back to the file name or extension for generic MIME types', () => {
+      expect(getDocumentFormat('application/octet-stream', 'Essay Final.DOCX')).toBe('docx');
+      expect(getDocumentFormat(undefined, 'xlsx')).toBe('xlsx');
+      expect(getDocumentFormat('application/msword', 'legacy.doc')).toBeUndefined();
+    });
+  });
+
+  it('extracts DOCX headings, lists and tables as Markdown', async () => {
+    const documentXml = `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>` +
+      wordParagraph('Lab Report', 'Title') +
+      wordParagraph('Method', 'Heading2') +
+      wordParagraph('Measured the &amp; recorded values.') +
+      wordParagraph('First step', undefined, true) +
+      `<w:tbl><w:tr>${wordCell('Trial')}${wordCell('Result')}</w:tr><w:tr>${wordCell('1')}${wordCell('9.8 | m/s')}</w:tr></w:tbl>` +
+      '<w:sectPr/></w:body></w:document>';
+
+    const text = await extractDocumentText(await zip({ 'word/document.xml': documentXml }), 'docx');
+
+    expect(text).toBe([
+      '# Lab Report',
+      '## Method',
+      'Measured the & recorded values.',
+      '- First step',
+      '| Trial | Result |\n| --- | --- |\n| 1 | 9.8 \\| m/s |'
+    ].join('\n\n'));
+  });
+
+  it('extracts PPTX slides in order with titles, tables and speaker notes', async () => {
+    const slide = (body: string) => `<?xml version="1.0"?><p:sld ${PML}><p:cSld><p:spTree>${body}</p:spTree></p:cSld></p:sld>`;
+    const buffer = await zip({
+      'ppt/slides/slide1.xml': slide(slideShape('Introduction', 'ctrTitle') + slideShape('Why it matters')),
+      'ppt/slides/slide2.xml': slide(
+        slideShape('Data', 'title') +
+        '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+        '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>Year</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Sales</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+        '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>2024</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>12</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+        '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>'
+      ),
+      // slide10 sorts after slide2 numerically, not lexically
+      'ppt/slides/slide10.xml': slide(slideShape('Questions', 'title')),
+      'ppt/slides/_rels/slide1.xml.rels': `<?xml version="1.0"?><Relationships xmlns="${REL_NS}">` +
+        `<Relationship Id="rId2" Type="${OFFICE_REL}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`,
+      'ppt/notesSlides/notesSlide1.xml': `<?xml version="1.0"?><p:notes ${PML}><p:cSld><p:spTree>` +
+        slideShape('1', 'sldNum') + slideShape('Mention the survey', 'body') + '</p:spTree></p:cSld></p:notes>'
+    });
+
+    const text = await extractDocumentText(buffer, 'pptx');
+
+    expect(text).toBe([
+      '## Slide 1',
+      '### Introduction',
+      'Why it matters',
+      'Speaker notes:\nMention the survey',
+      '## Slide 2',
+      '### Data',
+      '| Year | Sales |\n| --- | --- |\n| 2024 | 12 |',
+      '## Slide 3',
+      '### Questions'
+    ].join('\n\n'));
+  });
+
+  it('extracts XLSX sheets with shared strings, inline strings and sparse cells', async () => {
+    const buffer = await zip({
+      'xl/workbook.xml': `<?xml version="1.0"?><workbook xmlns:r="${OFFICE_REL}"><sheets>` +
+        '<sheet name="Grades" sheetId="1" r:id="rId1"/><sheet name="Notes" sheetId="2" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': `<?xml version="1.0"?><Relationships xmlns="${REL_NS}">` +
+        `<Relationship Id="rId1" Type="${OFFICE_REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${OFFICE_REL}/worksheet" Target="/xl/worksheets/sheet2.xml"/></Relationships>`,
+      'xl/sharedStrings.xml': '<?xml version="1.0"?><sst><si><t>Student</t></si><si><t>Score</t></si><si><r><t>Ada</t></r><r><t> L.</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': '<?xml version="1.0"?><worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>92.5</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>Grace</t></is></c><c r="B3" t="b"><v>1</v></c><c r="C3"><v>88</v></c></row>' +
+        '</sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': '<?xml version="1.0"?><worksheet><sheetData/></worksheet>'
+    });
+
+    const text = await extractDocumentText(buffer, 'xlsx');
+
+    expect(text).toBe([
+      '## Sheet: Grades',
+      '| Student |  | Score |\n| --- | --- | --- |\n| Ada L. |  | 92.5 |\n| Grace | TRUE | 88 |',
+      '## Sheet: Notes',
+      '(empty)'
+    ].join('\n\n'));
+  });
+
+  it('extracts PDF text page by page', async () => {
+    const text = await extractDocumentText(buildPdf(['Thesis statement', 'Conclusion']), 'pdf');
+
+    expect(text).toContain('--- Page 1 ---\nThesis statement');
+    expect(text).toContain('--- Page 2 ---\nConclusion');
+  });
+
+  it('rejects archives that are not the expected document type', async () => {
+    await expect(extractDocumentText(await zip({ 'readme.txt': 'hi' }), 'docx')).rejects.toThrow('word/document.xml is missing');
+  });
+
+  it('stops inflating documents whose parts expand past the size limit', async () => {
+    // Two 26MB slides compress to a small upload but exceed the 50MB budget together
+    const slide = `<p:sld ${PML}><p:cSld><p:spTree>${' '.repeat(26 * 1024 * 1024)}</p:spTree></p:cSld></p:sld>`;
+    const archive = new JSZip();
+    archive.file('ppt/slides/slide1.xml', slide);
+    archive.file('ppt/slides/slide2.xml', slide);
+    const buffer = await archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    expect(buffer.length).toBeLessThan(1024 * 1024);
+    await expect(extractDocumentText(buffer, 'pptx')).rejects.toThrow('expands to more than 50MB');
+  });
+
+  describe('extractTextContent', () => {
+    it('returns extracted document text and sizes token estimates from it', async () => {
+      const filePath = path.join(os.tmpdir(), `extract-${process.pid}.docx`);
+      const paragraphs = Array.from({ length: 50 }, (_, i) => wordParagraph(`Paragraph ${i} of the essay body text.`)).join('');
+      await fs.promises.writeFile(filePath, await zip({ 'word/document.xml': `<w:document ${W}><w:body>${paragraphs}</w:body></w:document>` }));
+
+      try {
+        const text = await extractTextContent(filePath, 'application/octet-stream', 'essay.docx');
+
+        expect(text).toContain('Paragraph 49 of the essay body text.');
+        const tokens = estimateTokensForMultimodalParts([
+          { type: 'document', content: Buffer.alloc(0), textContent: text }
+        ]);
+        expect(tokens).toBe(Math.ceil(text!.length * 0.25));
+      } finally {
+        await fs.promises.unlink(filePath);
+      }
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const insertValues = vi.fn().mockResolvedValue(undefined);
+
+vi.mock('../../server/db', () => ({
+  db: {
+    insert: vi.fn(() => ({ values: insertValues }))
+  }
+}));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getFeedback: vi.fn(),
+    getSubmission: vi.fn(),
+    updateFeedback: vi.fn(),
+    releaseFeedback: vi.fn(),
+    listDraftFeedbackForAssignment: vi.fn()
+  }
+}));
+
+vi.mock('../../server/lib/audit-logger', () => ({
+  logAudit: vi.fn(),
+  AuditCategory: { DATA_ACCESS: 'data_access' },
+  AuditEventType: { DATA_UPDATE: 'data_update' }
+}));
+
+import {
+  FeedbackReviewService,
+  diffFeedback,
+  withholdDraftFeedback
+} from '../../server/services/feedback-review-service';
+import { storage } from '../../server/storage';
+import type { Feedback } from '../../shared/schema';
+
+function makeFeedback(overrides: Partial<Feedback> = {}): Feedback {
+  return {
+    id: 10,
+    submissionId: 5,
+    strengths: ['Clear structure'],
+    improvements: ['Add tests'],
+    suggestions: [],
+    summary: 'Solid work',
+    score: 80,
+    criteriaScores: [{ criteriaId: 'c1', score: 8, feedback: 'Good' }],
+    processingTime: 100,
+    rawResponse: null,
+    modelName: 'test-model',
+    tokenCount: 50,
+    needsReview: false,
+    gradingVariance: null,
+    testResults: null,
+    status: 'draft',
+    releasedAt: null,
+    releasedBy: null,
+    lastEditedBy: null,
+    lastEditedAt: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+const actor = { id: 2, username: 'instructor', ipAddress: '127.0.0.1', userAgent: 'vitest' };
+
+describe('feedback review', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getSubmission).mockResolvedValue({ id: 5, userId: 7 } as any);
+  });
+
+  describe('diffFeedback', () => {
+    it('only reports fields whose values change', () => {
+      const changes = diffFeedback(makeFeedback(), {
+        score: 85,
+        summary: 'Solid work',
+        strengths: ['Clear structure', 'Good naming']
+      });
+
+      expect(changes).toEqual([
+        { field: 'strengths', from: ['Clear structure'], to: ['Clear structure', 'Good naming'] },
+        { field: 'score', from: 80, to: 85 }
+      ]);
+    });
+  });
+
+  describe('withholdDraftFeedback', () => {
+    it('hides draft feedback and marks the submission as awaiting review', () => {
+      const result = withholdDraftFeedback({ id: 5, feedback: makeFeedback() });
+
+      expect(result.feedback).toBeNull();
+      expect(result.feedbackAwaitingReview).toBe(true);
+    });
+
+    it('passes released feedback through unchanged', () => {
+      const feedback = makeFeedback({ status: 'released' });
+      const result = withholdDraftFeedback({ id: 5, feedback });
+
+      expect(result.feedback).toBe(feedback);
+      expect(result.feedbackAwaitingReview).toBe(false);
+    });
+
+    it('keeps test counts but hides failure messages and output', () => {
+      const result = withholdDraftFeedback({ id: 5, feedback: makeFeedback({
+        status: 'released',
+        testResults: {
+          status: 'failed',
+          passed: 1,
+          total: 2,
+          tests: [{ name: 'test_a', passed: true }, { name: 'test_b', passed: false, message: 'expected 42' }],
+          output: 'Traceback ...',
+          durationMs: 120
+        }
+      }) });
+
+      expect(result.feedback?.testResults).toEqual({
+        status: 'failed',
+        passed: 1,
+        total: 2,
+        tests: [{ name: 'test_a', passed: true }, { name: 'test_b', passed: false }],
+        durationMs: 120
+      });
+    });
+  });
+
+  describe('FeedbackReviewService', () => {
+    const service = new FeedbackReviewService();
+
+    it('saves edits and records the changed fields in the audit log', async () => {
+      vi.mocked(storage.getFeedback).mockResolvedValue(makeFeedback());
+      vi.mocked(storage.updateFeedback).mockImplementation(async (id, values) => makeFeedback({ id, ...values }));
+
+      const { feedback, changes } = await service.editFeedback(10, { score: 90 }, actor);
+
+      expect(storage.updateFeedback).toHaveBeenCalledWith(10, expect.objectContaining({ score: 90, lastEditedBy: 2 }));
+      expect(feedback.score).toBe(90);
+      expect(changes).toEqual([{ field: 'score', from: 80, to: 90 }]);
+      expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 7,
+        action: 'update',
+        tableName: 'feedback',
+        recordId: 10,
+        performedBy: 2,
+        details: { event: 'edit', submissionId: 5, changes }
+      }));
+    });
+
+    it('skips the update when nothing changed', async () => {
+      vi.mocked(storage.getFeedback).mockResolvedValue(makeFeedback());
+
+      const { changes } = await service.editFeedback(10, { score: 80 }, actor);
+
+      expect(changes).toEqual([]);
+      expect(storage.updateFeedback).not.toHaveBeenCalled();
+      expect(insertValues).not.toHaveBeenCalled();
+    });
+
+    it('throws when the feedback does not exist', async () => {
+      vi.mocked(storage.getFeedback).mockResolvedValue(undefined);
+
+      await expect(service.editFeedback(99, { score: 50 }, actor)).rejects.toThrow('Feedback not found');
+    });
+
+    it('releases every draft for an assignment and audits each release', async () => {
+      const drafts = [makeFeedback({ id: 1 }), makeFeedback({ id: 2 })];
+      vi.mocked(storage.listDraftFeedbackForAssignment).mockResolvedValue(drafts);
+      vi.mocked(storage.releaseFeedback).mockResolvedValue(drafts.map(d => ({ ...d, status: 'released' as const })));
+
+      const released = await service.releaseAllForAssignment(3, actor);
+
+      expect(storage.releaseFeedback).toHaveBeenCalledWith([1, 2], 2);
+      expect(released).toHaveLength(2);
+      expect(insertValues).toHaveBeenCalledTimes(2);
+      expect(insertValues).toHaveBeenCalledWith(expect.objectContaining({
+        recordId: 1,
+        details: { event: 'release', submissionId: 5, changes: [] }
+      }));
+    });
+  });
+});
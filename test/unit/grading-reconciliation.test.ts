@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../server/adapters/adapter-factory', () => ({
+  aiAdapterFactory: {
+    getPinnedProvider: vi.fn((): string | undefined => undefined),
+    getDefaultProvider: vi.fn(() => 'gemini'),
+    createAdapter: vi.fn(() => ({ generateCompletion: vi.fn() }))
+  }
+}));
+
+import {
+  planGradingPasses,
+  reconcileGradingPasses,
+  runMultiPassGrading,
+  isMultiPass,
+  DEFAULT_PASS_COUNT
+} from '../../server/services/grading-reconciliation';
+import { aiAdapterFactory } from '../../server/adapters/adapter-factory';
+import type { FeedbackResponse } from '../../server/services/ai-service';
+import type { Rubric } from '../../shared/schema';
+
+const rubric: Rubric = {
+  criteria: [
+    { id: 'c1', type: 'code_quality', name: 'Code Quality', description: 'Readable code', maxScore: 10, weight: 50 },
+    { id: 'c2', type: 'functionality', name: 'Functionality', description: 'Works correctly', maxScore: 10, weight: 50 }
+  ]
+};
+
+function makeResult(score: number, criteria: [number, number], summary = `Summary ${score}`): FeedbackResponse {
+  return {
+    strengths: [`Strength ${score}`],
+    improvements: [`Improvement ${score}`],
+    suggestions: [],
+    summary,
+    score,
+    criteriaScores: [
+      { criteriaId: 'c1', score: criteria[0], feedback: `c1 at ${criteria[0]}` },
+      { criteriaId: 'c2', score: criteria[1], feedback: `c2 at ${criteria[1]}` }
+    ],
+    processingTime: 100,
+    rawResponse: { score },
+    modelName: 'test-model',
+    tokenCount: 50
+  };
+}
+
+describe('grading reconciliation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('isMultiPass', () => {
+    it('only treats multi_pass mode as multi-pass', () => {
+      expect(isMultiPass(null)).toBe(false);
+      expect(isMultiPass({ mode: 'single' })).toBe(false);
+      expect(isMultiPass({ mode: 'multi_pass' })).toBe(true);
+    });
+  });
+
+  describe('planGradingPasses', () => {
+    it('uses the default provider with varied seeds when no providers are listed', () => {
+      const plan = planGradingPasses({ mode: 'multi_pass' }, 'gemini');
+
+      expect(plan).toHaveLength(DEFAULT_PASS_COUNT);
+      expect(plan.every(pass => pass.provider === 'gemini')).toBe(true);
+      expect(new Set(plan.map(pass => pass.seed)).size).toBe(DEFAULT_PASS_COUNT);
+    });
+
+    it('runs one pass per listed provider by default', () => {
+      const plan = planGradingPasses({ mode: 'multi_pass', providers: ['gemini', 'openai'] }, 'gemini');
+
+      expect(plan.map(pass => pass.provider)).toEqual(['gemini', 'openai']);
+    });
+
+    it('runs the default pass count when a single provider is listed', () => {
+      const plan = planGradingPasses({ mode: 'multi_pass', providers: ['openai'] }, 'gemini');
+
+      expect(plan).toHaveLength(DEFAULT_PASS_COUNT);
+      expect(plan.every(pass => pass.provider === 'openai')).toBe(true);
+    });
+
+    it('cycles providers when more passes are requested', () => {
+      const plan = planGradingPasses({ mode: 'multi_pass', passes: 4, providers: ['gemini', 'openai'] }, 'gemini');
+
+      expect(plan.map(pass => pass.provider)).toEqual(['gemini', 'openai', 'gemini', 'openai']);
+    });
+
+    it('leaves providers outside the AI_PROVIDER pin out of the plan', () => {
+      vi.mocked(aiAdapterFactory.getPinnedProvider).mockReturnValue('local');
+      try {
+        const plan = planGradingPasses({ mode: 'multi_pass', providers: ['gemini', 'local'] }, 'gemini');
+        expect(plan.map(pass => pass.provider)).toEqual(['local', 'local', 'local']);
+
+        expect(() => planGradingPasses({ mode: 'multi_pass', providers: ['gemini', 'openai'] }, 'local'))
+          .toThrow('pinned to local');
+      } finally {
+        vi.mocked(aiAdapterFactory.getPinnedProvider).mockReturnValue(undefined);
+      }
+    });
+  });
+
+  describe('reconcileGradingPasses', () => {
+    it('uses median scores and does not flag consistent passes', () => {
+      const { feedback, variance } = reconcileGradingPasses([
+        makeResult(80, [8, 8]),
+        makeResult(82, [8, 9]),
+        makeResult(85, [9, 9])
+      ], rubric);
+
+      expect(feedback.score).toBe(82);
+      expect(feedback.criteriaScores).toEqual([
+        { criteriaId: 'c1', score: 8, feedback: 'c1 at 8' },
+        { criteriaId: 'c2', score: 9, feedback: 'c2 at 9' }
+      ]);
+      expect(feedback.summary).toBe('Summary 82');
+      expect(feedback.tokenCount).toBe(150);
+      expect(variance.passCount).toBe(3);
+      expect(variance.scoreSpread).toBe(5);
+      expect(variance.flagged).toBe(false);
+      expect(variance.reasons).toEqual([]);
+    });
+
+    it('flags a large overall score disagreement', () => {
+      const { variance } = reconcileGradingPasses([
+        makeResult(60, [6, 6]),
+        makeResult(90, [7, 7])
+      ], rubric);
+
+      expect(variance.flagged).toBe(true);
+      expect(variance.reasons[0]).toContain('30 points');
+    });
+
+    it('flags a criterion whose spread exceeds the threshold of its max score', () => {
+      const { variance } = reconcileGradingPasses([
+        makeResult(80, [3, 8]),
+        makeResult(80, [9, 8])
+      ], rubric, 0.2);
+
+      const c1 = variance.criteria.find(c => c.criteriaId === 'c1');
+      expect(c1?.flagged).toBe(true);
+      expect(c1?.spread).toBe(6);
+      expect(variance.criteria.find(c => c.criteriaId === 'c2')?.flagged).toBe(false);
+      expect(variance.reasons[0]).toContain('Code Quality');
+    });
+
+    it('throws when there are no passes to reconcile', () => {
+      expect(() => reconcileGradingPasses([])).toThrow('without any passes');
+    });
+  });
+
+  describe('runMultiPassGrading', () => {
+    it('runs each planned pass and reconciles the results', async () => {
+      const results = [makeResult(70, [7, 7]), makeResult(72, [7, 8]), makeResult(74, [8, 8])];
+      const analyze = vi.fn()
+        .mockResolvedValueOnce(results[0])
+        .mockResolvedValueOnce(results[1])
+        .mockResolvedValueOnce(results[2]);
+
+      const reconciled = await runMultiPassGrading({ mode: 'multi_pass', passes: 3 }, analyze, rubric);
+
+      expect(analyze).toHaveBeenCalledTimes(3);
+      expect(aiAdapterFactory.createAdapter).toHaveBeenCalledWith('gemini');
+      expect(reconciled.passes.map(pass => pass.seed)).toEqual([1, 2, 3]);
+      expect(reconciled.feedback.score).toBe(72);
+      expect(reconciled.needsReview).toBe(false);
+    });
+
+    it('flags the result for review when only one pass succeeds', async () => {
+      const analyze = vi.fn()
+        .mockRejectedValueOnce(new Error('rate limited'))
+        .mockResolvedValueOnce(makeResult(75, [7, 8]));
+
+      const reconciled = await runMultiPassGrading({ mode: 'multi_pass', passes: 2 }, analyze, rubric);
+
+      expect(reconciled.passes).toHaveLength(1);
+      expect(reconciled.needsReview).toBe(true);
+      expect(reconciled.variance.reasons).toContain('Only 1 of 2 grading passes succeeded');
+    });
+
+    it('rethrows when every pass fails', async () => {
+      const analyze = vi.fn().mockRejectedValue(new Error('provider down'));
+
+      await expect(runMultiPassGrading({ mode: 'multi_pass', passes: 2 }, analyze)).rejects.toThrow('provider down');
+    });
+  });
+});
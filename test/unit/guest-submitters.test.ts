@@ -0,0 +1,151 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../server/db', () => ({ db: {} }));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    createPendingGuestSubmitter: vi.fn(),
+    confirmPendingGuestSubmitter: vi.fn(),
+    getGuestSubmitter: vi.fn(),
+    getGuestSubmitterByEmail: vi.fn(),
+    markGuestSubmitterVerified: vi.fn(),
+    createGuestAccessToken: vi.fn(),
+    consumeGuestAccessToken: vi.fn(),
+    listGuestSubmissions: vi.fn(),
+    mergeGuestSubmitter: vi.fn()
+  }
+}));
+
+import { GuestSubmitterService, hashGuestAccessToken } from '../../server/services/guest-submitter-service';
+import { storage } from '../../server/storage';
+import type { EmailMessage, EmailTransport } from '../../server/services/notifications/email-transport';
+import type { User } from '../../shared/schema';
+
+const guest = { id: 4, name: 'Ada', email: 'ada@example.com', emailVerifiedAt: null } as any;
+const student = { id: 5, role: 'student', email: 'ada@example.com', username: 'ada' } as User;
+const instructor = { id: 7, role: 'instructor', email: 'tim@mit.edu', username: 'tim' } as User;
+
+function recordingTransport() {
+  const sent: EmailMessage[] = [];
+  const transport: EmailTransport = { name: 'test', send: async (message) => { sent.push(message); } };
+  return { sent, transport };
+}
+
+describe('GuestSubmitterService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('emails a sign-in link and stores only the hash of its token', async () => {
+    const { sent, transport } = recordingTransport();
+    const service = new GuestSubmitterService(transport);
+
+    await service.sendAccessLink(guest, 'Essay 1');
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe('ada@example.com');
+    expect(sent[0].subject).toContain('Essay 1');
+
+    const token = decodeURIComponent(sent[0].text.match(/\/guest\/access\?token=(\S+)/)![1]);
+    const [owner, tokenHash, expiresAt] = vi.mocked(storage.createGuestAccessToken).mock.calls[0];
+    expect(owner).toEqual({ guestSubmitterId: 4 });
+    expect(tokenHash).toBe(hashGuestAccessToken(token));
+    expect(tokenHash).not.toContain(token);
+    expect((expiresAt as Date).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('signs in with a valid token and verifies the email', async () => {
+    const service = new GuestSubmitterService(null);
+    vi.mocked(storage.consumeGuestAccessToken).mockResolvedValue({ guestSubmitterId: 4 } as any);
+    vi.mocked(storage.getGuestSubmitter).mockResolvedValue(guest);
+
+    const signedIn = await service.signIn('abc');
+
+    expect(storage.consumeGuestAccessToken).toHaveBeenCalledWith(hashGuestAccessToken('abc'));
+    expect(storage.markGuestSubmitterVerified).toHaveBeenCalledWith(4);
+    expect(signedIn.emailVerifiedAt).toBeInstanceOf(Date);
+  });
+
+  it('holds a shareable-link submission until the link sent for it is followed', async () => {
+    const { sent, transport } = recordingTransport();
+    const service = new GuestSubmitterService(transport);
+    const pending = { id: 9, submissionId: 31, name: 'Ada', email: 'ada@example.com' } as any;
+    vi.mocked(storage.createPendingGuestSubmitter).mockResolvedValue(pending);
+
+    await service.recordSubmitter(31, ' Ada ', ' Ada@Example.com ');
+    await service.sendSubmissionLink(pending, 'Essay 1');
+
+    expect(storage.createPendingGuestSubmitter).toHaveBeenCalledWith(31, { name: 'Ada', email: 'Ada@Example.com' });
+    expect(storage.getGuestSubmitterByEmail).not.toHaveBeenCalled();
+    expect(sent[0].to).toBe('ada@example.com');
+    expect(vi.mocked(storage.createGuestAccessToken).mock.calls[0][0]).toEqual({ pendingGuestSubmitterId: 9 });
+
+    vi.mocked(storage.consumeGuestAccessToken).mockResolvedValue({ guestSubmitterId: null, pendingGuestSubmitterId: 9 } as any);
+    vi.mocked(storage.confirmPendingGuestSubmitter).mockResolvedValue({ ...guest, emailVerifiedAt: new Date() });
+
+    const signedIn = await service.signIn('abc');
+
+    expect(storage.confirmPendingGuestSubmitter).toHaveBeenCalledWith(9);
+    expect(storage.getGuestSubmitter).not.toHaveBeenCalled();
+    expect(signedIn.id).toBe(4);
+  });
+
+  it('refuses a submission link whose submission was already filed', async () => {
+    const service = new GuestSubmitterService(null);
+    vi.mocked(storage.consumeGuestAccessToken).mockResolvedValue({ guestSubmitterId: null, pendingGuestSubmitterId: 9 } as any);
+    vi.mocked(storage.confirmPendingGuestSubmitter).mockResolvedValue(undefined);
+
+    await expect(service.signIn('abc')).rejects.toThrow(/invalid or has expired/);
+    expect(storage.markGuestSubmitterVerified).not.toHaveBeenCalled();
+  });
+
+  it('refuses used or expired tokens', async () => {
+    const service = new GuestSubmitterService(null);
+    vi.mocked(storage.consumeGuestAccessToken).mockResolvedValue(undefined);
+
+    await expect(service.signIn('abc')).rejects.toThrow(/invalid or has expired/);
+    expect(storage.markGuestSubmitterVerified).not.toHaveBeenCalled();
+  });
+
+  it('ignores link requests for emails that never submitted', async () => {
+    const { sent, transport } = recordingTransport();
+    const service = new GuestSubmitterService(transport);
+    vi.mocked(storage.getGuestSubmitterByEmail).mockResolvedValue(undefined);
+
+    await expect(service.requestAccessLink('nobody@example.com')).resolves.toBeUndefined();
+    expect(sent).toHaveLength(0);
+    expect(storage.createGuestAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('withholds feedback still under review from the history', async () => {
+    const service = new GuestSubmitterService(null);
+    vi.mocked(storage.listGuestSubmissions).mockResolvedValue([
+      { id: 1, feedback: { status: 'draft', summary: 'Not yet' } },
+      { id: 2, feedback: { status: 'released', summary: 'Good work' } }
+    ] as any);
+
+    const [draft, released] = await service.listSubmissions(4);
+
+    expect(draft).toMatchObject({ feedback: null, feedbackAwaitingReview: true });
+    expect(released).toMatchObject({ feedback: { summary: 'Good work' }, feedbackAwaitingReview: false });
+  });
+
+  it('merges only verified guests into student accounts with a verified matching email', async () => {
+    const service = new GuestSubmitterService(null);
+    const verifiedGuest = { ...guest, emailVerifiedAt: new Date() };
+    vi.mocked(storage.getGuestSubmitter).mockResolvedValue(guest);
+    vi.mocked(storage.getGuestSubmitterByEmail).mockResolvedValue(verifiedGuest);
+    vi.mocked(storage.mergeGuestSubmitter).mockResolvedValue(2);
+
+    await expect(service.mergeIntoUser(4, instructor)).rejects.toThrow(/student account/);
+    expect(await service.claimVerifiedEmail(student, false)).toBe(0);
+    vi.mocked(storage.getGuestSubmitterByEmail).mockResolvedValueOnce(guest);
+    expect(await service.claimVerifiedEmail(student, true)).toBe(0);
+    expect(storage.mergeGuestSubmitter).not.toHaveBeenCalled();
+
+    expect(await service.claimVerifiedEmail(student, true)).toBe(2);
+    expect(await service.mergeIntoUser(4, student)).toBe(2);
+    expect(storage.mergeGuestSubmitter).toHaveBeenCalledWith(4, 5);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { selectResults } = vi.hoisted(() => ({ selectResults: [] as unknown[][] }));
+
+vi.mock('../../server/db', () => ({
+  db: {
+    select: vi.fn(() => {
+      const result = Promise.resolve(selectResults.shift() ?? []);
+      const chain: any = { from: () => chain, where: () => chain, then: result.then.bind(result) };
+      return chain;
+    })
+  }
+}));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    createNotifications: vi.fn(async (items: unknown[]) => items),
+    getSubmission: vi.fn(),
+    getAssignment: vi.fn(),
+    listCourseEnrollments: vi.fn()
+  }
+}));
+
+import { InboxService } from '../../server/services/notifications/inbox-service';
+import { storage } from '../../server/storage';
+
+const assignment = { id: 7, courseId: 3, title: 'Essay 1' };
+const members = [
+  { id: 5, role: 'student' },
+  { id: 6, role: 'student' },
+  { id: 2, role: 'instructor' }
+];
+
+function created() {
+  return vi.mocked(storage.createNotifications).mock.calls.flatMap(([items]) => items);
+}
+
+describe('InboxService', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    vi.mocked(storage.createNotifications).mockClear();
+    vi.mocked(storage.getSubmission).mockResolvedValue({ id: 42, userId: 5, assignmentId: 7 } as any);
+    vi.mocked(storage.getAssignment).mockResolvedValue(assignment as any);
+    vi.mocked(storage.listCourseEnrollments).mockResolvedValue(members as any);
+  });
+
+  it('tells the student their feedback is ready and links to the submission', async () => {
+    expect(await new InboxService().notifyFeedbackReady(42)).toBe(1);
+
+    expect(created()).toEqual([{
+      userId: 5,
+      type: 'feedback_ready',
+      title: 'Feedback ready',
+      message: 'Your feedback for "Essay 1" is ready to view.',
+      link: '/submission/7',
+      metadata: { submissionId: 42, assignmentId: 7 }
+    }]);
+  });
+
+  it('tells students and instructors when an assignment opens, and only instructors when it is rescheduled', async () => {
+    const service = new InboxService();
+
+    expect(await service.notifyAssignmentStatusChange(assignment, 'upcoming', 'active')).toBe(3);
+    expect(created().map(item => item.userId)).toEqual([5, 6, 2]);
+    expect(created()[0]).toMatchObject({ type: 'assignment_status', title: 'Assignment open' });
+
+    vi.mocked(storage.createNotifications).mockClear();
+    expect(await service.notifyAssignmentStatusChange(assignment, 'active', 'upcoming')).toBe(1);
+    expect(created().map(item => item.userId)).toEqual([2]);
+  });
+
+  it('tells course instructors about LMS sync failures', async () => {
+    expect(await new InboxService().notifyLmsSyncFailed(42, 'Canvas returned 401')).toBe(1);
+
+    expect(created()[0]).toMatchObject({
+      userId: 2,
+      type: 'lms_sync_failed',
+      message: 'A grade for "Essay 1" could not be sent to the LMS: Canvas returned 401'
+    });
+  });
+
+  it('tells the requester where their data subject request stands', async () => {
+    selectResults.push([{ id: 11, userId: 5, type: 'access', status: 'completed' }]);
+
+    expect(await new InboxService().notifyDataRequestStatus(11)).toBe(1);
+    expect(created()[0]).toMatchObject({
+      userId: 5,
+      type: 'data_request_status',
+      message: 'Your access request has been completed.'
+    });
+  });
+
+  it('logs storage failures instead of throwing', async () => {
+    vi.mocked(storage.createNotifications).mockRejectedValueOnce(new Error('connection lost'));
+
+    expect(await new InboxService().notify([5, 5], { type: 'rubric_error', title: 'T', message: 'M' })).toBe(0);
+    expect(vi.mocked(storage.createNotifications).mock.calls[0][0]).toHaveLength(1);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getAssignmentExtension: vi.fn(),
+    listSubmissionsForUser: vi.fn(),
+    createSubmission: vi.fn(),
+    createSubmissionWithinAttemptLimit: vi.fn(),
+    getEnrollment: vi.fn(),
+    upsertAssignmentExtension: vi.fn(),
+    listAssignmentExtensions: vi.fn()
+  }
+}));
+
+import { assessLateness, selectCountedAttempt, submissionRefusal } from '../../server/utils/late-policy';
+import { SubmissionPolicyService } from '../../server/services/submission-policy-service';
+import { BadRequestError, ForbiddenError } from '../../server/lib/error-handler';
+import { storage } from '../../server/storage';
+import type { Assignment, SubmissionPolicy, User } from '../../shared/schema';
+
+const due = new Date('2025-03-01T23:59:00Z');
+const after = (minutes: number) => new Date(due.getTime() + minutes * 60 * 1000);
+const DAY = 24 * 60;
+
+const policy: SubmissionPolicy = {
+  maxAttempts: 3,
+  gracePeriodMinutes: 10,
+  allowLate: true,
+  latePenaltyPercentPerDay: 10,
+  lateCutoffDays: 3,
+  countedAttempt: 'best'
+};
+
+describe('late policy', () => {
+  it('forgives the grace period and charges every started day after it', () => {
+    expect(assessLateness(after(10), due, policy)).toEqual({ minutesLate: 0, daysLate: 0, penaltyPercent: 0 });
+    expect(assessLateness(after(11), due, policy)).toEqual({ minutesLate: 11, daysLate: 1, penaltyPercent: 10 });
+    expect(assessLateness(after(DAY + 1), due, policy).penaltyPercent).toBe(20);
+    expect(assessLateness(after(20 * DAY), due, policy).penaltyPercent).toBe(100);
+  });
+
+  it('refuses submissions over the attempt limit, after the due date or after the cutoff', () => {
+    expect(submissionRefusal(after(-60), due, policy, 2)).toBeNull();
+    expect(submissionRefusal(after(-60), due, policy, 3)).toMatch(/all 3 attempts/);
+    expect(submissionRefusal(after(2 * DAY), due, policy, 0)).toBeNull();
+    expect(submissionRefusal(after(3 * DAY + 1), due, policy, 0)).toMatch(/cutoff/);
+    expect(submissionRefusal(after(11), due, null, 0)).toMatch(/passed its due date/);
+  });
+
+  it('counts the latest graded attempt or the best one after penalties', () => {
+    const attempts = [
+      { createdAt: after(30), score: 90 },
+      { createdAt: after(-DAY), score: 80 },
+      { createdAt: after(2 * DAY), score: null }
+    ];
+
+    const best = selectCountedAttempt(attempts, due, policy)!;
+    expect(best).toMatchObject({ score: 90, attemptNumber: 2, adjustedScore: 81 });
+
+    const latest = selectCountedAttempt(attempts, due, { ...policy, countedAttempt: 'latest' })!;
+    expect(latest).toMatchObject({ attemptNumber: 2, adjustedScore: 81 });
+
+    expect(selectCountedAttempt(attempts, after(3 * DAY), policy)).toMatchObject({ attemptNumber: 2, adjustedScore: 90 });
+    expect(selectCountedAttempt([{ createdAt: due, score: null }], due, policy)).toBeUndefined();
+  });
+});
+
+describe('SubmissionPolicyService', () => {
+  const service = new SubmissionPolicyService();
+  const assignment = { id: 4, courseId: 2, dueDate: after(-DAY), submissionPolicy: policy } as Assignment;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getAssignmentExtension).mockResolvedValue(undefined);
+  });
+
+  it('measures lateness against the student\'s extension and ignores failed attempts', async () => {
+    vi.mocked(storage.getAssignmentExtension).mockResolvedValue({ dueDate: new Date(Date.now() + DAY * 60 * 1000) } as any);
+    vi.mocked(storage.listSubmissionsForUser).mockResolvedValue([{ status: 'failed' }, { status: 'completed' }] as any);
+
+    const result = await service.checkCanSubmit(assignment, 9);
+
+    expect(result).toEqual({ attemptNumber: 2, lateness: { minutesLate: 0, daysLate: 0, penaltyPercent: 0 } });
+    expect(storage.getAssignmentExtension).toHaveBeenCalledWith(4, 9);
+  });
+
+  it('rejects students out of attempts with 403 and late ones with 400', async () => {
+    vi.mocked(storage.listSubmissionsForUser).mockResolvedValue([{ status: 'completed' }, { status: 'pending' }, { status: 'completed' }] as any);
+    await expect(service.checkCanSubmit(assignment, 9)).rejects.toThrow(ForbiddenError);
+
+    vi.mocked(storage.listSubmissionsForUser).mockResolvedValue([]);
+    await expect(service.checkCanSubmit({ ...assignment, submissionPolicy: null }, 9)).rejects.toThrow(BadRequestError);
+  });
+
+  it('refuses an attempt another submission used up while this one was being prepared', async () => {
+    const submission = { assignmentId: 4, userId: 9, status: 'pending' } as any;
+    vi.mocked(storage.createSubmissionWithinAttemptLimit).mockResolvedValue(undefined);
+
+    await expect(service.recordAttempt(assignment, submission)).rejects.toThrow('You have used all 3 attempts for this assignment');
+    expect(storage.createSubmissionWithinAttemptLimit).toHaveBeenCalledWith(submission, 3);
+
+    vi.mocked(storage.createSubmission).mockResolvedValue({ id: 12 } as any);
+    await expect(service.recordAttempt({ ...assignment, submissionPolicy: null }, submission)).resolves.toEqual({ id: 12 });
+    expect(storage.createSubmissionWithinAttemptLimit).toHaveBeenCalledTimes(1);
+  });
+
+  it('only grants extensions past the due date to enrolled students', async () => {
+    const instructor = { id: 7 } as User;
+    vi.mocked(storage.getEnrollment).mockResolvedValue({ id: 1 } as any);
+
+    await expect(service.grantExtension(assignment, instructor, 9, after(-2 * DAY))).rejects.toThrow(/later than/);
+
+    await service.grantExtension(assignment, instructor, 9, due, '  Medical  ');
+    expect(storage.upsertAssignmentExtension).toHaveBeenCalledWith({ assignmentId: 4, userId: 9, dueDate: due, reason: 'Medical', grantedBy: 7 });
+  });
+});
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { selectResults, returningResults, updates } = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  returningResults: [] as unknown[][],
+  updates: [] as Record<string, unknown>[]
+}));
+
+// Each select resolves with the next queued result, whichever chain ends it
+vi.mock('../../server/db', () => {
+  const selectChain = () => {
+    const result = Promise.resolve(selectResults.shift() ?? []);
+    const chain: any = {
+      from: () => chain,
+      where: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      then: result.then.bind(result)
+    };
+    return chain;
+  };
+  return {
+    db: {
+      select: vi.fn(() => selectChain()),
+      update: vi.fn(() => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          const where: any = () => {
+            const result = Promise.resolve(undefined);
+            return { returning: () => Promise.resolve(returningResults.shift() ?? []), then: result.then.bind(result) };
+          };
+          return { where };
+        }
+      }))
+    }
+  };
+});
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getSubmission: vi.fn(),
+    getAssignment: vi.fn(),
+    getUser: vi.fn(),
+    getFeedbackBySubmissionId: vi.fn(),
+    listSubmissionsWithFeedbackForAssignment: vi.fn(),
+    getAssignmentExtension: vi.fn()
+  }
+}));
+
+vi.mock('../../server/services/lms/lms-service-factory', () => ({
+  lmsServiceFactory: { createService: vi.fn() }
+}));
+
+import { LmsGradeSyncService, MAX_SYNC_ATTEMPTS, retryDelayMs } from '../../server/services/lms/lms-grade-sync';
+import { lmsServiceFactory } from '../../server/services/lms/lms-service-factory';
+import { storage } from '../../server/storage';
+
+const mapping = { id: 3, courseId: 10, credentialId: 1, lmsCourseId: 'lms-course', syncEnabled: true, autoGradeSync: true };
+const credential = { id: 1, provider: 'canvas', active: true };
+
+function pendingSubmission(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 42,
+    assignmentId: 7,
+    userId: 5,
+    lmsSyncStatus: 'pending',
+    lmsSyncAttempts: 0,
+    lmsSyncError: null,
+    lmsSyncNextAttemptAt: new Date(),
+    ...overrides
+  };
+}
+
+// Queue a due submission and the row its claim returns
+function queueDue(submission: ReturnType<typeof pendingSubmission>) {
+  selectResults.push([submission]);
+  returningResults.push([{ ...submission, lmsSyncStatus: 'in_progress', lmsSyncAttempts: submission.lmsSyncAttempts + 1 }]);
+}
+
+function mockLms(submitResult: boolean | Error = true) {
+  const service = {
+    getAssignmentsInCourse: vi.fn().mockResolvedValue([{ id: 'lms-a1', title: 'Essay 1', points: 20 }]),
+    getStudentsInCourse: vi.fn().mockResolvedValue([{ id: 'lms-s1', email: 'Student@Example.edu' }]),
+    submitGradeForStudent: submitResult instanceof Error
+      ? vi.fn().mockRejectedValue(submitResult)
+      : vi.fn().mockResolvedValue(submitResult)
+  };
+  vi.mocked(lmsServiceFactory.createService).mockReturnValue(service as any);
+  return service;
+}
+
+describe('LMS grade sync', () => {
+  let sync: LmsGradeSyncService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    selectResults.length = 0;
+    returningResults.length = 0;
+    updates.length = 0;
+    sync = new LmsGradeSyncService();
+
+    vi.mocked(storage.getSubmission).mockResolvedValue(pendingSubmission() as any);
+    vi.mocked(storage.getAssignment).mockResolvedValue({ id: 7, courseId: 10, title: 'Essay 1', dueDate: new Date('2030-01-01T00:00:00Z'), submissionPolicy: null } as any);
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 5, email: 'student@example.edu' } as any);
+    vi.mocked(storage.getFeedbackBySubmissionId).mockResolvedValue({ id: 9, status: 'published', score: 85, summary: 'Good work' } as any);
+    vi.mocked(storage.listSubmissionsWithFeedbackForAssignment).mockResolvedValue([
+      { id: 42, userId: 5, status: 'completed', createdAt: new Date('2029-12-31T00:00:00Z'), feedback: { id: 9, status: 'published', score: 85, summary: 'Good work' } }
+    ] as any);
+  });
+
+  afterEach(() => {
+    sync.stop();
+  });
+
+  describe('retryDelayMs', () => {
+    it('doubles the delay after each failure up to an hour', () => {
+      expect(retryDelayMs(1)).toBe(60 * 1000);
+      expect(retryDelayMs(2)).toBe(2 * 60 * 1000);
+      expect(retryDelayMs(4)).toBe(8 * 60 * 1000);
+      expect(retryDelayMs(20)).toBe(60 * 60 * 1000);
+    });
+  });
+
+  describe('queueSubmission', () => {
+    it('marks the submission pending when the course syncs grades', async () => {
+      selectResults.push([mapping]);
+
+      expect(await sync.queueSubmission(42)).toBe(true);
+      expect(updates[0]).toMatchObject({ lmsSyncStatus: 'pending', lmsSyncAttempts: 0, lmsSyncError: null });
+    });
+
+    it('does nothing when automatic sync is off for the course', async () => {
+      selectResults.push([]);
+
+      expect(await sync.queueSubmission(42)).toBe(false);
+      expect(updates).toHaveLength(0);
+    });
+  });
+
+  describe('processDueSubmissions', () => {
+    it('sends the scaled score to the matching LMS assignment and student', async () => {
+      const lms = mockLms(true);
+      queueDue(pendingSubmission());
+      selectResults.push([mapping], [credential]);
+
+      expect(await sync.processDueSubmissions()).toBe(1);
+
+      expect(lms.submitGradeForStudent).toHaveBeenCalledWith('lms-course', 'lms-a1', 'lms-s1', {
+        studentId: 'lms-s1',
+        assignmentId: 'lms-a1',
+        score: 17,
+        maxScore: 20,
+        comment: 'Good work'
+      });
+      expect(updates[0]).toMatchObject({ lmsSyncStatus: 'in_progress', lmsSyncAttempts: 1 });
+      expect(updates[1]).toMatchObject({ lmsSyncStatus: 'completed', lmsSyncError: null });
+    });
+
+    it('sends the late-adjusted score of the counted attempt', async () => {
+      const lms = mockLms(true);
+      vi.mocked(storage.getAssignment).mockResolvedValue({
+        id: 7,
+        courseId: 10,
+        title: 'Essay 1',
+        dueDate: new Date('2030-01-01T00:00:00Z'),
+        submissionPolicy: { allowLate: true, latePenaltyPercentPerDay: 20 }
+      } as any);
+      vi.mocked(storage.listSubmissionsWithFeedbackForAssignment).mockResolvedValue([
+        { id: 42, userId: 5, status: 'completed', createdAt: new Date('2030-01-01T06:00:00Z'), feedback: { status: 'published', score: 100, summary: 'Late' } }
+      ] as any);
+      queueDue(pendingSubmission());
+      selectResults.push([mapping], [credential]);
+
+      expect(await sync.processDueSubmissions()).toBe(1);
+
+      // One day late at 20% a day: 100 becomes 80, or 16 of the LMS assignment's 20 points
+      expect(lms.submitGradeForStudent.mock.calls[0][3]).toMatchObject({ score: 16, comment: 'Late' });
+    });
+
+    it('schedules a retry with backoff when the LMS rejects the grade', async () => {
+      mockLms(false);
+      queueDue(pendingSubmission({ lmsSyncAttempts: 1 }));
+      selectResults.push([mapping], [credential]);
+
+      const before = Date.now();
+      expect(await sync.processDueSubmissions()).toBe(0);
+
+      expect(updates[0]).toMatchObject({ lmsSyncStatus: 'in_progress', lmsSyncAttempts: 2 });
+      const outcome = updates[1];
+      expect(outcome).toMatchObject({ lmsSyncStatus: 'pending' });
+      expect(outcome.lmsSyncError).toContain('rejected the grade');
+      expect((outcome.lmsSyncNextAttemptAt as Date).getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(2));
+    });
+
+    it('gives up after the maximum number of attempts', async () => {
+      mockLms(new Error('Service unavailable'));
+      queueDue(pendingSubmission({ lmsSyncAttempts: MAX_SYNC_ATTEMPTS - 1 }));
+      selectResults.push([mapping], [credential]);
+
+      await sync.processDueSubmissions();
+
+      expect(updates[1]).toMatchObject({
+        lmsSyncStatus: 'failed',
+        lmsSyncError: 'Service unavailable',
+        lmsSyncNextAttemptAt: null
+      });
+    });
+
+    it('fails the attempt when the student is not enrolled in the LMS course', async () => {
+      const lms = mockLms(true);
+      lms.getStudentsInCourse.mockResolvedValue([{ id: 'lms-s2', email: 'someone@example.edu' }]);
+      queueDue(pendingSubmission());
+      selectResults.push([mapping], [credential]);
+
+      await sync.processDueSubmissions();
+
+      expect(lms.submitGradeForStudent).not.toHaveBeenCalled();
+      expect(updates[1].lmsSyncError).toContain('is not enrolled');
+    });
+
+    it('skips a submission another worker claimed first', async () => {
+      const lms = mockLms(true);
+      selectResults.push([pendingSubmission()]);
+      returningResults.push([]);
+
+      expect(await sync.processDueSubmissions()).toBe(0);
+
+      expect(lms.submitGradeForStudent).not.toHaveBeenCalled();
+      expect(updates).toHaveLength(1);
+    });
+
+    it('retries a grade once the lease of a stopped worker runs out', async () => {
+      const lms = mockLms(true);
+      queueDue(pendingSubmission({ lmsSyncStatus: 'in_progress', lmsSyncAttempts: 1, lmsSyncNextAttemptAt: new Date(Date.now() - 1000) }));
+      selectResults.push([mapping], [credential]);
+
+      expect(await sync.processDueSubmissions()).toBe(1);
+
+      expect(lms.submitGradeForStudent).toHaveBeenCalled();
+      expect(updates[0]).toMatchObject({ lmsSyncStatus: 'in_progress', lmsSyncAttempts: 2 });
+      expect(updates[1]).toMatchObject({ lmsSyncStatus: 'completed' });
+    });
+
+    it('gives up on a grade whose workers kept stopping', async () => {
+      const lms = mockLms(true);
+      queueDue(pendingSubmission({ lmsSyncStatus: 'in_progress', lmsSyncAttempts: MAX_SYNC_ATTEMPTS }));
+
+      expect(await sync.processDueSubmissions()).toBe(0);
+
+      expect(lms.submitGradeForStudent).not.toHaveBeenCalled();
+      expect(updates[1]).toMatchObject({ lmsSyncStatus: 'failed', lmsSyncNextAttemptAt: null });
+      expect(updates[1].lmsSyncError).toContain('interrupted');
+    });
+  });
+});
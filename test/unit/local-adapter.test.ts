@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const createCompletion = vi.fn();
+const clientOptions: unknown[] = [];
+
+vi.mock('openai', () => ({
+  default: vi.fn().mockImplementation((options: unknown) => {
+    clientOptions.push(options);
+    return { chat: { completions: { create: createCompletion } } };
+  })
+}));
+
+import { LocalAdapter } from '../../server/adapters/local-adapter';
+import { MockAdapter, MOCK_MODEL_NAME } from '../../server/adapters/mock-adapter';
+import { aiAdapterFactory } from '../../server/adapters/adapter-factory';
+import { AIService } from '../../server/services/ai-service';
+import type { Rubric } from '../../shared/schema';
+
+const grading = {
+  strengths: ['Clear structure'],
+  improvements: ['Handle empty input'],
+  suggestions: ['Add tests'],
+  summary: 'Solid work',
+  score: 82,
+  criteriaScores: [{ criteriaId: 'c1', score: 8, feedback: 'Good' }]
+};
+
+const rubric: Rubric = {
+  criteria: [
+    { id: 'logic', type: 'functionality', name: 'Logic', description: 'Works correctly', maxScore: 20, weight: 60 },
+    { id: 'style', type: 'code_quality', name: 'Style', description: 'Readable', maxScore: 10, weight: 40 }
+  ]
+};
+
+const ENV_KEYS = ['LOCAL_AI_BASE_URL', 'LOCAL_AI_MODEL_NAME', 'LOCAL_AI_VISION', 'AI_PROVIDER', 'GEMINI_API_KEY', 'OPENAI_API_KEY', 'ANTHROPIC_API_KEY'];
+
+describe('LocalAdapter', () => {
+  const saved: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+    createCompletion.mockReset();
+    clientOptions.length = 0;
+    process.env.LOCAL_AI_BASE_URL = 'http://localhost:11434/v1';
+    process.env.LOCAL_AI_MODEL_NAME = 'llama3.1:8b';
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+  });
+
+  it('requires a base URL and a model', () => {
+    delete process.env.LOCAL_AI_MODEL_NAME;
+    expect(() => new LocalAdapter()).toThrow('LOCAL_AI_MODEL_NAME');
+    delete process.env.LOCAL_AI_BASE_URL;
+    expect(() => new LocalAdapter('llama3.1:8b')).toThrow('LOCAL_AI_BASE_URL');
+  });
+
+  it('sends JSON-mode requests to the configured endpoint and validates the reply', async () => {
+    createCompletion.mockResolvedValue({
+      choices: [{ message: { content: '```json\n' + JSON.stringify(grading) + '\n```' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 100, total_tokens: 140 }
+    });
+
+    const result = await new LocalAdapter().generateCompletion('Grade this', 'You are a grader', { seed: 3 });
+
+    expect(clientOptions[0]).toMatchObject({ baseURL: 'http://localhost:11434/v1', apiKey: 'local' });
+    expect(createCompletion.mock.calls[0][0]).toMatchObject({
+      model: 'llama3.1:8b',
+      seed: 3,
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: 'You are a grader' },
+        { role: 'user', content: [{ type: 'text', text: 'Grade this' }] }
+      ]
+    });
+    expect(result).toMatchObject({ ...grading, modelName: 'llama3.1:8b', tokenCount: 140 });
+  });
+
+  it('rejects replies that do not match the grading schema', async () => {
+    createCompletion.mockResolvedValue({ choices: [{ message: { content: '{"summary": "no scores"}' } }] });
+
+    await expect(new LocalAdapter().generateCompletion('Grade this')).rejects.toThrow('Failed to parse or validate JSON response');
+  });
+
+  it('only accepts images when the model is marked as vision-capable', async () => {
+    expect(new LocalAdapter().generateMultimodalCompletion).toBeUndefined();
+    expect(aiAdapterFactory.supportsMultimodal('local')).toBe(false);
+
+    process.env.LOCAL_AI_VISION = 'true';
+    createCompletion.mockResolvedValue({ choices: [{ message: { content: JSON.stringify(grading) } }] });
+    await new LocalAdapter().generateMultimodalCompletion!([
+      { type: 'image', content: Buffer.from('png'), mimeType: 'image/png' }
+    ]);
+
+    expect(createCompletion.mock.calls[0][0].messages[0].content).toEqual([
+      { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('png').toString('base64')}` } }
+    ]);
+  });
+
+  it('is picked when it is the only provider and pinning keeps grading on it', () => {
+    expect(aiAdapterFactory.getDefaultProvider()).toBe('local');
+    expect(aiAdapterFactory.createAdapter('local')).toBeInstanceOf(LocalAdapter);
+
+    process.env.GEMINI_API_KEY = 'cloud-key';
+    expect(aiAdapterFactory.getConfiguredProviders()).toEqual(['gemini', 'local']);
+
+    process.env.AI_PROVIDER = 'local';
+    expect(aiAdapterFactory.getDefaultProvider()).toBe('local');
+    expect(aiAdapterFactory.getConfiguredProviders()).toEqual(['local']);
+  });
+});
+
+describe('MockAdapter', () => {
+  it('grades the full AIService pipeline deterministically without any model', async () => {
+    const grade = () => new AIService(new MockAdapter()).analyzeSubmission({
+      studentSubmissionContent: 'def add(a, b):\n    return a + b',
+      assignmentTitle: 'Adder',
+      assignmentDescription: 'Write an add function',
+      rubric
+    });
+
+    const first = await grade();
+    const second = await grade();
+
+    expect(first.modelName).toBe(MOCK_MODEL_NAME);
+    expect(first.score).toBe(second.score);
+    expect(first.score).toBeGreaterThanOrEqual(60);
+    expect(first.score).toBeLessThanOrEqual(95);
+    expect(first.criteriaScores?.map(score => score.criteriaId)).toEqual(['logic', 'style']);
+    expect(first.criteriaScores?.[0].score).toBe(Math.round(20 * first.score! / 100));
+
+    const stored = await new AIService(new MockAdapter()).prepareFeedbackForStorage(7, first);
+    expect(stored).toMatchObject({ submissionId: 7, score: first.score, modelName: MOCK_MODEL_NAME });
+  });
+
+  it('varies with the seed used for multi-pass grading', async () => {
+    const scores = await Promise.all([1, 2, 3, 4, 5].map(seed =>
+      new MockAdapter().generateCompletion('Grade this essay', undefined, { seed }).then(result => result.score)
+    ));
+    expect(new Set(scores).size).toBeGreaterThan(1);
+  });
+});
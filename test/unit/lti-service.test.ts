@@ -0,0 +1,497 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SignJWT, createLocalJWKSet, exportJWK, generateKeyPair, jwtVerify, type JWK } from 'jose';
+
+// In-memory stand-in for the tables the service reads and writes
+const fake = vi.hoisted(() => ({
+  rows: new Map<unknown, unknown[]>(),
+  deleted: new Map<unknown, unknown[]>(),
+  inserts: [] as { table: unknown; values: any }[],
+  updates: [] as { table: unknown; values: any }[]
+}));
+
+vi.mock('../../server/db', () => ({
+  db: {
+    select: () => ({ from: (table: unknown) => ({ where: async () => fake.rows.get(table) ?? [] }) }),
+    insert: (table: unknown) => ({ values: async (values: unknown) => { fake.inserts.push({ table, values }); } }),
+    update: (table: unknown) => ({
+      set: (values: unknown) => ({ where: async () => { fake.updates.push({ table, values }); } })
+    }),
+    delete: (table: unknown) => ({
+      where: () => Object.assign(Promise.resolve(), { returning: async () => fake.deleted.get(table) ?? [] })
+    })
+  }
+}));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    getUserByEmail: vi.fn(),
+    createUser: vi.fn(),
+    updateUserRole: vi.fn(),
+    getEnrollment: vi.fn(),
+    createEnrollment: vi.fn(),
+    getAssignment: vi.fn(),
+    getCourse: vi.fn(),
+    getCourseByCode: vi.fn(),
+    createCourse: vi.fn(),
+    getSubmission: vi.fn(),
+    getFeedbackBySubmissionId: vi.fn(),
+    listSubmissionsWithFeedbackForAssignment: vi.fn(),
+    getAssignmentExtension: vi.fn()
+  }
+}));
+
+import { LtiService, LTI_CLAIMS, AGS_SCORE_SCOPE, isInstructorRole, scoresUrl } from '../../server/services/lti/lti-service';
+import { storage } from '../../server/storage';
+import { ltiPlatforms, ltiLaunchStates, ltiUserLinks, ltiContexts, ltiResourceLinks, type LtiPlatform } from '../../shared/schema';
+
+const ISSUER = 'https://lms.example.edu';
+const CLIENT_ID = 'tool-client';
+const DEPLOYMENT_ID = 'deployment-1';
+
+let server: http.Server;
+let baseUrl: string;
+let platform: LtiPlatform;
+let platformKey: CryptoKey;
+let platformJwk: JWK;
+let tokenRequests: URLSearchParams[] = [];
+let scoreRequests: { path: string; body: any; auth?: string; contentType?: string }[] = [];
+
+async function signIdToken(claims: Record<string, unknown>, key: CryptoKey = platformKey) {
+  return new SignJWT({
+    nonce: 'nonce-1',
+    [LTI_CLAIMS.version]: '1.3.0',
+    [LTI_CLAIMS.messageType]: 'LtiResourceLinkRequest',
+    [LTI_CLAIMS.deploymentId]: DEPLOYMENT_ID,
+    ...claims
+  })
+    .setProtectedHeader({ alg: 'RS256', kid: 'platform-key' })
+    .setIssuer(ISSUER)
+    .setAudience(CLIENT_ID)
+    .setSubject('lti-user-1')
+    .setIssuedAt()
+    .setExpirationTime('5m')
+    .sign(key);
+}
+
+function pendingLogin(overrides: Record<string, unknown> = {}) {
+  fake.deleted.set(ltiLaunchStates, [{
+    id: 1,
+    state: 'state-1',
+    nonce: 'nonce-1',
+    platformId: platform.id,
+    targetLinkUri: 'http://localhost:5000/api/lti/launch',
+    expiresAt: new Date(Date.now() + 60_000),
+    createdAt: new Date(),
+    ...overrides
+  }]);
+}
+
+describe('LtiService', () => {
+  beforeAll(async () => {
+    const keys = await generateKeyPair('RS256', { extractable: true });
+    platformKey = keys.privateKey;
+    platformJwk = { ...(await exportJWK(keys.publicKey)), kid: 'platform-key', alg: 'RS256' };
+
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.url === '/jwks') {
+          return res.end(JSON.stringify({ keys: [platformJwk] }));
+        }
+        if (req.url === '/token') {
+          tokenRequests.push(new URLSearchParams(body));
+          return res.end(JSON.stringify({ access_token: 'ags-token', token_type: 'Bearer', expires_in: 3600 }));
+        }
+        if (req.url?.startsWith('/lineitems/')) {
+          scoreRequests.push({
+            path: req.url,
+            body: JSON.parse(body),
+            auth: req.headers.authorization,
+            contentType: req.headers['content-type']
+          });
+          res.statusCode = 200;
+          return res.end('{}');
+        }
+        res.statusCode = 404;
+        res.end('{}');
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    platform = {
+      id: 3,
+      name: 'Example LMS',
+      issuer: ISSUER,
+      clientId: CLIENT_ID,
+      deploymentId: DEPLOYMENT_ID,
+      authLoginUrl: `${baseUrl}/authorize`,
+      authTokenUrl: `${baseUrl}/token`,
+      jwksUrl: `${baseUrl}/jwks`,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      createdBy: null
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fake.rows.clear();
+    fake.deleted.clear();
+    fake.inserts = [];
+    fake.updates = [];
+    tokenRequests = [];
+    scoreRequests = [];
+    fake.rows.set(ltiPlatforms, [platform]);
+  });
+
+  it('recognizes instructor roles in full and short form', () => {
+    expect(isInstructorRole(['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor'])).toBe(true);
+    expect(isInstructorRole(['Instructor'])).toBe(true);
+    expect(isInstructorRole(['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'])).toBe(false);
+    expect(isInstructorRole()).toBe(false);
+  });
+
+  it('appends /scores to a line item URL and keeps its query string', () => {
+    expect(scoresUrl('https://lms.example.edu/lineitems/7?type=1')).toBe('https://lms.example.edu/lineitems/7/scores?type=1');
+  });
+
+  describe('initiateLogin', () => {
+    it('stores the login state and redirects to the platform with state and nonce', async () => {
+      const redirect = new URL(await new LtiService().initiateLogin({
+        iss: ISSUER,
+        login_hint: 'hint-1',
+        target_link_uri: 'http://localhost:5000/api/lti/launch',
+        lti_message_hint: 'message-hint',
+        client_id: CLIENT_ID
+      }));
+
+      const stored = fake.inserts.find(entry => entry.table === ltiLaunchStates)!.values;
+      expect(redirect.origin + redirect.pathname).toBe(`${baseUrl}/authorize`);
+      expect(Object.fromEntries(redirect.searchParams)).toMatchObject({
+        scope: 'openid',
+        response_type: 'id_token',
+        response_mode: 'form_post',
+        prompt: 'none',
+        client_id: CLIENT_ID,
+        login_hint: 'hint-1',
+        lti_message_hint: 'message-hint',
+        state: stored.state,
+        nonce: stored.nonce
+      });
+      expect(redirect.searchParams.get('redirect_uri')).toMatch(/\/api\/lti\/launch$/);
+    });
+
+    it('rejects unregistered issuers', async () => {
+      fake.rows.set(ltiPlatforms, []);
+
+      await expect(new LtiService().initiateLogin({ iss: 'https://other.example', login_hint: 'x', target_link_uri: 'y' }))
+        .rejects.toThrow('No LTI platform is registered');
+    });
+  });
+
+  describe('validateLaunch', () => {
+    it('accepts an id_token signed by the platform', async () => {
+      pendingLogin();
+      const launch = await new LtiService().validateLaunch(await signIdToken({}), 'state-1');
+
+      expect(launch.platform.id).toBe(platform.id);
+      expect(launch.messageType).toBe('LtiResourceLinkRequest');
+      expect(launch.claims.sub).toBe('lti-user-1');
+    });
+
+    it('rejects an unknown or expired state', async () => {
+      const service = new LtiService();
+      await expect(service.validateLaunch(await signIdToken({}), 'state-1')).rejects.toThrow('Unknown or expired');
+
+      pendingLogin({ expiresAt: new Date(Date.now() - 1000) });
+      await expect(service.validateLaunch(await signIdToken({}), 'state-1')).rejects.toThrow('Unknown or expired');
+    });
+
+    it('rejects a nonce that does not match the login', async () => {
+      pendingLogin();
+      await expect(new LtiService().validateLaunch(await signIdToken({ nonce: 'replayed' }), 'state-1'))
+        .rejects.toThrow('nonce');
+    });
+
+    it('rejects tokens not signed by the platform', async () => {
+      pendingLogin();
+      const { privateKey } = await generateKeyPair('RS256');
+
+      await expect(new LtiService().validateLaunch(await signIdToken({}, privateKey), 'state-1'))
+        .rejects.toThrow('Invalid LTI id_token');
+    });
+
+    it('rejects launches from another deployment', async () => {
+      pendingLogin();
+      await expect(new LtiService().validateLaunch(await signIdToken({ [LTI_CLAIMS.deploymentId]: 'other' }), 'state-1'))
+        .rejects.toThrow('Unknown LTI deployment');
+    });
+  });
+
+  describe('provisionLaunch', () => {
+    const assignment = { id: 50, title: 'Essay', description: 'Write', courseId: 9, shareableCode: 'ABC123' };
+    const learner = ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner'];
+    const teacher = ['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor'];
+
+    // The custom parameters of a link this tool created through deep linking
+    async function deepLinkedCustom(service: LtiService): Promise<Record<string, string>> {
+      const jwt = await service.createDeepLinkingResponse(
+        { platformId: 3, deploymentId: DEPLOYMENT_ID, returnUrl: `${baseUrl}/return` },
+        assignment as any
+      );
+      const { payload } = await jwtVerify(jwt, createLocalJWKSet(await service.getPublicJwks()));
+      return (payload[LTI_CLAIMS.deepLinkingContentItems] as any[])[0].custom;
+    }
+
+    it('creates the user and enrolls them in the course of a deep-linked assignment', async () => {
+      const service = new LtiService();
+      vi.mocked(storage.getUserByEmail).mockResolvedValue(undefined);
+      vi.mocked(storage.createUser).mockResolvedValue({ id: 21, role: 'student', email: 'ada@example.edu' } as any);
+      vi.mocked(storage.getAssignment).mockResolvedValue(assignment as any);
+      vi.mocked(storage.getCourse).mockResolvedValue({ id: 9, name: 'Writing', code: 'W1' } as any);
+      vi.mocked(storage.getEnrollment).mockResolvedValue(undefined);
+
+      const result = await service.provisionLaunch({
+        platform,
+        messageType: 'LtiResourceLinkRequest',
+        claims: {
+          sub: 'lti-user-1',
+          email: 'Ada@Example.edu',
+          given_name: 'Ada',
+          family_name: 'Lovelace',
+          [LTI_CLAIMS.roles]: learner,
+          [LTI_CLAIMS.resourceLink]: { id: 'link-1' },
+          [LTI_CLAIMS.context]: { id: 'ctx-1', title: 'Writing 101' },
+          [LTI_CLAIMS.custom]: await deepLinkedCustom(service),
+          [LTI_CLAIMS.agsEndpoint]: { scope: [AGS_SCORE_SCOPE], lineitem: `${baseUrl}/lineitems/7` }
+        }
+      });
+
+      expect(storage.createUser).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Ada Lovelace',
+        email: 'ada@example.edu',
+        role: 'student',
+        password: null
+      }));
+      expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 21, courseId: 9 });
+      expect(result.assignment?.id).toBe(50);
+      expect(fake.inserts).toEqual(expect.arrayContaining([
+        { table: ltiUserLinks, values: { platformId: 3, ltiUserId: 'lti-user-1', userId: 21 } },
+        { table: ltiResourceLinks, values: { platformId: 3, resourceLinkId: 'link-1', assignmentId: 50, lineItemUrl: `${baseUrl}/lineitems/7` } },
+        { table: ltiContexts, values: { platformId: 3, contextId: 'ctx-1', courseId: 9, title: 'Writing 101' } }
+      ]));
+    });
+
+    it('ignores assignment ids the tool did not sign for unmapped contexts', async () => {
+      fake.rows.set(ltiUserLinks, [{ id: 1, platformId: 3, ltiUserId: 'lti-user-1', userId: 21 }]);
+      vi.mocked(storage.getUser).mockResolvedValue({ id: 21, role: 'student' } as any);
+      vi.mocked(storage.getAssignment).mockResolvedValue(assignment as any);
+
+      const result = await new LtiService().provisionLaunch({
+        platform,
+        messageType: 'LtiResourceLinkRequest',
+        claims: {
+          sub: 'lti-user-1',
+          [LTI_CLAIMS.resourceLink]: { id: 'link-2' },
+          [LTI_CLAIMS.context]: { id: 'ctx-9' },
+          [LTI_CLAIMS.custom]: { assignment_id: '50', assignment_link: 'forged' }
+        }
+      });
+
+      expect(result).toMatchObject({ assignment: null, course: null });
+      expect(fake.inserts).toEqual([]);
+      expect(storage.createEnrollment).not.toHaveBeenCalled();
+    });
+
+    it('never changes account roles, creates courses or enrolls staff from launch claims', async () => {
+      const service = new LtiService();
+      fake.rows.set(ltiUserLinks, [{ id: 1, platformId: 3, ltiUserId: 'lti-user-1', userId: 30 }]);
+      vi.mocked(storage.getUser).mockResolvedValue({ id: 30, role: 'instructor' } as any);
+      vi.mocked(storage.getAssignment).mockResolvedValue(assignment as any);
+      vi.mocked(storage.getCourse).mockResolvedValue({ id: 9, name: 'Writing', code: 'W1' } as any);
+
+      const unmapped = await service.provisionLaunch({
+        platform,
+        messageType: 'LtiResourceLinkRequest',
+        claims: { sub: 'lti-user-1', [LTI_CLAIMS.roles]: teacher, [LTI_CLAIMS.context]: { id: 'ctx-2', label: 'BIO1' } }
+      });
+      const deepLinked = await service.provisionLaunch({
+        platform,
+        messageType: 'LtiResourceLinkRequest',
+        claims: {
+          sub: 'lti-user-1',
+          [LTI_CLAIMS.roles]: teacher,
+          [LTI_CLAIMS.resourceLink]: { id: 'link-1' },
+          [LTI_CLAIMS.custom]: await deepLinkedCustom(service)
+        }
+      });
+
+      expect(unmapped).toMatchObject({ course: null, assignment: null });
+      expect(deepLinked).toMatchObject({ course: { id: 9 }, assignment: { id: 50 } });
+      expect(storage.updateUserRole).not.toHaveBeenCalled();
+      expect(storage.createCourse).not.toHaveBeenCalled();
+      expect(storage.createEnrollment).not.toHaveBeenCalled();
+    });
+
+    it('asks the owner of an existing account or an LMS instructor to link it first', async () => {
+      const service = new LtiService();
+      vi.mocked(storage.getUserByEmail).mockResolvedValueOnce({ id: 1, role: 'admin', email: 'root@example.edu' } as any);
+
+      const claimed = await service.provisionLaunch({
+        platform,
+        messageType: 'LtiResourceLinkRequest',
+        claims: { sub: 'lti-user-1', email: 'root@example.edu', [LTI_CLAIMS.roles]: learner }
+      });
+      const teaching = await service.provisionLaunch({
+        platform,
+        messageType: 'LtiDeepLinkingRequest',
+        claims: { sub: 'lti-user-2', [LTI_CLAIMS.roles]: teacher }
+      });
+
+      expect(claimed).toMatchObject({ user: null, deepLink: null });
+      expect(teaching).toMatchObject({ user: null, deepLink: null });
+      expect(storage.createUser).not.toHaveBeenCalled();
+      expect(fake.inserts).toEqual([]);
+
+      expect(await service.describeAccountLink(claimed.accountLinkToken!)).toEqual({
+        platformId: 3,
+        platformName: 'Example LMS',
+        ltiUserId: 'lti-user-1',
+        email: 'root@example.edu'
+      });
+      await service.linkAccount(claimed.accountLinkToken!, { id: 8, role: 'student' } as any);
+      expect(fake.inserts).toEqual([{ table: ltiUserLinks, values: { platformId: 3, ltiUserId: 'lti-user-1', userId: 8 } }]);
+
+      fake.rows.set(ltiUserLinks, [{ id: 1, platformId: 3, ltiUserId: 'lti-user-1', userId: 8 }]);
+      await expect(service.linkAccount(claimed.accountLinkToken!, { id: 9 } as any)).rejects.toThrow('already linked');
+      await expect(service.describeAccountLink('not-a-token')).rejects.toThrow('expired');
+    });
+
+    it('returns the deep linking context for deep linking requests', async () => {
+      fake.rows.set(ltiUserLinks, [{ id: 1, platformId: 3, ltiUserId: 'lti-user-2', userId: 40 }]);
+      vi.mocked(storage.getUser).mockResolvedValue({ id: 40, role: 'instructor' } as any);
+
+      const result = await new LtiService().provisionLaunch({
+        platform,
+        messageType: 'LtiDeepLinkingRequest',
+        claims: {
+          sub: 'lti-user-2',
+          email: 'prof@example.edu',
+          [LTI_CLAIMS.deploymentId]: DEPLOYMENT_ID,
+          [LTI_CLAIMS.deepLinkingSettings]: { deep_link_return_url: `${baseUrl}/deep-link-return`, data: 'opaque' }
+        }
+      });
+
+      expect(result.deepLink).toEqual({
+        platformId: 3,
+        deploymentId: DEPLOYMENT_ID,
+        returnUrl: `${baseUrl}/deep-link-return`,
+        data: 'opaque'
+      });
+      expect(storage.createEnrollment).not.toHaveBeenCalled();
+    });
+  });
+
+  it('signs a deep linking response that embeds the assignment', async () => {
+    const service = new LtiService();
+    const jwt = await service.createDeepLinkingResponse(
+      { platformId: 3, deploymentId: DEPLOYMENT_ID, returnUrl: `${baseUrl}/return`, data: 'opaque' },
+      { id: 50, title: 'Essay', description: null } as any
+    );
+
+    const { payload } = await jwtVerify(jwt, createLocalJWKSet(await service.getPublicJwks()), {
+      issuer: CLIENT_ID,
+      audience: ISSUER
+    });
+    expect(payload[LTI_CLAIMS.messageType]).toBe('LtiDeepLinkingResponse');
+    expect(payload[LTI_CLAIMS.deploymentId]).toBe(DEPLOYMENT_ID);
+    expect(payload[LTI_CLAIMS.deepLinkingData]).toBe('opaque');
+    expect(payload[LTI_CLAIMS.deepLinkingContentItems]).toEqual([expect.objectContaining({
+      type: 'ltiResourceLink',
+      title: 'Essay',
+      custom: { assignment_id: '50', assignment_link: expect.any(String) },
+      lineItem: { scoreMaximum: 100, label: 'Essay', resourceId: '50' }
+    })]);
+  });
+
+  describe('passbackSubmissionScore', () => {
+    beforeEach(() => {
+      vi.mocked(storage.getSubmission).mockResolvedValue({ id: 70, userId: 21, assignmentId: 50 } as any);
+      fake.rows.set(ltiResourceLinks, [{ id: 1, platformId: 3, resourceLinkId: 'link-1', assignmentId: 50, lineItemUrl: `${baseUrl}/lineitems/7?type=essay` }]);
+      fake.rows.set(ltiUserLinks, [{ id: 1, platformId: 3, ltiUserId: 'lti-user-1', userId: 21 }]);
+    });
+
+    it('posts the released score to the line item with a client assertion token', async () => {
+      const released = { submissionId: 70, score: 88, summary: 'Strong essay', status: 'released' };
+      vi.mocked(storage.getFeedbackBySubmissionId).mockResolvedValue(released as any);
+      vi.mocked(storage.getAssignment).mockResolvedValue({ id: 50, dueDate: new Date('2030-01-01'), submissionPolicy: null } as any);
+      vi.mocked(storage.listSubmissionsWithFeedbackForAssignment).mockResolvedValue([
+        { id: 70, userId: 21, status: 'completed', createdAt: new Date('2029-12-01'), feedback: released }
+      ] as any);
+      const service = new LtiService();
+
+      expect(await service.passbackSubmissionScore(70)).toBe(1);
+
+      expect(tokenRequests[0].get('grant_type')).toBe('client_credentials');
+      expect(tokenRequests[0].get('scope')).toBe(AGS_SCORE_SCOPE);
+      const { payload } = await jwtVerify(tokenRequests[0].get('client_assertion')!, createLocalJWKSet(await service.getPublicJwks()), {
+        issuer: CLIENT_ID,
+        subject: CLIENT_ID,
+        audience: `${baseUrl}/token`
+      });
+      expect(payload.jti).toBeDefined();
+
+      expect(scoreRequests).toHaveLength(1);
+      expect(scoreRequests[0]).toMatchObject({
+        path: '/lineitems/7/scores?type=essay',
+        auth: 'Bearer ags-token',
+        contentType: 'application/vnd.ims.lis.v1.score+json',
+        body: {
+          userId: 'lti-user-1',
+          scoreGiven: 88,
+          scoreMaximum: 100,
+          comment: 'Strong essay',
+          activityProgress: 'Completed',
+          gradingProgress: 'FullyGraded'
+        }
+      });
+    });
+
+    it('sends the counted attempt with its late penalty applied', async () => {
+      vi.mocked(storage.getFeedbackBySubmissionId).mockResolvedValue({ submissionId: 70, score: 60, status: 'released' } as any);
+      vi.mocked(storage.getAssignment).mockResolvedValue({
+        id: 50,
+        dueDate: new Date('2030-01-01T00:00:00Z'),
+        submissionPolicy: { allowLate: true, latePenaltyPercentPerDay: 10, countedAttempt: 'best' }
+      } as any);
+      vi.mocked(storage.listSubmissionsWithFeedbackForAssignment).mockResolvedValue([
+        { id: 69, userId: 21, status: 'completed', createdAt: new Date('2030-01-02T12:00:00Z'), feedback: { score: 90, summary: 'Late but strong', status: 'released' } },
+        { id: 70, userId: 21, status: 'completed', createdAt: new Date('2029-12-31T00:00:00Z'), feedback: { score: 60, summary: 'On time', status: 'released' } }
+      ] as any);
+
+      expect(await new LtiService().passbackSubmissionScore(70)).toBe(1);
+
+      // Two days late at 10% a day: 90 becomes 72, which beats the on-time 60
+      expect(scoreRequests[0].body).toMatchObject({ scoreGiven: 72, comment: 'Late but strong' });
+    });
+
+    it('does not send draft feedback', async () => {
+      vi.mocked(storage.getFeedbackBySubmissionId).mockResolvedValue({ submissionId: 70, score: 88, status: 'draft' } as any);
+
+      expect(await new LtiService().passbackSubmissionScore(70)).toBe(0);
+      expect(scoreRequests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+// The service factory also loads providers that use the database
+vi.mock('../../server/db', () => ({ db: {} }));
+vi.mock('../../server/storage', () => ({ storage: {} }));
+import { MoodleService } from '../../server/services/lms/moodle-service';
+import { lmsServiceFactory } from '../../server/services/lms/lms-service-factory';
+import type { LmsCredential } from '../../shared/schema';
+
+const TOKEN = 'test-token';
+
+// Canned responses keyed by web service function name
+const fixtures: Record<string, unknown> = {
+  core_webservice_get_site_info: {
+    sitename: 'Test Moodle',
+    username: 'wsuser',
+    userid: 2,
+    release: '4.3',
+    functions: [{ name: 'core_course_get_courses' }]
+  },
+  core_course_get_courses: [
+    { id: 1, fullname: 'Front page', shortname: 'home', format: 'site' },
+    { id: 3, fullname: 'Intro to Programming', shortname: 'CS101', format: 'topics', startdate: 1735689600, enddate: 0 }
+  ],
+  core_enrol_get_enrolled_users: [
+    { id: 11, fullname: 'Ada Lovelace', email: 'ada@example.edu', idnumber: 'S-11', roles: [{ shortname: 'student' }] },
+    { id: 12, fullname: 'Grace Hopper', email: 'grace@example.edu', roles: [{ shortname: 'editingteacher' }] }
+  ],
+  mod_assign_get_assignments: {
+    courses: [{
+      id: 3,
+      assignments: [
+        { id: 21, name: 'Essay 1', intro: '<p>Write an essay</p>', duedate: 1736294400, grade: 50 },
+        { id: 22, name: 'Scaled task', duedate: 0, grade: -3 }
+      ]
+    }]
+  },
+  mod_assign_get_grades: {
+    assignments: [{
+      assignmentid: 21,
+      grades: [
+        { userid: 11, grade: '42.50000', timecreated: 1736294400, timemodified: 1736380800 },
+        { userid: 13, grade: '-1.00000', timecreated: 1736294400, timemodified: 1736294400 }
+      ]
+    }]
+  },
+  mod_assign_save_grade: null
+};
+
+let server: http.Server;
+let baseUrl: string;
+let requests: { path: string; params: URLSearchParams }[] = [];
+
+function makeCredential(overrides: Partial<LmsCredential> = {}): LmsCredential {
+  return {
+    id: 1,
+    provider: 'moodle',
+    name: 'Test Moodle',
+    baseUrl,
+    clientId: 'moodle_mobile_app',
+    clientSecret: TOKEN,
+    callbackUrl: 'http://localhost/callback',
+    refreshToken: null,
+    active: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: null,
+    ...overrides
+  };
+}
+
+describe('MoodleService', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        requests.push({ path: req.url || '', params });
+        res.setHeader('Content-Type', 'application/json');
+
+        if (req.url !== '/webservice/rest/server.php') {
+          res.statusCode = 404;
+          res.end('{}');
+          return;
+        }
+
+        // Moodle returns exceptions with a 200 status
+        if (params.get('wstoken') !== TOKEN) {
+          res.end(JSON.stringify({ exception: 'moodle_exception', errorcode: 'invalidtoken', message: 'Invalid token - token not found' }));
+          return;
+        }
+
+        const wsfunction = params.get('wsfunction') || '';
+        res.end(JSON.stringify(fixtures[wsfunction] ?? null));
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('is created by the LMS service factory', () => {
+    expect(lmsServiceFactory.createService(makeCredential())).toBeInstanceOf(MoodleService);
+  });
+
+  describe('testConnection', () => {
+    it('reports the site name when the token is valid', async () => {
+      const service = new MoodleService(makeCredential());
+      const result = await service.testConnection(makeCredential());
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('Test Moodle');
+      expect(result.details).toMatchObject({ username: 'wsuser', functionCount: 1 });
+      expect(requests[0].params.get('moodlewsrestformat')).toBe('json');
+    });
+
+    it('fails when Moodle rejects the token', async () => {
+      const service = new MoodleService(makeCredential());
+      const result = await service.testConnection(makeCredential({ clientSecret: 'wrong' }));
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('invalidtoken');
+    });
+  });
+
+  it('lists courses without the front page', async () => {
+    const courses = await new MoodleService(makeCredential()).getCourses();
+
+    expect(courses).toEqual([{
+      id: '3',
+      name: 'Intro to Programming',
+      code: 'CS101',
+      startDate: new Date(1735689600 * 1000),
+      endDate: undefined
+    }]);
+  });
+
+  it('lists only students in a course', async () => {
+    const students = await new MoodleService(makeCredential()).getStudentsInCourse('3');
+
+    expect(students).toEqual([{ id: '11', name: 'Ada Lovelace', email: 'ada@example.edu', externalId: 'S-11' }]);
+    expect(requests[0].params.get('courseid')).toBe('3');
+  });
+
+  it('lists assignments and falls back to 100 points for scales', async () => {
+    const assignments = await new MoodleService(makeCredential()).getAssignmentsInCourse('3');
+
+    expect(requests[0].params.get('courseids[0]')).toBe('3');
+    expect(assignments).toHaveLength(2);
+    expect(assignments[0]).toMatchObject({ id: '21', title: 'Essay 1', points: 50, dueDate: new Date(1736294400 * 1000) });
+    expect(assignments[1]).toMatchObject({ id: '22', points: 100, dueDate: undefined });
+  });
+
+  it('returns graded entries with the assignment maximum', async () => {
+    const grades = await new MoodleService(makeCredential()).getGradesForAssignment('3', '21');
+
+    expect(grades).toEqual([{
+      studentId: '11',
+      assignmentId: '21',
+      score: 42.5,
+      maxScore: 50,
+      submittedAt: new Date(1736294400 * 1000),
+      gradedAt: new Date(1736380800 * 1000)
+    }]);
+  });
+
+  it('submits a grade with a feedback comment', async () => {
+    const ok = await new MoodleService(makeCredential()).submitGradeForStudent('3', '21', '11', {
+      studentId: '11',
+      assignmentId: '21',
+      score: 45,
+      maxScore: 50,
+      comment: 'Well argued'
+    });
+
+    expect(ok).toBe(true);
+    const params = requests[0].params;
+    expect(params.get('wsfunction')).toBe('mod_assign_save_grade');
+    expect(params.get('assignmentid')).toBe('21');
+    expect(params.get('userid')).toBe('11');
+    expect(params.get('grade')).toBe('45');
+    expect(params.get('plugindata[assignfeedbackcomments_editor][text]')).toBe('Well argued');
+  });
+
+  it('returns false when grade submission fails', async () => {
+    const ok = await new MoodleService(makeCredential({ clientSecret: 'wrong' }))
+      .submitGradeForStudent('3', '21', '11', { studentId: '11', assignmentId: '21', score: 45, maxScore: 50 });
+
+    expect(ok).toBe(false);
+  });
+
+  it('syncs the roster and grades', async () => {
+    const service = new MoodleService(makeCredential());
+
+    const roster = await service.syncRoster('3');
+    expect(roster).toMatchObject({ success: true, syncedCount: 1, errors: [] });
+
+    const grades = await service.syncGrades('3', '21');
+    expect(grades).toMatchObject({ success: true, syncedCount: 1, errors: [] });
+  });
+
+  it('reports sync errors instead of throwing', async () => {
+    const result = await new MoodleService(makeCredential({ clientSecret: 'wrong' })).syncRoster('3');
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('invalidtoken');
+  });
+});
@@ -0,0 +1,143 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  NOTEBOOK_MIME_TYPE,
+  parseNotebook,
+  notebookToText,
+  notebookToPromptParts
+} from '../../server/utils/notebook-parser';
+import { determineContentType, getContentTypeFromMimeType } from '../../server/utils/file-type-settings';
+import { extractTextContent } from '../../server/utils/multimodal-processor';
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+function buildNotebook(overrides: Record<string, unknown> = {}) {
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: { kernelspec: { language: 'python', name: 'python3' }, language_info: { name: 'python' } },
+    cells: [
+      { cell_type: 'markdown', metadata: {}, source: ['# Analysis\n', 'Exploring the *iris* data.'] },
+      {
+        cell_type: 'code',
+        execution_count: 1,
+        metadata: {},
+        source: 'import pandas as pd\ndf = pd.read_csv("iris.csv")\nprint(len(df))',
+        outputs: [{ output_type: 'stream', name: 'stdout', text: ['150\n'] }]
+      },
+      {
+        cell_type: 'code',
+        execution_count: 2,
+        metadata: {},
+        source: ['df.plot()'],
+        outputs: [
+          {
+            output_type: 'display_data',
+            metadata: {},
+            data: {
+              'image/png': PNG_BASE64.slice(0, 40) + '\n' + PNG_BASE64.slice(40),
+              'text/plain': ['<Figure size 640x480 with 1 Axes>']
+            }
+          },
+          { output_type: 'execute_result', execution_count: 2, metadata: {}, data: { 'text/plain': '<Axes: >' } }
+        ]
+      },
+      {
+        cell_type: 'code',
+        execution_count: 3,
+        metadata: {},
+        source: 'df.mean(',
+        outputs: [{
+          output_type: 'error',
+          ename: 'SyntaxError',
+          evalue: 'unexpected EOF',
+          traceback: ['\u001b[0;31mSyntaxError\u001b[0m: unexpected EOF while parsing']
+        }]
+      },
+      { cell_type: 'code', execution_count: null, metadata: {}, source: '', outputs: [] }
+    ],
+    ...overrides
+  };
+}
+
+describe('notebook parser', () => {
+  it('parses cells in order with their outputs', () => {
+    const notebook = parseNotebook(JSON.stringify(buildNotebook()));
+
+    expect(notebook.language).toBe('python');
+    expect(notebook.cells.map(cell => [cell.index, cell.cellType, cell.executionCount])).toEqual([
+      [1, 'markdown', null],
+      [2, 'code', 1],
+      [3, 'code', 2],
+      [4, 'code', 3],
+      [5, 'code', null]
+    ]);
+    expect(notebook.cells[0].source).toBe('# Analysis\nExploring the *iris* data.');
+    expect(notebook.cells[1].outputs).toEqual([{ kind: 'stream', text: '150\n' }]);
+    expect(notebook.cells[2].outputs).toEqual([
+      { kind: 'image', mimeType: 'image/png', data: PNG_BASE64 },
+      { kind: 'result', text: '<Axes: >' }
+    ]);
+    expect(notebook.cells[3].outputs).toEqual([{ kind: 'error', text: 'SyntaxError: unexpected EOF while parsing' }]);
+  });
+
+  it('truncates very long outputs', () => {
+    const notebook = parseNotebook(JSON.stringify(buildNotebook({
+      cells: [{ cell_type: 'code', execution_count: 1, source: 'print(x)', outputs: [{ output_type: 'stream', text: 'x'.repeat(5000) }] }]
+    })));
+
+    expect(notebook.cells[0].outputs[0].text).toMatch(/^x{4000}\n\[output truncated, 1000 more characters\]$/);
+  });
+
+  it('rejects files that are not nbformat 4 notebooks', () => {
+    expect(() => parseNotebook('not json')).toThrow('Notebook is not valid JSON');
+    expect(() => parseNotebook(JSON.stringify({ worksheets: [] }))).toThrow('Notebook has no cells');
+    expect(() => parseNotebook(JSON.stringify({ nbformat: 3, cells: [] }))).toThrow('Notebook format 3 is not supported');
+  });
+
+  it('renders the notebook as text with image placeholders', () => {
+    const text = notebookToText(parseNotebook(JSON.stringify(buildNotebook())));
+
+    expect(text).toContain('Jupyter notebook (python, 5 cells)');
+    expect(text).toContain('## Cell 2 [code, In [1]]\n\n```python\nimport pandas as pd');
+    expect(text).toContain('Output:\n```\n150\n\n```');
+    expect(text).toContain('[Image output 1: image/png]');
+    expect(text).toContain('Error:\n```\nSyntaxError: unexpected EOF while parsing\n```');
+  });
+
+  it('sends plots as labelled image parts after the notebook text', () => {
+    const parts = notebookToPromptParts(parseNotebook(JSON.stringify(buildNotebook())));
+
+    expect(parts).toHaveLength(3);
+    expect(parts[0].type).toBe('text');
+    expect(parts[1]).toEqual({ type: 'text', content: 'Image output 1 (from cell 3):' });
+    expect(parts[2].type).toBe('image');
+    expect(parts[2].mimeType).toBe('image/png');
+    expect(Buffer.isBuffer(parts[2].content) && parts[2].content.subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  describe('content type detection', () => {
+    it('treats .ipynb uploads as notebooks whatever MIME type the browser sent', () => {
+      expect(determineContentType('application/octet-stream', 'homework.ipynb')).toBe('notebook');
+      expect(determineContentType('application/json', 'homework.IPYNB')).toBe('notebook');
+      expect(getContentTypeFromMimeType(NOTEBOOK_MIME_TYPE)).toBe('notebook');
+      expect(determineContentType('application/json', 'data.json')).toBe('text');
+    });
+
+    it('extracts notebook text for text-only adapters', async () => {
+      const filePath = path.join(os.tmpdir(), `notebook-${process.pid}.ipynb`);
+      await fs.promises.writeFile(filePath, JSON.stringify(buildNotebook()));
+
+      try {
+        const text = await extractTextContent(filePath, 'application/octet-stream', 'homework.ipynb');
+        expect(text).toContain('## Cell 1 [markdown]\n\n# Analysis');
+      } finally {
+        await fs.promises.unlink(filePath);
+      }
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+const { selectResults, returningResults, inserts, updates } = vi.hoisted(() => ({
+  selectResults: [] as unknown[][],
+  returningResults: [] as unknown[][],
+  inserts: [] as Record<string, unknown>[],
+  updates: [] as Record<string, unknown>[]
+}));
+
+// Each select resolves with the next queued result, whichever chain ends it
+vi.mock('../../server/db', () => {
+  const selectChain = () => {
+    const result = Promise.resolve(selectResults.shift() ?? []);
+    const chain: any = {
+      from: () => chain,
+      where: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      then: result.then.bind(result)
+    };
+    return chain;
+  };
+  return {
+    db: {
+      select: vi.fn(() => selectChain()),
+      insert: vi.fn(() => ({
+        values: (values: Record<string, unknown>) => ({
+          onConflictDoNothing: () => ({
+            returning: () => {
+              const duplicate = inserts.some(row => row.dedupeKey === values.dedupeKey);
+              if (duplicate) return Promise.resolve([]);
+              inserts.push(values);
+              return Promise.resolve([values]);
+            }
+          })
+        })
+      })),
+      update: vi.fn(() => ({
+        set: (values: Record<string, unknown>) => {
+          updates.push(values);
+          const where: any = () => {
+            const result = Promise.resolve(undefined);
+            return { returning: () => Promise.resolve(returningResults.shift() ?? []), then: result.then.bind(result) };
+          };
+          return { where };
+        }
+      }))
+    }
+  };
+});
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUserNotificationSettings: vi.fn(),
+    getSubmission: vi.fn(),
+    getUser: vi.fn(),
+    getAssignment: vi.fn(),
+    getCourse: vi.fn(),
+    getFeedbackBySubmissionId: vi.fn(),
+    listCourseEnrollments: vi.fn()
+  }
+}));
+
+import { NotificationService, MAX_DELIVERY_ATTEMPTS, deliveryRetryDelayMs } from '../../server/services/notifications/notification-service';
+import { FileTransport, type EmailTransport } from '../../server/services/notifications/email-transport';
+import { renderEmail } from '../../server/services/notifications/email-templates';
+import { storage } from '../../server/storage';
+
+const student = { id: 5, name: 'Ada', email: 'ada@example.edu', role: 'student' };
+const assignment = {
+  id: 7,
+  courseId: 3,
+  title: 'Essay <1>',
+  availableAt: new Date('2026-03-01T09:00:00Z'),
+  dueDate: new Date('2026-03-02T09:00:00Z')
+};
+
+function transport(send = vi.fn().mockResolvedValue(undefined)): EmailTransport {
+  return { name: 'test', send };
+}
+
+function queued(id: number, attempts: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id, attempts, status: 'pending', toAddress: 'ada@example.edu', subject: 'Hi', textBody: 'text', htmlBody: '<p>html</p>',
+    ...overrides
+  };
+}
+
+// Queue due emails and the rows their claims return
+function queueDue(...notifications: ReturnType<typeof queued>[]) {
+  selectResults.push(notifications);
+  for (const notification of notifications) {
+    returningResults.push([{ ...notification, status: 'sending', attempts: notification.attempts + 1 }]);
+  }
+}
+
+function settings(overrides: Record<string, boolean> = {}) {
+  return { emailNotifications: true, assignmentNotifications: true, feedbackNotifications: true, systemNotifications: false, ...overrides };
+}
+
+describe('NotificationService', () => {
+  beforeEach(() => {
+    selectResults.length = 0;
+    returningResults.length = 0;
+    inserts.length = 0;
+    updates.length = 0;
+    vi.mocked(storage.getUserNotificationSettings).mockResolvedValue(undefined);
+    vi.mocked(storage.getSubmission).mockResolvedValue({ id: 42, userId: 5, assignmentId: 7 } as any);
+    vi.mocked(storage.getUser).mockResolvedValue(student as any);
+    vi.mocked(storage.getAssignment).mockResolvedValue(assignment as any);
+    vi.mocked(storage.getCourse).mockResolvedValue({ id: 3, name: 'Writing 101' } as any);
+    vi.mocked(storage.getFeedbackBySubmissionId).mockResolvedValue({ score: 88 } as any);
+    vi.mocked(storage.listCourseEnrollments).mockResolvedValue([student, { id: 6, name: 'Bo', email: 'bo@example.edu', role: 'student' }] as any);
+  });
+
+  it('queues a feedback email once per submission', async () => {
+    const service = new NotificationService(transport());
+
+    expect(await service.notifyFeedbackReady(42)).toBe(true);
+    expect(await service.notifyFeedbackReady(42)).toBe(false);
+
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0]).toMatchObject({
+      userId: 5,
+      type: 'feedback_ready',
+      toAddress: 'ada@example.edu',
+      subject: 'Feedback ready: Essay <1>',
+      dedupeKey: 'feedback_ready:submission:42'
+    });
+    expect(inserts[0].textBody).toContain('Score: 88%');
+    expect(inserts[0].textBody).toContain('/submission/7');
+  });
+
+  it('honours the email switch and each category switch', async () => {
+    const service = new NotificationService(transport());
+
+    vi.mocked(storage.getUserNotificationSettings).mockResolvedValue(settings({ emailNotifications: false }) as any);
+    expect(await service.notifySubmissionFailed(42)).toBe(false);
+
+    vi.mocked(storage.getUserNotificationSettings).mockResolvedValue(settings({ feedbackNotifications: false }) as any);
+    expect(await service.wantsEmail(5, 'feedback_ready')).toBe(false);
+    expect(await service.wantsEmail(5, 'submission_failed')).toBe(false);
+    expect(await service.wantsEmail(5, 'assignment_due_soon')).toBe(true);
+
+    vi.mocked(storage.getUserNotificationSettings).mockResolvedValue(settings({ assignmentNotifications: false }) as any);
+    expect(await service.wantsEmail(5, 'assignment_opening')).toBe(false);
+    expect(await service.wantsEmail(5, 'feedback_ready')).toBe(true);
+
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('queues nothing when email is turned off', async () => {
+    const service = new NotificationService(null);
+
+    expect(await service.notifyFeedbackReady(42)).toBe(false);
+    expect(await service.queueAssignmentReminders()).toBe(0);
+    expect(await service.processDueNotifications()).toBe(0);
+  });
+
+  it('reminds only students who have not submitted an assignment due soon', async () => {
+    const service = new NotificationService(transport());
+    // Assignments that just opened, then assignments due soon, then who has submitted
+    selectResults.push([], [assignment], [{ userId: 5 }]);
+
+    expect(await service.queueAssignmentReminders(new Date('2026-03-01T12:00:00Z'))).toBe(1);
+    expect(inserts.map(row => row.dedupeKey)).toEqual(['assignment_due_soon:assignment:7:user:6']);
+  });
+
+  it('sends due emails and retries failures with backoff until giving up', async () => {
+    const send = vi.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('SMTP 421'))
+      .mockRejectedValueOnce(new Error('SMTP 421'));
+    const service = new NotificationService(transport(send));
+    queueDue(queued(1, 0), queued(2, 0), queued(3, MAX_DELIVERY_ATTEMPTS - 1));
+
+    expect(await service.processDueNotifications()).toBe(1);
+
+    expect(send).toHaveBeenCalledWith({ to: 'ada@example.edu', subject: 'Hi', text: 'text', html: '<p>html</p>' });
+    expect(updates[0]).toMatchObject({ status: 'sending', attempts: 1 });
+    const outcomes = updates.filter(update => update.status !== 'sending');
+    expect(outcomes[0]).toMatchObject({ status: 'sent', lastError: null });
+    expect(outcomes[1]).toMatchObject({ status: 'pending', lastError: 'SMTP 421' });
+    expect(outcomes[2]).toMatchObject({ status: 'failed', lastError: 'SMTP 421', nextAttemptAt: null });
+    expect(deliveryRetryDelayMs(1)).toBe(60 * 1000);
+    expect(deliveryRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+
+  it('skips an email another worker claimed first', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const service = new NotificationService(transport(send));
+    selectResults.push([queued(1, 0)]);
+    returningResults.push([]);
+
+    expect(await service.processDueNotifications()).toBe(0);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(updates).toHaveLength(1);
+  });
+
+  it('retries an email once the lease of a stopped worker runs out', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const service = new NotificationService(transport(send));
+    queueDue(queued(1, 1, { status: 'sending', nextAttemptAt: new Date(Date.now() - 1000) }));
+
+    expect(await service.processDueNotifications()).toBe(1);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(updates[0]).toMatchObject({ status: 'sending', attempts: 2 });
+    expect(updates[1]).toMatchObject({ status: 'sent' });
+  });
+
+  it('gives up on an email whose workers kept stopping', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    const service = new NotificationService(transport(send));
+    queueDue(queued(1, MAX_DELIVERY_ATTEMPTS, { status: 'sending' }));
+
+    expect(await service.processDueNotifications()).toBe(0);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(updates[1]).toMatchObject({ status: 'failed', nextAttemptAt: null });
+    expect(updates[1].lastError).toContain('interrupted');
+  });
+});
+
+describe('email delivery', () => {
+  it('escapes assignment titles in the HTML body', () => {
+    const email = renderEmail('assignment_opening', {
+      recipientName: 'Ada',
+      assignmentId: 7,
+      assignmentTitle: 'Essay <script>',
+      dueDate: assignment.dueDate
+    });
+
+    expect(email.html).toContain('Essay &lt;script&gt;');
+    expect(email.html).not.toContain('<script>');
+    expect(email.text).toContain('"Essay <script>" is now open for submissions.');
+  });
+
+  it('writes messages to a directory with the file transport', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    try {
+      await new FileTransport(directory).send({ to: 'ada@example.edu', subject: 'Hi', text: 'text', html: '<p>html</p>' });
+
+      const [file] = await fs.readdir(directory);
+      expect(JSON.parse(await fs.readFile(path.join(directory, file), 'utf8'))).toMatchObject({ to: 'ada@example.edu', subject: 'Hi' });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import JSZip from 'jszip';
+import {
+  MAX_PROJECT_FILES,
+  buildFileTree,
+  buildProjectPromptParts,
+  extractZipEntries,
+  getProjectFileMimeType,
+  normalizeProjectPath,
+  readUploadedProjectFiles,
+  type ProjectFileContent
+} from '../../server/utils/project-submission';
+import { estimateTokensForMultimodalParts, getMaxPromptTokens } from '../../server/utils/token-management';
+
+async function zip(files: Record<string, string>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    archive.file(name, content);
+  }
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+function textFile(filePath: string, text: string): ProjectFileContent {
+  return { path: filePath, contentType: 'text', mimeType: 'text/plain', content: text, textContent: text };
+}
+
+describe('project submissions', () => {
+  describe('extractZipEntries', () => {
+    it('unpacks files, removes the wrapping folder and skips metadata', async () => {
+      const entries = await extractZipEntries(await zip({
+        'lab3/README.md': '# Lab 3',
+        'lab3/src/main.py': 'print("hi")',
+        'lab3/src/__pycache__/main.cpython-311.pyc': 'bytecode',
+        'lab3/node_modules/left-pad/index.js': 'module.exports = 1',
+        'lab3/.DS_Store': 'x',
+        '__MACOSX/lab3/._main.py': 'x'
+      }));
+
+      expect(entries.map(entry => entry.path).sort()).toEqual(['README.md', 'src/main.py']);
+      expect(entries.find(entry => entry.path === 'src/main.py')?.content.toString()).toBe('print("hi")');
+    });
+
+    it('rejects invalid, empty and oversized archives', async () => {
+      await expect(extractZipEntries(Buffer.from('not a zip'))).rejects.toThrow('File is not a valid ZIP archive');
+      await expect(extractZipEntries(await zip({ '.DS_Store': 'x' }))).rejects.toThrow('Archive contains no files');
+
+      const tooMany: Record<string, string> = {};
+      for (let i = 0; i <= MAX_PROJECT_FILES; i++) tooMany[`file${i}.txt`] = 'x';
+      await expect(extractZipEntries(await zip(tooMany))).rejects.toThrow(`more than ${MAX_PROJECT_FILES} files`);
+
+      // Compresses to a few KB but expands past the 50MB limit
+      const bomb = new JSZip();
+      bomb.file('big.txt', Buffer.alloc(51 * 1024 * 1024, 'a'));
+      const bombBuffer = await bomb.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+      await expect(extractZipEntries(bombBuffer)).rejects.toThrow('Archive expands to more than 50MB');
+    });
+  });
+
+  it('keeps project paths inside the project', () => {
+    expect(normalizeProjectPath('./src\\util.py')).toBe('src/util.py');
+    expect(normalizeProjectPath('../../etc/passwd')).toBeUndefined();
+    expect(normalizeProjectPath('C:/Users/me/main.py')).toBeUndefined();
+    expect(normalizeProjectPath('.git/config')).toBeUndefined();
+  });
+
+  it('stores source files with a text MIME type', () => {
+    expect(getProjectFileMimeType('src/main.py')).toBe('text/plain');
+    expect(getProjectFileMimeType('Makefile')).toBe('text/plain');
+    expect(getProjectFileMimeType('index.ts')).toBe('text/typescript');
+    expect(getProjectFileMimeType('diagram.png')).toBe('image/png');
+    expect(getProjectFileMimeType('a.out', 'application/x-executable')).toBe('application/x-executable');
+  });
+
+  it('reads multi-file uploads using the paths sent as filenames', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'project-upload-'));
+    const upload = async (name: string, content: string) => {
+      const filePath = path.join(dir, `${Math.random()}`);
+      await fs.promises.writeFile(filePath, content);
+      return { originalname: name, path: filePath };
+    };
+
+    try {
+      const entries = await readUploadedProjectFiles([
+        await upload('app/main.java', 'class Main {}'),
+        await upload('app/Util.java', 'class Util {}')
+      ]);
+      expect(entries.map(entry => entry.path)).toEqual(['app/main.java', 'app/Util.java']);
+
+      await expect(readUploadedProjectFiles([await upload('a.py', ''), await upload('./a.py', '')]))
+        .rejects.toThrow('More than one file is named a.py');
+      await expect(readUploadedProjectFiles([await upload('code.zip', '')]))
+        .rejects.toThrow('ZIP archives must be uploaded on their own');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('renders a file tree with folders first', () => {
+    expect(buildFileTree(['README.md', 'src/main.py', 'src/utils/io.py', 'tests/test_main.py'])).toBe([
+      '├── src/',
+      '│   ├── utils/',
+      '│   │   └── io.py',
+      '│   └── main.py',
+      '├── tests/',
+      '│   └── test_main.py',
+      '└── README.md'
+    ].join('\n'));
+  });
+
+  describe('buildProjectPromptParts', () => {
+    it('sends the tree, then each file labelled with its path', () => {
+      const parts = buildProjectPromptParts([
+        textFile('src/main.py', 'print("hi")'),
+        { path: 'build.bin', contentType: 'text', mimeType: 'application/octet-stream', content: Buffer.alloc(4) },
+        { path: 'docs/diagram.png', contentType: 'image', mimeType: 'image/png', content: Buffer.alloc(4) }
+      ], 'gemini-1.0-pro');
+
+      expect(parts[0].content).toContain('Project submission (3 files):');
+      expect(parts[0].content).toContain('Not shown (binary or unsupported): build.bin');
+      expect(parts[1]).toEqual({ type: 'text', content: '### File: src/main.py\n```python\nprint("hi")\n```' });
+      expect(parts[2]).toEqual({ type: 'text', content: '### Image: docs/diagram.png' });
+      expect(parts[3]).toMatchObject({ type: 'image', mimeType: 'image/png' });
+    });
+
+    it('shares the token budget between files so one large file cannot crowd out the rest', () => {
+      const budget = getMaxPromptTokens('gemini-1.0-pro');
+      const parts = buildProjectPromptParts([
+        textFile('data/huge.csv', 'x'.repeat(budget * 8)),
+        textFile('src/analysis.py', 'import pandas')
+      ], 'gemini-1.0-pro');
+
+      expect(parts.map(part => String(part.content).split('\n')[0])).toEqual([
+        'Project submission (2 files):',
+        '### File: data/huge.csv',
+        '### File: src/analysis.py'
+      ]);
+      expect(parts[1].content).toContain('[File truncated to fit the token budget:');
+      expect(parts[2].content).toContain('import pandas');
+      expect(estimateTokensForMultimodalParts(parts)).toBeLessThanOrEqual(budget);
+    });
+  });
+});
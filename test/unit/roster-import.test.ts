@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+
+vi.mock('../../server/db', () => ({ db: {} }));
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getCourse: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getUserByMitHorizonSub: vi.fn(),
+    getEnrollment: vi.fn(),
+    createEnrollment: vi.fn(),
+    createUser: vi.fn(),
+    upsertCourseInvitation: vi.fn(),
+    listPendingInvitationsForUser: vi.fn(),
+    markCourseInvitationAccepted: vi.fn()
+  }
+}));
+
+import { parseRoster, rosterErrorReport } from '../../server/utils/roster-import';
+import { RosterImportService } from '../../server/services/roster-import-service';
+import { storage } from '../../server/storage';
+import type { User } from '../../shared/schema';
+
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const instructor = { id: 7, role: 'instructor' } as User;
+
+describe('roster files', () => {
+  it('reads registrar CSV headers, joining first and last names', async () => {
+    const rows = await parseRoster(
+      'Email Address,First Name,Last Name,MIT Horizon ID\nAda@Example.edu,Ada,Lovelace,\ngrace@example.edu,Grace,,hz-42\n',
+      'csv'
+    );
+
+    expect(rows).toEqual([
+      { row: 2, email: 'ada@example.edu', name: 'Ada Lovelace', mitHorizonSub: null },
+      { row: 3, email: 'grace@example.edu', name: 'Grace', mitHorizonSub: 'hz-42' }
+    ]);
+    await expect(parseRoster('Name,Student ID\nAda,1\n', 'csv')).rejects.toThrow(/email column/);
+  });
+
+  it('reads the first sheet of a base64 encoded workbook', async () => {
+    const archive = new JSZip();
+    archive.file('xl/workbook.xml', `<?xml version="1.0"?><workbook xmlns:r="${OFFICE_REL}"><sheets><sheet name="Roster" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+    archive.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0"?><Relationships xmlns="${REL_NS}"><Relationship Id="rId1" Type="${OFFICE_REL}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`);
+    archive.file('xl/worksheets/sheet1.xml', '<?xml version="1.0"?><worksheet><sheetData>' +
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c><c r="B1" t="inlineStr"><is><t>Email</t></is></c></row>' +
+      '<row r="2"><c r="A2" t="inlineStr"><is><t>Ada Lovelace</t></is></c><c r="B2" t="inlineStr"><is><t>ada@example.edu</t></is></c></row>' +
+      '</sheetData></worksheet>');
+    const content = (await archive.generateAsync({ type: 'nodebuffer' })).toString('base64');
+
+    expect(await parseRoster(content, 'xlsx')).toEqual([{ row: 2, email: 'ada@example.edu', name: 'Ada Lovelace', mitHorizonSub: null }]);
+  });
+
+  it('writes rejected rows as a CSV report', () => {
+    expect(rosterErrorReport([{ row: 4, email: 'bad', name: 'Bo', reason: 'Invalid email address' }]))
+      .toBe('row,email,name,reason\n4,bad,Bo,Invalid email address\n');
+  });
+});
+
+describe('RosterImportService', () => {
+  const service = new RosterImportService();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getCourse).mockResolvedValue({ id: 3 } as any);
+    vi.mocked(storage.getUserByEmail).mockImplementation(async (email: string) => ({
+      'ada@example.edu': { id: 10, role: 'student', mitHorizonSub: null },
+      'tim@example.edu': { id: 11, role: 'instructor', mitHorizonSub: null }
+    } as Record<string, any>)[email]);
+    vi.mocked(storage.getUserByMitHorizonSub).mockResolvedValue(undefined);
+    vi.mocked(storage.getEnrollment).mockResolvedValue(undefined);
+    vi.mocked(storage.createUser).mockResolvedValue({ id: 20 } as User);
+  });
+
+  it('enrolls, provisions, invites and rejects rows', async () => {
+    const result = await service.importRoster(3, instructor, [
+      { row: 2, email: 'ada@example.edu', name: 'Ada', mitHorizonSub: null },
+      { row: 3, email: 'new@example.edu', name: 'New Student', mitHorizonSub: null },
+      { row: 4, email: 'sso@example.edu', name: '', mitHorizonSub: 'hz-1' },
+      { row: 5, email: 'tim@example.edu', name: 'Tim', mitHorizonSub: null },
+      { row: 6, email: 'ADA@example', name: 'Ada', mitHorizonSub: null },
+      { row: 7, email: 'ada@example.edu', name: 'Ada', mitHorizonSub: null }
+    ]);
+
+    expect(result).toMatchObject({ enrolled: 2, accountsCreated: 1, invited: 1, alreadyEnrolled: 0 });
+    expect(result.rejected.map(row => [row.row, row.reason])).toEqual([
+      [5, 'tim@example.edu belongs to an instructor account'],
+      [6, 'Invalid email address'],
+      [7, 'Duplicate of row 2']
+    ]);
+    expect(result.errorReport).toContain('7,ada@example.edu,Ada,Duplicate of row 2');
+    expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 10, courseId: 3 });
+    expect(storage.createEnrollment).toHaveBeenCalledWith({ userId: 20, courseId: 3 });
+    expect(storage.upsertCourseInvitation).toHaveBeenCalledWith({ courseId: 3, email: 'sso@example.edu', name: null, mitHorizonSub: 'hz-1', invitedBy: 7 });
+  });
+
+  it('enrolls invited students when they sign in through MIT Horizon', async () => {
+    vi.mocked(storage.listPendingInvitationsForUser).mockResolvedValue([{ id: 1, courseId: 3 }, { id: 2, courseId: 4 }] as any);
+    vi.mocked(storage.getEnrollment).mockResolvedValueOnce(undefined).mockResolvedValueOnce({ id: 9 } as any);
+
+    expect(await service.acceptInvitations({ id: 30, email: 'sso@example.edu', mitHorizonSub: 'hz-1' }, true)).toBe(2);
+    expect(storage.listPendingInvitationsForUser).toHaveBeenCalledWith('hz-1', 'sso@example.edu');
+    expect(storage.createEnrollment).toHaveBeenCalledTimes(1);
+    expect(storage.markCourseInvitationAccepted).toHaveBeenCalledWith(2, 30);
+  });
+
+  it('only matches invitations by email when MIT Horizon verified it', async () => {
+    vi.mocked(storage.listPendingInvitationsForUser).mockResolvedValue([]);
+
+    await service.acceptInvitations({ id: 30, email: 'sso@example.edu', mitHorizonSub: 'hz-1' }, false);
+
+    expect(storage.listPendingInvitationsForUser).toHaveBeenCalledWith('hz-1', null);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyRubricLevels, GradingSchema } from '../../server/schemas/gradingSchema';
+import { AIService } from '../../server/services/ai-service';
+import { rubricSchema, type Rubric } from '../../shared/schema';
+
+const rubric: Rubric = {
+  criteria: [
+    {
+      id: 'thesis',
+      type: 'other',
+      name: 'Thesis',
+      description: 'A clear, arguable claim',
+      maxScore: 10,
+      weight: 60,
+      levels: [
+        { name: 'Exemplary', description: 'Precise and arguable', minScore: 9, maxScore: 10 },
+        { name: 'Proficient', description: 'Clear but broad', minScore: 7, maxScore: 8 },
+        { name: 'Developing', description: 'Present but vague', minScore: 5, maxScore: 6 },
+        { name: 'Beginning', description: 'Missing or unclear', minScore: 0, maxScore: 4 }
+      ]
+    },
+    { id: 'style', type: 'other', name: 'Style', description: 'Readable prose', maxScore: 5, weight: 40 }
+  ]
+};
+
+describe('analytic rubric levels', () => {
+  it('accepts level choices in grading responses', () => {
+    const parsed = GradingSchema.parse({
+      strengths: [], improvements: [], suggestions: [], summary: 'ok', score: 80,
+      criteriaScores: [{ criteriaId: 'thesis', score: 8, feedback: 'Clear', level: 'Proficient', levelJustification: 'Arguable but broad' }]
+    });
+
+    expect(parsed.criteriaScores?.[0]).toMatchObject({ level: 'Proficient', levelJustification: 'Arguable but broad' });
+  });
+
+  it('clamps scores into the chosen level and matches names without case', () => {
+    const [thesis] = applyRubricLevels([
+      { criteriaId: 'thesis', score: 9.5, feedback: '', level: 'proficient', levelJustification: 'Broad claim' }
+    ], rubric)!;
+
+    expect(thesis).toEqual({ criteriaId: 'thesis', score: 8, feedback: '', level: 'Proficient', levelJustification: 'Broad claim' });
+  });
+
+  it('derives missing or unknown levels from the score and drops levels on unleveled criteria', () => {
+    expect(applyRubricLevels([
+      { criteriaId: 'thesis', score: 5.5, feedback: '', level: 'Great' },
+      { criteriaId: 'style', score: 4, feedback: '', level: 'Exemplary', levelJustification: 'n/a' }
+    ], rubric)).toEqual([
+      { criteriaId: 'thesis', score: 5.5, feedback: '', level: 'Developing' },
+      { criteriaId: 'style', score: 4, feedback: '' }
+    ]);
+    expect(applyRubricLevels([{ criteriaId: 'thesis', score: 3, feedback: '' }], rubric)![0].level).toBe('Beginning');
+  });
+
+  it('rejects levels worth more than the criterion or with duplicate names', () => {
+    expect(rubricSchema.safeParse(rubric).success).toBe(true);
+
+    const tooHigh = structuredClone(rubric);
+    tooHigh.criteria[0].levels![0].maxScore = 12;
+    expect(rubricSchema.safeParse(tooHigh).error?.issues[0].path).toEqual(['criteria', 0, 'levels', 0, 'maxScore']);
+
+    const duplicate = structuredClone(rubric);
+    duplicate.criteria[0].levels![1].name = 'exemplary';
+    expect(rubricSchema.safeParse(duplicate).error?.issues[0].message).toMatch(/unique/);
+  });
+
+  it('asks the model to pick a level with a justification', async () => {
+    const generateCompletion = vi.fn(async () => ({
+      strengths: [], improvements: [], suggestions: [], summary: '', modelName: 'test', rawResponse: {}, tokenCount: 0
+    }));
+    const service = new AIService({ generateCompletion } as any);
+
+    await service.analyzeSubmission({ studentSubmissionContent: 'Essay', assignmentTitle: 'Essay', rubric });
+    const prompt = (generateCompletion.mock.calls[0] as unknown[])[0] as string;
+
+    expect(prompt).toContain('"Proficient" (7-8 points): Clear but broad');
+    expect(prompt).toContain('"levelJustification"');
+    expect(prompt).toContain('choose exactly one level by its name');
+  });
+});
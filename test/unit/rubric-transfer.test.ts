@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { exportRubric, importRubric } from '../../server/utils/rubric-transfer';
+import { BadRequestError } from '../../server/lib/error-handler';
+import type { Rubric } from '../../shared/schema';
+
+const rubric: Rubric = {
+  criteria: [
+    { id: '1716301', type: 'functionality', name: 'Correctness', description: 'Handles the edge cases, e.g. "empty input"', maxScore: 40, weight: 60 },
+    { id: '1716302', type: 'documentation', name: 'Comments, docs', description: 'Explains why', maxScore: 10, weight: 40 }
+  ],
+  passingThreshold: 70
+};
+
+describe('rubric import and export', () => {
+  it('round-trips JSON exports, giving criteria fresh IDs', () => {
+    const file = exportRubric({ name: 'Lab rubric', description: 'Weekly labs', version: 3, rubric }, 'json');
+    const imported = importRubric(file, 'json');
+
+    expect(imported.name).toBe('Lab rubric');
+    expect(imported.description).toBe('Weekly labs');
+    expect(imported.rubric.passingThreshold).toBe(70);
+    expect(imported.rubric.criteria.map(criterion => criterion.id)).toEqual(['criterion-1', 'criterion-2']);
+    expect(imported.rubric.criteria[0]).toMatchObject({ name: 'Correctness', maxScore: 40, weight: 60 });
+  });
+
+  it('accepts a bare rubric as JSON', () => {
+    expect(importRubric(JSON.stringify(rubric), 'json').rubric.criteria).toHaveLength(2);
+  });
+
+  it('round-trips CSV exports with quoted commas and quotes', () => {
+    const file = exportRubric({ name: 'Lab rubric', rubric }, 'csv');
+    expect(file.split('\n')[0]).toBe('name,type,description,maxScore,weight');
+
+    const imported = importRubric(file, 'csv');
+    expect(imported.rubric.criteria).toEqual([
+      { id: 'criterion-1', type: 'functionality', name: 'Correctness', description: 'Handles the edge cases, e.g. "empty input"', maxScore: 40, weight: 60 },
+      { id: 'criterion-2', type: 'documentation', name: 'Comments, docs', description: 'Explains why', maxScore: 10, weight: 40 }
+    ]);
+  });
+
+  it('reads spreadsheet headers loosely and spreads missing weights evenly', () => {
+    const csv = 'Criterion,Category,Points\nThesis,Problem Solving,10\nEvidence,citations,20\nStyle,,5\n';
+    const { rubric: imported } = importRubric(csv, 'csv');
+
+    expect(imported.criteria.map(criterion => [criterion.name, criterion.type, criterion.maxScore, criterion.weight])).toEqual([
+      ['Thesis', 'problem_solving', 10, 34],
+      ['Evidence', 'other', 20, 33],
+      ['Style', 'other', 5, 33]
+    ]);
+  });
+
+  it('reports which CSV row is invalid', () => {
+    expect(() => importRubric('name,maxScore\nThesis,10\nEvidence,lots\n', 'csv')).toThrow(/row 3 \(maxScore\)/);
+    expect(() => importRubric('title,description\nThesis,Clear\n', 'csv')).toThrow(BadRequestError);
+    expect(() => importRubric('{not json', 'json')).toThrow('The rubric file is not valid JSON');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/db', () => ({ db: {} }));
+vi.mock('../../server/storage', () => ({ storage: {} }));
+vi.mock('../../server/utils/multimodal-processor', () => ({ processFileForMultimodal: vi.fn() }));
+
+import {
+  compareFingerprints,
+  findMatchingRegions,
+  fingerprintHashes,
+  tokenize
+} from '../../server/utils/similarity';
+import { latestPerStudent, scoreSubmissionPairs } from '../../server/services/similarity-service';
+
+const original = `
+def average(values):
+    # Sum everything, then divide
+    total = 0
+    for value in values:
+        total = total + value
+    return total / len(values)
+
+def spread(values):
+    return max(values) - min(values)
+`;
+
+const renamed = `
+def mean(nums):
+    """Copied, with new names"""
+    acc = 0
+    for n in nums:
+        acc = acc + n
+    return acc / len(nums)
+
+def spread(nums):
+    return max(nums) - min(nums)
+`;
+
+const unrelated = `
+class Stack:
+    def __init__(self):
+        self.items = []
+    def push(self, item):
+        self.items.append(item)
+    def pop(self):
+        return self.items.pop()
+`;
+
+describe('similarity fingerprints', () => {
+  it('ignores identifiers, comments and whitespace in code', () => {
+    const values = (code: string) => tokenize(code, 'code').map(token => token.value).join(' ');
+
+    expect(values('total = total + value  # running sum')).toBe('V = V + V');
+    expect(values('x=x+y')).toBe('V = V + V');
+    expect(values('if (n > 10) { return "big"; }')).toBe('if ( V > N ) { return S ; }');
+  });
+
+  it('scores renamed code as a full match and different code as no match', () => {
+    const hashes = (code: string) => fingerprintHashes(tokenize(code, 'code'), 'code');
+
+    expect(compareFingerprints(hashes(original), hashes(renamed)).score).toBe(100);
+    expect(compareFingerprints(hashes(original), hashes(unrelated)).score).toBe(0);
+  });
+
+  it('compares prose regardless of case and punctuation, and marks the shared passage', () => {
+    const a = 'Photosynthesis converts light energy into chemical energy stored in glucose. Plants are green.';
+    const b = 'My essay: photosynthesis converts light energy into chemical energy, stored in glucose!';
+    const tokensA = tokenize(a, 'text');
+    const tokensB = tokenize(b, 'text');
+
+    expect(compareFingerprints(fingerprintHashes(tokensA, 'text'), fingerprintHashes(tokensB, 'text')).score).toBeGreaterThan(50);
+
+    const regions = findMatchingRegions(tokensA, tokensB, 'text');
+    expect(regions.a).toHaveLength(1);
+    expect(a.slice(regions.a[0][0], regions.a[0][1])).toContain('light energy into chemical energy');
+    expect(b.slice(regions.b[0][0], regions.b[0][1])).toContain('light energy into chemical energy');
+  });
+});
+
+describe('scoreSubmissionPairs', () => {
+  const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+  it('pairs different students only and leaves out fingerprints most submissions share', () => {
+    const starter = range(1000, 10);
+    const rows = scoreSubmissionPairs(3, [
+      { submissionId: 4, userId: 1, kind: 'code', hashes: [...starter, ...range(1, 10)] },
+      { submissionId: 9, userId: 4, kind: 'code', hashes: range(1, 10) },
+      { submissionId: 2, userId: 2, kind: 'code', hashes: [...starter, ...range(1, 5), ...range(50, 5)] },
+      { submissionId: 6, userId: 3, kind: 'code', hashes: [...starter, ...range(100, 10)] },
+      { submissionId: 8, userId: 4, kind: 'code', hashes: [...starter, ...range(200, 10)] },
+      { submissionId: 11, userId: 6, kind: 'code', hashes: [...starter, ...range(300, 10)] },
+      { submissionId: 10, userId: 5, kind: 'text', hashes: range(1, 10) }
+    ]);
+
+    expect(rows).toEqual([
+      { assignmentId: 3, submissionAId: 4, submissionBId: 9, kind: 'code', score: 100, sharedFingerprints: 10 },
+      { assignmentId: 3, submissionAId: 2, submissionBId: 4, kind: 'code', score: 50, sharedFingerprints: 5 },
+      { assignmentId: 3, submissionAId: 2, submissionBId: 9, kind: 'code', score: 50, sharedFingerprints: 5 }
+    ]);
+  });
+
+  it('keeps each student\'s most recent submission', () => {
+    const at = (iso: string) => new Date(iso);
+    const latest = latestPerStudent([
+      { id: 1, userId: 1, createdAt: at('2026-03-01T10:00:00Z') },
+      { id: 2, userId: 1, createdAt: at('2026-03-02T10:00:00Z') },
+      { id: 3, userId: 2, createdAt: at('2026-03-01T10:00:00Z') }
+    ] as any);
+
+    expect(latest.map(submission => submission.id)).toEqual([2, 3]);
+  });
+});
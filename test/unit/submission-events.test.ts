@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    updateSubmissionStatus: vi.fn(async (id: number, status: string) => ({ id, assignmentId: 4, userId: 9, status }))
+  }
+}));
+
+vi.mock('../../server/services/notifications/notification-service', () => ({
+  notificationService: { notifySubmissionFailed: vi.fn().mockResolvedValue(true) }
+}));
+
+vi.mock('../../server/services/notifications/inbox-service', () => ({
+  inboxService: { notifySubmissionFailed: vi.fn().mockResolvedValue(1) }
+}));
+
+import { SubmissionEventHub, submissionEvents, setSubmissionStatus } from '../../server/services/submission-events';
+import { extractPartialFeedback } from '../../server/utils/partial-feedback';
+import { storage } from '../../server/storage';
+import { notificationService } from '../../server/services/notifications/notification-service';
+import { inboxService } from '../../server/services/notifications/inbox-service';
+import type { SubmissionEvent } from '../../shared/schema';
+
+describe('SubmissionEventHub', () => {
+  it('delivers events only to the submitting user until they unsubscribe', () => {
+    const hub = new SubmissionEventHub();
+    const mine: SubmissionEvent[] = [];
+    const theirs: SubmissionEvent[] = [];
+    const unsubscribe = hub.subscribe(1, event => mine.push(event));
+    hub.subscribe(2, event => theirs.push(event));
+
+    hub.publishStatus({ id: 10, assignmentId: 3, userId: 1, status: 'processing' });
+    hub.publishPartialFeedback({ id: 10, assignmentId: 3, userId: 1 }, { summary: 'Good start' });
+    unsubscribe();
+    hub.publishStatus({ id: 10, assignmentId: 3, userId: 1, status: 'completed' });
+
+    expect(mine).toEqual([
+      { type: 'status', submissionId: 10, assignmentId: 3, status: 'processing' },
+      { type: 'partial_feedback', submissionId: 10, assignmentId: 3, feedback: { summary: 'Good start' } }
+    ]);
+    expect(theirs).toEqual([]);
+    expect(hub.listenerCount(1)).toBe(0);
+  });
+
+  it('publishes the stored status after updating a submission and reports failures', async () => {
+    const listener = vi.fn();
+    const unsubscribe = submissionEvents.subscribe(9, listener);
+
+    await setSubmissionStatus(12, 'failed');
+    unsubscribe();
+
+    expect(storage.updateSubmissionStatus).toHaveBeenCalledWith(12, 'failed');
+    expect(listener).toHaveBeenCalledWith({ type: 'status', submissionId: 12, assignmentId: 4, status: 'failed' });
+    expect(notificationService.notifySubmissionFailed).toHaveBeenCalledWith(12);
+    expect(inboxService.notifySubmissionFailed).toHaveBeenCalledWith(12);
+  });
+});
+
+describe('extractPartialFeedback', () => {
+  it('returns only the sections completed so far', () => {
+    expect(extractPartialFeedback('{"strengths": ["Clear naming", "Handles empty in')).toEqual({
+      strengths: ['Clear naming']
+    });
+    expect(extractPartialFeedback('{"strengths": ["Clear naming"], "summary": "Well \\"structured\\"", "improvements": [')).toEqual({
+      strengths: ['Clear naming'],
+      summary: 'Well "structured"'
+    });
+  });
+
+  it('reads a complete response in full and ignores scores', () => {
+    const response = JSON.stringify({
+      strengths: ['A'],
+      improvements: ['B', 'C'],
+      suggestions: [],
+      summary: 'Done',
+      score: 90,
+      criteriaScores: [{ criteriaId: 'c1', score: 9, feedback: 'Fine' }]
+    });
+
+    expect(extractPartialFeedback(response)).toEqual({ strengths: ['A'], improvements: ['B', 'C'], summary: 'Done' });
+    expect(extractPartialFeedback('{"summary": "Half a sent')).toEqual({});
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { assessWritingSignals, computeWritingStats } from '../../server/utils/writing-signals';
+
+const personal = `
+I didn't expect much from the field trip. Honestly, the bus ride was two hours and my phone died
+halfway there, so I spent most of it staring at cornfields and wondering why anyone would build a
+museum in the middle of nowhere. Then we got there. The first room was just rocks. Big ones. But our
+guide, an older woman with a loud laugh, picked one up and told us it was older than the dinosaurs,
+and suddenly the whole class went quiet. She let us hold it. It was heavy and cold and kind of
+disappointing to look at, which I think was her point. Later we walked along the creek behind the
+building and looked for fossils in the shale. Marcus found a tiny shell print and would not stop
+talking about it for the rest of the day. I found nothing. I still liked it though. On the way home
+I kept thinking about how long that rock had been sitting there before anyone noticed it, and how
+weird it is that a place can look boring and still be full of stories if somebody bothers to dig. My
+phone was still dead. I didn't mind.
+`;
+
+const formulaic = `
+Photosynthesis plays a crucial role in sustaining life on our planet and its ecosystems.
+Furthermore, this remarkable process converts sunlight into chemical energy for plants. Moreover, it
+provides the oxygen that most living organisms require for survival. Additionally, photosynthesis
+forms the foundation of nearly every food chain on Earth. It is important to note that chlorophyll
+captures light energy within the chloroplasts. The light reactions generate energy carriers that
+power the Calvin cycle. The Calvin cycle then fixes carbon dioxide into stable organic sugar
+molecules. Overall, these interconnected stages demonstrate remarkable biological efficiency and
+precision. Furthermore, environmental factors significantly influence the overall rate of
+photosynthesis. Temperature, light intensity, and carbon dioxide concentration all affect
+productivity. Moreover, understanding these factors helps scientists improve agricultural crop
+yields. Additionally, researchers continue to explore artificial photosynthesis for renewable
+energy. In conclusion, photosynthesis represents a fundamental process that underscores ecological
+balance. It is important to note that protecting plant life remains essential for future
+generations. Overall, this multifaceted process showcases the intricate tapestry of life on Earth.
+`;
+
+describe('writing signals', () => {
+  it('does not measure texts that are too short', () => {
+    expect(computeWritingStats('Too short to say anything about. Really.')).toBeUndefined();
+    expect(assessWritingSignals(undefined)).toEqual({ level: 'insufficient_text', signals: [] });
+  });
+
+  it('measures sentence variation, word length and stock phrases', () => {
+    const varied = computeWritingStats(personal)!;
+    const even = computeWritingStats(formulaic)!;
+
+    expect(varied.wordCount).toBe(200);
+    expect(varied.burstiness).toBeGreaterThan(0.6);
+    expect(even.burstiness).toBeLessThan(0.25);
+    expect(even.meanWordLength).toBeGreaterThan(varied.meanWordLength);
+    expect(varied.stockPhraseRate).toBe(0);
+    expect(even.stockPhraseRate).toBeGreaterThan(6);
+  });
+
+  it('rates personal writing low and formulaic writing high, explaining why', () => {
+    expect(assessWritingSignals(computeWritingStats(personal))).toEqual({ level: 'low', signals: [] });
+
+    const result = assessWritingSignals(computeWritingStats(formulaic));
+    expect(result.level).toBe('high');
+    expect(result.signals.map(signal => signal.id)).toEqual(['low_burstiness', 'elevated_vocabulary', 'stock_phrases']);
+    expect(result.signals[0].detail).toContain('Sentence lengths are unusually even');
+  });
+
+  it('reports drift from the student\'s earlier writing once there is enough of it', () => {
+    const earlier = computeWritingStats(personal)!;
+    const current = computeWritingStats(formulaic);
+
+    expect(assessWritingSignals(current, [earlier]).signals.map(signal => signal.id)).not.toContain('baseline_drift');
+
+    const drift = assessWritingSignals(current, [earlier, earlier]).signals.find(signal => signal.id === 'baseline_drift');
+    expect(drift?.detail).toContain('2 earlier submissions');
+    expect(drift?.detail).toContain('function word usage');
+    expect(assessWritingSignals(earlier, [earlier, earlier]).signals).toEqual([]);
+  });
+});